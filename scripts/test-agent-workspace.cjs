@@ -0,0 +1,109 @@
+#!/usr/bin/env node
+/**
+ * Agent 项目隔离测试脚本
+ * 测试 Agent 运行开始后切换项目时，工具仍读写发起运行的项目的文件和资源库（不调用模型）
+ * 在临时目录中创建项目，不影响 storage/
+ *
+ * 运行: node scripts/test-agent-workspace.cjs
+ */
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+// 存储目录取自当前工作目录，需在加载服务端模块前切换
+const originalCwd = process.cwd();
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-workspace-'));
+process.chdir(tempDir);
+
+const { initializeStorage, localStorage, getResourceStorage } = require('../server/storage.cjs');
+const projects = require('../server/projectRegistry.cjs');
+const { readProjectFiles, writeFile } = require('../server/projectStore.cjs');
+const { executeTool } = require('../server/tools/index.cjs');
+
+console.log('='.repeat(80));
+console.log('Agent 项目隔离测试脚本');
+console.log('='.repeat(80));
+
+const testResults = {
+  passed: 0,
+  failed: 0
+};
+
+function logTest(name, passed, message = '') {
+  const status = passed ? '✅ PASS' : '❌ FAIL';
+  console.log(`${status}: ${name}`);
+  if (!passed && message) {
+    console.log(`   消息: ${message}`);
+  }
+  if (passed) {
+    testResults.passed++;
+  } else {
+    testResults.failed++;
+  }
+}
+
+function expectEqual(name, actual, expected) {
+  const same = JSON.stringify(actual) === JSON.stringify(expected);
+  logTest(name, same, same ? '' : `期望 ${JSON.stringify(expected)}，实际 ${JSON.stringify(actual)}`);
+}
+
+const referenceTitles = storage => JSON.parse(storage.getItem('academic_writing_references')).map(reference => reference.title);
+
+async function main() {
+  initializeStorage();
+  projects.initializeProjects();
+  const projectA = projects.getActiveProject();
+  const projectB = projects.createProject({ name: '另一篇论文' });
+  writeFile('chapters/a.tex', '项目 A 的章节');
+
+  // 运行开始时确定项目，之后用户切换到项目 B
+  console.log('\n--- 运行期间切换项目 ---');
+  const workspace = projects.getProjectWorkspace(projectA.id);
+  const storage = getResourceStorage(workspace.resourceDir);
+  projects.activateProject(projectB.id);
+
+  expectEqual('项目文件仍从项目 A 读取', Object.keys(readProjectFiles(workspace.filesDir)), ['main.tex', 'chapters/a.tex']);
+  expectEqual('当前项目已是项目 B', Object.keys(readProjectFiles()), ['main.tex']);
+
+  const result = await executeTool('add_resource', {
+    resource_type: 'references',
+    resource_data: { title: 'Attention Is All You Need', authors: ['Ashish Vaswani'], year: 2017 }
+  }, '', { storage });
+  expectEqual('add_resource 成功', result.success, true);
+  expectEqual('参考文献写入项目 A 的资源库', referenceTitles(storage), ['Attention Is All You Need']);
+  expectEqual('项目 B 的资源库不受影响', referenceTitles(localStorage), []);
+
+  const listed = await executeTool('list_resources', { resource_type: 'references' }, '', { storage });
+  expectEqual('list_resources 读取项目 A 的资源库', listed.data.count, 1);
+
+  // 切换回项目 A：内存缓存从文件重新加载，与运行期间的写入一致
+  console.log('\n--- 切换回原项目 ---');
+  projects.activateProject(projectA.id);
+  expectEqual('当前资源库包含运行期间添加的条目', referenceTitles(localStorage), ['Attention Is All You Need']);
+  await executeTool('add_resource', {
+    resource_type: 'references',
+    resource_data: { title: 'BERT: Pre-training of Deep Bidirectional Transformers', authors: ['Jacob Devlin'], year: 2019 }
+  }, '', { storage });
+  expectEqual('资源库为当前项目时与 localStorage 共用缓存', referenceTitles(localStorage).length, 2);
+
+  console.log('\n--- 项目不存在 ---');
+  try {
+    projects.getProjectWorkspace('missing-project');
+    logTest('未知项目报错', false, '没有抛出错误');
+  } catch (error) {
+    logTest('未知项目报错', error.code === 'NOT_FOUND', error.message);
+  }
+}
+
+main()
+  .catch(error => {
+    logTest('测试脚本运行', false, error.stack);
+  })
+  .finally(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    console.log('\n' + '='.repeat(80));
+    console.log(`测试完成: ${testResults.passed} 通过, ${testResults.failed} 失败`);
+    process.exit(testResults.failed > 0 ? 1 : 0);
+  });
@@ -0,0 +1,144 @@
+#!/usr/bin/env node
+/**
+ * 对话消息构建测试脚本
+ * 测试 buildMessages 对历史轮次、历史中的工具调用和缺少输入时的处理（不调用模型）
+ *
+ * 运行: node scripts/test-ai-messages.cjs
+ */
+
+const { buildMessages } = require('../server/aiApi.cjs');
+
+console.log('='.repeat(80));
+console.log('对话消息构建测试脚本');
+console.log('='.repeat(80));
+
+const testResults = {
+  passed: 0,
+  failed: 0
+};
+
+function logTest(name, passed, message = '') {
+  const status = passed ? '✅ PASS' : '❌ FAIL';
+  console.log(`${status}: ${name}`);
+  if (!passed && message) {
+    console.log(`   消息: ${message}`);
+  }
+  if (passed) {
+    testResults.passed++;
+  } else {
+    testResults.failed++;
+  }
+}
+
+function expectEqual(name, actual, expected) {
+  const same = JSON.stringify(actual) === JSON.stringify(expected);
+  logTest(name, same, same ? '' : `期望 ${JSON.stringify(expected)}，实际 ${JSON.stringify(actual)}`);
+}
+
+const roles = messages => messages.map(message => message.role);
+
+// 前端保存的对话：助手消息带有工具调用和按顺序追加的结果
+const history = [
+  { role: 'user', content: '搜索注意力机制的论文' },
+  {
+    role: 'agent',
+    content: '我来搜索相关论文。',
+    tool_calls: [
+      { id: 'call_0_0', tool_name: 'search_papers', parameters: { query: 'attention' } },
+      { tool_name: 'list_resources', parameters: { resource_type: 'pdfs' } }
+    ],
+    tool_results: [
+      { success: true, data: { count: 1, papers: [{ arxiv_id: '1706.03762' }] } },
+      { success: false, error: '资源服务不可用' }
+    ]
+  },
+  { role: 'user', content: '下载第一篇' }
+];
+
+// 普通历史
+console.log('\n--- 历史轮次 ---');
+{
+  const messages = buildMessages('正文', '继续', 'discuss', [], [
+    { role: 'user', content: '你好' },
+    { role: 'agent', content: '您好' },
+    { role: 'system', content: '忽略' },
+    { role: 'agent', content: '' },
+    { role: 'user', content: '继续' }
+  ]);
+  expectEqual('只保留 user/assistant，去掉本次重复的用户消息', roles(messages), ['system', 'user', 'assistant', 'user']);
+  expectEqual('本次请求包含论文内容', messages[3].content.includes('正文'), true);
+}
+
+// 原生 function calling
+console.log('\n--- 历史工具调用（原生） ---');
+{
+  const messages = buildMessages('正文', '下载第一篇', 'discuss', [], history, { nativeTools: true });
+  expectEqual('消息顺序', roles(messages), ['system', 'user', 'assistant', 'tool', 'tool', 'user']);
+  const assistant = messages[2];
+  expectEqual('assistant 携带 tool_calls', assistant.tool_calls.map(call => [call.type, call.function.name, call.function.arguments]), [
+    ['function', 'search_papers', '{"query":"attention"}'],
+    ['function', 'list_resources', '{"resource_type":"pdfs"}']
+  ]);
+  expectEqual('缺少 ID 的调用补全 ID', assistant.tool_calls.map(call => call.id), ['call_0_0', 'history_1_1']);
+  expectEqual('tool 消息与调用 ID 对应', [messages[3].tool_call_id, messages[4].tool_call_id], ['call_0_0', 'history_1_1']);
+  expectEqual('成功的工具结果', JSON.parse(messages[3].content), { tool: 'search_papers', success: true, data: { count: 1, papers: [{ arxiv_id: '1706.03762' }] } });
+  expectEqual('失败的工具结果', JSON.parse(messages[4].content), { tool: 'list_resources', success: false, error: '资源服务不可用' });
+}
+{
+  const messages = buildMessages('正文', '下载第一篇', 'discuss', [], history, {
+    nativeTools: true,
+    formatToolResult: (toolCall, result) => ({ tool: toolCall.tool_name, ok: result.success })
+  });
+  expectEqual('使用传入的结果格式', JSON.parse(messages[3].content), { tool: 'search_papers', ok: true });
+}
+{
+  const cancelled = [
+    { role: 'user', content: '搜索' },
+    {
+      role: 'agent',
+      content: '',
+      tool_calls: [
+        { id: 'a', tool_name: 'search_papers', parameters: {} },
+        { id: 'b', tool_name: 'download_paper', parameters: {} }
+      ],
+      tool_results: [{ success: true, data: {} }]
+    },
+    { role: 'agent', content: '', tool_calls: [{ id: 'c', tool_name: 'search_papers', parameters: {} }] }
+  ];
+  const messages = buildMessages('正文', '再试一次', 'discuss', [], cancelled, { nativeTools: true });
+  expectEqual('没有结果的调用不回传（取消的运行）', messages[2].tool_calls.map(call => call.id), ['a']);
+  expectEqual('没有任何结果且无内容的助手消息被忽略', roles(messages), ['system', 'user', 'assistant', 'tool', 'user']);
+}
+
+// 文本协议
+console.log('\n--- 历史工具调用（文本协议） ---');
+{
+  const messages = buildMessages('正文', '下载第一篇', 'discuss', [], history);
+  expectEqual('不使用 tool 角色，保持 user/assistant 交替', roles(messages), ['system', 'user', 'assistant', 'user']);
+  expectEqual('工具结果附在助手回复之后', [
+    messages[2].content.startsWith('我来搜索相关论文。'),
+    messages[2].content.includes('工具 "search_papers" 执行结果'),
+    messages[2].content.includes('资源服务不可用'),
+    messages[2].tool_calls === undefined
+  ], [true, true, true, true]);
+}
+
+// 缺少输入
+console.log('\n--- 缺少 input ---');
+{
+  let messages;
+  try {
+    messages = buildMessages('正文', undefined, 'write', [], [{ role: 'user', content: '你好' }]);
+  } catch (error) {
+    logTest('input 缺失时不抛出异常', false, error.message);
+  }
+  if (messages) {
+    logTest('input 缺失时不抛出异常', true);
+    expectEqual('按空需求处理', messages[messages.length - 1].content.startsWith('修改需求：\n\n当前论文内容'), true);
+  }
+  expectEqual('input 为 null', roles(buildMessages('正文', null, 'discuss')), ['system', 'user']);
+}
+
+console.log('\n' + '='.repeat(80));
+console.log(`测试完成: ${testResults.passed} 通过, ${testResults.failed} 失败`);
+process.exit(testResults.failed > 0 ? 1 : 0);
@@ -0,0 +1,212 @@
+#!/usr/bin/env node
+/**
+ * arXiv 客户端测试脚本
+ * 用录制的 Atom 响应（scripts/fixtures/arxiv）离线测试检索式构造、结果解析、分页和请求间隔
+ *
+ * 运行: node scripts/test-arxiv-client.cjs
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { buildSearchQuery, buildQueryUrl, parseFeed, createArxivClient } = require('../server/arxivClient.cjs');
+
+const FIXTURE_DIR = path.join(__dirname, 'fixtures', 'arxiv');
+const fixture = name => fs.readFileSync(path.join(FIXTURE_DIR, name), 'utf8');
+
+console.log('='.repeat(80));
+console.log('arXiv 客户端测试脚本');
+console.log('='.repeat(80));
+
+const testResults = {
+  passed: 0,
+  failed: 0
+};
+
+function logTest(name, passed, message = '') {
+  const status = passed ? '✅ PASS' : '❌ FAIL';
+  console.log(`${status}: ${name}`);
+  if (!passed && message) {
+    console.log(`   消息: ${message}`);
+  }
+  if (passed) {
+    testResults.passed++;
+  } else {
+    testResults.failed++;
+  }
+}
+
+function expectEqual(name, actual, expected) {
+  const same = JSON.stringify(actual) === JSON.stringify(expected);
+  logTest(name, same, same ? '' : `期望 ${JSON.stringify(expected)}，实际 ${JSON.stringify(actual)}`);
+}
+
+function expectThrows(name, fn, pattern) {
+  try {
+    fn();
+    logTest(name, false, '没有抛出错误');
+  } catch (error) {
+    logTest(name, pattern.test(error.message), error.message);
+  }
+}
+
+async function expectRejects(name, promise, pattern) {
+  try {
+    await promise;
+    logTest(name, false, '没有抛出错误');
+  } catch (error) {
+    logTest(name, pattern.test(error.message), error.message);
+  }
+}
+
+// 假时钟：sleep 直接推进时间，并记录每次等待的毫秒数
+function fakeClock() {
+  const clock = { time: 0, sleeps: [] };
+  clock.now = () => clock.time;
+  clock.sleep = async ms => {
+    clock.sleeps.push(ms);
+    clock.time += ms;
+  };
+  return clock;
+}
+
+async function main() {
+  // 检索式
+  console.log('\n--- buildSearchQuery ---');
+  expectEqual('普通检索词按 all: 检索并用 AND 连接', buildSearchQuery({ query: 'graph neural' }), 'all:graph AND all:neural');
+  expectEqual('引号中的短语作为一个词', buildSearchQuery({ title: '"large language" model' }), 'ti:"large language" AND ti:model');
+  expectEqual('检索词中的冒号不生成 all:Recall: 这样的字段', buildSearchQuery({ query: 'Recall: a method' }), 'all:Recall AND all:a AND all:method');
+  expectEqual('带字段前缀的检索式原样使用', buildSearchQuery({ query: 'ti:attention AND au:vaswani' }), 'ti:attention AND au:vaswani');
+  expectEqual('布尔运算符原样使用', buildSearchQuery({ query: 'bert OR roberta' }), 'bert OR roberta');
+  expectEqual('多个条件加括号，单个字段不加',
+    buildSearchQuery({ title: 'transformer translation', author: 'vaswani', category: 'cs.CL' }),
+    '(ti:transformer AND ti:translation) AND au:vaswani AND cat:cs.CL');
+  expectEqual('多个分类为 OR', buildSearchQuery({ category: 'cs.CL, cs.LG' }), 'cat:cs.CL OR cat:cs.LG');
+  expectEqual('年份范围取整年', buildSearchQuery({ date_from: '2020', date_to: '2021' }), 'submittedDate:[202001010000 TO 202112312359]');
+  expectEqual('月份范围取到月末（闰年二月）', buildSearchQuery({ date_from: '2024-02', date_to: '2024-02' }), 'submittedDate:[202402010000 TO 202402292359]');
+  expectEqual('闰年的 2 月 29 日有效', buildSearchQuery({ date_from: '2024-02-29', date_to: '2024-03-01' }), 'submittedDate:[202402290000 TO 202403012359]');
+  expectThrows('不存在的日期 2023-02-31', () => buildSearchQuery({ date_from: '2023-02-31' }), /无效的日期/);
+  expectThrows('平年的 2 月 29 日', () => buildSearchQuery({ date_to: '2023-02-29' }), /无效的日期/);
+  expectThrows('月份超出范围', () => buildSearchQuery({ date_from: '2023-13' }), /无效的日期/);
+  expectThrows('起始日期晚于结束日期', () => buildSearchQuery({ date_from: '2022', date_to: '2021' }), /日期范围无效/);
+  expectThrows('没有任何条件', () => buildSearchQuery({ query: '  ' }), /请提供检索词/);
+
+  // URL
+  console.log('\n--- buildQueryUrl ---');
+  {
+    const url = new URL(buildQueryUrl({ query: 'attention', start: 10, max_results: 5, sort_by: 'submittedDate', sort_order: 'ascending' }, 'http://arxiv.test/api/query'));
+    expectEqual('URL 参数', [url.searchParams.get('search_query'), url.searchParams.get('start'), url.searchParams.get('max_results'), url.searchParams.get('sortBy'), url.searchParams.get('sortOrder')],
+      ['all:attention', '10', '5', 'submittedDate', 'ascending']);
+  }
+  expectThrows('负数起始位置', () => buildQueryUrl({ query: 'a', start: -1 }), /起始位置/);
+  expectThrows('返回数量为 0', () => buildQueryUrl({ query: 'a', max_results: 0 }), /返回数量/);
+  expectThrows('无效的排序字段', () => buildQueryUrl({ query: 'a', sort_by: 'citations' }), /排序字段/);
+
+  // 解析 Atom
+  console.log('\n--- parseFeed ---');
+  {
+    const feed = await parseFeed(fixture('search-page1.xml'));
+    const [first, second] = feed.entries;
+    expectEqual('总数、起始位置和条目数', [feed.total, feed.start, feed.entries.length], [3, 0, 2]);
+    expectEqual('ID 和版本号', [first.arxiv_id, first.version], ['1706.03762', 7]);
+    expectEqual('作者', first.authors, ['Ashish Vaswani', 'Noam Shazeer', 'Niki Parmar']);
+    expectEqual('分类和主分类', [first.categories, first.primary_category], [['cs.CL', 'cs.LG'], 'cs.CL']);
+    expectEqual('链接', [first.abs_url, first.pdf_url], ['http://arxiv.org/abs/1706.03762v7', 'http://arxiv.org/pdf/1706.03762v7']);
+    expectEqual('标题和摘要中的换行合并为空格', [second.title, second.summary.startsWith('Neural machine translation is a recently')],
+      ['Neural Machine Translation by Jointly Learning to Align and Translate', true]);
+    expectEqual('DOI、期刊和备注', [second.doi, second.journal_ref, first.comment], ['10.48550/arXiv.1409.0473', 'ICLR 2015', '15 pages, 5 figures']);
+  }
+  {
+    const feed = await parseFeed(fixture('search-page2.xml'));
+    expectEqual('只有一个条目时也解析为数组', feed.entries.length, 1);
+    expectEqual('旧式 arXiv ID', [feed.entries[0].arxiv_id, feed.entries[0].version], ['hep-th/9901001', 1]);
+  }
+  await expectRejects('错误条目', parseFeed(fixture('error.xml')), /arXiv 检索式有误: incorrect id format for 1234\.12345/);
+  await expectRejects('不是 Atom 文档', parseFeed('<html><body>Bad Gateway</body></html>'), /无法解析/);
+
+  // 分页
+  console.log('\n--- 分页 ---');
+  {
+    const requested = [];
+    const client = createArxivClient({
+      apiUrl: 'http://arxiv.test/api/query',
+      minInterval: 0,
+      fetchText: async url => {
+        requested.push(new URL(url).searchParams.get('start'));
+        return fixture(requested.length === 1 ? 'search-page1.xml' : 'search-page2.xml');
+      }
+    });
+    const page1 = await client.search({ title: 'attention', max_results: 2 });
+    expectEqual('第一页', [page1.search_query, page1.start, page1.total, page1.count, page1.next_start], ['ti:attention', 0, 3, 2, 2]);
+    const page2 = await client.search({ title: 'attention', max_results: 2, start: page1.next_start });
+    expectEqual('按 next_start 请求第二页', requested, ['0', '2']);
+    expectEqual('最后一页没有 next_start', [page2.start, page2.count, page2.next_start], [2, 1, null]);
+    expectEqual('第二页的论文', page2.papers.map(paper => paper.arxiv_id), ['hep-th/9901001']);
+  }
+  {
+    const client = createArxivClient({ minInterval: 0, fetchText: async () => fixture('error.xml') });
+    await expectRejects('getByIds 遇到错误条目时报错', client.getByIds(['1234.12345']), /检索式有误/);
+  }
+
+  // 请求间隔和超时
+  console.log('\n--- 请求间隔和超时 ---');
+  {
+    const clock = fakeClock();
+    const timeouts = [];
+    const client = createArxivClient({
+      minInterval: 3000,
+      timeout: 10000,
+      now: clock.now,
+      sleep: clock.sleep,
+      fetchText: async (url, { timeout }) => {
+        timeouts.push(timeout);
+        clock.time += 500;
+        return fixture('search-page2.xml');
+      }
+    });
+    await Promise.all([client.search({ query: 'a' }), client.search({ query: 'b' })]);
+    expectEqual('第二个请求等待到间隔满 3 秒', clock.sleeps, [2500]);
+    expectEqual('排队时间从超时中扣除', timeouts, [10000, 7000]);
+  }
+  {
+    const clock = fakeClock();
+    let fetched = 0;
+    const client = createArxivClient({
+      minInterval: 3000,
+      timeout: 2000,
+      now: clock.now,
+      sleep: clock.sleep,
+      fetchText: async () => {
+        fetched++;
+        return fixture('search-page2.xml');
+      }
+    });
+    const results = await Promise.allSettled([client.search({ query: 'a' }), client.search({ query: 'b' })]);
+    expectEqual('第一个请求成功', results[0].status, 'fulfilled');
+    logTest('排队超过超时时间的请求报错', results[1].status === 'rejected' && /排队超过 2 秒/.test(results[1].reason.message),
+      results[1].reason?.message);
+    expectEqual('超时的请求最多等待到截止时间，不发送请求', [clock.sleeps, fetched], [[2000], 1]);
+  }
+  {
+    const clock = fakeClock();
+    const client = createArxivClient({
+      minInterval: 3000,
+      now: clock.now,
+      sleep: clock.sleep,
+      fetchText: async () => {
+        throw new Error('network down');
+      }
+    });
+    const results = await Promise.allSettled([client.search({ query: 'a' }), client.search({ query: 'b' })]);
+    expectEqual('前一个请求失败不影响队列中的后续请求', results.map(result => result.reason?.message), ['network down', 'network down']);
+  }
+}
+
+main()
+  .catch(error => {
+    logTest('测试脚本运行', false, error.stack);
+  })
+  .finally(() => {
+    console.log('\n' + '='.repeat(80));
+    console.log(`测试完成: ${testResults.passed} 通过, ${testResults.failed} 失败`);
+    process.exit(testResults.failed > 0 ? 1 : 0);
+  });
@@ -0,0 +1,190 @@
+#!/usr/bin/env node
+/**
+ * BibTeX 导入导出测试脚本
+ * 测试 .bib 解析（宏、连接、注释、错误恢复）、字段映射、重复引用键的处理和按引用导出
+ *
+ * 运行: node scripts/test-bibtex.cjs
+ */
+
+const {
+  formatBibtex,
+  formatBibtexEntry,
+  escapeBibValue,
+  parseBibtex,
+  entryToReference,
+  splitName,
+  uniqueCitationKey,
+  importBibtex,
+  selectCitedReferences
+} = require('../server/bibtex.cjs');
+
+console.log('='.repeat(80));
+console.log('BibTeX 导入导出测试脚本');
+console.log('='.repeat(80));
+
+const testResults = {
+  passed: 0,
+  failed: 0
+};
+
+function logTest(name, passed, message = '') {
+  const status = passed ? '✅ PASS' : '❌ FAIL';
+  console.log(`${status}: ${name}`);
+  if (!passed && message) {
+    console.log(`   消息: ${message}`);
+  }
+  if (passed) {
+    testResults.passed++;
+  } else {
+    testResults.failed++;
+  }
+}
+
+function expectEqual(name, actual, expected) {
+  const same = JSON.stringify(actual) === JSON.stringify(expected);
+  logTest(name, same, same ? '' : `期望 ${JSON.stringify(expected)}，实际 ${JSON.stringify(actual)}`);
+}
+
+// 解析
+console.log('\n--- 解析 ---');
+{
+  const { entries, errors } = parseBibtex(`前言文字会被忽略
+@string{ nips = "Advances in Neural " # {Information Processing Systems} }
+@comment{ @article{ignored, title={x}} }
+@preamble{ "\\newcommand{\\noop}[1]{}" }
+@InProceedings{vaswani2017,
+  Title     = {Attention Is {All} You Need},
+  author    = "Vaswani, Ashish and Noam Shazeer",
+  booktitle = nips,
+  year      = 2017,
+  month     = dec,
+  title     = {重复的字段被忽略},
+}
+@misc(empty)`);
+  expectEqual('没有错误', errors, []);
+  expectEqual('跳过 @comment / @string / @preamble', entries.map(entry => [entry.type, entry.key]), [['inproceedings', 'vaswani2017'], ['misc', 'empty']]);
+  expectEqual('字段名小写，宏和 # 连接展开，同名字段保留第一个', entries[0].fields, {
+    title: 'Attention Is {All} You Need',
+    author: 'Vaswani, Ashish and Noam Shazeer',
+    booktitle: 'Advances in Neural Information Processing Systems',
+    year: '2017',
+    month: 'December'
+  });
+}
+{
+  const { entries, errors } = parseBibtex('@article{bad,\n  title = {未闭合\n\n@article{good, title = "ok"}');
+  expectEqual('格式错误的条目记录行号并继续解析后面的条目', [entries.map(entry => entry.key), errors.map(error => error.line)], [['good'], [1]]);
+}
+expectEqual('字段后缺少逗号', parseBibtex('@article{a, title={x} year={2020}}').errors.map(error => error.message), ['条目 a 的字段 title 后缺少逗号']);
+expectEqual('双引号值中花括号内的引号', parseBibtex('@misc{q, note = "a {"} b"}').entries[0].fields.note, 'a {"} b');
+
+// 字段映射
+console.log('\n--- 条目 → 参考文献 ---');
+{
+  const [entry] = parseBibtex(`@article{devlin2019,
+  title = {{BERT}: Pre-training},
+  author = {Devlin, Jacob and Ming-Wei Chang and {Google AI Language}},
+  journal = {NAACL},
+  year = {2019},
+  doi = {https://doi.org/10.18653/v1/N19-1423},
+  eprint = {1810.04805},
+  archivePrefix = {arXiv},
+  keywords = {nlp}
+}`).entries;
+  expectEqual('映射字段，未知字段保存在 extraFields', entryToReference(entry), {
+    citationKey: 'devlin2019',
+    entryType: 'article',
+    title: 'BERT: Pre-training',
+    authors: ['Jacob Devlin', 'Ming-Wei Chang', '{Google AI Language}'],
+    year: 2019,
+    journal: 'NAACL',
+    doi: '10.18653/v1/N19-1423',
+    arxivId: '1810.04805',
+    extraFields: { keywords: 'nlp' }
+  });
+}
+expectEqual('非四位数字的年份保留在 extraFields', entryToReference({ type: 'misc', key: 'k', fields: { year: 'in press' } }).extraFields, { year: 'in press' });
+expectEqual('没有 archivePrefix 时按编号格式识别 arXiv', entryToReference({ type: 'misc', key: 'k', fields: { eprint: 'hep-th/9901001' } }).arxivId, 'hep-th/9901001');
+expectEqual('非 arXiv 的 eprint 保留', entryToReference({ type: 'misc', key: 'k', fields: { eprint: '12345', archiveprefix: 'pubmed' } }).extraFields, { eprint: '12345', archiveprefix: 'pubmed' });
+expectEqual('姓名拆分', ['Ludwig van Beethoven', 'Knuth, Donald E.', '{World Health Organization}', 'Plato'].map(splitName), [
+  { family: 'van Beethoven', given: 'Ludwig' },
+  { family: 'Knuth', given: 'Donald E.' },
+  { family: 'World Health Organization' },
+  { family: 'Plato' }
+]);
+
+// 导出
+console.log('\n--- 导出 ---');
+expectEqual('转义 & % #，已转义的和公式保持不变', escapeBibValue('R&D 50% #1 \\& $a_{1}$'), 'R\\&D 50\\% \\#1 \\& $a_{1}$');
+expectEqual('花括号不配对时去掉花括号', escapeBibValue('a {b'), 'a b');
+expectEqual('会议论文写入 booktitle，保留 extraFields', formatBibtexEntry({
+  id: 'r1',
+  citationKey: 'vaswani 2017',
+  entryType: 'inproceedings',
+  title: 'Attention',
+  authors: ['Ashish Vaswani', 'Noam Shazeer'],
+  journal: 'NeurIPS',
+  year: 2017,
+  arxivId: '1706.03762',
+  extraFields: { pages: '5998--6008', url: 'https://x.org/a%20b', booktitle: '被已输出的字段覆盖' }
+}), `@inproceedings{vaswani2017,
+  title = {{Attention}},
+  author = {Ashish Vaswani and Noam Shazeer},
+  booktitle = {NeurIPS},
+  year = {2017},
+  eprint = {1706.03762},
+  archivePrefix = {arXiv},
+  pages = {5998--6008},
+  url = {https://x.org/a%20b}
+}`);
+expectEqual('没有引用键时使用 id，没有出处时为 misc', formatBibtex([{ id: 'r2', title: '', authors: [] }, null]), '@misc{r2,\n}\n');
+{
+  const references = [{ id: 'r1', citationKey: 'devlin2019', entryType: 'article', title: 'BERT', authors: ['Jacob Devlin'], year: 2019, journal: 'NAACL', doi: '10.18653/v1/N19-1423', extraFields: { keywords: 'nlp' } }];
+  const { references: imported } = importBibtex([], formatBibtex(references));
+  const { id, ...roundTrip } = imported[0];
+  expectEqual('导出后再导入得到相同的字段', roundTrip, (({ id, ...rest }) => rest)(references[0]));
+}
+
+// 导入和重复引用键
+console.log('\n--- 导入 ---');
+{
+  const library = [{ id: 'old', citationKey: 'Smith2020', title: '库中已有', authors: [] }];
+  const bib = '@article{smith2020, title={新的}}\n@article{smith2020, title={文件中重复}}\n@article{doe2021, title={另一篇}}';
+
+  const skipped = importBibtex(library, bib, 'skip');
+  expectEqual('skip：与库中或同一文件中前面的条目重复（不区分大小写）时跳过',
+    [skipped.imported, skipped.skipped, skipped.references.map(reference => reference.title)],
+    [['doe2021'], ['smith2020', 'smith2020'], ['库中已有', '另一篇']]);
+
+  const renamed = importBibtex(library, bib, 'rename');
+  expectEqual('rename：依次追加 a、b', renamed.renamed, [{ from: 'smith2020', to: 'smith2020a' }, { from: 'smith2020', to: 'smith2020b' }]);
+
+  const replaced = importBibtex(library, bib, 'replace');
+  expectEqual('replace：覆盖已有条目并保留 id',
+    [replaced.replaced, replaced.references[0].id, replaced.references[0].title, replaced.references.length],
+    [['smith2020', 'smith2020'], 'old', '文件中重复', 2]);
+  expectEqual('原库不被修改', library[0].title, '库中已有');
+  expectEqual('导入报告中包含解析错误', importBibtex([], '@article{x, title={').errors.length, 1);
+}
+{
+  const used = new Set(['k', ...Array.from({ length: 26 }, (_, i) => `k${String.fromCharCode(97 + i)}`)]);
+  expectEqual('a…z 用完后追加 aa', uniqueCitationKey('K', used), 'Kaa');
+}
+try {
+  importBibtex([], '', 'merge');
+  logTest('无效的重复处理方式报错', false, '没有抛出错误');
+} catch (error) {
+  logTest('无效的重复处理方式报错', error.message === '无效的重复处理方式: merge', error.message);
+}
+
+// 按引用导出
+console.log('\n--- 按引用筛选 ---');
+{
+  const references = [{ id: 'r1', citationKey: 'a' }, { id: 'r2', citationKey: 'b' }, { id: 'r3' }];
+  const { references: selected, missing } = selectCitedReferences(references, ['b', 'r3', 'missing', 'b']);
+  expectEqual('按引用顺序、去重，没有引用键的条目按 id 匹配', [selected.map(reference => reference.id), missing], [['r2', 'r3'], ['missing']]);
+}
+
+console.log('\n' + '='.repeat(80));
+console.log(`测试完成: ${testResults.passed} 通过, ${testResults.failed} 失败`);
+process.exit(testResults.failed > 0 ? 1 : 0);
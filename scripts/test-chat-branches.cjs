@@ -0,0 +1,110 @@
+#!/usr/bin/env node
+/**
+ * 对话分支测试脚本
+ * 测试 src/utils/chatBranches.ts 的创建分支（重新生成、编辑后重新发送）、切换分支和嵌套分支（用 typescript 即时编译，不需要启动前端）
+ *
+ * 运行: node scripts/test-chat-branches.cjs
+ */
+
+const fs = require('fs');
+const path = require('path');
+const Module = require('module');
+const ts = require('typescript');
+
+// 将前端的 TypeScript 模块编译为 CommonJS 后加载
+function loadTsModule(relativePath) {
+  const filename = path.join(__dirname, '..', relativePath);
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true },
+    fileName: filename
+  });
+  const mod = new Module(filename, module);
+  mod.filename = filename;
+  mod.paths = Module._nodeModulePaths(path.dirname(filename));
+  mod._compile(outputText, filename);
+  return mod.exports;
+}
+
+const { withoutBranches, createBranch, switchBranch } = loadTsModule('src/utils/chatBranches.ts');
+
+console.log('='.repeat(80));
+console.log('对话分支测试脚本');
+console.log('='.repeat(80));
+
+const testResults = {
+  passed: 0,
+  failed: 0
+};
+
+function logTest(name, passed, message = '') {
+  const status = passed ? '✅ PASS' : '❌ FAIL';
+  console.log(`${status}: ${name}`);
+  if (!passed && message) {
+    console.log(`   消息: ${message}`);
+  }
+  if (passed) {
+    testResults.passed++;
+  } else {
+    testResults.failed++;
+  }
+}
+
+function expectEqual(name, actual, expected) {
+  const same = JSON.stringify(actual) === JSON.stringify(expected);
+  logTest(name, same, same ? '' : `期望 ${JSON.stringify(expected)}，实际 ${JSON.stringify(actual)}`);
+}
+
+const user = content => ({ role: 'user', content });
+const agent = content => ({ role: 'agent', content });
+// 当前分支的消息内容
+const contents = messages => messages.map(message => message.content);
+
+const conversation = [user('问题一'), agent('回答一'), user('问题二'), agent('回答二'), agent('工具结果')];
+
+// 重新生成
+console.log('\n--- 重新生成 ---');
+const regenerated = [...createBranch(conversation, 2, [user('问题二')]), agent('新回答二')];
+expectEqual('分支点之后的消息替换为新回复', contents(regenerated), ['问题一', '回答一', '问题二', '新回答二']);
+expectEqual('分支点保存原来的分支，当前分支为空数组', [regenerated[2].branchIndex, regenerated[2].branches.map(contents)],
+  [1, [['问题二', '回答二', '工具结果'], []]]);
+expectEqual('原消息列表不被修改', [conversation.length, conversation[2].branches], [5, undefined]);
+
+// 切换分支
+console.log('\n--- 切换分支 ---');
+const switched = switchBranch(regenerated, 2, 0);
+expectEqual('切换到原来的分支，恢复其后的全部消息', contents(switched), ['问题一', '回答一', '问题二', '回答二', '工具结果']);
+expectEqual('当前显示的分支保存回去', [switched[2].branchIndex, switched[2].branches.map(contents)], [0, [[], ['问题二', '新回答二']]]);
+expectEqual('切换回来得到相同的列表', switchBranch(switched, 2, 1), regenerated);
+logTest('切换到当前分支时不变', switchBranch(regenerated, 2, 1) === regenerated);
+logTest('分支不存在时不变', switchBranch(regenerated, 2, 5) === regenerated);
+logTest('不是分支点时不变', switchBranch(regenerated, 0, 0) === regenerated);
+
+// 编辑后重新发送：在已有的分支点上追加分支
+console.log('\n--- 编辑后重新发送 ---');
+const edited = [...createBranch(switched, 2, [user('修改后的问题二')]), agent('回答修改后的问题')];
+expectEqual('编辑的消息成为新分支的第一条', contents(edited), ['问题一', '回答一', '修改后的问题二', '回答修改后的问题']);
+expectEqual('已有的分支全部保留', [edited[2].branchIndex, edited[2].branches.map(contents)],
+  [2, [['问题二', '回答二', '工具结果'], ['问题二', '新回答二'], []]]);
+logTest('空的新消息不创建分支', createBranch(conversation, 2, []) === conversation);
+logTest('位置超出范围时不创建分支', createBranch(conversation, 9, [user('x')]) === conversation);
+
+// 分支内部的分支点在切换时保留
+console.log('\n--- 嵌套分支 ---');
+{
+  const inner = [...createBranch(edited, 0, [user('问题一')]), agent('另一个回答一')];
+  expectEqual('在更早的位置创建分支', contents(inner), ['问题一', '另一个回答一']);
+  const outer = switchBranch(inner, 0, 0);
+  expectEqual('切换回去后内部的分支点保留', [contents(outer), outer[2].branchIndex, outer[2].branches.length],
+    [['问题一', '回答一', '修改后的问题二', '回答修改后的问题'], 2, 3]);
+  const nested = switchBranch(outer, 2, 1);
+  expectEqual('可以继续切换内部的分支', contents(nested), ['问题一', '回答一', '问题二', '新回答二']);
+  expectEqual('外层分支点的分支数据不变', nested[0].branches.length, 2);
+}
+
+// 发送给模型的历史不含分支数据
+console.log('\n--- 去掉分支数据 ---');
+expectEqual('只保留消息本身的字段', regenerated.map(withoutBranches)[2], user('问题二'));
+
+console.log('\n' + '='.repeat(80));
+console.log(`测试完成: ${testResults.passed} 通过, ${testResults.failed} 失败`);
+process.exit(testResults.failed > 0 ? 1 : 0);
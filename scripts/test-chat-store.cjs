@@ -0,0 +1,165 @@
+#!/usr/bin/env node
+/**
+ * 对话会话测试脚本
+ * 测试旧版 chat.json 迁移、自动标题、保存与重命名、从某条消息分叉、全文搜索和删除
+ * 在临时目录中创建项目，不影响 storage/
+ *
+ * 运行: node scripts/test-chat-store.cjs
+ */
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+// 存储目录取自当前工作目录，需在加载服务端模块前切换
+const originalCwd = process.cwd();
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chat-store-'));
+process.chdir(tempDir);
+
+const { initializeStorage } = require('../server/storage.cjs');
+const projects = require('../server/projectRegistry.cjs');
+const {
+  listSessions,
+  getSession,
+  createSession,
+  updateSession,
+  deleteSession,
+  forkSession,
+  searchSessions
+} = require('../server/chatStore.cjs');
+
+console.log('='.repeat(80));
+console.log('对话会话测试脚本');
+console.log('='.repeat(80));
+
+const testResults = {
+  passed: 0,
+  failed: 0
+};
+
+function logTest(name, passed, message = '') {
+  const status = passed ? '✅ PASS' : '❌ FAIL';
+  console.log(`${status}: ${name}`);
+  if (!passed && message) {
+    console.log(`   消息: ${message}`);
+  }
+  if (passed) {
+    testResults.passed++;
+  } else {
+    testResults.failed++;
+  }
+}
+
+function expectEqual(name, actual, expected) {
+  const same = JSON.stringify(actual) === JSON.stringify(expected);
+  logTest(name, same, same ? '' : `期望 ${JSON.stringify(expected)}，实际 ${JSON.stringify(actual)}`);
+}
+
+function expectThrows(name, fn, code) {
+  try {
+    fn();
+    logTest(name, false, '没有抛出错误');
+  } catch (error) {
+    logTest(name, error.code === code, `期望错误码 ${code}，实际 ${error.code}: ${error.message}`);
+  }
+}
+
+// 会话按修改时间排序，相邻两次修改之间稍作等待
+const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+const titles = projectId => listSessions(projectId).map(session => session.title);
+
+async function main() {
+  initializeStorage();
+  projects.initializeProjects();
+  const projectId = projects.getActiveProject().id;
+
+  // 旧版 chat.json 迁移
+  console.log('\n--- 旧版对话记录迁移 ---');
+  const legacyMessages = [
+    { role: 'user', content: '帮我改写   引言部分，让它更简洁一些，并补充研究动机' },
+    { role: 'agent', content: '好的，这是改写后的引言。' }
+  ];
+  projects.saveChat(projectId, { messages: legacyMessages, tool_history: [{ tool: 'read_file' }] });
+  const migrated = listSessions(projectId);
+  expectEqual('迁移为一个会话，以第一条用户消息（合并空白）作为标题', migrated.map(session => [session.title, session.title_auto, session.message_count]),
+    [['帮我改写 引言部分，让它更简洁一些，并补充研究动机', true, 2]]);
+  expectEqual('迁移后清空 chat.json 中的对话，保留工具历史', projects.loadChat(projectId), { messages: [], tool_history: [{ tool: 'read_file' }] });
+  projects.saveChat(projectId, { messages: legacyMessages });
+  expectEqual('只迁移一次', listSessions(projectId).length, 1);
+  const legacyId = migrated[0].id;
+
+  // 创建、保存和重命名
+  console.log('\n--- 创建和保存 ---');
+  await tick();
+  const empty = createSession(projectId);
+  expectEqual('没有消息时使用默认标题', [empty.title, empty.message_count, empty.forked_from], ['新对话', 0, null]);
+  await tick();
+  const long = 'Transformer 模型中的注意力机制是如何工作的？请详细解释。';
+  updateSession(projectId, empty.id, { messages: [{ role: 'agent', content: '你好' }, { role: 'user', content: long }] });
+  expectEqual('自动标题随第一条用户消息更新，过长时截断', getSession(projectId, empty.id).title, `${long.slice(0, 30)}…`);
+  expectEqual('最近修改的会话在前', listSessions(projectId).map(session => session.id), [empty.id, legacyId]);
+
+  const before = getSession(projectId, legacyId).updated_at;
+  updateSession(projectId, legacyId, { messages: legacyMessages });
+  expectEqual('消息没有变化时不更新修改时间', getSession(projectId, legacyId).updated_at, before);
+
+  await tick();
+  const renamed = updateSession(projectId, empty.id, { title: '  注意力机制  ' });
+  expectEqual('重命名后不再自动命名', [renamed.title, renamed.title_auto], ['注意力机制', false]);
+  updateSession(projectId, empty.id, { messages: [{ role: 'user', content: '另一个问题' }] });
+  expectEqual('手动命名的标题保持不变', getSession(projectId, empty.id).title, '注意力机制');
+  expectEqual('导入时指定标题', createSession(projectId, { title: '导入的记录', messages: [] }).title_auto, false);
+
+  expectThrows('消息不是数组', () => createSession(projectId, { messages: 'hi' }), 'INVALID');
+  expectThrows('消息角色无效', () => updateSession(projectId, empty.id, { messages: [{ role: 'system', content: 'x' }] }), 'INVALID');
+  expectThrows('标题为空', () => updateSession(projectId, empty.id, { title: '  ' }), 'INVALID');
+  expectThrows('无效的会话 ID', () => getSession(projectId, '../project'), 'NOT_FOUND');
+  expectThrows('会话不存在', () => getSession(projectId, 'chat_missing'), 'NOT_FOUND');
+
+  // 分叉
+  console.log('\n--- 分叉 ---');
+  const fork = forkSession(projectId, legacyId, 0);
+  const forked = getSession(projectId, fork.id);
+  expectEqual('包含该消息及之前的消息', forked.messages, legacyMessages.slice(0, 1));
+  expectEqual('记录来源，标题标注分叉', [forked.forked_from, forked.title_auto, forked.title.endsWith('（分叉）')],
+    [{ session_id: legacyId, message_index: 0 }, false, true]);
+  expectEqual('原会话不变', getSession(projectId, legacyId).messages.length, 2);
+  expectThrows('消息序号超出范围', () => forkSession(projectId, legacyId, 2), 'INVALID');
+  expectThrows('消息序号不是整数', () => forkSession(projectId, legacyId, 'a'), 'INVALID');
+
+  // 搜索
+  console.log('\n--- 搜索 ---');
+  expectEqual('在全部会话的消息中搜索', searchSessions(projectId, '引言').map(result => [result.id, result.matches.map(match => [match.index, match.role])]),
+    [[fork.id, [[0, 'user']]], [legacyId, [[0, 'user'], [1, 'agent']]]]);
+  expectEqual('按标题匹配', searchSessions(projectId, '注意力').map(result => [result.title, result.matches]), [['注意力机制', []]]);
+  {
+    const longText = `${'前'.repeat(50)}Keyword${'后'.repeat(50)}`;
+    const session = createSession(projectId, { title: '长消息', messages: [0, 1, 2, 3].map(() => ({ role: 'user', content: longText })) });
+    const [result] = searchSessions(projectId, 'KEYWORD');
+    expectEqual('不区分大小写，每个会话最多 3 条匹配', [result.id, result.matches.length], [session.id, 3]);
+    expectEqual('摘要截取匹配位置前后的文字', result.matches[0].snippet, `…${'前'.repeat(30)}Keyword${'后'.repeat(30)}…`);
+  }
+  expectThrows('关键词为空', () => searchSessions(projectId, ' '), 'INVALID');
+
+  // 删除和项目隔离
+  console.log('\n--- 删除 ---');
+  deleteSession(projectId, fork.id);
+  logTest('删除后不在列表中', !listSessions(projectId).some(session => session.id === fork.id));
+  expectThrows('删除不存在的会话', () => deleteSession(projectId, fork.id), 'NOT_FOUND');
+  const other = projects.createProject({ name: '另一篇论文' });
+  projects.activateProject(other.id);
+  expectEqual('每个项目的会话相互独立', listSessions(other.id), []);
+  logTest('会话列表不依赖当前项目', titles(projectId).includes('注意力机制'));
+}
+
+main()
+  .catch(error => {
+    logTest('测试脚本运行', false, error.stack);
+  })
+  .finally(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    console.log('\n' + '='.repeat(80));
+    console.log(`测试完成: ${testResults.passed} 通过, ${testResults.failed} 失败`);
+    process.exit(testResults.failed > 0 ? 1 : 0);
+  });
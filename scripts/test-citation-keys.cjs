@@ -0,0 +1,146 @@
+#!/usr/bin/env node
+/**
+ * 引用键测试脚本
+ * 测试按模式生成引用键（含重复后缀）、正文引用与参考文献库的一致性检查和批量重命名
+ *
+ * 运行: node scripts/test-citation-keys.cjs
+ */
+
+const {
+  validateKeyPattern,
+  formatCitationKey,
+  generateCitationKey,
+  ensureCitationKey,
+  checkCitations,
+  planKeyRenames,
+  applyKeyRenames
+} = require('../server/citationKeys.cjs');
+const { rewriteCitationKeys } = require('../server/referenceDedup.cjs');
+
+console.log('='.repeat(80));
+console.log('引用键测试脚本');
+console.log('='.repeat(80));
+
+const testResults = {
+  passed: 0,
+  failed: 0
+};
+
+function logTest(name, passed, message = '') {
+  const status = passed ? '✅ PASS' : '❌ FAIL';
+  console.log(`${status}: ${name}`);
+  if (!passed && message) {
+    console.log(`   消息: ${message}`);
+  }
+  if (passed) {
+    testResults.passed++;
+  } else {
+    testResults.failed++;
+  }
+}
+
+function expectEqual(name, actual, expected) {
+  const same = JSON.stringify(actual) === JSON.stringify(expected);
+  logTest(name, same, same ? '' : `期望 ${JSON.stringify(expected)}，实际 ${JSON.stringify(actual)}`);
+}
+
+function expectThrows(name, fn, message) {
+  try {
+    fn();
+    logTest(name, false, '没有抛出错误');
+  } catch (error) {
+    logTest(name, error.message === message, `期望错误 ${message}，实际 ${error.message}`);
+  }
+}
+
+const attention = {
+  id: '3f2a9c1e-8b7d-4e6f-a5c4-1b2d3e4f5a6b',
+  title: 'Attention Is All You Need',
+  authors: ['Ashish Vaswani', 'Noam Shazeer', 'Niki Parmar'],
+  year: 2017
+};
+
+// 生成
+console.log('\n--- 按模式生成 ---');
+expectEqual('authorYEARfirstword', formatCitationKey(attention, 'authorYEARfirstword'), 'vaswani2017attention');
+expectEqual('Author_YEAR', formatCitationKey(attention, 'Author_YEAR'), 'Vaswani_2017');
+expectEqual('authors：三位及以上作者为 etal', formatCitationKey(attention, 'authorsYY'), 'vaswanietal17');
+expectEqual('authors：两位作者', formatCitationKey({ ...attention, authors: ['Jacob Devlin', 'Chang, Ming-Wei'] }, 'authors'), 'devlinchang');
+expectEqual('title：前三个实词，跳过虚词', formatCitationKey({ title: 'On the Dangers of Stochastic Parrots' }, 'title'), 'DangersStochasticParrots');
+expectEqual('Firstword 首字母大写', formatCitationKey(attention, 'authorFirstword'), 'vaswaniAttention');
+expectEqual('去掉变音符号', formatCitationKey({ authors: ['Kurt Gödel', 'Paul Erdős'], title: 'Über Straße' }, 'authorfirstword'), 'godeluber');
+expectEqual('姓前的小写前缀归入姓', formatCitationKey({ authors: ['Ludwig van Beethoven'] }, 'author'), 'vanbeethoven');
+expectEqual('保留中文姓名', formatCitationKey({ authors: ['张三'], year: 2021 }, 'authorYEAR'), '张三2021');
+expectEqual('缺少作者和年份', formatCitationKey({ title: '' }, 'authorYEAR'), 'anonnd');
+expectEqual('非四位年份视为缺少', formatCitationKey({ year: '2020a' }, 'YY'), 'nd');
+expectEqual('结果为空时为 ref', formatCitationKey({}, 'firstword'), 'ref');
+
+console.log('\n--- 重复后缀 ---');
+expectEqual('不重复时不加后缀', generateCitationKey(attention, 'authorYEAR'), 'vaswani2017');
+expectEqual('与已用的键重复（不区分大小写）时追加 a、b',
+  generateCitationKey(attention, 'authorYEAR', new Set(['vaswani2017', 'vaswani2017a'])), 'vaswani2017b');
+{
+  const references = [{ id: 'x', citationKey: 'Vaswani2017' }, { ...attention, citationKey: attention.id }];
+  expectEqual('引用键为 UUID 时视为缺少并生成', [ensureCitationKey(references, references[1], 'authorYEAR'), references[1].citationKey], [true, 'vaswani2017a']);
+  expectEqual('已有引用键时不修改', [ensureCitationKey(references, references[0], 'authorYEAR'), references[0].citationKey], [false, 'Vaswani2017']);
+}
+
+console.log('\n--- 模式校验 ---');
+expectThrows('空模式', () => validateKeyPattern(' '), '引用键模式不能为空');
+expectThrows('没有占位符', () => validateKeyPattern('ref-'), '引用键模式至少需要一个占位符：firstword / Firstword / authors / author / Author / title / YEAR / YY');
+expectThrows('包含不允许的字符', () => validateKeyPattern('author,YEAR'), '引用键模式中包含不能用于引用键的字符: ,');
+logTest('合法的模式', (() => { validateKeyPattern('author:YEAR-firstword'); return true; })());
+
+// 一致性检查
+console.log('\n--- 一致性检查 ---');
+{
+  const references = [
+    { id: 'r1', citationKey: 'vaswani2017', title: 'Attention' },
+    { id: 'r2', citationKey: 'devlin2019', title: 'BERT' },
+    { id: 'r3', title: '没有引用键' },
+    { id: 'r4', citationKey: '3f2a9c1e-8b7d-4e6f-a5c4-1b2d3e4f5a6b', title: '引用键是 UUID' }
+  ];
+  const result = checkCitations(references, {
+    'main.tex': '\\cite{vaswani2017,missing}\n% \\cite{devlin2019}\n\\input{ch}',
+    'ch.tex': '\\citep{r3}\n\\cite{missing}'
+  });
+  expectEqual('正文中引用但库中没有的键及位置', result.missing, [{ key: 'missing', locations: [{ file: 'main.tex', line: 1 }, { file: 'ch.tex', line: 2 }] }]);
+  expectEqual('从未被引用的条目（注释中的引用不算，按 id 引用算）', result.uncited.map(reference => reference.id), ['r2', 'r4']);
+  expectEqual('缺少引用键的条目', result.without_key.map(reference => reference.id), ['r3', 'r4']);
+  expectEqual('引用的不同键数', result.cited_count, 3);
+}
+
+// 批量重命名
+console.log('\n--- 批量重命名 ---');
+{
+  const references = [
+    { id: 'a', citationKey: 'vaswani2017', title: 'Attention', authors: ['Ashish Vaswani'], year: 2017 },
+    { id: 'b', citationKey: 'Vaswani:Attn', title: 'Attention Again', authors: ['Ashish Vaswani'], year: 2017 },
+    { id: 'c', title: 'BERT', authors: ['Jacob Devlin'], year: 2019 }
+  ];
+  expectEqual('预览：与未选中的条目和本次已分配的键都不重复', planKeyRenames(references, { pattern: 'authorYEAR', ids: ['b', 'c'] }), [
+    { id: 'b', title: 'Attention Again', from: 'Vaswani:Attn', to: 'vaswani2017a' },
+    { id: 'c', title: 'BERT', from: 'c', to: 'devlin2019' }
+  ]);
+  expectEqual('预览只包含引用键会变化的条目', planKeyRenames(references, { pattern: 'authorYEAR' }).map(rename => rename.id), ['b', 'c']);
+  expectEqual('onlyMissing 只处理缺少引用键的条目', planKeyRenames(references, { pattern: 'authorYEAR', onlyMissing: true }).map(rename => rename.id), ['c']);
+  expectEqual('预览不修改条目', references[2].citationKey, undefined);
+
+  const { references: updated, keyMap } = applyKeyRenames(references, [{ id: 'b', key: 'vaswani2017b' }, { id: 'c', key: 'devlin2019' }]);
+  expectEqual('更新引用键', updated.map(reference => reference.citationKey), ['vaswani2017', 'vaswani2017b', 'devlin2019']);
+  expectEqual('原键和 id 都映射到新键', keyMap, { 'Vaswani:Attn': 'vaswani2017b', b: 'vaswani2017b', c: 'devlin2019' });
+  expectEqual('未修改的条目保持同一对象', updated[0] === references[0], true);
+  expectEqual('正文同步改写', rewriteCitationKeys({ 'main.tex': '\\cite{Vaswani:Attn,c} \\cite{b}' }, keyMap),
+    { files: { 'main.tex': '\\cite{vaswani2017b,devlin2019} \\cite{vaswani2017b}' }, count: 3 });
+
+  expectEqual('两个条目互换引用键', applyKeyRenames(references, [{ id: 'a', key: 'Vaswani:Attn' }, { id: 'b', key: 'vaswani2017' }]).keyMap,
+    { vaswani2017: 'Vaswani:Attn', a: 'Vaswani:Attn', 'Vaswani:Attn': 'vaswani2017', b: 'vaswani2017' });
+  expectThrows('新键与其他条目重复（不区分大小写）', () => applyKeyRenames(references, [{ id: 'c', key: 'VASWANI2017' }]), '引用键重复: VASWANI2017');
+  expectThrows('无效的引用键', () => applyKeyRenames(references, [{ id: 'c', key: 'a b' }]), '无效的引用键: a b');
+  expectThrows('未知条目', () => applyKeyRenames(references, [{ id: 'x', key: 'k' }]), '未找到参考文献: x');
+  expectThrows('没有要重命名的键', () => applyKeyRenames(references, []), '没有要重命名的引用键');
+}
+
+console.log('\n' + '='.repeat(80));
+console.log(`测试完成: ${testResults.passed} 通过, ${testResults.failed} 失败`);
+process.exit(testResults.failed > 0 ? 1 : 0);
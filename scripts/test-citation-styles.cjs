@@ -0,0 +1,234 @@
+#!/usr/bin/env node
+/**
+ * 引用格式测试脚本
+ * 测试 GB/T 7714、APA、IEEE、MLA、Chicago 各输出标记下的参考文献条目、文中引用、编号范围和参考文献列表，
+ * 以及 insert_resource 与 format_bibliography 的编号一致
+ *
+ * 运行: node scripts/test-citation-styles.cjs
+ */
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+// 存储目录取自当前工作目录，需在加载服务端模块前切换
+const originalCwd = process.cwd();
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'citation-styles-'));
+process.chdir(tempDir);
+
+const {
+  CITATION_STYLES,
+  MARKUPS,
+  orderReferences,
+  formatReference,
+  citationNumber,
+  formatCitation,
+  formatBibliography
+} = require('../server/citationStyles.cjs');
+const { executeTool } = require('../server/tools/index.cjs');
+
+console.log('='.repeat(80));
+console.log('引用格式测试脚本');
+console.log('='.repeat(80));
+
+const testResults = {
+  passed: 0,
+  failed: 0
+};
+
+function logTest(name, passed, message = '') {
+  const status = passed ? '✅ PASS' : '❌ FAIL';
+  console.log(`${status}: ${name}`);
+  if (!passed && message) {
+    console.log(`   消息: ${message}`);
+  }
+  if (passed) {
+    testResults.passed++;
+  } else {
+    testResults.failed++;
+  }
+}
+
+function expectEqual(name, actual, expected) {
+  const same = JSON.stringify(actual) === JSON.stringify(expected);
+  logTest(name, same, same ? '' : `期望 ${JSON.stringify(expected)}，实际 ${JSON.stringify(actual)}`);
+}
+
+function expectThrows(name, fn, message) {
+  try {
+    fn();
+    logTest(name, false, '没有抛出错误');
+  } catch (error) {
+    logTest(name, error.message === message, `期望错误 ${message}，实际 ${error.message}`);
+  }
+}
+
+// 内存中的资源库（与 localStorage 接口相同）
+function memoryStorage(items) {
+  const data = new Map(Object.entries(items));
+  return { getItem: key => data.get(key) ?? null, setItem: (key, value) => data.set(key, value) };
+}
+
+const article = {
+  id: 'r1',
+  citationKey: 'vaswani2017',
+  entryType: 'article',
+  title: 'Attention Is All You Need',
+  authors: ['Ashish Vaswani', 'Noam Shazeer', 'Niki Parmar'],
+  year: 2017,
+  journal: 'Journal of ML',
+  doi: '10.1/abc',
+  extraFields: { volume: '30', number: '2', pages: '5998--6008' }
+};
+const noAuthor = { id: 'r2', entryType: 'book', title: 'No Author Book', extraFields: { publisher: 'Springer', address: 'Berlin' } };
+const cjk = {
+  id: 'r3',
+  entryType: 'article',
+  title: '深度学习综述',
+  authors: ['张三', '李四', '王五', '赵六'],
+  year: 2020,
+  journal: '计算机学报',
+  extraFields: { volume: '43', number: '1', pages: '1-20' }
+};
+const arxiv = { id: 'r4', entryType: 'misc', title: 'BERT: Pre-training', authors: ['Jacob Devlin', 'Ming-Wei Chang'], year: 2019, arxivId: '1810.04805' };
+
+async function main() {
+  // 各样式的期刊论文条目
+  console.log('\n--- 各样式的条目 ---');
+  expectEqual('样式列表', Object.keys(CITATION_STYLES), ['gb-t-7714', 'apa', 'ieee', 'mla', 'chicago']);
+  expectEqual('GB/T 7714', formatReference(article, 'gb-t-7714'),
+    'VASWANI A, SHAZEER N, PARMAR N. Attention Is All You Need[J]. Journal of ML, 2017, 30(2): 5998-6008. DOI:10.1/abc.');
+  expectEqual('APA', formatReference(article, 'apa'),
+    'Vaswani, A., Shazeer, N., & Parmar, N. (2017). Attention Is All You Need. Journal of ML, 30(2), 5998–6008. https://doi.org/10.1/abc');
+  expectEqual('IEEE', formatReference(article, 'ieee'),
+    'A. Vaswani, N. Shazeer, and N. Parmar, “Attention Is All You Need,” Journal of ML, vol. 30, no. 2, pp. 5998–6008, 2017, doi: 10.1/abc.');
+  expectEqual('MLA', formatReference(article, 'mla'),
+    'Vaswani, Ashish, et al. “Attention Is All You Need.” Journal of ML, vol. 30, no. 2, 2017, pp. 5998–6008, https://doi.org/10.1/abc.');
+  expectEqual('Chicago', formatReference(article, 'chicago'),
+    'Vaswani, Ashish, Noam Shazeer, and Niki Parmar. 2017. “Attention Is All You Need.” Journal of ML 30 (2): 5998–6008. https://doi.org/10.1/abc.');
+
+  // 输出标记
+  console.log('\n--- 输出标记 ---');
+  const markedUp = MARKUPS.map(markup => formatReference(article, 'apa', markup));
+  expectEqual('APA × 各输出标记', markedUp, [
+    'Vaswani, A., Shazeer, N., & Parmar, N. (2017). Attention Is All You Need. Journal of ML, 30(2), 5998–6008. https://doi.org/10.1/abc',
+    'Vaswani, A., Shazeer, N., & Parmar, N. (2017). Attention Is All You Need. *Journal of ML*, *30*(2), 5998–6008. https://doi.org/10.1/abc',
+    'Vaswani, A., Shazeer, N., \\& Parmar, N. (2017). Attention Is All You Need. \\textit{Journal of ML}, \\textit{30}(2), 5998--6008. \\url{https://doi.org/10.1/abc}',
+    'Vaswani, A., Shazeer, N., &amp; Parmar, N. (2017). Attention Is All You Need. <i>Journal of ML</i>, <i>30</i>(2), 5998–6008. <a href="https://doi.org/10.1/abc">https://doi.org/10.1/abc</a>'
+  ]);
+  expectEqual('各样式的 LaTeX 引号、斜体和页码范围', Object.keys(CITATION_STYLES).map(style => formatReference(article, style, 'latex')), [
+    'VASWANI A, SHAZEER N, PARMAR N. Attention Is All You Need[J]. Journal of ML, 2017, 30(2): 5998-6008. DOI:10.1/abc.',
+    'Vaswani, A., Shazeer, N., \\& Parmar, N. (2017). Attention Is All You Need. \\textit{Journal of ML}, \\textit{30}(2), 5998--6008. \\url{https://doi.org/10.1/abc}',
+    'A. Vaswani, N. Shazeer, and N. Parmar, ``Attention Is All You Need,\'\' \\textit{Journal of ML}, vol. 30, no. 2, pp. 5998--6008, 2017, doi: 10.1/abc.',
+    'Vaswani, Ashish, et al. ``Attention Is All You Need.\'\' \\textit{Journal of ML}, vol. 30, no. 2, 2017, pp. 5998--6008, \\url{https://doi.org/10.1/abc}.',
+    'Vaswani, Ashish, Noam Shazeer, and Niki Parmar. 2017. ``Attention Is All You Need.\'\' \\textit{Journal of ML} 30 (2): 5998--6008. \\url{https://doi.org/10.1/abc}.'
+  ]);
+  expectEqual('各样式的 Markdown 斜体', Object.keys(CITATION_STYLES).map(style => formatReference(noAuthor, style, 'markdown')), [
+    'No Author Book[M]. Berlin: Springer.',
+    '*No Author Book.* (n.d.). Springer.',
+    '*No Author Book*. Berlin: Springer.',
+    '*No Author Book.* Springer.',
+    '*No Author Book.* n.d. Berlin: Springer.'
+  ]);
+  {
+    const special = { id: 's', entryType: 'book', title: 'Title with & and % and $ and _ ~ ^ \\ \\& $a_1$ end', extraFields: { publisher: 'P_Q #1' } };
+    expectEqual('LaTeX 转义特殊字符，保留行内公式和已转义的字符', formatReference(special, 'apa', 'latex'),
+      '\\textit{Title with \\& and \\% and \\$ and \\_ \\textasciitilde{} \\textasciicircum{} \\textbackslash{} \\& $a_1$ end.} (n.d.). P\\_Q \\#1.');
+    expectEqual('金额中的 $ 不是公式', formatReference({ id: 'm', entryType: 'book', title: 'Costs $5 and $10' }, 'mla', 'latex'), '\\textit{Costs \\$5 and \\$10.}');
+    expectEqual('Markdown 转义', formatReference({ id: 'md', entryType: 'book', title: 'snake_case *bold* [x]' }, 'mla', 'markdown'), '*snake\\_case \\*bold\\* \\[x\\].*');
+    expectEqual('HTML 转义', formatReference({ id: 'h', entryType: 'book', title: '<script> & co' }, 'mla', 'html'), '<i>&lt;script&gt; &amp; co.</i>');
+  }
+
+  // 没有作者
+  console.log('\n--- 没有作者 ---');
+  expectEqual('各样式的纯文本', Object.keys(CITATION_STYLES).map(style => formatReference(noAuthor, style)), [
+    'No Author Book[M]. Berlin: Springer.',
+    'No Author Book. (n.d.). Springer.',
+    'No Author Book. Berlin: Springer.',
+    'No Author Book. Springer.',
+    'No Author Book. n.d. Berlin: Springer.'
+  ]);
+  expectEqual('Chicago：有年份时标题在前', formatReference({ ...noAuthor, year: 2020 }, 'chicago'), 'No Author Book. 2020. Berlin: Springer.');
+  expectEqual('Chicago：没有作者的期刊论文', formatReference({ id: 'x', entryType: 'article', title: 'Editorial', journal: 'Nature', year: 2021 }, 'chicago'),
+    '“Editorial.” 2021. Nature.');
+  expectEqual('文中引用用标题代替作者', ['apa', 'mla', 'chicago'].map(style => formatCitation([noAuthor], style)),
+    ['(No Author Book, n.d.)', '(No Author Book)', '(No Author Book n.d.)']);
+
+  // 中文文献
+  console.log('\n--- 中文文献 ---');
+  expectEqual('GB/T 7714：超过 3 位作者时加“等”', formatReference(cjk, 'gb-t-7714'), '张三, 李四, 王五, 等. 深度学习综述[J]. 计算机学报, 2020, 43(1): 1-20.');
+  expectEqual('APA：中文姓名不拆分', formatReference(cjk, 'apa'), '张三, 李四, 王五, & 赵六. (2020). 深度学习综述. 计算机学报, 43(1), 1–20.');
+  expectEqual('Chicago 文中引用', formatCitation([cjk], 'chicago'), '(张三 et al. 2020)');
+  expectEqual('GB/T 7714：西文作者超过 3 位时加 et al',
+    formatReference({ ...article, authors: ['A B', 'C D', 'E F', 'G H'] }, 'gb-t-7714').split('.')[0], 'B A, D C, F E, et al');
+
+  // arXiv 预印本
+  console.log('\n--- arXiv ---');
+  expectEqual('各样式的 arXiv 预印本', Object.keys(CITATION_STYLES).map(style => formatReference(arxiv, style)), [
+    'DEVLIN J, CHANG M-W. BERT: Pre-training[EB/OL]. arXiv:1810.04805, 2019. https://arxiv.org/abs/1810.04805.',
+    'Devlin, J., & Chang, M.-W. (2019). BERT: Pre-training (arXiv:1810.04805). arXiv. https://arxiv.org/abs/1810.04805',
+    'J. Devlin and M.-W. Chang, “BERT: Pre-training,” 2019, arXiv:1810.04805.',
+    'Devlin, Jacob, and Ming-Wei Chang. “BERT: Pre-training.” arXiv, 2019, https://arxiv.org/abs/1810.04805.',
+    'Devlin, Jacob, and Ming-Wei Chang. 2019. “BERT: Pre-training.” Preprint, arXiv:1810.04805. https://arxiv.org/abs/1810.04805.'
+  ]);
+  expectEqual('GB/T 7714 LaTeX 链接', formatReference(arxiv, 'gb-t-7714', 'latex').endsWith('\\url{https://arxiv.org/abs/1810.04805}.'), true);
+
+  // 文中引用和编号范围
+  console.log('\n--- 文中引用 ---');
+  const four = [article, noAuthor, cjk, arxiv];
+  expectEqual('GB/T 7714 连续编号合并', formatCitation(four, 'gb-t-7714', { numbers: [1, 2, 3, 5] }), '[1-3,5]');
+  expectEqual('GB/T 7714 两个相邻编号不合并', formatCitation(four.slice(0, 3), 'gb-t-7714', { numbers: [4, 1, 2] }), '[1,2,4]');
+  expectEqual('IEEE 连续编号合并', formatCitation(four, 'ieee', { numbers: [1, 2, 3, 5] }), '[1]–[3], [5]');
+  expectEqual('IEEE LaTeX 范围用 --', formatCitation(four.slice(0, 3), 'ieee', { numbers: [1, 2, 3], markup: 'latex' }), '[1]--[3]');
+  expectEqual('IEEE 两个相邻编号', formatCitation(four.slice(0, 2), 'ieee', { numbers: [7, 8] }), '[7], [8]');
+  expectEqual('重复编号去重', formatCitation([article, article], 'gb-t-7714', { numbers: [2, 2] }), '[2]');
+  expectEqual('没有编号时按位置编号', formatCitation(four.slice(0, 2), 'gb-t-7714'), '[1,2]');
+  expectEqual('APA', formatCitation(four, 'apa'), '(Vaswani et al., 2017; No Author Book, n.d.; 张三 et al., 2020; Devlin & Chang, 2019)');
+  expectEqual('MLA', formatCitation([article, arxiv], 'mla'), '(Vaswani et al.; Devlin and Chang)');
+  expectEqual('Chicago 最多列出 3 位作者', formatCitation([article], 'chicago'), '(Vaswani, Shazeer, and Parmar 2017)');
+  expectEqual('APA LaTeX 转义 &', formatCitation([arxiv], 'apa', { markup: 'latex' }), '(Devlin \\& Chang, 2019)');
+
+  // 参考文献列表
+  console.log('\n--- 参考文献列表 ---');
+  expectEqual('著者-出版年制按第一作者（没有作者时按标题）排序', orderReferences(four, 'apa').map(reference => reference.id), ['r3', 'r4', 'r2', 'r1']);
+  expectEqual('顺序编码制保持给定顺序', orderReferences(four, 'ieee').map(reference => reference.id), ['r1', 'r2', 'r3', 'r4']);
+  expectEqual('纯文本带 [n] 编号', formatBibliography([article, arxiv], 'ieee').split('\n\n').map(entry => entry.slice(0, 4)), ['[1] ', '[2] ']);
+  expectEqual('thebibliography（顺序编码制）', formatBibliography([noAuthor], 'gb-t-7714', 'latex'),
+    '\\begin{thebibliography}{9}\n\\bibitem{r2} No Author Book[M]. Berlin: Springer.\n\\end{thebibliography}\n');
+  expectEqual('thebibliography（著者-出版年制带标签）', formatBibliography([arxiv], 'apa', 'latex').split('\n')[1].startsWith('\\bibitem[Devlin \\& Chang, 2019]{r4} Devlin, J.'), true);
+  expectEqual('HTML 顺序编码制为 <ol>', formatBibliography([noAuthor], 'ieee', 'html'),
+    '<ol class="bibliography">\n  <li><i>No Author Book</i>. Berlin: Springer.</li>\n</ol>\n');
+  expectEqual('HTML 著者-出版年制为 <ul>', formatBibliography([noAuthor], 'mla', 'html').startsWith('<ul class="bibliography">'), true);
+  expectThrows('不支持的引用格式', () => formatBibliography([], 'harvard'), '不支持的引用格式: harvard，可选 gb-t-7714 / apa / ieee / mla / chicago');
+  expectThrows('不支持的输出格式', () => formatReference(article, 'apa', 'rtf'), '不支持的输出格式: rtf，可选 text / markdown / latex / html');
+
+  // 编号与参考文献列表一致
+  console.log('\n--- 插入引用的编号 ---');
+  const library = [article, arxiv, cjk];
+  expectEqual('库中没有的键不占编号', citationNumber(arxiv, library, ['missing2020', 'vaswani2017', 'r4']), 2);
+  expectEqual('尚未引用的条目排在最后', citationNumber(cjk, library, ['missing2020', 'vaswani2017', 'r4']), 3);
+  {
+    const storage = memoryStorage({ academic_writing_references: JSON.stringify(library) });
+    const files = { 'main.tex': '\\cite{missing2020} \\cite{vaswani2017} \\cite{r4}' };
+    const inserted = await executeTool('insert_resource', {
+      resource_type: 'references', resource_id: 'r4', insert_format: 'markdown', citation_style: 'ieee'
+    }, '', { storage, files });
+    const bibliography = await executeTool('format_bibliography', { style: 'ieee', format: 'text' }, '', { storage, files });
+    // 插入时为没有引用键的条目生成了 devlin2019bert，正文中的 \cite{r4} 仍按 id 匹配
+    expectEqual('insert_resource 与 format_bibliography 的编号相同',
+      [inserted.data.content, bibliography.data.citations.devlin2019bert, bibliography.data.missing],
+      ['[2]', '[2]', ['missing2020']]);
+  }
+}
+
+main()
+  .catch(error => {
+    logTest('测试脚本运行', false, error.stack);
+  })
+  .finally(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    console.log('\n' + '='.repeat(80));
+    console.log(`测试完成: ${testResults.passed} 通过, ${testResults.failed} 失败`);
+    process.exit(testResults.failed > 0 ? 1 : 0);
+  });
@@ -0,0 +1,167 @@
+#!/usr/bin/env node
+/**
+ * 差异审阅测试脚本
+ * 测试 src/utils/diff.ts 的差异块计算和按接受/拒绝结果合并（用 typescript 即时编译，不需要启动前端）
+ *
+ * 运行: node scripts/test-diff.cjs
+ */
+
+const fs = require('fs');
+const path = require('path');
+const Module = require('module');
+const ts = require('typescript');
+
+// 将前端的 TypeScript 模块编译为 CommonJS 后加载
+function loadTsModule(relativePath) {
+  const filename = path.join(__dirname, '..', relativePath);
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true },
+    fileName: filename
+  });
+  const mod = new Module(filename, module);
+  mod.filename = filename;
+  mod.paths = Module._nodeModulePaths(path.dirname(filename));
+  mod._compile(outputText, filename);
+  return mod.exports;
+}
+
+const { computeHunks, applyHunks } = loadTsModule('src/utils/diff.ts');
+
+console.log('='.repeat(80));
+console.log('差异审阅测试脚本');
+console.log('='.repeat(80));
+
+const testResults = {
+  passed: 0,
+  failed: 0
+};
+
+function logTest(name, passed, message = '') {
+  const status = passed ? '✅ PASS' : '❌ FAIL';
+  console.log(`${status}: ${name}`);
+  if (!passed && message) {
+    console.log(`   消息: ${message}`);
+  }
+  if (passed) {
+    testResults.passed++;
+  } else {
+    testResults.failed++;
+  }
+}
+
+function expectEqual(name, actual, expected) {
+  const same = JSON.stringify(actual) === JSON.stringify(expected);
+  logTest(name, same, same ? '' : `期望 ${JSON.stringify(expected)}，实际 ${JSON.stringify(actual)}`);
+}
+
+const allIds = hunks => new Set(hunks.map(hunk => hunk.id));
+const summary = hunks => hunks.map(hunk => [hunk.originalStart, hunk.originalLines, hunk.proposedStart, hunk.proposedLines]);
+
+// 差异块
+console.log('\n--- computeHunks ---');
+expectEqual('内容相同时没有差异块', computeHunks('a\nb\n', 'a\nb\n'), []);
+expectEqual('修改一行', summary(computeHunks('a\nb\nc', 'a\nB\nc')), [[2, ['b'], 2, ['B']]]);
+expectEqual('开头插入', summary(computeHunks('a\nb', 'x\na\nb')), [[1, [], 1, ['x']]]);
+expectEqual('末尾追加（原文有结尾换行）', summary(computeHunks('a\n', 'a\nb\n')), [[2, [], 2, ['b']]]);
+expectEqual('删除中间的行', summary(computeHunks('a\nb\nc\nd', 'a\nd')), [[2, ['b', 'c'], 2, []]]);
+expectEqual('两处不相邻的修改为两个差异块',
+  summary(computeHunks('1\n2\n3\n4\n5', '1\nX\n3\n4\nY')),
+  [[2, ['2'], 2, ['X']], [5, ['5'], 5, ['Y']]]);
+expectEqual('差异块 ID 连续', computeHunks('1\n2\n3\n4\n5', '1\nX\n3\n4\nY').map(hunk => hunk.id), [0, 1]);
+expectEqual('空原文', summary(computeHunks('', 'a\nb')), [[1, [''], 1, ['a', 'b']]]);
+
+// 合并
+console.log('\n--- applyHunks ---');
+{
+  const original = '\\section{引言}\n旧的第一段\n\\section{方法}\n旧的方法\n\\section{结论}';
+  const proposed = '\\section{引言}\n新的第一段\n\\section{方法}\n旧的方法\n新增一段\n\\section{结论}';
+  const hunks = computeHunks(original, proposed);
+  expectEqual('两个差异块', hunks.length, 2);
+  expectEqual('全部接受得到修改后的内容', applyHunks(original, hunks, allIds(hunks)), proposed);
+  expectEqual('全部拒绝保持原文', applyHunks(original, hunks, new Set()), original);
+  expectEqual('只接受第二个差异块', applyHunks(original, hunks, new Set([1])),
+    '\\section{引言}\n旧的第一段\n\\section{方法}\n旧的方法\n新增一段\n\\section{结论}');
+}
+{
+  const original = 'a\nb\n';
+  const hunks = computeHunks(original, 'a\nb\nc\n');
+  expectEqual('保留结尾换行', applyHunks(original, hunks, allIds(hunks)), 'a\nb\nc\n');
+}
+
+// 随机修改：全部接受得到修改后的内容，全部拒绝得到原文
+console.log('\n--- 随机修改 ---');
+{
+  let seed = 42;
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+  };
+  let failures = 0;
+  for (let round = 0; round < 200; round++) {
+    const original = Array.from({ length: 1 + Math.floor(random() * 12) }, () => `l${Math.floor(random() * 5)}`);
+    const proposed = [];
+    for (const line of original) {
+      const roll = random();
+      if (roll < 0.15) continue;
+      if (roll < 0.3) proposed.push(`n${Math.floor(random() * 5)}`);
+      else proposed.push(line);
+      if (random() < 0.15) proposed.push(`i${Math.floor(random() * 5)}`);
+    }
+    const a = original.join('\n');
+    const b = proposed.join('\n');
+    const hunks = computeHunks(a, b);
+    const ok = applyHunks(a, hunks, allIds(hunks)) === b && applyHunks(a, hunks, new Set()) === a;
+    if (!ok) failures++;
+  }
+  logTest('200 组随机修改全部接受 / 全部拒绝的结果正确', failures === 0, `${failures} 组不一致`);
+}
+{
+  // 与最长公共子序列比较：差异块中的行数之和最少
+  const lcsLength = (a, b) => {
+    const row = new Array(b.length + 1).fill(0);
+    for (const line of a) {
+      let diagonal = 0;
+      for (let j = 1; j <= b.length; j++) {
+        const above = row[j];
+        row[j] = line === b[j - 1] ? diagonal + 1 : Math.max(row[j], row[j - 1]);
+        diagonal = above;
+      }
+    }
+    return row[b.length];
+  };
+  let seed = 7;
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+  };
+  let failures = 0;
+  for (let round = 0; round < 100; round++) {
+    const a = Array.from({ length: 1 + Math.floor(random() * 15) }, () => `l${Math.floor(random() * 3)}`);
+    const b = Array.from({ length: 1 + Math.floor(random() * 15) }, () => `l${Math.floor(random() * 3)}`);
+    const changed = computeHunks(a.join('\n'), b.join('\n'))
+      .reduce((sum, hunk) => sum + hunk.originalLines.length + hunk.proposedLines.length, 0);
+    if (changed !== a.length + b.length - 2 * lcsLength(a, b)) failures++;
+  }
+  logTest('100 组随机内容的差异最小', failures === 0, `${failures} 组不是最小差异`);
+}
+
+// 大文件：耗时只与修改的多少有关；修改过多时不做逐行比较
+console.log('\n--- 大文件 ---');
+{
+  const lines = Array.from({ length: 20000 }, (_, i) => `line ${i}`);
+  const proposed = [...lines];
+  proposed[10] = 'changed 10';
+  proposed.splice(19990, 1);
+  const hunks = computeHunks(lines.join('\n'), proposed.join('\n'));
+  expectEqual('相隔很远的修改仍逐行比较', summary(hunks), [[11, ['line 10'], 11, ['changed 10']], [19991, ['line 19990'], 19991, []]]);
+}
+{
+  const original = Array.from({ length: 6000 }, (_, i) => `a${i}`).join('\n');
+  const proposed = Array.from({ length: 6000 }, (_, i) => `b${i}`).join('\n');
+  const hunks = computeHunks(`head\n${original}\ntail`, `head\n${proposed}\ntail`);
+  expectEqual('增删的行数超过上限时中间部分作为一个差异块', hunks.map(hunk => [hunk.originalStart, hunk.originalLines.length, hunk.proposedLines.length]), [[2, 6000, 6000]]);
+}
+
+console.log('\n' + '='.repeat(80));
+console.log(`测试完成: ${testResults.passed} 通过, ${testResults.failed} 失败`);
+process.exit(testResults.failed > 0 ? 1 : 0);
@@ -0,0 +1,122 @@
+#!/usr/bin/env node
+/**
+ * 编辑操作测试脚本
+ * 测试 edit_file 各操作的替换结果和报告的行号范围
+ *
+ * 运行: node scripts/test-edit-operations.cjs
+ */
+
+const { applyEdits, EditError } = require('../server/tools/editOperations.cjs');
+
+console.log('='.repeat(80));
+console.log('编辑操作测试脚本');
+console.log('='.repeat(80));
+
+const testResults = {
+  passed: 0,
+  failed: 0
+};
+
+function logTest(name, passed, message = '') {
+  const status = passed ? '✅ PASS' : '❌ FAIL';
+  console.log(`${status}: ${name}`);
+  if (!passed && message) {
+    console.log(`   消息: ${message}`);
+  }
+  if (passed) {
+    testResults.passed++;
+  } else {
+    testResults.failed++;
+  }
+}
+
+function expectEqual(name, actual, expected) {
+  const same = JSON.stringify(actual) === JSON.stringify(expected);
+  logTest(name, same, same ? '' : `期望 ${JSON.stringify(expected)}，实际 ${JSON.stringify(actual)}`);
+}
+
+function expectEditError(name, fn, pattern) {
+  try {
+    fn();
+    logTest(name, false, '没有抛出 EditError');
+  } catch (error) {
+    logTest(name, error instanceof EditError && pattern.test(error.message), error.message);
+  }
+}
+
+const numbered = count => Array.from({ length: count }, (_, i) => `line${i + 1}`).join('\n');
+
+// regex_replace
+console.log('\n--- regex_replace ---');
+{
+  const content = '\\section{引言}\n正文\n\\section{方法}\n';
+  const result = applyEdits(content, [{ operation: 'regex_replace', pattern: '(?<=\\\\section\\{)引言', content: 'Introduction' }]);
+  expectEqual('后顾断言按原文上下文匹配', result.content, '\\section{Introduction}\n正文\n\\section{方法}\n');
+  expectEqual('后顾断言报告修改的行', [result.changes[0].old_start_line, result.changes[0].new_end_line], [1, 1]);
+}
+{
+  const result = applyEdits('alpha\nbeta\n', [{ operation: 'regex_replace', pattern: '^beta$', flags: 'm', content: 'gamma' }]);
+  expectEqual('^ / $ 锚点', result.content, 'alpha\ngamma\n');
+}
+{
+  const result = applyEdits('cat category cat', [{ operation: 'regex_replace', pattern: '\\bcat\\b', content: 'dog', count: 0 }]);
+  expectEqual('\\b 单词边界', result.content, 'dog category dog');
+}
+{
+  const result = applyEdits('a1 b2', [{ operation: 'regex_replace', pattern: '(?<letter>\\w)(\\d)', content: '$2$<letter>[$&]$$', count: 0 }]);
+  expectEqual('分组引用 $n、$<name>、$&、$$', result.content, '1a[a1]$ 2b[b2]$');
+}
+{
+  const result = applyEdits('x1 y2 z3', [{ operation: 'regex_replace', pattern: '\\d', content: '#', count: 2 }]);
+  expectEqual('count 只替换前几处', result.content, 'x# y# z3');
+}
+expectEditError('替换后没有变化时报错', () => applyEdits('abc', [{ operation: 'regex_replace', pattern: 'b', content: 'b' }]), /没有变化/);
+expectEditError('多处匹配且未指定 count 时报错', () => applyEdits('a a', [{ operation: 'regex_replace', pattern: 'a', content: 'b' }]), /count/);
+expectEditError('无效的正则', () => applyEdits('a', [{ operation: 'regex_replace', pattern: '(', content: 'b' }]), /正则表达式无效/);
+
+// delete_lines / replace_lines
+console.log('\n--- delete_lines / replace_lines ---');
+{
+  const result = applyEdits(numbered(15), [{ operation: 'delete_lines', start_line: 14, end_line: 15 }]);
+  expectEqual('删除到末行（无结尾换行）的内容', result.content, numbered(13));
+  expectEqual('删除到末行时报告请求的行号', [result.changes[0].old_start_line, result.changes[0].old_end_line, result.changes[0].lines_removed], [14, 15, 2]);
+}
+{
+  const result = applyEdits(`${numbered(5)}\n`, [{ operation: 'delete_lines', start_line: 2, end_line: 3 }]);
+  expectEqual('删除中间的行', result.content, 'line1\nline4\nline5\n');
+  expectEqual('删除中间的行的行号', [result.changes[0].old_start_line, result.changes[0].old_end_line], [2, 3]);
+}
+{
+  const result = applyEdits(numbered(3), [{ operation: 'replace_lines', start_line: 3, end_line: 3, content: 'last\n' }]);
+  expectEqual('替换末行时不追加换行', result.content, 'line1\nline2\nlast');
+}
+expectEditError('行号超出范围', () => applyEdits(numbered(3), [{ operation: 'delete_lines', start_line: 2, end_line: 4 }]), /行号范围无效/);
+
+// 章节、标签和批量编辑
+console.log('\n--- replace_section / insert_after_label / batch ---');
+{
+  const content = '\\section{引言}\nold\n\\subsection{背景}\nsub\n\\section{方法}\nm\n';
+  const result = applyEdits(content, [{ operation: 'replace_section', section: '引言', content: 'new' }]);
+  expectEqual('替换章节到下一个同级标题之前', result.content, '\\section{引言}\nnew\n\\section{方法}\nm\n');
+}
+{
+  const content = '\\begin{figure}\n\\label{fig:a}\n\\end{figure}\ntext\n';
+  const result = applyEdits(content, [{ operation: 'insert_after_label', label: 'fig:a', content: 'after' }]);
+  expectEqual('标签在环境内时插入到环境之后', result.content, '\\begin{figure}\n\\label{fig:a}\n\\end{figure}\nafter\ntext\n');
+}
+{
+  const content = numbered(4);
+  const result = applyEdits(content, [
+    { operation: 'replace_lines', start_line: 1, end_line: 1, content: 'first' },
+    { operation: 'delete_lines', start_line: 4, end_line: 4 }
+  ]);
+  expectEqual('批量编辑的行号都相对于原文', result.content, 'first\nline2\nline3');
+}
+expectEditError('批量编辑范围重叠时整体失败', () => applyEdits(numbered(4), [
+  { operation: 'delete_lines', start_line: 1, end_line: 2 },
+  { operation: 'replace_lines', start_line: 2, end_line: 2, content: 'x' }
+]), /重叠/);
+
+console.log('\n' + '='.repeat(80));
+console.log(`测试完成: ${testResults.passed} 通过, ${testResults.failed} 失败`);
+process.exit(testResults.failed > 0 ? 1 : 0);
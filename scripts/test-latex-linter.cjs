@@ -0,0 +1,144 @@
+#!/usr/bin/env node
+/**
+ * LaTeX 静态检查测试脚本
+ * 测试 lint_document / /api/lint 的配对检查、引用检查、注释和 verbatim 屏蔽，以及引用键的收集和改写
+ *
+ * 运行: node scripts/test-latex-linter.cjs
+ */
+
+const {
+  lintLatex,
+  countFindings,
+  collectCitationKeys,
+  locateCitationKeys,
+  renameCitationKeys
+} = require('../server/tools/latexLinter.cjs');
+
+console.log('='.repeat(80));
+console.log('LaTeX 静态检查测试脚本');
+console.log('='.repeat(80));
+
+const testResults = {
+  passed: 0,
+  failed: 0
+};
+
+function logTest(name, passed, message = '') {
+  const status = passed ? '✅ PASS' : '❌ FAIL';
+  console.log(`${status}: ${name}`);
+  if (!passed && message) {
+    console.log(`   消息: ${message}`);
+  }
+  if (passed) {
+    testResults.passed++;
+  } else {
+    testResults.failed++;
+  }
+}
+
+function expectEqual(name, actual, expected) {
+  const same = JSON.stringify(actual) === JSON.stringify(expected);
+  logTest(name, same, same ? '' : `期望 ${JSON.stringify(expected)}，实际 ${JSON.stringify(actual)}`);
+}
+
+// 只比较规则和起始位置
+const brief = findings => findings.map(finding => [finding.rule, finding.line, finding.column]);
+
+// 配对检查
+console.log('\n--- 花括号、环境和数学模式 ---');
+expectEqual('正确的文档没有问题', lintLatex('\\section{引言}\n\\begin{itemize}\n\\item $a_{1}$ 与 \\(b\\)\n\\end{itemize}\n\\[ c \\]\n'), []);
+expectEqual('未闭合的左花括号', brief(lintLatex('a \\textbf{b\nc')), [['unbalanced-brace', 1, 10]]);
+expectEqual('多余的右花括号', brief(lintLatex('a}\n')), [['unbalanced-brace', 1, 2]]);
+expectEqual('转义的花括号和美元符不参与配对', lintLatex('\\{ \\} \\$ 50\\% \\\\'), []);
+expectEqual('未闭合的环境', brief(lintLatex('\\begin{figure}\n\\centering\n')), [['unclosed-environment', 1, 1]]);
+expectEqual('没有 \\begin 的 \\end', brief(lintLatex('text\n\\end{table}')), [['unmatched-end', 2, 1]]);
+expectEqual('交错的环境', brief(lintLatex('\\begin{figure}\n\\begin{center}\n\\end{figure}\n')), [['mismatched-environment', 2, 1]]);
+expectEqual('\\begin 与花括号之间有空格', lintLatex('\\begin {itemize}\n\\item a\n\\end{itemize}'), []);
+expectEqual('行内公式跨段落', brief(lintLatex('公式 $a + b\n\n下一段')), [['unclosed-math', 1, 4]]);
+expectEqual('行内公式跨行（同一段落）不报错', lintLatex('公式 $a +\nb$ 结束'), []);
+expectEqual('定界符不匹配', brief(lintLatex('\\(a\\]')), [['unmatched-math', 1, 4]]);
+expectEqual('多余的 \\)', brief(lintLatex('a\\)')), [['unmatched-math', 1, 2]]);
+expectEqual('$$ 展示公式', lintLatex('$$\na = b\n$$'), []);
+expectEqual('未闭合的 \\[', brief(lintLatex('\\[ a = b')), [['unclosed-math', 1, 1]]);
+
+// 注释、verbatim 和 \verb
+console.log('\n--- 屏蔽的内容 ---');
+expectEqual('注释中的内容不检查', lintLatex('a % \\begin{figure} { $ \\ref{x}\nb'), []);
+expectEqual('\\\\% 之后是注释', lintLatex('a \\\\% {\nb'), []);
+expectEqual('verbatim 环境不检查', lintLatex('\\begin{verbatim}\n{ $ \\end{itemize}\n\\end{verbatim}'), []);
+expectEqual('lstlisting 环境不检查', lintLatex('\\begin{lstlisting}\nif (a) { % }\n\\end{lstlisting}'), []);
+expectEqual('\\verb 的内容不检查', lintLatex('用 \\verb|{| 和 \\verb+$+ 表示'), []);
+expectEqual('未闭合的 verbatim 只报告环境，之后的内容被屏蔽', brief(lintLatex('\\begin{verbatim}\n{')), [['unclosed-environment', 1, 1]]);
+
+// 位置
+console.log('\n--- 位置 ---');
+{
+  const [finding] = lintLatex('第一行\n中文 \\ref{missing} 后');
+  expectEqual('行列号从 1 开始（列按字符计）', [finding.line, finding.column, finding.end_line, finding.end_column], [2, 4, 2, 17]);
+}
+{
+  const findings = lintLatex('}\n\\ref{a}\n{');
+  expectEqual('按位置排序', brief(findings), [['unbalanced-brace', 1, 1], ['undefined-reference', 2, 1], ['unbalanced-brace', 3, 1]]);
+  expectEqual('统计错误和警告', countFindings(findings), { errors: 2, warnings: 1 });
+}
+{
+  const content = Array.from({ length: 80 }, () => '}').join('\n');
+  expectEqual('同一规则最多报告 50 条', lintLatex(content).length, 50);
+}
+
+// 标签和交叉引用
+console.log('\n--- 标签和交叉引用 ---');
+expectEqual('重复的标签', brief(lintLatex('\\label{a}\n\\label{a}')), [['duplicate-label', 2, 1]]);
+expectEqual('引用后文定义的标签', lintLatex('见 \\ref{sec:b}\n\\section{B}\\label{sec:b}'), []);
+expectEqual('\\cref 中的多个标签逐个检查', brief(lintLatex('\\label{a}\n\\cref{a, b}')), [['undefined-reference', 2, 1]]);
+expectEqual('其他项目文件中的标签视为已定义',
+  lintLatex('\\ref{sec:intro}', { file: 'main.tex', projectFiles: { 'main.tex': '', 'chapters/intro.tex': '\\label{sec:intro}' } }), []);
+expectEqual('其他文件注释中的标签不算',
+  brief(lintLatex('\\ref{sec:intro}', { file: 'main.tex', projectFiles: { 'main.tex': '', 'intro.tex': '% \\label{sec:intro}' } })),
+  [['undefined-reference', 1, 1]]);
+
+// 文献引用
+console.log('\n--- 文献引用 ---');
+const references = [{ id: 'r1', citationKey: 'smith2020' }];
+expectEqual('库中的引用键', lintLatex('\\cite{smith2020} \\citep[见][第5页]{smith2020}', { references }), []);
+expectEqual('未定义的引用键', brief(lintLatex('\\cite{smith2020,doe2021}', { references })), [['undefined-citation', 1, 1]]);
+expectEqual('\\nocite{*} 不报错', lintLatex('\\nocite{*}', { references }), []);
+expectEqual('thebibliography 中的 \\bibitem', lintLatex('\\cite{knuth}\n\\begin{thebibliography}{9}\n\\bibitem{knuth} TAOCP\n\\end{thebibliography}'), []);
+expectEqual('项目 .bib 文件中的条目',
+  lintLatex('\\cite{lamport1994}', { file: 'main.tex', projectFiles: { 'main.tex': '', 'refs.bib': '@book{lamport1994,\n title={LaTeX}}\n@comment{ignored,}' } }), []);
+
+// \input / \include
+console.log('\n--- \\input / \\include ---');
+{
+  const projectFiles = { 'main.tex': '', 'chapters/intro.tex': '', 'tables/t1.txt': '' };
+  expectEqual('存在的文件（省略扩展名、./ 前缀、其他扩展名）',
+    lintLatex('\\input{chapters/intro}\n\\include{./chapters/intro}\n\\input{tables/t1.txt}', { file: 'main.tex', projectFiles }), []);
+  expectEqual('不存在的文件', brief(lintLatex('\\input{chapters/missing}', { file: 'main.tex', projectFiles })), [['missing-input', 1, 1]]);
+  expectEqual('没有项目文件时不检查 \\input', lintLatex('\\input{chapters/missing}'), []);
+}
+
+// 引用键的收集和改写
+console.log('\n--- 引用键收集和改写 ---');
+{
+  const files = {
+    'main.tex': '\\cite{b,a}\n% \\cite{commented}\n\\input{ch}',
+    'ch.tex': '\n\\citet{a} \\parencite[p.~1]{c}',
+    'refs.bib': '@article{z, }'
+  };
+  expectEqual('按首次出现顺序收集，忽略注释和 .bib', collectCitationKeys(files), ['b', 'a', 'c']);
+  expectEqual('引用位置', locateCitationKeys(files).map(item => [item.key, item.file, item.line]),
+    [['b', 'main.tex', 1], ['a', 'main.tex', 1], ['a', 'ch.tex', 2], ['c', 'ch.tex', 2]]);
+}
+{
+  const result = renameCitationKeys('\\cite{old, other} \\citep[见]{old}\n% \\cite{old}\n\\verb|\\cite{old}|', { old: 'new' });
+  expectEqual('改写引用键（保留分隔符，忽略注释和 \\verb）', result, {
+    content: '\\cite{new, other} \\citep[见]{new}\n% \\cite{old}\n\\verb|\\cite{old}|',
+    count: 2
+  });
+}
+expectEqual('合并后同一命令中重复的键只保留一个', renameCitationKeys('\\cite{a,b}', { b: 'a' }), { content: '\\cite{a}', count: 1 });
+expectEqual('没有需要改写的键时原样返回', renameCitationKeys('\\cite{a}', { x: 'y' }), { content: '\\cite{a}', count: 0 });
+
+console.log('\n' + '='.repeat(80));
+console.log(`测试完成: ${testResults.passed} 通过, ${testResults.failed} 失败`);
+process.exit(testResults.failed > 0 ? 1 : 0);
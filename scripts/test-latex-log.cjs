@@ -0,0 +1,137 @@
+#!/usr/bin/env node
+/**
+ * 编译日志解析测试脚本
+ * 测试 TeX / BibTeX 日志中错误和警告的文件、行号识别（不需要安装 TeX）
+ *
+ * 运行: node scripts/test-latex-log.cjs
+ */
+
+const { parseLatexLog, parseBibtexLog } = require('../server/latexCompiler.cjs');
+
+console.log('='.repeat(80));
+console.log('编译日志解析测试脚本');
+console.log('='.repeat(80));
+
+const testResults = {
+  passed: 0,
+  failed: 0
+};
+
+function logTest(name, passed, message = '') {
+  const status = passed ? '✅ PASS' : '❌ FAIL';
+  console.log(`${status}: ${name}`);
+  if (!passed && message) {
+    console.log(`   消息: ${message}`);
+  }
+  if (passed) {
+    testResults.passed++;
+  } else {
+    testResults.failed++;
+  }
+}
+
+function expectEqual(name, actual, expected) {
+  const same = JSON.stringify(actual) === JSON.stringify(expected);
+  logTest(name, same, same ? '' : `期望 ${JSON.stringify(expected)}，实际 ${JSON.stringify(actual)}`);
+}
+
+const location = item => item && [item.file, item.fileLine];
+
+// 多文件项目：警告和错误归属到日志中当前打开的文件
+console.log('\n--- 多文件项目 ---');
+{
+  const log = [
+    'This is XeTeX, Version 3.141592653',
+    '(./main.tex',
+    'LaTeX2e <2023-11-01>',
+    '(/usr/share/texlive/texmf-dist/tex/latex/base/article.cls',
+    'Document Class: article 2023/05/17 v1.4n Standard LaTeX document class',
+    ')',
+    "LaTeX Warning: Citation `foo' on page 1 undefined on input line 5.",
+    '(./chapters/intro.tex',
+    'Overfull \\hbox (12.0pt too wide) in paragraph at lines 3--4',
+    '[]\\TU/lmr/m/n/10 text',
+    "LaTeX Warning: Reference `sec:x' on page 1 undefined on input line 7.",
+    '! Undefined control sequence.',
+    'l.9 \\foo (',
+    '          bar',
+    '',
+    ')',
+    'Underfull \\hbox (badness 10000) in paragraph at lines 12--12',
+    ')',
+    'LaTeX Warning: There were undefined references.'
+  ].join('\n');
+  const { errors, warnings } = parseLatexLog(log);
+
+  expectEqual('主文件中的 "on input line" 警告', location(warnings[0]), ['main.tex', 5]);
+  expectEqual('章节文件中的 Overfull 警告', location(warnings[1]), ['chapters/intro.tex', 3]);
+  expectEqual('章节文件中的 "on input line" 警告', location(warnings[2]), ['chapters/intro.tex', 7]);
+  expectEqual('"! " 错误归属到当前文件（源码中的括号不影响文件栈）', location(errors[0]), ['chapters/intro.tex', 9]);
+  expectEqual('章节文件关闭后回到主文件（Underfull 警告）', location(warnings[3]), ['main.tex', 12]);
+  expectEqual('所有文件关闭后的警告没有位置', location(warnings[4]), [null, null]);
+}
+
+// -file-line-error 格式
+console.log('\n--- -file-line-error ---');
+{
+  const log = [
+    '(./main.tex (./chapters/method.tex',
+    './chapters/method.tex:4: Undefined control sequence.',
+    'l.4 \\bad',
+    '',
+    '/usr/share/texlive/texmf-dist/tex/latex/tools/array.sty:123: Package array Error: Illegal pream-token.',
+    './main.tex:20: Emergency stop.',
+    '))'
+  ].join('\n');
+  const { errors } = parseLatexLog(log);
+  expectEqual('错误数量（忽略 Emergency stop）', errors.length, 2);
+  expectEqual('项目文件保留相对路径', location(errors[0]), ['chapters/method.tex', 4]);
+  expectEqual('出错位置的源码', errors[0].context, '\\bad');
+  expectEqual('系统宏包只保留文件名', location(errors[1]), ['array.sty', 123]);
+}
+
+// 无法确定文件时不猜测为 main.tex
+console.log('\n--- 无法确定文件 ---');
+{
+  const log = [
+    "LaTeX Warning: Label `a' multiply defined on input line 3.",
+    'Overfull \\hbox (1.0pt too wide) in paragraph at lines 8--9',
+    '! LaTeX Error: File `missing.sty\' not found.',
+    'l.2 \\usepackage{missing}'
+  ].join('\n');
+  const { errors, warnings } = parseLatexLog(log);
+  expectEqual('没有打开的文件时警告没有位置', warnings.map(location), [[null, null], [null, null]]);
+  expectEqual('没有打开的文件时错误没有位置', location(errors[0]), [null, null]);
+}
+
+// 续行的警告
+console.log('\n--- 警告续行 ---');
+{
+  const log = [
+    '(./main.tex',
+    'Package hyperref Warning: Token not allowed in a PDF string (Unicode):',
+    '(hyperref)                removing `math shift\' on input line 10.',
+    ')'
+  ].join('\n');
+  const { warnings } = parseLatexLog(log);
+  expectEqual('续行合并并识别行号', location(warnings[0]), ['main.tex', 10]);
+  expectEqual('续行内容', warnings[0].message.includes('removing'), true);
+}
+
+// BibTeX 日志
+console.log('\n--- BibTeX ---');
+{
+  const log = [
+    'Warning--empty journal in smith2020',
+    "I was expecting a `,' or a `}'---line 5 of file ./refs.bib",
+    'I found no \\citation commands---while reading file main.aux'
+  ].join('\n');
+  const { errors, warnings } = parseBibtexLog(log);
+  expectEqual('BibTeX 警告', warnings[0].message, 'BibTeX: empty journal in smith2020');
+  expectEqual('BibTeX 错误的文件和行号', location(errors[0]), ['refs.bib', 5]);
+  expectEqual('BibTeX 错误数量', errors.length, 2);
+}
+
+console.log('\n' + '='.repeat(80));
+console.log(`测试完成: ${testResults.passed} 通过, ${testResults.failed} 失败`);
+process.exit(testResults.failed > 0 ? 1 : 0);
@@ -0,0 +1,170 @@
+#!/usr/bin/env node
+/**
+ * LaTeX 预览渲染测试脚本
+ * 测试 src/utils/latexRenderer.ts 的章节编号、交叉引用、引用、公式、列表、表格、图片和增量渲染
+ * （用 typescript 即时编译，不需要启动前端）
+ *
+ * 运行: node scripts/test-latex-renderer.cjs
+ */
+
+const fs = require('fs');
+const path = require('path');
+const Module = require('module');
+const ts = require('typescript');
+
+// 将前端的 TypeScript 模块编译为 CommonJS 后加载
+function loadTsModule(relativePath) {
+  const filename = path.join(__dirname, '..', relativePath);
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true },
+    fileName: filename
+  });
+  const mod = new Module(filename, module);
+  mod.filename = filename;
+  mod.paths = Module._nodeModulePaths(path.dirname(filename));
+  mod._compile(outputText, filename);
+  return mod.exports;
+}
+
+const { renderLatexDocument } = loadTsModule('src/utils/latexRenderer.ts');
+
+console.log('='.repeat(80));
+console.log('LaTeX 预览渲染测试脚本');
+console.log('='.repeat(80));
+
+const testResults = {
+  passed: 0,
+  failed: 0
+};
+
+function logTest(name, passed, message = '') {
+  const status = passed ? '✅ PASS' : '❌ FAIL';
+  console.log(`${status}: ${name}`);
+  if (!passed && message) {
+    console.log(`   消息: ${message}`);
+  }
+  if (passed) {
+    testResults.passed++;
+  } else {
+    testResults.failed++;
+  }
+}
+
+function expectEqual(name, actual, expected) {
+  const same = JSON.stringify(actual) === JSON.stringify(expected);
+  logTest(name, same, same ? '' : `期望 ${JSON.stringify(expected)}，实际 ${JSON.stringify(actual)}`);
+}
+
+function expectIncludes(name, html, fragment) {
+  logTest(name, html.includes(fragment), `输出中没有 ${fragment}\n   输出: ${html.slice(0, 300)}`);
+}
+
+const context = {
+  references: [{ id: 'r1', citationKey: 'vaswani2017', title: 'Attention Is All You Need', authors: ['Ashish Vaswani'], year: 2017 }],
+  images: [{ id: 'i1', name: 'fig1.png', description: '', dataUrl: 'data:image/png;base64,AAAA', fileType: 'image/png', fileSize: 3, uploadDate: '' }]
+};
+
+const blocks = [
+  String.raw`\section{引言}\label{sec:intro}
+见\ref{sec:method}、图~\ref{fig:a}、式~\eqref{eq:1}和\ref{sec:none}。完成 50\% % 注释不显示
+\textbf{粗体} \emph{强调} $x^2$ \cite{vaswani2017,bib1,missing2020}`,
+  String.raw`\subsection{背景}
+\begin{itemize}
+\item 第一项
+\item 第二项
+\end{itemize}`,
+  String.raw`\section*{致谢}`,
+  String.raw`\section{方法}\label{sec:method}
+\begin{equation}\label{eq:1}
+a = b
+\end{equation}`,
+  String.raw`\begin{figure}
+\includegraphics[width=0.5\linewidth]{fig1.png}
+\caption{示意图}\label{fig:a}
+\end{figure}`,
+  String.raw`\begin{tabular}{lc}
+a & b \\
+c & d
+\end{tabular}`,
+  String.raw`\includegraphics{missing.png}`,
+  String.raw`\href{javascript:alert(1)}{链接} <script>alert(1)</script>`,
+  String.raw`\begin{thebibliography}{9}
+\bibitem{bib1} Some Book.
+\end{thebibliography}`
+];
+const documentSource = blocks => `\\documentclass{article}\n\\title{测试}\n\\begin{document}\n${blocks.join('\n\n')}\n\\end{document}\n`;
+
+const rendered = renderLatexDocument(documentSource(blocks), context);
+const html = rendered.blocks.map(block => block.html);
+
+// 章节和交叉引用
+console.log('\n--- 章节和交叉引用 ---');
+expectEqual('文档块数量', rendered.blocks.length, blocks.length);
+expectIncludes('章节编号', html[0], '<span class="latex-heading-number">1</span>引言');
+expectIncludes('小节编号', html[1], '<span class="latex-heading-number">1.1</span>背景');
+logTest('带星号的章节不编号', !html[2].includes('latex-heading-number'));
+expectIncludes('后面的章节编号不受无编号章节影响', html[3], '<span class="latex-heading-number">2</span>方法');
+expectIncludes('\\ref 引用后文的章节', html[0], 'href="#latex-label-sec:method">2</a>');
+expectIncludes('\\ref 引用图', html[0], 'href="#latex-label-fig:a">1</a>');
+expectIncludes('\\eqref 带括号', html[0], 'href="#latex-label-eq:1">(1)</a>');
+expectIncludes('找不到的标签显示 ??', html[0], '<span class="latex-ref-missing" title="未找到标签：sec:none">??</span>');
+expectEqual('缺失的标签', rendered.missingLabels, ['sec:none']);
+
+// 文本
+console.log('\n--- 文本、公式和引用 ---');
+expectIncludes('\\% 转义', html[0], '完成 50% ');
+logTest('注释不显示', !html[0].includes('注释不显示'));
+expectIncludes('\\textbf', html[0], '<strong>粗体</strong>');
+expectIncludes('\\emph', html[0], '<em>强调</em>');
+expectIncludes('行内公式由 KaTeX 渲染', html[0], 'class="katex"');
+expectIncludes('编号公式', html[3], '<div class="latex-equation">');
+expectIncludes('引用按首次出现编号（资源库）', html[0], 'href="#latex-bib-vaswani2017" title="Ashish Vaswani 2017 Attention Is All You Need">1</a>');
+expectIncludes('引用 thebibliography 中的条目', html[0], 'href="#latex-bib-bib1" title="bib1">2</a>');
+expectIncludes('找不到的引用', html[0], '<span class="latex-cite-missing" title="未找到引用：missing2020">missing2020?</span>');
+expectEqual('缺失的引用', rendered.missingCitations, ['missing2020']);
+expectIncludes('thebibliography 使用引用编号', html[8], '<li id="latex-bib-bib1"><span class="latex-bib-number">[2]</span> Some Book.</li>');
+
+// 列表、表格和图片
+console.log('\n--- 列表、表格和图片 ---');
+expectIncludes('itemize', html[1], '<ul class="latex-list"><li>第一项</li><li>第二项</li></ul>');
+expectIncludes('表格按列格式对齐', html[5], '<td style="text-align: left">a</td><td style="text-align: center">b</td>');
+expectEqual('表格行数', (html[5].match(/<tr>/g) || []).length, 2);
+expectIncludes('图片使用资源的 dataUrl', html[4], 'src="data:image/png;base64,AAAA"');
+expectIncludes('图题编号', html[4], '<span class="latex-caption-label">图 1</span> 示意图');
+expectIncludes('找不到的图片显示占位', html[6], '图片资源中未找到该图片');
+
+// 安全
+console.log('\n--- 安全 ---');
+expectIncludes('javascript: 链接被替换', html[7], '<a href="#"');
+logTest('正文中的 HTML 被转义', html[7].includes('&lt;script&gt;') && !html[7].includes('<script>'));
+
+// 增量渲染
+console.log('\n--- 增量渲染 ---');
+{
+  const edited = [...blocks];
+  edited[5] = String.raw`\begin{tabular}{lc}
+a & b \\
+e & f
+\end{tabular}`;
+  const next = renderLatexDocument(documentSource(edited), context);
+  const changed = next.blocks.map((block, index) => block.key !== rendered.blocks[index].key);
+  expectEqual('只修改一个块时其他块的 key 不变', changed, [false, false, false, false, false, true, false, false, false]);
+  expectEqual('再次渲染相同内容得到相同结果', renderLatexDocument(documentSource(blocks), context).blocks, rendered.blocks);
+}
+{
+  const next = renderLatexDocument(documentSource([String.raw`\section{新增}`, ...blocks]), context);
+  expectIncludes('插入章节后后续章节重新编号', next.blocks[4].html, '<span class="latex-heading-number">3</span>方法');
+  expectIncludes('交叉引用随之更新', next.blocks[1].html, 'href="#latex-label-sec:method">3</a>');
+}
+{
+  const next = renderLatexDocument(documentSource(['重复的段落', '重复的段落']), context);
+  expectEqual('内容相同的块 key 不同', new Set(next.blocks.map(block => block.key)).size, 2);
+}
+{
+  const next = renderLatexDocument(documentSource(blocks), { ...context, references: [] });
+  expectEqual('资源库变化后引用重新解析', next.missingCitations, ['vaswani2017', 'missing2020']);
+}
+
+console.log('\n' + '='.repeat(80));
+console.log(`测试完成: ${testResults.passed} 通过, ${testResults.failed} 失败`);
+process.exit(testResults.failed > 0 ? 1 : 0);
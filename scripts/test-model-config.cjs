@@ -0,0 +1,84 @@
+#!/usr/bin/env node
+/**
+ * 模型配置测试脚本
+ * 检查所有已注册模型都有 MODEL_CONFIG 配置，本地模型使用自身的上下文预算（不访问模型服务）
+ *
+ * 运行: node scripts/test-model-config.cjs
+ */
+
+// 本地服务商只在设置 LOCAL_LLM_BASE_URL 时注册，需在加载配置前设置
+process.env.LOCAL_LLM_BASE_URL = 'http://127.0.0.1:9/v1';
+process.env.LOCAL_LLM_MODELS = 'qwen2.5-7b-instruct';
+process.env.LOCAL_LLM_CONTEXT_WINDOW = '16384';
+delete process.env.LOCAL_LLM_TOOL_RESULT_MAX_TOKENS;
+
+const { MODEL_CONFIG } = require('../server/config.cjs');
+const { resolveModel, getModelConfig, getModelLimits, listModels } = require('../server/providers/index.cjs');
+
+console.log('='.repeat(80));
+console.log('模型配置测试脚本');
+console.log('='.repeat(80));
+
+const testResults = {
+  passed: 0,
+  failed: 0
+};
+
+function logTest(name, passed, message = '') {
+  const status = passed ? '✅ PASS' : '❌ FAIL';
+  console.log(`${status}: ${name}`);
+  if (!passed && message) {
+    console.log(`   消息: ${message}`);
+  }
+  if (passed) {
+    testResults.passed++;
+  } else {
+    testResults.failed++;
+  }
+}
+
+function expectEqual(name, actual, expected) {
+  const same = JSON.stringify(actual) === JSON.stringify(expected);
+  logTest(name, same, same ? '' : `期望 ${JSON.stringify(expected)}，实际 ${JSON.stringify(actual)}`);
+}
+
+async function main() {
+  console.log('\n--- 已注册模型 ---');
+  const models = await listModels();
+  logTest('本地模型已注册', models.some(model => model.id === 'local:qwen2.5-7b-instruct'));
+  for (const info of models) {
+    const { model } = await resolveModel(info.id);
+    logTest(`${info.id} 有 MODEL_CONFIG['${model.configKey}']`, Boolean(MODEL_CONFIG[model.configKey]));
+  }
+
+  console.log('\n--- 本地模型 ---');
+  {
+    const { model } = await resolveModel('local:qwen2.5-7b-instruct');
+    const config = getModelConfig(model);
+    logTest('本地模型不使用 DeepSeek 的提示词', config !== MODEL_CONFIG['deepseek-chat']);
+    expectEqual('上下文预算来自 LOCAL_LLM_*', getModelLimits(model), {
+      contextWindow: 16384,
+      maxTokens: 2048,
+      toolResultMaxTokens: 4096,
+      tokenEstimate: MODEL_CONFIG.local.tokenEstimate
+    });
+  }
+
+  console.log('\n--- 缺少配置 ---');
+  try {
+    getModelConfig({ id: 'custom:x', configKey: 'custom' });
+    logTest('缺少配置时报错', false, '没有抛出错误');
+  } catch (error) {
+    logTest('缺少配置时报错', /缺少配置/.test(error.message), error.message);
+  }
+}
+
+main()
+  .catch(error => {
+    logTest('测试脚本运行', false, error.stack);
+  })
+  .finally(() => {
+    console.log('\n' + '='.repeat(80));
+    console.log(`测试完成: ${testResults.passed} 通过, ${testResults.failed} 失败`);
+    process.exit(testResults.failed > 0 ? 1 : 0);
+  });
@@ -0,0 +1,111 @@
+#!/usr/bin/env node
+/**
+ * 原生工具调用测试脚本
+ * 用流式响应数据（scripts/fixtures/tool-calls）离线测试工具调用增量的拼接（参数分段、多个调用、缺少 index）
+ * 以及 tool_calls 的解析（参数不是有效 JSON、未知的工具名称）
+ *
+ * 运行: node scripts/test-native-tool-calls.cjs
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { mergeToolCallDeltas } = require('../server/providers/openaiCompatible.cjs');
+const { parseNativeToolCalls } = require('../server/tools/toolParser.cjs');
+
+const FIXTURE_DIR = path.join(__dirname, 'fixtures', 'tool-calls');
+
+// 读取 SSE 数据中每个数据块的 tool_calls 增量
+const recordedDeltas = name => fs.readFileSync(path.join(FIXTURE_DIR, name), 'utf8')
+  .split('\n')
+  .filter(line => line.startsWith('data: ') && line.slice(6).trim() !== '[DONE]')
+  .map(line => JSON.parse(line.slice(6)).choices[0].delta.tool_calls)
+  .filter(Array.isArray);
+
+// 按数据块依次合并，与流式读取时相同
+const mergeRecorded = name => {
+  const toolCalls = [];
+  for (const deltas of recordedDeltas(name)) {
+    mergeToolCallDeltas(toolCalls, deltas);
+  }
+  return toolCalls.filter(Boolean);
+};
+
+console.log('='.repeat(80));
+console.log('原生工具调用测试脚本');
+console.log('='.repeat(80));
+
+const testResults = {
+  passed: 0,
+  failed: 0
+};
+
+function logTest(name, passed, message = '') {
+  const status = passed ? '✅ PASS' : '❌ FAIL';
+  console.log(`${status}: ${name}`);
+  if (!passed && message) {
+    console.log(`   消息: ${message}`);
+  }
+  if (passed) {
+    testResults.passed++;
+  } else {
+    testResults.failed++;
+  }
+}
+
+function expectEqual(name, actual, expected) {
+  const same = JSON.stringify(actual) === JSON.stringify(expected);
+  logTest(name, same, same ? '' : `期望 ${JSON.stringify(expected)}，实际 ${JSON.stringify(actual)}`);
+}
+
+// 多个调用交替返回参数片段
+console.log('\n--- 参数分段返回 ---');
+{
+  const toolCalls = mergeRecorded('parallel.sse');
+  expectEqual('按 index 拼接两个调用的参数', toolCalls, [
+    { id: 'call_0_view', type: 'function', function: { name: 'view_file', arguments: '{"path": "chapters/intro.tex"}' } },
+    { id: 'call_1_search', type: 'function', function: { name: 'search_papers', arguments: '{"query": "注意力机制", "max_results": 5}' } }
+  ]);
+  expectEqual('解析为工具调用', parseNativeToolCalls(toolCalls), [
+    { id: 'call_0_view', tool_name: 'view_file', parameters: { path: 'chapters/intro.tex' } },
+    { id: 'call_1_search', tool_name: 'search_papers', parameters: { query: '注意力机制', max_results: 5 } }
+  ]);
+}
+{
+  const toolCalls = [];
+  mergeToolCallDeltas(toolCalls, [{ index: 0, id: 'call_x', function: { name: 'view_file', arguments: '' } }]);
+  mergeToolCallDeltas(toolCalls, [{ index: 0, id: 'call_x', function: { name: 'view_file', arguments: '{}' } }]);
+  expectEqual('重复返回的名称不再拼接', toolCalls[0].function, { name: 'view_file', arguments: '{}' });
+}
+
+// 部分本地服务不返回 index
+console.log('\n--- 缺少 index ---');
+{
+  const toolCalls = mergeRecorded('no-index.sse');
+  expectEqual('没有 id 的片段接在上一个调用之后，新的 id 开始下一个调用', toolCalls.map(call => [call.id, call.function.name, call.function.arguments]), [
+    ['call_a', 'list_resources', '{"resource_type": "references"}'],
+    ['call_b', 'download_paper', '{}']
+  ]);
+  expectEqual('解析为工具调用', parseNativeToolCalls(toolCalls).map(call => [call.tool_name, call.parameters]), [
+    ['list_resources', { resource_type: 'references' }],
+    ['download_paper', {}]
+  ]);
+}
+
+// 参数无效和未知工具
+console.log('\n--- 参数无效和未知工具 ---');
+{
+  const parsed = parseNativeToolCalls(mergeRecorded('invalid.sse'));
+  expectEqual('未知的工具名称被跳过', parsed.map(call => call.id), ['call_edit', 'call_list']);
+  logTest('参数被截断时保留调用并记录 parse_error', parsed[0].parse_error?.startsWith('工具参数不是有效的JSON: ') && JSON.stringify(parsed[0].parameters) === '{}',
+    JSON.stringify(parsed[0]));
+  expectEqual('参数为空时为空对象', [parsed[1].parameters, parsed[1].parse_error], [{}, undefined]);
+}
+expectEqual('非流式响应中对象形式的参数直接使用',
+  parseNativeToolCalls([{ id: 'c', type: 'function', function: { name: 'view_file', arguments: { path: 'main.tex' } } }])[0].parameters,
+  { path: 'main.tex' });
+expectEqual('没有名称的调用被跳过', parseNativeToolCalls([{ id: 'c', function: { arguments: '{}' } }]), []);
+expectEqual('不是数组时没有调用', parseNativeToolCalls(undefined), []);
+
+console.log('\n' + '='.repeat(80));
+console.log(`测试完成: ${testResults.passed} 通过, ${testResults.failed} 失败`);
+process.exit(testResults.failed > 0 ? 1 : 0);
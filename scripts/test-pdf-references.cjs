@@ -0,0 +1,173 @@
+#!/usr/bin/env node
+/**
+ * PDF 关联文献测试脚本
+ * 测试从 PDF 提取文献信息（arXiv ID、DOI、标题、年份）、查找或新建参考文献、建立和解除关联，以及删除或合并条目后修正关联
+ *
+ * 运行: node scripts/test-pdf-references.cjs
+ */
+
+const {
+  extractPdfMetadata,
+  findOrCreateReference,
+  linkPdfReference,
+  linkPdfToLibrary,
+  unlinkPdf,
+  syncPdfLinks
+} = require('../server/pdfReferences.cjs');
+const { mergeReferences } = require('../server/referenceDedup.cjs');
+
+console.log('='.repeat(80));
+console.log('PDF 关联文献测试脚本');
+console.log('='.repeat(80));
+
+const testResults = {
+  passed: 0,
+  failed: 0
+};
+
+function logTest(name, passed, message = '') {
+  const status = passed ? '✅ PASS' : '❌ FAIL';
+  console.log(`${status}: ${name}`);
+  if (!passed && message) {
+    console.log(`   消息: ${message}`);
+  }
+  if (passed) {
+    testResults.passed++;
+  } else {
+    testResults.failed++;
+  }
+}
+
+function expectEqual(name, actual, expected) {
+  const same = JSON.stringify(actual) === JSON.stringify(expected);
+  logTest(name, same, same ? '' : `期望 ${JSON.stringify(expected)}，实际 ${JSON.stringify(actual)}`);
+}
+
+function expectThrows(name, fn, message) {
+  try {
+    fn();
+    logTest(name, false, '没有抛出错误');
+  } catch (error) {
+    logTest(name, error.message === message, `期望错误 ${message}，实际 ${error.message}`);
+  }
+}
+
+const PATTERN = 'authorYEARfirstword';
+const links = (references, pdfs) => [
+  references.filter(reference => reference.pdfId).map(reference => [reference.id, reference.pdfId]),
+  pdfs.filter(pdf => pdf.referenceId).map(pdf => [pdf.id, pdf.referenceId])
+];
+
+// 提取文献信息
+console.log('\n--- arXiv ID ---');
+expectEqual('PDF 资源上的 arXiv ID（去掉版本号）', extractPdfMetadata({ name: 'x.pdf', arxiv_id: '2101.00001v2' }).arxivId, '2101.00001');
+expectEqual('正文开头的 arXiv: 标注', extractPdfMetadata({ name: 'paper.pdf' }, { text: 'Title\narXiv:1706.03762v5 [cs.CL] 6 Dec 2017', metadata: {} }).arxivId, '1706.03762');
+expectEqual('新式 ID 的文件名', extractPdfMetadata({ name: '1810.04805v2.pdf' }).arxivId, '1810.04805');
+expectEqual('旧式 ID 的文件名（/ 保存为 _）', extractPdfMetadata({ name: 'hep-th_9901001.pdf' }).arxivId, 'hep-th/9901001');
+expectEqual('文件名中只有一部分像 ID 时不识别', extractPdfMetadata({ name: 'notes 2101.00001 draft.pdf' }).arxivId, '');
+{
+  // 参考文献列表中其他论文的 ID 不应被识别
+  const text = 'Intro' + ' '.repeat(3000) + 'arXiv:2001.08361';
+  expectEqual('只在正文开头查找', extractPdfMetadata({ name: 'paper.pdf' }, { text, metadata: {} }).arxivId, '');
+}
+
+console.log('\n--- 年份 ---');
+expectEqual('由新式 ID 推算年份', extractPdfMetadata({ name: '2101.00001.pdf' }).year, 2021);
+expectEqual('由旧式 ID 推算年份（91 年及以后为 19xx）', extractPdfMetadata({ name: 'hep-th_9901001.pdf' }).year, 1999);
+expectEqual('搜索结果的发表日期优先', extractPdfMetadata({ name: '2101.00001.pdf' }, null, { published: '2020-12-31T12:00:00Z' }).year, 2020);
+expectEqual('没有 ID 时没有年份', extractPdfMetadata({ name: 'paper.pdf' }).year, undefined);
+
+console.log('\n--- 标题、作者和 DOI ---');
+for (const placeholder of ['Untitled', 'Microsoft Word - draft3.docx', 'main.tex', 'arXiv论文: 2101.00001', 'abc']) {
+  expectEqual(`占位标题不使用: ${placeholder}`, extractPdfMetadata({ name: 'x.pdf' }, { text: '', metadata: { title: placeholder } }).title, '');
+}
+expectEqual('占位标题时使用下一个来源', extractPdfMetadata({ name: 'x.pdf', title: 'arXiv论文: 2101.00001' }, { text: '', metadata: { title: '  Deep   Learning ' } }).title, 'Deep Learning');
+expectEqual('搜索结果的标题优先', extractPdfMetadata({ name: 'x.pdf', title: 'Resource Title' }, null, { title: 'Paper Title' }).title, 'Paper Title');
+expectEqual('PDF 元数据中的作者按分隔符拆分', extractPdfMetadata({ name: 'x.pdf' }, { text: '', metadata: { author: 'Alice Smith; Bob Jones and Carol Wu' } }).authors,
+  ['Alice Smith', 'Bob Jones', 'Carol Wu']);
+expectEqual('PDF 资源上的作者优先于元数据', extractPdfMetadata({ name: 'x.pdf', authors: ['Z'] }, { text: '', metadata: { author: 'A, B' } }).authors, ['Z']);
+expectEqual('DOI 去掉结尾的标点', extractPdfMetadata({ name: 'x.pdf', extractedText: 'See doi:10.1145/3292500.3330701. More' }).doi, '10.1145/3292500.3330701');
+
+// 查找或新建参考文献
+console.log('\n--- 查找或新建参考文献 ---');
+{
+  const references = [
+    { id: 'r1', citationKey: 'vaswani2017attention', title: 'Attention Is All You Need', authors: ['Ashish Vaswani'], year: 2017, arxivId: '1706.03762' },
+    { id: 'r2', citationKey: 'he2016deep', title: 'Deep Residual Learning', authors: ['Kaiming He'], year: 2016, doi: '10.1109/CVPR.2016.90' }
+  ];
+  const byArxiv = findOrCreateReference(references, { title: '', authors: [], arxivId: '1706.03762' }, PATTERN);
+  expectEqual('按 arXiv ID 找到已有条目（没有标题也可以）', [byArxiv.reference.id, byArxiv.created], ['r1', false]);
+  const byDoi = findOrCreateReference(references, { title: 'Other', authors: [], doi: '10.1109/cvpr.2016.90' }, PATTERN);
+  expectEqual('按 DOI 找到已有条目', [byDoi.reference.id, byDoi.created], ['r2', false]);
+  expectEqual('没有标题且找不到时不新建', findOrCreateReference(references, { title: '', authors: [], arxivId: '2101.00001' }, PATTERN), null);
+  expectEqual('没有任何信息时不查找', findOrCreateReference(references, { title: '', authors: [] }, PATTERN), null);
+
+  const created = findOrCreateReference(references, { title: 'Language Models are Few-Shot Learners', authors: ['Tom Brown'], year: 2020, arxivId: '2005.14165', doi: '' }, PATTERN);
+  expectEqual('新建条目并生成引用键', [created.created, created.reference.citationKey, created.reference.entryType, created.reference.url],
+    [true, 'brown2020language', 'misc', 'https://arxiv.org/abs/2005.14165']);
+  expectEqual('新条目加入文献库', references.length, 3);
+  const again = findOrCreateReference(references, { title: 'Language Models are Few-Shot Learners', authors: ['Tom Brown'], year: 2020, arxivId: '' }, PATTERN);
+  expectEqual('再次关联时按标题、年份和第一作者找到同一条目', [again.reference.id, again.created], [created.reference.id, false]);
+  const clash = findOrCreateReference(references, { title: 'Deep Residual Nets Revisited', authors: ['Kaiming He'], year: 2016, doi: '10.1/x' }, PATTERN);
+  expectEqual('有 DOI 时类型为 article，引用键重复时追加字母', [clash.reference.entryType, clash.reference.citationKey], ['article', 'he2016deepa']);
+}
+
+// 建立和解除关联
+console.log('\n--- 建立和解除关联 ---');
+{
+  const references = [{ id: 'r1' }, { id: 'r2' }];
+  const pdfs = [{ id: 'p1' }, { id: 'p2' }];
+  linkPdfReference(references, pdfs, 'p1', 'r1');
+  expectEqual('两边各保存一份关联', links(references, pdfs), [[['r1', 'p1']], [['p1', 'r1']]]);
+  linkPdfReference(references, pdfs, 'p2', 'r1');
+  expectEqual('参考文献改为关联其他 PDF 时，原 PDF 的关联解除', links(references, pdfs), [[['r1', 'p2']], [['p2', 'r1']]]);
+  linkPdfReference(references, pdfs, 'p2', 'r2');
+  expectEqual('PDF 改为关联其他参考文献时，原参考文献的关联解除', links(references, pdfs), [[['r2', 'p2']], [['p2', 'r2']]]);
+  expectEqual('解除关联', [unlinkPdf(references, pdfs, 'p2'), links(references, pdfs)], [true, [[], []]]);
+  expectEqual('没有关联时无变化', unlinkPdf(references, pdfs, 'p2'), false);
+  expectThrows('PDF 不存在', () => linkPdfReference(references, pdfs, 'px', 'r1'), '未找到PDF资源: px');
+  expectThrows('参考文献不存在', () => linkPdfReference(references, pdfs, 'p1', 'rx'), '未找到参考文献: rx');
+}
+{
+  const references = [];
+  const pdfs = [{ id: 'p1', name: '2101.00001.pdf', title: 'A Paper About Things' }];
+  const found = linkPdfToLibrary(references, pdfs, pdfs[0], extractPdfMetadata(pdfs[0]), PATTERN);
+  expectEqual('为 PDF 新建条目并关联', [found.created, references[0].year, pdfs[0].referenceId === references[0].id, references[0].pdfId], [true, 2021, true, 'p1']);
+  expectEqual('无法提取文献信息时不关联', linkPdfToLibrary(references, pdfs, pdfs[0], extractPdfMetadata({ name: 'scan.pdf' }), PATTERN), null);
+}
+
+// 删除或合并后修正关联
+console.log('\n--- 修正关联 ---');
+{
+  const references = [{ id: 'r1', pdfId: 'p1' }, { id: 'r2', pdfId: 'p2' }];
+  const pdfs = [{ id: 'p1', referenceId: 'r1' }];
+  expectEqual('删除 PDF 后去掉参考文献上的关联', [syncPdfLinks(references, pdfs), links(references, pdfs)],
+    [{ referencesChanged: true, pdfsChanged: false }, [[['r1', 'p1']], [['p1', 'r1']]]]);
+  expectEqual('已一致时无变化', syncPdfLinks(references, pdfs), { referencesChanged: false, pdfsChanged: false });
+}
+{
+  const references = [{ id: 'r2' }];
+  const pdfs = [{ id: 'p1', referenceId: 'r1' }];
+  expectEqual('删除参考文献后去掉 PDF 上的关联', [syncPdfLinks(references, pdfs), links(references, pdfs)],
+    [{ referencesChanged: false, pdfsChanged: true }, [[], []]]);
+}
+{
+  const library = [
+    { id: 'r1', citationKey: 'a2020', title: 'Same Paper', year: 2020 },
+    { id: 'r2', citationKey: 'b2020', title: 'Same Paper', year: 2020, pdfId: 'p1' }
+  ];
+  const pdfs = [{ id: 'p1', referenceId: 'r2' }];
+  const { references } = mergeReferences(library, { target_id: 'r1', source_ids: ['r2'] });
+  expectEqual('合并后 PDF 改为关联合并后的条目', [syncPdfLinks(references, pdfs), links(references, pdfs)],
+    [{ referencesChanged: false, pdfsChanged: true }, [[['r1', 'p1']], [['p1', 'r1']]]]);
+}
+{
+  const references = [{ id: 'r1', pdfId: 'p1' }, { id: 'r2', pdfId: 'p1' }];
+  const pdfs = [{ id: 'p1', referenceId: 'r2' }];
+  expectEqual('多条参考文献指向同一 PDF 时只保留第一条', [syncPdfLinks(references, pdfs), links(references, pdfs)],
+    [{ referencesChanged: true, pdfsChanged: true }, [[['r1', 'p1']], [['p1', 'r1']]]]);
+}
+
+console.log('\n' + '='.repeat(80));
+console.log(`测试完成: ${testResults.passed} 通过, ${testResults.failed} 失败`);
+process.exit(testResults.failed > 0 ? 1 : 0);
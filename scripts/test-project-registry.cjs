@@ -0,0 +1,159 @@
+#!/usr/bin/env node
+/**
+ * 项目管理测试脚本
+ * 测试默认项目的创建、项目的创建/重命名/归档/删除、切换项目时的文件目录和资源库、上次打开的项目，以及工具历史的保存
+ * 在临时目录中创建项目，不影响 storage/
+ *
+ * 运行: node scripts/test-project-registry.cjs
+ */
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+// 存储目录取自当前工作目录，需在加载服务端模块前切换
+const originalCwd = process.cwd();
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'project-registry-'));
+process.chdir(tempDir);
+
+const { initializeStorage, localStorage } = require('../server/storage.cjs');
+const projects = require('../server/projectRegistry.cjs');
+const { readProjectFiles, writeFile } = require('../server/projectStore.cjs');
+
+console.log('='.repeat(80));
+console.log('项目管理测试脚本');
+console.log('='.repeat(80));
+
+const testResults = {
+  passed: 0,
+  failed: 0
+};
+
+function logTest(name, passed, message = '') {
+  const status = passed ? '✅ PASS' : '❌ FAIL';
+  console.log(`${status}: ${name}`);
+  if (!passed && message) {
+    console.log(`   消息: ${message}`);
+  }
+  if (passed) {
+    testResults.passed++;
+  } else {
+    testResults.failed++;
+  }
+}
+
+function expectEqual(name, actual, expected) {
+  const same = JSON.stringify(actual) === JSON.stringify(expected);
+  logTest(name, same, same ? '' : `期望 ${JSON.stringify(expected)}，实际 ${JSON.stringify(actual)}`);
+}
+
+function expectThrows(name, fn, code) {
+  try {
+    fn();
+    logTest(name, false, '没有抛出错误');
+  } catch (error) {
+    logTest(name, error.code === code, `期望错误码 ${code}，实际 ${error.code}: ${error.message}`);
+  }
+}
+
+const projectsDir = path.join(tempDir, 'storage', 'projects');
+// 项目列表更新时间精确到毫秒，相邻两次修改之间稍作等待
+const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+const referenceTitles = () => JSON.parse(localStorage.getItem('academic_writing_references')).map(reference => reference.title);
+const addReference = title => localStorage.setItem('academic_writing_references', JSON.stringify([
+  ...JSON.parse(localStorage.getItem('academic_writing_references')),
+  { id: title, title }
+]));
+
+async function main() {
+  // 默认项目的文件目录中已有论文文件
+  fs.mkdirSync(path.join(projectsDir, 'default', 'files', 'chapters'), { recursive: true });
+  fs.writeFileSync(path.join(projectsDir, 'default', 'files', 'main.tex'), '已有的论文');
+  fs.writeFileSync(path.join(projectsDir, 'default', 'files', 'chapters', 'a.tex'), '已有的章节');
+
+  initializeStorage();
+  projects.initializeProjects();
+
+  // 默认项目
+  console.log('\n--- 默认项目 ---');
+  const defaultProject = projects.getActiveProject();
+  expectEqual('首次启动时创建并打开默认项目', [defaultProject.id, defaultProject.name, defaultProject.use_global_library, defaultProject.use_git],
+    ['default', '我的论文', true, false]);
+  expectEqual('保留默认项目目录中已有的文件', readProjectFiles(), { 'main.tex': '已有的论文', 'chapters/a.tex': '已有的章节' });
+  projects.initializeProjects();
+  expectEqual('再次启动时不重复创建', projects.listProjects().length, 1);
+  addReference('全局文献');
+
+  // 创建和切换
+  console.log('\n--- 创建和切换 ---');
+  await tick();
+  const second = projects.createProject({ name: '  第二篇论文  ' });
+  expectEqual('新项目使用独立资源库，名称去掉首尾空白', [second.name, second.use_global_library, second.archived], ['第二篇论文', false, false]);
+  expectEqual('创建后不切换', projects.getActiveProject().id, 'default');
+  expectEqual('最近更新的项目在前', projects.listProjects().map(project => project.id), [second.id, 'default']);
+
+  projects.activateProject(second.id);
+  expectEqual('打开新项目时创建主文件', Object.keys(readProjectFiles()), ['main.tex']);
+  expectEqual('切换到项目的资源库', referenceTitles(), []);
+  addReference('项目文献');
+  writeFile('main.tex', '第二篇');
+  const workspace = projects.getProjectWorkspace('default');
+  expectEqual('不依赖当前项目获取文件目录和资源库', [readProjectFiles(workspace.filesDir)['main.tex'], workspace.resourceDir],
+    ['已有的论文', path.join(tempDir, 'storage')]);
+  expectEqual('记录当前打开的项目', JSON.parse(fs.readFileSync(path.join(projectsDir, 'state.json'), 'utf-8')), { active_project: second.id });
+
+  projects.activateProject('default');
+  expectEqual('切换回来后文件和资源库各自独立', [readProjectFiles()['main.tex'], referenceTitles()], ['已有的论文', ['全局文献']]);
+  projects.updateProject(second.id, { use_global_library: true });
+  projects.activateProject(second.id);
+  expectEqual('改用全局资源库', referenceTitles(), ['全局文献']);
+  projects.updateProject(second.id, { use_global_library: false });
+  expectEqual('当前项目切换资源库时立即生效', referenceTitles(), ['项目文献']);
+
+  // 重命名、归档和删除
+  console.log('\n--- 重命名、归档和删除 ---');
+  expectEqual('重命名', projects.updateProject('default', { name: '初稿' }).name, '初稿');
+  expectThrows('名称为空', () => projects.createProject({ name: ' ' }), 'INVALID');
+  expectThrows('名称过长', () => projects.updateProject('default', { name: 'x'.repeat(101) }), 'INVALID');
+  expectThrows('不能归档当前打开的项目', () => projects.updateProject(second.id, { archived: true }), 'INVALID');
+  projects.updateProject('default', { archived: true });
+  expectEqual('已归档的项目排在后面', projects.listProjects().map(project => [project.id, project.archived]), [[second.id, false], ['default', true]]);
+  expectThrows('不能打开已归档的项目', () => projects.activateProject('default'), 'INVALID');
+  expectThrows('不能删除当前打开的项目', () => projects.deleteProject(second.id), 'INVALID');
+  expectThrows('项目 ID 不能跳出项目目录', () => projects.getProject('../storage'), 'NOT_FOUND');
+  expectThrows('项目不存在', () => projects.activateProject('missing'), 'NOT_FOUND');
+
+  // 上次打开的项目已归档时打开其他项目
+  console.log('\n--- 启动时打开的项目 ---');
+  await tick();
+  const third = projects.createProject({ name: '第三篇论文' });
+  fs.writeFileSync(path.join(projectsDir, 'state.json'), JSON.stringify({ active_project: 'default' }));
+  projects.initializeProjects();
+  expectEqual('上次打开的项目已归档时打开最近更新的项目', projects.getActiveProject().id, third.id);
+  projects.activateProject(second.id);
+  projects.initializeProjects();
+  expectEqual('打开上次使用的项目', projects.getActiveProject().id, second.id);
+
+  projects.activateProject(third.id);
+  projects.deleteProject(second.id);
+  logTest('删除项目及其全部文件', !fs.existsSync(path.join(projectsDir, second.id)));
+
+  // 工具历史
+  console.log('\n--- 工具历史 ---');
+  expectEqual('没有 chat.json 时为空', projects.loadChat(third.id), { messages: [], tool_history: [] });
+  projects.saveChat(third.id, { tool_history: [{ tool: 'read_file' }] });
+  projects.saveChat(third.id, { messages: [{ role: 'user', content: 'hi' }] });
+  expectEqual('只更新传入的字段', projects.loadChat(third.id), { messages: [{ role: 'user', content: 'hi' }], tool_history: [{ tool: 'read_file' }] });
+}
+
+main()
+  .catch(error => {
+    logTest('测试脚本运行', false, error.stack);
+  })
+  .finally(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    console.log('\n' + '='.repeat(80));
+    console.log(`测试完成: ${testResults.passed} 通过, ${testResults.failed} 失败`);
+    process.exit(testResults.failed > 0 ? 1 : 0);
+  });
@@ -0,0 +1,155 @@
+#!/usr/bin/env node
+/**
+ * 参考文献去重测试脚本
+ * 测试按 DOI / arXiv ID / 标题+年份+第一作者查找重复条目、重复分组、按字段合并和正文引用键改写
+ *
+ * 运行: node scripts/test-reference-dedup.cjs
+ */
+
+const {
+  findDuplicate,
+  findDuplicateGroups,
+  mergeReferences,
+  rewriteCitationKeys
+} = require('../server/referenceDedup.cjs');
+
+console.log('='.repeat(80));
+console.log('参考文献去重测试脚本');
+console.log('='.repeat(80));
+
+const testResults = {
+  passed: 0,
+  failed: 0
+};
+
+function logTest(name, passed, message = '') {
+  const status = passed ? '✅ PASS' : '❌ FAIL';
+  console.log(`${status}: ${name}`);
+  if (!passed && message) {
+    console.log(`   消息: ${message}`);
+  }
+  if (passed) {
+    testResults.passed++;
+  } else {
+    testResults.failed++;
+  }
+}
+
+function expectEqual(name, actual, expected) {
+  const same = JSON.stringify(actual) === JSON.stringify(expected);
+  logTest(name, same, same ? '' : `期望 ${JSON.stringify(expected)}，实际 ${JSON.stringify(actual)}`);
+}
+
+function expectThrows(name, fn, message) {
+  try {
+    fn();
+    logTest(name, false, '没有抛出错误');
+  } catch (error) {
+    logTest(name, error.message === message, `期望错误 ${message}，实际 ${error.message}`);
+  }
+}
+
+const duplicateOf = (references, candidate) => {
+  const found = findDuplicate(references, candidate);
+  return found && [found.reference.id, found.reasons];
+};
+
+// 重复判定
+console.log('\n--- 重复判定 ---');
+{
+  const library = [
+    { id: 'a', title: 'Attention Is All You Need', authors: ['Ashish Vaswani'], year: 2017, doi: '10.5555/3295222.3295349' },
+    { id: 'b', title: 'BERT', authors: ['Jacob Devlin'], year: 2019, arxivId: '1810.04805v2' }
+  ];
+  expectEqual('DOI 忽略大小写和 doi.org 前缀', duplicateOf(library, { doi: 'https://doi.org/10.5555/3295222.3295349' }), ['a', ['doi']]);
+  expectEqual('DOI 的 doi: 前缀', duplicateOf(library, { doi: 'DOI: 10.5555/3295222.3295349' }), ['a', ['doi']]);
+  expectEqual('arXiv ID 忽略版本号', duplicateOf(library, { arxivId: '1810.04805' }), ['b', ['arxiv']]);
+  expectEqual('arXiv ID 来自 eprint 字段', duplicateOf(library, { extraFields: { eprint: '1810.04805v1' } }), ['b', ['arxiv']]);
+  expectEqual('arXiv ID 来自 arxiv.org 链接', duplicateOf(library, { url: 'https://arxiv.org/abs/1810.04805' }), ['b', ['arxiv']]);
+  expectEqual('标题忽略大小写和标点，第一作者按姓比较',
+    duplicateOf(library, { title: 'attention is all you need.', authors: ['Vaswani, A.'], year: 2017 }), ['a', ['title']]);
+  expectEqual('年份不同不算重复', duplicateOf(library, { title: 'Attention Is All You Need', authors: ['Ashish Vaswani'], year: 2018 }), null);
+  expectEqual('第一作者不同不算重复', duplicateOf(library, { title: 'Attention Is All You Need', authors: ['Noam Shazeer'], year: 2017 }), null);
+  expectEqual('跳过 id 相同的条目', duplicateOf(library, { ...library[0] }), null);
+  expectEqual('缺少字段的条目之间不算重复', duplicateOf([{ id: 'x', title: '' }], { id: 'y', title: '' }), null);
+  expectEqual('多项依据同时相同',
+    duplicateOf(library, { title: 'Attention is all you need', authors: ['Ashish Vaswani'], year: 2017, doi: '10.5555/3295222.3295349' }), ['a', ['doi', 'title']]);
+}
+
+// 重复分组
+console.log('\n--- 重复分组 ---');
+{
+  const references = [
+    { id: 'a', title: 'T', authors: ['X'], year: 2020, doi: '10.1/a' },
+    { id: 'other', title: 'Other', authors: ['Y'], year: 2020 },
+    { id: 'b', doi: '10.1/A', arxivId: '2001.00001' },
+    { id: 'c', arxivId: '2001.00001v3' },
+    { id: 'd', title: 't', authors: ['X'], year: 2020 }
+  ];
+  expectEqual('传递分组，组内保持库中顺序，汇总所有判定依据',
+    findDuplicateGroups(references).map(group => [group.references.map(reference => reference.id), group.reasons]),
+    [[['a', 'b', 'c', 'd'], ['doi', 'arxiv', 'title']]]);
+  expectEqual('没有重复时为空', findDuplicateGroups([references[0], references[1]]), []);
+}
+{
+  const references = [
+    { id: 'p', arxivId: '2101.00001' },
+    { id: 'q', doi: '10.1/q' },
+    { id: 'r', doi: '10.1/q', arxivId: '2101.00001' }
+  ];
+  expectEqual('先按 DOI 成组、再按 arXiv 与前面的组合并',
+    findDuplicateGroups(references).map(group => [group.references.map(reference => reference.id), group.reasons]),
+    [[['p', 'q', 'r'], ['doi', 'arxiv']]]);
+}
+
+// 合并
+console.log('\n--- 合并 ---');
+{
+  const references = [
+    { id: 'a', citationKey: 'vaswani2017', title: 'Attention', authors: [], year: 2017, extraFields: { pages: '1--10' } },
+    { id: 'keep', citationKey: 'attention', title: '', authors: ['Ashish Vaswani'], journal: 'NeurIPS', extraFields: { note: 'keep' } },
+    { id: 'c', title: 'Attention Is All You Need', doi: '10.5555/1', extraFields: { note: 'c', month: 'dec' } }
+  ];
+  const result = mergeReferences(references, { target_id: 'keep', source_ids: ['a', 'c'], choices: { citationKey: 'a', journal: 'c' } });
+  expectEqual('保留条目的值优先，为空时依次取其他条目的值', {
+    title: result.merged.title,
+    authors: result.merged.authors,
+    year: result.merged.year,
+    doi: result.merged.doi
+  }, { title: 'Attention', authors: ['Ashish Vaswani'], year: 2017, doi: '10.5555/1' });
+  expectEqual('选择的字段取自指定条目，来源为空时清除', [result.merged.citationKey, 'journal' in result.merged], ['vaswani2017', false]);
+  expectEqual('extraFields 按同样的优先级合并', result.merged.extraFields, { note: 'keep', month: 'dec', pages: '1--10' });
+  expectEqual('保留条目的 id 和位置，删除被合并的条目', result.references.map(reference => reference.id), ['keep']);
+  expectEqual('引用键映射（没有引用键的条目使用 id）', result.keyMap, { attention: 'vaswani2017', c: 'vaswani2017' });
+  expectEqual('原库不被修改', references[1].title, '');
+}
+{
+  const references = [{ id: 'x' }, { id: 'y', citationKey: 'y2020' }, { id: 'z' }];
+  const result = mergeReferences(references, { target_id: 'x', source_ids: ['y'] });
+  expectEqual('保留条目没有引用键时沿用其他条目的引用键', [result.merged.citationKey, result.keyMap], ['y2020', { x: 'y2020' }]);
+  expectEqual('其他条目的顺序不变', result.references.map(reference => reference.id), ['x', 'z']);
+}
+{
+  const references = [{ id: 'x' }, { id: 'y' }];
+  expectThrows('保留的条目不存在', () => mergeReferences(references, { target_id: 'missing', source_ids: ['y'] }), '未找到要保留的参考文献: missing');
+  expectThrows('没有待合并的条目', () => mergeReferences(references, { target_id: 'x', source_ids: [] }), '请选择要合并的参考文献');
+  expectThrows('待合并的条目与保留的相同', () => mergeReferences(references, { target_id: 'x', source_ids: ['x'] }), '无效的待合并参考文献: x');
+  expectThrows('不能选择的字段', () => mergeReferences(references, { target_id: 'x', source_ids: ['y'], choices: { id: 'y' } }), '不能选择的字段: id');
+  expectThrows('来源不在合并的条目中', () => mergeReferences(references, { target_id: 'x', source_ids: ['y'], choices: { title: 'z' } }), '字段 title 的来源不在合并的条目中: z');
+}
+
+// 改写引用键
+console.log('\n--- 改写正文引用键 ---');
+expectEqual('只改写有变化的 .tex 文件', rewriteCitationKeys({
+  'main.tex': '\\cite{attention} 与 \\citep{c, other}\n% \\cite{attention}',
+  'chapters/b.tex': '\\cite{other}',
+  'refs.bib': '@article{attention,}'
+}, { attention: 'vaswani2017', c: 'vaswani2017' }), {
+  files: { 'main.tex': '\\cite{vaswani2017} 与 \\citep{vaswani2017, other}\n% \\cite{attention}' },
+  count: 2
+});
+expectEqual('空映射不改写', rewriteCitationKeys({ 'main.tex': '\\cite{a}' }, {}), { files: {}, count: 0 });
+
+console.log('\n' + '='.repeat(80));
+console.log(`测试完成: ${testResults.passed} 通过, ${testResults.failed} 失败`);
+process.exit(testResults.failed > 0 ? 1 : 0);
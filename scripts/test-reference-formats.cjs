@@ -0,0 +1,237 @@
+#!/usr/bin/env node
+/**
+ * 参考文献格式测试脚本
+ * 测试 RIS / CSL-JSON / EndNote XML / BibTeX 的解析和导出（往返转换）、格式识别，以及导入预览和按操作导入
+ *
+ * 运行: node scripts/test-reference-formats.cjs
+ */
+
+const {
+  detectFormat,
+  parseReferences,
+  formatReferences,
+  previewImport,
+  applyImport
+} = require('../server/referenceFormats.cjs');
+
+console.log('='.repeat(80));
+console.log('参考文献格式测试脚本');
+console.log('='.repeat(80));
+
+const testResults = {
+  passed: 0,
+  failed: 0
+};
+
+function logTest(name, passed, message = '') {
+  const status = passed ? '✅ PASS' : '❌ FAIL';
+  console.log(`${status}: ${name}`);
+  if (!passed && message) {
+    console.log(`   消息: ${message}`);
+  }
+  if (passed) {
+    testResults.passed++;
+  } else {
+    testResults.failed++;
+  }
+}
+
+function expectEqual(name, actual, expected) {
+  const same = JSON.stringify(actual) === JSON.stringify(expected);
+  logTest(name, same, same ? '' : `期望 ${JSON.stringify(expected)}，实际 ${JSON.stringify(actual)}`);
+}
+
+function expectThrows(name, fn, message) {
+  try {
+    fn();
+    logTest(name, false, '没有抛出错误');
+  } catch (error) {
+    logTest(name, error.message === message, `期望错误 ${message}，实际 ${error.message}`);
+  }
+}
+
+// 各格式都应完整保留的条目
+const library = [
+  {
+    citationKey: 'vaswani2017attention',
+    entryType: 'article',
+    title: 'Attention Is All You Need',
+    authors: ['Ashish Vaswani', 'Noam Shazeer'],
+    year: 2017,
+    journal: 'Journal of ML',
+    doi: '10.1/abc',
+    abstract: 'The dominant sequence transduction models <are> based on RNNs & CNNs.',
+    extraFields: { volume: '30', number: '2', pages: '5998--6008', keywords: 'attention, transformer' }
+  },
+  {
+    citationKey: 'knuth1984',
+    entryType: 'book',
+    title: 'The TeXbook',
+    authors: ['Donald E. Knuth'],
+    year: 1984,
+    extraFields: { publisher: 'Addison-Wesley', address: 'Reading, MA', isbn: '0-201-13447-0' }
+  },
+  {
+    citationKey: 'devlin2019bert',
+    entryType: 'misc',
+    title: 'BERT: Pre-training of Deep Bidirectional Transformers',
+    authors: ['Jacob Devlin', '张三'],
+    year: 2019,
+    arxivId: '1810.04805'
+  }
+];
+
+// 只比较往返转换应保留的字段（arXiv 条目导出为网址后再识别回 arxivId）
+const essentials = references => references.map(reference => ({
+  citationKey: reference.citationKey,
+  entryType: reference.entryType,
+  title: reference.title,
+  authors: reference.authors,
+  year: reference.year,
+  journal: reference.journal,
+  doi: reference.doi,
+  arxivId: reference.arxivId,
+  abstract: reference.abstract,
+  extraFields: reference.extraFields
+}));
+
+async function main() {
+  // 往返转换
+  console.log('\n--- 往返转换 ---');
+  for (const format of ['ris', 'csljson', 'endnote']) {
+    const exported = formatReferences(library, format);
+    const parsed = await parseReferences(exported);
+    expectEqual(`${format}：自动识别格式`, [parsed.format, parsed.errors], [format, []]);
+    expectEqual(`${format}：导出后再导入得到相同的字段`, essentials(parsed.references), essentials(library));
+  }
+  {
+    // BibTeX 导出不写摘要
+    const parsed = await parseReferences(formatReferences(library.slice(0, 2), 'bibtex'));
+    const expected = library.slice(0, 2).map(({ abstract, ...reference }) => reference);
+    expectEqual('bibtex：导出后再导入得到相同的字段', essentials(parsed.references), essentials(expected));
+  }
+  expectThrows('不支持的导出格式', () => formatReferences(library, 'docx'), '不支持的格式: docx');
+
+  // RIS
+  console.log('\n--- RIS ---');
+  {
+    const ris = '﻿TY  - JOUR\r\nAU  - Smith, John\r\nTI  - A Long\r\n  Title\r\nPY  - 2020/05/01/\r\nT2  - Nature\r\nSP  - 12\r\nER  - \r\n';
+    const parsed = await parseReferences(ris);
+    expectEqual('BOM 开头、CRLF 换行的文件', [parsed.format, parsed.errors], ['ris', []]);
+    expectEqual('字段映射和续行', essentials(parsed.references), [{
+      citationKey: 'smith2020long',
+      entryType: 'article',
+      title: 'A Long Title',
+      authors: ['John Smith'],
+      year: 2020,
+      journal: 'Nature',
+      extraFields: { pages: '12' }
+    }]);
+  }
+  {
+    const parsed = await parseReferences('AU  - Orphan\nTY  - BOOK\nTI  - No End\n', 'ris');
+    expectEqual('记录之外的字段和缺少 ER 的记录', [parsed.references.map(reference => reference.title), parsed.errors],
+      [['No End'], [{ line: 1, message: 'AU 字段不在 TY 和 ER 之间' }, { line: 2, message: '记录缺少 ER，已按结束处理' }]]);
+  }
+
+  // CSL-JSON
+  console.log('\n--- CSL-JSON ---');
+  {
+    const csl = JSON.stringify({
+      items: [
+        { id: 'http://zotero.org/items/1', type: 'paper-conference', title: 'Conf Paper', author: [{ literal: 'OpenAI' }], issued: { raw: 'May 2023' }, page: '1-9', DOI: '10.48550/arXiv.2303.08774' },
+        { note: '不是条目' }
+      ]
+    });
+    const parsed = await parseReferences(`﻿${csl}`);
+    expectEqual('BOM 开头，items 包装，非条目的项报告错误', [parsed.format, parsed.errors], ['csljson', [{ line: 2, message: '第 2 项不是 CSL 条目' }]]);
+    expectEqual('网址形式的 id 不作为引用键，arXiv DOI 识别为 arXiv ID', essentials(parsed.references), [{
+      citationKey: 'openai2023conf',
+      entryType: 'inproceedings',
+      title: 'Conf Paper',
+      authors: ['OpenAI'],
+      year: 2023,
+      doi: '10.48550/arXiv.2303.08774',
+      arxivId: '2303.08774',
+      extraFields: { pages: '1--9' }
+    }]);
+    expectEqual('无效的 JSON', (await parseReferences('[not json', 'csljson')).errors.length, 1);
+  }
+
+  // EndNote XML
+  console.log('\n--- EndNote XML ---');
+  {
+    const xml = '<?xml version="1.0"?><xml><records><record><ref-type>6</ref-type><titles><title><style>Only <b>Styled</b></style></title></titles>'
+      + '<contributors><authors><author>Doe, Jane</author></authors></contributors><dates><year>c. 1999</year></dates></record></records></xml>';
+    const parsed = await parseReferences(xml);
+    expectEqual('按编号识别类型，合并 <style> 中的文本', essentials(parsed.references).map(reference => [reference.entryType, reference.title, reference.authors, reference.year]),
+      [['book', 'Only Styled', ['Jane Doe'], 1999]]);
+    expectEqual('没有记录', (await parseReferences('<xml><records></records></xml>')).errors, [{ line: 1, message: '未找到 <record> 记录' }]);
+  }
+  expectEqual('格式识别', ['  [{}]', '<?xml?>', 'x\nTY  - JOUR', '@article{a,}', 'plain text'].map(detectFormat),
+    ['csljson', 'endnote', 'ris', 'bibtex', null]);
+  try {
+    await parseReferences('plain text');
+    logTest('无法识别的格式报错', false, '没有抛出错误');
+  } catch (error) {
+    logTest('无法识别的格式报错', error.message === '无法识别文件格式，支持 BibTeX、RIS、CSL-JSON 和 EndNote XML', error.message);
+  }
+
+  // 导入预览
+  console.log('\n--- 导入预览 ---');
+  const existing = [
+    { id: 'e1', citationKey: 'vaswani2017attention', title: 'Attention is all you need.', authors: ['A. Vaswani', 'N. Shazeer'], year: 2017 },
+    { id: 'e2', citationKey: 'other', title: 'BERT', authors: ['Jacob Devlin'], year: 2018, arxivId: '1810.04805v2' },
+    { id: 'e3', citationKey: 'knuth1984', title: 'The TeXbook', authors: ['Donald E. Knuth'], year: 1984 }
+  ];
+  const incoming = [
+    library[0],
+    library[2],
+    { ...library[1], citationKey: 'KNUTH1984' },
+    { citationKey: 'new2024', title: '新的条目', authors: ['李四'], year: 2024 }
+  ];
+  const preview = previewImport(existing, incoming);
+  expectEqual('分类和建议的操作', preview.map(item => [item.status, item.existing_id, item.action]), [
+    ['duplicate', 'e1', 'merge'],
+    ['conflict', 'e2', 'skip'],
+    ['duplicate', 'e3', 'skip'],
+    ['new', undefined, 'add']
+  ]);
+  expectEqual('duplicate：标题忽略大小写和标点、作者只比较姓，列出库中缺少的字段', preview[0].missing_fields, ['journal', 'doi']);
+  expectEqual('conflict：按 arXiv ID（忽略版本号）匹配，列出不同的字段', preview[1].differences, [
+    { field: 'title', existing: 'BERT', incoming: 'BERT: Pre-training of Deep Bidirectional Transformers' },
+    { field: 'authors', existing: ['Jacob Devlin'], incoming: ['Jacob Devlin', '张三'] },
+    { field: 'year', existing: 2018, incoming: 2019 }
+  ]);
+
+  // 按操作导入
+  console.log('\n--- 按操作导入 ---');
+  {
+    const result = applyImport(existing, [
+      { reference: library[0], action: 'merge', existing_id: 'e1' },
+      { reference: library[2], action: 'replace', existing_id: 'e2' },
+      { reference: library[1], action: 'skip' },
+      { reference: { ...library[1] }, action: 'add' }
+    ]);
+    expectEqual('报告', [result.merged, result.replaced, result.skipped, result.added, result.renamed],
+      [['vaswani2017attention'], ['other'], ['knuth1984'], ['knuth1984a'], [{ from: 'knuth1984', to: 'knuth1984a' }]]);
+    expectEqual('merge 保留库中的值，只补充缺少的字段', [result.references[0].title, result.references[0].journal, result.references[0].extraFields.volume],
+      ['Attention is all you need.', 'Journal of ML', '30']);
+    expectEqual('replace 保留 id 和引用键', [result.references[1].id, result.references[1].citationKey, result.references[1].year], ['e2', 'other', 2019]);
+    logTest('add 生成新 id', result.references[3].id && !['e1', 'e2', 'e3'].includes(result.references[3].id));
+    expectEqual('原库不被修改', existing.length, 3);
+  }
+  expectThrows('无效的导入操作', () => applyImport(existing, [{ reference: library[0], action: 'update' }]), '无效的导入操作: update');
+  expectThrows('合并的条目不存在', () => applyImport(existing, [{ reference: library[0], action: 'merge', existing_id: 'x' }]), '未找到要合并的参考文献: x');
+  expectThrows('参考文献数据无效', () => applyImport(existing, [{ reference: { title: 1 }, action: 'add' }]), '导入的参考文献数据无效');
+}
+
+main()
+  .catch(error => {
+    logTest('测试脚本运行', false, error.stack);
+  })
+  .finally(() => {
+    console.log('\n' + '='.repeat(80));
+    console.log(`测试完成: ${testResults.passed} 通过, ${testResults.failed} 失败`);
+    process.exit(testResults.failed > 0 ? 1 : 0);
+  });
@@ -0,0 +1,141 @@
+#!/usr/bin/env node
+/**
+ * 版本快照测试脚本
+ * 测试快照按内容去重、自动快照数量上限与文件内容清理、恢复前创建备份快照，以及删除快照
+ * 在临时目录中创建项目，不影响 storage/
+ *
+ * 运行: node scripts/test-snapshot-store.cjs
+ */
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+// 存储目录取自当前工作目录，需在加载服务端模块前切换
+const originalCwd = process.cwd();
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'snapshot-store-'));
+process.chdir(tempDir);
+process.env.SNAPSHOT_MAX_AUTOMATIC = '3';
+
+const { initializeStorage } = require('../server/storage.cjs');
+const projects = require('../server/projectRegistry.cjs');
+const { readProjectFiles, writeFile } = require('../server/projectStore.cjs');
+const {
+  createSnapshot,
+  listSnapshots,
+  getSnapshot,
+  restoreSnapshot,
+  deleteSnapshot
+} = require('../server/snapshotStore.cjs');
+
+console.log('='.repeat(80));
+console.log('版本快照测试脚本');
+console.log('='.repeat(80));
+
+const testResults = {
+  passed: 0,
+  failed: 0
+};
+
+function logTest(name, passed, message = '') {
+  const status = passed ? '✅ PASS' : '❌ FAIL';
+  console.log(`${status}: ${name}`);
+  if (!passed && message) {
+    console.log(`   消息: ${message}`);
+  }
+  if (passed) {
+    testResults.passed++;
+  } else {
+    testResults.failed++;
+  }
+}
+
+function expectEqual(name, actual, expected) {
+  const same = JSON.stringify(actual) === JSON.stringify(expected);
+  logTest(name, same, same ? '' : `期望 ${JSON.stringify(expected)}，实际 ${JSON.stringify(actual)}`);
+}
+
+function expectThrows(name, fn, code) {
+  try {
+    fn();
+    logTest(name, false, '没有抛出错误');
+  } catch (error) {
+    logTest(name, error.code === code, `期望错误码 ${code}，实际 ${error.code}: ${error.message}`);
+  }
+}
+
+const objectsDir = () => path.join(projects.getActiveProjectDir(), 'snapshots', 'objects');
+const objectCount = () => fs.readdirSync(objectsDir()).length;
+const objectContents = () => fs.readdirSync(objectsDir()).map(hash => fs.readFileSync(path.join(objectsDir(), hash), 'utf-8')).sort();
+const types = () => listSnapshots().map(snapshot => snapshot.type);
+
+async function main() {
+  initializeStorage();
+  projects.initializeProjects();
+  writeFile('main.tex', 'v1');
+  writeFile('chapters/intro.tex', '引言');
+
+  // 创建和去重
+  console.log('\n--- 创建和去重 ---');
+  const first = createSnapshot({ type: 'auto' });
+  expectEqual('创建自动快照', [first.created, first.snapshot.file_count, first.snapshot.size], [true, 2, 4]);
+  expectEqual('内容未变化时不重复创建自动快照', [createSnapshot({ type: 'agent' }).created, listSnapshots().length], [false, 1]);
+  const checkpoint = createSnapshot({ type: 'manual', name: '  初稿  ' });
+  expectEqual('命名检查点总是创建，名称去掉首尾空白', [checkpoint.created, checkpoint.snapshot.name], [true, '初稿']);
+  expectEqual('内容相同的文件只保存一份', objectCount(), 2);
+
+  const unsaved = createSnapshot({ type: 'auto', files: { 'main.tex': 'v2', '.\\chapters\\intro.tex': '引言' } });
+  expectEqual('使用前端传入的未保存内容，路径规范化', getSnapshot(unsaved.snapshot.id).files, { 'main.tex': 'v2', 'chapters/intro.tex': '引言' });
+  expectEqual('只新增变化的文件内容', objectCount(), 3);
+  expectEqual('列表中最新的在前', types(), ['auto', 'manual', 'auto']);
+
+  expectThrows('无效的快照类型', () => createSnapshot({ type: 'daily' }), 'INVALID');
+  expectThrows('检查点名称为空', () => createSnapshot({ type: 'manual', name: ' ' }), 'INVALID');
+  expectThrows('缺少主文件', () => createSnapshot({ type: 'auto', files: { 'a.tex': 'x' } }), 'INVALID');
+  expectThrows('快照不存在', () => getSnapshot('snap_missing'), 'NOT_FOUND');
+
+  // 数量上限（SNAPSHOT_MAX_AUTOMATIC = 3）
+  console.log('\n--- 自动快照数量上限 ---');
+  for (const version of ['v3', 'v4']) {
+    createSnapshot({ type: 'auto', files: { 'main.tex': version } });
+  }
+  expectEqual('删除最旧的自动快照，保留命名检查点', types(), ['auto', 'auto', 'auto', 'manual']);
+  expectEqual('与检查点共用的内容保留', getSnapshot(checkpoint.snapshot.id).files, { 'main.tex': 'v1', 'chapters/intro.tex': '引言' });
+  createSnapshot({ type: 'auto', files: { 'main.tex': 'v5' } });
+  expectEqual('被删除快照独有的内容一并清理', objectContents(), ['v1', 'v3', 'v4', 'v5', '引言']);
+
+  // 恢复
+  console.log('\n--- 恢复快照 ---');
+  writeFile('chapters/new.tex', '新章节');
+  writeFile('main.tex', '当前内容');
+  const restored = restoreSnapshot(checkpoint.snapshot.id);
+  expectEqual('项目文件恢复为检查点的内容，快照中没有的文件被删除', readProjectFiles(), { 'main.tex': 'v1', 'chapters/intro.tex': '引言' });
+  expectEqual('恢复前为当前内容创建备份快照', [restored.backup.type, restored.backup.name], ['restore', '恢复到「初稿」之前']);
+  expectEqual('备份快照包含恢复前的内容', getSnapshot(restored.backup.id).files,
+    { 'main.tex': '当前内容', 'chapters/intro.tex': '引言', 'chapters/new.tex': '新章节' });
+  expectEqual('备份计入自动快照的上限', types(), ['restore', 'auto', 'auto', 'manual']);
+
+  // 删除
+  console.log('\n--- 删除快照 ---');
+  deleteSnapshot(restored.backup.id);
+  expectEqual('删除后不在列表中', types(), ['auto', 'auto', 'manual']);
+  expectEqual('只属于被删除快照的内容被清理', objectContents(), ['v1', 'v4', 'v5', '引言']);
+  expectThrows('删除不存在的快照', () => deleteSnapshot(restored.backup.id), 'NOT_FOUND');
+
+  // 每个项目的快照相互独立
+  console.log('\n--- 项目隔离 ---');
+  projects.activateProject(projects.createProject({ name: '另一篇论文' }).id);
+  expectEqual('新项目没有快照', listSnapshots(), []);
+}
+
+main()
+  .catch(error => {
+    logTest('测试脚本运行', false, error.stack);
+  })
+  .finally(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    console.log('\n' + '='.repeat(80));
+    console.log(`测试完成: ${testResults.passed} 通过, ${testResults.failed} 失败`);
+    process.exit(testResults.failed > 0 ? 1 : 0);
+  });
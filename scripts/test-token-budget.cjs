@@ -0,0 +1,187 @@
+#!/usr/bin/env node
+/**
+ * Token 预算测试脚本
+ * 测试 token 估算、按预算截断、按需求选择论文章节，以及 fitMessages 的四个裁剪阶段（原生工具调用和文本协议）
+ *
+ * 运行: node scripts/test-token-budget.cjs
+ */
+
+const {
+  estimateTokens,
+  truncateToTokens,
+  textToolResult,
+  selectRelevantSections,
+  fitMessages,
+  hasDroppedContent
+} = require('../server/tokenBudget.cjs');
+
+console.log('='.repeat(80));
+console.log('Token 预算测试脚本');
+console.log('='.repeat(80));
+
+const testResults = {
+  passed: 0,
+  failed: 0
+};
+
+function logTest(name, passed, message = '') {
+  const status = passed ? '✅ PASS' : '❌ FAIL';
+  console.log(`${status}: ${name}`);
+  if (!passed && message) {
+    console.log(`   消息: ${message}`);
+  }
+  if (passed) {
+    testResults.passed++;
+  } else {
+    testResults.failed++;
+  }
+}
+
+function expectEqual(name, actual, expected) {
+  const same = JSON.stringify(actual) === JSON.stringify(expected);
+  logTest(name, same, same ? '' : `期望 ${JSON.stringify(expected)}，实际 ${JSON.stringify(actual)}`);
+}
+
+// 每个字符一个 token，便于计算预算
+const tokenEstimate = { cjk: 1, other: 1 };
+// 输入预算 = floor(contextWindow * 0.95) - maxTokens
+const limits = (inputBudget, toolResultMaxTokens = 100000) => ({
+  contextWindow: Math.ceil((inputBudget + 100) / 0.95),
+  maxTokens: 100,
+  toolResultMaxTokens,
+  tokenEstimate
+});
+const TRUNCATED_NOTE = '\n...（工具结果过长，已截断）';
+
+// 估算和截断
+console.log('\n--- 估算和截断 ---');
+expectEqual('中文和其他字符按各自比例估算', estimateTokens('中文ab', { cjk: 1, other: 0.5 }), 3);
+expectEqual('默认比例', estimateTokens('abcdefghij'), 3);
+expectEqual('空文本', estimateTokens(''), 0);
+expectEqual('未超出预算时不截断', truncateToTokens('abc', 5, tokenEstimate), { text: 'abc', truncated: false, tokens: 3 });
+{
+  const truncated = truncateToTokens('x'.repeat(1000), 100, tokenEstimate);
+  logTest('超出预算时截断到预算以内', truncated.truncated && truncated.text.length <= 100 && truncated.text.length >= 90, String(truncated.text.length));
+  expectEqual('返回截断前的估算值', truncated.tokens, 1000);
+}
+
+// 按需求选择章节
+console.log('\n--- 选择相关章节 ---');
+{
+  const paper = [
+    '\\title{T}\n',
+    '\\section{引言}\n介绍背景' + '。'.repeat(300) + '\n',
+    '\\section{实验}\n实验设置和实验结果' + '。'.repeat(300) + '\n',
+    '\\section{Related Work}\nTransformer attention models' + '.'.repeat(300) + '\n'
+  ].join('');
+  const all = selectRelevantSections(paper, '改写实验部分', 100000, tokenEstimate);
+  expectEqual('预算充足时全部保留', [all.content, all.dropped], [paper, []]);
+
+  const selected = selectRelevantSections(paper, '改写实验部分', 600, tokenEstimate);
+  expectEqual('优先保留与需求相关的章节', selected.dropped, ['引言', 'Related Work']);
+  logTest('省略的章节用占位说明代替', selected.content.includes('\\section{引言}\n（该章节已省略以节省上下文，可使用 view_file 工具查看）'));
+  logTest('导言区保留', selected.content.startsWith('\\title{T}\n'));
+
+  const english = selectRelevantSections(paper, 'improve the related work on attention', 600, tokenEstimate);
+  expectEqual('英文关键词匹配章节标题和内容', english.dropped, ['引言', '实验']);
+  logTest('结果在预算以内', estimateTokens(english.content, tokenEstimate) <= 600, String(estimateTokens(english.content, tokenEstimate)));
+
+  // 为占位说明预留空间后放不下最相关的章节时，选入放得下的章节
+  expectEqual('相关章节放不下时选入其他章节', selectRelevantSections(paper, 'improve the related work on attention', 500, tokenEstimate).dropped, ['实验', 'Related Work']);
+}
+
+// 阶段 1：截断工具结果
+console.log('\n--- 截断工具结果 ---');
+const longResult = { tool: 'read_pdf_content', success: true, text: 'p'.repeat(3000), nested: { ok: true } };
+{
+  const messages = [
+    { role: 'system', content: 'sys' },
+    { role: 'user', content: '读 PDF' },
+    { role: 'assistant', content: '', tool_calls: [{ id: 'c1', type: 'function', function: { name: 'read_pdf_content', arguments: '{}' } }] },
+    { role: 'tool', tool_call_id: 'c1', content: JSON.stringify(longResult, null, 2) }
+  ];
+  const { messages: fitted, report } = fitMessages(messages, limits(100000, 500), { requestIndex: 1 });
+  logTest('原生工具调用：tool 消息截断', fitted[3].content.endsWith(TRUNCATED_NOTE) && fitted[3].content.length < 600, String(fitted[3].content.length));
+  expectEqual('报告截断的条数', report.truncated_tool_results, 1);
+  logTest('原消息数组不被修改', messages[3].content.length > 3000);
+}
+{
+  const shortResult = { tool: 'list_resources', success: true, count: 0 };
+  const instruction = '请基于工具执行结果继续回答用户的问题。';
+  const messages = [
+    { role: 'system', content: 'sys' },
+    { role: 'user', content: '之前的问题' },
+    { role: 'assistant', content: `之前的回答\n\n${textToolResult('read_pdf_content', longResult)}` },
+    { role: 'user', content: '读 PDF' },
+    { role: 'assistant', content: 'TOOL_CALL: ...' },
+    { role: 'user', content: `${textToolResult('read_pdf_content', longResult)}\n\n${textToolResult('list_resources', shortResult)}\n\n${instruction}` }
+  ];
+  const { messages: fitted, report } = fitMessages(messages, limits(100000, 500), { requestIndex: 3 });
+  const userResult = fitted[5].content;
+  expectEqual('文本协议：user 消息中的每段工具结果分别截断', report.truncated_tool_results, 2);
+  logTest('长结果截断', userResult.startsWith('工具 "read_pdf_content" 执行结果：\n{') && userResult.includes(TRUNCATED_NOTE) && userResult.length < 1200, String(userResult.length));
+  logTest('短结果和之后的说明保持不变', userResult.endsWith(`${textToolResult('list_resources', shortResult)}\n\n${instruction}`));
+  logTest('历史中附在助手回复后的工具结果也截断', fitted[2].content.startsWith('之前的回答\n\n工具 "read_pdf_content" 执行结果：') && fitted[2].content.endsWith(TRUNCATED_NOTE));
+  expectEqual('不含工具结果的消息不变', [fitted[1].content, fitted[3].content, fitted[4].content], ['之前的问题', '读 PDF', 'TOOL_CALL: ...']);
+  expectEqual('结果中的嵌套对象不影响分段', textToolResult('x', { a: { b: '}\n}' } }).split('\n').filter(line => line === '}').length, 1);
+}
+
+// 阶段 2：较早的对话轮次压缩为摘要
+console.log('\n--- 压缩对话历史 ---');
+{
+  const messages = [
+    { role: 'system', content: 'sys' },
+    { role: 'user', content: 'q1 ' + 'a'.repeat(300) },
+    { role: 'assistant', content: 'r1 ' + 'b'.repeat(300) },
+    { role: 'user', content: 'q2' },
+    { role: 'assistant', content: 'r2' },
+    { role: 'user', content: '本次需求' }
+  ];
+  const { messages: fitted, report } = fitMessages(messages, limits(400), { requestIndex: 5 });
+  expectEqual('删除最早的一轮，保持 user 开头', fitted.map(message => message.content.slice(0, 2)), ['sy', 'q2', 'r2', '本次']);
+  expectEqual('报告删除的消息数', report.dropped_turns, 2);
+  logTest('摘要放入 system 消息', fitted[0].content.startsWith('sys\n\n较早的对话摘要（已省略 2 条消息）：\n- 用户: q1 aaa'));
+  logTest('摘要中的长消息截断', fitted[0].content.includes('...\n- 助手: r1 '));
+  expectEqual('预算以内', report.over_budget, false);
+  expectEqual('有被裁剪的内容', hasDroppedContent(report), true);
+}
+
+// 阶段 3：论文只保留相关章节
+console.log('\n--- 裁剪论文 ---');
+{
+  const paper = '\\title{T}\n\\section{引言}\n' + '引'.repeat(300) + '\n\\section{方法}\n方法' + '法'.repeat(100) + '\n';
+  const messages = [
+    { role: 'system', content: 'sys' },
+    { role: 'user', content: `论文内容：\n${paper}\n需求：改写方法部分` }
+  ];
+  const { messages: fitted, report } = fitMessages(messages, limits(300), { requestIndex: 1, content: paper, query: '改写方法部分' });
+  expectEqual('省略不相关的章节', report.dropped_sections, ['引言']);
+  logTest('保留相关章节和需求', fitted[1].content.includes('\\section{方法}\n方法法') && fitted[1].content.endsWith('需求：改写方法部分'));
+  expectEqual('预算以内', report.over_budget, false);
+}
+
+// 阶段 4：省略较早的工具结果
+console.log('\n--- 省略较早的工具结果 ---');
+{
+  const messages = [
+    { role: 'system', content: 'sys' },
+    { role: 'user', content: '需求' },
+    { role: 'assistant', content: '第一次调用' },
+    { role: 'user', content: 'r'.repeat(200) },
+    { role: 'assistant', content: '第二次调用' },
+    { role: 'user', content: 's'.repeat(200) }
+  ];
+  const { messages: fitted, report } = fitMessages(messages, limits(300), { requestIndex: 1 });
+  expectEqual('较早的结果被省略', fitted[3].content, '（较早的工具结果已省略以节省上下文）');
+  expectEqual('最近一次调用的结果保留', fitted[5].content, 's'.repeat(200));
+  expectEqual('报告省略的条数', report.omitted_tool_results, 1);
+}
+{
+  const messages = [{ role: 'system', content: 'sys' }, { role: 'user', content: 'x'.repeat(500) }];
+  const { report } = fitMessages(messages, limits(100), { requestIndex: 1 });
+  expectEqual('无法裁剪时标记超出预算', [report.over_budget, hasDroppedContent(report)], [true, false]);
+}
+
+console.log('\n' + '='.repeat(80));
+console.log(`测试完成: ${testResults.passed} 通过, ${testResults.failed} 失败`);
+process.exit(testResults.failed > 0 ? 1 : 0);
@@ -0,0 +1,64 @@
+/**
+ * 取消工具模块 - 统一表示"请求已取消"的错误
+ *
+ * 客户端断开连接时路由层触发 AbortController，模型请求、工具执行和 Agent 循环
+ * 都通过同一个 AbortSignal 感知取消，并抛出 code 为 ERR_CANCELED 的错误（与 axios 一致）。
+ */
+
+const ABORT_ERROR_CODE = 'ERR_CANCELED';
+
+// 创建取消错误
+function createAbortError(message = '请求已取消') {
+  const error = new Error(message);
+  error.name = 'AbortError';
+  error.code = ABORT_ERROR_CODE;
+  return error;
+}
+
+// 判断是否为取消错误（包括 axios 的 CanceledError）
+function isAbortError(error) {
+  return Boolean(error && (error.code === ABORT_ERROR_CODE || error.name === 'AbortError' || error.name === 'CanceledError'));
+}
+
+// 已取消时抛出取消错误
+function throwIfAborted(signal) {
+  if (signal && signal.aborted) {
+    throw createAbortError();
+  }
+}
+
+// 返回一个在取消时 reject 的 Promise，用于与其他异步操作竞争；cleanup 用于移除监听
+function abortPromise(signal) {
+  let cleanup = () => {};
+  const promise = new Promise((_, reject) => {
+    if (!signal) return;
+    if (signal.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => reject(createAbortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    cleanup = () => signal.removeEventListener('abort', onAbort);
+  });
+  return { promise, cleanup };
+}
+
+// 客户端断开连接（关闭页面或点击停止）时触发取消，中止上游模型请求、工具调用或编译进程
+function createClientAbortSignal(res, logPrefix = '[Agent]') {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      console.log(`${logPrefix} 客户端已断开连接，取消请求`);
+      controller.abort();
+    }
+  });
+  return controller.signal;
+}
+
+module.exports = {
+  createAbortError,
+  createClientAbortSignal,
+  isAbortError,
+  throwIfAborted,
+  abortPromise
+};
@@ -0,0 +1,311 @@
+/**
+ * Agent运行器 - 在服务端驱动多步工具调用循环
+ *
+ * 流程: 调用模型 → 解析工具调用 → executeTool → 追加 assistant/tool 消息后再次调用 → ...
+ * 每一步（助手文本、工具调用、工具结果、编辑器内容变更）都通过 onEvent 回调推送，
+ * 路由层将事件转成 SSE，脚本或其他客户端也可以直接调用 runAgent 复用同一套循环。
+ * 传入 signal 后可随时取消：正在进行的模型请求和工具执行会被中止，循环不再继续。
+ */
+
+const { callModelApi, buildMessages } = require('./aiApi.cjs');
+const { resolveModel, getModelLimits } = require('./providers/index.cjs');
+const { fitMessages, truncateToTokens, textToolResult } = require('./tokenBudget.cjs');
+const { isAbortError, throwIfAborted, abortPromise } = require('./abortUtils.cjs');
+const {
+  AVAILABLE_TOOLS,
+  toToolSchemas,
+  executeTool,
+  parseToolCalls,
+  parseNativeToolCalls,
+  extractContentBeforeToolCall
+} = require('./tools/index.cjs');
+
+// 单次对话最多执行的工具迭代次数
+const MAX_TOOL_ITERATIONS = 10;
+// 单个工具执行超时时间
+const TOOL_TIMEOUT = 30000;
+
+/**
+ * 调用模型，统一为流式回调形式（不支持流式的模型一次性推送完整内容）
+ * @param {Array} messages - 完整对话消息
+ * @param {Array} [tools] - 原生 function calling 工具定义，不传则使用文本协议
+ * @returns {Promise<{ response: string, reasoning: string, toolCalls: Array }>}
+ */
+async function callModel(model, messages, apiKey, onChunk, tools, signal) {
+  return callModelApi(model, messages, apiKey, {
+    tools,
+    signal,
+    onChunk: (content, fullResponse, reasoningContent) => onChunk(content, reasoningContent)
+  });
+}
+
+/**
+ * 执行单个工具调用（带超时，取消时立即返回并抛出取消错误）
+ * @param {object} [workspace] - 项目文件和资源库 { files, activeFile, storage }，文件类工具按 file_path 操作
+ */
+async function executeToolWithTimeout(toolCall, editorContent, signal, workspace = {}) {
+  if (toolCall.parse_error) {
+    return { success: false, error: toolCall.parse_error };
+  }
+
+  let timer;
+  const aborted = abortPromise(signal);
+  try {
+    return await Promise.race([
+      executeTool(toolCall.tool_name, toolCall.parameters, editorContent, { signal, ...workspace }),
+      aborted.promise,
+      new Promise((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`工具 ${toolCall.tool_name} 执行超时 (${TOOL_TIMEOUT / 1000}秒)`)),
+          TOOL_TIMEOUT
+        );
+      })
+    ]);
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw error;
+    }
+    console.error(`[AgentRunner] 工具 ${toolCall.tool_name} 执行失败:`, error);
+    return { success: false, error: error.message || '工具执行失败' };
+  } finally {
+    clearTimeout(timer);
+    aborted.cleanup();
+  }
+}
+
+/**
+ * 根据工具类型整理返回给模型的结果，只保留后续推理需要的关键信息
+ * @param {object} [limits] - 模型上下文预算，用于限制PDF全文长度
+ */
+function formatToolResult(toolCall, result, limits) {
+  const formattedResult = {
+    tool: toolCall.tool_name,
+    success: result.success,
+    error: result.success ? undefined : result.error
+  };
+
+  if (!result.success || !result.data) {
+    return formattedResult;
+  }
+
+  const data = result.data;
+
+  if (toolCall.tool_name === 'search_papers' && data.papers) {
+    // 搜索论文：保留 arxiv_id（下载必需）和翻页信息（next_start 为 null 时没有更多结果）
+    formattedResult.count = data.count;
+    formattedResult.total = data.total;
+    formattedResult.next_start = data.next_start;
+    formattedResult.papers = data.papers.map(p => ({
+      arxiv_id: p.arxiv_id,
+      title: p.title,
+      authors: (p.authors || []).slice(0, 3).join(', ') + ((p.authors || []).length > 3 ? '等' : ''),
+      published: p.published?.split('T')[0],
+      abstract: p.abstract?.substring(0, 200) + '...'
+    }));
+  } else if (toolCall.tool_name === 'download_paper') {
+    formattedResult.message = data.message;
+    formattedResult.filename = data.filename;
+    formattedResult.resource_id = data.resource_id;
+    formattedResult.citation_key = data.citation_key;
+  } else if (toolCall.tool_name === 'read_pdf_content') {
+    // 读取PDF：提供全文，但按模型的工具结果预算截断，避免超出上下文窗口
+    formattedResult.name = data.name;
+    formattedResult.text_length = data.text?.length || 0;
+    formattedResult.text_stats = data.text_stats;
+    // 预留一成给 JSON 字段和转义字符
+    const truncated = data.text && limits
+      ? truncateToTokens(data.text, Math.floor(limits.toolResultMaxTokens * 0.9), limits.tokenEstimate)
+      : null;
+    if (truncated?.truncated) {
+      formattedResult.text = truncated.text;
+      formattedResult.truncated = true;
+      formattedResult.truncated_message = `文本过长，已截取前 ${truncated.text.length} 字符（共 ${data.text.length} 字符，约 ${truncated.tokens} tokens）`;
+    } else {
+      formattedResult.text = data.text;
+      formattedResult.truncated = false;
+    }
+  } else if (toolCall.tool_name === 'list_resources') {
+    formattedResult.count = data.count;
+    formattedResult.resources = data.resources?.map(r => ({
+      id: r.id,
+      name: r.name,
+      type: data.resource_type
+    }));
+  } else if (toolCall.tool_name === 'edit_file') {
+    // 编辑文件：新内容已同步到编辑器，不再重复发送全文
+    formattedResult.message = data.message;
+    formattedResult.changes = data.changes;
+    formattedResult.stats = data.stats;
+  } else {
+    formattedResult.data = data;
+  }
+
+  return formattedResult;
+}
+
+/**
+ * 运行 Agent 循环
+ * @param {object} options
+ * @param {string} options.content - 当前论文内容（当前编辑的文件）
+ * @param {object} [options.files] - 项目文件内容 { path: content }，提供时工具可查看和修改项目中的任意文件
+ * @param {string} [options.activeFile] - 当前编辑的文件路径
+ * @param {object} [options.storage] - 资源库存储（见 storage.getResourceStorage），资源类工具读写其中的资源
+ * @param {string} options.input - 用户输入
+ * @param {'discuss'|'write'} options.mode - 写作模式
+ * @param {string} options.model - 模型标识
+ * @param {string} options.apiKey - API Key
+ * @param {Array} [options.messages] - 对话历史（含本次用户消息）
+ * @param {AbortSignal} [options.signal] - 取消信号
+ * @param {(event: object) => void} onEvent - 事件回调
+ * @returns {Promise<{ content: string, iterations: number, cancelled: boolean }>}
+ */
+async function runAgent(options, onEvent = () => {}) {
+  const { input, mode, model, apiKey, signal } = options;
+  let currentContent = options.content || '';
+  const activeFile = options.activeFile;
+  // Agent 修改后的项目文件（只在本次运行中生效，由前端审阅后再保存）
+  const files = options.files ? { ...options.files, [activeFile]: currentContent } : undefined;
+
+  const { provider, model: modelInfo } = await resolveModel(model);
+  if (provider.requiresApiKey && !apiKey) {
+    throw new Error('API Key不能为空');
+  }
+
+  // 支持原生 function calling 的模型直接发送工具定义，否则回退到 TOOL_CALL 文本协议
+  const nativeTools = Boolean(modelInfo.supportsTools);
+  const tools = nativeTools ? toToolSchemas(AVAILABLE_TOOLS) : undefined;
+
+  const limits = getModelLimits(modelInfo);
+
+  // 对话消息：system + 历史轮次 + 本次用户请求，之后每一步追加 assistant / tool 消息
+  const conversation = buildMessages(currentContent, input, mode, AVAILABLE_TOOLS, options.messages, {
+    nativeTools,
+    activeFile,
+    projectFiles: files ? Object.keys(files) : undefined,
+    formatToolResult: (toolCall, result) => formatToolResult(toolCall, result, limits)
+  });
+
+  // 每次调用前按模型上下文窗口裁剪消息，conversation 本身保留完整内容
+  const budgetContext = { requestIndex: conversation.length - 1, content: currentContent, query: input };
+  let fitted = fitMessages(conversation, limits, budgetContext);
+
+  onEvent({ type: 'start', model, native_tools: nativeTools, budget: fitted.report });
+
+  let iterationCount = 0;
+
+  try {
+    while (true) {
+      throwIfAborted(signal);
+      if (iterationCount > 0) {
+        fitted = fitMessages(conversation, limits, budgetContext);
+      }
+      onEvent({ type: 'message_start', iteration: iterationCount, budget: fitted.report });
+
+      const result = await callModel(model, fitted.messages, apiKey, (content, reasoningContent) => {
+        onEvent({ type: 'chunk', content, reasoning_content: reasoningContent || undefined });
+      }, tools, signal);
+
+      // 部分本地服务不返回工具调用ID，补全后才能与 tool 消息对应
+      result.toolCalls.forEach((call, index) => {
+        if (!call.id) {
+          call.id = `call_${iterationCount}_${index}`;
+        }
+      });
+
+      // 优先使用原生工具调用；没有时再从文本中解析（只处理第一个，并截断其后的内容）
+      let toolCalls = parseNativeToolCalls(result.toolCalls);
+      const isNativeCall = toolCalls.length > 0;
+      let responseText = result.response;
+      if (!isNativeCall) {
+        toolCalls = parseToolCalls(result.response);
+        if (toolCalls.length > 0) {
+          responseText = extractContentBeforeToolCall(result.response);
+        }
+      }
+
+      onEvent({
+        type: 'message_complete',
+        content: responseText,
+        reasoning: result.reasoning || undefined,
+        tool_calls: toolCalls.length > 0 ? toolCalls : undefined
+      });
+
+      if (toolCalls.length === 0) {
+        break;
+      }
+
+      if (iterationCount >= MAX_TOOL_ITERATIONS) {
+        console.warn(`[AgentRunner] 已达到最大工具迭代次数 (${MAX_TOOL_ITERATIONS})，停止执行`);
+        break;
+      }
+      iterationCount++;
+
+      if (isNativeCall) {
+        // 只回传已识别的工具调用，保证每个 tool_call 都有对应的 tool 消息
+        const callIds = new Set(toolCalls.map(call => call.id));
+        conversation.push({
+          role: 'assistant',
+          content: responseText || '',
+          tool_calls: result.toolCalls.filter(call => callIds.has(call.id))
+        });
+      } else {
+        conversation.push({ role: 'assistant', content: result.response });
+      }
+
+      // 原生调用可能一次返回多个工具，按顺序依次执行
+      const resultTexts = [];
+      for (const toolCall of toolCalls) {
+        console.log(`[AgentRunner] 工具调用迭代 ${iterationCount}: ${toolCall.tool_name}`);
+        onEvent({ type: 'tool_call', tool_call: toolCall });
+
+        throwIfAborted(signal);
+        const toolResult = await executeToolWithTimeout(toolCall, currentContent, signal, { files, activeFile, storage: options.storage });
+        onEvent({ type: 'tool_result', tool_name: toolCall.tool_name, tool_call: toolCall, result: toolResult });
+
+        // 编辑文件工具：同步更新后续步骤使用的文件内容
+        if (toolResult.success && toolCall.tool_name === 'edit_file' && typeof toolResult.data?.new_content === 'string') {
+          const file = toolResult.data.file_path;
+          const newContent = toolResult.data.new_content;
+          if (files) {
+            files[file] = newContent;
+          }
+          if (!files || file === activeFile) {
+            currentContent = newContent;
+          }
+          onEvent({ type: 'content_update', file: files ? file : undefined, content: newContent, changes: toolResult.data.changes });
+        }
+
+        const formattedResult = formatToolResult(toolCall, toolResult, limits);
+        if (isNativeCall) {
+          conversation.push({ role: 'tool', tool_call_id: toolCall.id, content: JSON.stringify(formattedResult, null, 2) });
+        } else {
+          resultTexts.push(textToolResult(toolCall.tool_name, formattedResult));
+        }
+      }
+
+      // 文本协议没有 tool 角色，工具结果作为用户消息返回
+      if (!isNativeCall) {
+        conversation.push({
+          role: 'user',
+          content: `${resultTexts.join('\n\n')}\n\n请基于工具执行结果继续回答用户的问题。如果需要下载论文，请使用论文的 arxiv_id 调用 download_paper 工具。每次只能调用一个工具。`
+        });
+      }
+    }
+  } catch (error) {
+    if (!isAbortError(error)) {
+      throw error;
+    }
+    console.log(`[AgentRunner] 已取消（第 ${iterationCount} 次迭代）`);
+    onEvent({ type: 'cancelled', content: currentContent, iterations: iterationCount });
+    return { content: currentContent, iterations: iterationCount, cancelled: true };
+  }
+
+  onEvent({ type: 'complete', content: currentContent, iterations: iterationCount });
+  return { content: currentContent, iterations: iterationCount, cancelled: false };
+}
+
+module.exports = {
+  runAgent,
+  formatToolResult,
+  MAX_TOOL_ITERATIONS
+};
@@ -1,273 +1,78 @@
 /**
- * AI API模块 - DeepSeek和Qwen API调用
+ * AI API模块 - 模型调用入口和提示词生成
  */
 
-const axios = require('axios');
-const { MODEL_CONFIG } = require('./config.cjs');
-
-// 调用DeepSeek API（支持 deepseek-chat 和 deepseek-reasoner 模型）
-async function callDeepSeekApi(prompt, apiKey, model = 'deepseek-chat') {
-  try {
-    const config = MODEL_CONFIG[model] || MODEL_CONFIG['deepseek-chat'];
-
-    const requestBody = {
-      model: model,
-      messages: [
-        { role: 'system', content: config.systemPrompt },
-        { role: 'user', content: prompt }
-      ],
-      temperature: config.temperature,
-      max_tokens: config.maxTokens
-    };
-
-    if (config.reasoningEffort) {
-      requestBody.reasoning_effort = config.reasoningEffort;
-    }
+const { resolveModel, getModelConfig, chatCompletion } = require('./providers/index.cjs');
+const { textToolResult } = require('./tokenBudget.cjs');
 
-    const response = await axios.post('https://api.deepseek.com/v1/chat/completions', requestBody, {
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json'
-      }
-    });
-
-    return response.data.choices[0].message.content;
-  } catch (error) {
-    console.error('DeepSeek API调用失败:', error);
-    
-    // 提取详细错误信息
-    let errorMsg = 'DeepSeek API调用失败';
-    if (error.response) {
-      const status = error.response.status;
-      const data = error.response.data;
-      
-      if (status === 401) {
-        errorMsg = `API Key 无效或已过期 (${data?.error?.message || 'Unauthorized'})`;
-      } else if (status === 429) {
-        errorMsg = `API 调用频率超限，请稍后重试 (${data?.error?.message || 'Rate Limited'})`;
-      } else if (status === 500) {
-        errorMsg = `DeepSeek 服务器错误 (${data?.error?.message || 'Internal Server Error'})`;
-      } else {
-        errorMsg = data?.error?.message || `HTTP ${status} 错误`;
-      }
-    } else if (error.code === 'ECONNREFUSED') {
-      errorMsg = '无法连接到 DeepSeek API 服务器';
-    } else if (error.code === 'ETIMEDOUT') {
-      errorMsg = 'DeepSeek API 请求超时';
-    }
-    
-    throw new Error(errorMsg);
-  }
+/**
+ * 调用模型（统一入口，服务商和模型能力由 providers 注册表决定）
+ * 模型自身的系统提示词会与 messages 中的首条 system 消息合并
+ * @param {string} modelId - 模型ID（如 deepseek、deepseek-reasoner、qwen、local:xxx）
+ * @param {Array} messages - 对话消息（通常由 buildMessages 生成）
+ * @param {string} apiKey
+ * @param {object} [options]
+ * @param {boolean} [options.stream] - 是否流式输出，默认按模型能力决定
+ * @param {Array} [options.tools] - 原生 function calling 工具定义
+ * @param {Function} [options.onChunk] - (content, fullResponse, reasoningContent, fullReasoningContent)
+ * @param {AbortSignal} [options.signal] - 取消信号（客户端断开时中止上游请求）
+ * @returns {Promise<{ response: string, reasoning: string, toolCalls: Array }>}
+ */
+async function callModelApi(modelId, messages, apiKey, options = {}) {
+  const { model } = await resolveModel(modelId);
+  const config = getModelConfig(model);
+
+  // 部分本地模型的对话模板只接受一条开头的 system 消息，这里统一合并
+  const [first, ...rest] = messages;
+  const requestMessages = first && first.role === 'system'
+    ? [{ role: 'system', content: `${config.systemPrompt}\n\n${first.content}` }, ...rest]
+    : [{ role: 'system', content: config.systemPrompt }, ...messages];
+
+  return chatCompletion(modelId, {
+    messages: requestMessages,
+    apiKey,
+    stream: options.stream,
+    tools: options.tools,
+    onChunk: options.onChunk,
+    signal: options.signal
+  });
 }
 
-// 调用DeepSeek API流式响应（支持 deepseek-chat 和 deepseek-reasoner 模型）
-// onChunk 回调参数: (content, fullResponse, reasoningContent, fullReasoningContent)
-async function callDeepSeekApiStream(prompt, apiKey, model = 'deepseek-chat', onChunk) {
-  try {
-    const config = MODEL_CONFIG[model] || MODEL_CONFIG['deepseek-chat'];
-
-    const requestBody = {
-      model: model,
-      messages: [
-        { role: 'system', content: config.systemPrompt },
-        { role: 'user', content: prompt }
-      ],
-      temperature: config.temperature,
-      max_tokens: config.maxTokens,
-      stream: true  // 启用流式响应
-    };
-
-    if (config.reasoningEffort) {
-      requestBody.reasoning_effort = config.reasoningEffort;
-    }
-
-    const response = await axios.post('https://api.deepseek.com/v1/chat/completions', requestBody, {
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json'
-      },
-      responseType: 'stream'  // 设置响应类型为流
-    });
-
-    let fullResponse = '';
-    let fullReasoningContent = '';  // 思考过程内容
-    let buffer = '';
-    
-    return new Promise((resolve, reject) => {
-      response.data.on('data', (chunk) => {
-        buffer += chunk.toString();
-        
-        // 处理SSE格式的数据
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
-        
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6);
-            
-            if (data === '[DONE]') {
-              resolve({ response: fullResponse, reasoning: fullReasoningContent });
-              return;
-            }
-            
-            try {
-              const parsed = JSON.parse(data);
-              const delta = parsed.choices?.[0]?.delta || {};
-              
-              // 处理普通内容
-              const content = delta.content || '';
-              if (content) {
-                fullResponse += content;
-              }
-              
-              // 处理 DeepSeek Reasoner 的思考过程
-              const reasoningContent = delta.reasoning_content || '';
-              if (reasoningContent) {
-                fullReasoningContent += reasoningContent;
-              }
-              
-              // 调用回调函数处理每个数据块
-              if (onChunk && (content || reasoningContent)) {
-                onChunk(content, fullResponse, reasoningContent, fullReasoningContent);
-              }
-            } catch (error) {
-              console.warn('解析流式响应数据失败:', error, data);
-            }
-          }
-        }
-      });
-      
-      response.data.on('end', () => {
-        if (buffer.trim()) {
-          try {
-            if (buffer.startsWith('data: ')) {
-              const data = buffer.slice(6);
-              if (data !== '[DONE]') {
-                const parsed = JSON.parse(data);
-                const delta = parsed.choices?.[0]?.delta || {};
-                
-                const content = delta.content || '';
-                if (content) {
-                  fullResponse += content;
-                }
-                
-                const reasoningContent = delta.reasoning_content || '';
-                if (reasoningContent) {
-                  fullReasoningContent += reasoningContent;
-                }
-                
-                if (onChunk && (content || reasoningContent)) {
-                  onChunk(content, fullResponse, reasoningContent, fullReasoningContent);
-                }
-              }
-            }
-          } catch (error) {
-            console.warn('解析流式响应结束数据失败:', error);
-          }
-        }
-        resolve({ response: fullResponse, reasoning: fullReasoningContent });
-      });
-      
-      response.data.on('error', (error) => {
-        console.error('流式响应错误:', error);
-        reject(new Error('流式响应失败: ' + error.message));
-      });
-    });
-  } catch (error) {
-    console.error('DeepSeek API流式调用失败:', error);
-    
-    // 提取详细错误信息
-    let errorMsg = 'DeepSeek API流式调用失败';
-    if (error.response) {
-      const status = error.response.status;
-      const data = error.response.data;
-      
-      if (status === 401) {
-        errorMsg = `API Key 无效或已过期 (${data?.error?.message || 'Unauthorized'})`;
-      } else if (status === 429) {
-        errorMsg = `API 调用频率超限，请稍后重试 (${data?.error?.message || 'Rate Limited'})`;
-      } else if (status === 500) {
-        errorMsg = `DeepSeek 服务器错误 (${data?.error?.message || 'Internal Server Error'})`;
-      } else {
-        errorMsg = data?.error?.message || `HTTP ${status} 错误`;
-      }
-    } else if (error.code === 'ECONNREFUSED') {
-      errorMsg = '无法连接到 DeepSeek API 服务器';
-    } else if (error.code === 'ETIMEDOUT') {
-      errorMsg = 'DeepSeek API 请求超时';
-    }
-    
-    throw new Error(errorMsg);
+// 生成工具使用说明
+// nativeTools: 工具定义已通过原生 function calling 发送，不再说明 TOOL_CALL 文本协议
+function generateToolsDescription(availableTools, nativeTools) {
+  if (availableTools.length === 0) {
+    return '';
   }
-}
 
-// 调用Qwen API（普通输出，不支持流式）
-async function callQwenApi(prompt, apiKey) {
-  try {
-    const config = MODEL_CONFIG['qwen'];
-    
-    const response = await axios.post('https://dashscope.aliyuncs.com/compatible-mode/v1/chat/completions', {
-      model: 'qwen-plus',
-      messages: [
-        { role: 'system', content: config.systemPrompt },
-        { role: 'user', content: prompt }
-      ],
-      temperature: config.temperature,
-      max_tokens: config.maxTokens
-    }, {
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json'
-      }
-    });
-    
-    return response.data.choices[0].message.content;
-  } catch (error) {
-    console.error('Qwen API调用失败:', error);
-    
-    // 提取详细错误信息
-    let errorMsg = 'Qwen API调用失败';
-    if (error.response) {
-      const status = error.response.status;
-      const data = error.response.data;
-      
-      if (status === 401) {
-        errorMsg = `API Key 无效或已过期 (${data?.error?.message || data?.message || 'Unauthorized'})`;
-      } else if (status === 429) {
-        errorMsg = `API 调用频率超限，请稍后重试 (${data?.error?.message || 'Rate Limited'})`;
-      } else if (status === 500) {
-        errorMsg = `Qwen 服务器错误 (${data?.error?.message || 'Internal Server Error'})`;
-      } else {
-        errorMsg = data?.error?.message || data?.message || `HTTP ${status} 错误`;
-      }
-    } else if (error.code === 'ECONNREFUSED') {
-      errorMsg = '无法连接到 Qwen API 服务器';
-    } else if (error.code === 'ETIMEDOUT') {
-      errorMsg = 'Qwen API 请求超时';
-    }
-    
-    throw new Error(errorMsg);
+  const toolsGuide = `工具使用指南：
+• 搜索工具：用于查找相关文献和研究背景
+• 下载工具：用于获取论文全文以便详细阅读
+• 阅读工具：用于读取已下载PDF论文的文本内容
+• 文件工具：用于查看和编辑论文内容（仅在撰写模式可用）
+• 检查工具：用于在编辑前后检查 LaTeX 语法、交叉引用和文献引用问题
+• 资源工具：用于管理参考文献、图片和数据文件`;
+
+  const toolsNotes = `其他说明：
+1. 文件编辑工具仅在撰写模式下可用
+2. 论文搜索、下载和阅读工具在所有模式下都可用`;
+
+  if (nativeTools) {
+    // 原生 function calling：工具参数定义随请求发送，这里只保留使用说明
+    return `您可以通过函数调用使用以下学术写作工具：${availableTools.map(tool => tool.name).join('、')}
+
+${toolsGuide}
+
+调用工具后，系统会返回执行结果，你再基于结果继续回答或调用下一个工具。
+
+${toolsNotes}`;
   }
-}
 
-// 生成AI提示词
-function generatePrompt(content, input, mode, availableTools = [], messages = []) {
-  let prompt = '';
-  
-  // 检测是否是工具调用后的后续请求（避免重复发送论文内容）
-  const isToolFollowUp = input.startsWith('工具 "') || input.startsWith('工具执行结果');
-  
-  const toolsDescription = availableTools.length > 0 ? `
-您可以使用的学术写作工具：
+  return `您可以使用的学术写作工具：
 ${availableTools.map(tool => `- ${tool.name}: ${tool.description}
   参数要求: ${JSON.stringify(tool.parameters)}`).join('\n\n')}
 
-工具使用指南：
-• 搜索工具：用于查找相关文献和研究背景
-• 下载工具：用于获取论文全文以便详细阅读
-• 阅读工具：用于读取已下载PDF论文的文本内容
-• 文件工具：用于查看和编辑论文内容（仅在撰写模式可用）
-• 资源工具：用于管理参考文献、图片和数据文件
+${toolsGuide}
 
 工具调用格式（JSON格式）：
 TOOL_CALL: {
@@ -295,37 +100,14 @@ TOOL_CALL: {"tool_name": "download_paper", "parameters": {"arxiv_id": "2401.xxxx
 TOOL_CALL: {"tool_name": "search_papers", ...}
 TOOL_CALL: {"tool_name": "download_paper", ...}  ← 禁止！不能连续调用多个工具
 
-其他说明：
-1. 文件编辑工具仅在撰写模式下可用
-2. 论文搜索、下载和阅读工具在所有模式下都可用
-` : '';
-  
-  // 完整对话历史
-  const conversationHistory = messages && messages.length > 0 ? `
-对话上下文：
-${messages.map((msg, index) => {
-  const role = msg.role === 'user' ? '👤 用户' : '🤖 助手';
-  return `${role}: ${msg.content}`;
-}).join('\n\n')}
-` : '';
-  
-  // 根据是否为工具后续请求，决定是否包含论文内容（避免重复）
-  const contentSection = isToolFollowUp 
-    ? `（论文内容已在首次请求中提供，如需查看可使用 view_file 工具）` 
-    : `当前论文内容：
-${content}`;
+${toolsNotes}`;
+}
 
+// 各写作模式的任务说明（放在 system 消息中，多轮对话保持不变以便服务商做前缀缓存）
+function generateModeInstructions(mode) {
   switch (mode) {
     case 'discuss':
-      prompt = `作为一名专业的学术论文写作助手，我将与您深入讨论以下学术内容。
-
-${toolsDescription}
-
-${conversationHistory}
-
-讨论主题：${input}
-
-${contentSection}
+      return `当前为讨论模式，作为一名专业的学术论文写作助手，我将与您深入讨论用户提供的学术内容。
 
 讨论要求：
 1. 提供专业的学术见解和深度分析
@@ -335,17 +117,8 @@ ${contentSection}
 5. 请勿直接修改论文内容，仅提供讨论和建议
 
 请以专业的学术讨论方式回应，确保回答具有深度、逻辑性和实用性。`;
-      break;
     case 'write':
-      prompt = `作为一名专业的学术论文写作助手，我将根据您的需求对以下论文内容进行撰写或修改。
-
-${toolsDescription}
-
-${conversationHistory}
-
-修改需求：${input}
-
-${contentSection}
+      return `当前为撰写模式，作为一名专业的学术论文写作助手，我将根据您的需求对论文内容进行撰写或修改。
 
 写作/修改要求：
 1. 严格按照学术写作规范进行操作
@@ -359,26 +132,129 @@ ${contentSection}
 - 提供完整修改后的论文内容
 - 如果有重大结构调整，请简要说明修改思路
 - 保持原有的格式标记（如LaTeX标记）
-- 确保引用格式正确（如需要）
-
-请直接提供优化后的完整论文内容：`;
-      break;
+- 确保引用格式正确（如需要）`;
     default:
-      prompt = `请处理以下学术论文内容：
+      return '请按照学术写作规范处理用户提供的学术论文内容，确保内容专业、逻辑清晰。';
+  }
+}
 
-${contentSection}
+// 历史中工具结果的默认格式（agentRunner 会传入与工具循环相同的 formatToolResult）
+function defaultFormatToolResult(toolCall, result) {
+  return {
+    tool: toolCall.tool_name,
+    success: result.success,
+    error: result.success ? undefined : result.error,
+    data: result.success ? result.data : undefined
+  };
+}
+
+// 将一条带工具调用的历史消息转换为模型消息
+// 原生 function calling：assistant(tool_calls) + 每个调用对应的 tool 消息；文本协议：工具结果附在助手回复之后
+// 只保留有结果的调用（取消或出错时前端可能只记录了调用），保证每个 tool_call 都有对应的 tool 消息
+function toolHistoryMessages(msg, msgIndex, nativeTools, formatResult) {
+  const results = msg.tool_results || [];
+  const calls = msg.tool_calls
+    .map((call, index) => ({ call, result: results[index], id: call.id || `history_${msgIndex}_${index}` }))
+    .filter(item => item.result);
+  if (calls.length === 0) {
+    return msg.content ? [{ role: 'assistant', content: msg.content }] : [];
+  }
+
+  if (!nativeTools) {
+    const resultTexts = calls.map(({ call, result }) => textToolResult(call.tool_name, formatResult(call, result)));
+    return [{ role: 'assistant', content: [msg.content, ...resultTexts].filter(Boolean).join('\n\n') }];
+  }
 
-用户需求：${input}
+  const formatted = calls.map(({ call, result }) => JSON.stringify(formatResult(call, result), null, 2));
+  return [
+    {
+      role: 'assistant',
+      content: msg.content || '',
+      tool_calls: calls.map(({ call, id }) => ({
+        id,
+        type: 'function',
+        function: { name: call.tool_name, arguments: JSON.stringify(call.parameters || {}) }
+      }))
+    },
+    ...calls.map(({ id }, index) => ({ role: 'tool', tool_call_id: id, content: formatted[index] }))
+  ];
+}
 
-请按照学术写作规范进行处理，确保内容专业、逻辑清晰。`;
+// 将前端对话历史转换为模型消息（不含本次用户输入），助手消息中的工具调用和结果一并转换
+function toHistoryMessages(messages, input, options = {}) {
+  const { nativeTools = false, formatToolResult = defaultFormatToolResult } = options;
+  const history = [];
+  (messages || []).forEach((msg, index) => {
+    if (msg.role === 'user') {
+      if (msg.content) history.push({ role: 'user', content: msg.content });
+    } else if (msg.role === 'agent' || msg.role === 'assistant') {
+      if (Array.isArray(msg.tool_calls) && msg.tool_calls.length > 0) {
+        history.push(...toolHistoryMessages(msg, index, nativeTools, formatToolResult));
+      } else if (msg.content) {
+        history.push({ role: 'assistant', content: msg.content });
+      }
+    }
+  });
+
+  // 前端发送的历史通常已包含本次用户消息，避免重复
+  const last = history[history.length - 1];
+  if (last && last.role === 'user' && last.content === input) {
+    history.pop();
   }
-  
-  return prompt;
+
+  return history;
+}
+
+/**
+ * 构建发送给模型的消息数组
+ * system（写作模式 + 工具说明）→ 历史 user/assistant 轮次 → 本次用户请求（含论文内容）
+ * 模型自身的系统提示词由 callModelApi 合并到首条 system 消息
+ * @param {object} [options]
+ * @param {boolean} [options.nativeTools] - 是否使用原生 function calling
+ * @param {string[]} [options.projectFiles] - 多文件项目的文件列表，提供时说明 content 对应的文件
+ * @param {string} [options.activeFile] - content 对应的文件（用户当前编辑的文件）
+ * @param {Function} [options.formatToolResult] - (toolCall, result) => object，历史中工具结果的格式
+ */
+function buildMessages(content, input, mode, availableTools = [], messages = [], options = {}) {
+  // 请求体缺少 input 时按空需求处理
+  input = typeof input === 'string' ? input : '';
+  const systemContent = [
+    generateModeInstructions(mode),
+    generateToolsDescription(availableTools, options.nativeTools)
+  ].filter(Boolean).join('\n\n');
+
+  // 检测是否是工具调用后的后续请求（避免重复发送论文内容）
+  const isToolFollowUp = input.startsWith('工具 "') || input.startsWith('工具执行结果');
+
+  // 根据是否为工具后续请求，决定是否包含论文内容（避免重复）
+  const contentTitle = options.projectFiles
+    ? `当前论文内容（用户正在编辑 ${options.activeFile}；项目文件：${options.projectFiles.join('、')}，其他文件可使用 view_file 查看）`
+    : '当前论文内容';
+  const contentSection = isToolFollowUp
+    ? `（论文内容已在首次请求中提供，如需查看可使用 view_file 工具）`
+    : `${contentTitle}：
+${content}`;
+
+  let userContent;
+  switch (mode) {
+    case 'discuss':
+      userContent = `讨论主题：${input}\n\n${contentSection}`;
+      break;
+    case 'write':
+      userContent = `修改需求：${input}\n\n${contentSection}\n\n请直接提供优化后的完整论文内容：`;
+      break;
+    default:
+      userContent = `${contentSection}\n\n用户需求：${input}`;
+  }
+
+  return [
+    { role: 'system', content: systemContent },
+    ...toHistoryMessages(messages, input, options),
+    { role: 'user', content: userContent }
+  ];
 }
 
 module.exports = {
-  callDeepSeekApi,
-  callDeepSeekApiStream,
-  callQwenApi,
-  generatePrompt
+  callModelApi,
+  buildMessages
 };
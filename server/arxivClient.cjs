@@ -0,0 +1,319 @@
+/**
+ * arXiv 客户端模块 - 构造检索式、分页检索 arXiv API 并解析返回的 Atom 结果
+ *
+ * 检索条件：
+ * - query: 检索词；已包含字段前缀（ti: au: abs: cat: all: …）或布尔运算符（AND / OR / ANDNOT）时原样使用，
+ *   否则每个词（或引号中的短语）都按 all: 检索并用 AND 连接
+ * - title / author / abstract: 分别按 ti: / au: / abs: 检索，规则同上
+ * - category: 分类，多个用逗号分隔时为 OR（如 cs.CL,cs.LG）
+ * - date_from / date_to: 提交日期范围（YYYY、YYYY-MM 或 YYYY-MM-DD）
+ * 各条件之间为 AND
+ *
+ * HTTP 请求通过 fetchText 注入，可以用录制的 Atom 响应离线测试（见 scripts/test-arxiv-client.cjs）：
+ *   createArxivClient({ fetchText: async () => fs.readFileSync('feed.xml', 'utf8'), minInterval: 0 })
+ */
+
+const axios = require('axios');
+const { parseStringPromise } = require('xml2js');
+const { ARXIV_CONFIG } = require('./config.cjs');
+const { abortPromise } = require('./abortUtils.cjs');
+
+const SORT_BY = ['relevance', 'lastUpdatedDate', 'submittedDate'];
+const SORT_ORDERS = ['ascending', 'descending'];
+
+// arXiv 支持的字段前缀
+const FIELD_PREFIX_PATTERN = /\b(?:ti|au|abs|co|jr|cat|rn|id|all|submittedDate|lastUpdatedDate):/;
+const BOOLEAN_PATTERN = /\b(?:AND|OR|ANDNOT)\b/;
+
+// ==================== 检索式 ====================
+
+// 拆分检索词，引号中的短语作为一个词；引号外的冒号会被当作字段前缀，按分隔符处理（"Recall: a method" → Recall、a、method）
+function splitTerms(value) {
+  return String(value || '').match(/"[^"]+"|[^\s":]+/g) || [];
+}
+
+// 每个词都按指定字段检索，用 AND 连接
+function fieldClause(field, value) {
+  return splitTerms(value).map(term => `${field}:${term}`).join(' AND ');
+}
+
+// 日期转为 arXiv 的 YYYYMMDDHHMM 格式；end 时取该年 / 月 / 日的最后一分钟
+function toArxivDate(value, end = false) {
+  const match = String(value).trim().match(/^(\d{4})(?:-?(\d{2}))?(?:-?(\d{2}))?$/);
+  if (!match || (match[2] && !(match[2] >= '01' && match[2] <= '12')) || (match[3] && !(match[3] >= '01' && match[3] <= '31'))) {
+    throw new Error(`无效的日期: ${value}，应为 YYYY、YYYY-MM 或 YYYY-MM-DD`);
+  }
+  const [, year, month, day] = match;
+  // 2023-02-31 这样不存在的日期经 Date 换算后会变成其他日期
+  if (day) {
+    const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+    if (date.getUTCMonth() !== Number(month) - 1 || date.getUTCDate() !== Number(day)) {
+      throw new Error(`无效的日期: ${value}`);
+    }
+  }
+  if (!end) {
+    return `${year}${month || '01'}${day || '01'}0000`;
+  }
+  const lastMonth = month || '12';
+  const lastDay = day || String(new Date(Date.UTC(Number(year), Number(lastMonth), 0)).getUTCDate()).padStart(2, '0');
+  return `${year}${lastMonth}${lastDay}2359`;
+}
+
+function formatArxivDate(date) {
+  return date.toISOString().slice(0, 10).replace(/-/g, '') + '2359';
+}
+
+/**
+ * 由检索条件构造 arXiv 检索式
+ * @param {{ query?, title?, author?, abstract?, category?, date_from?, date_to? }} params
+ * @returns {string} 例如 (ti:transformer AND ti:translation) AND au:vaswani AND cat:cs.CL
+ */
+function buildSearchQuery(params = {}) {
+  const { query, title, author, abstract, category, date_from, date_to } = params;
+  const clauses = [];
+
+  const rawQuery = String(query || '').trim();
+  if (rawQuery) {
+    clauses.push(FIELD_PREFIX_PATTERN.test(rawQuery) || BOOLEAN_PATTERN.test(rawQuery)
+      ? rawQuery
+      : fieldClause('all', rawQuery));
+  }
+  if (title) clauses.push(fieldClause('ti', title));
+  if (author) clauses.push(fieldClause('au', author));
+  if (abstract) clauses.push(fieldClause('abs', abstract));
+  if (category) {
+    const categories = (Array.isArray(category) ? category : String(category).split(','))
+      .map(item => item.trim()).filter(Boolean);
+    clauses.push(categories.map(item => `cat:${item}`).join(' OR '));
+  }
+  if (date_from || date_to) {
+    const from = date_from ? toArxivDate(date_from) : '199101010000';
+    const to = date_to ? toArxivDate(date_to, true) : formatArxivDate(new Date());
+    if (from > to) {
+      throw new Error(`日期范围无效: ${date_from} 晚于 ${date_to}`);
+    }
+    clauses.push(`submittedDate:[${from} TO ${to}]`);
+  }
+
+  const nonEmpty = clauses.filter(Boolean);
+  if (nonEmpty.length === 0) {
+    throw new Error('请提供检索词(query)、标题(title)、作者(author)、摘要(abstract)、分类(category)或日期范围之一');
+  }
+
+  // 多个条件时，由多个词组成的条件加括号（单个字段检索不加）
+  return nonEmpty
+    .map(clause => (nonEmpty.length > 1 && !/^[\w.]+:(?:\[[^\]]*\]|"[^"]*"|\S+)$/.test(clause) ? `(${clause})` : clause))
+    .join(' AND ');
+}
+
+/**
+ * 构造检索请求的 URL
+ * @param {{ start?, max_results?, sort_by?, sort_order? }} params - 其余字段见 buildSearchQuery
+ */
+function buildQueryUrl(params = {}, apiUrl = ARXIV_CONFIG.apiUrl) {
+  const { start = 0, max_results = 10, sort_by = 'relevance', sort_order = 'descending' } = params;
+
+  const startNumber = Number(start);
+  if (!Number.isInteger(startNumber) || startNumber < 0) {
+    throw new Error(`无效的起始位置: ${start}`);
+  }
+  const maxResults = Number(max_results);
+  if (!Number.isInteger(maxResults) || maxResults < 1 || maxResults > ARXIV_CONFIG.maxResults) {
+    throw new Error(`返回数量应为 1 到 ${ARXIV_CONFIG.maxResults} 之间的整数`);
+  }
+  if (!SORT_BY.includes(sort_by)) {
+    throw new Error(`无效的排序字段，可选 ${SORT_BY.join(' / ')}`);
+  }
+  if (!SORT_ORDERS.includes(sort_order)) {
+    throw new Error(`无效的排序方向，可选 ${SORT_ORDERS.join(' / ')}`);
+  }
+
+  const searchParams = new URLSearchParams({
+    search_query: buildSearchQuery(params),
+    start: String(startNumber),
+    max_results: String(maxResults),
+    sortBy: sort_by,
+    sortOrder: sort_order
+  });
+  return `${apiUrl}?${searchParams}`;
+}
+
+// ==================== 解析 Atom ====================
+
+function asArray(value) {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+// 带属性的元素解析为 { _: 文本, 属性... }
+function textOf(node) {
+  if (node === undefined || node === null) return '';
+  return String(typeof node === 'object' ? (node._ ?? '') : node).replace(/\s+/g, ' ').trim();
+}
+
+// http://arxiv.org/abs/2101.00001v2 → { arxiv_id: '2101.00001', version: 2 }
+function parseEntryId(id) {
+  const match = textOf(id).match(/arxiv\.org\/abs\/(.+?)(?:v(\d+))?$/);
+  return match ? { arxiv_id: match[1], version: match[2] ? Number(match[2]) : null } : { arxiv_id: '', version: null };
+}
+
+function parseEntry(entry) {
+  const { arxiv_id, version } = parseEntryId(entry.id);
+  const links = asArray(entry.link);
+  const pdfLink = links.find(link => link.title === 'pdf' || link.type === 'application/pdf');
+  const absLink = links.find(link => link.rel === 'alternate');
+
+  return {
+    arxiv_id,
+    version,
+    title: textOf(entry.title),
+    authors: asArray(entry.author).map(author => textOf(author.name)).filter(Boolean),
+    summary: textOf(entry.summary),
+    published: textOf(entry.published),
+    updated: textOf(entry.updated),
+    categories: asArray(entry.category).map(category => category.term).filter(Boolean),
+    primary_category: entry['arxiv:primary_category']?.term || '',
+    doi: textOf(entry['arxiv:doi']),
+    journal_ref: textOf(entry['arxiv:journal_ref']),
+    comment: textOf(entry['arxiv:comment']),
+    abs_url: absLink?.href || (arxiv_id ? `https://arxiv.org/abs/${arxiv_id}` : ''),
+    pdf_url: pdfLink?.href || ''
+  };
+}
+
+/**
+ * 解析 arXiv API 返回的 Atom 文档
+ * 检索式有误时 arXiv 返回只有一条错误条目的结果，此时抛出错误
+ * @returns {Promise<{ total: number, start: number, entries: object[] }>}
+ */
+async function parseFeed(xml) {
+  const result = await parseStringPromise(xml, { explicitArray: false, mergeAttrs: true });
+  const feed = result?.feed;
+  if (!feed) {
+    throw new Error('无法解析 arXiv 返回的结果');
+  }
+
+  const rawEntries = asArray(feed.entry);
+  const errorEntry = rawEntries.find(entry => textOf(entry.id).includes('/api/errors'));
+  if (errorEntry) {
+    throw new Error(`arXiv 检索式有误: ${textOf(errorEntry.summary)}`);
+  }
+
+  return {
+    total: parseInt(textOf(feed['opensearch:totalResults']), 10) || 0,
+    start: parseInt(textOf(feed['opensearch:startIndex']), 10) || 0,
+    entries: rawEntries.map(parseEntry)
+  };
+}
+
+// ==================== 客户端 ====================
+
+async function defaultFetchText(url, { signal, timeout = ARXIV_CONFIG.timeout } = {}) {
+  const response = await axios.get(url, { signal, timeout, responseType: 'text' });
+  return response.data;
+}
+
+// 等待 ms 毫秒，取消时提前结束
+function delay(ms, signal) {
+  const { promise, cleanup } = abortPromise(signal);
+  let timer;
+  return Promise.race([new Promise(resolve => { timer = setTimeout(resolve, ms); }), promise])
+    .finally(() => {
+      clearTimeout(timer);
+      cleanup();
+    });
+}
+
+/**
+ * 创建 arXiv 客户端
+ * 同一客户端的请求依次发送，两次请求之间至少间隔 minInterval 毫秒；
+ * timeout 从请求进入队列时开始计算，排队等待的时间也计入超时
+ * @param {object} [options]
+ * @param {(url: string, options: { signal, timeout }) => Promise<string>} [options.fetchText] - 发送 GET 请求并返回响应文本，timeout 为剩余的毫秒数
+ * @param {string} [options.apiUrl]
+ * @param {number} [options.minInterval]
+ * @param {number} [options.timeout]
+ * @param {() => number} [options.now] - 当前时间（毫秒）
+ * @param {(ms: number, signal) => Promise<void>} [options.sleep]
+ */
+function createArxivClient(options = {}) {
+  const {
+    fetchText = defaultFetchText,
+    apiUrl = ARXIV_CONFIG.apiUrl,
+    minInterval = ARXIV_CONFIG.minInterval,
+    timeout = ARXIV_CONFIG.timeout,
+    now = Date.now,
+    sleep = delay
+  } = options;
+
+  let queue = Promise.resolve();
+  let lastRequestAt = null;
+
+  // 按顺序发送请求，距离上一次请求不足 minInterval 时先等待
+  function request(url, signal) {
+    const deadline = now() + timeout;
+    const run = queue.then(async () => {
+      if (lastRequestAt !== null) {
+        const wait = lastRequestAt + minInterval - now();
+        if (wait > 0) await sleep(Math.min(wait, Math.max(deadline - now(), 0)), signal);
+      }
+      const remaining = deadline - now();
+      if (remaining <= 0) {
+        throw new Error(`arXiv 请求排队超过 ${timeout / 1000} 秒，请稍后重试`);
+      }
+      lastRequestAt = now();
+      return fetchText(url, { signal, timeout: remaining });
+    });
+    queue = run.catch(() => {});
+    return run;
+  }
+
+  /**
+   * 检索论文
+   * @param {object} params - 检索条件（见 buildSearchQuery）和 start、max_results、sort_by、sort_order
+   * @returns {Promise<{ search_query, start, total, count, next_start, papers }>} 没有下一页时 next_start 为 null
+   */
+  async function search(params = {}, { signal } = {}) {
+    const url = buildQueryUrl(params, apiUrl);
+    const searchQuery = new URL(url).searchParams.get('search_query');
+    console.log(`[arXiv] 检索: ${searchQuery} (start=${params.start || 0})`);
+
+    const feed = await parseFeed(await request(url, signal));
+    const start = Number(params.start || 0);
+    const nextStart = start + feed.entries.length;
+    return {
+      search_query: searchQuery,
+      start,
+      total: feed.total,
+      count: feed.entries.length,
+      next_start: feed.entries.length > 0 && nextStart < feed.total ? nextStart : null,
+      papers: feed.entries
+    };
+  }
+
+  /**
+   * 按 arXiv ID 获取论文信息（忽略版本号时返回最新版本）
+   */
+  async function getByIds(ids, { signal } = {}) {
+    const idList = asArray(ids).map(id => String(id).trim()).filter(Boolean);
+    if (idList.length === 0) return [];
+    const searchParams = new URLSearchParams({ id_list: idList.join(','), max_results: String(idList.length) });
+    const feed = await parseFeed(await request(`${apiUrl}?${searchParams}`, signal));
+    return feed.entries;
+  }
+
+  return { search, getByIds };
+}
+
+// 服务器共用的客户端（所有检索共享请求间隔）
+const arxivClient = createArxivClient();
+
+module.exports = {
+  SORT_BY,
+  SORT_ORDERS,
+  buildSearchQuery,
+  buildQueryUrl,
+  parseFeed,
+  createArxivClient,
+  arxivClient
+};
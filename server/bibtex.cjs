@@ -0,0 +1,477 @@
+/**
+ * BibTeX 模块 - 参考文献资源与 .bib 条目的相互转换
+ *
+ * 导入时映射到资源字段的有 title / author / year / journal（或 booktitle）/ doi / url / abstract / eprint，
+ * 条目类型保存在 entryType，其他字段原样保存在 extraFields 中，导出时一并写回。
+ */
+
+const { randomUUID } = require('crypto');
+
+// BibTeX 标准样式预定义的月份宏
+const MONTH_MACROS = {
+  jan: 'January', feb: 'February', mar: 'March', apr: 'April', may: 'May', jun: 'June',
+  jul: 'July', aug: 'August', sep: 'September', oct: 'October', nov: 'November', dec: 'December'
+};
+
+// 出处写在 booktitle 而不是 journal 中的条目类型
+const BOOKTITLE_TYPES = ['inproceedings', 'incollection', 'conference', 'inbook'];
+
+// 内容为网址、标识符的字段，导出时不转义特殊字符
+const VERBATIM_FIELDS = ['doi', 'url', 'eprint', 'file', 'pdf'];
+
+// 导入时引用键重复的处理方式：跳过 / 在键后追加 a、b、c… / 覆盖库中的条目
+const DUPLICATE_STRATEGIES = ['skip', 'rename', 'replace'];
+
+const ENTRY_HEADER_PATTERN = /@\s*([a-zA-Z]+)\s*([{(])/y;
+const IDENTIFIER_PATTERN = /[^\s,#={}()"]+/y;
+const CITATION_KEY_PATTERN = /[^\s,{}]+/y;
+// 用圆括号包围的条目中，引用键不能包含右括号
+const PAREN_CITATION_KEY_PATTERN = /[^\s,{}()]+/y;
+const ARXIV_ID_PATTERN = /^(\d{4}\.\d{4,5}|[a-z-]+(\.[A-Z]{2})?\/\d{7})(v\d+)?$/i;
+
+// 转义 BibTeX 字段中未转义的 & % #（标题中的 $...$ 公式保持不变），并保证花括号成对
+function escapeBibValue(value) {
+  let text = String(value).replace(/(^|[^\\])([&%#])/g, '$1\\$2');
+
+  let depth = 0;
+  for (const ch of text) {
+    if (ch === '{') depth++;
+    else if (ch === '}') depth--;
+    if (depth < 0) break;
+  }
+  if (depth !== 0) {
+    text = text.replace(/[{}]/g, '');
+  }
+  return text;
+}
+
+// 引用键只保留 BibTeX 允许的字符
+function sanitizeCitationKey(key) {
+  return String(key || '').replace(/[\s,{}()"#%'=\\~]/g, '');
+}
+
+// 单条参考文献 → BibTeX 条目
+function formatBibtexEntry(reference) {
+  const key = sanitizeCitationKey(reference.citationKey || reference.id);
+  const authors = Array.isArray(reference.authors)
+    ? reference.authors
+    : (reference.authors ? [reference.authors] : []);
+
+  const entryType = /^[a-z]+$/i.test(reference.entryType || '')
+    ? reference.entryType.toLowerCase()
+    : (reference.journal ? 'article' : 'misc');
+  const venueField = BOOKTITLE_TYPES.includes(entryType) ? 'booktitle' : 'journal';
+
+  const fields = [
+    ['title', reference.title ? `{${escapeBibValue(reference.title)}}` : null],
+    ['author', authors.length > 0 ? authors.map(escapeBibValue).join(' and ') : null],
+    [venueField, reference.journal ? escapeBibValue(reference.journal) : null],
+    ['year', reference.year ? String(reference.year) : null],
+    ['doi', reference.doi || null],
+    ['url', reference.url || null]
+  ];
+
+  if (reference.arxivId) {
+    fields.push(['eprint', reference.arxivId], ['archivePrefix', 'arXiv']);
+  }
+
+  // 导入时保留的其他字段（已输出的同名字段除外）
+  const written = new Set(fields.filter(([, value]) => value).map(([name]) => name.toLowerCase()));
+  for (const [name, value] of Object.entries(reference.extraFields || {})) {
+    if (written.has(name.toLowerCase()) || !/^[a-z][\w-]*$/i.test(name)) continue;
+    fields.push([name, VERBATIM_FIELDS.includes(name.toLowerCase()) ? String(value) : escapeBibValue(value)]);
+  }
+
+  const body = fields
+    .filter(([, value]) => value)
+    .map(([name, value]) => `  ${name} = {${value}}`)
+    .join(',\n');
+
+  return body ? `@${entryType}{${key},\n${body}\n}` : `@${entryType}{${key},\n}`;
+}
+
+// 参考文献列表 → .bib 文件内容
+function formatBibtex(references) {
+  return references
+    .filter(reference => reference && (reference.citationKey || reference.id))
+    .map(formatBibtexEntry)
+    .join('\n\n') + '\n';
+}
+
+// ==================== 解析 ====================
+
+function lineAt(source, pos) {
+  return source.slice(0, pos).split('\n').length;
+}
+
+function skipSpace(state) {
+  while (state.pos < state.source.length && /\s/.test(state.source[state.pos])) {
+    state.pos++;
+  }
+}
+
+function expect(state, ch, message) {
+  skipSpace(state);
+  if (state.source[state.pos] !== ch) {
+    throw new Error(message);
+  }
+  state.pos++;
+}
+
+function readPattern(state, pattern) {
+  pattern.lastIndex = state.pos;
+  const match = pattern.exec(state.source);
+  if (!match) return null;
+  state.pos += match[0].length;
+  return match[0];
+}
+
+// 读取成对的花括号（可嵌套），返回不含最外层花括号的文本
+function readBraced(state) {
+  const { source } = state;
+  let depth = 0;
+  for (let i = state.pos; i < source.length; i++) {
+    if (source[i] === '{') {
+      depth++;
+    } else if (source[i] === '}' && --depth === 0) {
+      const text = source.slice(state.pos + 1, i);
+      state.pos = i + 1;
+      return text;
+    }
+  }
+  throw new Error('花括号不配对');
+}
+
+// 读取双引号包围的值（花括号内的引号不结束字段）
+function readQuoted(state) {
+  const { source } = state;
+  let depth = 0;
+  for (let i = state.pos + 1; i < source.length; i++) {
+    if (source[i] === '{') depth++;
+    else if (source[i] === '}') depth--;
+    else if (source[i] === '"' && depth === 0) {
+      const text = source.slice(state.pos + 1, i);
+      state.pos = i + 1;
+      return text;
+    }
+  }
+  throw new Error('双引号不配对');
+}
+
+// 字段值：{...}、"..."、数字或 @string 宏，可以用 # 连接
+function readValue(state) {
+  const parts = [];
+  for (;;) {
+    skipSpace(state);
+    const ch = state.source[state.pos];
+    if (ch === '{') {
+      parts.push(readBraced(state));
+    } else if (ch === '"') {
+      parts.push(readQuoted(state));
+    } else {
+      const word = readPattern(state, IDENTIFIER_PATTERN);
+      if (!word) {
+        throw new Error('缺少字段值');
+      }
+      // 未定义的宏按原文保留
+      parts.push(/^\d+$/.test(word) ? word : (state.macros[word.toLowerCase()] ?? word));
+    }
+    skipSpace(state);
+    if (state.source[state.pos] !== '#') {
+      return parts.join('');
+    }
+    state.pos++;
+  }
+}
+
+// 读取一个条目的内容（@type 和左括号之后），@string / @preamble 返回 null
+function readEntry(state, type, close) {
+  if (type === 'string') {
+    skipSpace(state);
+    const name = readPattern(state, IDENTIFIER_PATTERN);
+    if (!name) throw new Error('@string 缺少宏名');
+    expect(state, '=', `@string ${name} 缺少 =`);
+    state.macros[name.toLowerCase()] = readValue(state);
+    expect(state, close, `@string ${name} 未正确结束`);
+    return null;
+  }
+  if (type === 'preamble') {
+    readValue(state);
+    expect(state, close, '@preamble 未正确结束');
+    return null;
+  }
+
+  skipSpace(state);
+  const key = readPattern(state, close === ')' ? PAREN_CITATION_KEY_PATTERN : CITATION_KEY_PATTERN);
+  if (!key) throw new Error(`@${type} 条目缺少引用键`);
+
+  const fields = {};
+  skipSpace(state);
+  if (state.source[state.pos] === close) {
+    state.pos++;
+    return { type, key, fields };
+  }
+  expect(state, ',', `条目 ${key} 的引用键后缺少逗号`);
+
+  for (;;) {
+    skipSpace(state);
+    if (state.source[state.pos] === close) {
+      state.pos++;
+      break;
+    }
+    const name = readPattern(state, IDENTIFIER_PATTERN);
+    if (!name) throw new Error(`条目 ${key} 的字段格式无效`);
+    expect(state, '=', `条目 ${key} 的字段 ${name} 缺少 =`);
+    const value = readValue(state).replace(/\s+/g, ' ').trim();
+    // 同名字段只保留第一个（与 BibTeX 一致）
+    if (fields[name.toLowerCase()] === undefined) {
+      fields[name.toLowerCase()] = value;
+    }
+
+    skipSpace(state);
+    if (state.source[state.pos] === ',') {
+      state.pos++;
+    } else if (state.source[state.pos] !== close) {
+      throw new Error(`条目 ${key} 的字段 ${name} 后缺少逗号`);
+    }
+  }
+  return { type, key, fields };
+}
+
+/**
+ * 解析 .bib 文件内容
+ * 支持 {...} / "..." 字段值、# 连接、@string 宏和月份宏，跳过 @comment、@preamble 和条目之外的文本
+ * 返回 { entries: [{ type, key, fields }], errors: [{ line, message }] }，字段名为小写；
+ * 单个条目格式错误时记录错误并从下一个 @ 继续解析
+ */
+function parseBibtex(content) {
+  const state = { source: String(content || ''), pos: 0, macros: { ...MONTH_MACROS } };
+  const entries = [];
+  const errors = [];
+
+  for (;;) {
+    const start = state.source.indexOf('@', state.pos);
+    if (start === -1) break;
+
+    ENTRY_HEADER_PATTERN.lastIndex = start;
+    const header = ENTRY_HEADER_PATTERN.exec(state.source);
+    if (!header) {
+      state.pos = start + 1;
+      continue;
+    }
+    const type = header[1].toLowerCase();
+    const close = header[2] === '{' ? '}' : ')';
+    state.pos = start + header[0].length;
+
+    if (type === 'comment') {
+      if (header[2] === '{') {
+        state.pos = start + header[0].length - 1;
+        try {
+          readBraced(state);
+        } catch (error) {
+          state.pos = start + 1;
+        }
+      }
+      continue;
+    }
+
+    try {
+      const entry = readEntry(state, type, close);
+      if (entry) entries.push(entry);
+    } catch (error) {
+      errors.push({ line: lineAt(state.source, start), message: error.message });
+      state.pos = start + 1;
+    }
+  }
+
+  return { entries, errors };
+}
+
+// ==================== 条目 ↔ 参考文献资源 ====================
+
+// 去掉保护大小写用的花括号并合并空白（\{ \} 保留）
+function plainText(value) {
+  return value.replace(/\\[{}]|[{}]/g, match => (match.length === 2 ? match : '')).replace(/\s+/g, ' ').trim();
+}
+
+// 按花括号外的 and 拆分作者
+function splitNames(value) {
+  const names = [];
+  const lower = value.toLowerCase();
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value[i];
+    if (ch === '{') depth++;
+    else if (ch === '}') depth--;
+    else if (depth === 0 && /\s/.test(ch) && lower.startsWith('and', i + 1) && /\s/.test(value[i + 4] || '')) {
+      names.push(value.slice(start, i));
+      start = i + 4;
+      i += 3;
+    }
+  }
+  names.push(value.slice(start));
+  return names.map(name => name.trim()).filter(Boolean);
+}
+
+// "Last, First" → "First Last"；姓中有空格或带 Jr. 等后缀的写法保持原样，导出时 BibTeX 仍能正确识别
+function displayName(name) {
+  const parts = name.split(',').map(part => part.trim());
+  if (parts.length === 2 && parts[1] && !/\s/.test(parts[0])) {
+    return `${parts[1]} ${parts[0]}`;
+  }
+  return name;
+}
+
+// "First Last" / "Last, First" → { family, given }；{机构名} 整体作为 family
+function splitName(name) {
+  const text = String(name).trim();
+  if (/^\{.*\}$/.test(text)) {
+    return { family: text.slice(1, -1) };
+  }
+  if (text.includes(',')) {
+    const [family, ...rest] = text.split(',').map(part => part.trim());
+    return { family, given: rest.filter(Boolean).reverse().join(' ') || undefined };
+  }
+  const words = text.split(/\s+/);
+  if (words.length === 1) return { family: text };
+  // 姓前的小写前缀（van、de 等）归入姓
+  let start = words.length - 1;
+  while (start > 1 && /^[a-z]/.test(words[start - 1])) start--;
+  return { family: words.slice(start).join(' '), given: words.slice(0, start).join(' ') };
+}
+
+/**
+ * BibTeX 条目 → 参考文献资源（不含 id）
+ */
+function entryToReference(entry) {
+  const { fields } = entry;
+  const reference = { citationKey: entry.key, entryType: entry.type, title: '', authors: [] };
+  const extraFields = {};
+
+  if (fields.title) reference.title = plainText(fields.title);
+  if (fields.author) reference.authors = splitNames(fields.author).map(displayName);
+  if (/^\d{4}$/.test(fields.year || '')) reference.year = Number(fields.year);
+  const venueField = BOOKTITLE_TYPES.includes(entry.type) && fields.booktitle ? 'booktitle' : 'journal';
+  if (fields[venueField]) reference.journal = plainText(fields[venueField]);
+  if (fields.doi) reference.doi = fields.doi.replace(/^https?:\/\/(dx\.)?doi\.org\//i, '');
+  if (fields.url) reference.url = fields.url;
+  if (fields.abstract) reference.abstract = plainText(fields.abstract);
+
+  const mapped = new Set(['title', 'author', 'doi', 'url', 'abstract', venueField]);
+  if (reference.year !== undefined) mapped.add('year');
+
+  const archive = (fields.archiveprefix || fields.eprinttype || '').toLowerCase();
+  if (fields.eprint && (archive === 'arxiv' || (!archive && ARXIV_ID_PATTERN.test(fields.eprint)))) {
+    reference.arxivId = fields.eprint.replace(/^arxiv:/i, '');
+    ['eprint', 'archiveprefix', 'eprinttype'].forEach(name => mapped.add(name));
+  }
+
+  for (const [name, value] of Object.entries(fields)) {
+    if (!mapped.has(name)) extraFields[name] = value;
+  }
+  if (Object.keys(extraFields).length > 0) {
+    reference.extraFields = extraFields;
+  }
+  return reference;
+}
+
+// 重命名时追加的后缀：a, b, …, z, aa, ab, …
+function keySuffix(n) {
+  let suffix = '';
+  for (let i = n + 1; i > 0; i = Math.floor((i - 1) / 26)) {
+    suffix = String.fromCharCode(97 + ((i - 1) % 26)) + suffix;
+  }
+  return suffix;
+}
+
+// 与已用的键（小写）重复时在后面追加 a、b、c…
+function uniqueCitationKey(key, usedKeys) {
+  if (!usedKeys.has(key.toLowerCase())) return key;
+  let n = 0;
+  while (usedKeys.has(`${key}${keySuffix(n)}`.toLowerCase())) n++;
+  return `${key}${keySuffix(n)}`;
+}
+
+/**
+ * 把 .bib 内容导入参考文献库
+ * 引用键（不区分大小写）与库中或同一文件中前面的条目重复时按 onDuplicate 处理：
+ * skip 跳过、rename 在键后追加 a/b/c…、replace 覆盖已有条目（保留其 id）
+ * @returns {{ references: Array, imported: string[], skipped: string[], renamed: Array<{from: string, to: string}>, replaced: string[], errors: Array }}
+ */
+function importBibtex(references, content, onDuplicate = 'skip') {
+  if (!DUPLICATE_STRATEGIES.includes(onDuplicate)) {
+    throw new Error(`无效的重复处理方式: ${onDuplicate}`);
+  }
+
+  const { entries, errors } = parseBibtex(content);
+  const result = [...references];
+  const keyIndex = new Map();
+  result.forEach((reference, index) => {
+    const key = reference.citationKey || reference.id;
+    if (key) keyIndex.set(String(key).toLowerCase(), index);
+  });
+
+  const report = { imported: [], skipped: [], renamed: [], replaced: [] };
+  for (const entry of entries) {
+    const reference = entryToReference(entry);
+    const existing = keyIndex.get(entry.key.toLowerCase());
+
+    if (existing === undefined) {
+      keyIndex.set(entry.key.toLowerCase(), result.length);
+      result.push({ id: randomUUID(), ...reference });
+      report.imported.push(entry.key);
+    } else if (onDuplicate === 'skip') {
+      report.skipped.push(entry.key);
+    } else if (onDuplicate === 'replace') {
+      result[existing] = { id: result[existing].id, ...reference };
+      report.replaced.push(entry.key);
+    } else {
+      const key = uniqueCitationKey(entry.key, keyIndex);
+      keyIndex.set(key.toLowerCase(), result.length);
+      result.push({ id: randomUUID(), ...reference, citationKey: key });
+      report.renamed.push({ from: entry.key, to: key });
+    }
+  }
+
+  return { references: result, ...report, errors };
+}
+
+/**
+ * 按文中引用的键筛选参考文献（按引用顺序）
+ * @returns {{ references: Array, missing: string[] }} missing 为文中引用但库中没有的键
+ */
+function selectCitedReferences(references, keys) {
+  const byKey = new Map();
+  for (const reference of references) {
+    if (reference.citationKey) byKey.set(reference.citationKey, reference);
+    if (reference.id && !byKey.has(reference.id)) byKey.set(reference.id, reference);
+  }
+
+  const selected = [];
+  const missing = [];
+  for (const key of keys) {
+    const reference = byKey.get(key);
+    if (!reference) {
+      missing.push(key);
+    } else if (!selected.includes(reference)) {
+      selected.push(reference);
+    }
+  }
+  return { references: selected, missing };
+}
+
+module.exports = {
+  DUPLICATE_STRATEGIES,
+  formatBibtex,
+  formatBibtexEntry,
+  escapeBibValue,
+  sanitizeCitationKey,
+  parseBibtex,
+  entryToReference,
+  displayName,
+  splitName,
+  uniqueCitationKey,
+  importBibtex,
+  selectCitedReferences
+};
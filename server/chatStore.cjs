@@ -0,0 +1,242 @@
+/**
+ * 对话会话模块 - 每个项目可以有多个对话，保存在项目目录的 chats 下
+ *
+ * 每个会话一个文件 chats/<会话 ID>.json：
+ * { id, title, title_auto, forked_from, created_at, updated_at, messages }
+ * 未手动命名的会话以第一条用户消息作为标题。
+ * 旧版保存在 chat.json 中的单个对话记录在首次读取会话列表时迁移为一个会话。
+ */
+
+const fs = require('fs-extra');
+const { join } = require('path');
+const { ProjectError } = require('./projectStore.cjs');
+const { getProjectPath, loadChat, saveChat } = require('./projectRegistry.cjs');
+
+const DEFAULT_TITLE = '新对话';
+const MAX_TITLE_LENGTH = 100;
+// 自动标题取第一条用户消息的前若干个字符
+const AUTO_TITLE_LENGTH = 30;
+// 搜索结果中每个会话最多显示的匹配消息数和摘要长度
+const MAX_MATCHES_PER_SESSION = 3;
+const SNIPPET_RADIUS = 30;
+
+function chatsDir(projectId) {
+  return join(getProjectPath(projectId), 'chats');
+}
+
+function isValidSessionId(id) {
+  return typeof id === 'string' && /^chat_[a-z0-9_]+$/.test(id);
+}
+
+function sessionPath(projectId, sessionId) {
+  if (!isValidSessionId(sessionId)) {
+    throw new ProjectError(`对话不存在: ${sessionId}`, 'NOT_FOUND');
+  }
+  return join(chatsDir(projectId), `${sessionId}.json`);
+}
+
+function generateSessionId() {
+  return `chat_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+}
+
+function validateMessages(messages) {
+  if (!Array.isArray(messages)) {
+    throw new ProjectError('messages 必须是数组', 'INVALID');
+  }
+  if (messages.some(msg => !msg || typeof msg !== 'object' || typeof msg.content !== 'string' || !['user', 'agent'].includes(msg.role))) {
+    throw new ProjectError('消息格式无效：每条消息需要 role（user 或 agent）和 content', 'INVALID');
+  }
+  return messages;
+}
+
+function validateTitle(title) {
+  const trimmed = typeof title === 'string' ? title.trim() : '';
+  if (!trimmed) {
+    throw new ProjectError('对话标题不能为空', 'INVALID');
+  }
+  return trimmed.slice(0, MAX_TITLE_LENGTH);
+}
+
+// 以第一条用户消息作为标题
+function autoTitle(messages) {
+  const first = messages.find(msg => msg.role === 'user' && msg.content.trim());
+  if (!first) return DEFAULT_TITLE;
+  const text = first.content.replace(/\s+/g, ' ').trim();
+  return text.length > AUTO_TITLE_LENGTH ? `${text.slice(0, AUTO_TITLE_LENGTH)}…` : text;
+}
+
+// 会话摘要（列表中不包含消息内容）
+function summarize(session) {
+  const { messages, ...rest } = session;
+  return { ...rest, message_count: messages.length };
+}
+
+function readSession(projectId, sessionId) {
+  const path = sessionPath(projectId, sessionId);
+  if (!fs.existsSync(path)) {
+    throw new ProjectError(`对话不存在: ${sessionId}`, 'NOT_FOUND');
+  }
+  return fs.readJsonSync(path);
+}
+
+function writeSession(projectId, session) {
+  fs.ensureDirSync(chatsDir(projectId));
+  fs.writeJsonSync(sessionPath(projectId, session.id), session);
+  return session;
+}
+
+// 旧版 chat.json 中的对话记录迁移为一个会话（只执行一次）
+function migrateLegacyChat(projectId) {
+  const dir = chatsDir(projectId);
+  if (fs.existsSync(dir)) return;
+
+  fs.ensureDirSync(dir);
+  const { messages } = loadChat(projectId);
+  if (messages.length > 0) {
+    createSession(projectId, { messages });
+    saveChat(projectId, { messages: [] });
+    console.log(`[对话] 已将项目 ${projectId} 的对话记录迁移为会话`);
+  }
+}
+
+function readAllSessions(projectId) {
+  migrateLegacyChat(projectId);
+  const sessions = [];
+  for (const name of fs.readdirSync(chatsDir(projectId))) {
+    if (!name.endsWith('.json')) continue;
+    try {
+      sessions.push(fs.readJsonSync(join(chatsDir(projectId), name)));
+    } catch (error) {
+      console.error(`[对话] 读取会话失败 (${name}):`, error);
+    }
+  }
+  return sessions.sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+}
+
+// 会话列表（最近更新的在前）
+function listSessions(projectId) {
+  return readAllSessions(projectId).map(summarize);
+}
+
+function getSession(projectId, sessionId) {
+  return readSession(projectId, sessionId);
+}
+
+/**
+ * 创建会话
+ * @param {string} projectId
+ * @param {object} options - { title, messages, forked_from }，指定标题时不再自动命名（导入的聊天记录使用其 sessionName）
+ */
+function createSession(projectId, { title, messages = [], forked_from = null } = {}) {
+  validateMessages(messages);
+  const now = new Date().toISOString();
+  const hasTitle = typeof title === 'string' && title.trim().length > 0;
+  const session = {
+    id: generateSessionId(),
+    title: hasTitle ? validateTitle(title) : autoTitle(messages),
+    title_auto: !hasTitle,
+    forked_from,
+    created_at: now,
+    updated_at: now,
+    messages
+  };
+  writeSession(projectId, session);
+  console.log(`[对话] 已创建会话: ${session.title} (${session.id})`);
+  return summarize(session);
+}
+
+/**
+ * 更新会话（保存消息、重命名）；消息没有变化时不更新修改时间
+ */
+function updateSession(projectId, sessionId, updates = {}) {
+  const session = readSession(projectId, sessionId);
+  let changed = false;
+
+  if (updates.messages !== undefined) {
+    validateMessages(updates.messages);
+    if (JSON.stringify(updates.messages) !== JSON.stringify(session.messages)) {
+      session.messages = updates.messages;
+      changed = true;
+    }
+  }
+  if (updates.title !== undefined) {
+    session.title = validateTitle(updates.title);
+    session.title_auto = false;
+    changed = true;
+  }
+  if (session.title_auto) {
+    session.title = autoTitle(session.messages);
+  }
+
+  if (changed) {
+    session.updated_at = new Date().toISOString();
+    writeSession(projectId, session);
+  }
+  return summarize(session);
+}
+
+function deleteSession(projectId, sessionId) {
+  const session = readSession(projectId, sessionId);
+  fs.removeSync(sessionPath(projectId, sessionId));
+  console.log(`[对话] 已删除会话: ${session.title} (${sessionId})`);
+}
+
+/**
+ * 从某条消息分叉：新会话包含该消息及之前的全部消息
+ */
+function forkSession(projectId, sessionId, messageIndex) {
+  const session = readSession(projectId, sessionId);
+  const index = Number(messageIndex);
+  if (!Number.isInteger(index) || index < 0 || index >= session.messages.length) {
+    throw new ProjectError(`消息序号超出范围: ${messageIndex}`, 'INVALID');
+  }
+
+  return createSession(projectId, {
+    title: `${session.title}（分叉）`,
+    messages: session.messages.slice(0, index + 1),
+    forked_from: { session_id: sessionId, message_index: index }
+  });
+}
+
+function snippet(text, position, length) {
+  const start = Math.max(0, position - SNIPPET_RADIUS);
+  const end = Math.min(text.length, position + length + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ')}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * 在全部会话的标题和消息中搜索（不区分大小写）
+ * @returns {Array} [{ ...会话摘要, matches: [{ index, role, snippet }] }]
+ */
+function searchSessions(projectId, query) {
+  const keyword = typeof query === 'string' ? query.trim().toLowerCase() : '';
+  if (!keyword) {
+    throw new ProjectError('搜索关键词不能为空', 'INVALID');
+  }
+
+  const results = [];
+  for (const session of readAllSessions(projectId)) {
+    const matches = [];
+    session.messages.forEach((msg, index) => {
+      if (matches.length >= MAX_MATCHES_PER_SESSION) return;
+      const position = msg.content.toLowerCase().indexOf(keyword);
+      if (position !== -1) {
+        matches.push({ index, role: msg.role, snippet: snippet(msg.content, position, keyword.length) });
+      }
+    });
+    if (matches.length > 0 || session.title.toLowerCase().includes(keyword)) {
+      results.push({ ...summarize(session), matches });
+    }
+  }
+  return results;
+}
+
+module.exports = {
+  listSessions,
+  getSession,
+  createSession,
+  updateSession,
+  deleteSession,
+  forkSession,
+  searchSessions
+};
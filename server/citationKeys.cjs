@@ -0,0 +1,251 @@
+/**
+ * 引用键模块 - 按模式生成引用键、检查正文引用与参考文献库是否一致、批量重命名引用键
+ *
+ * 引用键模式由以下占位符和其他原样保留的字符组成（区分大小写）：
+ * - author / Author: 第一作者的姓（小写 / 首字母大写）
+ * - authors: 前两位作者的姓，三位及以上时为第一作者的姓 + etal
+ * - YEAR / YY: 四位 / 两位年份
+ * - firstword / Firstword: 标题中第一个实词（小写 / 首字母大写）
+ * - title: 标题中前三个实词
+ * 例如 authorYEARfirstword → smith2020deep，Author_YEAR → Smith_2020
+ */
+
+const { splitName, sanitizeCitationKey, uniqueCitationKey } = require('./bibtex.cjs');
+const { locateCitationKeys } = require('./tools/latexLinter.cjs');
+
+// 占位符按长度从长到短匹配（authors 优先于 author）
+const KEY_TOKENS = ['firstword', 'Firstword', 'authors', 'author', 'Author', 'title', 'YEAR', 'YY'];
+
+// 生成引用键时跳过的标题虚词
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'on', 'of', 'in', 'for', 'to', 'and', 'or', 'with', 'from', 'by', 'at', 'as',
+  'is', 'are', 'towards', 'toward', 'via', 'into', 'using'
+]);
+
+// 当前没有引用键，或引用键是 id（UUID）时视为缺少引用键
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// ==================== 生成 ====================
+
+// 去掉变音符号和引用键中不能使用的字符（保留中日韩字符）
+function keyPart(value) {
+  return String(value || '').normalize('NFKD').replace(/\p{M}/gu, '').replace(/ß/g, 'ss')
+    .replace(/[^A-Za-z0-9㐀-鿿]/g, '');
+}
+
+function capitalize(value) {
+  return value ? value[0].toUpperCase() + value.slice(1) : value;
+}
+
+function titleWords(title) {
+  return String(title || '').split(/[\s\-–—:/]+/)
+    .map(word => keyPart(word).toLowerCase())
+    .filter(word => word && !STOP_WORDS.has(word));
+}
+
+function authorFamilies(reference) {
+  const authors = Array.isArray(reference.authors) ? reference.authors : (reference.authors ? [reference.authors] : []);
+  return authors.filter(Boolean).map(author => keyPart(splitName(author).family).toLowerCase()).filter(Boolean);
+}
+
+// 把模式拆分为占位符和原样保留的文本
+function parseKeyPattern(pattern) {
+  const parts = [];
+  let i = 0;
+  while (i < pattern.length) {
+    const token = KEY_TOKENS.find(name => pattern.startsWith(name, i));
+    if (token) {
+      parts.push({ token });
+      i += token.length;
+    } else {
+      const last = parts[parts.length - 1];
+      if (last && last.text !== undefined) last.text += pattern[i];
+      else parts.push({ text: pattern[i] });
+      i++;
+    }
+  }
+  return parts;
+}
+
+// 检查引用键模式：至少包含一个占位符，其余字符不能是引用键中不允许的字符
+function validateKeyPattern(pattern) {
+  if (typeof pattern !== 'string' || !pattern.trim()) {
+    throw new Error('引用键模式不能为空');
+  }
+  const parts = parseKeyPattern(pattern);
+  if (!parts.some(part => part.token)) {
+    throw new Error(`引用键模式至少需要一个占位符：${KEY_TOKENS.join(' / ')}`);
+  }
+  const literal = parts.filter(part => part.text !== undefined).map(part => part.text).join('');
+  if (sanitizeCitationKey(literal) !== literal) {
+    throw new Error(`引用键模式中包含不能用于引用键的字符: ${literal}`);
+  }
+}
+
+/**
+ * 按模式生成引用键（不检查重复）
+ * 缺少作者时用 anon，缺少年份时用 nd
+ */
+function formatCitationKey(reference, pattern) {
+  const families = authorFamilies(reference);
+  const words = titleWords(reference.title);
+  const year = /^\d{4}$/.test(String(reference.year || '')) ? String(reference.year) : '';
+
+  const values = {
+    author: families[0] || 'anon',
+    Author: capitalize(families[0] || 'anon'),
+    authors: families.length > 2 ? `${families[0]}etal` : (families.join('') || 'anon'),
+    YEAR: year || 'nd',
+    YY: year ? year.slice(2) : 'nd',
+    firstword: words[0] || '',
+    Firstword: capitalize(words[0] || ''),
+    title: words.slice(0, 3).map(capitalize).join('')
+  };
+  const key = parseKeyPattern(pattern).map(part => (part.token ? values[part.token] : part.text)).join('');
+  return sanitizeCitationKey(key) || 'ref';
+}
+
+/**
+ * 生成不与 usedKeys 重复的引用键（重复时追加 a、b…）
+ * @param {Set<string>} usedKeys - 已使用的引用键（小写）
+ */
+function generateCitationKey(reference, pattern, usedKeys = new Set()) {
+  return uniqueCitationKey(formatCitationKey(reference, pattern), usedKeys);
+}
+
+function hasCitationKey(reference) {
+  return Boolean(reference.citationKey) && !UUID_PATTERN.test(reference.citationKey);
+}
+
+/**
+ * 条目缺少引用键时按模式生成并写入 reference，返回是否生成了新键
+ */
+function ensureCitationKey(references, reference, pattern) {
+  if (hasCitationKey(reference)) return false;
+  const usedKeys = new Set(references
+    .filter(item => item !== reference && item.citationKey)
+    .map(item => item.citationKey.toLowerCase()));
+  reference.citationKey = generateCitationKey(reference, pattern, usedKeys);
+  return true;
+}
+
+// ==================== 一致性检查 ====================
+
+/**
+ * 检查正文中的引用与参考文献库是否一致
+ * @returns {{ missing: Array<{ key, locations: Array<{ file, line }> }>, uncited: Array<{ id, citationKey, title }>, without_key: Array<{ id, title }>, cited_count: number }}
+ *   missing: 正文中引用但库中没有的键；uncited: 库中从未被引用的条目；without_key: 缺少引用键（或引用键为 id）的条目
+ */
+function checkCitations(references, projectFiles) {
+  const keys = new Set();
+  for (const reference of references) {
+    if (reference.citationKey) keys.add(reference.citationKey);
+    if (reference.id) keys.add(reference.id);
+  }
+
+  const missing = new Map();
+  const cited = new Set();
+  for (const { key, file, line } of locateCitationKeys(projectFiles)) {
+    cited.add(key);
+    if (keys.has(key)) continue;
+    if (!missing.has(key)) missing.set(key, []);
+    missing.get(key).push({ file, line });
+  }
+
+  return {
+    missing: [...missing.entries()].map(([key, locations]) => ({ key, locations })),
+    uncited: references
+      .filter(reference => !cited.has(reference.citationKey) && !cited.has(reference.id))
+      .map(reference => ({ id: reference.id, citationKey: reference.citationKey, title: reference.title })),
+    without_key: references
+      .filter(reference => !hasCitationKey(reference))
+      .map(reference => ({ id: reference.id, title: reference.title })),
+    cited_count: cited.size
+  };
+}
+
+// ==================== 批量重命名 ====================
+
+/**
+ * 按模式为条目生成新引用键（预览，不修改）
+ * ids 为空时处理全部条目；onlyMissing 时只处理缺少引用键的条目
+ * 新键避开其他条目的键和本次已分配的键
+ * @returns {Array<{ id, title, from, to }>} 只包含引用键会变化的条目
+ */
+function planKeyRenames(references, { pattern, ids, onlyMissing = false }) {
+  validateKeyPattern(pattern);
+  const selected = references.filter(reference =>
+    (!Array.isArray(ids) || ids.length === 0 || ids.includes(reference.id))
+    && (!onlyMissing || !hasCitationKey(reference)));
+  const selectedIds = new Set(selected.map(reference => reference.id));
+
+  const usedKeys = new Set(references
+    .filter(reference => !selectedIds.has(reference.id) && reference.citationKey)
+    .map(reference => reference.citationKey.toLowerCase()));
+
+  const renames = [];
+  for (const reference of selected) {
+    const key = generateCitationKey(reference, pattern, usedKeys);
+    usedKeys.add(key.toLowerCase());
+    if (key !== reference.citationKey) {
+      renames.push({ id: reference.id, title: reference.title, from: reference.citationKey || reference.id, to: key });
+    }
+  }
+  return renames;
+}
+
+/**
+ * 批量重命名引用键
+ * renames: [{ id, key }]；新键不能与其他条目（包括本次重命名后的条目）的键重复
+ * @returns {{ references, keyMap }} keyMap 为 { 原引用键: 新引用键 }，用于改写正文
+ */
+function applyKeyRenames(references, renames) {
+  if (!Array.isArray(renames) || renames.length === 0) {
+    throw new Error('没有要重命名的引用键');
+  }
+
+  const nextKeys = new Map(references.map(reference => [reference.id, reference.citationKey || reference.id]));
+  for (const { id, key } of renames) {
+    if (!nextKeys.has(id)) {
+      throw new Error(`未找到参考文献: ${id}`);
+    }
+    const sanitized = sanitizeCitationKey(key);
+    if (!sanitized || sanitized !== key) {
+      throw new Error(`无效的引用键: ${key}`);
+    }
+    nextKeys.set(id, key);
+  }
+
+  const seen = new Map();
+  for (const [id, key] of nextKeys) {
+    const lower = key.toLowerCase();
+    if (seen.has(lower)) {
+      throw new Error(`引用键重复: ${key}`);
+    }
+    seen.set(lower, id);
+  }
+
+  const keyMap = {};
+  const updated = references.map(reference => {
+    const key = nextKeys.get(reference.id);
+    const previous = reference.citationKey || reference.id;
+    if (key === previous) return reference;
+    keyMap[previous] = key;
+    // 正文中用 id 引用的条目也改写为新键
+    if (reference.citationKey && reference.id) keyMap[reference.id] = key;
+    return { ...reference, citationKey: key };
+  });
+
+  return { references: updated, keyMap };
+}
+
+module.exports = {
+  KEY_TOKENS,
+  validateKeyPattern,
+  formatCitationKey,
+  generateCitationKey,
+  ensureCitationKey,
+  checkCitations,
+  planKeyRenames,
+  applyKeyRenames
+};
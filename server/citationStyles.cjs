@@ -0,0 +1,524 @@
+/**
+ * 引用格式模块 - 按 GB/T 7714-2015、APA 7、IEEE、MLA 9、Chicago（作者-年份）生成文中引用和参考文献列表
+ *
+ * 输出标记 markup：text 纯文本 / markdown / latex / html，只影响斜体、引号、链接和特殊字符转义。
+ * 顺序编码制（GB/T 7714、IEEE）按给定顺序编号，著者-出版年制（APA、MLA、Chicago）按作者、年份排序。
+ */
+
+const { splitName, selectCitedReferences } = require('./bibtex.cjs');
+
+const CITATION_STYLES = {
+  'gb-t-7714': { label: 'GB/T 7714-2015', numeric: true },
+  apa: { label: 'APA 7', numeric: false },
+  ieee: { label: 'IEEE', numeric: true },
+  mla: { label: 'MLA 9', numeric: false },
+  chicago: { label: 'Chicago（作者-年份）', numeric: false }
+};
+
+const MARKUPS = ['text', 'markdown', 'latex', 'html'];
+
+const CJK_PATTERN = /[㐀-鿿]/;
+
+// GB/T 7714 文献类型标识
+const GB_TYPE_CODES = {
+  article: 'J', inproceedings: 'C', conference: 'C', book: 'M', incollection: 'M', inbook: 'M',
+  phdthesis: 'D', mastersthesis: 'D', techreport: 'R', misc: 'Z'
+};
+
+// ==================== 输出标记 ====================
+
+// LaTeX 正文中的特殊字符（已转义的 \& \_ 等保持不变）
+const LATEX_SPECIAL_PATTERN = /\\[&%$#_{}]|[&%$#_{}~^\\]/g;
+const LATEX_REPLACEMENTS = { '\\': '\\textbackslash{}', '~': '\\textasciitilde{}', '^': '\\textasciicircum{}' };
+
+// 行内公式：$ 之后和结尾的 $ 之前不是空白，结尾的 $ 之后不是数字（与 pandoc 相同，$5 and $10 不是公式）
+const LATEX_MATH_PATTERN = /((?<!\\)\$(?!\s)[^$]+?(?<![\s\\])\$(?!\d))/;
+
+// 转义 LaTeX 特殊字符；行内公式原样保留，其他的 $ 转义
+function escapeLatex(value) {
+  return value.split(LATEX_MATH_PATTERN).map((part, index) => (index % 2 === 1
+    ? part
+    : part.replace(LATEX_SPECIAL_PATTERN, match => (match.length === 2 ? match : (LATEX_REPLACEMENTS[match] || `\\${match}`)))
+  )).join('');
+}
+
+function createMarkup(markup) {
+  const escape = {
+    text: value => value,
+    markdown: value => value.replace(/([*_`[\]])/g, '\\$1'),
+    latex: escapeLatex,
+    html: value => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+  }[markup];
+
+  return {
+    e: value => escape(String(value)),
+    i: value => {
+      const text = escape(String(value));
+      if (markup === 'markdown') return `*${text}*`;
+      if (markup === 'latex') return `\\textit{${text}}`;
+      if (markup === 'html') return `<i>${text}</i>`;
+      return text;
+    },
+    // 引号内包含结尾的标点（英文样式的习惯）
+    q: (value, punctuation = '') => {
+      const text = escape(String(value)) + punctuation;
+      return markup === 'latex' ? `\`\`${text}''` : `“${text}”`;
+    },
+    link: url => {
+      if (markup === 'latex') return `\\url{${url}}`;
+      if (markup === 'html') return `<a href="${escape(url)}">${escape(url)}</a>`;
+      return url;
+    },
+    dash: markup === 'latex' ? '--' : '–'
+  };
+}
+
+// ==================== 字段 ====================
+
+// 标题、期刊等末尾已有的标点去掉，由各样式统一添加
+function trimPunctuation(value) {
+  return String(value || '').replace(/\s+/g, ' ').trim().replace(/[.,;:]+$/, '');
+}
+
+// 补充句末的句点（已以 ? ! 结尾时不再添加）
+function sentence(value) {
+  return /[.?!。？！]$/.test(value) ? value : `${value}.`;
+}
+
+function referenceData(reference) {
+  const extra = reference.extraFields || {};
+  const authors = Array.isArray(reference.authors)
+    ? reference.authors
+    : (reference.authors ? [reference.authors] : []);
+
+  return {
+    type: (reference.entryType || (reference.journal ? 'article' : 'misc')).toLowerCase(),
+    names: authors.filter(Boolean).map(author => (CJK_PATTERN.test(author) ? { family: author.trim() } : splitName(author))),
+    title: trimPunctuation(reference.title),
+    container: trimPunctuation(reference.journal),
+    year: reference.year ? String(reference.year) : '',
+    volume: extra.volume,
+    issue: extra.number,
+    pages: extra.pages,
+    publisher: extra.publisher || extra.institution || extra.school,
+    address: extra.address,
+    doi: reference.doi,
+    url: reference.url,
+    arxivId: reference.arxivId
+  };
+}
+
+// 文献链接：DOI 优先，其次网址和 arXiv
+function referenceLink(data) {
+  if (data.doi) return `https://doi.org/${data.doi}`;
+  if (data.url) return data.url;
+  if (data.arxivId) return `https://arxiv.org/abs/${data.arxivId}`;
+  return null;
+}
+
+function formatPages(pages, dash) {
+  return String(pages).replace(/\s*(--?|–)\s*/, dash);
+}
+
+function isPageRange(pages) {
+  return /[-–]/.test(String(pages));
+}
+
+// 名的首字母：John Ronald → J. R.（dots 为 false 时 J R），Jean-Paul → J.-P.
+function initials(given, dots = true) {
+  return String(given || '').split(/\s+/).filter(Boolean)
+    .map(part => part.split('-').map(piece => piece[0].toUpperCase() + (dots ? '.' : '')).join('-'))
+    .join(' ');
+}
+
+// A、B 和 C 的英文连接：两个时 "A and B"，多个时 "A, B, and C"
+function joinWithAnd(items, and = 'and') {
+  if (items.length <= 1) return items.join('');
+  if (items.length === 2) return `${items[0]} ${and} ${items[1]}`;
+  return `${items.slice(0, -1).join(', ')}, ${and} ${items[items.length - 1]}`;
+}
+
+// 姓在前：Smith, John（机构名和中文姓名保持原样）
+function familyFirst(name) {
+  return name.given ? `${name.family}, ${name.given}` : name.family;
+}
+
+function givenFirst(name) {
+  return name.given ? `${name.given} ${name.family}` : name.family;
+}
+
+// ==================== 作者列表 ====================
+
+function apaAuthors(names) {
+  const formatted = names.map(name => (name.given ? `${name.family}, ${initials(name.given)}` : name.family));
+  if (formatted.length > 20) {
+    return `${formatted.slice(0, 19).join(', ')}, . . . ${formatted[formatted.length - 1]}`;
+  }
+  if (formatted.length === 2) return `${formatted[0]}, & ${formatted[1]}`;
+  return formatted.length > 2
+    ? `${formatted.slice(0, -1).join(', ')}, & ${formatted[formatted.length - 1]}`
+    : formatted.join('');
+}
+
+function mlaAuthors(names) {
+  if (names.length === 0) return '';
+  if (names.length === 1) return familyFirst(names[0]);
+  if (names.length === 2) return `${familyFirst(names[0])}, and ${givenFirst(names[1])}`;
+  return `${familyFirst(names[0])}, et al`;
+}
+
+function chicagoAuthors(names) {
+  if (names.length === 0) return '';
+  const listed = names.length > 10 ? names.slice(0, 7) : names;
+  const formatted = listed.map((name, index) => (index === 0 ? familyFirst(name) : givenFirst(name)));
+  if (names.length > 10) return `${formatted.join(', ')}, et al`;
+  if (formatted.length === 2) return `${formatted[0]}, and ${formatted[1]}`;
+  return joinWithAnd(formatted);
+}
+
+function ieeeAuthors(names) {
+  const formatted = names.map(name => (name.given ? `${initials(name.given)} ${name.family}` : name.family));
+  if (formatted.length > 6) return `${formatted[0]} et al.`;
+  return joinWithAnd(formatted);
+}
+
+// GB/T 7714：西文姓全大写、名缩写不加点；超过 3 人时只列前 3 人，后加“等”或 et al
+function gbAuthors(names) {
+  const formatted = names.slice(0, 3).map(name => (name.given
+    ? `${name.family.toUpperCase()} ${initials(name.given, false)}`
+    : name.family));
+  if (names.length > 3) {
+    formatted.push(CJK_PATTERN.test(names[0].family) ? '等' : 'et al');
+  }
+  return formatted.join(', ');
+}
+
+// 文中引用的作者部分（只用姓）
+function inTextAuthors(names, { and, maxListed }) {
+  const families = names.map(name => name.family);
+  if (families.length === 0) return '';
+  if (families.length > maxListed) return `${families[0]} et al.`;
+  return families.length === 2 ? `${families[0]} ${and} ${families[1]}` : joinWithAnd(families, and);
+}
+
+// ==================== 各样式的参考文献条目 ====================
+
+function formatApa(data, m) {
+  const link = referenceLink(data);
+  const parts = [];
+  const head = data.names.length > 0 ? sentence(apaAuthors(data.names)) : null;
+  const year = `(${data.year || 'n.d.'}).`;
+  const pages = data.pages ? formatPages(data.pages, m.dash) : null;
+
+  if (head) parts.push(m.e(head), year);
+
+  switch (data.type) {
+    case 'article': {
+      parts.push(m.e(sentence(data.title)));
+      if (data.container) {
+        let source = m.i(data.container);
+        if (data.volume) source += `, ${m.i(data.volume)}`;
+        if (data.issue) source += `(${m.e(data.issue)})`;
+        if (pages) source += `, ${pages}`;
+        parts.push(`${source}.`);
+      }
+      break;
+    }
+    case 'inproceedings':
+    case 'conference':
+    case 'incollection':
+      parts.push(m.e(sentence(data.title)));
+      if (data.container) {
+        parts.push(`In ${m.i(data.container)}${pages ? ` (${isPageRange(data.pages) ? 'pp.' : 'p.'} ${pages})` : ''}.`);
+      }
+      if (data.publisher) parts.push(m.e(sentence(data.publisher)));
+      break;
+    case 'phdthesis':
+    case 'mastersthesis':
+      parts.push(`${m.i(data.title)} [${data.type === 'phdthesis' ? 'Doctoral dissertation' : "Master's thesis"}${data.publisher ? `, ${m.e(data.publisher)}` : ''}].`);
+      break;
+    default:
+      if (data.type === 'misc' && data.arxivId) {
+        parts.push(`${m.i(data.title)} (arXiv:${m.e(data.arxivId)}).`, 'arXiv.');
+      } else {
+        parts.push(m.i(sentence(data.title)));
+        if (data.publisher) parts.push(m.e(sentence(data.publisher)));
+      }
+  }
+
+  // 没有作者时标题移到最前
+  if (!head) parts.splice(1, 0, year);
+  if (link) parts.push(m.link(link));
+  return parts.join(' ');
+}
+
+function formatMla(data, m) {
+  const link = referenceLink(data);
+  const parts = [];
+  if (data.names.length > 0) parts.push(m.e(sentence(mlaAuthors(data.names))));
+
+  const container = [];
+  if (data.type === 'book' || data.type === 'phdthesis' || data.type === 'techreport') {
+    parts.push(m.i(sentence(data.title)));
+    if (data.publisher) container.push(m.e(data.publisher));
+  } else {
+    parts.push(m.q(sentence(data.title)));
+    if (data.container) container.push(m.i(data.container));
+    else if (data.arxivId) container.push(m.i('arXiv'));
+    if (data.volume) container.push(`vol. ${m.e(data.volume)}`);
+    if (data.issue) container.push(`no. ${m.e(data.issue)}`);
+  }
+  if (data.year) container.push(data.year);
+  if (data.pages) container.push(`${isPageRange(data.pages) ? 'pp.' : 'p.'} ${formatPages(data.pages, m.dash)}`);
+  if (link) container.push(m.link(link));
+
+  if (container.length > 0) parts.push(`${container.join(', ')}.`);
+  return parts.join(' ');
+}
+
+function formatChicago(data, m) {
+  const link = referenceLink(data);
+  const parts = [];
+  const head = data.names.length > 0 ? m.e(sentence(chicagoAuthors(data.names))) : null;
+  const year = sentence(data.year || 'n.d.');
+  if (head) parts.push(head, year);
+  const pages = data.pages ? formatPages(data.pages, m.dash) : null;
+  const place = [data.address, data.publisher].filter(Boolean).map(m.e).join(': ');
+
+  switch (data.type) {
+    case 'article': {
+      parts.push(m.q(sentence(data.title)));
+      if (data.container) {
+        let source = m.i(data.container);
+        if (data.volume) source += ` ${m.e(data.volume)}`;
+        if (data.issue) source += ` (${m.e(data.issue)})`;
+        if (pages) source += `: ${pages}`;
+        parts.push(`${source}.`);
+      }
+      break;
+    }
+    case 'inproceedings':
+    case 'conference':
+    case 'incollection':
+      parts.push(m.q(sentence(data.title)));
+      if (data.container) parts.push(`In ${m.i(data.container)}${pages ? `, ${pages}` : ''}.`);
+      if (place) parts.push(`${place}.`);
+      break;
+    default:
+      if (data.type === 'misc' && data.arxivId) {
+        parts.push(m.q(sentence(data.title)), `Preprint, arXiv:${m.e(data.arxivId)}.`);
+      } else {
+        parts.push(m.i(sentence(data.title)));
+        if (place) parts.push(`${place}.`);
+      }
+  }
+
+  // 没有作者时标题移到最前
+  if (!head) parts.splice(1, 0, year);
+  if (link) parts.push(`${m.link(link)}.`);
+  return parts.join(' ');
+}
+
+function formatIeee(data, m) {
+  const pages = data.pages ? `${isPageRange(data.pages) ? 'pp.' : 'p.'} ${formatPages(data.pages, m.dash)}` : null;
+  const authors = data.names.length > 0 ? `${m.e(ieeeAuthors(data.names))}, ` : '';
+  const doi = data.doi ? `doi: ${m.e(data.doi)}` : null;
+  const details = [];
+
+  switch (data.type) {
+    case 'article':
+      if (data.container) details.push(m.i(data.container));
+      if (data.volume) details.push(`vol. ${m.e(data.volume)}`);
+      if (data.issue) details.push(`no. ${m.e(data.issue)}`);
+      if (pages) details.push(pages);
+      if (data.year) details.push(data.year);
+      break;
+    case 'inproceedings':
+    case 'conference':
+    case 'incollection':
+      if (data.container) details.push(`in ${m.i(data.container)}`);
+      if (data.year) details.push(data.year);
+      if (pages) details.push(pages);
+      break;
+    case 'book': {
+      const place = [data.address, data.publisher].filter(Boolean).map(m.e).join(': ');
+      return `${authors}${m.i(data.title)}. ${place ? `${place}, ` : ''}${data.year || ''}.`.replace(/, \.$/, '.');
+    }
+    default:
+      if (data.year) details.push(data.year);
+      if (data.arxivId) details.push(`arXiv:${m.e(data.arxivId)}`);
+      else if (data.publisher) details.push(m.e(data.publisher));
+  }
+
+  if (doi) details.push(doi);
+  const online = !doi && !data.arxivId && data.url ? ` [Online]. Available: ${m.link(data.url)}` : '';
+  return `${authors}${m.q(data.title, details.length > 0 ? ',' : '.')}${details.length > 0 ? ` ${details.join(', ')}.` : ''}${online}`;
+}
+
+function formatGb(data, m) {
+  const code = data.arxivId || (data.type === 'misc' && data.url) ? 'EB/OL' : (GB_TYPE_CODES[data.type] || 'Z');
+  const head = data.names.length > 0 ? `${m.e(gbAuthors(data.names))}. ` : '';
+  const pages = data.pages ? formatPages(data.pages, '-') : null;
+  const place = [data.address, data.publisher].filter(Boolean).map(m.e).join(': ');
+  let body = `${head}${m.e(data.title)}[${code}]`;
+
+  if (code === 'J') {
+    let source = data.container ? `. ${m.e(data.container)}` : '';
+    source += data.year ? `, ${data.year}` : '';
+    if (data.volume) source += `, ${m.e(data.volume)}`;
+    if (data.issue) source += `(${m.e(data.issue)})`;
+    if (pages) source += `: ${pages}`;
+    body += source;
+  } else if (code === 'C' || (code === 'M' && data.container)) {
+    body += data.container ? `//${m.e(data.container)}` : '';
+    body += place ? `. ${place}` : '';
+    body += data.year ? `, ${data.year}` : '';
+    if (pages) body += `: ${pages}`;
+  } else if (code === 'EB/OL') {
+    if (data.arxivId) body += `. arXiv:${m.e(data.arxivId)}`;
+    if (data.year) body += `, ${data.year}`;
+    const link = data.arxivId ? `https://arxiv.org/abs/${data.arxivId}` : data.url;
+    body += `. ${m.link(link)}`;
+  } else {
+    if (place) body += `. ${place}`;
+    if (data.year) body += `${place ? ',' : '.'} ${data.year}`;
+  }
+
+  body = sentence(body);
+  if (data.doi) body += ` DOI:${m.e(data.doi)}.`;
+  return body;
+}
+
+const ENTRY_FORMATTERS = {
+  'gb-t-7714': formatGb,
+  apa: formatApa,
+  ieee: formatIeee,
+  mla: formatMla,
+  chicago: formatChicago
+};
+
+// ==================== 对外接口 ====================
+
+function validateOptions(style, markup) {
+  if (!CITATION_STYLES[style]) {
+    throw new Error(`不支持的引用格式: ${style}，可选 ${Object.keys(CITATION_STYLES).join(' / ')}`);
+  }
+  if (!MARKUPS.includes(markup)) {
+    throw new Error(`不支持的输出格式: ${markup}，可选 ${MARKUPS.join(' / ')}`);
+  }
+}
+
+/**
+ * 参考文献列表的顺序：顺序编码制保持给定顺序（通常为文中引用顺序），著者-出版年制按第一作者、年份、标题排序
+ */
+function orderReferences(references, style) {
+  if (CITATION_STYLES[style]?.numeric) return [...references];
+  const sortKey = reference => {
+    const data = referenceData(reference);
+    return [data.names[0]?.family || data.title, data.year, data.title].join('\u0000').toLowerCase();
+  };
+  return [...references].sort((a, b) => sortKey(a).localeCompare(sortKey(b), 'zh-CN'));
+}
+
+// 单条参考文献条目（不含编号）
+function formatReference(reference, style, markup = 'text') {
+  validateOptions(style, markup);
+  return ENTRY_FORMATTERS[style](referenceData(reference), createMarkup(markup));
+}
+
+// 连续编号合并为范围：[1, 2, 3, 5] → [[1, 3], [5, 5]]
+function numberRanges(numbers) {
+  const sorted = [...new Set(numbers)].sort((a, b) => a - b);
+  const ranges = [];
+  for (const n of sorted) {
+    const last = ranges[ranges.length - 1];
+    if (last && n === last[1] + 1) last[1] = n;
+    else ranges.push([n, n]);
+  }
+  return ranges;
+}
+
+// 顺序编码制中参考文献的编号：与按引用生成的参考文献列表（selectCitedReferences，跳过库中没有的键）一致，
+// 已在正文中引用的沿用其在列表中的位置，否则排在最后
+function citationNumber(reference, references, citedKeys) {
+  const cited = selectCitedReferences(references, citedKeys).references;
+  const index = cited.findIndex(item => item.id === reference.id);
+  return index >= 0 ? index + 1 : cited.length + 1;
+}
+
+/**
+ * 文中引用
+ * @param {Array} references - 同一处引用的参考文献
+ * @param {string} style
+ * @param {object} options - { numbers: 顺序编码制中各条的编号, markup }
+ */
+function formatCitation(references, style, { numbers = [], markup = 'text' } = {}) {
+  validateOptions(style, markup);
+  const m = createMarkup(markup);
+
+  if (CITATION_STYLES[style].numeric) {
+    const ranges = numberRanges(references.map((reference, index) => numbers[index] || index + 1));
+    if (style === 'ieee') {
+      // IEEE：[1], [3]–[5]
+      return ranges.map(([from, to]) => {
+        if (from === to) return `[${from}]`;
+        return to === from + 1 ? `[${from}], [${to}]` : `[${from}]${m.dash}[${to}]`;
+      }).join(', ');
+    }
+    // GB/T 7714：[1-3,5]
+    return `[${ranges.map(([from, to]) => {
+      if (from === to) return String(from);
+      return to === from + 1 ? `${from},${to}` : `${from}-${to}`;
+    }).join(',')}]`;
+  }
+
+  const parts = references.map(reference => {
+    const data = referenceData(reference);
+    const fallback = data.title.split(/\s+/).slice(0, 3).join(' ');
+    if (style === 'apa') {
+      const authors = inTextAuthors(data.names, { and: '&', maxListed: 2 }) || fallback;
+      return `${m.e(authors)}, ${data.year || 'n.d.'}`;
+    }
+    if (style === 'mla') {
+      return m.e(inTextAuthors(data.names, { and: 'and', maxListed: 2 }) || fallback);
+    }
+    const authors = inTextAuthors(data.names, { and: 'and', maxListed: 3 }) || fallback;
+    return `${m.e(authors)} ${data.year || 'n.d.'}`;
+  });
+  return `(${parts.join('; ')})`;
+}
+
+/**
+ * 参考文献列表
+ * text / markdown 每条一段（顺序编码制带 [n] 编号），html 为 <ol> / <ul>，
+ * latex 为 thebibliography 环境（\bibitem 使用引用键，正文中的 \cite 可直接引用）
+ */
+function formatBibliography(references, style, markup = 'text') {
+  validateOptions(style, markup);
+  const { numeric } = CITATION_STYLES[style];
+  const ordered = orderReferences(references, style);
+  const entries = ordered.map(reference => formatReference(reference, style, markup));
+
+  if (markup === 'latex') {
+    const items = ordered.map((reference, index) => {
+      const label = numeric ? '' : `[${formatCitation([reference], style, { markup }).slice(1, -1)}]`;
+      return `\\bibitem${label}{${reference.citationKey || reference.id}} ${entries[index]}`;
+    });
+    return `\\begin{thebibliography}{${numeric ? String(ordered.length).replace(/\d/g, '9') : 'X'}}\n${items.join('\n\n')}\n\\end{thebibliography}\n`;
+  }
+  if (markup === 'html') {
+    const tag = numeric ? 'ol' : 'ul';
+    return `<${tag} class="bibliography">\n${entries.map(entry => `  <li>${entry}</li>`).join('\n')}\n</${tag}>\n`;
+  }
+  return entries.map((entry, index) => (numeric ? `[${index + 1}] ${entry}` : entry)).join('\n\n') + '\n';
+}
+
+module.exports = {
+  CITATION_STYLES,
+  MARKUPS,
+  orderReferences,
+  formatReference,
+  citationNumber,
+  formatCitation,
+  formatBibliography
+};
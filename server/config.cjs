@@ -16,14 +16,18 @@ const MODEL_CONFIG = {
   'deepseek-chat': {
     systemPrompt: `你是一位专业的学术论文写作助手，具有以下核心能力：
 1. 学术写作专长：精通学术论文的结构、逻辑和语言规范，擅长撰写引言、文献综述、方法论、结果分析和结论
-2. 文献分析与引用：能够高效分析研究文献，正确使用APA、MLA、Chicago等引用格式
+2. 文献分析与引用：能够高效分析研究文献，正确使用GB/T 7714、APA、IEEE、MLA、Chicago等引用格式，可用 format_bibliography 工具生成参考文献列表
 3. 论文优化：擅长提升论文的逻辑连贯性、语言表达准确性和学术深度
 4. 工具使用：能够合理使用搜索、下载、阅读、编辑和资源管理工具辅助写作，包括阅读已下载PDF论文的内容
 5. 多领域知识：熟悉计算机科学、自然科学、社会科学等多个领域的学术写作规范
 
 你的职责是帮助用户完成高质量的学术论文写作，确保内容严谨、格式规范、逻辑清晰。`,
     temperature: 0.7,
-    maxTokens: 8192
+    maxTokens: 8192,
+    // 上下文预算：窗口大小、单个工具结果上限、每字符估算 token 数（中日韩字符 / 其他字符）
+    contextWindow: 65536,
+    toolResultMaxTokens: 12000,
+    tokenEstimate: { cjk: 0.6, other: 0.3 }
   },
   'deepseek-reasoner': {
     systemPrompt: `你是一位专业的学术论文写作助手，特别擅长深度推理、复杂分析和严谨的学术论证。你具有以下核心能力：
@@ -43,13 +47,16 @@ const MODEL_CONFIG = {
 你的职责是帮助用户进行深度学术思考，提供严谨的分析和推理，确保论文具有学术深度和理论贡献。`,
     temperature: 0.3,
     maxTokens: 8192,
+    contextWindow: 65536,
+    toolResultMaxTokens: 12000,
+    tokenEstimate: { cjk: 0.6, other: 0.3 },
     reasoningEffort: 'high'
   },
   'qwen': {
     systemPrompt: `你是一位专业的学术论文写作助手，具有以下核心能力：
 
 1. 学术写作专长：精通学术论文的结构、逻辑和语言规范，擅长撰写引言、文献综述、方法论、结果分析和结论
-2. 文献分析与引用：能够高效分析研究文献，正确使用APA、MLA、Chicago等引用格式
+2. 文献分析与引用：能够高效分析研究文献，正确使用GB/T 7714、APA、IEEE、MLA、Chicago等引用格式，可用 format_bibliography 工具生成参考文献列表
 3. 论文优化：擅长提升论文的逻辑连贯性、语言表达准确性和学术深度
 4. 工具使用：能够合理使用搜索、下载、阅读、编辑和资源管理工具辅助写作，包括阅读已下载PDF论文的内容
 5. 多领域知识：熟悉计算机科学、自然科学、社会科学等多个领域的学术写作规范
@@ -57,13 +64,99 @@ const MODEL_CONFIG = {
 
 你的职责是帮助用户完成高质量的学术论文写作，确保内容严谨、格式规范、逻辑清晰，特别注重中文表达的准确性和专业性。`,
     temperature: 0.7,
-    maxTokens: 8192
+    maxTokens: 8192,
+    contextWindow: 131072,
+    toolResultMaxTokens: 16000,
+    tokenEstimate: { cjk: 0.7, other: 0.25 }
+  },
+  // 局域网自托管模型：上下文窗口和输出上限由 LOCAL_LLM_CONFIG 覆盖，这里的预算按较小的窗口设置
+  'local': {
+    systemPrompt: `你是一位专业的学术论文写作助手，精通学术论文的结构、逻辑和语言规范，能够分析研究文献并使用规范的引用格式。
+你可以使用搜索、下载、阅读、编辑和资源管理工具辅助写作。请确保内容严谨、格式规范、逻辑清晰。`,
+    temperature: 0.7,
+    maxTokens: 2048,
+    contextWindow: 8192,
+    toolResultMaxTokens: 2000,
+    // 本地模型的分词器各不相同，按偏大的估算避免超出窗口
+    tokenEstimate: { cjk: 1.0, other: 0.35 }
   }
 };
 
+// 局域网自托管模型配置（vLLM / llama.cpp / Ollama 等 OpenAI 兼容服务）
+// 未设置 LOCAL_LLM_BASE_URL 时不注册本地服务商
+const LOCAL_LLM_CONFIG = {
+  name: process.env.LOCAL_LLM_NAME || '本地模型',
+  baseUrl: process.env.LOCAL_LLM_BASE_URL || '',  // 例如 http://192.168.1.10:8000/v1
+  apiKey: process.env.LOCAL_LLM_API_KEY || '',
+  // 逗号分隔的模型名；为空时从 {baseUrl}/models 自动获取
+  models: (process.env.LOCAL_LLM_MODELS || '').split(',').map(m => m.trim()).filter(Boolean),
+  supportsTools: process.env.LOCAL_LLM_SUPPORTS_TOOLS === 'true',
+  // 本地模型的上下文窗口通常较小，需要与服务端启动参数（如 --max-model-len）保持一致
+  contextWindow: parseInt(process.env.LOCAL_LLM_CONTEXT_WINDOW, 10) || 8192,
+  maxTokens: parseInt(process.env.LOCAL_LLM_MAX_TOKENS, 10) || 2048,
+  // 单个工具结果的 token 上限，默认为上下文窗口的四分之一
+  toolResultMaxTokens: parseInt(process.env.LOCAL_LLM_TOOL_RESULT_MAX_TOKENS, 10)
+    || Math.floor((parseInt(process.env.LOCAL_LLM_CONTEXT_WINDOW, 10) || 8192) / 4)
+};
+
+// LaTeX 编译配置（需要本机安装 TeX Live / MiKTeX，ctex 文档使用 xelatex）
+const LATEX_CONFIG = {
+  engine: process.env.LATEX_ENGINE || 'xelatex',
+  bibtex: process.env.LATEX_BIBTEX || 'bibtex',
+  biber: process.env.LATEX_BIBER || 'biber',
+  // 单次运行的超时时间（毫秒），超时后终止进程
+  timeout: parseInt(process.env.LATEX_TIMEOUT_MS, 10) || 60000,
+  // 交叉引用和参考文献需要多次编译
+  maxRuns: 3
+};
+
+// 版本快照配置
+const SNAPSHOT_CONFIG = {
+  // 定时快照间隔（分钟），为 0 时不创建定时快照；内容没有变化时不会重复创建
+  intervalMinutes: parseInt(process.env.SNAPSHOT_INTERVAL_MINUTES ?? '10', 10),
+  // 每个项目最多保留的自动快照数（定时、Agent 修改前、恢复前），命名检查点不受限制
+  maxAutomatic: parseInt(process.env.SNAPSHOT_MAX_AUTOMATIC, 10) || 100
+};
+
+// Git 版本管理配置（项目文件目录作为本地仓库，不需要远程仓库）
+const GIT_CONFIG = {
+  command: process.env.GIT_COMMAND || 'git',
+  timeout: parseInt(process.env.GIT_TIMEOUT_MS, 10) || 30000,
+  // 仓库没有配置 user.name / user.email 时使用的提交者
+  authorName: process.env.GIT_AUTHOR_NAME || 'AI Academic Writing',
+  authorEmail: process.env.GIT_AUTHOR_EMAIL || 'writer@localhost',
+  // 历史面板显示的提交数
+  logLimit: 100
+};
+
+// 引用配置（插入 Markdown 引用、生成参考文献列表时的默认样式，自动生成引用键的模式）
+const CITATION_CONFIG = {
+  // gb-t-7714 / apa / ieee / mla / chicago
+  defaultStyle: process.env.CITATION_STYLE || 'gb-t-7714',
+  // 自动生成引用键的模式（占位符见 citationKeys.cjs），如 authorYEARfirstword → smith2020deep
+  keyPattern: process.env.CITATION_KEY_PATTERN || 'authorYEARfirstword'
+};
+
+// arXiv 检索配置
+const ARXIV_CONFIG = {
+  apiUrl: process.env.ARXIV_API_URL || 'http://export.arxiv.org/api/query',
+  // 两次请求之间的最小间隔（毫秒），arXiv 要求每 3 秒不超过一次请求
+  minInterval: parseInt(process.env.ARXIV_MIN_INTERVAL_MS ?? '3000', 10),
+  // 请求超时（毫秒），包括在队列中等待的时间；需小于 Agent 的工具超时（30 秒）
+  timeout: parseInt(process.env.ARXIV_TIMEOUT_MS, 10) || 20000,
+  // 单次检索最多返回的条数
+  maxResults: 100
+};
+
 module.exports = {
   PORT,
   STORAGE_DIR,
   RESOURCE_TYPES,
-  MODEL_CONFIG
+  MODEL_CONFIG,
+  LOCAL_LLM_CONFIG,
+  LATEX_CONFIG,
+  SNAPSHOT_CONFIG,
+  GIT_CONFIG,
+  CITATION_CONFIG,
+  ARXIV_CONFIG
 };
@@ -159,6 +159,7 @@ function clearCache() {
 }
 
 module.exports = {
+  generateHash,
   storeContent,
   getContent,
   getCacheStats,
@@ -0,0 +1,274 @@
+/**
+ * Git 版本管理模块 - 将当前项目的文件目录作为本地 Git 仓库
+ *
+ * 通过 git 命令行操作，不需要远程仓库。启用后：
+ * - 应用 Agent 修改后提交一次（提交说明概括 Agent 请求）
+ * - 历史面板显示当前分支的 git log，可与当前内容对比
+ * - 可创建分支尝试改写，切换分支前自动提交未提交的修改
+ */
+
+const fs = require('fs-extra');
+const { join } = require('path');
+const { execFile } = require('child_process');
+const { GIT_CONFIG } = require('./config.cjs');
+const { ProjectError, getProjectDir, normalizeProjectPath } = require('./projectStore.cjs');
+const { getActiveProject, updateProject } = require('./projectRegistry.cjs');
+
+const MAX_MESSAGE_LENGTH = 500;
+// git log 字段分隔符
+const FIELD_SEPARATOR = '\x1f';
+
+class GitError extends Error {
+  constructor(message, code) {
+    super(message);
+    this.name = 'GitError';
+    this.code = code;
+  }
+}
+
+/**
+ * 在当前项目的文件目录中运行 git 命令，返回标准输出
+ */
+function runGit(args) {
+  const cwd = getProjectDir();
+  return new Promise((resolve, reject) => {
+    execFile(GIT_CONFIG.command, args, {
+      cwd,
+      timeout: GIT_CONFIG.timeout,
+      maxBuffer: 20 * 1024 * 1024,
+      env: { ...process.env, GIT_TERMINAL_PROMPT: '0' }
+    }, (error, stdout, stderr) => {
+      if (!error) {
+        resolve(stdout);
+      } else if (error.code === 'ENOENT') {
+        reject(new GitError(`未找到 ${GIT_CONFIG.command}，请安装 git 并确保其在 PATH 中`, 'GIT_NOT_FOUND'));
+      } else {
+        const message = (stderr || '').trim() || error.message;
+        reject(new GitError(`git ${args[0]} 失败: ${message}`, 'GIT_FAILED'));
+      }
+    });
+  });
+}
+
+function isRepository() {
+  return fs.existsSync(join(getProjectDir(), '.git'));
+}
+
+// 当前项目必须已启用 Git
+function requireGitProject() {
+  const project = getActiveProject();
+  if (!project) {
+    throw new ProjectError('没有打开的项目', 'NOT_FOUND');
+  }
+  if (!project.use_git) {
+    throw new ProjectError('当前项目未启用 Git 版本管理', 'INVALID');
+  }
+  return project;
+}
+
+async function hasChanges() {
+  return (await runGit(['status', '--porcelain'])).trim().length > 0;
+}
+
+async function currentBranch() {
+  return (await runGit(['rev-parse', '--abbrev-ref', 'HEAD'])).trim();
+}
+
+async function listBranches() {
+  const output = await runGit(['branch', '--format=%(refname:short)']);
+  return output.split('\n').map(line => line.trim()).filter(Boolean);
+}
+
+function validateMessage(message) {
+  const trimmed = typeof message === 'string' ? message.trim() : '';
+  if (!trimmed) {
+    throw new ProjectError('提交说明不能为空', 'INVALID');
+  }
+  return trimmed.slice(0, MAX_MESSAGE_LENGTH);
+}
+
+async function validateBranchName(name) {
+  const trimmed = typeof name === 'string' ? name.trim() : '';
+  if (!trimmed) {
+    throw new ProjectError('分支名称不能为空', 'INVALID');
+  }
+  try {
+    await runGit(['check-ref-format', '--branch', trimmed]);
+  } catch (error) {
+    if (error.code === 'GIT_NOT_FOUND') throw error;
+    throw new ProjectError(`无效的分支名称: ${trimmed}`, 'INVALID');
+  }
+  return trimmed;
+}
+
+/**
+ * 初始化仓库（已存在时跳过）：没有配置提交者的姓名或邮箱时使用默认值，并提交当前文件
+ */
+async function initRepository() {
+  if (isRepository()) return false;
+
+  await runGit(['init']);
+  // user.name 和 user.email 分别检查，只配置了其中一项时也能提交
+  const identity = { 'user.name': GIT_CONFIG.authorName, 'user.email': GIT_CONFIG.authorEmail };
+  for (const [key, value] of Object.entries(identity)) {
+    const configured = await runGit(['config', key]).catch(() => '');
+    if (!configured.trim()) {
+      await runGit(['config', key, value]);
+    }
+  }
+  await runGit(['add', '-A']);
+  await runGit(['commit', '-m', '初始化论文项目']);
+  console.log(`[Git] 已初始化仓库: ${getProjectDir()}`);
+  return true;
+}
+
+/**
+ * 为当前项目启用 Git（初始化仓库）或停用（保留仓库，不再自动提交）
+ */
+async function setGitEnabled(enabled) {
+  const project = getActiveProject();
+  if (!project) {
+    throw new ProjectError('没有打开的项目', 'NOT_FOUND');
+  }
+  if (enabled) {
+    await initRepository();
+  }
+  return updateProject(project.id, { use_git: Boolean(enabled) });
+}
+
+/**
+ * Git 状态：是否启用、当前分支、分支列表、是否有未提交的修改
+ */
+async function getStatus() {
+  const project = getActiveProject();
+  if (!project || !project.use_git) {
+    return { enabled: false };
+  }
+  await initRepository();
+  const [branch, branches, dirty] = await Promise.all([currentBranch(), listBranches(), hasChanges()]);
+  return { enabled: true, branch, branches, dirty };
+}
+
+/**
+ * 当前分支的提交历史（最新的在前）
+ */
+async function getLog(limit = GIT_CONFIG.logLimit) {
+  requireGitProject();
+  await initRepository();
+  const count = Math.min(Math.max(parseInt(limit, 10) || GIT_CONFIG.logLimit, 1), GIT_CONFIG.logLimit);
+  const format = ['%H', '%h', '%an', '%aI', '%s'].join(FIELD_SEPARATOR);
+  const output = await runGit(['log', `--format=${format}`, '-n', String(count)]);
+
+  return output.split('\n').filter(Boolean).map(line => {
+    const [hash, short_hash, author, date, message] = line.split(FIELD_SEPARATOR);
+    return { hash, short_hash, author, date, message };
+  });
+}
+
+/**
+ * 读取某次提交的全部项目文件
+ */
+async function getCommit(hash) {
+  requireGitProject();
+  if (typeof hash !== 'string' || !/^[0-9a-f]{4,40}$/i.test(hash)) {
+    throw new ProjectError(`无效的提交: ${hash}`, 'INVALID');
+  }
+
+  const format = ['%H', '%h', '%an', '%aI', '%s'].join(FIELD_SEPARATOR);
+  let header;
+  try {
+    header = await runGit(['show', '-s', `--format=${format}`, hash]);
+  } catch (error) {
+    if (error.code === 'GIT_NOT_FOUND') throw error;
+    throw new ProjectError(`提交不存在: ${hash}`, 'NOT_FOUND');
+  }
+  const [fullHash, short_hash, author, date, message] = header.trim().split(FIELD_SEPARATOR);
+
+  const files = {};
+  const paths = (await runGit(['ls-tree', '-r', '--name-only', '-z', fullHash])).split('\0').filter(Boolean);
+  for (const path of paths) {
+    try {
+      normalizeProjectPath(path);
+    } catch (error) {
+      // 只读取项目文件（跳过 .gitignore 等）
+      continue;
+    }
+    files[path] = await runGit(['show', `${fullHash}:${path}`]);
+  }
+  return { hash: fullHash, short_hash, author, date, message, files };
+}
+
+/**
+ * 提交当前项目的全部修改，没有修改时不提交
+ * @returns {{ committed: boolean, commit?: object }}
+ */
+async function commitChanges(message) {
+  requireGitProject();
+  const text = validateMessage(message);
+  await initRepository();
+
+  await runGit(['add', '-A']);
+  if (!(await hasChanges())) {
+    return { committed: false };
+  }
+  await runGit(['commit', '-m', text]);
+  const [commit] = await getLog(1);
+  console.log(`[Git] 已提交 ${commit.short_hash}: ${commit.message}`);
+  return { committed: true, commit };
+}
+
+// 切换或创建分支前提交未提交的修改，避免丢失
+async function commitBeforeSwitch(target) {
+  await runGit(['add', '-A']);
+  if (await hasChanges()) {
+    await runGit(['commit', '-m', `切换到分支 ${target} 前自动提交`]);
+  }
+}
+
+/**
+ * 从当前分支创建新分支并切换过去（用于尝试改写）
+ */
+async function createBranch(name) {
+  requireGitProject();
+  await initRepository();
+  const branch = await validateBranchName(name);
+  if ((await listBranches()).includes(branch)) {
+    throw new ProjectError(`分支已存在: ${branch}`, 'EXISTS');
+  }
+
+  await commitBeforeSwitch(branch);
+  await runGit(['checkout', '-b', branch]);
+  console.log(`[Git] 已创建并切换到分支: ${branch}`);
+  return getStatus();
+}
+
+/**
+ * 切换到已有分支，项目文件变为该分支的内容
+ */
+async function checkoutBranch(name) {
+  requireGitProject();
+  await initRepository();
+  const branch = typeof name === 'string' ? name.trim() : '';
+  if (!(await listBranches()).includes(branch)) {
+    throw new ProjectError(`分支不存在: ${branch}`, 'NOT_FOUND');
+  }
+  if (branch === await currentBranch()) {
+    return getStatus();
+  }
+
+  await commitBeforeSwitch(branch);
+  await runGit(['checkout', branch]);
+  console.log(`[Git] 已切换到分支: ${branch}`);
+  return getStatus();
+}
+
+module.exports = {
+  GitError,
+  setGitEnabled,
+  getStatus,
+  getLog,
+  getCommit,
+  commitChanges,
+  createBranch,
+  checkoutBranch
+};
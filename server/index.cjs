@@ -5,11 +5,32 @@
  * - config.cjs: 配置常量
  * - storage.cjs: 文件系统持久化存储
  * - pdfUtils.cjs: PDF处理工具
- * - aiApi.cjs: AI API调用（DeepSeek、Qwen）
+ * - aiApi.cjs: AI API调用入口和提示词生成
+ * - providers/: 模型服务商注册表（DeepSeek、Qwen、本地OpenAI兼容服务）
+ * - agentRunner.cjs: Agent多步工具调用循环
  * - tools.cjs: 工具定义和执行
+ * - latexCompiler.cjs: LaTeX编译（临时目录中运行xelatex）
+ * - projectStore.cjs: 当前项目的文件存储
+ * - projectRegistry.cjs: 多项目管理（storage/projects）
+ * - snapshotStore.cjs: 版本快照（按内容哈希去重）
+ * - gitStore.cjs: 项目的本地 Git 仓库（提交、历史、分支）
+ * - chatStore.cjs: 项目的对话会话（多个会话、搜索、分叉）
+ * - referenceFormats.cjs: 参考文献导入导出（BibTeX / RIS / CSL-JSON / EndNote XML）
+ * - citationStyles.cjs: 引用格式（GB/T 7714 / APA / IEEE / MLA / Chicago）
+ * - referenceDedup.cjs: 参考文献查重与合并（改写正文中的引用键）
+ * - citationKeys.cjs: 引用键生成、引用一致性检查与批量重命名
+ * - pdfReferences.cjs: PDF 文献信息提取与参考文献关联
+ * - arxivClient.cjs: arXiv 检索客户端
  * - routes/resources.cjs: 资源管理路由
  * - routes/tools.cjs: 工具路由
  * - routes/agent.cjs: Agent路由
+ * - routes/models.cjs: 模型列表路由
+ * - routes/compile.cjs: LaTeX编译路由
+ * - routes/lint.cjs: LaTeX静态检查路由
+ * - routes/project.cjs: 项目文件路由
+ * - routes/projects.cjs: 项目管理路由
+ * - routes/snapshots.cjs: 版本快照路由
+ * - routes/git.cjs: Git 版本管理路由
  */
 
 const express = require('express');
@@ -21,11 +42,21 @@ dotenv.config();
 // 导入配置和模块
 const { PORT, STORAGE_DIR } = require('./config.cjs');
 const { initializeStorage } = require('./storage.cjs');
+const { initializeProjects } = require('./projectRegistry.cjs');
+const { startSnapshotTimer } = require('./snapshotStore.cjs');
 
 // 导入路由
 const resourcesRouter = require('./routes/resources.cjs');
 const toolsRouter = require('./routes/toolsRouter.cjs');
 const agentRouter = require('./routes/agent.cjs');
+const contentRouter = require('./routes/contentRouter.cjs');
+const modelsRouter = require('./routes/models.cjs');
+const compileRouter = require('./routes/compile.cjs');
+const lintRouter = require('./routes/lint.cjs');
+const projectRouter = require('./routes/project.cjs');
+const projectsRouter = require('./routes/projects.cjs');
+const snapshotsRouter = require('./routes/snapshots.cjs');
+const gitRouter = require('./routes/git.cjs');
 
 // 创建Express应用
 const app = express();
@@ -54,6 +85,14 @@ app.use((req, res, next) => {
 app.use('/api/resources', resourcesRouter);
 app.use('/api/tools', toolsRouter);
 app.use('/api/agent', agentRouter);
+app.use('/api/content', contentRouter);
+app.use('/api/models', modelsRouter);
+app.use('/api/compile', compileRouter);
+app.use('/api/lint', lintRouter);
+app.use('/api/project', projectRouter);
+app.use('/api/projects', projectsRouter);
+app.use('/api/snapshots', snapshotsRouter);
+app.use('/api/git', gitRouter);
 
 // 健康检查端点
 app.get('/api/health', (req, res) => {
@@ -408,8 +447,33 @@ app.get('/', (req, res) => {
           <li><span class="method post">POST</span>/api/tools/execute</li>
           <li><span class="method post">POST</span>/api/agent</li>
           <li><span class="method post">POST</span>/api/agent/stream</li>
+          <li><span class="method post">POST</span>/api/agent/run</li>
+          <li><span class="method get">GET</span>/api/models</li>
+          <li><span class="method post">POST</span>/api/compile</li>
+          <li><span class="method post">POST</span>/api/lint</li>
+          <li><span class="method post">POST</span>/api/lint/fix</li>
+          <li><span class="method get">GET</span>/api/project</li>
+          <li><span class="method put">PUT</span>/api/project/files/*</li>
+          <li><span class="method get">GET</span>/api/projects</li>
+          <li><span class="method post">POST</span>/api/projects/:id/activate</li>
+          <li><span class="method get">GET</span>/api/projects/:id/sessions</li>
+          <li><span class="method get">GET</span>/api/snapshots</li>
+          <li><span class="method post">POST</span>/api/snapshots/:id/restore</li>
+          <li><span class="method get">GET</span>/api/git/log</li>
+          <li><span class="method post">POST</span>/api/git/commit</li>
           <li><span class="method get">GET</span>/api/resources/:type</li>
           <li><span class="method post">POST</span>/api/resources/:type</li>
+          <li><span class="method get">GET</span>/api/resources/references/bibtex</li>
+          <li><span class="method get">GET</span>/api/resources/references/export</li>
+          <li><span class="method post">POST</span>/api/resources/references/import/preview</li>
+          <li><span class="method get">GET</span>/api/resources/references/bibliography</li>
+          <li><span class="method get">GET</span>/api/resources/references/duplicates</li>
+          <li><span class="method post">POST</span>/api/resources/references/merge</li>
+          <li><span class="method get">GET</span>/api/resources/references/keys/check</li>
+          <li><span class="method post">POST</span>/api/resources/references/keys/preview</li>
+          <li><span class="method post">POST</span>/api/resources/references/keys/rename</li>
+          <li><span class="method post">POST</span>/api/resources/pdfs/:id/link</li>
+          <li><span class="method delete">DELETE</span>/api/resources/pdfs/:id/link</li>
         </ul>
       </div>
       
@@ -422,7 +486,12 @@ app.get('/', (req, res) => {
           <li>👁️ view_file - 查看文件</li>
           <li>✏️ edit_file - 编辑文件</li>
           <li>🔍 search_in_file - 搜索文件</li>
+          <li>🩺 lint_document - 检查文档</li>
           <li>📋 list_resources - 资源列表</li>
+          <li>📥 import_bibtex - 导入 BibTeX</li>
+          <li>📤 export_bibtex - 导出 BibTeX</li>
+          <li>📑 format_bibliography - 生成参考文献列表</li>
+          <li>🔑 check_citations - 检查引用</li>
         </ul>
       </div>
     </div>
@@ -476,6 +545,8 @@ app.get('/', (req, res) => {
 
 // 初始化存储并启动服务器
 initializeStorage();
+initializeProjects();
+startSnapshotTimer();
 
 const server = app.listen(PORT, () => {
   console.log(`服务器运行在 http://localhost:${PORT}`);
@@ -484,10 +555,51 @@ const server = app.listen(PORT, () => {
   console.log('  - GET/POST /api/resources/:type');
   console.log('  - PUT/DELETE /api/resources/:type/:id');
   console.log('  - POST /api/resources/:type/:id/insert');
+  console.log('  - GET/POST /api/resources/references/bibtex');
+  console.log('  - GET /api/resources/references/export');
+  console.log('  - POST /api/resources/references/import/preview');
+  console.log('  - POST /api/resources/references/import');
+  console.log('  - GET /api/resources/references/bibliography');
+  console.log('  - GET /api/resources/references/duplicates');
+  console.log('  - POST /api/resources/references/merge');
+  console.log('  - GET /api/resources/references/keys/check');
+  console.log('  - POST /api/resources/references/keys/preview');
+  console.log('  - POST /api/resources/references/keys/rename');
+  console.log('  - POST /api/resources/pdfs/:id/link');
+  console.log('  - DELETE /api/resources/pdfs/:id/link');
   console.log('  - GET /api/tools');
   console.log('  - POST /api/tools/execute');
   console.log('  - POST /api/agent');
   console.log('  - POST /api/agent/stream');
+  console.log('  - POST /api/agent/run');
+  console.log('  - GET /api/models');
+  console.log('  - POST /api/compile');
+  console.log('  - POST /api/lint');
+  console.log('  - POST /api/lint/fix');
+  console.log('  - GET /api/project');
+  console.log('  - POST /api/project/files');
+  console.log('  - GET/PUT/DELETE /api/project/files/*');
+  console.log('  - POST /api/project/rename');
+  console.log('  - GET/POST /api/projects');
+  console.log('  - PUT/DELETE /api/projects/:id');
+  console.log('  - POST /api/projects/:id/activate');
+  console.log('  - GET/PUT /api/projects/:id/chat');
+  console.log('  - GET/POST /api/projects/:id/sessions');
+  console.log('  - GET /api/projects/:id/sessions/search');
+  console.log('  - GET/PUT/DELETE /api/projects/:id/sessions/:sessionId');
+  console.log('  - POST /api/projects/:id/sessions/:sessionId/fork');
+  console.log('  - GET/POST /api/snapshots');
+  console.log('  - GET/DELETE /api/snapshots/:id');
+  console.log('  - POST /api/snapshots/:id/restore');
+  console.log('  - GET /api/git/status');
+  console.log('  - POST /api/git/enable');
+  console.log('  - POST /api/git/disable');
+  console.log('  - GET /api/git/log');
+  console.log('  - GET /api/git/commits/:hash');
+  console.log('  - POST /api/git/commit');
+  console.log('  - POST /api/git/branches');
+  console.log('  - POST /api/git/checkout');
+  console.log('  - POST /api/content/store');
   console.log('  - GET /api/health');
 });
 
@@ -0,0 +1,477 @@
+/**
+ * LaTeX 编译模块 - 在临时目录中调用本机 TeX 引擎生成 PDF
+ *
+ * 每次编译使用独立的临时目录：写入 main.tex、项目中的其他文件、图片资源和由参考文献生成的 .bib，
+ * 禁用 shell escape 并限制只能读写工作目录，编译结束后删除临时目录。
+ * 编译日志解析为结构化的错误/警告，行号映射回编辑器中（对应项目文件）的行号。
+ */
+
+const fs = require('fs-extra');
+const os = require('os');
+const { join, basename } = require('path');
+const { spawn } = require('child_process');
+const { LATEX_CONFIG } = require('./config.cjs');
+const { localStorage } = require('./storage.cjs');
+const { formatBibtex } = require('./bibtex.cjs');
+const { createAbortError, throwIfAborted } = require('./abortUtils.cjs');
+const { normalizeProjectPath } = require('./projectStore.cjs');
+
+// 主文件名（日志中的文件名据此判断是否属于编辑器内容）
+const MAIN_FILE = 'main.tex';
+
+// 返回给前端的日志最大长度
+const MAX_LOG_LENGTH = 200000;
+
+// 只有正文片段时使用的默认导言区
+const FRAGMENT_PREAMBLE = [
+  '\\documentclass{article}',
+  '\\usepackage{ctex}',
+  '\\usepackage{amsmath,amssymb}',
+  '\\usepackage{graphicx}',
+  '\\usepackage{hyperref}',
+  '\\begin{document}'
+];
+
+// 编译失败（引擎缺失、超时等无法得到日志的情况）
+class CompileError extends Error {
+  constructor(message, code) {
+    super(message);
+    this.name = 'CompileError';
+    this.code = code;
+  }
+}
+
+/**
+ * 准备编译源码：正文片段自动补全导言区，lineOffset 为编辑器第 1 行之前插入的行数
+ */
+function prepareSource(content) {
+  if (/\\documentclass/.test(content)) {
+    return { source: content, lineOffset: 0 };
+  }
+  return {
+    source: `${FRAGMENT_PREAMBLE.join('\n')}\n${content}\n\\end{document}\n`,
+    lineOffset: FRAGMENT_PREAMBLE.length
+  };
+}
+
+// 文件名只保留最后一段，防止写出工作目录
+function safeFileName(name) {
+  const base = basename(String(name || '').replace(/\\/g, '/')).trim();
+  if (!base || base.startsWith('.') || base === MAIN_FILE) {
+    return null;
+  }
+  return base;
+}
+
+// 读取存储中的资源列表
+function loadResources(type) {
+  try {
+    const data = localStorage.getItem(`academic_writing_${type}`);
+    return data ? JSON.parse(data) : [];
+  } catch (error) {
+    console.error(`[Compile] 读取资源失败 (${type}):`, error);
+    return [];
+  }
+}
+
+/**
+ * 将图片资源（dataUrl）写入工作目录，文件名与 \includegraphics 中使用的名称一致
+ */
+async function writeImages(workDir) {
+  let count = 0;
+  for (const image of loadResources('images')) {
+    const fileName = safeFileName(image.name);
+    const match = /^data:[^;,]+;base64,(.*)$/s.exec(image.dataUrl || '');
+    if (!fileName || !match) continue;
+
+    await fs.writeFile(join(workDir, fileName), Buffer.from(match[1], 'base64'));
+    count++;
+  }
+  return count;
+}
+
+/**
+ * 写入项目中除主文件外的其他文件（保持目录结构，\input{chapters/intro} 等按原路径查找）
+ */
+async function writeProjectFiles(workDir, files) {
+  let count = 0;
+  for (const [path, content] of Object.entries(files)) {
+    let relativePath;
+    try {
+      relativePath = normalizeProjectPath(path);
+    } catch (error) {
+      console.warn(`[Compile] 跳过非法的项目文件路径: ${path}`);
+      continue;
+    }
+    if (relativePath === MAIN_FILE) continue;
+
+    await fs.outputFile(join(workDir, ...relativePath.split('/')), content, 'utf-8');
+    count++;
+  }
+  return count;
+}
+
+/**
+ * 根据 \bibliography / \addbibresource 写入由参考文献资源生成的 .bib 文件（项目中已有同名 .bib 时使用项目文件）
+ * 返回需要运行的参考文献工具（bibtex / biber），没有参考文献命令时返回 null
+ */
+async function writeBibliography(workDir, source, files = {}) {
+  const bibFiles = new Set();
+  let tool = null;
+
+  for (const match of source.matchAll(/\\bibliography\s*\{([^}]*)\}/g)) {
+    tool = 'bibtex';
+    match[1].split(',').map(name => name.trim()).filter(Boolean)
+      .forEach(name => bibFiles.add(name.endsWith('.bib') ? name : `${name}.bib`));
+  }
+  for (const match of source.matchAll(/\\addbibresource\s*(?:\[[^\]]*\])?\s*\{([^}]*)\}/g)) {
+    tool = 'biber';
+    bibFiles.add(match[1].trim());
+  }
+
+  if (bibFiles.size === 0) {
+    return null;
+  }
+
+  const bibContent = formatBibtex(loadResources('references'));
+  for (const name of bibFiles) {
+    const fileName = safeFileName(name);
+    if (fileName && files[name.replace(/^\.\//, '')] === undefined) {
+      await fs.writeFile(join(workDir, fileName), bibContent, 'utf-8');
+    }
+  }
+  return tool;
+}
+
+/**
+ * 运行外部命令，超时或取消时终止进程
+ */
+function runCommand(command, args, { cwd, signal }) {
+  throwIfAborted(signal);
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, {
+      cwd,
+      env: {
+        ...process.env,
+        // 日志不折行，便于解析
+        max_print_line: '10000',
+        error_line: '254',
+        half_error_line: '238',
+        // 禁止 shell escape，只允许读写工作目录（不能 \input 工作目录之外的绝对路径或上级目录中的文件）
+        shell_escape: 'f',
+        openin_any: 'p',
+        openout_any: 'p'
+      },
+      stdio: ['ignore', 'pipe', 'pipe']
+    });
+
+    let output = '';
+    let settled = false;
+    const collect = chunk => {
+      if (output.length < MAX_LOG_LENGTH * 2) {
+        output += chunk.toString();
+      }
+    };
+    child.stdout.on('data', collect);
+    child.stderr.on('data', collect);
+
+    const finish = (error, result) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      if (signal) signal.removeEventListener('abort', onAbort);
+      if (error) reject(error);
+      else resolve(result);
+    };
+
+    const timer = setTimeout(() => {
+      child.kill('SIGKILL');
+      finish(new CompileError(`${command} 运行超过 ${LATEX_CONFIG.timeout / 1000} 秒，已终止`, 'TIMEOUT'));
+    }, LATEX_CONFIG.timeout);
+
+    const onAbort = () => {
+      child.kill('SIGKILL');
+      finish(createAbortError());
+    };
+    if (signal) signal.addEventListener('abort', onAbort, { once: true });
+
+    child.on('error', error => {
+      if (error.code === 'ENOENT') {
+        finish(new CompileError(`未找到 ${command}，请安装 TeX Live 或 MiKTeX 并确保其在 PATH 中`, 'ENGINE_NOT_FOUND'));
+      } else {
+        finish(error);
+      }
+    });
+    child.on('close', code => finish(null, { code, output }));
+  });
+}
+
+// 读取工作目录中的文本文件（不存在时返回空字符串）
+async function readText(filePath) {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch {
+    return '';
+  }
+}
+
+// 日志中的文件路径：工作目录内的文件保留相对路径（对应项目文件），系统宏包（绝对路径）只保留文件名
+function logFilePath(path) {
+  if (path.startsWith('/') || /^[A-Za-z]:[\\/]/.test(path)) {
+    return basename(path);
+  }
+  return path.replace(/^(?:\.\/)+/, '');
+}
+
+/**
+ * 按日志中的括号跟踪当前正在读取的文件：TeX 打开文件时输出 "(./chapters/intro.tex"，读完时输出 ")"
+ * 其他括号也入栈（null），与对应的右括号抵消
+ */
+function updateFileStack(stack, line) {
+  for (const match of line.matchAll(/\("?((?:\.{0,2}\/|[A-Za-z]:[\\/])?[^\s()"]*\.[A-Za-z]+)"?|\(|\)/g)) {
+    if (match[0] === ')') {
+      stack.pop();
+    } else {
+      stack.push(match[1] || null);
+    }
+  }
+}
+
+// 栈中最近打开的文件，无法确定时为 null
+function currentFile(stack) {
+  for (let i = stack.length - 1; i >= 0; i--) {
+    if (stack[i]) return logFilePath(stack[i]);
+  }
+  return null;
+}
+
+/**
+ * 解析 TeX 日志（需要 -file-line-error），返回错误和警告
+ * 每项包含 file、fileLine（日志中的行号）和 message，context 为出错位置的源码
+ */
+function parseLatexLog(log) {
+  const errors = [];
+  const warnings = [];
+  const lines = log.split(/\r?\n/);
+  const fileStack = [];
+
+  // 查找错误之后的 "l.<行号> <源码>" 上下文
+  const findContext = (start) => {
+    for (let j = start; j < Math.min(lines.length, start + 12); j++) {
+      const match = /^l\.(\d+)\s?(.*)$/.exec(lines[j]);
+      if (match) {
+        const continuation = (lines[j + 1] || '').trim();
+        return { line: parseInt(match[1], 10), context: `${match[2]}${continuation ? ' ' + continuation : ''}`.trim() };
+      }
+    }
+    return null;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const file = currentFile(fileStack);
+    // 出错位置的源码（l.<行号> 及其续行）中的括号不是文件的打开和关闭
+    if (/^l\.\d+/.test(line)) {
+      i++;
+      continue;
+    }
+    updateFileStack(fileStack, line);
+
+    // ./main.tex:12: Undefined control sequence.
+    const fileLineError = /^(.*?\.(?:tex|sty|cls|bbl|aux|toc|def|cfg)):(\d+): (.*)$/.exec(line);
+    if (fileLineError) {
+      if (fileLineError[3].trim() === 'Emergency stop.') {
+        continue;
+      }
+      const context = findContext(i + 1);
+      errors.push({
+        file: logFilePath(fileLineError[1]),
+        fileLine: parseInt(fileLineError[2], 10),
+        message: fileLineError[3].trim(),
+        context: context ? context.context : ''
+      });
+      continue;
+    }
+
+    // ! LaTeX Error: ...（未使用 -file-line-error 或致命错误）
+    if (line.startsWith('! ')) {
+      const message = line.slice(2).trim();
+      if (message === 'Emergency stop.' || message.startsWith('==> Fatal error')) {
+        continue;
+      }
+      const context = findContext(i + 1);
+      errors.push({
+        file: context ? file : null,
+        fileLine: context && file ? context.line : null,
+        message,
+        context: context ? context.context : ''
+      });
+      continue;
+    }
+
+    // LaTeX Warning: / Package xxx Warning: / Class xxx Warning:，后续以 (xxx) 开头的行是续行
+    const warning = /^(LaTeX(?: Font)?|Package [\w.-]+|Class [\w.-]+) Warning: (.*)$/.exec(line);
+    if (warning) {
+      let message = warning[2];
+      while (i + 1 < lines.length && /^\([\w.-]+\)\s+/.test(lines[i + 1])) {
+        message += ' ' + lines[i + 1].replace(/^\([\w.-]+\)\s+/, '');
+        i++;
+      }
+      const inputLine = /on input line (\d+)/.exec(message);
+      warnings.push({
+        file: inputLine ? file : null,
+        fileLine: inputLine && file ? parseInt(inputLine[1], 10) : null,
+        message: `${warning[1]}: ${message.trim()}`,
+        context: ''
+      });
+      continue;
+    }
+
+    // Overfull \hbox (12.3pt too wide) in paragraph at lines 10--12 / Underfull \hbox (badness 10000) …
+    const overfull = /^((?:Overfull|Underfull) \\[hv]box .*?) (?:in paragraph|in alignment|detected|has occurred while \\output is active) at lines? (\d+)/.exec(line);
+    if (overfull) {
+      warnings.push({
+        file,
+        fileLine: file ? parseInt(overfull[2], 10) : null,
+        message: overfull[1],
+        context: ''
+      });
+    }
+  }
+
+  return { errors, warnings };
+}
+
+/**
+ * 解析 BibTeX 的 .blg 日志
+ */
+function parseBibtexLog(log) {
+  const errors = [];
+  const warnings = [];
+
+  for (const line of log.split(/\r?\n/)) {
+    const warning = /^Warning--(.*)$/.exec(line);
+    if (warning) {
+      warnings.push({ file: null, fileLine: null, message: `BibTeX: ${warning[1].trim()}`, context: '' });
+      continue;
+    }
+    // I was expecting a `,' or a `}'---line 5 of file refs.bib
+    const error = /^(.*)---line (\d+) of file (.*)$/.exec(line);
+    if (error) {
+      errors.push({ file: basename(error[3].trim()), fileLine: parseInt(error[2], 10), message: `BibTeX: ${error[1].trim()}`, context: '' });
+      continue;
+    }
+    if (/^I found no|^I couldn't open/.test(line)) {
+      errors.push({ file: null, fileLine: null, message: `BibTeX: ${line.trim()}`, context: '' });
+    }
+  }
+
+  return { errors, warnings };
+}
+
+/**
+ * 将诊断信息的行号映射到编辑器行号（main.tex 扣除补全的导言区，其他项目文件行号不变）
+ * lineCounts: 各文件的行数 { path: count }
+ */
+function mapDiagnostics(diagnostics, lineOffset, lineCounts) {
+  return diagnostics.map(item => {
+    let line = null;
+    if (item.file && lineCounts[item.file] !== undefined && item.fileLine !== null) {
+      const editorLine = item.file === MAIN_FILE ? item.fileLine - lineOffset : item.fileLine;
+      if (editorLine >= 1 && editorLine <= lineCounts[item.file]) {
+        line = editorLine;
+      }
+    }
+    return { ...item, line };
+  });
+}
+
+/**
+ * 编译 LaTeX 文档
+ * content 为主文件内容，options.files 为项目中的其他文件 { path: content }
+ * 返回 { pdf: Buffer|null, errors, warnings, log, runs, duration }
+ */
+async function compileLatex(content, options = {}) {
+  const { signal, files = {} } = options;
+  const startTime = Date.now();
+  const { source, lineOffset } = prepareSource(content);
+  const workDir = await fs.mkdtemp(join(os.tmpdir(), 'academic-latex-'));
+  const engineArgs = ['-interaction=nonstopmode', '-file-line-error', '-no-shell-escape', MAIN_FILE];
+
+  console.log(`[Compile] 开始编译 (${LATEX_CONFIG.engine})，工作目录: ${workDir}`);
+
+  try {
+    const fileCount = await writeProjectFiles(workDir, files);
+    await fs.writeFile(join(workDir, MAIN_FILE), source, 'utf-8');
+    const imageCount = await writeImages(workDir);
+    // \bibliography 和 \cite 可能位于被 \input 的文件中
+    const allSources = [source, ...Object.entries(files).filter(([path]) => path.endsWith('.tex')).map(([, text]) => text)].join('\n');
+    const bibTool = await writeBibliography(workDir, allSources, files);
+    console.log(`[Compile] 已写入 ${fileCount} 个项目文件、${imageCount} 张图片${bibTool ? `，参考文献工具: ${bibTool}` : ''}`);
+
+    const logPath = join(workDir, MAIN_FILE.replace(/\.tex$/, '.log'));
+    const runEngine = async () => {
+      await runCommand(LATEX_CONFIG.engine, engineArgs, { cwd: workDir, signal });
+      return readText(logPath);
+    };
+
+    let runs = 1;
+    let log = await runEngine();
+    let bibDiagnostics = { errors: [], warnings: [] };
+
+    // 有引用时运行 bibtex/biber，之后再编译两次以解析引用
+    const fatal = !(await fs.pathExists(join(workDir, 'main.pdf'))) && /^! /m.test(log);
+    if (!fatal && bibTool && /\\(no)?cite|\\printbibliography/.test(allSources)) {
+      const command = bibTool === 'biber' ? LATEX_CONFIG.biber : LATEX_CONFIG.bibtex;
+      try {
+        await runCommand(command, ['main'], { cwd: workDir, signal });
+        bibDiagnostics = parseBibtexLog(await readText(join(workDir, 'main.blg')));
+      } catch (error) {
+        // 缺少参考文献工具时仍返回 PDF，引用显示为 [?]
+        if (error.code !== 'ENGINE_NOT_FOUND') throw error;
+        bibDiagnostics.errors.push({ file: null, fileLine: null, message: error.message, context: '' });
+      }
+      while (runs < LATEX_CONFIG.maxRuns) {
+        log = await runEngine();
+        runs++;
+      }
+    }
+
+    // 交叉引用变化时重新编译
+    while (runs < LATEX_CONFIG.maxRuns && /Rerun to get|Please rerun LaTeX|Label\(s\) may have changed/.test(log)) {
+      log = await runEngine();
+      runs++;
+    }
+
+    const pdfPath = join(workDir, 'main.pdf');
+    const pdf = await fs.pathExists(pdfPath) ? await fs.readFile(pdfPath) : null;
+    const parsed = parseLatexLog(log);
+    const lineCounts = { [MAIN_FILE]: content.split('\n').length };
+    for (const [path, text] of Object.entries(files)) {
+      lineCounts[path] = text.split('\n').length;
+    }
+    const duration = Date.now() - startTime;
+
+    console.log(`[Compile] 编译完成: ${runs} 次, ${parsed.errors.length} 个错误, ${parsed.warnings.length} 个警告, ${duration}ms`);
+
+    return {
+      pdf,
+      errors: mapDiagnostics([...parsed.errors, ...bibDiagnostics.errors], lineOffset, lineCounts),
+      warnings: mapDiagnostics([...parsed.warnings, ...bibDiagnostics.warnings], lineOffset, lineCounts),
+      log: log.length > MAX_LOG_LENGTH ? log.slice(-MAX_LOG_LENGTH) : log,
+      runs,
+      duration
+    };
+  } finally {
+    fs.remove(workDir).catch(error => console.error('[Compile] 清理临时目录失败:', error));
+  }
+}
+
+module.exports = {
+  compileLatex,
+  parseLatexLog,
+  parseBibtexLog,
+  prepareSource,
+  CompileError
+};
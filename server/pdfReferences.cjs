@@ -0,0 +1,203 @@
+/**
+ * PDF 关联模块 - 从 PDF 资源提取文献信息，为 PDF 创建或关联参考文献条目
+ *
+ * 关联关系在两边各保存一份：参考文献的 pdfId 指向 PDF 资源，PDF 资源的 referenceId 指向参考文献
+ * 一条参考文献最多关联一个 PDF，以参考文献一侧为准（见 syncPdfLinks）
+ */
+
+const { randomUUID } = require('crypto');
+const { findDuplicate } = require('./referenceDedup.cjs');
+const { ensureCitationKey } = require('./citationKeys.cjs');
+
+// 新式（2101.00001）和旧式（hep-th/9901001）arXiv ID
+const ARXIV_ID_PATTERN = /(\d{4}\.\d{4,5}|[a-z-]+(?:\.[A-Z]{2})?\/\d{7})(?:v\d+)?/i;
+const DOI_PATTERN = /\b(10\.\d{4,9}\/[^\s"<>]+[^\s"<>.,;)\]])/;
+
+// 无意义的标题：排版软件自动填写的 PDF 元数据，以及 download_paper 缺少论文信息时使用的 "arXiv论文: ID"
+const PLACEHOLDER_TITLE_PATTERN = /^(?:untitled|microsoft word\b.*|.*\.(?:docx?|tex|dvi|pdf)|arXiv论文: .*)$/i;
+
+// ==================== 提取文献信息 ====================
+
+// arXiv ID 的前四位是年月：2101 → 2021
+function yearFromArxivId(arxivId) {
+  const match = String(arxivId || '').match(/^(\d{2})\d{2}\./) || String(arxivId || '').match(/\/(\d{2})\d{5}$/);
+  if (!match) return undefined;
+  const year = Number(match[1]);
+  return year >= 91 ? 1900 + year : 2000 + year;
+}
+
+function usableTitle(title) {
+  const value = String(title || '').replace(/\s+/g, ' ').trim();
+  return value.length >= 4 && !PLACEHOLDER_TITLE_PATTERN.test(value) ? value : '';
+}
+
+// PDF 元数据中的作者通常用逗号、分号或 and 分隔
+function splitAuthors(author) {
+  return String(author || '').split(/\s*(?:;|,|\band\b|&)\s*/).map(name => name.trim()).filter(Boolean);
+}
+
+/**
+ * 提取 PDF 对应的文献信息
+ * 依次使用：PDF 资源上已有的字段（下载论文时从搜索结果填写）、PDF 元数据、正文第一页、文件名
+ * @param {object} pdf - PDF 资源
+ * @param {object} [extraction] - extractPDFText 的结果 { text, metadata }
+ * @param {object} [paper] - arXiv 搜索结果 { title, authors, abstract, published }
+ * @returns {{ title, authors, year, arxivId, doi, abstract }} 无法提取的字段为空
+ */
+function extractPdfMetadata(pdf, extraction = null, paper = null) {
+  const info = extraction?.metadata || {};
+  // 只在前几千个字符中查找，避免匹配到参考文献列表里其他论文的 ID
+  const head = String(extraction?.text || pdf.extractedText || '').slice(0, 3000);
+
+  const arxivMatch = String(pdf.arxiv_id || '').match(ARXIV_ID_PATTERN)
+    || head.match(/arXiv:\s*([^\s]+)/i)?.[1]?.match(ARXIV_ID_PATTERN)
+    || String(pdf.name || '').replace(/\.pdf$/i, '').replace(/_/g, '/').match(new RegExp(`^${ARXIV_ID_PATTERN.source}$`, 'i'));
+  const arxivId = arxivMatch ? arxivMatch[1] : '';
+
+  const authors = paper?.authors?.length ? paper.authors
+    : (Array.isArray(pdf.authors) && pdf.authors.length ? pdf.authors : splitAuthors(info.author));
+
+  return {
+    title: usableTitle(paper?.title) || usableTitle(pdf.title) || usableTitle(info.title),
+    authors,
+    year: paper?.published ? new Date(paper.published).getFullYear() : yearFromArxivId(arxivId),
+    arxivId,
+    doi: head.match(DOI_PATTERN)?.[1] || '',
+    abstract: paper?.abstract || ''
+  };
+}
+
+// 由提取的文献信息生成参考文献条目（不含 id 和引用键）
+function referenceFromMetadata(metadata) {
+  const reference = {
+    title: metadata.title,
+    authors: metadata.authors || [],
+    entryType: 'misc'
+  };
+  if (metadata.year) reference.year = metadata.year;
+  if (metadata.arxivId) {
+    reference.arxivId = metadata.arxivId;
+    reference.url = `https://arxiv.org/abs/${metadata.arxivId}`;
+  }
+  if (metadata.doi) {
+    reference.doi = metadata.doi;
+    reference.entryType = 'article';
+  }
+  if (metadata.abstract) reference.abstract = metadata.abstract;
+  return reference;
+}
+
+/**
+ * 查找与文献信息对应的参考文献，没有时新建条目（按模式生成引用键）并加入 references
+ * 缺少标题时只查找（按 arXiv ID / DOI），不新建
+ * @returns {{ reference: object, created: boolean } | null}
+ */
+function findOrCreateReference(references, metadata, pattern) {
+  const candidate = referenceFromMetadata(metadata);
+  if (!candidate.title && !candidate.arxivId && !candidate.doi) return null;
+
+  const duplicate = findDuplicate(references, candidate);
+  if (duplicate) return { reference: duplicate.reference, created: false };
+  if (!candidate.title) return null;
+
+  const reference = { id: randomUUID(), ...candidate };
+  ensureCitationKey(references, reference, pattern);
+  references.push(reference);
+  return { reference, created: true };
+}
+
+// ==================== 关联 ====================
+
+/**
+ * 关联 PDF 与参考文献（直接修改两边的条目），并解除两者原有的关联
+ */
+function linkPdfReference(references, pdfs, pdfId, referenceId) {
+  const pdf = pdfs.find(item => item.id === pdfId);
+  if (!pdf) {
+    throw new Error(`未找到PDF资源: ${pdfId}`);
+  }
+  const reference = references.find(item => item.id === referenceId);
+  if (!reference) {
+    throw new Error(`未找到参考文献: ${referenceId}`);
+  }
+
+  unlinkPdf(references, pdfs, pdfId);
+  for (const other of pdfs) {
+    if (other.referenceId === referenceId) delete other.referenceId;
+  }
+  reference.pdfId = pdfId;
+  pdf.referenceId = referenceId;
+  return { pdf, reference };
+}
+
+// 解除 PDF 的关联，返回是否有变化
+function unlinkPdf(references, pdfs, pdfId) {
+  let changed = false;
+  for (const reference of references) {
+    if (reference.pdfId === pdfId) {
+      delete reference.pdfId;
+      changed = true;
+    }
+  }
+  const pdf = pdfs.find(item => item.id === pdfId);
+  if (pdf && pdf.referenceId) {
+    delete pdf.referenceId;
+    changed = true;
+  }
+  return changed;
+}
+
+/**
+ * 删除或合并条目后修正两边的关联：以参考文献的 pdfId 为准，
+ * 去掉指向已删除 PDF 的 pdfId，并让 PDF 的 referenceId 与之一致
+ * @returns {{ referencesChanged: boolean, pdfsChanged: boolean }}
+ */
+function syncPdfLinks(references, pdfs) {
+  let referencesChanged = false;
+  let pdfsChanged = false;
+  const pdfIds = new Set(pdfs.map(pdf => pdf.id));
+  const owners = new Map();
+
+  for (const reference of references) {
+    if (!reference.pdfId) continue;
+    if (!pdfIds.has(reference.pdfId) || owners.has(reference.pdfId)) {
+      delete reference.pdfId;
+      referencesChanged = true;
+    } else {
+      owners.set(reference.pdfId, reference.id);
+    }
+  }
+
+  for (const pdf of pdfs) {
+    const owner = owners.get(pdf.id);
+    if (owner && pdf.referenceId !== owner) {
+      pdf.referenceId = owner;
+      pdfsChanged = true;
+    } else if (!owner && pdf.referenceId) {
+      delete pdf.referenceId;
+      pdfsChanged = true;
+    }
+  }
+  return { referencesChanged, pdfsChanged };
+}
+
+/**
+ * 为 PDF 查找或创建参考文献并建立关联
+ * @returns {{ reference, created } | null} 无法提取文献信息时为 null
+ */
+function linkPdfToLibrary(references, pdfs, pdf, metadata, pattern) {
+  const found = findOrCreateReference(references, metadata, pattern);
+  if (!found) return null;
+  linkPdfReference(references, pdfs, pdf.id, found.reference.id);
+  return found;
+}
+
+module.exports = {
+  extractPdfMetadata,
+  referenceFromMetadata,
+  findOrCreateReference,
+  linkPdfReference,
+  linkPdfToLibrary,
+  unlinkPdf,
+  syncPdfLinks
+};
@@ -3,6 +3,9 @@
  */
 
 const fs = require('fs-extra');
+const { join } = require('path');
+const { tmpdir } = require('os');
+const { randomUUID } = require('crypto');
 
 let pdfjsLib = null;
 
@@ -222,7 +225,24 @@ async function extractPDFText(filePath) {
   }
 }
 
+// 从 dataUrl 提取PDF文本（前端上传的PDF只保存为 dataUrl）：写入临时文件后按文件提取
+async function extractPDFTextFromDataUrl(dataUrl) {
+  const match = String(dataUrl || '').match(/^data:[^;,]*;base64,(.*)$/s);
+  if (!match) {
+    return { success: false, error: '无效的PDF数据', text: '' };
+  }
+
+  const filePath = join(tmpdir(), `upload-${randomUUID()}.pdf`);
+  try {
+    await fs.writeFile(filePath, Buffer.from(match[1], 'base64'));
+    return await extractPDFText(filePath);
+  } finally {
+    await fs.remove(filePath);
+  }
+}
+
 module.exports = {
   loadPdfJs,
-  extractPDFText
+  extractPDFText,
+  extractPDFTextFromDataUrl
 };
@@ -0,0 +1,278 @@
+/**
+ * 项目管理模块 - 多篇论文（项目）的创建、重命名、归档、删除和切换
+ *
+ * 每个项目保存在 storage/projects/<id> 目录下：
+ * - project.json: 项目信息（名称、是否归档、是否使用全局资源库）
+ * - files/: 论文文件（main.tex、章节、.bib 等）
+ * - resources/: 项目自己的资源库（参考文献、图片等，格式与 storage/*.json 相同）
+ * - chat.json: 工具使用历史（旧版的单个对话记录迁移到 chats/）
+ * - chats/: 对话会话（见 chatStore.cjs）
+ * - snapshots/: 版本快照（见 snapshotStore.cjs）
+ * 启用 Git 的项目，files/ 同时是本地 Git 仓库（见 gitStore.cjs）。
+ * 使用全局资源库的项目共用 storage/*.json。同一时间只有一个打开的项目，
+ * 项目文件、资源和编译都作用于当前项目；Agent 运行作用于发起运行时的项目（见 getProjectWorkspace）。
+ */
+
+const fs = require('fs-extra');
+const { join } = require('path');
+const { STORAGE_DIR } = require('./config.cjs');
+const { setResourceDir } = require('./storage.cjs');
+const { ProjectError, openProjectDir } = require('./projectStore.cjs');
+
+const PROJECTS_DIR = join(STORAGE_DIR, 'projects');
+// 记录当前打开的项目
+const STATE_FILE = join(PROJECTS_DIR, 'state.json');
+// 首次启动时创建的默认项目，文件目录与单项目时相同（storage/projects/default/files）
+const DEFAULT_PROJECT_ID = 'default';
+
+const MAX_NAME_LENGTH = 100;
+
+let activeProjectId = null;
+
+function projectDir(id) {
+  return join(PROJECTS_DIR, id);
+}
+
+function metaPath(id) {
+  return join(projectDir(id), 'project.json');
+}
+
+// 项目 ID 只包含字母数字和 -，防止路径穿越
+function isValidId(id) {
+  return typeof id === 'string' && /^[a-z0-9-]+$/.test(id);
+}
+
+function generateId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function validateName(name) {
+  const trimmed = typeof name === 'string' ? name.trim() : '';
+  if (!trimmed) {
+    throw new ProjectError('项目名称不能为空', 'INVALID');
+  }
+  if (trimmed.length > MAX_NAME_LENGTH) {
+    throw new ProjectError(`项目名称不能超过 ${MAX_NAME_LENGTH} 个字符`, 'INVALID');
+  }
+  return trimmed;
+}
+
+function readMeta(id) {
+  if (!isValidId(id) || !fs.existsSync(metaPath(id))) {
+    throw new ProjectError(`项目不存在: ${id}`, 'NOT_FOUND');
+  }
+  return fs.readJsonSync(metaPath(id));
+}
+
+function writeMeta(meta) {
+  fs.writeJsonSync(metaPath(meta.id), meta, { spaces: 2 });
+  return meta;
+}
+
+// 列出所有项目（未归档的在前，按最近更新排序）
+function listProjects() {
+  if (!fs.existsSync(PROJECTS_DIR)) return [];
+
+  const projects = [];
+  for (const entry of fs.readdirSync(PROJECTS_DIR, { withFileTypes: true })) {
+    if (!entry.isDirectory() || !fs.existsSync(metaPath(entry.name))) continue;
+    try {
+      projects.push(fs.readJsonSync(metaPath(entry.name)));
+    } catch (error) {
+      console.error(`[项目] 读取项目信息失败 (${entry.name}):`, error);
+    }
+  }
+  return projects.sort((a, b) => (a.archived === b.archived ? b.updated_at.localeCompare(a.updated_at) : a.archived ? 1 : -1));
+}
+
+function getProject(id) {
+  return readMeta(id);
+}
+
+function getActiveProject() {
+  return activeProjectId ? readMeta(activeProjectId) : null;
+}
+
+// 项目目录（项目不存在时抛出 NOT_FOUND）
+function getProjectPath(id) {
+  readMeta(id);
+  return projectDir(id);
+}
+
+/**
+ * 项目的文件目录和资源库目录（不依赖当前打开的项目）
+ * Agent 运行开始时确定，运行期间用户切换项目时仍读写原项目
+ */
+function getProjectWorkspace(id) {
+  const meta = readMeta(id);
+  return {
+    project: meta,
+    filesDir: join(projectDir(id), 'files'),
+    resourceDir: resourceDirOf(meta)
+  };
+}
+
+// 当前项目的目录（项目文件、快照等都保存在其中）
+function getActiveProjectDir() {
+  if (!activeProjectId) {
+    throw new ProjectError('没有打开的项目', 'NOT_FOUND');
+  }
+  return projectDir(activeProjectId);
+}
+
+/**
+ * 创建项目
+ * @param {object} options - { name, use_global_library }
+ * @param {string} [id] - 项目 ID，默认自动生成
+ */
+function createProject({ name, use_global_library = false } = {}, id = generateId()) {
+  const now = new Date().toISOString();
+  const meta = {
+    id,
+    name: validateName(name),
+    archived: false,
+    use_global_library: Boolean(use_global_library),
+    use_git: false,
+    created_at: now,
+    updated_at: now
+  };
+
+  fs.ensureDirSync(join(projectDir(meta.id), 'files'));
+  fs.ensureDirSync(join(projectDir(meta.id), 'resources'));
+  writeMeta(meta);
+  console.log(`[项目] 已创建项目: ${meta.name} (${meta.id})`);
+  return meta;
+}
+
+/**
+ * 更新项目信息（重命名、归档/恢复、切换资源库、启用/停用 Git）
+ * 当前打开的项目不能归档；切换资源库时立即生效；Git 仓库由 gitStore 初始化
+ */
+function updateProject(id, updates = {}) {
+  const meta = readMeta(id);
+
+  if (updates.name !== undefined) {
+    meta.name = validateName(updates.name);
+  }
+  if (updates.archived !== undefined) {
+    if (updates.archived && id === activeProjectId) {
+      throw new ProjectError('不能归档当前打开的项目，请先切换到其他项目', 'INVALID');
+    }
+    meta.archived = Boolean(updates.archived);
+  }
+  if (updates.use_git !== undefined) {
+    meta.use_git = Boolean(updates.use_git);
+  }
+  const libraryChanged = updates.use_global_library !== undefined && Boolean(updates.use_global_library) !== meta.use_global_library;
+  if (libraryChanged) {
+    meta.use_global_library = Boolean(updates.use_global_library);
+  }
+
+  meta.updated_at = new Date().toISOString();
+  writeMeta(meta);
+
+  if (libraryChanged && id === activeProjectId) {
+    setResourceDir(resourceDirOf(meta));
+  }
+  return meta;
+}
+
+// 删除项目及其全部文件（当前打开的项目不能删除）
+function deleteProject(id) {
+  const meta = readMeta(id);
+  if (id === activeProjectId) {
+    throw new ProjectError('不能删除当前打开的项目，请先切换到其他项目', 'INVALID');
+  }
+  fs.removeSync(projectDir(id));
+  console.log(`[项目] 已删除项目: ${meta.name} (${id})`);
+}
+
+function resourceDirOf(meta) {
+  return meta.use_global_library ? STORAGE_DIR : join(projectDir(meta.id), 'resources');
+}
+
+/**
+ * 打开项目：项目文件、资源库切换到该项目（已归档的项目需要先恢复）
+ */
+function activateProject(id) {
+  const meta = readMeta(id);
+  if (meta.archived) {
+    throw new ProjectError(`项目已归档: ${meta.name}，请先恢复`, 'INVALID');
+  }
+
+  openProjectDir(join(projectDir(id), 'files'));
+  setResourceDir(resourceDirOf(meta));
+  activeProjectId = id;
+  fs.writeJsonSync(STATE_FILE, { active_project: id }, { spaces: 2 });
+  console.log(`[项目] 已打开项目: ${meta.name} (${id})`);
+  return meta;
+}
+
+// 读取项目的对话记录和工具使用历史
+function loadChat(id) {
+  readMeta(id);
+  const chatPath = join(projectDir(id), 'chat.json');
+  if (!fs.existsSync(chatPath)) {
+    return { messages: [], tool_history: [] };
+  }
+  try {
+    const chat = fs.readJsonSync(chatPath);
+    return { messages: chat.messages || [], tool_history: chat.tool_history || [] };
+  } catch (error) {
+    console.error(`[项目] 读取对话记录失败 (${id}):`, error);
+    return { messages: [], tool_history: [] };
+  }
+}
+
+// 保存对话记录（只更新传入的字段，对话和工具历史可分别保存）
+function saveChat(id, updates) {
+  const chat = loadChat(id);
+  if (Array.isArray(updates.messages)) chat.messages = updates.messages;
+  if (Array.isArray(updates.tool_history)) chat.tool_history = updates.tool_history;
+  fs.writeJsonSync(join(projectDir(id), 'chat.json'), chat);
+  return chat;
+}
+
+/**
+ * 启动时初始化：没有项目时创建默认项目，打开上次使用的项目
+ */
+function initializeProjects() {
+  fs.ensureDirSync(PROJECTS_DIR);
+
+  if (listProjects().length === 0) {
+    // 默认项目使用全局资源库，保留已有的参考文献等资源；已有的论文文件保留在 files/ 中
+    createProject({ name: '我的论文', use_global_library: true }, DEFAULT_PROJECT_ID);
+  }
+
+  let lastActive = null;
+  if (fs.existsSync(STATE_FILE)) {
+    try {
+      lastActive = fs.readJsonSync(STATE_FILE).active_project;
+    } catch (error) {
+      console.error('[项目] 读取项目状态失败:', error);
+    }
+  }
+
+  const projects = listProjects();
+  const target = projects.find(project => project.id === lastActive && !project.archived)
+    || projects.find(project => !project.archived)
+    || createProject({ name: '我的论文' });
+  activateProject(target.id);
+}
+
+module.exports = {
+  PROJECTS_DIR,
+  listProjects,
+  getProject,
+  getActiveProject,
+  getActiveProjectDir,
+  getProjectPath,
+  getProjectWorkspace,
+  createProject,
+  updateProject,
+  deleteProject,
+  activateProject,
+  loadChat,
+  saveChat,
+  initializeProjects
+};
@@ -0,0 +1,212 @@
+/**
+ * 项目存储模块 - 多文件 LaTeX 项目
+ *
+ * 项目文件按原样保存在当前项目的文件目录下（main.tex、chapters/*.tex、refs.bib、样式文件等），
+ * 路径一律使用相对于项目根目录、以 / 分隔的形式，不允许跳出项目目录。
+ * 当前项目的目录由 projectRegistry 在切换项目时通过 openProjectDir 设置。
+ */
+
+const fs = require('fs-extra');
+const { join, dirname, extname, posix } = require('path');
+
+// 当前项目的文件目录
+let projectDir = null;
+
+// 主文件（编译和预览的入口）
+const MAIN_FILE = 'main.tex';
+
+// 项目中允许的文本文件类型
+const PROJECT_FILE_EXTENSIONS = ['.tex', '.bib', '.sty', '.cls', '.bst', '.bbx', '.cbx', '.cfg', '.def', '.txt', '.md'];
+
+// 新项目的主文件内容
+const DEFAULT_MAIN_CONTENT = `\\documentclass{article}
+\\usepackage{ctex}
+\\title{学术论文智能写作系统}
+\\author{作者}
+\\date{\\today}
+\\begin{document}
+\\maketitle
+
+\\section{引言}
+
+这是引言部分，介绍研究背景和意义。
+
+\\section{相关工作}
+
+这是相关工作部分，介绍已有的研究成果。
+
+\\section{方法}
+
+这是方法部分，介绍研究方法和实验设计。
+
+\\section{结论}
+
+这是结论部分，总结研究成果和未来工作。
+
+\\end{document}`;
+
+// 项目操作失败（路径非法、文件或项目不存在、已存在、操作不允许）
+class ProjectError extends Error {
+  constructor(message, code) {
+    super(message);
+    this.name = 'ProjectError';
+    this.code = code;
+  }
+}
+
+/**
+ * 规范化项目内路径：统一为 / 分隔，去掉开头的 ./，拒绝绝对路径、.. 和不支持的文件类型
+ */
+function normalizeProjectPath(path) {
+  const raw = String(path || '').replace(/\\/g, '/').trim();
+  if (!raw || raw.startsWith('/') || /^[a-zA-Z]:/.test(raw)) {
+    throw new ProjectError(`无效的文件路径: ${path}`, 'INVALID_PATH');
+  }
+
+  const normalized = posix.normalize(raw).replace(/^(\.\/)+/, '');
+  const segments = normalized.split('/');
+  if (segments.some(segment => !segment || segment === '.' || segment === '..' || segment.startsWith('.'))) {
+    throw new ProjectError(`无效的文件路径: ${path}`, 'INVALID_PATH');
+  }
+  if (!PROJECT_FILE_EXTENSIONS.includes(extname(normalized).toLowerCase())) {
+    throw new ProjectError(`不支持的文件类型: ${path}（支持 ${PROJECT_FILE_EXTENSIONS.join(' ')}）`, 'INVALID_PATH');
+  }
+  return normalized;
+}
+
+function getProjectDir() {
+  if (!projectDir) {
+    throw new ProjectError('没有打开的项目', 'NOT_FOUND');
+  }
+  return projectDir;
+}
+
+function resolveFilePath(path) {
+  return join(getProjectDir(), ...normalizeProjectPath(path).split('/'));
+}
+
+// 打开项目文件目录，目录中没有主文件时创建只包含 main.tex 的项目
+function openProjectDir(dir) {
+  if (!fs.existsSync(join(dir, MAIN_FILE))) {
+    fs.ensureDirSync(dir);
+    fs.writeFileSync(join(dir, MAIN_FILE), DEFAULT_MAIN_CONTENT, 'utf-8');
+    console.log(`[项目] 已创建主文件: ${join(dir, MAIN_FILE)}`);
+  }
+  projectDir = dir;
+}
+
+// 递归列出项目文件（按路径排序，主文件在最前），dir 默认为当前项目的文件目录
+function listFiles(dir = getProjectDir()) {
+  const files = [];
+
+  const walk = (dir, prefix) => {
+    if (!fs.existsSync(dir)) return;
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      if (entry.name.startsWith('.')) continue;
+      const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+      const fullPath = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        walk(fullPath, relativePath);
+      } else if (PROJECT_FILE_EXTENSIONS.includes(extname(entry.name).toLowerCase())) {
+        const stat = fs.statSync(fullPath);
+        files.push({ path: relativePath, size: stat.size, modified: stat.mtime.toISOString() });
+      }
+    }
+  };
+  walk(dir, '');
+
+  return files.sort((a, b) => {
+    if (a.path === MAIN_FILE) return -1;
+    if (b.path === MAIN_FILE) return 1;
+    return a.path.localeCompare(b.path);
+  });
+}
+
+function readFile(path) {
+  const filePath = resolveFilePath(path);
+  if (!fs.existsSync(filePath)) {
+    throw new ProjectError(`文件不存在: ${path}`, 'NOT_FOUND');
+  }
+  return fs.readFileSync(filePath, 'utf-8');
+}
+
+// 写入文件（不存在时创建，包括中间目录）
+function writeFile(path, content) {
+  const filePath = resolveFilePath(path);
+  const created = !fs.existsSync(filePath);
+  fs.ensureDirSync(dirname(filePath));
+  fs.writeFileSync(filePath, String(content ?? ''), 'utf-8');
+  return { path: normalizeProjectPath(path), created };
+}
+
+// 创建新文件，文件已存在时报错
+function createFile(path, content = '') {
+  if (fs.existsSync(resolveFilePath(path))) {
+    throw new ProjectError(`文件已存在: ${path}`, 'EXISTS');
+  }
+  return writeFile(path, content).path;
+}
+
+// 删除空目录，直到项目根目录
+function removeEmptyDirs(dir) {
+  const root = getProjectDir();
+  while (dir.startsWith(root) && dir !== root && fs.readdirSync(dir).length === 0) {
+    fs.rmdirSync(dir);
+    dir = dirname(dir);
+  }
+}
+
+function deleteFile(path) {
+  if (normalizeProjectPath(path) === MAIN_FILE) {
+    throw new ProjectError('不能删除主文件 main.tex', 'INVALID_PATH');
+  }
+  const filePath = resolveFilePath(path);
+  if (!fs.existsSync(filePath)) {
+    throw new ProjectError(`文件不存在: ${path}`, 'NOT_FOUND');
+  }
+  fs.removeSync(filePath);
+  removeEmptyDirs(dirname(filePath));
+}
+
+function renameFile(from, to) {
+  if (normalizeProjectPath(from) === MAIN_FILE) {
+    throw new ProjectError('不能重命名主文件 main.tex', 'INVALID_PATH');
+  }
+  const fromPath = resolveFilePath(from);
+  const toPath = resolveFilePath(to);
+  if (!fs.existsSync(fromPath)) {
+    throw new ProjectError(`文件不存在: ${from}`, 'NOT_FOUND');
+  }
+  if (fs.existsSync(toPath)) {
+    throw new ProjectError(`文件已存在: ${to}`, 'EXISTS');
+  }
+  fs.ensureDirSync(dirname(toPath));
+  fs.moveSync(fromPath, toPath);
+  removeEmptyDirs(dirname(fromPath));
+  return normalizeProjectPath(to);
+}
+
+// 读取所有项目文件内容 { path: content }，dir 默认为当前项目的文件目录
+function readProjectFiles(dir = getProjectDir()) {
+  const files = {};
+  for (const file of listFiles(dir)) {
+    files[file.path] = fs.readFileSync(join(dir, ...file.path.split('/')), 'utf-8');
+  }
+  return files;
+}
+
+module.exports = {
+  MAIN_FILE,
+  PROJECT_FILE_EXTENSIONS,
+  ProjectError,
+  normalizeProjectPath,
+  openProjectDir,
+  getProjectDir,
+  listFiles,
+  readFile,
+  writeFile,
+  createFile,
+  deleteFile,
+  renameFile,
+  readProjectFiles
+};
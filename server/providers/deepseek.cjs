@@ -0,0 +1,30 @@
+/**
+ * DeepSeek 服务商定义
+ */
+
+module.exports = {
+  id: 'deepseek',
+  name: 'DeepSeek',
+  baseUrl: 'https://api.deepseek.com/v1',
+  requiresApiKey: true,
+  models: [
+    {
+      id: 'deepseek',
+      name: 'DeepSeek',
+      model: 'deepseek-chat',
+      configKey: 'deepseek-chat',
+      streaming: true,
+      reasoning: false,
+      supportsTools: true
+    },
+    {
+      id: 'deepseek-reasoner',
+      name: 'DeepSeek R1',
+      model: 'deepseek-reasoner',
+      configKey: 'deepseek-reasoner',
+      streaming: true,
+      reasoning: true,
+      supportsTools: false  // 不支持原生 function calling，使用 TOOL_CALL 文本协议
+    }
+  ]
+};
@@ -0,0 +1,180 @@
+/**
+ * 模型服务商注册表 - 统一管理可用的服务商与模型
+ *
+ * 每个服务商声明 baseUrl、模型列表（流式输出/思考过程/工具调用能力）和错误信息差异，
+ * 调用统一走 OpenAI 兼容适配器；新增服务商只需 registerProvider。
+ */
+
+const { MODEL_CONFIG } = require('../config.cjs');
+const { createChatCompletion } = require('./openaiCompatible.cjs');
+const { createLocalProvider } = require('./local.cjs');
+
+const providers = new Map();
+
+// 注册服务商
+function registerProvider(provider) {
+  if (!provider || !provider.id || !provider.baseUrl) {
+    throw new Error('服务商定义缺少 id 或 baseUrl');
+  }
+  provider.models = provider.models || [];
+  if (provider.requiresApiKey === undefined) {
+    provider.requiresApiKey = true;
+  }
+  providers.set(provider.id, provider);
+  console.log(`[Providers] 已注册服务商: ${provider.name || provider.id}`);
+}
+
+// 获取服务商
+function getProvider(providerId) {
+  return providers.get(providerId) || null;
+}
+
+// 在已注册的服务商中查找模型
+function findModel(modelId) {
+  for (const provider of providers.values()) {
+    const model = provider.models.find(m => m.id === modelId);
+    if (model) {
+      return { provider, model };
+    }
+  }
+  return null;
+}
+
+// 刷新支持自动发现的服务商的模型列表（失败时保留已有列表）
+async function discoverModels() {
+  for (const provider of providers.values()) {
+    if (!provider.discoverModels) continue;
+    try {
+      await provider.discoverModels();
+    } catch (error) {
+      console.warn(`[Providers] 获取 ${provider.name} 模型列表失败:`, error.message);
+    }
+  }
+}
+
+/**
+ * 解析模型ID对应的服务商和模型定义
+ * @returns {Promise<{ provider: object, model: object }>}
+ */
+async function resolveModel(modelId) {
+  let resolved = findModel(modelId);
+  if (!resolved) {
+    await discoverModels();
+    resolved = findModel(modelId);
+  }
+  if (!resolved) {
+    throw new Error('不支持的模型');
+  }
+  return resolved;
+}
+
+// 获取模型的提示词和采样参数配置（缺少配置时报错，避免误用其他模型的上下文预算）
+function getModelConfig(model) {
+  const config = MODEL_CONFIG[model.configKey];
+  if (!config) {
+    throw new Error(`模型 ${model.id} 缺少配置: MODEL_CONFIG['${model.configKey}']`);
+  }
+  return config;
+}
+
+// 获取模型的上下文预算（模型定义中的值优先于 MODEL_CONFIG）
+function getModelLimits(model) {
+  const config = getModelConfig(model);
+  return {
+    contextWindow: model.contextWindow || config.contextWindow,
+    maxTokens: model.maxTokens || config.maxTokens,
+    toolResultMaxTokens: model.toolResultMaxTokens || config.toolResultMaxTokens,
+    tokenEstimate: model.tokenEstimate || config.tokenEstimate
+  };
+}
+
+/**
+ * 列出所有可用模型（供前端模型选择器使用）
+ */
+async function listModels() {
+  await discoverModels();
+
+  const models = [];
+  for (const provider of providers.values()) {
+    for (const model of provider.models) {
+      models.push({
+        id: model.id,
+        name: model.name,
+        provider: provider.id,
+        providerName: provider.name,
+        streaming: Boolean(model.streaming),
+        reasoning: Boolean(model.reasoning),
+        supportsTools: Boolean(model.supportsTools),
+        requiresApiKey: Boolean(provider.requiresApiKey)
+      });
+    }
+  }
+  return models;
+}
+
+/**
+ * 调用模型
+ * @param {string} modelId - 前端模型ID
+ * @param {object} options
+ * @param {Array} options.messages - 对话消息
+ * @param {string} [options.apiKey]
+ * @param {boolean} [options.stream] - 默认按模型能力决定
+ * @param {Array} [options.tools] - 工具定义，模型不支持原生工具调用时忽略
+ * @param {Function} [options.onChunk]
+ * @param {AbortSignal} [options.signal] - 取消信号
+ */
+async function chatCompletion(modelId, options) {
+  const { provider, model } = await resolveModel(modelId);
+  const apiKey = options.apiKey || provider.apiKey;
+
+  if (provider.requiresApiKey && !apiKey) {
+    throw new Error('API Key不能为空');
+  }
+
+  const config = getModelConfig(model);
+  const params = {
+    temperature: config.temperature,
+    max_tokens: getModelLimits(model).maxTokens
+  };
+  if (config.reasoningEffort) {
+    params.reasoning_effort = config.reasoningEffort;
+  }
+  // 模型专属参数（如 Qwen 思考模式的 enable_thinking）
+  Object.assign(params, model.params);
+
+  // 只支持流式的模型始终使用流式输出，普通接口调用时由适配器拼接完整结果
+  let stream = options.stream !== undefined ? options.stream : model.streaming;
+  if (model.streamingOnly) {
+    stream = true;
+  }
+
+  return createChatCompletion(provider, {
+    model: model.model,
+    messages: options.messages,
+    apiKey,
+    stream,
+    tools: model.supportsTools ? options.tools : undefined,
+    params,
+    onChunk: options.onChunk,
+    signal: options.signal
+  });
+}
+
+// 注册内置服务商
+registerProvider(require('./deepseek.cjs'));
+registerProvider(require('./qwen.cjs'));
+
+const localProvider = createLocalProvider();
+if (localProvider) {
+  registerProvider(localProvider);
+}
+
+module.exports = {
+  registerProvider,
+  getProvider,
+  resolveModel,
+  getModelConfig,
+  getModelLimits,
+  listModels,
+  chatCompletion
+};
@@ -0,0 +1,54 @@
+/**
+ * 局域网自托管模型服务商（vLLM / llama.cpp / Ollama 等 OpenAI 兼容服务）
+ */
+
+const { LOCAL_LLM_CONFIG } = require('../config.cjs');
+const { fetchModelIds } = require('./openaiCompatible.cjs');
+
+// 将服务端模型名转换为模型定义，模型ID加前缀避免与云端模型冲突
+function toModelDefinition(modelName) {
+  return {
+    id: `local:${modelName}`,
+    name: modelName,
+    model: modelName,
+    configKey: 'local',
+    streaming: true,
+    reasoning: false,
+    supportsTools: LOCAL_LLM_CONFIG.supportsTools,
+    // 覆盖 MODEL_CONFIG 中的上下文预算
+    contextWindow: LOCAL_LLM_CONFIG.contextWindow,
+    maxTokens: LOCAL_LLM_CONFIG.maxTokens,
+    toolResultMaxTokens: LOCAL_LLM_CONFIG.toolResultMaxTokens
+  };
+}
+
+// 根据环境变量创建本地服务商，未配置 baseUrl 时返回 null
+function createLocalProvider() {
+  if (!LOCAL_LLM_CONFIG.baseUrl) {
+    return null;
+  }
+
+  const provider = {
+    id: 'local',
+    name: LOCAL_LLM_CONFIG.name,
+    baseUrl: LOCAL_LLM_CONFIG.baseUrl.replace(/\/+$/, ''),
+    requiresApiKey: false,
+    apiKey: LOCAL_LLM_CONFIG.apiKey,
+    models: LOCAL_LLM_CONFIG.models.map(toModelDefinition)
+  };
+
+  // 未指定模型列表时，从服务端 /models 接口获取
+  if (provider.models.length === 0) {
+    provider.discoverModels = async () => {
+      const modelIds = await fetchModelIds(provider, provider.apiKey);
+      provider.models = modelIds.map(toModelDefinition);
+      return provider.models;
+    };
+  }
+
+  return provider;
+}
+
+module.exports = {
+  createLocalProvider
+};
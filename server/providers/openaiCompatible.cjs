@@ -0,0 +1,278 @@
+/**
+ * OpenAI兼容接口适配器 - 通用的 /chat/completions 调用
+ *
+ * DeepSeek、DashScope 兼容模式以及局域网内自托管的 vLLM / llama.cpp / Ollama 都使用该协议，
+ * 支持普通/流式输出、思考过程（reasoning_content）和原生工具调用（tool_calls）。
+ */
+
+const axios = require('axios');
+const { createAbortError, isAbortError } = require('../abortUtils.cjs');
+
+// 没有 index 的增量（部分本地服务）：带新的 id 时是下一个调用，否则接在最后一个调用之后
+function deltaIndex(toolCalls, delta) {
+  if (typeof delta.index === 'number') {
+    return delta.index;
+  }
+  const last = toolCalls[toolCalls.length - 1];
+  return !last || (delta.id && delta.id !== last.id) ? toolCalls.length : toolCalls.length - 1;
+}
+
+// 合并流式返回的工具调用增量：同一 index 的 arguments 分多段返回，需要按顺序拼接
+function mergeToolCallDeltas(toolCalls, deltas) {
+  for (const delta of deltas) {
+    const index = deltaIndex(toolCalls, delta);
+    if (!toolCalls[index]) {
+      toolCalls[index] = { id: '', type: 'function', function: { name: '', arguments: '' } };
+    }
+
+    const target = toolCalls[index];
+    if (delta.id) {
+      target.id = delta.id;
+    }
+    if (delta.function?.name && !target.function.name) {
+      target.function.name = delta.function.name;
+    }
+    if (delta.function?.arguments) {
+      target.function.arguments += delta.function.arguments;
+    }
+  }
+}
+
+// 将请求错误转换为带中文说明的错误（服务商可通过 getErrorDetail 适配不同的错误响应格式）
+function mapProviderError(error, provider) {
+  const name = provider.name;
+  let errorMsg = `${name} API调用失败`;
+
+  if (error.response) {
+    const status = error.response.status;
+    const data = error.response.data;
+    const detail = provider.getErrorDetail ? provider.getErrorDetail(data) : data?.error?.message;
+
+    if (status === 401) {
+      errorMsg = `API Key 无效或已过期 (${detail || 'Unauthorized'})`;
+    } else if (status === 429) {
+      errorMsg = `API 调用频率超限，请稍后重试 (${detail || 'Rate Limited'})`;
+    } else if (status === 500) {
+      errorMsg = `${name} 服务器错误 (${detail || 'Internal Server Error'})`;
+    } else {
+      errorMsg = detail || `HTTP ${status} 错误`;
+    }
+  } else if (error.code === 'ECONNREFUSED' || error.code === 'ENOTFOUND') {
+    errorMsg = `无法连接到 ${name} API 服务器`;
+  } else if (error.code === 'ETIMEDOUT') {
+    errorMsg = `${name} API 请求超时`;
+  }
+
+  return new Error(errorMsg);
+}
+
+// 流式请求失败时错误响应体也是流，需要先读取并解析为JSON才能拿到错误详情
+async function readErrorStream(error) {
+  const data = error.response?.data;
+  if (!data || typeof data.on !== 'function') {
+    return;
+  }
+
+  try {
+    let body = '';
+    for await (const chunk of data) {
+      body += chunk.toString();
+    }
+    error.response.data = JSON.parse(body);
+  } catch (parseError) {
+    error.response.data = undefined;
+  }
+}
+
+// 读取SSE流式响应，拼接内容、思考过程和工具调用
+// signal 取消时销毁上游连接，服务商侧随即停止生成
+function readStream(stream, onChunk, signal) {
+  let fullResponse = '';
+  let fullReasoningContent = '';  // 思考过程内容
+  const toolCalls = [];  // 原生工具调用（按 index 拼接）
+  let buffer = '';
+
+  const getResult = () => ({
+    response: fullResponse,
+    reasoning: fullReasoningContent,
+    toolCalls: toolCalls.filter(Boolean)
+  });
+
+  // 处理一行SSE数据，返回 false 表示流已结束
+  const processLine = (line) => {
+    if (!line.startsWith('data: ')) {
+      return true;
+    }
+
+    const data = line.slice(6).trim();
+    if (data === '[DONE]') {
+      return false;
+    }
+
+    const parsed = JSON.parse(data);
+    const delta = parsed.choices?.[0]?.delta || {};
+
+    // 处理普通内容
+    const content = delta.content || '';
+    if (content) {
+      fullResponse += content;
+    }
+
+    // 处理思考模型的思考过程
+    const reasoningContent = delta.reasoning_content || '';
+    if (reasoningContent) {
+      fullReasoningContent += reasoningContent;
+    }
+
+    // 处理原生工具调用增量
+    if (Array.isArray(delta.tool_calls)) {
+      mergeToolCallDeltas(toolCalls, delta.tool_calls);
+    }
+
+    // 调用回调函数处理每个数据块
+    if (onChunk && (content || reasoningContent)) {
+      onChunk(content, fullResponse, reasoningContent, fullReasoningContent);
+    }
+    return true;
+  };
+
+  return new Promise((resolve, reject) => {
+    if (signal) {
+      const onAbort = () => {
+        stream.destroy();
+        reject(createAbortError());
+      };
+      if (signal.aborted) {
+        onAbort();
+        return;
+      }
+      signal.addEventListener('abort', onAbort, { once: true });
+      stream.on('close', () => signal.removeEventListener('abort', onAbort));
+    }
+
+    stream.on('data', (chunk) => {
+      buffer += chunk.toString();
+
+      // 处理SSE格式的数据
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        try {
+          if (!processLine(line)) {
+            resolve(getResult());
+            return;
+          }
+        } catch (error) {
+          console.warn('解析流式响应数据失败:', error, line);
+        }
+      }
+    });
+
+    stream.on('end', () => {
+      if (buffer.trim()) {
+        try {
+          processLine(buffer);
+        } catch (error) {
+          console.warn('解析流式响应结束数据失败:', error);
+        }
+      }
+      resolve(getResult());
+    });
+
+    stream.on('error', (error) => {
+      if (signal?.aborted) {
+        reject(createAbortError());
+        return;
+      }
+      console.error('流式响应错误:', error);
+      reject(new Error('流式响应失败: ' + error.message));
+    });
+  });
+}
+
+/**
+ * 调用 chat/completions 接口
+ * @param {object} provider - 服务商定义（name、baseUrl、getErrorDetail）
+ * @param {object} request
+ * @param {string} request.model - 服务商侧的模型名
+ * @param {Array} request.messages - 对话消息
+ * @param {string} [request.apiKey]
+ * @param {boolean} [request.stream] - 是否使用流式输出
+ * @param {Array} [request.tools] - 原生 function calling 工具定义
+ * @param {object} [request.params] - temperature、max_tokens 等请求参数
+ * @param {Function} [request.onChunk] - (content, fullResponse, reasoningContent, fullReasoningContent)
+ * @param {AbortSignal} [request.signal] - 取消信号，触发后中止上游请求
+ * @returns {Promise<{ response: string, reasoning: string, toolCalls: Array }>}
+ */
+async function createChatCompletion(provider, request) {
+  const { model, messages, apiKey, stream = false, tools, params = {}, onChunk, signal } = request;
+
+  const requestBody = { model, messages, ...params };
+  if (stream) {
+    requestBody.stream = true;
+  }
+  if (tools && tools.length > 0) {
+    requestBody.tools = tools;
+    requestBody.tool_choice = 'auto';
+  }
+
+  const headers = { 'Content-Type': 'application/json' };
+  if (apiKey) {
+    headers['Authorization'] = `Bearer ${apiKey}`;
+  }
+
+  let response;
+  try {
+    response = await axios.post(`${provider.baseUrl}/chat/completions`, requestBody, {
+      headers,
+      responseType: stream ? 'stream' : 'json',
+      signal
+    });
+  } catch (error) {
+    if (isAbortError(error) || signal?.aborted) {
+      console.log(`[Provider] ${provider.name} 请求已取消`);
+      throw createAbortError();
+    }
+    console.error(`[Provider] ${provider.name} API调用失败:`, error.message);
+    await readErrorStream(error);
+    throw mapProviderError(error, provider);
+  }
+
+  if (stream) {
+    return readStream(response.data, onChunk, signal);
+  }
+
+  // 普通输出：一次性回调完整内容，调用方可以统一按流式处理
+  const message = response.data.choices?.[0]?.message || {};
+  const result = {
+    response: message.content || '',
+    reasoning: message.reasoning_content || '',
+    toolCalls: message.tool_calls || []
+  };
+  if (onChunk && (result.response || result.reasoning)) {
+    onChunk(result.response, result.response, result.reasoning, result.reasoning);
+  }
+  return result;
+}
+
+/**
+ * 获取服务端可用的模型列表（GET {baseUrl}/models）
+ * @returns {Promise<string[]>}
+ */
+async function fetchModelIds(provider, apiKey) {
+  const headers = {};
+  if (apiKey) {
+    headers['Authorization'] = `Bearer ${apiKey}`;
+  }
+
+  const response = await axios.get(`${provider.baseUrl}/models`, { headers, timeout: 3000 });
+  return (response.data?.data || []).map(m => m.id).filter(Boolean);
+}
+
+module.exports = {
+  createChatCompletion,
+  fetchModelIds,
+  mapProviderError,
+  mergeToolCallDeltas
+};
@@ -0,0 +1,37 @@
+/**
+ * 通义千问（DashScope 兼容模式）服务商定义
+ *
+ * 兼容模式接口支持SSE流式输出；思考模式（enable_thinking）只能在流式输出下使用，
+ * 思考过程通过 reasoning_content 返回。
+ */
+
+module.exports = {
+  id: 'qwen',
+  name: 'Qwen',
+  baseUrl: 'https://dashscope.aliyuncs.com/compatible-mode/v1',
+  requiresApiKey: true,
+  models: [
+    {
+      id: 'qwen',
+      name: 'Qwen',
+      model: 'qwen-plus',
+      configKey: 'qwen',
+      streaming: true,
+      reasoning: false,
+      supportsTools: true
+    },
+    {
+      id: 'qwen-thinking',
+      name: 'Qwen 思考',
+      model: 'qwen-plus',
+      configKey: 'qwen',
+      streaming: true,
+      streamingOnly: true,  // 思考模式不支持普通输出
+      reasoning: true,
+      supportsTools: true,
+      params: { enable_thinking: true }
+    }
+  ],
+  // DashScope 的部分错误信息放在顶层 message 字段
+  getErrorDetail: (data) => data?.error?.message || data?.message
+};
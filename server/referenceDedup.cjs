@@ -0,0 +1,219 @@
+/**
+ * 参考文献去重模块 - 查找重复条目、合并条目，并改写项目正文中被合并条目的引用键
+ *
+ * 判定为同一文献的依据（任一相同即可）：
+ * - doi: DOI 相同（忽略大小写和 https://doi.org/ 前缀）
+ * - arxiv: arXiv ID 相同（忽略版本号）
+ * - title: 规范化后的标题、年份和第一作者的姓都相同
+ */
+
+const { splitName } = require('./bibtex.cjs');
+const { renameCitationKeys } = require('./tools/latexLinter.cjs');
+
+const DUPLICATE_REASONS = ['doi', 'arxiv', 'title'];
+
+// 合并时可以逐项选择来源的字段
+const MERGE_FIELDS = ['citationKey', 'title', 'authors', 'year', 'journal', 'doi', 'arxivId', 'url', 'abstract', 'entryType'];
+
+// ==================== 重复判定 ====================
+
+function normalizeText(value) {
+  return String(value || '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+}
+
+function normalizeDoi(doi) {
+  return String(doi || '').trim().toLowerCase()
+    .replace(/^(?:https?:\/\/)?(?:dx\.)?doi\.org\//, '')
+    .replace(/^doi:\s*/, '');
+}
+
+// arXiv ID：来自 arxivId 字段、BibTeX 的 eprint 字段或 arxiv.org 链接
+function normalizeArxivId(reference) {
+  const candidates = [reference.arxivId, reference.extraFields?.eprint, reference.url];
+  for (const candidate of candidates) {
+    const match = String(candidate || '').match(/(\d{4}\.\d{4,5}|[a-z-]+(?:\.[A-Z]{2})?\/\d{7})(?:v\d+)?/i);
+    if (match) return match[1].toLowerCase();
+  }
+  return null;
+}
+
+function firstAuthorFamily(reference) {
+  const authors = Array.isArray(reference.authors) ? reference.authors : [reference.authors];
+  return authors[0] ? normalizeText(splitName(authors[0]).family) : '';
+}
+
+// 条目的各项判定依据，缺少对应字段时为 null
+function signatures(reference) {
+  const title = normalizeText(reference.title);
+  return {
+    doi: normalizeDoi(reference.doi) || null,
+    arxiv: normalizeArxivId(reference),
+    title: title ? `${title}|${reference.year || ''}|${firstAuthorFamily(reference)}` : null
+  };
+}
+
+// 两个条目相同的判定依据
+function duplicateReasons(a, b) {
+  const left = signatures(a);
+  const right = signatures(b);
+  return DUPLICATE_REASONS.filter(reason => left[reason] && left[reason] === right[reason]);
+}
+
+/**
+ * 在库中查找与 candidate 相同的文献（跳过 id 相同的条目）
+ * @returns {{ reference: object, reasons: string[] } | null}
+ */
+function findDuplicate(references, candidate) {
+  for (const reference of references) {
+    if (candidate.id && reference.id === candidate.id) continue;
+    const reasons = duplicateReasons(reference, candidate);
+    if (reasons.length > 0) return { reference, reasons };
+  }
+  return null;
+}
+
+/**
+ * 查找库中的全部重复组（A 与 B 相同、B 与 C 相同时 A、B、C 为一组）
+ * @returns {Array<{ references: object[], reasons: string[] }>} 组内条目保持库中的顺序
+ */
+function findDuplicateGroups(references) {
+  const parent = references.map((_, index) => index);
+  const find = index => (parent[index] === index ? index : (parent[index] = find(parent[index])));
+  const reasonsByRoot = new Map();
+
+  for (const reason of DUPLICATE_REASONS) {
+    const firstIndex = new Map();
+    references.forEach((reference, index) => {
+      const signature = signatures(reference)[reason];
+      if (!signature) return;
+      if (!firstIndex.has(signature)) {
+        firstIndex.set(signature, index);
+        return;
+      }
+      const root = find(firstIndex.get(signature));
+      parent[find(index)] = root;
+      if (!reasonsByRoot.has(root)) reasonsByRoot.set(root, new Set());
+      reasonsByRoot.get(root).add(reason);
+    });
+  }
+
+  const groups = new Map();
+  references.forEach((reference, index) => {
+    const root = find(index);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root).push(reference);
+  });
+
+  return [...groups.entries()]
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]) => {
+      // 合并组时原来的根可能已不是根，重新收集组内的判定依据
+      const reasons = new Set(reasonsByRoot.get(root) || []);
+      for (const [otherRoot, otherReasons] of reasonsByRoot) {
+        if (find(otherRoot) === root) otherReasons.forEach(reason => reasons.add(reason));
+      }
+      return { references: members, reasons: DUPLICATE_REASONS.filter(reason => reasons.has(reason)) };
+    });
+}
+
+// ==================== 合并 ====================
+
+function isEmpty(value) {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * 合并重复条目：保留 target_id 的条目（id 不变），删除 source_ids 的条目
+ * choices: { 字段: 取值来源条目的 id }，未指定的字段使用保留条目的值，为空时依次取其他条目的值
+ * extraFields 和其他字段按同样的规则合并
+ * @returns {{ references, merged, removed, keyMap }} keyMap 为 { 被合并条目原来的引用键: 合并后的引用键 }
+ */
+function mergeReferences(references, { target_id, source_ids, choices = {} }) {
+  const target = references.find(reference => reference.id === target_id);
+  if (!target) {
+    throw new Error(`未找到要保留的参考文献: ${target_id}`);
+  }
+  if (!Array.isArray(source_ids) || source_ids.length === 0) {
+    throw new Error('请选择要合并的参考文献');
+  }
+
+  const sources = source_ids.map(id => {
+    const source = references.find(reference => reference.id === id);
+    if (!source || id === target_id) {
+      throw new Error(`无效的待合并参考文献: ${id}`);
+    }
+    return source;
+  });
+  const group = [target, ...sources];
+
+  const merged = { ...target };
+  for (const source of sources) {
+    for (const [name, value] of Object.entries(source)) {
+      if (name !== 'id' && name !== 'extraFields' && isEmpty(merged[name])) merged[name] = value;
+    }
+  }
+  const extraFields = Object.assign({}, ...[...sources].reverse().map(source => source.extraFields || {}), target.extraFields || {});
+  if (Object.keys(extraFields).length > 0) merged.extraFields = extraFields;
+
+  for (const [field, sourceId] of Object.entries(choices)) {
+    if (!MERGE_FIELDS.includes(field)) {
+      throw new Error(`不能选择的字段: ${field}`);
+    }
+    const source = group.find(reference => reference.id === sourceId);
+    if (!source) {
+      throw new Error(`字段 ${field} 的来源不在合并的条目中: ${sourceId}`);
+    }
+    if (isEmpty(source[field])) {
+      delete merged[field];
+    } else {
+      merged[field] = source[field];
+    }
+  }
+  merged.id = target.id;
+  if (!merged.citationKey) merged.citationKey = target.citationKey || target.id;
+
+  // 组内所有不同于合并后引用键的键都改写为新键
+  const keyMap = {};
+  for (const reference of group) {
+    const key = reference.citationKey || reference.id;
+    if (key !== merged.citationKey) keyMap[key] = merged.citationKey;
+  }
+
+  return {
+    references: references
+      .filter(reference => !source_ids.includes(reference.id))
+      .map(reference => (reference.id === target.id ? merged : reference)),
+    merged,
+    removed: source_ids,
+    keyMap
+  };
+}
+
+/**
+ * 按 keyMap 改写项目 .tex 文件中的引用键
+ * @returns {{ files: object, count: number }} files 只包含内容有变化的文件
+ */
+function rewriteCitationKeys(projectFiles, keyMap) {
+  const files = {};
+  let count = 0;
+  if (Object.keys(keyMap).length === 0) return { files, count };
+
+  for (const [path, content] of Object.entries(projectFiles || {})) {
+    if (!path.endsWith('.tex')) continue;
+    const result = renameCitationKeys(content, keyMap);
+    if (result.count > 0) {
+      files[path] = result.content;
+      count += result.count;
+    }
+  }
+  return { files, count };
+}
+
+module.exports = {
+  DUPLICATE_REASONS,
+  MERGE_FIELDS,
+  findDuplicate,
+  findDuplicateGroups,
+  mergeReferences,
+  rewriteCitationKeys
+};
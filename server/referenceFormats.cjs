@@ -0,0 +1,613 @@
+/**
+ * 参考文献格式模块 - BibTeX / RIS / CSL-JSON / EndNote XML 的导入导出，以及导入前的预览与合并
+ *
+ * 各格式都转换为参考文献资源（Reference）。资源之外的常用字段（卷、期、页码、出版社等）
+ * 以 BibTeX 字段名保存在 extraFields 中，这样不同格式之间转换时也能保留。
+ */
+
+const { randomUUID } = require('crypto');
+const { parseStringPromise } = require('xml2js');
+const { parseBibtex, entryToReference, formatBibtex, displayName, splitName, sanitizeCitationKey, uniqueCitationKey } = require('./bibtex.cjs');
+const { formatCitationKey } = require('./citationKeys.cjs');
+const { CITATION_CONFIG } = require('./config.cjs');
+
+const FORMATS = {
+  bibtex: { label: 'BibTeX', extension: '.bib', mimeType: 'application/x-bibtex' },
+  ris: { label: 'RIS', extension: '.ris', mimeType: 'application/x-research-info-systems' },
+  csljson: { label: 'CSL-JSON', extension: '.json', mimeType: 'application/vnd.citationstyles.csl+json' },
+  endnote: { label: 'EndNote XML', extension: '.xml', mimeType: 'application/xml' }
+};
+
+// 条目类型对照：BibTeX ↔ RIS ↔ CSL ↔ EndNote（名称和编号）
+const TYPE_TABLE = [
+  { bibtex: 'article', ris: 'JOUR', csl: 'article-journal', endnote: ['Journal Article', 17] },
+  { bibtex: 'inproceedings', ris: 'CPAPER', csl: 'paper-conference', endnote: ['Conference Proceedings', 10] },
+  { bibtex: 'book', ris: 'BOOK', csl: 'book', endnote: ['Book', 6] },
+  { bibtex: 'incollection', ris: 'CHAP', csl: 'chapter', endnote: ['Book Section', 5] },
+  { bibtex: 'phdthesis', ris: 'THES', csl: 'thesis', endnote: ['Thesis', 32] },
+  { bibtex: 'techreport', ris: 'RPRT', csl: 'report', endnote: ['Report', 27] },
+  { bibtex: 'misc', ris: 'GEN', csl: 'article', endnote: ['Generic', 13] }
+];
+
+// 其他写法 → BibTeX 条目类型
+const TYPE_ALIASES = {
+  conference: 'inproceedings', inbook: 'incollection', mastersthesis: 'phdthesis',
+  CONF: 'inproceedings', EJOUR: 'article', MGZN: 'article', NEWS: 'article', ELEC: 'misc', UNPB: 'misc',
+  'article-magazine': 'article', 'article-newspaper': 'article',
+  'Conference Paper': 'inproceedings', 'Electronic Article': 'article', 'Magazine Article': 'article'
+};
+
+// 导入预览中比较的字段
+const COMPARED_FIELDS = ['title', 'authors', 'year', 'journal', 'doi', 'arxivId'];
+
+const IMPORT_ACTIONS = ['add', 'merge', 'replace', 'skip'];
+
+const ARXIV_DOI_PATTERN = /^10\.48550\/arxiv\.(.+)$/i;
+const ARXIV_URL_PATTERN = /arxiv\.org\/(?:abs|pdf)\/([^?#\s]+?)(?:\.pdf)?(?:[?#]|$)/i;
+
+function typeRow(entryType) {
+  const type = TYPE_ALIASES[entryType] || entryType;
+  return TYPE_TABLE.find(row => row.bibtex === type) || TYPE_TABLE[TYPE_TABLE.length - 1];
+}
+
+function typeFrom(format, value) {
+  const row = TYPE_TABLE.find(item => (format === 'endnote'
+    ? item.endnote[0] === value || String(item.endnote[1]) === String(value)
+    : item[format] === value));
+  return row ? row.bibtex : (TYPE_ALIASES[value] || 'misc');
+}
+
+function joinName({ family, given, literal }) {
+  if (literal) return literal;
+  if (!family) return given || '';
+  return given ? `${given} ${family}` : family;
+}
+
+// "Last, First" 写法（RIS、EndNote 使用）
+function invertedName(name) {
+  const { family, given } = splitName(name);
+  return given ? `${family}, ${given}` : family;
+}
+
+function firstYear(value) {
+  const match = /\b(\d{4})\b/.exec(String(value || ''));
+  return match ? Number(match[1]) : undefined;
+}
+
+// 从 DOI（10.48550/arXiv.*）或网址中识别 arXiv ID
+function detectArxivId(reference) {
+  const fromDoi = ARXIV_DOI_PATTERN.exec(reference.doi || '');
+  if (fromDoi) return fromDoi[1];
+  const fromUrl = ARXIV_URL_PATTERN.exec(reference.url || '');
+  return fromUrl ? fromUrl[1] : undefined;
+}
+
+// 去掉值为空的字段，补充引用键（按配置的模式生成）和 arXiv ID
+function finishReference(reference) {
+  const result = {};
+  for (const [name, value] of Object.entries(reference)) {
+    if (value === undefined || value === null || value === '') continue;
+    if (name === 'extraFields') {
+      const extra = Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined && v !== ''));
+      if (Object.keys(extra).length > 0) result.extraFields = extra;
+      continue;
+    }
+    result[name] = value;
+  }
+  result.title = result.title || '';
+  result.authors = result.authors || [];
+  if (!result.arxivId) {
+    const arxivId = detectArxivId(result);
+    if (arxivId) result.arxivId = arxivId;
+  }
+  result.citationKey = sanitizeCitationKey(result.citationKey) || formatCitationKey(result, CITATION_CONFIG.keyPattern);
+  return result;
+}
+
+// 页码 "12--34" → [12, 34]
+function splitPages(pages) {
+  const [start, end] = String(pages || '').split(/\s*-+\s*|\s*–\s*/);
+  return [start || undefined, end || undefined];
+}
+
+// ==================== RIS ====================
+
+function parseRis(content) {
+  const references = [];
+  const errors = [];
+  let record = null;
+  let lastTag = null;
+
+  String(content).split(/\r?\n/).forEach((line, index) => {
+    const match = /^([A-Z][A-Z0-9])  -(?: (.*))?$/.exec(line);
+    if (!match) {
+      // 续行并入上一个字段
+      if (record && lastTag && line.trim()) {
+        const values = record[lastTag];
+        values[values.length - 1] += ` ${line.trim()}`;
+      }
+      return;
+    }
+    const [, tag, rawValue = ''] = match;
+    const value = rawValue.trim();
+    if (tag === 'TY') {
+      if (record) errors.push({ line: index + 1, message: '上一条记录缺少 ER' });
+      record = { TY: [value], line: index + 1 };
+    } else if (tag === 'ER') {
+      if (record) references.push(risRecordToReference(record));
+      record = null;
+    } else if (record) {
+      (record[tag] = record[tag] || []).push(value);
+    } else {
+      errors.push({ line: index + 1, message: `${tag} 字段不在 TY 和 ER 之间` });
+    }
+    lastTag = tag;
+  });
+
+  if (record) {
+    errors.push({ line: record.line, message: '记录缺少 ER，已按结束处理' });
+    references.push(risRecordToReference(record));
+  }
+  return { references, errors };
+}
+
+function risRecordToReference(record) {
+  const first = (...tags) => tags.map(tag => record[tag]?.[0]).find(Boolean);
+  const entryType = typeFrom('ris', record.TY[0]);
+  const [startPage, endPage] = [first('SP'), first('EP')];
+
+  return finishReference({
+    citationKey: first('ID'),
+    entryType,
+    title: first('TI', 'T1', 'CT'),
+    authors: [...(record.AU || []), ...(record.A1 || [])].map(displayName),
+    year: firstYear(first('PY', 'Y1', 'DA')),
+    journal: entryType === 'article' ? first('JO', 'JF', 'T2', 'JA') : first('T2', 'BT', 'JO'),
+    doi: first('DO'),
+    url: first('UR'),
+    abstract: first('AB', 'N2'),
+    extraFields: {
+      volume: first('VL'),
+      number: first('IS'),
+      pages: startPage && endPage ? `${startPage}--${endPage}` : startPage,
+      publisher: first('PB'),
+      address: first('CY'),
+      note: first('N1'),
+      keywords: record.KW?.join(', '),
+      [entryType === 'book' || entryType === 'incollection' ? 'isbn' : 'issn']: first('SN')
+    }
+  });
+}
+
+function formatRis(references) {
+  return references.map(reference => {
+    const extra = reference.extraFields || {};
+    const [startPage, endPage] = splitPages(extra.pages);
+    const lines = [
+      ['TY', typeRow(reference.entryType || (reference.journal ? 'article' : 'misc')).ris],
+      ['ID', reference.citationKey],
+      ['TI', reference.title],
+      ...(reference.authors || []).map(author => ['AU', invertedName(author)]),
+      ['PY', reference.year],
+      [reference.entryType === 'article' || (!reference.entryType && reference.journal) ? 'JO' : 'T2', reference.journal],
+      ['VL', extra.volume],
+      ['IS', extra.number],
+      ['SP', startPage],
+      ['EP', endPage],
+      ['PB', extra.publisher],
+      ['CY', extra.address],
+      ['SN', extra.isbn || extra.issn],
+      ['DO', reference.doi],
+      ['UR', reference.url || (reference.arxivId ? `https://arxiv.org/abs/${reference.arxivId}` : undefined)],
+      ['AB', reference.abstract],
+      ['N1', extra.note],
+      ...String(extra.keywords || '').split(/\s*[,;]\s*/).filter(Boolean).map(keyword => ['KW', keyword])
+    ];
+    return lines
+      .filter(([, value]) => value !== undefined && value !== null && value !== '')
+      .map(([tag, value]) => `${tag}  - ${String(value).replace(/\s+/g, ' ')}`)
+      .concat('ER  - ')
+      .join('\n');
+  }).join('\n\n') + '\n';
+}
+
+// ==================== CSL-JSON ====================
+
+function parseCslJson(content) {
+  let data;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    return { references: [], errors: [{ line: 1, message: `不是有效的 JSON：${error.message}` }] };
+  }
+
+  const items = Array.isArray(data) ? data : (data && Array.isArray(data.items) ? data.items : [data]);
+  const references = [];
+  const errors = [];
+  items.forEach((item, index) => {
+    if (!item || typeof item !== 'object' || (!item.title && !item.author)) {
+      errors.push({ line: index + 1, message: `第 ${index + 1} 项不是 CSL 条目` });
+      return;
+    }
+    const entryType = typeFrom('csl', item.type);
+    const names = Array.isArray(item.author) ? item.author : [];
+    references.push(finishReference({
+      citationKey: item['citation-key'] || item.citationKey || (/^[\w:.-]+$/.test(String(item.id || '')) ? String(item.id) : undefined),
+      entryType,
+      title: item.title,
+      authors: names.map(joinName).filter(Boolean),
+      year: firstYear(item.issued?.['date-parts']?.[0]?.[0] ?? item.issued?.raw ?? item.issued?.literal),
+      journal: item['container-title'],
+      doi: item.DOI,
+      url: item.URL,
+      abstract: item.abstract,
+      extraFields: {
+        volume: item.volume !== undefined ? String(item.volume) : undefined,
+        number: item.issue !== undefined ? String(item.issue) : undefined,
+        pages: item.page ? String(item.page).replace(/\s*[-–]\s*/, '--') : undefined,
+        publisher: item.publisher,
+        address: item['publisher-place'],
+        note: item.note,
+        keywords: item.keyword,
+        isbn: item.ISBN,
+        issn: item.ISSN
+      }
+    }));
+  });
+  return { references, errors };
+}
+
+function formatCslJson(references) {
+  const items = references.map(reference => {
+    const extra = reference.extraFields || {};
+    const item = {
+      id: reference.citationKey,
+      'citation-key': reference.citationKey,
+      type: typeRow(reference.entryType || (reference.journal ? 'article' : 'misc')).csl,
+      title: reference.title,
+      author: (reference.authors || []).map(author => {
+        const { family, given } = splitName(author);
+        return given ? { family, given } : { literal: family };
+      }),
+      issued: reference.year ? { 'date-parts': [[Number(reference.year)]] } : undefined,
+      'container-title': reference.journal,
+      volume: extra.volume,
+      issue: extra.number,
+      page: extra.pages ? extra.pages.replace(/-+/, '-') : undefined,
+      publisher: extra.publisher,
+      'publisher-place': extra.address,
+      DOI: reference.doi,
+      URL: reference.url || (reference.arxivId ? `https://arxiv.org/abs/${reference.arxivId}` : undefined),
+      ISBN: extra.isbn,
+      ISSN: extra.issn,
+      abstract: reference.abstract,
+      keyword: extra.keywords,
+      note: extra.note
+    };
+    return Object.fromEntries(Object.entries(item).filter(([, value]) => value !== undefined && value !== ''));
+  });
+  return JSON.stringify(items, null, 2) + '\n';
+}
+
+// ==================== EndNote XML ====================
+
+// xml2js 节点中的全部文本（EndNote 把文本包在 <style> 中）
+function xmlText(node) {
+  if (node === undefined || node === null) return '';
+  if (typeof node === 'string') return node;
+  if (Array.isArray(node)) return node.map(xmlText).join('');
+  return Object.entries(node)
+    .filter(([key]) => key !== '$')
+    .map(([, value]) => xmlText(value))
+    .join('');
+}
+
+function xmlPath(node, ...path) {
+  let current = node;
+  for (const key of path) {
+    current = Array.isArray(current) ? current[0]?.[key] : current?.[key];
+    if (current === undefined) return undefined;
+  }
+  return current;
+}
+
+function xmlValue(node, ...path) {
+  const text = xmlText(xmlPath(node, ...path)).replace(/\s+/g, ' ').trim();
+  return text || undefined;
+}
+
+async function parseEndnoteXml(content) {
+  let data;
+  try {
+    data = await parseStringPromise(content);
+  } catch (error) {
+    return { references: [], errors: [{ line: 1, message: `不是有效的 XML：${error.message}` }] };
+  }
+
+  const records = xmlPath(data, 'xml', 'records', 'record') || xmlPath(data, 'records', 'record') || [];
+  const references = records.map(record => {
+    const typeNode = xmlPath(record, 'ref-type')?.[0];
+    const entryType = typeFrom('endnote', typeNode?.$?.name || xmlText(typeNode).trim());
+    const authors = (xmlPath(record, 'contributors', 'authors', 'author') || []).map(author => xmlText(author).trim()).filter(Boolean);
+    const urls = xmlPath(record, 'urls', 'related-urls', 'url') || [];
+    const keywords = (xmlPath(record, 'keywords', 'keyword') || []).map(keyword => xmlText(keyword).trim()).filter(Boolean);
+
+    return finishReference({
+      citationKey: xmlValue(record, 'label'),
+      entryType,
+      title: xmlValue(record, 'titles', 'title'),
+      authors: authors.map(displayName),
+      year: firstYear(xmlValue(record, 'dates', 'year')),
+      journal: xmlValue(record, 'titles', 'secondary-title') || xmlValue(record, 'periodical', 'full-title'),
+      doi: xmlValue(record, 'electronic-resource-num'),
+      url: urls.length > 0 ? xmlText(urls[0]).trim() : undefined,
+      abstract: xmlValue(record, 'abstract'),
+      extraFields: {
+        volume: xmlValue(record, 'volume'),
+        number: xmlValue(record, 'number'),
+        pages: xmlValue(record, 'pages')?.replace(/\s*[-–]\s*/, '--'),
+        publisher: xmlValue(record, 'publisher'),
+        address: xmlValue(record, 'pub-location'),
+        note: xmlValue(record, 'notes'),
+        keywords: keywords.length > 0 ? keywords.join(', ') : undefined,
+        [entryType === 'book' || entryType === 'incollection' ? 'isbn' : 'issn']: xmlValue(record, 'isbn')
+      }
+    });
+  });
+
+  return {
+    references,
+    errors: records.length === 0 ? [{ line: 1, message: '未找到 <record> 记录' }] : []
+  };
+}
+
+function escapeXml(value) {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatEndnoteXml(references) {
+  const tag = (name, value) => (value === undefined || value === null || value === ''
+    ? ''
+    : `<${name}><style face="normal" font="default" size="100%">${escapeXml(value)}</style></${name}>`);
+
+  const records = references.map((reference, index) => {
+    const extra = reference.extraFields || {};
+    const [typeName, typeNumber] = typeRow(reference.entryType || (reference.journal ? 'article' : 'misc')).endnote;
+    const authors = (reference.authors || []).map(author => tag('author', invertedName(author))).join('');
+    const keywords = String(extra.keywords || '').split(/\s*[,;]\s*/).filter(Boolean).map(keyword => tag('keyword', keyword)).join('');
+    const url = reference.url || (reference.arxivId ? `https://arxiv.org/abs/${reference.arxivId}` : '');
+
+    return [
+      '<record>',
+      `<rec-number>${index + 1}</rec-number>`,
+      `<ref-type name="${escapeXml(typeName)}">${typeNumber}</ref-type>`,
+      authors ? `<contributors><authors>${authors}</authors></contributors>` : '',
+      `<titles>${tag('title', reference.title)}${tag('secondary-title', reference.journal)}</titles>`,
+      tag('pages', extra.pages ? extra.pages.replace(/-+/, '-') : ''),
+      tag('volume', extra.volume),
+      tag('number', extra.number),
+      keywords ? `<keywords>${keywords}</keywords>` : '',
+      reference.year ? `<dates>${tag('year', reference.year)}</dates>` : '',
+      tag('pub-location', extra.address),
+      tag('publisher', extra.publisher),
+      tag('isbn', extra.isbn || extra.issn),
+      tag('abstract', reference.abstract),
+      tag('notes', extra.note),
+      tag('label', reference.citationKey),
+      tag('electronic-resource-num', reference.doi),
+      url ? `<urls><related-urls>${tag('url', url)}</related-urls></urls>` : '',
+      '</record>'
+    ].filter(Boolean).join('');
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<xml><records>\n${records.join('\n')}\n</records></xml>\n`;
+}
+
+// ==================== 解析 / 导出入口 ====================
+
+// 根据内容判断格式
+function detectFormat(content) {
+  const text = String(content || '').trimStart();
+  if (/^[[{]/.test(text)) return 'csljson';
+  if (/^<(\?xml|xml|records)/i.test(text)) return 'endnote';
+  if (/^TY  - /m.test(text)) return 'ris';
+  if (/@\s*[a-zA-Z]+\s*[{(]/.test(text)) return 'bibtex';
+  return null;
+}
+
+/**
+ * 解析参考文献文件
+ * @param {string} content - 文件内容
+ * @param {string} format - bibtex / ris / csljson / endnote，auto 时根据内容判断
+ * @returns {Promise<{ format: string, references: Array, errors: Array<{line: number, message: string}> }>}
+ */
+async function parseReferences(content, format = 'auto') {
+  // Zotero、EndNote 导出的文件可能以 BOM 开头
+  content = String(content || '').replace(/^\uFEFF/, '');
+  const resolved = format === 'auto' ? detectFormat(content) : format;
+  if (!FORMATS[resolved]) {
+    throw new Error(format === 'auto' ? '无法识别文件格式，支持 BibTeX、RIS、CSL-JSON 和 EndNote XML' : `不支持的格式: ${format}`);
+  }
+
+  let result;
+  if (resolved === 'bibtex') {
+    const { entries, errors } = parseBibtex(content);
+    result = { references: entries.map(entry => finishReference(entryToReference(entry))), errors };
+  } else if (resolved === 'ris') {
+    result = parseRis(content);
+  } else if (resolved === 'csljson') {
+    result = parseCslJson(content);
+  } else {
+    result = await parseEndnoteXml(content);
+  }
+  return { format: resolved, ...result };
+}
+
+function formatReferences(references, format) {
+  switch (format) {
+    case 'bibtex':
+      return formatBibtex(references);
+    case 'ris':
+      return formatRis(references);
+    case 'csljson':
+      return formatCslJson(references);
+    case 'endnote':
+      return formatEndnoteXml(references);
+    default:
+      throw new Error(`不支持的格式: ${format}`);
+  }
+}
+
+// ==================== 导入预览与合并 ====================
+
+function normalizeText(value) {
+  return String(value || '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+}
+
+// 用于比较的字段值：标题忽略大小写和标点，作者只比较姓，arXiv ID 忽略版本号
+function comparable(reference, field) {
+  const value = reference[field];
+  if (value === undefined || value === null || value === '') return null;
+  switch (field) {
+    case 'authors':
+      return Array.isArray(value) && value.length > 0
+        ? value.map(author => normalizeText(splitName(author).family)).join('|')
+        : null;
+    case 'arxivId':
+      return String(value).toLowerCase().replace(/v\d+$/, '');
+    case 'doi':
+      return String(value).toLowerCase();
+    case 'year':
+      return String(value);
+    default:
+      return normalizeText(value);
+  }
+}
+
+// 在库中查找同一文献：引用键（不区分大小写）、DOI 或 arXiv ID 相同
+function findExisting(library, reference) {
+  const key = String(reference.citationKey).toLowerCase();
+  return library.find(item => String(item.citationKey || item.id).toLowerCase() === key)
+    || (reference.doi && library.find(item => comparable(item, 'doi') === comparable(reference, 'doi')))
+    || (reference.arxivId && library.find(item => comparable(item, 'arxivId') === comparable(reference, 'arxivId')))
+    || null;
+}
+
+/**
+ * 导入预览：逐条与参考文献库比较
+ * status: new 新条目 / duplicate 库中已有（导入的字段与库中一致，或只补充库中缺少的字段）/ conflict 库中已有但字段值不同
+ * 返回的 action 为建议的操作，前端可以修改后提交给 applyImport
+ */
+function previewImport(library, references) {
+  return references.map((reference, index) => {
+    const existing = findExisting(library, reference);
+    if (!existing) {
+      return { index, reference, status: 'new', action: 'add' };
+    }
+
+    const differences = [];
+    const missingFields = [];
+    for (const field of COMPARED_FIELDS) {
+      const incoming = comparable(reference, field);
+      const current = comparable(existing, field);
+      if (incoming === null) continue;
+      if (current === null) {
+        missingFields.push(field);
+      } else if (incoming !== current) {
+        differences.push({ field, existing: existing[field], incoming: reference[field] });
+      }
+    }
+    const status = differences.length > 0 ? 'conflict' : 'duplicate';
+    return {
+      index,
+      reference,
+      status,
+      existing_id: existing.id,
+      existing_key: existing.citationKey,
+      differences,
+      missing_fields: missingFields,
+      action: status === 'duplicate' && missingFields.length > 0 ? 'merge' : 'skip'
+    };
+  });
+}
+
+// 合并：保留库中已有的值，只补充缺少的字段
+function mergeReference(existing, incoming) {
+  const merged = { ...existing };
+  for (const [name, value] of Object.entries(incoming)) {
+    if (name === 'id' || name === 'citationKey' || name === 'extraFields') continue;
+    const current = merged[name];
+    if (current === undefined || current === null || current === '' || (Array.isArray(current) && current.length === 0)) {
+      merged[name] = value;
+    }
+  }
+  if (incoming.extraFields) {
+    merged.extraFields = { ...incoming.extraFields, ...(existing.extraFields || {}) };
+  }
+  return merged;
+}
+
+/**
+ * 按预览中选择的操作导入
+ * items: [{ reference, action: add / merge / replace / skip, existing_id }]
+ * add 作为新条目加入（引用键重复时追加 a、b…）；merge 补充库中条目缺少的字段；
+ * replace 用导入的内容替换库中条目（保留其 id 和引用键，正文中的引用不受影响）
+ */
+function applyImport(library, items) {
+  const references = [...library];
+  const usedKeys = new Set(references.map(item => String(item.citationKey || item.id).toLowerCase()));
+  const report = { added: [], merged: [], replaced: [], skipped: [], renamed: [] };
+
+  for (const item of items) {
+    const { reference, action, existing_id } = item || {};
+    if (!IMPORT_ACTIONS.includes(action)) {
+      throw new Error(`无效的导入操作: ${action}`);
+    }
+    if (action === 'skip') {
+      report.skipped.push(reference?.citationKey);
+      continue;
+    }
+    if (!reference || typeof reference !== 'object' || typeof reference.title !== 'string') {
+      throw new Error('导入的参考文献数据无效');
+    }
+    const incoming = finishReference(reference);
+
+    if (action === 'add') {
+      const key = uniqueCitationKey(incoming.citationKey, usedKeys);
+      usedKeys.add(key.toLowerCase());
+      references.push({ ...incoming, id: randomUUID(), citationKey: key });
+      report.added.push(key);
+      if (key !== incoming.citationKey) report.renamed.push({ from: incoming.citationKey, to: key });
+      continue;
+    }
+
+    const index = references.findIndex(ref => ref.id === existing_id);
+    if (index === -1) {
+      throw new Error(`未找到要${action === 'merge' ? '合并' : '替换'}的参考文献: ${existing_id}`);
+    }
+    const existing = references[index];
+    if (action === 'merge') {
+      references[index] = mergeReference(existing, incoming);
+      report.merged.push(existing.citationKey);
+    } else {
+      references[index] = { ...incoming, id: existing.id, citationKey: existing.citationKey || incoming.citationKey };
+      report.replaced.push(existing.citationKey);
+    }
+  }
+
+  return { references, ...report };
+}
+
+module.exports = {
+  FORMATS,
+  IMPORT_ACTIONS,
+  detectFormat,
+  parseReferences,
+  formatReferences,
+  previewImport,
+  applyImport
+};
@@ -5,9 +5,16 @@
 const express = require('express');
 const router = express.Router();
 
-const { callDeepSeekApi, callDeepSeekApiStream, callQwenApi, generatePrompt } = require('../aiApi.cjs');
+const { callModelApi, buildMessages } = require('../aiApi.cjs');
+const { resolveModel, getModelLimits } = require('../providers/index.cjs');
+const { fitMessages } = require('../tokenBudget.cjs');
 const { AVAILABLE_TOOLS, parseToolCalls, extractContentBeforeToolCall } = require('../tools/index.cjs');
 const { getContent, storeContent } = require('../contentCache.cjs');
+const { runAgent } = require('../agentRunner.cjs');
+const { isAbortError, createClientAbortSignal } = require('../abortUtils.cjs');
+const { readProjectFiles, normalizeProjectPath } = require('../projectStore.cjs');
+const { getActiveProject, getProjectWorkspace } = require('../projectRegistry.cjs');
+const { getResourceStorage } = require('../storage.cjs');
 
 /**
  * 获取论文内容：优先使用 contentId 从缓存获取，否则使用直接传入的 content
@@ -24,37 +31,31 @@ function resolveContent(contentId, content) {
   return content || '';
 }
 
-// Agent API（普通请求，用于 Qwen）
+/**
+ * 按模型上下文窗口裁剪对话消息（最后一条为本次用户请求）
+ */
+async function fitToModel(model, chatMessages, content, input) {
+  const { model: modelInfo } = await resolveModel(model);
+  return fitMessages(chatMessages, getModelLimits(modelInfo), { content, query: input });
+}
+
+// Agent API（普通请求，用于不支持流式输出的模型）
 router.post('/', async (req, res) => {
   const { content, contentId, input, mode, model, apiKey, messages } = req.body;
   
   try {
-    if (!apiKey) {
-      throw new Error('API Key不能为空');
-    }
-    
     // 解析论文内容（支持 contentId 或直接 content）
     const resolvedContent = resolveContent(contentId, content);
     
-    // 生成提示词，传入工具列表
-    const prompt = generatePrompt(resolvedContent, input, mode, AVAILABLE_TOOLS, messages);
-    
-    let response;
-    
-    // 根据模型选择调用不同的API
-    switch (model) {
-      case 'deepseek':
-        response = await callDeepSeekApi(prompt, apiKey, 'deepseek-chat');
-        break;
-      case 'deepseek-reasoner':
-        response = await callDeepSeekApi(prompt, apiKey, 'deepseek-reasoner');
-        break;
-      case 'qwen':
-        response = await callQwenApi(prompt, apiKey);
-        break;
-      default:
-        throw new Error('不支持的模型');
-    }
+    // 构建对话消息，传入工具列表
+    const chatMessages = buildMessages(resolvedContent, input, mode, AVAILABLE_TOOLS, messages);
+    
+    // 超出上下文窗口时裁剪历史和论文内容
+    const fitted = await fitToModel(model, chatMessages, resolvedContent, input);
+    
+    // 调用模型（服务商由注册表决定，普通接口不使用流式输出）
+    const result = await callModelApi(model, fitted.messages, apiKey, { stream: false });
+    const response = result.response;
     
     // 解析响应中的工具调用（只取第一个）
     const toolCalls = parseToolCalls(response);
@@ -70,7 +71,8 @@ router.post('/', async (req, res) => {
       success: true,
       data: {
         response: finalResponse,
-        tool_calls: toolCalls.length > 0 ? toolCalls : undefined
+        tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+        budget: fitted.report
       }
     });
   } catch (error) {
@@ -99,20 +101,16 @@ router.post('/', async (req, res) => {
   }
 });
 
-// Agent流式API（用于 DeepSeek 和 DeepSeek Reasoner）
+// Agent流式API（用于支持流式输出的模型）
 router.post('/stream', async (req, res) => {
   const { content, contentId, input, mode, model, apiKey, messages } = req.body;
   
   try {
-    if (!apiKey) {
-      throw new Error('API Key不能为空');
-    }
-    
     // 解析论文内容（支持 contentId 或直接 content）
     const resolvedContent = resolveContent(contentId, content);
     
-    // 生成提示词，传入工具列表
-    const prompt = generatePrompt(resolvedContent, input, mode, AVAILABLE_TOOLS, messages);
+    // 构建对话消息，传入工具列表
+    const chatMessages = buildMessages(resolvedContent, input, mode, AVAILABLE_TOOLS, messages);
     
     // 设置响应头为SSE格式
     res.setHeader('Content-Type', 'text/event-stream');
@@ -120,6 +118,8 @@ router.post('/stream', async (req, res) => {
     res.setHeader('Connection', 'keep-alive');
     res.setHeader('Access-Control-Allow-Origin', '*');
     
+    const signal = createClientAbortSignal(res);
+    
     // 发送初始消息
     res.write(`data: ${JSON.stringify({ type: 'start', model: model })}\n\n`);
     
@@ -127,42 +127,42 @@ router.post('/stream', async (req, res) => {
     let fullReasoning = '';
     let toolCalls = [];
     
-    // DeepSeek 模型使用流式响应
-    if (model === 'deepseek' || model === 'deepseek-reasoner') {
-      const actualModel = model === 'deepseek' ? 'deepseek-chat' : 'deepseek-reasoner';
-      
-      const result = await callDeepSeekApiStream(
-        prompt, 
-        apiKey, 
-        actualModel, 
-        (content, currentFullResponse, reasoningContent, currentFullReasoning) => {
-          fullResponse = currentFullResponse;
-          fullReasoning = currentFullReasoning;
-          
-          // 发送内容块
-          const eventData = { 
-            type: 'chunk', 
-            content: content,
-            full_response: currentFullResponse
-          };
-          
-          // 如果是 reasoner 模型，也发送思考过程
-          if (model === 'deepseek-reasoner' && reasoningContent) {
-            eventData.reasoning_content = reasoningContent;
-            eventData.full_reasoning = currentFullReasoning;
-          }
-          
-          res.write(`data: ${JSON.stringify(eventData)}\n\n`);
-        }
-      );
-      
-      fullResponse = result.response;
-      fullReasoning = result.reasoning || '';
-    } else {
-      // 其他模型不应该调用流式接口，返回错误
+    const { model: modelInfo } = await resolveModel(model);
+    if (!modelInfo.streaming) {
+      // 不支持流式输出的模型不应该调用流式接口，返回错误
       throw new Error('该模型不支持流式输出，请使用普通接口');
     }
     
+    // 超出上下文窗口时裁剪历史和论文内容
+    const fitted = await fitToModel(model, chatMessages, resolvedContent, input);
+    
+    const result = await callModelApi(model, fitted.messages, apiKey, {
+      stream: true,
+      signal,
+      onChunk: (content, currentFullResponse, reasoningContent, currentFullReasoning) => {
+        fullResponse = currentFullResponse;
+        fullReasoning = currentFullReasoning;
+        
+        // 发送内容块
+        const eventData = { 
+          type: 'chunk', 
+          content: content,
+          full_response: currentFullResponse
+        };
+        
+        // 如果是思考模型，也发送思考过程
+        if (reasoningContent) {
+          eventData.reasoning_content = reasoningContent;
+          eventData.full_reasoning = currentFullReasoning;
+        }
+        
+        res.write(`data: ${JSON.stringify(eventData)}\n\n`);
+      }
+    });
+    
+    fullResponse = result.response;
+    fullReasoning = result.reasoning || '';
+    
     // 解析响应中的工具调用（只取第一个）
     toolCalls = parseToolCalls(fullResponse);
     
@@ -189,6 +189,12 @@ router.post('/stream', async (req, res) => {
     res.write(`data: [DONE]\n\n`);
     res.end();
   } catch (error) {
+    // 客户端已断开，无需再返回错误
+    if (isAbortError(error)) {
+      res.end();
+      return;
+    }
+    
     console.error('Agent流式API处理失败:', error);
     
     // 提取更详细的错误信息
@@ -215,4 +221,65 @@ router.post('/stream', async (req, res) => {
   }
 });
 
+// Agent运行API：服务端执行完整的工具调用循环，通过SSE推送每一步事件
+// 传入 activeFile 时 content 为项目中该文件的内容，其他文件从项目存储读取
+// 工具读写 projectId 对应项目（默认为当前项目）的文件和资源库，运行期间切换项目不影响本次运行
+router.post('/run', async (req, res) => {
+  const { content, contentId, input, mode, model, apiKey, messages, activeFile, projectId } = req.body;
+  
+  // 设置响应头为SSE格式
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  
+  const signal = createClientAbortSignal(res);
+  // 客户端断开后不再写入
+  const sendEvent = (event) => {
+    if (signal.aborted) return;
+    res.write(`data: ${typeof event === 'string' ? event : JSON.stringify(event)}\n\n`);
+  };
+  
+  try {
+    // 解析论文内容（支持 contentId 或直接 content）
+    const resolvedContent = resolveContent(contentId, content);
+    const projectFile = activeFile ? normalizeProjectPath(activeFile) : undefined;
+    const workspace = getProjectWorkspace(projectId || getActiveProject()?.id);
+    
+    await runAgent({
+      content: resolvedContent,
+      files: projectFile ? readProjectFiles(workspace.filesDir) : undefined,
+      activeFile: projectFile,
+      storage: getResourceStorage(workspace.resourceDir),
+      input,
+      mode,
+      model,
+      apiKey,
+      messages,
+      signal
+    }, sendEvent);
+  } catch (error) {
+    if (isAbortError(error)) {
+      res.end();
+      return;
+    }
+    
+    console.error('Agent运行失败:', error);
+    
+    let errorMessage = '处理失败';
+    if (error.response) {
+      errorMessage = error.response.data?.error?.message || error.message || 'API调用失败';
+    } else if (error.request) {
+      errorMessage = '无法连接到AI服务，请检查网络连接';
+    } else if (error.message) {
+      errorMessage = error.message;
+    }
+    
+    sendEvent({ type: 'error', error: errorMessage });
+  }
+  
+  sendEvent('[DONE]');
+  res.end();
+});
+
 module.exports = router;
@@ -0,0 +1,74 @@
+/**
+ * LaTeX 编译路由模块
+ */
+
+const express = require('express');
+const router = express.Router();
+
+const { compileLatex } = require('../latexCompiler.cjs');
+const { isAbortError, createClientAbortSignal } = require('../abortUtils.cjs');
+const { MAIN_FILE, readProjectFiles, normalizeProjectPath } = require('../projectStore.cjs');
+
+// 编译 LaTeX 文档，返回 PDF（base64）和映射到编辑器行号的错误/警告
+// 传入 file 时编译整个项目：content 为该文件未保存的内容，其他文件从项目存储读取，从 main.tex 开始编译
+router.post('/', async (req, res) => {
+  try {
+    const { content, file } = req.body;
+
+    if (typeof content !== 'string' || (!file && !content)) {
+      return res.status(400).json({
+        success: false,
+        error: '内容不能为空'
+      });
+    }
+
+    let mainContent = content;
+    let files = {};
+    if (file) {
+      const { [MAIN_FILE]: main, ...others } = { ...readProjectFiles(), [normalizeProjectPath(file)]: content };
+      mainContent = main;
+      files = others;
+    }
+
+    const signal = createClientAbortSignal(res, '[Compile]');
+    const result = await compileLatex(mainContent, { signal, files });
+    const data = {
+      pdf: result.pdf ? result.pdf.toString('base64') : null,
+      errors: result.errors,
+      warnings: result.warnings,
+      log: result.log,
+      runs: result.runs,
+      duration: result.duration
+    };
+
+    // 没有生成 PDF 时视为编译失败，仍返回错误列表和日志
+    if (!result.pdf) {
+      return res.status(422).json({
+        success: false,
+        error: result.errors.length > 0
+          ? `编译失败：${result.errors[0].message}`
+          : '编译失败，未生成 PDF',
+        data
+      });
+    }
+
+    res.json({
+      success: true,
+      data
+    });
+  } catch (error) {
+    if (isAbortError(error)) {
+      console.log('[Compile] 编译已取消');
+      return;
+    }
+    console.error('[Compile] 编译失败:', error);
+    const status = error.code === 'ENGINE_NOT_FOUND' ? 503 : error.code === 'TIMEOUT' ? 504 : 500;
+    res.status(status).json({
+      success: false,
+      error: error.message || '编译失败',
+      code: error.code
+    });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,133 @@
+/**
+ * Git 版本管理路由模块（当前项目的本地 Git 仓库：提交、历史和分支）
+ */
+
+const express = require('express');
+const router = express.Router();
+
+const { ProjectError } = require('../projectStore.cjs');
+const {
+  GitError,
+  setGitEnabled,
+  getStatus,
+  getLog,
+  getCommit,
+  commitChanges,
+  createBranch,
+  checkoutBranch
+} = require('../gitStore.cjs');
+
+// Git 操作错误 → HTTP 状态码
+function sendGitError(res, error, fallbackMessage) {
+  if (error instanceof ProjectError) {
+    const status = error.code === 'NOT_FOUND' ? 404 : error.code === 'EXISTS' ? 409 : 400;
+    return res.status(status).json({ success: false, error: error.message });
+  }
+  if (error instanceof GitError) {
+    console.error(`[Git] ${fallbackMessage}:`, error.message);
+    const status = error.code === 'GIT_NOT_FOUND' ? 503 : 500;
+    return res.status(status).json({ success: false, error: error.message });
+  }
+  console.error(`[Git] ${fallbackMessage}:`, error);
+  res.status(500).json({ success: false, error: error.message || fallbackMessage });
+}
+
+// Git 状态（是否启用、当前分支、分支列表、是否有未提交的修改）
+router.get('/status', async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: await getStatus()
+    });
+  } catch (error) {
+    sendGitError(res, error, '获取 Git 状态失败');
+  }
+});
+
+// 为当前项目启用 Git（初始化本地仓库并提交当前文件）
+router.post('/enable', async (req, res) => {
+  try {
+    await setGitEnabled(true);
+    res.json({
+      success: true,
+      data: await getStatus()
+    });
+  } catch (error) {
+    sendGitError(res, error, '启用 Git 失败');
+  }
+});
+
+// 停用 Git（保留仓库和提交历史，不再自动提交）
+router.post('/disable', async (req, res) => {
+  try {
+    await setGitEnabled(false);
+    res.json({
+      success: true,
+      data: { enabled: false }
+    });
+  } catch (error) {
+    sendGitError(res, error, '停用 Git 失败');
+  }
+});
+
+// 当前分支的提交历史
+router.get('/log', async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: await getLog(req.query.limit)
+    });
+  } catch (error) {
+    sendGitError(res, error, '获取提交历史失败');
+  }
+});
+
+// 获取某次提交的全部项目文件
+router.get('/commits/:hash', async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: await getCommit(req.params.hash)
+    });
+  } catch (error) {
+    sendGitError(res, error, '读取提交失败');
+  }
+});
+
+// 提交当前项目的全部修改（应用 Agent 修改后由前端调用，也可手动提交）
+router.post('/commit', async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: await commitChanges(req.body.message)
+    });
+  } catch (error) {
+    sendGitError(res, error, '提交失败');
+  }
+});
+
+// 从当前分支创建新分支并切换过去
+router.post('/branches', async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: await createBranch(req.body.name)
+    });
+  } catch (error) {
+    sendGitError(res, error, '创建分支失败');
+  }
+});
+
+// 切换分支（切换前自动提交未提交的修改）
+router.post('/checkout', async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: await checkoutBranch(req.body.branch)
+    });
+  } catch (error) {
+    sendGitError(res, error, '切换分支失败');
+  }
+});
+
+module.exports = router;
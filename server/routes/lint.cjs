@@ -0,0 +1,147 @@
+/**
+ * LaTeX 静态检查路由模块
+ */
+
+const express = require('express');
+const router = express.Router();
+
+const { localStorage } = require('../storage.cjs');
+const { callModelApi } = require('../aiApi.cjs');
+const { executeTool } = require('../tools/toolExecutor.cjs');
+const { readProjectFiles, normalizeProjectPath } = require('../projectStore.cjs');
+const { lintLatex, countFindings } = require('../tools/latexLinter.cjs');
+const { isAbortError, createClientAbortSignal } = require('../abortUtils.cjs');
+
+// 修复时发送给模型的上下文行数（问题所在行的前后各几行）
+const FIX_CONTEXT_LINES = 5;
+
+function loadReferences() {
+  const storedData = localStorage.getItem('academic_writing_references');
+  return storedData ? JSON.parse(storedData) : [];
+}
+
+// 提取模型回复中的代码块；没有代码块时使用整个回复
+function extractReplacement(response) {
+  const match = response.match(/```(?:latex|tex)?[ \t]*\n([\s\S]*?)\n?```/);
+  return (match ? match[1] : response.trim()).replace(/\s+$/, '');
+}
+
+// 检查文档，返回问题列表
+// 传入 file（项目中的路径）时结合项目中的其他文件检查 \input 和跨文件的标签、引用
+router.post('/', (req, res) => {
+  try {
+    const { content, file } = req.body;
+
+    if (typeof content !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: '内容不能为空'
+      });
+    }
+
+    const options = { references: loadReferences() };
+    if (file) {
+      options.file = normalizeProjectPath(file);
+      options.projectFiles = { ...readProjectFiles(), [options.file]: content };
+    }
+    const findings = lintLatex(content, options);
+
+    res.json({
+      success: true,
+      data: {
+        findings,
+        counts: countFindings(findings)
+      }
+    });
+  } catch (error) {
+    console.error('[Lint] 检查失败:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || '检查失败'
+    });
+  }
+});
+
+// 使用 Agent 修复单个问题：将问题及前后几行发送给模型，再通过 edit_file 的 replace_lines 应用修改
+router.post('/fix', async (req, res) => {
+  try {
+    const { content, finding, model, apiKey } = req.body;
+
+    if (!content || typeof content !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: '内容不能为空'
+      });
+    }
+    if (!finding || !Number.isInteger(finding.line)) {
+      return res.status(400).json({
+        success: false,
+        error: '缺少要修复的问题'
+      });
+    }
+
+    const lines = content.split('\n');
+    const startLine = Math.max(1, finding.line - FIX_CONTEXT_LINES);
+    const endLine = Math.min(lines.length, (finding.end_line || finding.line) + FIX_CONTEXT_LINES);
+    const excerpt = lines
+      .slice(startLine - 1, endLine)
+      .map((line, index) => `${startLine + index}: ${line}`)
+      .join('\n');
+
+    const messages = [
+      {
+        role: 'system',
+        content: '你是 LaTeX 排错助手。用户会给出静态检查发现的问题和出错位置附近带行号的源码片段，请只修复该问题，不要改动无关内容。只输出修复后的完整片段（不带行号），放在一个 ```latex 代码块中，不要输出任何解释。'
+      },
+      {
+        role: 'user',
+        content: `问题：第 ${finding.line} 行第 ${finding.column} 列 - ${finding.message}（${finding.rule}）\n\n源码片段（第 ${startLine}-${endLine} 行）：\n${excerpt}`
+      }
+    ];
+
+    console.log(`[Lint] 使用 Agent 修复第 ${finding.line} 行: ${finding.message}`);
+
+    const signal = createClientAbortSignal(res, '[Lint]');
+    const result = await callModelApi(model, messages, apiKey, { stream: false, signal });
+    const replacement = extractReplacement(result.response || '');
+
+    if (!replacement) {
+      return res.status(502).json({
+        success: false,
+        error: '模型没有返回修复内容'
+      });
+    }
+
+    const editResult = await executeTool('edit_file', {
+      operation: 'replace_lines',
+      start_line: startLine,
+      end_line: endLine,
+      content: replacement
+    }, content);
+
+    if (!editResult.success) {
+      return res.status(422).json(editResult);
+    }
+
+    res.json({
+      success: true,
+      data: {
+        new_content: editResult.data.new_content,
+        changes: editResult.data.changes,
+        message: editResult.data.message
+      }
+    });
+  } catch (error) {
+    if (isAbortError(error)) {
+      console.log('[Lint] 修复已取消');
+      return;
+    }
+    console.error('[Lint] 修复失败:', error);
+    res.status(error.response?.status || 500).json({
+      success: false,
+      error: error.response?.data?.error?.message || error.message || '修复失败'
+    });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,31 @@
+/**
+ * 模型列表路由模块
+ */
+
+const express = require('express');
+const router = express.Router();
+
+const { listModels } = require('../providers/index.cjs');
+
+// 获取可用模型列表（供前端模型选择器使用）
+router.get('/', async (req, res) => {
+  try {
+    const models = await listModels();
+    
+    res.json({
+      success: true,
+      data: {
+        models,
+        count: models.length
+      }
+    });
+  } catch (error) {
+    console.error('[Models] 获取模型列表失败:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || '获取模型列表失败'
+    });
+  }
+});
+
+module.exports = router;
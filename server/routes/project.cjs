@@ -0,0 +1,134 @@
+/**
+ * 项目文件路由模块
+ */
+
+const express = require('express');
+const router = express.Router();
+
+const {
+  MAIN_FILE,
+  ProjectError,
+  listFiles,
+  readFile,
+  writeFile,
+  createFile,
+  deleteFile,
+  renameFile,
+  readProjectFiles
+} = require('../projectStore.cjs');
+
+// 项目操作错误 → HTTP 状态码
+function sendProjectError(res, error, fallbackMessage) {
+  if (error instanceof ProjectError) {
+    const status = error.code === 'NOT_FOUND' ? 404 : error.code === 'EXISTS' ? 409 : 400;
+    return res.status(status).json({ success: false, error: error.message });
+  }
+  console.error(`[Project] ${fallbackMessage}:`, error);
+  res.status(500).json({ success: false, error: error.message || fallbackMessage });
+}
+
+// 获取项目（文件列表及内容）
+router.get('/', (req, res) => {
+  try {
+    const contents = readProjectFiles();
+    res.json({
+      success: true,
+      data: {
+        main_file: MAIN_FILE,
+        files: listFiles().map(file => ({ ...file, content: contents[file.path] }))
+      }
+    });
+  } catch (error) {
+    sendProjectError(res, error, '读取项目失败');
+  }
+});
+
+// 读取单个文件
+router.get('/files/*', (req, res) => {
+  try {
+    const path = req.params[0];
+    res.json({
+      success: true,
+      data: { path, content: readFile(path) }
+    });
+  } catch (error) {
+    sendProjectError(res, error, '读取文件失败');
+  }
+});
+
+// 创建或保存文件
+router.put('/files/*', (req, res) => {
+  try {
+    const { content } = req.body;
+    if (typeof content !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: '文件内容必须是字符串'
+      });
+    }
+
+    const result = writeFile(req.params[0], content);
+    if (result.created) {
+      console.log(`[Project] 已创建文件: ${result.path}`);
+    }
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    sendProjectError(res, error, '保存文件失败');
+  }
+});
+
+// 新建文件（文件已存在时返回 409）
+router.post('/files', (req, res) => {
+  try {
+    const { path, content = '' } = req.body;
+    if (typeof path !== 'string' || !path.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: '文件路径不能为空'
+      });
+    }
+
+    const createdPath = createFile(path.trim(), content);
+    console.log(`[Project] 已创建文件: ${createdPath}`);
+    res.json({
+      success: true,
+      data: { path: createdPath }
+    });
+  } catch (error) {
+    sendProjectError(res, error, '新建文件失败');
+  }
+});
+
+// 删除文件
+router.delete('/files/*', (req, res) => {
+  try {
+    deleteFile(req.params[0]);
+    console.log(`[Project] 已删除文件: ${req.params[0]}`);
+    res.json({
+      success: true,
+      data: { path: req.params[0] }
+    });
+  } catch (error) {
+    sendProjectError(res, error, '删除文件失败');
+  }
+});
+
+// 重命名或移动文件
+router.post('/rename', (req, res) => {
+  try {
+    const { from, to } = req.body;
+    const path = renameFile(from, to);
+    console.log(`[Project] 已重命名文件: ${from} → ${path}`);
+    res.json({
+      success: true,
+      data: { from, path }
+    });
+  } catch (error) {
+    sendProjectError(res, error, '重命名文件失败');
+  }
+});
+
+module.exports = router;
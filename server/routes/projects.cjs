@@ -0,0 +1,219 @@
+/**
+ * 项目管理路由模块（多篇论文的创建、切换、归档和删除）
+ */
+
+const express = require('express');
+const router = express.Router();
+
+const { ProjectError } = require('../projectStore.cjs');
+const {
+  listProjects,
+  getActiveProject,
+  createProject,
+  updateProject,
+  deleteProject,
+  activateProject,
+  loadChat,
+  saveChat
+} = require('../projectRegistry.cjs');
+const {
+  listSessions,
+  getSession,
+  createSession,
+  updateSession,
+  deleteSession,
+  forkSession,
+  searchSessions
+} = require('../chatStore.cjs');
+
+// 项目操作错误 → HTTP 状态码
+function sendProjectError(res, error, fallbackMessage) {
+  if (error instanceof ProjectError) {
+    const status = error.code === 'NOT_FOUND' ? 404 : error.code === 'EXISTS' ? 409 : 400;
+    return res.status(status).json({ success: false, error: error.message });
+  }
+  console.error(`[Projects] ${fallbackMessage}:`, error);
+  res.status(500).json({ success: false, error: error.message || fallbackMessage });
+}
+
+// 获取项目列表和当前打开的项目
+router.get('/', (req, res) => {
+  try {
+    const active = getActiveProject();
+    res.json({
+      success: true,
+      data: {
+        active_project: active ? active.id : null,
+        projects: listProjects()
+      }
+    });
+  } catch (error) {
+    sendProjectError(res, error, '获取项目列表失败');
+  }
+});
+
+// 创建项目
+router.post('/', (req, res) => {
+  try {
+    const { name, use_global_library } = req.body;
+    res.json({
+      success: true,
+      data: createProject({ name, use_global_library })
+    });
+  } catch (error) {
+    sendProjectError(res, error, '创建项目失败');
+  }
+});
+
+// 更新项目（重命名、归档/恢复、切换资源库）
+router.put('/:id', (req, res) => {
+  try {
+    const { name, archived, use_global_library } = req.body;
+    res.json({
+      success: true,
+      data: updateProject(req.params.id, { name, archived, use_global_library })
+    });
+  } catch (error) {
+    sendProjectError(res, error, '更新项目失败');
+  }
+});
+
+// 删除项目
+router.delete('/:id', (req, res) => {
+  try {
+    deleteProject(req.params.id);
+    res.json({
+      success: true,
+      data: { id: req.params.id }
+    });
+  } catch (error) {
+    sendProjectError(res, error, '删除项目失败');
+  }
+});
+
+// 打开项目
+router.post('/:id/activate', (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: activateProject(req.params.id)
+    });
+  } catch (error) {
+    sendProjectError(res, error, '打开项目失败');
+  }
+});
+
+// 获取项目的工具使用历史（旧版的对话记录已迁移到会话）
+router.get('/:id/chat', (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: loadChat(req.params.id)
+    });
+  } catch (error) {
+    sendProjectError(res, error, '读取对话记录失败');
+  }
+});
+
+// 保存对话记录（messages、tool_history 可只传其中一项）
+router.put('/:id/chat', (req, res) => {
+  try {
+    const { messages, tool_history } = req.body;
+    saveChat(req.params.id, { messages, tool_history });
+    res.json({
+      success: true,
+      data: { id: req.params.id }
+    });
+  } catch (error) {
+    sendProjectError(res, error, '保存对话记录失败');
+  }
+});
+
+// 对话会话列表（最近更新的在前）
+router.get('/:id/sessions', (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: listSessions(req.params.id)
+    });
+  } catch (error) {
+    sendProjectError(res, error, '获取对话列表失败');
+  }
+});
+
+// 在全部会话的标题和消息中搜索
+router.get('/:id/sessions/search', (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: searchSessions(req.params.id, req.query.q)
+    });
+  } catch (error) {
+    sendProjectError(res, error, '搜索对话失败');
+  }
+});
+
+// 新建会话（导入聊天记录时传入 title 和 messages）
+router.post('/:id/sessions', (req, res) => {
+  try {
+    const { title, messages } = req.body;
+    res.json({
+      success: true,
+      data: createSession(req.params.id, { title, messages })
+    });
+  } catch (error) {
+    sendProjectError(res, error, '新建对话失败');
+  }
+});
+
+// 获取会话（包含全部消息）
+router.get('/:id/sessions/:sessionId', (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: getSession(req.params.id, req.params.sessionId)
+    });
+  } catch (error) {
+    sendProjectError(res, error, '读取对话失败');
+  }
+});
+
+// 保存会话消息或重命名
+router.put('/:id/sessions/:sessionId', (req, res) => {
+  try {
+    const { title, messages } = req.body;
+    res.json({
+      success: true,
+      data: updateSession(req.params.id, req.params.sessionId, { title, messages })
+    });
+  } catch (error) {
+    sendProjectError(res, error, '保存对话失败');
+  }
+});
+
+// 删除会话
+router.delete('/:id/sessions/:sessionId', (req, res) => {
+  try {
+    deleteSession(req.params.id, req.params.sessionId);
+    res.json({
+      success: true,
+      data: { id: req.params.sessionId }
+    });
+  } catch (error) {
+    sendProjectError(res, error, '删除对话失败');
+  }
+});
+
+// 从某条消息分叉出新会话 { message_index }
+router.post('/:id/sessions/:sessionId/fork', (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: forkSession(req.params.id, req.params.sessionId, req.body.message_index)
+    });
+  } catch (error) {
+    sendProjectError(res, error, '分叉对话失败');
+  }
+});
+
+module.exports = router;
@@ -8,9 +8,490 @@ const router = express.Router();
 
 const { localStorage } = require('../storage.cjs');
 const { generateInsertContent } = require('../tools/index.cjs');
+const { DUPLICATE_STRATEGIES, importBibtex, selectCitedReferences } = require('../bibtex.cjs');
+const { FORMATS, parseReferences, formatReferences, previewImport, applyImport } = require('../referenceFormats.cjs');
+const { CITATION_STYLES, MARKUPS, citationNumber, formatBibliography } = require('../citationStyles.cjs');
+const { CITATION_CONFIG } = require('../config.cjs');
+const { collectCitationKeys } = require('../tools/latexLinter.cjs');
+const { KEY_TOKENS, ensureCitationKey, checkCitations, planKeyRenames, applyKeyRenames } = require('../citationKeys.cjs');
+const { findDuplicate, findDuplicateGroups, mergeReferences, rewriteCitationKeys } = require('../referenceDedup.cjs');
+const { extractPdfMetadata, linkPdfReference, linkPdfToLibrary, unlinkPdf, syncPdfLinks } = require('../pdfReferences.cjs');
+const { extractPDFTextFromDataUrl } = require('../pdfUtils.cjs');
+const { readProjectFiles, writeFile } = require('../projectStore.cjs');
 
 const VALID_RESOURCE_TYPES = ['references', 'images', 'pdfs', 'datafiles', 'codesnippets', 'notes'];
 
+// 读取参考文献库
+function loadReferences() {
+  const storedData = localStorage.getItem('academic_writing_references');
+  try {
+    return storedData ? JSON.parse(storedData) : [];
+  } catch (e) {
+    return [];
+  }
+}
+
+// 读取PDF资源
+function loadPdfs() {
+  const storedData = localStorage.getItem('academic_writing_pdfs');
+  try {
+    return storedData ? JSON.parse(storedData) : [];
+  } catch (e) {
+    return [];
+  }
+}
+
+// 删除或合并条目后修正参考文献与PDF之间的关联，有变化时保存
+function savePdfLinks(references, pdfs) {
+  const { referencesChanged, pdfsChanged } = syncPdfLinks(references, pdfs);
+  if (referencesChanged) localStorage.setItem('academic_writing_references', JSON.stringify(references));
+  if (pdfsChanged) localStorage.setItem('academic_writing_pdfs', JSON.stringify(pdfs));
+}
+
+// 导出参考文献（scope=cited 时只导出当前项目正文中引用的条目，并返回库中缺少的键）
+function sendReferenceExport(res, format, scope) {
+  if (!FORMATS[format]) {
+    return res.status(400).json({
+      success: false,
+      error: `不支持的格式，可选 ${Object.keys(FORMATS).join(' / ')}`
+    });
+  }
+
+  if (!['all', 'cited'].includes(scope)) {
+    return res.status(400).json({
+      success: false,
+      error: '无效的导出范围，可选 all 或 cited'
+    });
+  }
+
+  let references = loadReferences();
+  let missing = [];
+  if (scope === 'cited') {
+    const selection = selectCitedReferences(references, collectCitationKeys(readProjectFiles()));
+    references = selection.references;
+    missing = selection.missing;
+  }
+
+  res.json({
+    success: true,
+    data: {
+      format,
+      scope,
+      content: references.length > 0 ? formatReferences(references, format) : '',
+      count: references.length,
+      missing,
+      file_name: `${scope === 'cited' ? 'cited' : 'references'}${FORMATS[format].extension}`,
+      mime_type: FORMATS[format].mimeType
+    }
+  });
+}
+
+// 参考文献导出为 BibTeX（供编译和 Agent 使用）
+router.get('/references/bibtex', (req, res) => {
+  sendReferenceExport(res, 'bibtex', req.query.scope || 'all');
+});
+
+// 参考文献导出为 BibTeX / RIS / CSL-JSON / EndNote XML
+router.get('/references/export', (req, res) => {
+  const { format = 'bibtex', scope = 'all' } = req.query;
+  sendReferenceExport(res, format, scope);
+});
+
+// 导入预览：解析文件并与参考文献库比较，标出新条目、重复和冲突
+router.post('/references/import/preview', async (req, res) => {
+  const { content, format = 'auto' } = req.body;
+
+  if (typeof content !== 'string' || !content.trim()) {
+    return res.status(400).json({
+      success: false,
+      error: '导入内容不能为空'
+    });
+  }
+
+  let parsed;
+  try {
+    parsed = await parseReferences(content, format);
+  } catch (error) {
+    return res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+
+  if (parsed.references.length === 0) {
+    return res.status(400).json({
+      success: false,
+      error: parsed.errors.length > 0
+        ? `未能解析任何条目：第 ${parsed.errors[0].line} 行 ${parsed.errors[0].message}`
+        : '未找到参考文献条目'
+    });
+  }
+
+  res.json({
+    success: true,
+    data: {
+      format: parsed.format,
+      items: previewImport(loadReferences(), parsed.references),
+      errors: parsed.errors
+    }
+  });
+});
+
+// 按预览中选择的操作导入（items: [{ reference, action: add / merge / replace / skip, existing_id }]）
+router.post('/references/import', (req, res) => {
+  const { items } = req.body;
+
+  if (!Array.isArray(items) || items.length === 0) {
+    return res.status(400).json({
+      success: false,
+      error: '没有要导入的条目'
+    });
+  }
+
+  let result;
+  try {
+    result = applyImport(loadReferences(), items);
+  } catch (error) {
+    return res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+
+  localStorage.setItem('academic_writing_references', JSON.stringify(result.references));
+  console.log(`[Resources] 导入参考文献: 新增 ${result.added.length}，合并 ${result.merged.length}，替换 ${result.replaced.length}，跳过 ${result.skipped.length}`);
+
+  res.json({
+    success: true,
+    data: {
+      added: result.added,
+      merged: result.merged,
+      replaced: result.replaced,
+      skipped: result.skipped,
+      renamed: result.renamed,
+      count: result.references.length
+    }
+  });
+});
+
+// 从 BibTeX 导入参考文献（on_duplicate: skip / rename / replace）
+router.post('/references/bibtex', (req, res) => {
+  const { content, on_duplicate = 'skip' } = req.body;
+
+  if (typeof content !== 'string' || !content.trim()) {
+    return res.status(400).json({
+      success: false,
+      error: 'BibTeX 内容不能为空'
+    });
+  }
+
+  if (!DUPLICATE_STRATEGIES.includes(on_duplicate)) {
+    return res.status(400).json({
+      success: false,
+      error: `无效的重复处理方式，可选 ${DUPLICATE_STRATEGIES.join(' / ')}`
+    });
+  }
+
+  const result = importBibtex(loadReferences(), content, on_duplicate);
+  const changed = result.imported.length + result.renamed.length + result.replaced.length;
+
+  if (changed === 0 && result.skipped.length === 0) {
+    return res.status(400).json({
+      success: false,
+      error: result.errors.length > 0
+        ? `未能解析任何条目：第 ${result.errors[0].line} 行 ${result.errors[0].message}`
+        : '未找到 BibTeX 条目'
+    });
+  }
+
+  if (changed > 0) {
+    localStorage.setItem('academic_writing_references', JSON.stringify(result.references));
+  }
+  console.log(`[Resources] 导入 BibTeX: 新增 ${result.imported.length}，重命名 ${result.renamed.length}，覆盖 ${result.replaced.length}，跳过 ${result.skipped.length}`);
+
+  res.json({
+    success: true,
+    data: {
+      imported: result.imported,
+      renamed: result.renamed,
+      replaced: result.replaced,
+      skipped: result.skipped,
+      errors: result.errors,
+      count: result.references.length
+    }
+  });
+});
+
+// 按引用样式生成参考文献列表（scope=cited 时按当前项目正文中首次引用的顺序）
+router.get('/references/bibliography', (req, res) => {
+  const { style = CITATION_CONFIG.defaultStyle, format = 'text', scope = 'cited' } = req.query;
+
+  if (!CITATION_STYLES[style]) {
+    return res.status(400).json({
+      success: false,
+      error: `不支持的引用样式，可选 ${Object.keys(CITATION_STYLES).join(' / ')}`
+    });
+  }
+
+  if (!MARKUPS.includes(format)) {
+    return res.status(400).json({
+      success: false,
+      error: `不支持的输出格式，可选 ${MARKUPS.join(' / ')}`
+    });
+  }
+
+  if (!['all', 'cited'].includes(scope)) {
+    return res.status(400).json({
+      success: false,
+      error: '无效的范围，可选 all 或 cited'
+    });
+  }
+
+  let references = loadReferences();
+  let missing = [];
+  if (scope === 'cited') {
+    const selection = selectCitedReferences(references, collectCitationKeys(readProjectFiles()));
+    references = selection.references;
+    missing = selection.missing;
+  }
+
+  res.json({
+    success: true,
+    data: {
+      style,
+      format,
+      scope,
+      content: references.length > 0 ? formatBibliography(references, style, format) : '',
+      count: references.length,
+      missing
+    }
+  });
+});
+
+// 查找参考文献库中的重复条目（DOI、arXiv ID，或标题 + 年份 + 第一作者相同）
+router.get('/references/duplicates', (req, res) => {
+  const groups = findDuplicateGroups(loadReferences());
+  res.json({
+    success: true,
+    data: {
+      groups,
+      count: groups.length
+    }
+  });
+});
+
+// 合并重复的参考文献，并把当前项目正文中被合并条目的引用键改写为合并后的键
+router.post('/references/merge', (req, res) => {
+  const { target_id, source_ids, choices } = req.body;
+
+  let result;
+  try {
+    result = mergeReferences(loadReferences(), { target_id, source_ids, choices });
+  } catch (error) {
+    return res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+
+  let rewritten = { files: {}, count: 0 };
+  try {
+    rewritten = rewriteCitationKeys(readProjectFiles(), result.keyMap);
+    for (const [path, content] of Object.entries(rewritten.files)) {
+      writeFile(path, content);
+    }
+  } catch (error) {
+    console.error('[Resources] 改写引用键失败:', error);
+    return res.status(500).json({
+      success: false,
+      error: `改写正文中的引用键失败: ${error.message}`
+    });
+  }
+
+  localStorage.setItem('academic_writing_references', JSON.stringify(result.references));
+  // 被合并条目关联的PDF改为关联合并后的条目
+  savePdfLinks(result.references, loadPdfs());
+  console.log(`[Resources] 合并参考文献: ${result.removed.length} 条合并到 ${result.merged.citationKey}，改写 ${rewritten.count} 处引用`);
+
+  res.json({
+    success: true,
+    data: {
+      merged: result.merged,
+      removed: result.removed,
+      key_map: result.keyMap,
+      rewritten_files: Object.keys(rewritten.files),
+      rewritten_citations: rewritten.count
+    }
+  });
+});
+
+// 检查正文引用与参考文献库是否一致：库中没有的键、从未引用的条目、缺少引用键的条目
+router.get('/references/keys/check', (req, res) => {
+  res.json({
+    success: true,
+    data: {
+      ...checkCitations(loadReferences(), readProjectFiles()),
+      key_pattern: CITATION_CONFIG.keyPattern,
+      key_tokens: KEY_TOKENS
+    }
+  });
+});
+
+// 按引用键模式预览批量重命名（ids 为空时处理全部条目，only_missing 时只处理缺少引用键的条目）
+router.post('/references/keys/preview', (req, res) => {
+  const { pattern = CITATION_CONFIG.keyPattern, ids, only_missing = false } = req.body;
+
+  try {
+    const renames = planKeyRenames(loadReferences(), { pattern, ids, onlyMissing: only_missing });
+    res.json({
+      success: true,
+      data: { pattern, renames }
+    });
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// 批量重命名引用键，并改写当前项目正文中的引用
+router.post('/references/keys/rename', (req, res) => {
+  const { renames } = req.body;
+
+  let result;
+  try {
+    result = applyKeyRenames(loadReferences(), renames);
+  } catch (error) {
+    return res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+
+  let rewritten = { files: {}, count: 0 };
+  try {
+    rewritten = rewriteCitationKeys(readProjectFiles(), result.keyMap);
+    for (const [path, content] of Object.entries(rewritten.files)) {
+      writeFile(path, content);
+    }
+  } catch (error) {
+    console.error('[Resources] 改写引用键失败:', error);
+    return res.status(500).json({
+      success: false,
+      error: `改写正文中的引用键失败: ${error.message}`
+    });
+  }
+
+  localStorage.setItem('academic_writing_references', JSON.stringify(result.references));
+  console.log(`[Resources] 重命名引用键: ${renames.length} 条，改写 ${rewritten.count} 处引用`);
+
+  res.json({
+    success: true,
+    data: {
+      renamed: renames.length,
+      key_map: result.keyMap,
+      rewritten_files: Object.keys(rewritten.files),
+      rewritten_citations: rewritten.count
+    }
+  });
+});
+
+// 关联PDF与参考文献：指定 reference_id 时直接关联；
+// 否则从PDF中提取文献信息（arXiv ID、DOI、标题、作者），关联库中的同一文献或新建条目
+router.post('/pdfs/:id/link', async (req, res) => {
+  const { id } = req.params;
+  const { reference_id } = req.body;
+
+  const pdfs = loadPdfs();
+  const references = loadReferences();
+  const pdf = pdfs.find(item => item.id === id);
+  if (!pdf) {
+    return res.status(404).json({
+      success: false,
+      error: '未找到指定的PDF资源'
+    });
+  }
+
+  let linked;
+  if (reference_id) {
+    try {
+      linked = { reference: linkPdfReference(references, pdfs, id, reference_id).reference, created: false };
+    } catch (error) {
+      return res.status(404).json({
+        success: false,
+        error: error.message
+      });
+    }
+  } else {
+    // 上传的PDF还没有提取过文本时先提取，同时保存文本供 read_pdf_content 使用
+    let extraction = null;
+    if (!pdf.extractedText && pdf.dataUrl) {
+      extraction = await extractPDFTextFromDataUrl(pdf.dataUrl);
+      if (extraction.success) {
+        pdf.extractedText = extraction.text;
+        pdf.textStats = {
+          textLength: extraction.stats.textLength,
+          numWords: extraction.stats.numWords,
+          numPages: extraction.metadata.numPages
+        };
+        pdf.hasTextContent = !!extraction.text;
+      }
+    }
+
+    linked = linkPdfToLibrary(references, pdfs, pdf, extractPdfMetadata(pdf, extraction), CITATION_CONFIG.keyPattern);
+    if (!linked) {
+      localStorage.setItem('academic_writing_pdfs', JSON.stringify(pdfs));
+      return res.status(422).json({
+        success: false,
+        error: '无法从PDF中提取文献信息，请手动选择要关联的参考文献'
+      });
+    }
+  }
+
+  localStorage.setItem('academic_writing_pdfs', JSON.stringify(pdfs));
+  localStorage.setItem('academic_writing_references', JSON.stringify(references));
+  console.log(`[Resources] PDF ${pdf.name} 关联参考文献 [${linked.reference.citationKey}]${linked.created ? '（新建）' : ''}`);
+
+  res.json({
+    success: true,
+    data: {
+      pdf_id: id,
+      reference_id: linked.reference.id,
+      citation_key: linked.reference.citationKey,
+      created: linked.created,
+      reference: linked.reference
+    }
+  });
+});
+
+// 解除PDF与参考文献的关联
+router.delete('/pdfs/:id/link', (req, res) => {
+  const { id } = req.params;
+
+  const pdfs = loadPdfs();
+  const references = loadReferences();
+  if (!pdfs.some(item => item.id === id)) {
+    return res.status(404).json({
+      success: false,
+      error: '未找到指定的PDF资源'
+    });
+  }
+
+  if (unlinkPdf(references, pdfs, id)) {
+    localStorage.setItem('academic_writing_pdfs', JSON.stringify(pdfs));
+    localStorage.setItem('academic_writing_references', JSON.stringify(references));
+  }
+
+  res.json({
+    success: true,
+    data: {
+      message: '已解除关联',
+      pdf_id: id
+    }
+  });
+});
+
 // 资源管理API - 获取资源列表
 router.get('/:type', (req, res) => {
   const { type } = req.params;
@@ -38,7 +519,7 @@ router.get('/:type', (req, res) => {
 // 资源管理API - 添加资源（统一逻辑：检查是否已存在）
 router.post('/:type', (req, res) => {
   const { type } = req.params;
-  const { resource_data } = req.body;
+  const { resource_data, allow_duplicate = false } = req.body;
   
   if (!VALID_RESOURCE_TYPES.includes(type)) {
     return res.status(400).json({
@@ -92,7 +573,11 @@ router.post('/:type', (req, res) => {
   if (type === 'pdfs' && resource_data.name) {
     const existingIndex = resources.findIndex(r => r.name === resource_data.name);
     if (existingIndex !== -1) {
-      // 更新已存在的PDF资源
+      // 更新已存在的PDF资源（保留原来的 id 和参考文献关联）
+      resource_data.id = resources[existingIndex].id;
+      if (resources[existingIndex].referenceId && !resource_data.referenceId) {
+        resource_data.referenceId = resources[existingIndex].referenceId;
+      }
       resources[existingIndex] = resource_data;
       localStorage.setItem(`academic_writing_${type}`, JSON.stringify(resources));
       
@@ -109,6 +594,27 @@ router.post('/:type', (req, res) => {
     }
   }
   
+  // 对于参考文献，没有引用键时按配置的模式生成
+  if (type === 'references') {
+    ensureCitationKey(resources, resource_data, CITATION_CONFIG.keyPattern);
+  }
+  
+  // 对于参考文献，检查库中是否已有同一文献（allow_duplicate 时仍然添加）
+  if (type === 'references' && !allow_duplicate) {
+    const duplicate = findDuplicate(resources, resource_data);
+    if (duplicate) {
+      return res.status(409).json({
+        success: false,
+        error: `参考文献库中已有相同的文献：[${duplicate.reference.citationKey}] ${duplicate.reference.title}`,
+        data: {
+          duplicate_id: duplicate.reference.id,
+          duplicate_key: duplicate.reference.citationKey,
+          reasons: duplicate.reasons
+        }
+      });
+    }
+  }
+  
   // 添加新资源
   resources.push(resource_data);
   localStorage.setItem(`academic_writing_${type}`, JSON.stringify(resources));
@@ -228,6 +734,11 @@ router.delete('/:type/:id', (req, res) => {
   resources.splice(index, 1);
   localStorage.setItem(`academic_writing_${type}`, JSON.stringify(resources));
   
+  // 删除参考文献或PDF时解除另一侧的关联
+  if (type === 'references' || type === 'pdfs') {
+    savePdfLinks(loadReferences(), loadPdfs());
+  }
+  
   res.json({
     success: true,
     data: {
@@ -240,7 +751,7 @@ router.delete('/:type/:id', (req, res) => {
 // 资源管理API - 生成资源引用（使用统一的引用生成函数）
 router.post('/:type/:id/insert', (req, res) => {
   const { type, id } = req.params;
-  const { insert_format = 'latex' } = req.body;
+  const { insert_format = 'latex', citation_style = CITATION_CONFIG.defaultStyle } = req.body;
   
   if (!VALID_RESOURCE_TYPES.includes(type)) {
     return res.status(400).json({
@@ -249,6 +760,13 @@ router.post('/:type/:id/insert', (req, res) => {
     });
   }
   
+  if (!CITATION_STYLES[citation_style]) {
+    return res.status(400).json({
+      success: false,
+      error: `不支持的引用样式，可选 ${Object.keys(CITATION_STYLES).join(' / ')}`
+    });
+  }
+  
   const storedData = localStorage.getItem(`academic_writing_${type}`);
   if (!storedData) {
     return res.status(404).json({
@@ -275,8 +793,17 @@ router.post('/:type/:id/insert', (req, res) => {
     });
   }
   
-  // 使用统一的引用生成函数
-  const insertContent = generateInsertContent(resource, type, insert_format);
+  // 参考文献没有引用键时先生成并保存，避免正文中出现 \cite{id}
+  if (type === 'references' && ensureCitationKey(resources, resource, CITATION_CONFIG.keyPattern)) {
+    localStorage.setItem('academic_writing_references', JSON.stringify(resources));
+  }
+  
+  // 使用统一的引用生成函数（顺序编码制的编号按当前项目正文中已有引用的顺序确定）
+  const citedKeys = type === 'references' ? collectCitationKeys(readProjectFiles()) : [];
+  const insertContent = generateInsertContent(resource, type, insert_format, {
+    style: citation_style,
+    number: citationNumber(resource, resources, citedKeys)
+  });
   
   res.json({
     success: true,
@@ -0,0 +1,106 @@
+/**
+ * 版本快照路由模块（当前项目的历史版本、检查点和恢复）
+ */
+
+const express = require('express');
+const router = express.Router();
+
+const { ProjectError } = require('../projectStore.cjs');
+const {
+  createSnapshot,
+  listSnapshots,
+  getSnapshot,
+  restoreSnapshot,
+  deleteSnapshot
+} = require('../snapshotStore.cjs');
+
+// 前端可以创建的快照类型（定时快照和恢复前快照由服务端创建）
+const CLIENT_SNAPSHOT_TYPES = ['manual', 'agent'];
+
+// 快照操作错误 → HTTP 状态码
+function sendSnapshotError(res, error, fallbackMessage) {
+  if (error instanceof ProjectError) {
+    const status = error.code === 'NOT_FOUND' ? 404 : 400;
+    return res.status(status).json({ success: false, error: error.message });
+  }
+  console.error(`[Snapshots] ${fallbackMessage}:`, error);
+  res.status(500).json({ success: false, error: error.message || fallbackMessage });
+}
+
+// 快照列表（最新的在前）
+router.get('/', (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: listSnapshots()
+    });
+  } catch (error) {
+    sendSnapshotError(res, error, '获取快照列表失败');
+  }
+});
+
+// 创建快照：命名检查点（manual）或应用 Agent 修改前的自动快照（agent）
+// files 为前端当前的完整项目文件（包含未保存的内容），省略时使用已保存的文件
+router.post('/', (req, res) => {
+  try {
+    const { name, type = 'manual', files } = req.body;
+    if (!CLIENT_SNAPSHOT_TYPES.includes(type)) {
+      return res.status(400).json({
+        success: false,
+        error: `快照类型必须是 ${CLIENT_SNAPSHOT_TYPES.join(' 或 ')}`
+      });
+    }
+    if (files !== undefined && (typeof files !== 'object' || files === null || Array.isArray(files))) {
+      return res.status(400).json({
+        success: false,
+        error: 'files 必须是 { 路径: 内容 } 对象'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: createSnapshot({ type, name, files })
+    });
+  } catch (error) {
+    sendSnapshotError(res, error, '创建快照失败');
+  }
+});
+
+// 获取快照（包含全部文件内容）
+router.get('/:id', (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: getSnapshot(req.params.id)
+    });
+  } catch (error) {
+    sendSnapshotError(res, error, '读取快照失败');
+  }
+});
+
+// 恢复到快照（恢复前自动为当前内容创建快照）
+router.post('/:id/restore', (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: restoreSnapshot(req.params.id)
+    });
+  } catch (error) {
+    sendSnapshotError(res, error, '恢复快照失败');
+  }
+});
+
+// 删除快照
+router.delete('/:id', (req, res) => {
+  try {
+    deleteSnapshot(req.params.id);
+    res.json({
+      success: true,
+      data: { id: req.params.id }
+    });
+  } catch (error) {
+    sendSnapshotError(res, error, '删除快照失败');
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,230 @@
+/**
+ * 版本快照模块 - 保存当前项目全部文件的历史版本
+ *
+ * 快照保存在项目目录的 snapshots 下：
+ * - index.json: 快照列表 [{ id, type, name, created_at, hash, files: { path: 文件哈希 }, size }]
+ * - objects/<哈希>: 文件内容，按内容哈希去重（与 contentCache 相同的哈希算法），多个快照共用
+ * 快照类型：auto（定时）、agent（应用 Agent 修改前）、restore（恢复前）、manual（命名检查点）。
+ * 自动快照在内容与最近一次快照相同时不重复创建，超过数量上限时删除最旧的自动快照。
+ */
+
+const fs = require('fs-extra');
+const { join } = require('path');
+const { SNAPSHOT_CONFIG } = require('./config.cjs');
+const { generateHash } = require('./contentCache.cjs');
+const { ProjectError, MAIN_FILE, normalizeProjectPath, readProjectFiles, writeFile, deleteFile } = require('./projectStore.cjs');
+const { getActiveProjectDir } = require('./projectRegistry.cjs');
+
+const SNAPSHOT_TYPES = ['auto', 'agent', 'restore', 'manual'];
+const MAX_NAME_LENGTH = 100;
+
+function snapshotsDir() {
+  return join(getActiveProjectDir(), 'snapshots');
+}
+
+function indexPath() {
+  return join(snapshotsDir(), 'index.json');
+}
+
+function objectPath(hash) {
+  return join(snapshotsDir(), 'objects', hash);
+}
+
+function loadIndex() {
+  if (!fs.existsSync(indexPath())) return [];
+  try {
+    return fs.readJsonSync(indexPath());
+  } catch (error) {
+    console.error('[快照] 读取快照列表失败:', error);
+    return [];
+  }
+}
+
+function saveIndex(snapshots) {
+  fs.ensureDirSync(snapshotsDir());
+  fs.writeJsonSync(indexPath(), snapshots, { spaces: 2 });
+}
+
+// 快照摘要（列表中不包含文件哈希表）
+function summarize(snapshot) {
+  const { files, ...rest } = snapshot;
+  return { ...rest, file_count: Object.keys(files).length };
+}
+
+// 快照的整体哈希：由排序后的 文件路径 + 文件哈希 计算，内容相同的项目哈希相同
+function manifestHash(fileHashes) {
+  const entries = Object.keys(fileHashes).sort().map(path => `${path}:${fileHashes[path]}`);
+  return generateHash(entries.join('\n'));
+}
+
+/**
+ * 创建快照
+ * @param {object} options
+ * @param {string} [options.type] - 快照类型，默认 manual
+ * @param {string} [options.name] - 检查点名称或说明
+ * @param {object} [options.files] - 完整的项目文件 { path: content }（包含前端未保存的内容），默认读取项目存储
+ * @returns {{ snapshot: object, created: boolean }} 自动快照与最近一次快照内容相同时 created 为 false
+ */
+function createSnapshot({ type = 'manual', name = '', files } = {}) {
+  if (!SNAPSHOT_TYPES.includes(type)) {
+    throw new ProjectError(`无效的快照类型: ${type}`, 'INVALID');
+  }
+  const trimmedName = String(name || '').trim().slice(0, MAX_NAME_LENGTH);
+  if (type === 'manual' && !trimmedName) {
+    throw new ProjectError('检查点名称不能为空', 'INVALID');
+  }
+
+  const contents = {};
+  for (const [path, content] of Object.entries(files || readProjectFiles())) {
+    contents[normalizeProjectPath(path)] = String(content ?? '');
+  }
+  if (contents[MAIN_FILE] === undefined) {
+    throw new ProjectError(`快照缺少主文件 ${MAIN_FILE}`, 'INVALID');
+  }
+
+  const fileHashes = {};
+  let size = 0;
+  for (const [path, content] of Object.entries(contents)) {
+    const hash = generateHash(content);
+    fileHashes[path] = hash;
+    size += content.length;
+    if (!fs.existsSync(objectPath(hash))) {
+      fs.outputFileSync(objectPath(hash), content, 'utf-8');
+    }
+  }
+
+  const snapshots = loadIndex();
+  const hash = manifestHash(fileHashes);
+  const latest = snapshots[snapshots.length - 1];
+  if (type !== 'manual' && latest && latest.hash === hash) {
+    return { snapshot: summarize(latest), created: false };
+  }
+
+  const snapshot = {
+    id: `snap_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+    type,
+    name: trimmedName,
+    created_at: new Date().toISOString(),
+    hash,
+    files: fileHashes,
+    size
+  };
+  snapshots.push(snapshot);
+  saveIndex(pruneSnapshots(snapshots));
+  console.log(`[快照] 已创建${type === 'manual' ? `检查点「${trimmedName}」` : `快照 (${type})`}: ${snapshot.id}, ${Object.keys(fileHashes).length} 个文件`);
+  return { snapshot: summarize(snapshot), created: true };
+}
+
+// 超过上限时删除最旧的自动快照，并清理不再被引用的文件内容
+function pruneSnapshots(snapshots) {
+  let excess = snapshots.filter(snapshot => snapshot.type !== 'manual').length - SNAPSHOT_CONFIG.maxAutomatic;
+  if (excess <= 0) return snapshots;
+
+  const kept = snapshots.filter(snapshot => {
+    if (excess > 0 && snapshot.type !== 'manual') {
+      excess--;
+      return false;
+    }
+    return true;
+  });
+  removeUnusedObjects(kept);
+  return kept;
+}
+
+function removeUnusedObjects(snapshots) {
+  const objectsDir = join(snapshotsDir(), 'objects');
+  if (!fs.existsSync(objectsDir)) return;
+
+  const used = new Set(snapshots.flatMap(snapshot => Object.values(snapshot.files)));
+  for (const hash of fs.readdirSync(objectsDir)) {
+    if (!used.has(hash)) {
+      fs.removeSync(join(objectsDir, hash));
+    }
+  }
+}
+
+// 快照列表（最新的在前）
+function listSnapshots() {
+  return loadIndex().map(summarize).reverse();
+}
+
+function findSnapshot(id) {
+  const snapshot = loadIndex().find(item => item.id === id);
+  if (!snapshot) {
+    throw new ProjectError(`快照不存在: ${id}`, 'NOT_FOUND');
+  }
+  return snapshot;
+}
+
+// 读取快照中的全部文件内容
+function getSnapshot(id) {
+  const snapshot = findSnapshot(id);
+  const files = {};
+  for (const [path, hash] of Object.entries(snapshot.files)) {
+    files[path] = fs.readFileSync(objectPath(hash), 'utf-8');
+  }
+  return { ...summarize(snapshot), files };
+}
+
+/**
+ * 将项目恢复到快照：恢复前先为当前内容创建快照，之后写入快照中的文件并删除快照中没有的文件
+ */
+function restoreSnapshot(id) {
+  const target = getSnapshot(id);
+  const label = target.name || new Date(target.created_at).toLocaleString('zh-CN');
+  const { snapshot: backup } = createSnapshot({ type: 'restore', name: `恢复到「${label}」之前` });
+
+  const current = readProjectFiles();
+  for (const path of Object.keys(current)) {
+    if (target.files[path] === undefined && path !== MAIN_FILE) {
+      deleteFile(path);
+    }
+  }
+  for (const [path, content] of Object.entries(target.files)) {
+    if (current[path] !== content) {
+      writeFile(path, content);
+    }
+  }
+
+  console.log(`[快照] 已恢复到快照: ${id}`);
+  return { snapshot: summarize(findSnapshot(id)), backup };
+}
+
+// 删除快照（同时清理不再被引用的文件内容）
+function deleteSnapshot(id) {
+  findSnapshot(id);
+  const snapshots = loadIndex().filter(snapshot => snapshot.id !== id);
+  saveIndex(snapshots);
+  removeUnusedObjects(snapshots);
+}
+
+/**
+ * 定时为当前项目创建快照（内容没有变化时跳过）
+ */
+function startSnapshotTimer() {
+  if (!(SNAPSHOT_CONFIG.intervalMinutes > 0)) {
+    console.log('[快照] 定时快照已关闭');
+    return null;
+  }
+
+  const timer = setInterval(() => {
+    try {
+      createSnapshot({ type: 'auto' });
+    } catch (error) {
+      console.error('[快照] 定时快照失败:', error);
+    }
+  }, SNAPSHOT_CONFIG.intervalMinutes * 60 * 1000);
+  timer.unref();
+  console.log(`[快照] 定时快照间隔: ${SNAPSHOT_CONFIG.intervalMinutes} 分钟`);
+  return timer;
+}
+
+module.exports = {
+  SNAPSHOT_TYPES,
+  createSnapshot,
+  listSnapshots,
+  getSnapshot,
+  restoreSnapshot,
+  deleteSnapshot,
+  startSnapshotTimer
+};
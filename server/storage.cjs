@@ -11,14 +11,17 @@ if (!fs.existsSync(STORAGE_DIR)) {
   fs.mkdirSync(STORAGE_DIR, { recursive: true });
 }
 
-// 获取资源存储文件路径
-function getStoragePath(type) {
-  return join(STORAGE_DIR, `${type}.json`);
+// 资源库目录：全局资源库为 STORAGE_DIR，使用独立资源库的项目为项目目录下的 resources
+let resourceDir = STORAGE_DIR;
+
+// 获取资源存储文件路径（默认为当前资源库）
+function getStoragePath(type, dir = resourceDir) {
+  return join(dir, `${type}.json`);
 }
 
 // 从文件加载资源
-function loadResourcesFromFile(type) {
-  const filePath = getStoragePath(type);
+function loadResourcesFromFile(type, dir = resourceDir) {
+  const filePath = getStoragePath(type, dir);
   if (fs.existsSync(filePath)) {
     try {
       const data = fs.readFileSync(filePath, 'utf-8');
@@ -32,8 +35,8 @@ function loadResourcesFromFile(type) {
 }
 
 // 保存资源到文件
-function saveResourcesToFile(type, resources) {
-  const filePath = getStoragePath(type);
+function saveResourcesToFile(type, resources, dir = resourceDir) {
+  const filePath = getStoragePath(type, dir);
   try {
     fs.writeFileSync(filePath, JSON.stringify(resources, null, 2), 'utf-8');
     return true;
@@ -57,6 +60,14 @@ function initializeStorage() {
   console.log('[存储] 存储系统初始化完成');
 }
 
+// 切换资源库目录（切换项目时调用），重新加载所有资源
+function setResourceDir(dir) {
+  fs.ensureDirSync(dir);
+  resourceDir = dir;
+  memoryStorage.clear();
+  initializeStorage();
+}
+
 // 兼容localStorage接口的存储系统（带持久化）
 const localStorage = {
   getItem: (key) => {
@@ -118,9 +129,41 @@ const localStorage = {
   }
 };
 
+/**
+ * 指定资源库目录的存储（接口同 localStorage）
+ * 目录为当前资源库时与 localStorage 共用内存缓存，否则直接读写该目录下的文件。
+ * Agent 运行时使用发起运行的项目的资源库，运行期间切换项目不会写入新项目。
+ */
+function getResourceStorage(dir) {
+  const typeOf = key => {
+    const type = key.replace('academic_writing_', '');
+    return RESOURCE_TYPES.includes(type) ? type : null;
+  };
+  return {
+    getItem: (key) => {
+      if (dir === resourceDir) return localStorage.getItem(key);
+      const type = typeOf(key);
+      return type ? JSON.stringify(loadResourcesFromFile(type, dir)) : null;
+    },
+    setItem: (key, value) => {
+      if (dir === resourceDir) return localStorage.setItem(key, value);
+      const type = typeOf(key);
+      if (!type) return;
+      try {
+        fs.ensureDirSync(dir);
+        saveResourcesToFile(type, JSON.parse(value), dir);
+      } catch (error) {
+        console.error(`[存储] 持久化失败 (${key}):`, error);
+      }
+    }
+  };
+}
+
 module.exports = {
   localStorage,
+  getResourceStorage,
   initializeStorage,
+  setResourceDir,
   getStoragePath,
   loadResourcesFromFile,
   saveResourcesToFile
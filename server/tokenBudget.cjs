@@ -0,0 +1,319 @@
+/**
+ * Token预算模块 - 估算提示词长度并裁剪上下文，避免超出模型上下文窗口
+ *
+ * 超出预算时依次处理：
+ * 1. 截断过长的工具结果（tool 消息，以及文本协议中附在 user / assistant 消息里的工具结果）
+ * 2. 将较早的对话轮次压缩为摘要（放入 system 消息）
+ * 3. 论文只保留与本次需求相关的章节
+ * 4. 省略 Agent 循环中较早的工具结果
+ */
+
+// 未配置时使用的估算比例（每字符 token 数）
+const DEFAULT_TOKEN_ESTIMATE = { cjk: 1, other: 0.3 };
+// 预留给估算误差的比例
+const SAFETY_RATIO = 0.05;
+// 每条消息的格式开销（role、分隔符等）
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// 摘要中每条历史消息保留的字符数和最多保留的条数
+const SUMMARY_SNIPPET_LENGTH = 80;
+const MAX_SUMMARY_LINES = 30;
+
+// 文本协议中的工具结果段：标题行 + JSON.stringify(result, null, 2)
+// 顶层对象以单独一行的 } 结束（字符串中的换行已转义，缩进的嵌套对象不会匹配）
+const TEXT_TOOL_RESULT_PATTERN = /^(工具 "[^"\n]+" 执行结果：\n)(\{[\s\S]*?\n\})/gm;
+const TRUNCATED_TOOL_RESULT_NOTE = '\n...（工具结果过长，已截断）';
+
+// 中日韩文字及全角标点
+const CJK_PATTERN = /[　-〿぀-ヿ㐀-䶿一-鿿가-힯＀-￯]/g;
+
+/**
+ * 估算文本的 token 数
+ * @param {string} text
+ * @param {{ cjk: number, other: number }} [tokenEstimate] - 每字符 token 数（来自模型配置）
+ */
+function estimateTokens(text, tokenEstimate = DEFAULT_TOKEN_ESTIMATE) {
+  if (!text) {
+    return 0;
+  }
+  const cjkCount = (text.match(CJK_PATTERN) || []).length;
+  const otherCount = text.length - cjkCount;
+  return Math.ceil(cjkCount * tokenEstimate.cjk + otherCount * tokenEstimate.other);
+}
+
+// 估算单条消息的 token 数（含工具调用参数）
+function estimateMessageTokens(message, tokenEstimate) {
+  let tokens = MESSAGE_OVERHEAD_TOKENS + estimateTokens(message.content || '', tokenEstimate);
+  if (message.tool_calls) {
+    tokens += estimateTokens(JSON.stringify(message.tool_calls), tokenEstimate);
+  }
+  return tokens;
+}
+
+// 估算消息数组的 token 数
+function estimateMessagesTokens(messages, tokenEstimate) {
+  return messages.reduce((sum, message) => sum + estimateMessageTokens(message, tokenEstimate), 0);
+}
+
+/**
+ * 按 token 数截断文本
+ * @returns {{ text: string, truncated: boolean, tokens: number }} tokens 为截断前的估算值
+ */
+function truncateToTokens(text, maxTokens, tokenEstimate = DEFAULT_TOKEN_ESTIMATE) {
+  const tokens = estimateTokens(text, tokenEstimate);
+  if (tokens <= maxTokens) {
+    return { text, truncated: false, tokens };
+  }
+
+  // 先按比例换算字符数，再逐步收缩到预算以内
+  let length = Math.floor(text.length * maxTokens / tokens);
+  while (length > 0 && estimateTokens(text.slice(0, length), tokenEstimate) > maxTokens) {
+    length = Math.floor(length * 0.9);
+  }
+  return { text: text.slice(0, length), truncated: true, tokens };
+}
+
+/**
+ * 文本协议中的一段工具结果（与 TEXT_TOOL_RESULT_PATTERN 对应，fitMessages 据此截断）
+ * @param {string} toolName
+ * @param {object} result - 整理后的工具结果
+ */
+function textToolResult(toolName, result) {
+  return `工具 "${toolName}" 执行结果：\n${JSON.stringify(result, null, 2)}`;
+}
+
+// 按 \chapter / \section 拆分论文，第一段为导言区（标题、摘要等）
+function splitSections(content) {
+  const pattern = /^[ \t]*\\(?:chapter|section)\*?\{([^}]*)\}/gm;
+  const sections = [];
+  let lastIndex = 0;
+  let lastTitle = null;
+  let match;
+
+  while ((match = pattern.exec(content)) !== null) {
+    sections.push({ title: lastTitle, text: content.slice(lastIndex, match.index) });
+    lastIndex = match.index;
+    lastTitle = match[1];
+  }
+  sections.push({ title: lastTitle, text: content.slice(lastIndex) });
+
+  return sections;
+}
+
+// 提取用于匹配相关章节的关键词：英文单词和中文二元组
+function extractKeywords(query) {
+  const keywords = new Set();
+  const lower = (query || '').toLowerCase();
+
+  for (const word of lower.match(/[a-z][a-z0-9-]{2,}/g) || []) {
+    keywords.add(word);
+  }
+  for (const run of lower.match(/[一-鿿]+/g) || []) {
+    for (let i = 0; i < run.length - 1; i++) {
+      keywords.add(run.slice(i, i + 2));
+    }
+  }
+  return [...keywords];
+}
+
+// 计算章节与需求的相关度（标题命中权重更高）
+function scoreSection(section, keywords) {
+  const title = (section.title || '').toLowerCase();
+  const text = section.text.toLowerCase();
+  let score = 0;
+
+  for (const keyword of keywords) {
+    if (title.includes(keyword)) {
+      score += 3;
+    }
+    let index = text.indexOf(keyword);
+    while (index !== -1) {
+      score += 1;
+      index = text.indexOf(keyword, index + keyword.length);
+    }
+  }
+  return score;
+}
+
+/**
+ * 只保留与需求最相关的论文章节，其余章节用占位说明代替
+ * @returns {{ content: string, dropped: string[] }}
+ */
+function selectRelevantSections(content, query, maxTokens, tokenEstimate = DEFAULT_TOKEN_ESTIMATE) {
+  const sections = splitSections(content);
+  const keywords = extractKeywords(query);
+
+  const placeholder = (section) => `\\section{${section.title}}\n（该章节已省略以节省上下文，可使用 view_file 工具查看）\n\n`;
+
+  // 导言区优先保留，其余章节按相关度从高到低选入
+  const ranked = sections
+    .map((section, index) => ({ section, index, score: section.title === null ? Infinity : scoreSection(section, keywords) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index);
+
+  // 先为所有占位说明预留空间
+  let remaining = maxTokens - sections
+    .filter(section => section.title !== null)
+    .reduce((sum, section) => sum + estimateTokens(placeholder(section), tokenEstimate), 0);
+
+  const kept = new Set();
+  for (const { section, index } of ranked) {
+    const tokens = estimateTokens(section.text, tokenEstimate);
+    if (tokens <= remaining) {
+      kept.add(index);
+      remaining -= tokens;
+    }
+  }
+
+  const dropped = [];
+  const parts = sections.map((section, index) => {
+    if (kept.has(index)) {
+      return section.text;
+    }
+    if (section.title === null) {
+      // 导言区也放不下时只保留开头部分
+      return truncateToTokens(section.text, Math.max(remaining, 0), tokenEstimate).text + '\n';
+    }
+    dropped.push(section.title);
+    return placeholder(section);
+  });
+
+  return { content: parts.join(''), dropped };
+}
+
+// 历史消息摘要行
+function summarizeMessage(message) {
+  const role = message.role === 'user' ? '用户' : '助手';
+  const text = (message.content || '').replace(/\s+/g, ' ').trim();
+  return `- ${role}: ${text.length > SUMMARY_SNIPPET_LENGTH ? text.slice(0, SUMMARY_SNIPPET_LENGTH) + '...' : text}`;
+}
+
+/**
+ * 将消息数组裁剪到模型的上下文预算以内
+ * @param {Array} messages - 对话消息（首条为 system 消息）
+ * @param {object} limits - 模型上下文预算（contextWindow、maxTokens、toolResultMaxTokens、tokenEstimate）
+ * @param {object} [context]
+ * @param {number} [context.requestIndex] - 本次用户请求消息的位置，之前为历史轮次，之后为工具循环消息
+ * @param {string} [context.content] - 论文内容（用于按章节裁剪）
+ * @param {string} [context.query] - 用户需求（用于选择相关章节）
+ * @returns {{ messages: Array, report: object }} report 说明被裁剪的内容
+ */
+function fitMessages(messages, limits, context = {}) {
+  const tokenEstimate = limits.tokenEstimate || DEFAULT_TOKEN_ESTIMATE;
+  const budget = Math.floor(limits.contextWindow * (1 - SAFETY_RATIO)) - limits.maxTokens;
+  const result = messages.map(message => ({ ...message }));
+  let requestIndex = context.requestIndex !== undefined ? context.requestIndex : result.length - 1;
+
+  const report = {
+    context_window: limits.contextWindow,
+    input_budget: budget,
+    estimated_tokens: 0,
+    truncated_tool_results: 0,
+    dropped_turns: 0,
+    dropped_sections: [],
+    omitted_tool_results: 0
+  };
+
+  // 同一内容只估算一次
+  const cache = new Map();
+  const estimate = () => result.reduce((sum, message) => {
+    const key = `${message.content || ''}\u0000${message.tool_calls ? JSON.stringify(message.tool_calls) : ''}`;
+    if (!cache.has(key)) {
+      cache.set(key, estimateMessageTokens(message, tokenEstimate));
+    }
+    return sum + cache.get(key);
+  }, 0);
+
+  // 1. 截断过长的工具结果：tool 消息整体截断，文本协议的消息中逐段截断
+  const truncateResult = text => {
+    const truncated = truncateToTokens(text, limits.toolResultMaxTokens, tokenEstimate);
+    if (!truncated.truncated) return text;
+    report.truncated_tool_results++;
+    return `${truncated.text}${TRUNCATED_TOOL_RESULT_NOTE}`;
+  };
+  for (const message of result) {
+    if (message.role === 'tool') {
+      message.content = truncateResult(message.content || '');
+    } else if (message.role !== 'system' && typeof message.content === 'string' && message.content.includes('执行结果：')) {
+      message.content = message.content.replace(TEXT_TOOL_RESULT_PATTERN, (match, header, body) => header + truncateResult(body));
+    }
+  }
+
+  // 2. 较早的对话轮次压缩为摘要，放入 system 消息
+  const historyStart = result[0]?.role === 'system' ? 1 : 0;
+  if (estimate() > budget && requestIndex > historyStart) {
+    const systemContent = historyStart === 1 ? result[0].content : '';
+    const summaryLines = [];
+
+    while (estimate() > budget && requestIndex > historyStart) {
+      const [removed] = result.splice(historyStart, 1);
+      requestIndex--;
+      report.dropped_turns++;
+      summaryLines.push(summarizeMessage(removed));
+
+      // 保持 user/assistant 交替：剩余历史需从 user 消息开始
+      while (requestIndex > historyStart && result[historyStart].role !== 'user') {
+        summaryLines.push(summarizeMessage(result.splice(historyStart, 1)[0]));
+        requestIndex--;
+        report.dropped_turns++;
+      }
+
+      const visibleLines = summaryLines.slice(-MAX_SUMMARY_LINES);
+      const summary = `较早的对话摘要（已省略 ${summaryLines.length} 条消息${summaryLines.length > visibleLines.length ? '，仅列出最近部分' : ''}）：\n${visibleLines.join('\n')}`;
+      if (historyStart === 1) {
+        result[0] = { ...result[0], content: `${systemContent}\n\n${summary}` };
+      }
+    }
+  }
+
+  // 3. 论文只保留与需求相关的章节
+  const request = result[requestIndex];
+  if (estimate() > budget && context.content && request && typeof request.content === 'string' && request.content.includes(context.content)) {
+    const overflow = estimate() - budget;
+    const paperBudget = Math.max(estimateTokens(context.content, tokenEstimate) - overflow, 0);
+    const selection = selectRelevantSections(context.content, context.query, paperBudget, tokenEstimate);
+    result[requestIndex] = { ...request, content: request.content.replace(context.content, () => selection.content) };
+    report.dropped_sections = selection.dropped;
+  }
+
+  // 4. 省略工具循环中较早的工具结果（保留最近一次调用的结果）
+  let lastAssistantIndex = -1;
+  result.forEach((message, index) => {
+    if (message.role === 'assistant' && index > requestIndex) {
+      lastAssistantIndex = index;
+    }
+  });
+  for (let i = requestIndex + 1; i < lastAssistantIndex && estimate() > budget; i++) {
+    const message = result[i];
+    if (message.role === 'tool' || message.role === 'user') {
+      result[i] = { ...message, content: '（较早的工具结果已省略以节省上下文）' };
+      report.omitted_tool_results++;
+    }
+  }
+
+  report.estimated_tokens = estimate();
+  report.over_budget = report.estimated_tokens > budget;
+  if (report.over_budget) {
+    console.warn(`[TokenBudget] 裁剪后仍超出预算: ${report.estimated_tokens} / ${budget}`);
+  }
+
+  return { messages: result, report };
+}
+
+// 判断预算报告中是否有被裁剪的内容
+function hasDroppedContent(report) {
+  return Boolean(report && (
+    report.truncated_tool_results > 0 ||
+    report.dropped_turns > 0 ||
+    report.dropped_sections.length > 0 ||
+    report.omitted_tool_results > 0
+  ));
+}
+
+module.exports = {
+  estimateTokens,
+  estimateMessagesTokens,
+  truncateToTokens,
+  textToolResult,
+  selectRelevantSections,
+  fitMessages,
+  hasDroppedContent
+};
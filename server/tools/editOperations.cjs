@@ -0,0 +1,414 @@
+/**
+ * 编辑操作模块 - edit_file 工具的结构化编辑
+ *
+ * 每个编辑操作先在原文上解析为若干"替换片段"（字符区间 + 新文本），
+ * 批量编辑的所有锚点、行号都相对于原文解析，全部成功且互不重叠后才一次性应用；
+ * 任意一个锚点找不到或不唯一都会整体失败，原文保持不变。
+ */
+
+// 支持的编辑操作
+const EDIT_OPERATIONS = [
+  'append',
+  'replace',
+  'insert_at',
+  'replace_section',
+  'insert_after_label',
+  'replace_lines',
+  'delete_lines',
+  'regex_replace',
+  'batch'
+];
+
+// 章节命令的层级（数字越小层级越高）
+const SECTION_LEVELS = {
+  part: 0,
+  chapter: 1,
+  section: 2,
+  subsection: 3,
+  subsubsection: 4,
+  paragraph: 5
+};
+
+const SECTION_PATTERN = /^[ \t]*\\(part|chapter|section|subsection|subsubsection|paragraph)\*?\s*(?:\[[^\]]*\])?\s*\{([^}]*)\}/;
+
+// 编辑失败（锚点缺失、不唯一、参数错误等）
+class EditError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'EditError';
+  }
+}
+
+// 记录每行在原文中的起始偏移，用于行号与字符位置互相转换
+function buildLineIndex(content) {
+  const starts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') {
+      starts.push(i + 1);
+    }
+  }
+  return starts;
+}
+
+// 字符位置所在的行号（从 1 开始）
+function lineAt(lineStarts, offset) {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (lineStarts[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low + 1;
+}
+
+// 第 line 行（从 1 开始）的起始位置；line 超出末行时返回文本长度
+function lineStart(lineStarts, content, line) {
+  return line - 1 < lineStarts.length ? lineStarts[line - 1] : content.length;
+}
+
+// 第 line 行之后（含换行符）的位置
+function lineEnd(lineStarts, content, line) {
+  return line < lineStarts.length ? lineStarts[line] : content.length;
+}
+
+// 新内容按整行插入时补全结尾换行
+function asLines(text) {
+  return text.endsWith('\n') ? text : `${text}\n`;
+}
+
+function requireString(value, name) {
+  if (typeof value !== 'string') {
+    throw new EditError(`缺少参数 ${name}`);
+  }
+  return value;
+}
+
+// 校验行号范围（从 1 开始，包含 end_line）
+function requireLineRange(edit, totalLines) {
+  const startLine = Number(edit.start_line);
+  const endLine = edit.end_line === undefined ? startLine : Number(edit.end_line);
+  if (!Number.isInteger(startLine) || !Number.isInteger(endLine)) {
+    throw new EditError('start_line 和 end_line 必须是整数行号');
+  }
+  if (startLine < 1 || endLine < startLine || endLine > totalLines) {
+    throw new EditError(`行号范围无效: ${startLine}-${endLine}（文件共 ${totalLines} 行）`);
+  }
+  return { startLine, endLine };
+}
+
+// 解析章节标题参数：支持 "方法"、"\section{方法}" 两种写法
+function parseSectionAnchor(section) {
+  const match = section.trim().match(/^\\(part|chapter|section|subsection|subsubsection|paragraph)\*?\{(.*)\}$/);
+  if (match) {
+    return { command: match[1], title: match[2].trim() };
+  }
+  return { command: null, title: section.trim() };
+}
+
+// 查找章节正文范围：标题行之后，到下一个同级或更高级标题（或 \end{document}）之前
+function findSectionBody(lines, section) {
+  const anchor = parseSectionAnchor(section);
+  const headings = [];
+  lines.forEach((line, index) => {
+    const match = line.match(SECTION_PATTERN);
+    if (match) {
+      headings.push({ line: index + 1, command: match[1], level: SECTION_LEVELS[match[1]], title: match[2].trim() });
+    }
+  });
+
+  const candidates = headings.filter(h => h.title === anchor.title && (!anchor.command || h.command === anchor.command));
+  if (candidates.length === 0) {
+    const available = headings.map(h => h.title).slice(0, 20).join('、');
+    throw new EditError(`未找到章节: ${section}${available ? `（现有章节: ${available}）` : ''}`);
+  }
+  if (candidates.length > 1) {
+    throw new EditError(`章节 "${section}" 不唯一（第 ${candidates.map(h => h.line).join('、')} 行），请使用 replace_lines 指定行号`);
+  }
+
+  const heading = candidates[0];
+  let endLine = lines.length;
+  const next = headings.find(h => h.line > heading.line && h.level <= heading.level);
+  if (next) {
+    endLine = next.line - 1;
+  } else {
+    const documentEnd = lines.findIndex((line, index) => index >= heading.line && /^\s*\\end\{document\}/.test(line));
+    if (documentEnd !== -1) {
+      endLine = documentEnd;
+    }
+  }
+
+  return { startLine: heading.line + 1, endLine };
+}
+
+// 查找 \label 所在位置；位于 figure/table/equation 等环境内时返回环境结束行，避免插入到环境内部
+function findLabelInsertLine(lines, label) {
+  const pattern = `\\label{${label}}`;
+  const found = [];
+  lines.forEach((line, index) => {
+    if (line.includes(pattern)) {
+      found.push(index + 1);
+    }
+  });
+
+  if (found.length === 0) {
+    throw new EditError(`未找到标签: \\label{${label}}`);
+  }
+  if (found.length > 1) {
+    throw new EditError(`标签 \\label{${label}} 不唯一（第 ${found.join('、')} 行）`);
+  }
+
+  const labelLine = found[0];
+
+  // 标签之前尚未闭合的环境（记录 \begin 所在行）
+  const open = [];
+  for (let i = 0; i < labelLine; i++) {
+    for (const [, kind, env] of lines[i].matchAll(/\\(begin|end)\{([^}]+)\}/g)) {
+      if (kind === 'begin') {
+        open.push({ env, line: i });
+      } else if (open.length > 0 && open[open.length - 1].env === env) {
+        open.pop();
+      }
+    }
+  }
+  const outer = open.find(item => item.env !== 'document');
+  if (!outer) {
+    return labelLine;
+  }
+
+  // 从最外层环境的 \begin 开始计数，找到与之匹配的 \end 所在行
+  const beginPattern = new RegExp(`\\\\begin\\{${escapeRegExp(outer.env)}\\}`, 'g');
+  const endPattern = new RegExp(`\\\\end\\{${escapeRegExp(outer.env)}\\}`, 'g');
+  let depth = 0;
+  for (let i = outer.line; i < lines.length; i++) {
+    depth += (lines[i].match(beginPattern) || []).length;
+    depth -= (lines[i].match(endPattern) || []).length;
+    if (depth <= 0) {
+      return i + 1;
+    }
+  }
+  throw new EditError(`标签 \\label{${label}} 所在的 ${outer.env} 环境没有结束`);
+}
+
+function escapeRegExp(text) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// 按 String.prototype.replace 的规则展开替换文本中的 $1、$<name>、$&、$`、$'、$$
+// match 为在原文上的匹配结果，前后文相关的写法（前瞻、后顾、^、$、\b）也能正确替换
+function expandReplacement(template, match, content) {
+  const groups = match.length - 1;
+  return template.replace(/\$(\$|&|`|'|\d{1,2}|<([^>]*)>)/g, (token, key, name) => {
+    if (key === '$') return '$';
+    if (key === '&') return match[0];
+    if (key === '`') return content.slice(0, match.index);
+    if (key === "'") return content.slice(match.index + match[0].length);
+    if (name !== undefined) {
+      return match.groups ? (match.groups[name] ?? '') : token;
+    }
+    // 两位数的分组不存在时按一位数分组加普通字符处理
+    let index = Number(key);
+    let rest = '';
+    if (key.length === 2 && (index > groups || index === 0)) {
+      index = Number(key[0]);
+      rest = key[1];
+    }
+    if (index === 0 || index > groups) return token;
+    return (match[index] ?? '') + rest;
+  });
+}
+
+/**
+ * 将单个编辑操作解析为原文上的替换片段
+ * @returns {Array<{ start: number, end: number, text: string, operation: string }>}
+ */
+function resolveEdit(content, edit, context) {
+  const { lines, lineStarts } = context;
+  const operation = edit.operation;
+  const splice = (start, end, text) => ({ start, end, text, operation });
+
+  switch (operation) {
+    case 'append': {
+      const text = requireString(edit.content, 'content');
+      return [splice(content.length, content.length, `\n\n${text}`)];
+    }
+    case 'replace': {
+      const target = requireString(edit.target_text, 'target_text');
+      const text = requireString(edit.content, 'content');
+      const first = content.indexOf(target);
+      if (!target || first === -1) {
+        throw new EditError('未找到要替换的目标文本');
+      }
+      const second = content.indexOf(target, first + 1);
+      if (second !== -1) {
+        const foundLines = [...new Set([lineAt(lineStarts, first), lineAt(lineStarts, second)])];
+        throw new EditError(`目标文本出现多次（第 ${foundLines.join('、')} 行等），请提供更长的上下文或使用 regex_replace 指定 count`);
+      }
+      return [splice(first, first + target.length, text)];
+    }
+    case 'insert_at': {
+      const text = requireString(edit.content, 'content');
+      const position = Number(edit.position);
+      if (!Number.isInteger(position) || position < 0 || position > content.length) {
+        throw new EditError('插入位置无效');
+      }
+      return [splice(position, position, text)];
+    }
+    case 'replace_section': {
+      const section = requireString(edit.section, 'section');
+      const text = requireString(edit.content, 'content');
+      const body = findSectionBody(lines, section);
+      const start = lineStart(lineStarts, content, body.startLine);
+      const end = body.endLine >= body.startLine ? lineEnd(lineStarts, content, body.endLine) : start;
+      // 标题位于最后一行时先补换行
+      const prefix = start === content.length && !content.endsWith('\n') ? '\n' : '';
+      return [splice(start, end, prefix + asLines(text))];
+    }
+    case 'insert_after_label': {
+      const label = requireString(edit.label, 'label');
+      const text = requireString(edit.content, 'content');
+      const line = findLabelInsertLine(lines, label);
+      const position = lineEnd(lineStarts, content, line);
+      const prefix = position === content.length && !content.endsWith('\n') ? '\n' : '';
+      return [splice(position, position, prefix + asLines(text))];
+    }
+    case 'replace_lines': {
+      const text = requireString(edit.content, 'content');
+      const { startLine, endLine } = requireLineRange(edit, lines.length);
+      const end = lineEnd(lineStarts, content, endLine);
+      // 替换到文件末尾且原文没有结尾换行时，新内容也不追加换行
+      const replacement = end === content.length && !content.endsWith('\n') ? text.replace(/\n$/, '') : asLines(text);
+      return [splice(lineStart(lineStarts, content, startLine), end, replacement)];
+    }
+    case 'delete_lines': {
+      const { startLine, endLine } = requireLineRange(edit, lines.length);
+      let start = lineStart(lineStarts, content, startLine);
+      const end = lineEnd(lineStarts, content, endLine);
+      // 删除到文件末尾时一并去掉前一行的换行符（报告的行号仍为请求的范围）
+      if (end === content.length && !content.endsWith('\n') && start > 0) {
+        start -= 1;
+      }
+      return [{ ...splice(start, end, ''), oldLines: { start: startLine, end: endLine } }];
+    }
+    case 'regex_replace': {
+      const pattern = requireString(edit.pattern, 'pattern');
+      const replacement = requireString(edit.content, 'content');
+      const flags = (edit.flags || '').replace(/[gy]/g, '');
+      let regex;
+      try {
+        regex = new RegExp(pattern, `${flags}g`);
+      } catch (error) {
+        throw new EditError(`正则表达式无效: ${error.message}`);
+      }
+
+      const matches = [...content.matchAll(regex)].filter(match => match[0].length > 0);
+      if (matches.length === 0) {
+        throw new EditError(`正则表达式没有匹配: ${pattern}`);
+      }
+
+      // 未指定 count 时要求唯一匹配；count 为 0 表示替换全部
+      let count = edit.count === undefined ? undefined : Number(edit.count);
+      if (count === undefined) {
+        if (matches.length > 1) {
+          throw new EditError(`正则表达式匹配到 ${matches.length} 处，请指定 count（0 表示全部替换）`);
+        }
+        count = 1;
+      } else if (!Number.isInteger(count) || count < 0) {
+        throw new EditError('count 必须是非负整数');
+      } else if (count > matches.length) {
+        throw new EditError(`正则表达式只匹配到 ${matches.length} 处，少于 count=${count}`);
+      }
+
+      const selected = count === 0 ? matches : matches.slice(0, count);
+      // 替换后与原文相同的匹配不算修改
+      const changed = selected
+        .map(match => splice(match.index, match.index + match[0].length, expandReplacement(replacement, match, content)))
+        .filter(item => item.text !== content.slice(item.start, item.end));
+      if (changed.length === 0) {
+        throw new EditError('替换后内容没有变化');
+      }
+      return changed;
+    }
+    case 'batch':
+      throw new EditError('batch 不能嵌套');
+    default:
+      throw new EditError(`不支持的操作类型: ${operation}`);
+  }
+}
+
+/**
+ * 应用一个或多个编辑操作（原子执行）
+ * @param {string} content - 原文
+ * @param {Array<object>} edits - 编辑操作列表，锚点和行号都相对于原文
+ * @returns {{ content: string, changes: Array }} changes 记录每处修改在原文和新内容中的行号范围
+ * @throws {EditError} 任一操作失败时抛出，错误信息包含操作序号
+ */
+function applyEdits(content, edits) {
+  const lines = content.split('\n');
+  const context = { lines, lineStarts: buildLineIndex(content) };
+
+  const splices = [];
+  edits.forEach((edit, index) => {
+    try {
+      splices.push(...resolveEdit(content, edit, context));
+    } catch (error) {
+      if (error instanceof EditError && edits.length > 1) {
+        error.message = `第 ${index + 1} 个编辑（${edit.operation}）失败: ${error.message}`;
+      }
+      throw error;
+    }
+  });
+
+  // 检查片段是否重叠（同一位置的多个插入按顺序保留）
+  splices.sort((a, b) => a.start - b.start || a.end - b.end);
+  for (let i = 1; i < splices.length; i++) {
+    if (splices[i].start < splices[i - 1].end) {
+      throw new EditError(`编辑范围重叠（${splices[i - 1].operation} 与 ${splices[i].operation}，第 ${lineAt(context.lineStarts, splices[i].start)} 行附近）`);
+    }
+  }
+
+  // 从前往后拼接新内容，同时记录每个片段在新内容中的位置
+  let result = '';
+  let cursor = 0;
+  const placed = [];
+  for (const s of splices) {
+    result += content.slice(cursor, s.start);
+    placed.push({ splice: s, newStart: result.length });
+    result += s.text;
+    cursor = s.end;
+  }
+  result += content.slice(cursor);
+
+  const newLineStarts = buildLineIndex(result);
+  const changes = placed.map(({ splice: s, newStart }) => {
+    const oldText = content.slice(s.start, s.end);
+    // 忽略片段开头的换行，行号指向实际修改的行
+    const leading = (s.text.match(/^\n*/) || [''])[0].length;
+    const oldStartLine = s.oldLines ? s.oldLines.start : lineAt(context.lineStarts, s.start);
+    const newStartLine = lineAt(newLineStarts, Math.min(newStart + leading, result.length));
+    const countLines = (text) => text ? text.replace(/\n$/, '').split('\n').length : 0;
+    const removed = s.oldLines ? s.oldLines.end - s.oldLines.start + 1 : countLines(oldText);
+    const added = countLines(s.text.slice(leading));
+
+    return {
+      operation: s.operation,
+      old_start_line: oldStartLine,
+      old_end_line: removed > 0 ? oldStartLine + removed - 1 : null,
+      new_start_line: newStartLine,
+      new_end_line: added > 0 ? newStartLine + added - 1 : null,
+      lines_removed: removed,
+      lines_added: added
+    };
+  });
+
+  return { content: result, changes };
+}
+
+module.exports = {
+  EDIT_OPERATIONS,
+  EditError,
+  applyEdits
+};
@@ -2,14 +2,15 @@
  * 工具模块统一导出
  */
 
-const { AVAILABLE_TOOLS, RESOURCE_TYPES, generateInsertContent, extractArxivId } = require('./toolDefinitions.cjs');
+const { AVAILABLE_TOOLS, RESOURCE_TYPES, toToolSchemas, generateInsertContent, extractArxivId } = require('./toolDefinitions.cjs');
 const { executeTool } = require('./toolExecutor.cjs');
-const { parseToolCalls, removeToolCallsFromResponse, extractContentBeforeToolCall, hasToolCall } = require('./toolParser.cjs');
+const { parseToolCalls, parseNativeToolCalls, removeToolCallsFromResponse, extractContentBeforeToolCall, hasToolCall } = require('./toolParser.cjs');
 
 module.exports = {
   // 工具定义
   AVAILABLE_TOOLS,
   RESOURCE_TYPES,
+  toToolSchemas,
   generateInsertContent,
   extractArxivId,
   
@@ -18,6 +19,7 @@ module.exports = {
   
   // 工具解析
   parseToolCalls,
+  parseNativeToolCalls,
   removeToolCallsFromResponse,
   extractContentBeforeToolCall,
   hasToolCall
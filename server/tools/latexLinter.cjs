@@ -0,0 +1,394 @@
+/**
+ * LaTeX 静态检查模块 - lint_document 工具与 /api/lint 共用
+ *
+ * 先把注释、verbatim 类环境和 \verb 的内容替换为空格（保持字符位置不变），
+ * 再逐字符扫描花括号、环境和数学模式的配对，最后用正则检查标签、交叉引用和文献引用。
+ * 行号、列号均从 1 开始，与 view_file / edit_file 一致。
+ */
+
+// 内容按原样输出、不参与检查的环境
+const VERBATIM_ENVIRONMENTS = ['verbatim', 'verbatim*', 'Verbatim', 'lstlisting', 'minted', 'comment'];
+
+const REF_PATTERN = /\\(ref|eqref|autoref|pageref|nameref|vref|cref|Cref)\*?\s*\{([^{}]*)\}/g;
+const CITE_PATTERN = /\\(?:cite|citep|citet|citealp|citealt|citeauthor|citeyear|parencite|textcite|autocite|footcite|nocite)\*?\s*(?:\[[^\]]*\]\s*){0,2}\{([^{}]*)\}/g;
+const LABEL_PATTERN = /\\label\s*\{([^{}]*)\}/g;
+const BIBITEM_PATTERN = /\\bibitem\s*(?:\[[^\]]*\])?\s*\{([^{}]*)\}/g;
+const BIB_ENTRY_PATTERN = /@(?!comment|string|preamble)\w+\s*\{\s*([^,\s{}]+)\s*,/gi;
+const INCLUDE_PATTERN = /\\(input|include|subfile)\s*\{([^{}]*)\}/g;
+
+// 单类问题最多报告的数量，避免一个错误引发大量连锁提示
+const MAX_FINDINGS_PER_RULE = 50;
+
+// 数学模式定界符的显示名称及对应的结束符
+const MATH_DELIMITERS = {
+  '$': { close: '$', name: '$' },
+  '$$': { close: '$$', name: '$$' },
+  '\\(': { close: '\\)', name: '\\(' },
+  '\\[': { close: '\\]', name: '\\[' }
+};
+
+// 记录每行起始偏移，用于字符位置 → 行列号
+function buildLineIndex(content) {
+  const starts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') {
+      starts.push(i + 1);
+    }
+  }
+  return starts;
+}
+
+function positionAt(lineStarts, offset) {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (lineStarts[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return { line: low + 1, column: offset - lineStarts[low] + 1 };
+}
+
+// 将 [start, end) 区间内除换行外的字符替换为空格
+function blank(chars, start, end) {
+  for (let i = start; i < end; i++) {
+    if (chars[i] !== '\n') chars[i] = ' ';
+  }
+}
+
+// 屏蔽注释、verbatim 环境正文和 \verb 内容
+function maskContent(content) {
+  const chars = content.split('');
+  let i = 0;
+
+  while (i < content.length) {
+    const ch = content[i];
+
+    if (ch === '\\') {
+      const rest = content.slice(i, i + 40);
+      const verb = rest.match(/^\\verb\*?([^a-zA-Z\s*])/);
+      if (verb) {
+        const bodyStart = i + verb[0].length;
+        const lineEnd = content.indexOf('\n', bodyStart);
+        const close = content.indexOf(verb[1], bodyStart);
+        const end = close !== -1 && (lineEnd === -1 || close < lineEnd) ? close : (lineEnd === -1 ? content.length : lineEnd);
+        blank(chars, bodyStart, end);
+        i = end + 1;
+        continue;
+      }
+
+      const begin = rest.match(/^\\begin\s*\{([^{}]+)\}/);
+      if (begin && VERBATIM_ENVIRONMENTS.includes(begin[1])) {
+        const bodyStart = i + begin[0].length;
+        const endTag = `\\end{${begin[1]}}`;
+        const close = content.indexOf(endTag, bodyStart);
+        const end = close === -1 ? content.length : close;
+        blank(chars, bodyStart, end);
+        i = close === -1 ? end : end + endTag.length;
+        continue;
+      }
+
+      // 转义字符（\% \{ \$ \\ 等）整体跳过
+      i += 2;
+      continue;
+    }
+
+    if (ch === '%') {
+      const lineEnd = content.indexOf('\n', i);
+      const end = lineEnd === -1 ? content.length : lineEnd;
+      blank(chars, i, end);
+      i = end;
+      continue;
+    }
+
+    i++;
+  }
+
+  return chars.join('');
+}
+
+// 检查花括号、环境、数学模式的配对
+function scanStructure(masked, report) {
+  const braceStack = [];
+  const envStack = [];
+  let math = null;  // { delimiter, offset }
+  let i = 0;
+
+  const closeMath = (delimiter, offset) => {
+    if (!math) {
+      report('unmatched-math', 'error', `多余的数学结束符 ${delimiter}，之前没有对应的开始符`, offset, offset + delimiter.length);
+    } else if (MATH_DELIMITERS[math.delimiter].close !== delimiter) {
+      report('unmatched-math', 'error', `数学模式以 ${MATH_DELIMITERS[math.delimiter].name} 开始，却以 ${delimiter} 结束`, offset, offset + delimiter.length);
+      math = null;
+    } else {
+      math = null;
+    }
+  };
+
+  while (i < masked.length) {
+    const ch = masked[i];
+
+    if (ch === '\\') {
+      const next = masked[i + 1];
+
+      if (next === '(' || next === '[') {
+        const delimiter = `\\${next}`;
+        if (math) {
+          report('unclosed-math', 'error', `数学模式 ${MATH_DELIMITERS[math.delimiter].name} 尚未结束又遇到 ${delimiter}`, math.offset, math.offset + math.delimiter.length);
+        }
+        math = { delimiter, offset: i };
+        i += 2;
+        continue;
+      }
+      if (next === ')' || next === ']') {
+        closeMath(`\\${next}`, i);
+        i += 2;
+        continue;
+      }
+
+      const env = masked.slice(i, i + 80).match(/^\\(begin|end)\s*\{([^{}\n]*)\}/);
+      if (env) {
+        const [token, kind, name] = env;
+        const end = i + token.length;
+        if (kind === 'begin') {
+          envStack.push({ name, offset: i, end });
+        } else {
+          const index = envStack.map(item => item.name).lastIndexOf(name);
+          if (index === -1) {
+            report('unmatched-end', 'error', `\\end{${name}} 没有对应的 \\begin{${name}}`, i, end);
+          } else {
+            // 中间未闭合的环境逐个报告
+            for (const open of envStack.splice(index + 1)) {
+              report('mismatched-environment', 'error', `环境 ${open.name} 在 \\end{${name}} 之前没有结束`, open.offset, open.end);
+            }
+            envStack.pop();
+          }
+        }
+        i = end;
+        continue;
+      }
+
+      i += 2;
+      continue;
+    }
+
+    if (ch === '{') {
+      braceStack.push(i);
+    } else if (ch === '}') {
+      if (braceStack.length === 0) {
+        report('unbalanced-brace', 'error', '多余的右花括号 }', i, i + 1);
+      } else {
+        braceStack.pop();
+      }
+    } else if (ch === '$') {
+      const delimiter = masked[i + 1] === '$' ? '$$' : '$';
+      if (math && math.delimiter === delimiter) {
+        math = null;
+      } else if (math) {
+        closeMath(delimiter, i);
+      } else {
+        math = { delimiter, offset: i };
+      }
+      i += delimiter.length;
+      continue;
+    } else if (ch === '\n' && math && math.delimiter === '$' && /^[ \t]*\n/.test(masked.slice(i + 1, i + 200))) {
+      // 行内公式不能跨段落
+      report('unclosed-math', 'error', '行内公式 $ 在段落结束前没有闭合', math.offset, math.offset + 1);
+      math = null;
+    }
+
+    i++;
+  }
+
+  if (math) {
+    report('unclosed-math', 'error', `数学模式 ${MATH_DELIMITERS[math.delimiter].name} 没有闭合`, math.offset, math.offset + math.delimiter.length);
+  }
+  for (const open of envStack) {
+    report('unclosed-environment', 'error', `环境 ${open.name} 没有对应的 \\end{${open.name}}`, open.offset, open.end);
+  }
+  for (const offset of braceStack) {
+    report('unbalanced-brace', 'error', '左花括号 { 没有闭合', offset, offset + 1);
+  }
+}
+
+// 逗号分隔的键列表（\cite{a,b}、\cref{x,y}）
+function splitKeys(text) {
+  return text.split(',').map(key => key.trim()).filter(Boolean);
+}
+
+// 项目中其他文件定义的标签，以及 \bibitem 和 .bib 文件中的引用键
+function collectProjectDefinitions(projectFiles, file) {
+  const labels = new Set();
+  const bibitems = new Set();
+  for (const [path, content] of Object.entries(projectFiles || {})) {
+    if (path.endsWith('.bib')) {
+      for (const match of content.matchAll(BIB_ENTRY_PATTERN)) bibitems.add(match[1]);
+    }
+    if (path === file || !path.endsWith('.tex')) continue;
+    const masked = maskContent(content);
+    for (const match of masked.matchAll(LABEL_PATTERN)) labels.add(match[1].trim());
+    for (const match of masked.matchAll(BIBITEM_PATTERN)) bibitems.add(match[1].trim());
+  }
+  return { labels, bibitems };
+}
+
+// 检查 \input / \include 的文件是否存在于项目中（路径相对于项目根目录，省略扩展名时为 .tex）
+function scanIncludes(masked, projectFiles, report) {
+  for (const match of masked.matchAll(INCLUDE_PATTERN)) {
+    const name = match[2].trim().replace(/^\.\//, '');
+    if (!name) continue;
+    const path = /\.[a-zA-Z]+$/.test(name) ? name : `${name}.tex`;
+    if (typeof projectFiles[path] !== 'string') {
+      report('missing-input', 'error', `\\${match[1]} 的文件 ${path} 不在项目中`, match.index, match.index + match[0].length);
+    }
+  }
+}
+
+// 检查重复标签、未定义的交叉引用和文献引用
+function scanReferences(masked, references, external, report) {
+  const labels = new Map();
+  for (const match of masked.matchAll(LABEL_PATTERN)) {
+    const label = match[1].trim();
+    if (labels.has(label)) {
+      report('duplicate-label', 'warning', `标签 ${label} 重复定义`, match.index, match.index + match[0].length);
+    } else {
+      labels.set(label, match.index);
+    }
+  }
+
+  for (const match of masked.matchAll(REF_PATTERN)) {
+    for (const label of splitKeys(match[2])) {
+      if (!labels.has(label) && !external.labels.has(label)) {
+        report('undefined-reference', 'warning', `引用的标签 ${label} 未定义`, match.index, match.index + match[0].length);
+      }
+    }
+  }
+
+  const citationKeys = new Set();
+  for (const reference of references) {
+    if (reference.citationKey) citationKeys.add(reference.citationKey);
+    if (reference.id) citationKeys.add(reference.id);
+  }
+  for (const match of masked.matchAll(BIBITEM_PATTERN)) {
+    citationKeys.add(match[1].trim());
+  }
+  external.bibitems.forEach(key => citationKeys.add(key));
+
+  for (const match of masked.matchAll(CITE_PATTERN)) {
+    for (const key of splitKeys(match[1])) {
+      if (key !== '*' && !citationKeys.has(key)) {
+        report('undefined-citation', 'warning', `文献 ${key} 不在参考文献库中`, match.index, match.index + match[0].length);
+      }
+    }
+  }
+}
+
+/**
+ * 检查 LaTeX 文档
+ * options.references: 参考文献库，用于检查 \cite 的键
+ * options.projectFiles: 项目文件内容 { path: content }，提供时检查 \input 的文件，并把其他文件中的标签视为已定义
+ * options.file: 被检查文件在项目中的路径
+ * 返回按位置排序的问题列表 { rule, severity, message, line, column, end_line, end_column }
+ */
+function lintLatex(content, options = {}) {
+  const { references = [], projectFiles, file } = options;
+  const lineStarts = buildLineIndex(content);
+  const masked = maskContent(content);
+  const findings = [];
+  const ruleCounts = {};
+
+  const report = (rule, severity, message, start, end) => {
+    ruleCounts[rule] = (ruleCounts[rule] || 0) + 1;
+    if (ruleCounts[rule] > MAX_FINDINGS_PER_RULE) return;
+
+    const from = positionAt(lineStarts, start);
+    const to = positionAt(lineStarts, Math.max(start, end));
+    findings.push({
+      rule,
+      severity,
+      message,
+      line: from.line,
+      column: from.column,
+      end_line: to.line,
+      end_column: to.column,
+      offset: start
+    });
+  };
+
+  scanStructure(masked, report);
+  scanReferences(masked, references, collectProjectDefinitions(projectFiles, file), report);
+  if (projectFiles) {
+    scanIncludes(masked, projectFiles, report);
+  }
+
+  return findings
+    .sort((a, b) => a.offset - b.offset)
+    .map(({ offset, ...finding }) => finding);
+}
+
+// 按严重程度统计
+function countFindings(findings) {
+  return {
+    errors: findings.filter(finding => finding.severity === 'error').length,
+    warnings: findings.filter(finding => finding.severity === 'warning').length
+  };
+}
+
+// 项目 .tex 文件中 \cite 等命令引用的每个键及其位置（按文件、出现顺序，忽略注释中的引用）
+function locateCitationKeys(projectFiles) {
+  const citations = [];
+  for (const [path, content] of Object.entries(projectFiles || {})) {
+    if (!path.endsWith('.tex')) continue;
+    const lineStarts = buildLineIndex(content);
+    for (const match of maskContent(content).matchAll(CITE_PATTERN)) {
+      const { line } = positionAt(lineStarts, match.index);
+      splitKeys(match[1]).filter(key => key !== '*').forEach(key => citations.push({ key, file: path, line }));
+    }
+  }
+  return citations;
+}
+
+// 项目 .tex 文件中 \cite 等命令引用的全部键（按首次出现的顺序，忽略注释中的引用）
+function collectCitationKeys(projectFiles) {
+  return [...new Set(locateCitationKeys(projectFiles).map(citation => citation.key))];
+}
+
+/**
+ * 改写 \cite 等命令中的引用键（忽略注释和 verbatim 中的引用）
+ * keyMap: { 旧键: 新键 }；改写后同一命令中重复的键只保留第一个
+ * @returns {{ content: string, count: number }} count 为改写的键的数量
+ */
+function renameCitationKeys(content, keyMap) {
+  let result = '';
+  let last = 0;
+  let count = 0;
+
+  for (const match of maskContent(content).matchAll(CITE_PATTERN)) {
+    const keys = splitKeys(match[1]);
+    if (!keys.some(key => Object.prototype.hasOwnProperty.call(keyMap, key))) continue;
+
+    const renamed = [];
+    for (const key of keys) {
+      const next = Object.prototype.hasOwnProperty.call(keyMap, key) ? keyMap[key] : key;
+      if (next !== key) count++;
+      if (!renamed.includes(next)) renamed.push(next);
+    }
+    const start = match.index + match[0].lastIndexOf('{') + 1;
+    const separator = /,\s/.test(match[1]) ? ', ' : ',';
+    result += content.slice(last, start) + renamed.join(separator);
+    last = start + match[1].length;
+  }
+
+  return { content: result + content.slice(last), count };
+}
+
+module.exports = {
+  lintLatex,
+  countFindings,
+  collectCitationKeys,
+  locateCitationKeys,
+  renameCitationKeys
+};
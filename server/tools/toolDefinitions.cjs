@@ -2,19 +2,36 @@
  * 工具定义模块 - AI可调用的工具列表
  */
 
+const { EDIT_OPERATIONS } = require('./editOperations.cjs');
+const { CITATION_STYLES, formatCitation } = require('../citationStyles.cjs');
+const { CITATION_CONFIG } = require('../config.cjs');
+const { SORT_BY, SORT_ORDERS } = require('../arxivClient.cjs');
+
+// 资源类型列表
+const RESOURCE_TYPES = ['references', 'images', 'pdfs', 'datafiles', 'codesnippets', 'notes'];
+
 // 工具列表定义
 const AVAILABLE_TOOLS = [
   {
     name: 'search_papers',
-    description: '在arXiv数据库中搜索学术论文。返回结果包含论文的arXiv ID，可用于下载PDF文件',
+    description: '在arXiv数据库中搜索学术论文。返回结果包含论文的arXiv ID，可用于下载PDF文件。各检索条件之间为 AND，至少提供一个；结果较多时用 next_start 作为 start 翻页',
     parameters: {
-      query: { type: 'string', description: '搜索关键词', required: true },
+      query: { type: 'string', description: '搜索关键词；也可直接写 arXiv 检索式，如 ti:transformer AND au:vaswani ANDNOT cat:cs.CV', required: false },
+      title: { type: 'string', description: '标题中包含的词', required: false },
+      author: { type: 'string', description: '作者姓名', required: false },
+      abstract: { type: 'string', description: '摘要中包含的词', required: false },
+      category: { type: 'string', description: 'arXiv 分类，多个用逗号分隔（如 cs.CL,cs.LG）', required: false },
+      date_from: { type: 'string', description: '提交日期起始（YYYY、YYYY-MM 或 YYYY-MM-DD）', required: false },
+      date_to: { type: 'string', description: '提交日期截止（YYYY、YYYY-MM 或 YYYY-MM-DD）', required: false },
+      sort_by: { type: 'string', description: '排序字段：relevance 相关度 / submittedDate 提交日期 / lastUpdatedDate 更新日期', required: false, default: 'relevance', enum: SORT_BY },
+      sort_order: { type: 'string', description: '排序方向', required: false, default: 'descending', enum: SORT_ORDERS },
+      start: { type: 'number', description: '起始位置（翻页时使用上次结果的 next_start）', required: false, default: 0 },
       max_results: { type: 'number', description: '返回的最大结果数量', required: false, default: 10 }
     }
   },
   {
     name: 'download_paper',
-    description: '下载指定论文的PDF文件。可以使用论文标题（从搜索结果中获取）或arXiv ID下载',
+    description: '下载指定论文的PDF文件。可以使用论文标题（从搜索结果中获取）或arXiv ID下载。下载后自动添加到参考文献库（库中已有时关联已有条目），返回引用键 citation_key',
     parameters: {
       title: { type: 'string', description: '论文标题（优先使用，会自动匹配最近搜索结果中的论文）', required: false },
       arxiv_id: { type: 'string', description: 'arXiv论文ID（例如：2301.07041）', required: false }
@@ -32,41 +49,65 @@ const AVAILABLE_TOOLS = [
   },
   {
     name: 'view_file',
-    description: '查看当前编辑器中的文件内容',
+    description: '查看项目中的文件内容。论文可能由多个文件组成（main.tex 通过 \\input / \\include 引入 chapters/*.tex 等），返回结果中的 project_files 列出了项目的全部文件',
     parameters: {
-      file_path: { type: 'string', description: '文件路径', required: false, default: 'main.tex' }
+      file_path: { type: 'string', description: '项目内的相对路径（如 chapters/intro.tex），默认为用户当前编辑的文件', required: false }
     }
   },
   {
     name: 'edit_file',
-    description: '修改当前编辑器中的文件内容',
+    description: `修改当前编辑器中的文件内容。行号从 1 开始（与 view_file / search_in_file 一致），锚点找不到或不唯一时操作失败且不做任何修改。
+操作类型：
+- replace_section：替换章节正文（section 为章节标题，如 "方法" 或 "\\section{方法}"，保留标题行）
+- insert_after_label：在 \\label{label} 之后插入（位于 figure/table/equation 等环境内时插入到环境结束之后）
+- replace_lines / delete_lines：替换或删除 start_line 到 end_line 行
+- regex_replace：正则替换，content 为替换文本（支持 $1），未指定 count 时要求唯一匹配，count=0 表示全部替换
+- replace：替换唯一出现的 target_text
+- append：追加到文件末尾
+- batch：edits 中的多个编辑一次性原子执行，所有锚点和行号都相对于修改前的文件`,
     parameters: {
-      operation: { type: 'string', description: '操作类型：append/replace/insert_at', required: true },
-      content: { type: 'string', description: '要添加或替换的内容', required: true },
-      target_text: { type: 'string', description: '要替换的目标文本', required: false },
-      position: { type: 'number', description: '插入位置', required: false }
+      file_path: { type: 'string', description: '要修改的文件（项目内的相对路径），默认为用户当前编辑的文件', required: false },
+      operation: { type: 'string', description: '操作类型', required: true, enum: EDIT_OPERATIONS.filter(op => op !== 'insert_at') },
+      content: { type: 'string', description: '新内容（delete_lines 和 batch 不需要）', required: false },
+      section: { type: 'string', description: 'replace_section 的章节标题', required: false },
+      label: { type: 'string', description: 'insert_after_label 的标签名（不含 \\label{}）', required: false },
+      start_line: { type: 'number', description: '起始行号（含）', required: false },
+      end_line: { type: 'number', description: '结束行号（含），默认与 start_line 相同', required: false },
+      pattern: { type: 'string', description: 'regex_replace 的正则表达式', required: false },
+      flags: { type: 'string', description: 'regex_replace 的正则标志（如 i、m、s）', required: false },
+      count: { type: 'number', description: 'regex_replace 替换的匹配数量，0 表示全部', required: false },
+      target_text: { type: 'string', description: 'replace 的目标文本', required: false },
+      edits: { type: 'array', description: 'batch 的编辑列表，每项包含 operation 及对应参数', required: false, items: { type: 'object' } }
     }
   },
   {
     name: 'search_in_file',
-    description: '在当前文件中搜索特定文本',
+    description: '在项目文件中搜索特定文本，结果包含所在文件和行号',
     parameters: {
       search_text: { type: 'string', description: '要搜索的文本', required: true },
+      file_path: { type: 'string', description: '只在指定文件中搜索，省略时搜索项目中的所有文件', required: false },
       case_sensitive: { type: 'boolean', description: '是否区分大小写', required: false, default: false }
     }
   },
+  {
+    name: 'lint_document',
+    description: '静态检查当前文件的 LaTeX 问题：花括号不配对、环境未闭合、数学模式 $ 未闭合、重复标签、未定义的 \\ref 标签、不在参考文献库中的 \\cite 键。返回问题所在的行号，可配合 edit_file 的 replace_lines 修复',
+    parameters: {
+      file_path: { type: 'string', description: '要检查的文件，默认为用户当前编辑的文件', required: false }
+    }
+  },
   {
     name: 'list_resources',
     description: '查看资源列表，支持按类型筛选',
     parameters: {
-      resource_type: { type: 'string', description: '资源类型：references/images/pdfs/datafiles/codesnippets/notes/all', required: true }
+      resource_type: { type: 'string', description: '资源类型：references/images/pdfs/datafiles/codesnippets/notes/all', required: true, enum: ['references', 'images', 'pdfs', 'datafiles', 'codesnippets', 'notes', 'all'] }
     }
   },
   {
     name: 'add_resource',
-    description: '添加新资源到资源库',
+    description: '添加新资源到资源库。参考文献与库中已有条目重复（DOI、arXiv ID 或标题 + 年份 + 第一作者相同）时不添加，返回已有条目的引用键',
     parameters: {
-      resource_type: { type: 'string', description: '资源类型：references/images/pdfs/datafiles/codesnippets/notes', required: true },
+      resource_type: { type: 'string', description: '资源类型：references/images/pdfs/datafiles/codesnippets/notes', required: true, enum: RESOURCE_TYPES },
       resource_data: { type: 'object', description: '资源数据对象，包含name/title/description等字段', required: true }
     }
   },
@@ -74,18 +115,85 @@ const AVAILABLE_TOOLS = [
     name: 'insert_resource',
     description: '生成资源引用内容，可插入到文档中',
     parameters: {
-      resource_type: { type: 'string', description: '资源类型：references/images/pdfs/datafiles/codesnippets/notes', required: true },
+      resource_type: { type: 'string', description: '资源类型：references/images/pdfs/datafiles/codesnippets/notes', required: true, enum: RESOURCE_TYPES },
       resource_id: { type: 'string', description: '资源ID', required: true },
-      insert_format: { type: 'string', description: '插入格式：latex/markdown', required: false, default: 'latex' }
+      insert_format: { type: 'string', description: '插入格式：latex/markdown', required: false, default: 'latex', enum: ['latex', 'markdown'] },
+      citation_style: { type: 'string', description: 'markdown 格式插入参考文献时的引用样式，默认使用配置的样式', required: false, enum: Object.keys(CITATION_STYLES) }
+    }
+  },
+  {
+    name: 'import_bibtex',
+    description: '把 BibTeX 条目（.bib 内容）导入参考文献库，未识别的字段原样保留。引用键重复时默认跳过',
+    parameters: {
+      content: { type: 'string', description: 'BibTeX 内容，可包含多个条目', required: true },
+      on_duplicate: { type: 'string', description: '引用键重复时：skip 跳过 / rename 在键后追加 a、b… / replace 覆盖', required: false, default: 'skip', enum: ['skip', 'rename', 'replace'] }
+    }
+  },
+  {
+    name: 'export_bibtex',
+    description: '把参考文献库导出为 BibTeX，可只导出正文中 \\cite 引用的条目，并列出引用了但库中没有的键',
+    parameters: {
+      scope: { type: 'string', description: '导出范围：all 全部 / cited 只导出被引用的条目', required: false, default: 'all', enum: ['all', 'cited'] }
+    }
+  },
+  {
+    name: 'format_bibliography',
+    description: '按 GB/T 7714、APA、IEEE、MLA 或 Chicago 样式生成参考文献列表，同时返回每条文献的文中引用形式。顺序编码制按正文中首次引用的顺序编号',
+    parameters: {
+      style: { type: 'string', description: '引用样式，默认使用配置的样式', required: false, enum: Object.keys(CITATION_STYLES) },
+      format: { type: 'string', description: '输出格式：latex（thebibliography 环境）/ markdown / text', required: false, default: 'markdown', enum: ['latex', 'markdown', 'text'] },
+      scope: { type: 'string', description: '范围：cited 只包括正文中引用的条目 / all 全部', required: false, default: 'cited', enum: ['cited', 'all'] },
+      keys: { type: 'array', description: '只包括这些引用键（按给定顺序），提供时忽略 scope', required: false, items: { type: 'string' } }
     }
+  },
+  {
+    name: 'check_citations',
+    description: '检查正文中的 \\cite 引用与参考文献库是否一致：列出库中没有的键（及所在文件和行号）、从未被引用的条目和缺少引用键的条目',
+    parameters: {}
   }
 ];
 
-// 资源类型列表
-const RESOURCE_TYPES = ['references', 'images', 'pdfs', 'datafiles', 'codesnippets', 'notes'];
+/**
+ * 将工具定义转换为 OpenAI 风格的 function calling 定义（JSON Schema）
+ * DeepSeek、DashScope 等兼容接口通过 tools 参数接收
+ */
+function toToolSchemas(tools = AVAILABLE_TOOLS) {
+  return tools.map(tool => {
+    const properties = {};
+    const required = [];
+
+    for (const [name, param] of Object.entries(tool.parameters)) {
+      const property = { type: param.type, description: param.description };
+      if (param.enum) {
+        property.enum = param.enum;
+      }
+      if (param.items) {
+        property.items = param.items;
+      }
+      if (param.default !== undefined) {
+        property.default = param.default;
+      }
+      properties[name] = property;
+
+      if (param.required) {
+        required.push(name);
+      }
+    }
+
+    return {
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: { type: 'object', properties, required }
+      }
+    };
+  });
+}
 
 // 统一的引用生成函数
-function generateInsertContent(resource, type, format = 'latex') {
+// options.style：markdown 参考文献引用的样式；options.number：顺序编码制样式的编号
+function generateInsertContent(resource, type, format = 'latex', options = {}) {
   let insertContent = '';
   
   switch (type) {
@@ -93,7 +201,10 @@ function generateInsertContent(resource, type, format = 'latex') {
       if (format === 'latex') {
         insertContent = `\\cite{${resource.citationKey || resource.id}}`;
       } else {
-        insertContent = `[${resource.citationKey || resource.id}] ${resource.title}`;
+        insertContent = formatCitation([resource], options.style || CITATION_CONFIG.defaultStyle, {
+          numbers: [options.number || 1],
+          markup: 'markdown'
+        });
       }
       break;
     case 'images':
@@ -155,6 +266,7 @@ function extractArxivId(idOrUrl) {
 module.exports = {
   AVAILABLE_TOOLS,
   RESOURCE_TYPES,
+  toToolSchemas,
   generateInsertContent,
   extractArxivId
 };
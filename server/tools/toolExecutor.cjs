@@ -3,14 +3,25 @@
  */
 
 const axios = require('axios');
-const { parseStringPromise } = require('xml2js');
 const { join } = require('path');
 const { randomUUID } = require('crypto');
 const fs = require('fs-extra');
+const { extname } = require('path');
 
 const { localStorage } = require('../storage.cjs');
+const { isAbortError } = require('../abortUtils.cjs');
+const { arxivClient } = require('../arxivClient.cjs');
 const { extractPDFText } = require('../pdfUtils.cjs');
-const { AVAILABLE_TOOLS, RESOURCE_TYPES, generateInsertContent, extractArxivId } = require('./toolDefinitions.cjs');
+const { AVAILABLE_TOOLS, RESOURCE_TYPES, generateInsertContent } = require('./toolDefinitions.cjs');
+const { EditError, applyEdits } = require('./editOperations.cjs');
+const { lintLatex, countFindings, collectCitationKeys } = require('./latexLinter.cjs');
+const { DUPLICATE_STRATEGIES, formatBibtex, importBibtex, selectCitedReferences } = require('../bibtex.cjs');
+const { findDuplicate } = require('../referenceDedup.cjs');
+const { ensureCitationKey, checkCitations } = require('../citationKeys.cjs');
+const { CITATION_STYLES, citationNumber, formatCitation, formatBibliography } = require('../citationStyles.cjs');
+const { extractPdfMetadata, linkPdfToLibrary } = require('../pdfReferences.cjs');
+const { CITATION_CONFIG } = require('../config.cjs');
+const { MAIN_FILE, normalizeProjectPath } = require('../projectStore.cjs');
 
 // 缓存最近的搜索结果（用于标题匹配）
 let lastSearchResults = [];
@@ -48,10 +59,10 @@ function findPaperByTitle(title) {
 }
 
 // 根据标题在已下载的PDF中查找
-function findDownloadedPdfByTitle(title) {
+function findDownloadedPdfByTitle(title, storage) {
   if (!title) return null;
   
-  const storedData = localStorage.getItem('academic_writing_pdfs');
+  const storedData = storage.getItem('academic_writing_pdfs');
   const pdfResources = storedData ? JSON.parse(storedData) : [];
   
   const normalizedTitle = title.toLowerCase().trim();
@@ -71,36 +82,56 @@ function findDownloadedPdfByTitle(title) {
 }
 
 // 执行工具调用
-async function executeTool(tool_name, parameters, editor_content) {
+// options.signal: 取消信号，网络请求类工具会随之中止
+// options.files: 项目文件内容 { path: content }，提供时文件类工具按 file_path 操作对应文件
+// options.activeFile: 当前编辑的文件，未指定 file_path 时使用
+// options.storage: 资源库存储（见 storage.getResourceStorage），默认为当前项目的资源库
+async function executeTool(tool_name, parameters, editor_content, options = {}) {
+  const storage = options.storage || localStorage;
   let result;
   
   switch (tool_name) {
     case 'search_papers':
-      result = await executeSearchPapers(parameters);
+      result = await executeSearchPapers(parameters, options.signal);
       break;
     case 'download_paper':
-      result = await executeDownloadPaper(parameters);
+      result = await executeDownloadPaper(parameters, options.signal, storage);
       break;
     case 'read_pdf_content':
-      result = await executeReadPdfContent(parameters);
+      result = await executeReadPdfContent(parameters, storage);
       break;
     case 'view_file':
-      result = executeViewFile(parameters, editor_content);
+      result = executeViewFile(parameters, editor_content, options);
       break;
     case 'edit_file':
-      result = executeEditFile(parameters, editor_content);
+      result = executeEditFile(parameters, editor_content, options);
       break;
     case 'search_in_file':
-      result = executeSearchInFile(parameters, editor_content);
+      result = executeSearchInFile(parameters, editor_content, options);
+      break;
+    case 'lint_document':
+      result = executeLintDocument(parameters, editor_content, options, storage);
       break;
     case 'list_resources':
-      result = executeListResources(parameters);
+      result = executeListResources(parameters, storage);
       break;
     case 'add_resource':
-      result = executeAddResource(parameters);
+      result = executeAddResource(parameters, storage);
       break;
     case 'insert_resource':
-      result = executeInsertResource(parameters);
+      result = executeInsertResource(parameters, editor_content, options, storage);
+      break;
+    case 'import_bibtex':
+      result = executeImportBibtex(parameters, storage);
+      break;
+    case 'export_bibtex':
+      result = executeExportBibtex(parameters, editor_content, options, storage);
+      break;
+    case 'format_bibliography':
+      result = executeFormatBibliography(parameters, editor_content, options, storage);
+      break;
+    case 'check_citations':
+      result = executeCheckCitations(editor_content, options, storage);
       break;
     default:
       result = { success: false, error: `不支持的工具: ${tool_name}` };
@@ -109,70 +140,55 @@ async function executeTool(tool_name, parameters, editor_content) {
   return result;
 }
 
-// 搜索论文
-async function executeSearchPapers(parameters) {
+// 搜索论文（start > 0 时为翻页，结果追加到标题匹配的缓存中）
+async function executeSearchPapers(parameters, signal) {
+  const { query, title, author, abstract, category, date_from, date_to, sort_by, sort_order, start = 0, max_results = 10 } = parameters;
+  
   try {
-    const arxivResponse = await axios.get(
-      `http://export.arxiv.org/api/query?search_query=all:${encodeURIComponent(parameters.query)}&start=0&max_results=${parameters.max_results || 10}`
+    const result = await arxivClient.search(
+      { query, title, author, abstract, category, date_from, date_to, sort_by, sort_order, start, max_results },
+      { signal }
     );
     
-    const xmlResult = await parseStringPromise(arxivResponse.data, { explicitArray: false, mergeAttrs: true });
-    const entries = xmlResult.feed.entry || [];
-    const entriesArray = Array.isArray(entries) ? entries : [entries];
-    
-    const papers = entriesArray.map(entry => {
-      const id = entry.id || '';
-      let arxivId = extractArxivId(id);
-      let pdfUrl = null;
-      
-      if (!arxivId && entry.link) {
-        const linkArray = Array.isArray(entry.link) ? entry.link : [entry.link];
-        for (const link of linkArray) {
-          if (link.$ && link.$.type === 'application/pdf' && link.$.href) {
-            pdfUrl = link.$.href;
-            arxivId = extractArxivId(link.$.href);
-          }
-          if (!arxivId && link.$ && link.$.href && link.$.href.includes('arxiv.org/abs/')) {
-            arxivId = extractArxivId(link.$.href);
-          }
-        }
-      }
-      
-      if (!pdfUrl && arxivId) {
-        pdfUrl = `https://arxiv.org/pdf/${arxivId}.pdf`;
-      }
-      
-      const authors = [];
-      if (entry.author) {
-        const authorArray = Array.isArray(entry.author) ? entry.author : [entry.author];
-        authorArray.forEach(author => { if (author.name) authors.push(author.name); });
-      }
-      
-      const summary = entry.summary?.trim() || '';
-      
-      return {
-        arxiv_id: arxivId,
-        title: entry.title?.trim() || '',
-        authors,
-        abstract: summary.substring(0, 500) + (summary.length > 500 ? '...' : ''),
-        published: entry.published || '',
-        has_pdf: !!pdfUrl
-      };
-    });
+    const papers = result.papers.map(paper => ({
+      arxiv_id: paper.arxiv_id,
+      title: paper.title,
+      authors: paper.authors,
+      abstract: paper.summary.substring(0, 500) + (paper.summary.length > 500 ? '...' : ''),
+      published: paper.published,
+      primary_category: paper.primary_category,
+      has_pdf: !!(paper.pdf_url || paper.arxiv_id)
+    }));
     
     // 缓存搜索结果（用于后续标题匹配）
-    lastSearchResults = papers;
-    console.log(`[ToolExecutor] 搜索完成，缓存 ${papers.length} 篇论文用于标题匹配`);
+    if (result.start > 0) {
+      const cachedIds = new Set(papers.map(p => p.arxiv_id));
+      lastSearchResults = [...lastSearchResults.filter(p => !cachedIds.has(p.arxiv_id)), ...papers];
+    } else {
+      lastSearchResults = papers;
+    }
+    console.log(`[ToolExecutor] 搜索完成，缓存 ${lastSearchResults.length} 篇论文用于标题匹配`);
     
-    return { success: true, data: { query: parameters.query, count: papers.length, papers } };
+    return {
+      success: true,
+      data: {
+        query: result.search_query,
+        total: result.total,
+        start: result.start,
+        count: papers.length,
+        next_start: result.next_start,
+        papers
+      }
+    };
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error('arXiv搜索失败:', error);
     return { success: false, error: `arXiv搜索失败: ${error.message || '未知错误'}` };
   }
 }
 
 // 下载论文
-async function executeDownloadPaper(parameters) {
+async function executeDownloadPaper(parameters, signal, storage) {
   const { arxiv_id, title } = parameters;
   
   let targetArxivId = arxiv_id;
@@ -198,10 +214,23 @@ async function executeDownloadPaper(parameters) {
   }
   
   const cleanArxivId = targetArxivId.split('v')[0].trim();
+  // 只提供 arXiv ID 时也尝试使用搜索结果中的论文信息（用于创建参考文献）
+  if (!matchedPaper) {
+    matchedPaper = lastSearchResults.find(p => p.arxiv_id.split('v')[0] === cleanArxivId) || null;
+  }
+  if (!matchedPaper) {
+    try {
+      const [paper] = await arxivClient.getByIds([cleanArxivId], { signal });
+      if (paper) matchedPaper = { ...paper, abstract: paper.summary };
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.warn(`[ToolExecutor] 获取论文信息失败: ${error.message}`);
+    }
+  }
   const pdfUrl = `https://arxiv.org/pdf/${cleanArxivId}.pdf`;
   
   try {
-    const pdfResponse = await axios.get(pdfUrl, { responseType: 'arraybuffer' });
+    const pdfResponse = await axios.get(pdfUrl, { responseType: 'arraybuffer', signal });
     const downloadsDir = join(process.cwd(), 'downloads');
     
     if (!fs.existsSync(downloadsDir)) {
@@ -246,29 +275,46 @@ async function executeDownloadPaper(parameters) {
     };
     
     // 保存到存储
-    const storedData = localStorage.getItem('academic_writing_pdfs');
+    const storedData = storage.getItem('academic_writing_pdfs');
     let pdfResources = storedData ? JSON.parse(storedData) : [];
     
     const existingIndex = pdfResources.findIndex(r => r.name === pdfResource.name);
     if (existingIndex !== -1) {
+      // 重新下载时保留原来的 id，已有的参考文献关联仍然有效
+      pdfResource.id = pdfResources[existingIndex].id;
       pdfResources[existingIndex] = pdfResource;
     } else {
       pdfResources.push(pdfResource);
     }
     
-    localStorage.setItem('academic_writing_pdfs', JSON.stringify(pdfResources));
+    // 关联参考文献：库中已有同一论文时直接关联，否则新建条目并生成引用键
+    const storedReferences = storage.getItem('academic_writing_references');
+    const references = storedReferences ? JSON.parse(storedReferences) : [];
+    const linked = linkPdfToLibrary(references, pdfResources, pdfResource,
+      extractPdfMetadata(pdfResource, extractionResult, matchedPaper), CITATION_CONFIG.keyPattern);
+    
+    storage.setItem('academic_writing_pdfs', JSON.stringify(pdfResources));
+    if (linked) {
+      storage.setItem('academic_writing_references', JSON.stringify(references));
+      console.log(`[ToolExecutor] PDF ${pdfResource.name} 已关联参考文献 [${linked.reference.citationKey}]${linked.created ? '（新建）' : ''}`);
+    }
     
     return {
       success: true,
       data: {
-        message: `论文已下载: "${paperTitle}"`,
+        message: linked
+          ? `论文已下载: "${paperTitle}"，${linked.created ? '已添加到参考文献库' : '已关联参考文献'}，引用键 ${linked.reference.citationKey}`
+          : `论文已下载: "${paperTitle}"`,
         title: paperTitle,
         arxiv_id: cleanArxivId,
         filename: `${cleanArxivId}.pdf`,
         file_path: filePath,
         pdf_url: pdfUrl,
         resource_id: pdfResource.id,
-        resource_type: 'pdfs'
+        resource_type: 'pdfs',
+        reference_id: linked?.reference.id || null,
+        citation_key: linked?.reference.citationKey || null,
+        reference_created: linked?.created || false
       }
     };
   } catch (error) {
@@ -278,7 +324,7 @@ async function executeDownloadPaper(parameters) {
 }
 
 // 读取PDF内容
-async function executeReadPdfContent(parameters) {
+async function executeReadPdfContent(parameters, storage) {
   const { resource_id, arxiv_id, filename, title } = parameters;
   
   if (!resource_id && !arxiv_id && !filename && !title) {
@@ -286,14 +332,14 @@ async function executeReadPdfContent(parameters) {
   }
   
   try {
-    const storedData = localStorage.getItem('academic_writing_pdfs');
+    const storedData = storage.getItem('academic_writing_pdfs');
     const pdfResources = storedData ? JSON.parse(storedData) : [];
     
     let pdfResource = null;
     
     // 优先通过标题查找
     if (title) {
-      pdfResource = findDownloadedPdfByTitle(title);
+      pdfResource = findDownloadedPdfByTitle(title, storage);
       if (pdfResource) {
         console.log(`[ToolExecutor] 通过标题 "${title}" 找到已下载的论文: ${pdfResource.name}`);
       }
@@ -348,7 +394,7 @@ async function executeReadPdfContent(parameters) {
           const index = pdfResources.findIndex(r => r.id === pdfResource.id);
           if (index !== -1) {
             pdfResources[index] = pdfResource;
-            localStorage.setItem('academic_writing_pdfs', JSON.stringify(pdfResources));
+            storage.setItem('academic_writing_pdfs', JSON.stringify(pdfResources));
           }
         }
       }
@@ -377,101 +423,178 @@ async function executeReadPdfContent(parameters) {
   }
 }
 
+// 确定文件类工具操作的文件：有项目文件时按 file_path 查找（省略扩展名时补全 .tex），否则使用编辑器内容
+function resolveTargetFile(parameters, editor_content, options = {}) {
+  const { files, activeFile } = options;
+  if (!files) {
+    return editor_content
+      ? { path: parameters.file_path || MAIN_FILE, content: editor_content }
+      : { error: '编辑器内容为空' };
+  }
+  
+  let path;
+  try {
+    const requested = String(parameters.file_path || activeFile || MAIN_FILE);
+    path = normalizeProjectPath(extname(requested) ? requested : `${requested}.tex`);
+  } catch (error) {
+    return { error: error.message };
+  }
+  
+  if (typeof files[path] !== 'string') {
+    return { error: `文件不存在: ${path}（项目文件：${Object.keys(files).join('、')}）` };
+  }
+  return { path, content: files[path] };
+}
+
 // 查看文件
-function executeViewFile(parameters, editor_content) {
-  if (!editor_content) {
-    return { success: false, error: '编辑器内容为空' };
+function executeViewFile(parameters, editor_content, options) {
+  const target = resolveTargetFile(parameters, editor_content, options);
+  if (target.error) {
+    return { success: false, error: target.error };
   }
   
+  const content = target.content;
   return {
     success: true,
     data: {
-      file_path: parameters.file_path || 'main.tex',
-      content: editor_content,
-      stats: { lines: editor_content.split('\n').length, characters: editor_content.length },
-      preview: editor_content.substring(0, 1000) + (editor_content.length > 1000 ? '...' : '')
+      file_path: target.path,
+      content,
+      stats: { lines: content.split('\n').length, characters: content.length },
+      preview: content.substring(0, 1000) + (content.length > 1000 ? '...' : ''),
+      project_files: options.files ? Object.keys(options.files) : undefined
     }
   };
 }
 
-// 编辑文件
-function executeEditFile(parameters, editor_content) {
-  if (!editor_content) {
-    return { success: false, error: '编辑器内容为空' };
+// 编辑操作的中文名称
+const EDIT_OPERATION_NAMES = {
+  append: '追加',
+  replace: '替换',
+  insert_at: '插入',
+  replace_section: '替换章节',
+  insert_after_label: '插入',
+  replace_lines: '替换',
+  delete_lines: '删除',
+  regex_replace: '正则替换',
+  batch: '批量修改'
+};
+
+// 编辑文件（batch 中的所有编辑原子执行，任一失败则不做任何修改）
+function executeEditFile(parameters, editor_content, options) {
+  const target = resolveTargetFile(parameters, editor_content, options);
+  if (target.error) {
+    return { success: false, error: target.error };
   }
+  const originalContent = target.content;
   
-  const { operation, content, target_text, position } = parameters;
-  let newContent = editor_content;
+  const { operation } = parameters;
+  let edits = [parameters];
+  if (operation === 'batch') {
+    if (!Array.isArray(parameters.edits) || parameters.edits.length === 0) {
+      return { success: false, error: 'batch 操作需要提供非空的 edits 数组' };
+    }
+    edits = parameters.edits;
+  }
   
-  switch (operation) {
-    case 'append':
-      newContent = editor_content + '\n\n' + content;
-      break;
-    case 'replace':
-      if (!target_text || !editor_content.includes(target_text)) {
-        return { success: false, error: '未找到要替换的目标文本' };
-      }
-      newContent = editor_content.replace(target_text, content);
-      break;
-    case 'insert_at':
-      if (position === undefined || position < 0 || position > editor_content.length) {
-        return { success: false, error: '插入位置无效' };
-      }
-      newContent = editor_content.slice(0, position) + content + editor_content.slice(position);
-      break;
-    default:
-      return { success: false, error: `不支持的操作类型: ${operation}` };
+  let result;
+  try {
+    result = applyEdits(originalContent, edits);
+  } catch (error) {
+    if (error instanceof EditError) {
+      return { success: false, error: error.message };
+    }
+    throw error;
   }
   
+  const newContent = result.content;
+  const ranges = result.changes
+    .map(change => change.new_end_line !== null
+      ? `第 ${change.new_start_line}-${change.new_end_line} 行`
+      : `第 ${change.old_start_line} 行起删除 ${change.lines_removed} 行`)
+    .join('，');
+  
   return {
     success: true,
     data: {
       operation,
+      file_path: target.path,
       new_content: newContent,
-      message: `文件已成功${operation === 'append' ? '追加' : operation === 'replace' ? '替换' : '插入'}内容`,
+      changes: result.changes,
+      message: `文件已成功${EDIT_OPERATION_NAMES[operation] || '修改'}内容（${ranges}）`,
       stats: {
-        old_lines: editor_content.split('\n').length,
+        old_lines: originalContent.split('\n').length,
         new_lines: newContent.split('\n').length,
-        lines_added: newContent.split('\n').length - editor_content.split('\n').length
+        lines_added: newContent.split('\n').length - originalContent.split('\n').length
       }
     }
   };
 }
 
-// 在文件中搜索
-function executeSearchInFile(parameters, editor_content) {
-  if (!editor_content) {
-    return { success: false, error: '编辑器内容为空' };
-  }
-  
+// 在文件中搜索（项目中未指定 file_path 时搜索所有文件）
+function executeSearchInFile(parameters, editor_content, options) {
   const { search_text, case_sensitive = false } = parameters;
   
   if (!search_text) {
     return { success: false, error: '搜索文本不能为空' };
   }
   
-  const searchContent = case_sensitive ? editor_content : editor_content.toLowerCase();
-  const searchText = case_sensitive ? search_text : search_text.toLowerCase();
+  let targets;
+  if (options.files && !parameters.file_path) {
+    targets = Object.entries(options.files).map(([path, content]) => ({ path, content }));
+  } else {
+    const target = resolveTargetFile(parameters, editor_content, options);
+    if (target.error) {
+      return { success: false, error: target.error };
+    }
+    targets = [target];
+  }
   
+  const searchText = case_sensitive ? search_text : search_text.toLowerCase();
   const matches = [];
-  const lines = editor_content.split('\n');
-  
-  lines.forEach((line, i) => {
-    const searchLine = case_sensitive ? line : line.toLowerCase();
-    let pos = searchLine.indexOf(searchText);
-    while (pos !== -1) {
-      const start = Math.max(0, pos - 20);
-      const end = Math.min(line.length, pos + search_text.length + 20);
-      matches.push({ line: i + 1, position: pos, context: line.substring(start, end) });
-      pos = searchLine.indexOf(searchText, pos + 1);
-    }
+  
+  targets.forEach(({ path, content }) => {
+    content.split('\n').forEach((line, i) => {
+      const searchLine = case_sensitive ? line : line.toLowerCase();
+      let pos = searchLine.indexOf(searchText);
+      while (pos !== -1) {
+        const start = Math.max(0, pos - 20);
+        const end = Math.min(line.length, pos + search_text.length + 20);
+        matches.push({ file: path, line: i + 1, position: pos, context: line.substring(start, end) });
+        pos = searchLine.indexOf(searchText, pos + 1);
+      }
+    });
   });
   
   return { success: true, data: { search_text, case_sensitive, total_matches: matches.length, matches: matches.slice(0, 20) } };
 }
 
+// 静态检查 LaTeX 文档（项目中其他文件定义的标签、\bibitem 视为已定义）
+function executeLintDocument(parameters, editor_content, options, storage) {
+  const target = resolveTargetFile(parameters, editor_content, options);
+  if (target.error) {
+    return { success: false, error: target.error };
+  }
+  
+  const storedData = storage.getItem('academic_writing_references');
+  const references = storedData ? JSON.parse(storedData) : [];
+  const findings = lintLatex(target.content, { references, projectFiles: options.files, file: target.path });
+  const counts = countFindings(findings);
+  
+  return {
+    success: true,
+    data: {
+      file_path: target.path,
+      ...counts,
+      findings,
+      message: findings.length > 0
+        ? `发现 ${counts.errors} 个错误、${counts.warnings} 个警告`
+        : '未发现问题'
+    }
+  };
+}
+
 // 列出资源
-function executeListResources(parameters) {
+function executeListResources(parameters, storage) {
   const { resource_type } = parameters;
   
   if (!resource_type) {
@@ -481,7 +604,7 @@ function executeListResources(parameters) {
   if (resource_type === 'all') {
     const allResources = {};
     RESOURCE_TYPES.forEach(type => {
-      const storedData = localStorage.getItem(`academic_writing_${type}`);
+      const storedData = storage.getItem(`academic_writing_${type}`);
       allResources[type] = storedData ? JSON.parse(storedData) : [];
     });
     return { success: true, data: { resource_type: 'all', resources: allResources } };
@@ -491,14 +614,14 @@ function executeListResources(parameters) {
     return { success: false, error: '无效的资源类型' };
   }
   
-  const storedData = localStorage.getItem(`academic_writing_${resource_type}`);
+  const storedData = storage.getItem(`academic_writing_${resource_type}`);
   const resources = storedData ? JSON.parse(storedData) : [];
   
   return { success: true, data: { resource_type, resources, count: resources.length } };
 }
 
 // 添加资源
-function executeAddResource(parameters) {
+function executeAddResource(parameters, storage) {
   const { resource_type, resource_data } = parameters;
   
   if (!resource_type || !RESOURCE_TYPES.includes(resource_type)) {
@@ -509,7 +632,7 @@ function executeAddResource(parameters) {
     return { success: false, error: '资源数据不能为空' };
   }
   
-  const storedData = localStorage.getItem(`academic_writing_${resource_type}`);
+  const storedData = storage.getItem(`academic_writing_${resource_type}`);
   let resources = storedData ? JSON.parse(storedData) : [];
   
   if (!resource_data.id) {
@@ -518,7 +641,7 @@ function executeAddResource(parameters) {
     const existingIndex = resources.findIndex(r => r.id === resource_data.id);
     if (existingIndex !== -1) {
       resources[existingIndex] = resource_data;
-      localStorage.setItem(`academic_writing_${resource_type}`, JSON.stringify(resources));
+      storage.setItem(`academic_writing_${resource_type}`, JSON.stringify(resources));
       return { success: true, data: { message: '资源更新成功', resource_type, resource_id: resource_data.id, updated: true } };
     }
   }
@@ -528,30 +651,47 @@ function executeAddResource(parameters) {
     const existingIndex = resources.findIndex(r => r.name === resource_data.name);
     if (existingIndex !== -1) {
       resources[existingIndex] = resource_data;
-      localStorage.setItem(`academic_writing_${resource_type}`, JSON.stringify(resources));
+      storage.setItem(`academic_writing_${resource_type}`, JSON.stringify(resources));
       return { success: true, data: { message: '资源更新成功', resource_type, resource_id: resource_data.id, updated: true } };
     }
   }
   
+  // 参考文献库中已有同一文献时不重复添加，返回已有条目供引用；没有引用键时按配置的模式生成
+  if (resource_type === 'references') {
+    ensureCitationKey(resources, resource_data, CITATION_CONFIG.keyPattern);
+    const duplicate = findDuplicate(resources, resource_data);
+    if (duplicate) {
+      return {
+        success: false,
+        error: `参考文献库中已有相同的文献：[${duplicate.reference.citationKey}] ${duplicate.reference.title}，请直接引用该条目`,
+        data: { duplicate_id: duplicate.reference.id, duplicate_key: duplicate.reference.citationKey, reasons: duplicate.reasons }
+      };
+    }
+  }
+  
   resources.push(resource_data);
-  localStorage.setItem(`academic_writing_${resource_type}`, JSON.stringify(resources));
+  storage.setItem(`academic_writing_${resource_type}`, JSON.stringify(resources));
   
   return { success: true, data: { message: '资源添加成功', resource_type, resource_id: resource_data.id, updated: false } };
 }
 
 // 插入资源引用
-function executeInsertResource(parameters) {
-  const { resource_type, resource_id, insert_format = 'latex' } = parameters;
+function executeInsertResource(parameters, editor_content, options, storage) {
+  const { resource_type, resource_id, insert_format = 'latex', citation_style = CITATION_CONFIG.defaultStyle } = parameters;
   
   if (!resource_type || !RESOURCE_TYPES.includes(resource_type)) {
     return { success: false, error: '无效的资源类型' };
   }
   
+  if (!CITATION_STYLES[citation_style]) {
+    return { success: false, error: `无效的引用样式，可选 ${Object.keys(CITATION_STYLES).join(' / ')}` };
+  }
+  
   if (!resource_id) {
     return { success: false, error: '资源ID不能为空' };
   }
   
-  const storedData = localStorage.getItem(`academic_writing_${resource_type}`);
+  const storedData = storage.getItem(`academic_writing_${resource_type}`);
   const resources = storedData ? JSON.parse(storedData) : [];
   const resource = resources.find(r => r.id === resource_id);
   
@@ -559,11 +699,159 @@ function executeInsertResource(parameters) {
     return { success: false, error: '未找到指定的资源' };
   }
   
-  const insertContent = generateInsertContent(resource, resource_type, insert_format);
+  // 参考文献没有引用键时先生成并保存，避免正文中出现 \cite{id}
+  if (resource_type === 'references' && ensureCitationKey(resources, resource, CITATION_CONFIG.keyPattern)) {
+    storage.setItem('academic_writing_references', JSON.stringify(resources));
+  }
+  
+  // 顺序编码制的编号按正文中已有引用的顺序确定
+  const citedKeys = resource_type === 'references'
+    ? collectCitationKeys(options.files || { [MAIN_FILE]: editor_content || '' })
+    : [];
+  const insertContent = generateInsertContent(resource, resource_type, insert_format, {
+    style: citation_style,
+    number: citationNumber(resource, resources, citedKeys)
+  });
   
   return { success: true, data: { resource_type, resource_id, insert_format, content: insertContent } };
 }
 
+// 导入 BibTeX 到参考文献库
+function executeImportBibtex(parameters, storage) {
+  const { content, on_duplicate = 'skip' } = parameters;
+  
+  if (typeof content !== 'string' || !content.trim()) {
+    return { success: false, error: 'BibTeX 内容不能为空' };
+  }
+  
+  if (!DUPLICATE_STRATEGIES.includes(on_duplicate)) {
+    return { success: false, error: `无效的重复处理方式，可选 ${DUPLICATE_STRATEGIES.join(' / ')}` };
+  }
+  
+  const storedData = storage.getItem('academic_writing_references');
+  const references = storedData ? JSON.parse(storedData) : [];
+  const result = importBibtex(references, content, on_duplicate);
+  const changed = result.imported.length + result.renamed.length + result.replaced.length;
+  
+  if (changed === 0 && result.skipped.length === 0) {
+    return { success: false, error: '未能解析任何 BibTeX 条目', data: { errors: result.errors } };
+  }
+  
+  if (changed > 0) {
+    storage.setItem('academic_writing_references', JSON.stringify(result.references));
+  }
+  
+  return {
+    success: true,
+    data: {
+      message: `导入 ${changed} 条参考文献，跳过 ${result.skipped.length} 条`,
+      imported: result.imported,
+      renamed: result.renamed,
+      replaced: result.replaced,
+      skipped: result.skipped,
+      errors: result.errors
+    }
+  };
+}
+
+// 导出参考文献库为 BibTeX（cited 时只导出项目正文中引用的条目）
+function executeExportBibtex(parameters, editor_content, options, storage) {
+  const { scope = 'all' } = parameters;
+  
+  if (!['all', 'cited'].includes(scope)) {
+    return { success: false, error: '无效的导出范围，可选 all 或 cited' };
+  }
+  
+  const storedData = storage.getItem('academic_writing_references');
+  let references = storedData ? JSON.parse(storedData) : [];
+  let missing = [];
+  if (scope === 'cited') {
+    const files = options.files || { [MAIN_FILE]: editor_content || '' };
+    const selection = selectCitedReferences(references, collectCitationKeys(files));
+    references = selection.references;
+    missing = selection.missing;
+  }
+  
+  return {
+    success: true,
+    data: {
+      scope,
+      count: references.length,
+      missing,
+      content: references.length > 0 ? formatBibtex(references) : ''
+    }
+  };
+}
+
+// 按引用样式生成参考文献列表
+function executeFormatBibliography(parameters, editor_content, options, storage) {
+  const { style = CITATION_CONFIG.defaultStyle, format = 'markdown', scope = 'cited', keys } = parameters;
+  
+  if (!CITATION_STYLES[style]) {
+    return { success: false, error: `无效的引用样式，可选 ${Object.keys(CITATION_STYLES).join(' / ')}` };
+  }
+  
+  if (!['latex', 'markdown', 'text'].includes(format)) {
+    return { success: false, error: '无效的输出格式，可选 latex / markdown / text' };
+  }
+  
+  if (!['all', 'cited'].includes(scope)) {
+    return { success: false, error: '无效的范围，可选 all 或 cited' };
+  }
+  
+  const storedData = storage.getItem('academic_writing_references');
+  let references = storedData ? JSON.parse(storedData) : [];
+  let missing = [];
+  if (Array.isArray(keys) && keys.length > 0) {
+    const selection = selectCitedReferences(references, keys);
+    references = selection.references;
+    missing = selection.missing;
+  } else if (scope === 'cited') {
+    const files = options.files || { [MAIN_FILE]: editor_content || '' };
+    const selection = selectCitedReferences(references, collectCitationKeys(files));
+    references = selection.references;
+    missing = selection.missing;
+  }
+  
+  if (references.length === 0) {
+    return { success: false, error: '没有可列出的参考文献（库为空或引用键都不在库中）', data: { missing } };
+  }
+  
+  // 每条文献的文中引用形式（键 → 引用），便于在正文中按样式引用
+  const citations = {};
+  references.forEach((reference, index) => {
+    citations[reference.citationKey || reference.id] = formatCitation([reference], style, { numbers: [index + 1], markup: format });
+  });
+  
+  return {
+    success: true,
+    data: {
+      style,
+      format,
+      count: references.length,
+      missing,
+      citations,
+      content: formatBibliography(references, style, format)
+    }
+  };
+}
+
+// 检查正文引用与参考文献库是否一致
+function executeCheckCitations(editor_content, options, storage) {
+  const storedData = storage.getItem('academic_writing_references');
+  const references = storedData ? JSON.parse(storedData) : [];
+  const files = options.files || { [MAIN_FILE]: editor_content || '' };
+  const report = checkCitations(references, files);
+  
+  return {
+    success: true,
+    data: {
+      message: `正文引用 ${report.cited_count} 个键，库中缺少 ${report.missing.length} 个，未被引用的条目 ${report.uncited.length} 条，缺少引用键的条目 ${report.without_key.length} 条`,
+      ...report
+    }
+  };
+}
+
 module.exports = {
   AVAILABLE_TOOLS,
   executeTool,
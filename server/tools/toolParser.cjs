@@ -1,8 +1,10 @@
 /**
  * 工具解析模块 - 解析AI响应中的工具调用
  * 
- * 重要：每次只解析并返回第一个工具调用
- * 多个工具调用需要通过多次AI响应来完成
+ * 支持两种来源：
+ * - 原生 function calling：模型返回结构化的 tool_calls（parseNativeToolCalls）
+ * - 文本协议（回退）：从响应文本中解析 TOOL_CALL，每次只解析并返回第一个工具调用，
+ *   多个工具调用需要通过多次AI响应来完成
  */
 
 const { AVAILABLE_TOOLS } = require('./toolDefinitions.cjs');
@@ -87,6 +89,47 @@ function parseToolCalls(response) {
   return [];
 }
 
+// 解析模型原生返回的 tool_calls（OpenAI 格式，arguments 为 JSON 字符串）
+function parseNativeToolCalls(toolCalls) {
+  if (!Array.isArray(toolCalls)) {
+    return [];
+  }
+  
+  const result = [];
+  
+  for (const call of toolCalls) {
+    const toolName = call?.function?.name;
+    if (!toolName) {
+      continue;
+    }
+    
+    if (!AVAILABLE_TOOLS.some(tool => tool.name === toolName)) {
+      console.warn(`[ToolParser] 未知的工具名称: ${toolName}`);
+      continue;
+    }
+    
+    const toolCall = { id: call.id, tool_name: toolName, parameters: {} };
+    const args = call.function.arguments;
+    
+    if (args && typeof args === 'object') {
+      toolCall.parameters = args;
+    } else if (args && args.trim()) {
+      try {
+        toolCall.parameters = JSON.parse(args);
+      } catch (error) {
+        // 保留调用记录，由执行方返回参数错误给模型
+        console.warn(`[ToolParser] 工具 ${toolName} 的参数解析失败:`, error.message);
+        toolCall.parse_error = `工具参数不是有效的JSON: ${error.message}`;
+      }
+    }
+    
+    console.log(`[ToolParser] 解析到原生工具调用: ${toolName}`);
+    result.push(toolCall);
+  }
+  
+  return result;
+}
+
 // 从响应中提取工具调用之前的内容（截断工具调用后的部分）
 function extractContentBeforeToolCall(response) {
   if (!response || typeof response !== 'string') {
@@ -148,6 +191,7 @@ function hasToolCall(response) {
 
 module.exports = {
   parseToolCalls,
+  parseNativeToolCalls,
   extractContentBeforeToolCall,
   removeToolCallsFromResponse,
   hasToolCall
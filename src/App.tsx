@@ -1,48 +1,55 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import MonacoEditor from './components/MonacoEditor';
 import PreviewPanel from './components/PreviewPanel';
 import AgentChat from './components/AgentChat';
+import FileTree from './components/FileTree';
+import ProjectSwitcher from './components/ProjectSwitcher';
+import { ProposedChange } from './utils/diff';
+import { LintFinding } from './services/lintService';
+import { projectService } from './services/projectService';
+import { snapshotService } from './services/snapshotService';
+import { gitService } from './services/gitService';
+import { resolveIncludes } from './utils/latexProject';
 
 const STORAGE_KEYS = {
+  // 旧版保存在浏览器中的论文内容和对话记录，加载项目时迁移到当前项目
   EDITOR_CONTENT: 'auto_save_editor_content',
   MESSAGES: 'auto_save_messages',
   LAST_SAVE_TIME: 'auto_save_last_save_time'
 };
 
 function App() {
-  const [editorContent, setEditorContent] = useState<string>(`\\documentclass{article}
-\\usepackage{ctex}
-\\title{学术论文智能写作系统}
-\\author{作者}
-\\date{\\today}
-\\begin{document}
-\\maketitle
+  // 当前打开的项目（论文文件、对话记录和资源库都属于该项目）
+  const [projectId, setProjectId] = useState<string | null>(null);
+  // 项目文件内容（路径 → 内容），以服务端项目存储为准，编辑区显示当前文件
+  const [projectFiles, setProjectFiles] = useState<Record<string, string>>({});
+  const [mainFile, setMainFile] = useState<string>('main.tex');
+  const [activeFile, setActiveFile] = useState<string>('main.tex');
+  const [projectLoaded, setProjectLoaded] = useState<boolean>(false);
+  // 当前项目是否启用 Git（应用 Agent 修改后自动提交）
+  const [gitEnabled, setGitEnabled] = useState<boolean>(false);
+  // 各文件最近一次保存到服务端的内容，用于判断需要保存的文件
+  const savedFilesRef = useRef<Record<string, string>>({});
 
-\\section{引言}
-
-这是引言部分，介绍研究背景和意义。
-
-\\section{相关工作}
-
-这是相关工作部分，介绍已有的研究成果。
-
-\\section{方法}
-
-这是方法部分，介绍研究方法和实验设计。
-
-\\section{结论}
-
-这是结论部分，总结研究成果和未来工作。
-
-\\end{document}`);
+  const editorContent = projectFiles[activeFile] ?? '';
+  const setEditorContent = (content: string) => {
+    setProjectFiles(prev => ({ ...prev, [activeFile]: content }));
+  };
 
   const [messages, setMessages] = useState<any[]>([]);
+  // 当前对话（每个项目可以有多个对话，messages 为当前对话的消息）
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [sessionTitle, setSessionTitle] = useState<string>('');
+  // Agent 提出的待审阅修改（按顺序逐个在编辑区以差异视图展示）
+  const [pendingChanges, setPendingChanges] = useState<ProposedChange[]>([]);
+  const [revealTarget, setRevealTarget] = useState<{ line: number } | null>(null);
+  // 编辑区快速修复请求，由 Agent 面板使用当前模型处理
+  const [fixRequest, setFixRequest] = useState<LintFinding | null>(null);
   const [apiKey, setApiKey] = useState<string>('');
   const [lastSaveTime, setLastSaveTime] = useState<string>('');
   const [hasAutoSave, setHasAutoSave] = useState<boolean>(false);
   const [isFadingOut, setIsFadingOut] = useState<boolean>(false);
   const [apiKeyStatus, setApiKeyStatus] = useState<{ deepseek: boolean; qwen: boolean }>({ deepseek: false, qwen: false });
-  const [isInitialized, setIsInitialized] = useState<boolean>(false);
 
   const loadApiKey = (modelType: 'deepseek' | 'qwen'): string => {
     try {
@@ -105,25 +112,147 @@ function App() {
     }
   };
 
-  useEffect(() => {
-    const savedContent = localStorage.getItem(STORAGE_KEYS.EDITOR_CONTENT);
-    const savedMessages = localStorage.getItem(STORAGE_KEYS.MESSAGES);
-    const savedTime = localStorage.getItem(STORAGE_KEYS.LAST_SAVE_TIME);
-    const savedApiKeyStatus = localStorage.getItem('apiKeyStatus');
+  const toFileMap = (files: Array<{ path: string; content: string }>): Record<string, string> => {
+    const map: Record<string, string> = {};
+    files.forEach(file => {
+      map[file.path] = file.content;
+    });
+    return map;
+  };
 
-    let loadedMessages: any[] = [];
+  // 加载当前项目的文件和最近的对话，返回对话记录
+  const loadProject = async (): Promise<any[]> => {
+    const { active_project: id, projects } = await projectService.listProjects();
+    if (!id) {
+      throw new Error('没有打开的项目');
+    }
+    const [project, sessions] = await Promise.all([projectService.getProject(), projectService.listSessions(id)]);
+
+    const files = toFileMap(project.files);
+    savedFilesRef.current = { ...files };
 
-    if (savedContent) {
-      setEditorContent(savedContent);
+    // 旧版数据只迁移一次：论文内容写入主文件，对话记录在项目没有对话时作为一个对话导入
+    const legacyContent = localStorage.getItem(STORAGE_KEYS.EDITOR_CONTENT);
+    if (legacyContent && legacyContent !== files[project.main_file]) {
+      await projectService.saveFile(project.main_file, legacyContent);
+      files[project.main_file] = legacyContent;
+      savedFilesRef.current[project.main_file] = legacyContent;
+      console.log('[App] 已将浏览器中保存的论文内容迁移到项目主文件');
     }
-    if (savedMessages) {
+    localStorage.removeItem(STORAGE_KEYS.EDITOR_CONTENT);
+
+    let latest = sessions[0];
+    const legacyMessages = localStorage.getItem(STORAGE_KEYS.MESSAGES);
+    if (legacyMessages && !latest) {
       try {
-        loadedMessages = JSON.parse(savedMessages);
-        setMessages(loadedMessages);
+        latest = await projectService.createSession(id, { messages: JSON.parse(legacyMessages) });
       } catch (error) {
-        console.error('加载对话历史失败:', error);
+        console.error('迁移对话历史失败:', error);
+      }
+    }
+    localStorage.removeItem(STORAGE_KEYS.MESSAGES);
+
+    // 打开最近更新的对话，没有对话时新建
+    const session = await projectService.getSession(id, (latest ?? await projectService.createSession(id)).id);
+    const loadedMessages = session.messages;
+
+    setProjectId(id);
+    setSessionId(session.id);
+    setSessionTitle(session.title);
+    setGitEnabled(Boolean(projects.find(project => project.id === id)?.use_git));
+    setProjectFiles(files);
+    setMainFile(project.main_file);
+    setActiveFile(project.main_file);
+    setMessages(loadedMessages);
+    setPendingChanges([]);
+    setRevealTarget(null);
+    setFixRequest(null);
+    setProjectLoaded(true);
+    return loadedMessages;
+  };
+
+  // 保存内容有变化的文件，返回是否保存了文件
+  const saveProjectFiles = async (files: Record<string, string>): Promise<boolean> => {
+    const changed = Object.entries(files).filter(([path, content]) => savedFilesRef.current[path] !== content);
+    if (changed.length === 0) return false;
+
+    try {
+      for (const [path, content] of changed) {
+        await projectService.saveFile(path, content);
+        savedFilesRef.current[path] = content;
       }
+      return true;
+    } catch (error) {
+      console.error('[App] 保存项目文件失败:', error);
+      return false;
+    }
+  };
+
+  // 切换文件前先保存当前改动（Agent、编译和检查从服务端读取其他文件）
+  const openFile = (path: string) => {
+    if (path === activeFile) return;
+    saveProjectFiles(projectFiles);
+    setActiveFile(path);
+  };
+
+  // 保存当前对话的消息（未命名的对话标题随第一条用户消息更新）
+  const saveSessionMessages = async () => {
+    if (!projectId || !sessionId) return;
+    try {
+      const session = await projectService.updateSession(projectId, sessionId, { messages });
+      setSessionTitle(session.title);
+    } catch (error) {
+      console.error('[App] 保存对话记录失败:', error);
+    }
+  };
+
+  // 切换对话：先保存当前对话
+  const openSession = async (id: string) => {
+    if (!projectId || id === sessionId) return;
+    await saveSessionMessages();
+    try {
+      const session = await projectService.getSession(projectId, id);
+      setSessionId(session.id);
+      setSessionTitle(session.title);
+      setMessages(session.messages);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '打开对话失败');
     }
+  };
+
+  // 从某条消息分叉出新对话并打开
+  const forkSession = async (messageIndex: number) => {
+    if (!projectId || !sessionId) return;
+    try {
+      await saveSessionMessages();
+      const forked = await projectService.forkSession(projectId, sessionId, messageIndex);
+      await openSession(forked.id);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '分叉对话失败');
+    }
+  };
+
+  // 切换项目：先保存当前项目的文件和对话，再打开新项目
+  const switchProject = async (id: string) => {
+    if (id === projectId) return;
+
+    setProjectLoaded(false);
+    await saveProjectFiles(projectFiles);
+    await saveSessionMessages();
+
+    try {
+      await projectService.activateProject(id);
+      await loadProject();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '切换项目失败');
+      setProjectLoaded(true);
+    }
+  };
+
+  useEffect(() => {
+    const savedTime = localStorage.getItem(STORAGE_KEYS.LAST_SAVE_TIME);
+    const savedApiKeyStatus = localStorage.getItem('apiKeyStatus');
+
     if (savedTime) {
       setLastSaveTime(savedTime);
       setHasAutoSave(true);
@@ -137,13 +266,23 @@ function App() {
       }
     }
     
-    checkApiKeyStatus(loadedMessages);
-    setIsInitialized(true);
+    loadProject()
+      .then(loadedMessages => checkApiKeyStatus(loadedMessages))
+      .catch(error => {
+        console.error('[App] 加载项目失败:', error);
+        checkApiKeyStatus([]);
+        setMessages(prev => [...prev, {
+          role: 'agent',
+          content: '⚠️ 无法加载论文项目，请运行 `node server/index.cjs` 启动后端后刷新页面。'
+        }]);
+      });
   }, []);
 
   useEffect(() => {
-    const saveTimer = setTimeout(() => {
-      localStorage.setItem(STORAGE_KEYS.EDITOR_CONTENT, editorContent);
+    if (!projectLoaded) return;
+
+    const saveTimer = setTimeout(async () => {
+      if (!(await saveProjectFiles(projectFiles))) return;
       const now = new Date();
       const timeStr = now.toLocaleString('zh-CN');
       localStorage.setItem(STORAGE_KEYS.LAST_SAVE_TIME, timeStr);
@@ -159,17 +298,144 @@ function App() {
     }, 2000);
 
     return () => clearTimeout(saveTimer);
-  }, [editorContent]);
+  }, [projectFiles, projectLoaded]);
 
+  // 对话记录保存到当前对话（流式输出时合并为一次保存）
   useEffect(() => {
-    if (messages.length > 0 && isInitialized) {
-      localStorage.setItem(STORAGE_KEYS.MESSAGES, JSON.stringify(messages));
+    if (messages.length === 0 || !projectLoaded || !projectId || !sessionId) return;
+
+    const saveTimer = setTimeout(() => {
+      saveSessionMessages();
       const now = new Date();
       const timeStr = now.toLocaleString('zh-CN');
       localStorage.setItem(STORAGE_KEYS.LAST_SAVE_TIME, timeStr);
       setLastSaveTime(timeStr);
+    }, 1000);
+
+    return () => clearTimeout(saveTimer);
+  }, [messages, projectId, sessionId, projectLoaded]);
+
+  // 先保存当前改动，在服务端修改项目文件（恢复快照、切换分支）后重新加载
+  const replaceProjectFiles = async (action: () => Promise<unknown>) => {
+    setProjectLoaded(false);
+    try {
+      await saveProjectFiles(projectFiles);
+      await action();
+      const project = await projectService.getProject();
+      const files = toFileMap(project.files);
+      savedFilesRef.current = { ...files };
+      setProjectFiles(files);
+      setPendingChanges([]);
+      if (files[activeFile] === undefined) {
+        setActiveFile(project.main_file);
+      }
+    } finally {
+      setProjectLoaded(true);
+    }
+  };
+
+  // 恢复到快照（服务端恢复前会为当前内容创建快照）
+  const restoreSnapshot = (id: string) => replaceProjectFiles(() => snapshotService.restore(id));
+
+  // 切换或新建 Git 分支（服务端切换前会提交未提交的修改）
+  const checkoutBranch = (branch: string, create: boolean) =>
+    replaceProjectFiles(() => (create ? gitService.createBranch(branch) : gitService.checkout(branch)));
+
+  // 启用 Git 前先保存，初始提交包含当前内容
+  const toggleGit = async (enabled: boolean) => {
+    if (enabled) {
+      await saveProjectFiles(projectFiles);
+      await gitService.enable();
+    } else {
+      await gitService.disable();
+    }
+    setGitEnabled(enabled);
+  };
+
+  // 应用 Agent 修改前为当前内容创建快照（内容与最近一次快照相同时服务端不会重复创建）
+  // 启用 Git 时，应用后保存文件并提交，提交说明概括 Agent 请求
+  const applyAgentChange = (content: string) => {
+    const source = pendingChange?.source === 'write' ? '撰写模式回复' : 'Agent 编辑';
+    snapshotService.create({ type: 'agent', name: `${source} · ${activeFile}`, files: projectFiles })
+      .catch(error => console.error('[App] 创建快照失败:', error));
+
+    const nextFiles = { ...projectFiles, [activeFile]: content };
+    setProjectFiles(nextFiles);
+    if (gitEnabled) {
+      const message = gitService.agentCommitMessage(activeFile, pendingChange?.request);
+      saveProjectFiles(nextFiles)
+        .then(() => gitService.commit(message))
+        .catch(error => console.error('[App] Git 提交失败:', error));
+    }
+  };
+
+  // 待审阅的修改属于其他文件时切换到该文件（文件已被删除或重命名时放弃该修改）
+  const pendingChange = pendingChanges[0] ?? null;
+  useEffect(() => {
+    if (!pendingChange?.file || pendingChange.file === activeFile) return;
+    if (projectFiles[pendingChange.file] === undefined) {
+      setPendingChanges(prev => prev.slice(1));
+    } else {
+      openFile(pendingChange.file);
+    }
+  }, [pendingChange, activeFile]);
+
+  const reviewingChange = pendingChange && (!pendingChange.file || pendingChange.file === activeFile) ? pendingChange : null;
+
+  // 编译错误等跳转：先打开对应文件
+  const revealLine = (line: number, file?: string) => {
+    if (file && projectFiles[file] !== undefined) {
+      openFile(file);
+    }
+    setRevealTarget({ line });
+  };
+
+  const handleCreateFile = async (path: string) => {
+    try {
+      const result = await projectService.createFile(path);
+      savedFilesRef.current[result.path] = '';
+      setProjectFiles(prev => ({ ...prev, [result.path]: '' }));
+      openFile(result.path);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '新建文件失败');
+    }
+  };
+
+  const handleRenameFile = async (from: string, to: string) => {
+    try {
+      const result = await projectService.renameFile(from, to);
+      const { [from]: savedContent, ...savedRest } = savedFilesRef.current;
+      savedFilesRef.current = { ...savedRest, [result.path]: savedContent };
+      setProjectFiles(prev => {
+        const { [from]: content, ...rest } = prev;
+        return { ...rest, [result.path]: content };
+      });
+      if (activeFile === from) {
+        setActiveFile(result.path);
+      }
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '重命名文件失败');
     }
-  }, [messages, isInitialized]);
+  };
+
+  const handleDeleteFile = async (path: string) => {
+    try {
+      await projectService.deleteFile(path);
+      delete savedFilesRef.current[path];
+      setProjectFiles(prev => {
+        const { [path]: _removed, ...rest } = prev;
+        return rest;
+      });
+      if (activeFile === path) {
+        setActiveFile(mainFile);
+      }
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '删除文件失败');
+    }
+  };
+
+  // 预览从主文件开始展开 \input / \include
+  const previewContent = useMemo(() => resolveIncludes(projectFiles, mainFile).content, [projectFiles, mainFile]);
 
   const clearAutoSave = () => {
     localStorage.removeItem(STORAGE_KEYS.EDITOR_CONTENT);
@@ -192,29 +458,67 @@ function App() {
       
       {/* 左侧预览面板 */}
       <PreviewPanel 
-        content={editorContent}
+        key={projectId || 'none'}
+        content={previewContent}
         editorContent={editorContent}
         onUpdateContent={setEditorContent}
         messages={messages}
         setMessages={setMessages}
         onApiKeyChange={setApiKey}
         apiKeyStatus={apiKeyStatus}
+        onRevealLine={revealLine}
+        activeFile={activeFile}
+        projectFiles={projectFiles}
+        onRestoreSnapshot={restoreSnapshot}
+        chatSessionTitle={sessionTitle}
+        gitEnabled={gitEnabled}
+        onToggleGit={toggleGit}
+        onCheckoutBranch={checkoutBranch}
+        onModifyProjectFiles={replaceProjectFiles}
       />
       
       {/* 中间编辑面板 */}
       <MonacoEditor 
         content={editorContent} 
         onChange={setEditorContent} 
+        pendingChange={reviewingChange}
+        onResolveChange={() => setPendingChanges(prev => prev.slice(1))}
+        onApplyChange={applyAgentChange}
+        revealTarget={revealTarget}
+        onFixWithAgent={(finding) => setFixRequest({ ...finding })}
+        file={activeFile}
+        sidebar={
+          <FileTree
+            files={Object.keys(projectFiles)}
+            mainFile={mainFile}
+            activeFile={activeFile}
+            onOpen={openFile}
+            onCreate={handleCreateFile}
+            onRename={handleRenameFile}
+            onDelete={handleDeleteFile}
+            header={<ProjectSwitcher activeProjectId={projectId} onSwitch={switchProject} />}
+          />
+        }
       />
       
       {/* 右侧Agent对话面板 */}
       <AgentChat 
+        key={projectId || 'none'}
+        projectId={projectId || undefined}
+        sessionId={sessionId}
+        sessionTitle={sessionTitle}
+        onSwitchSession={openSession}
+        onForkSession={forkSession}
         editorContent={editorContent} 
         onUpdateContent={setEditorContent}
+        onProposeChange={(change) => setPendingChanges(prev => [...prev, change])}
         messages={messages}
         setMessages={setMessages}
         apiKey={apiKey}
         onApiKeyChange={setApiKey}
+        fixRequest={fixRequest}
+        activeFile={activeFile}
+        projectFiles={projectFiles}
       />
     </div>
   );
@@ -1,27 +1,45 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import { agentService } from '../services/agentService';
+import { agentService, isAbortError, ModelInfo, ContextBudgetReport, EditChange } from '../services/agentService';
+import { ProposedChange } from '../utils/diff';
+import { BranchableMessage, createBranch, switchBranch, withoutBranches } from '../utils/chatBranches';
+import { lintService, LintFinding } from '../services/lintService';
+import { projectService } from '../services/projectService';
+import ChatSessionBar from './ChatSessionBar';
 
 interface AgentChatProps {
   editorContent: string;
   onUpdateContent: (content: string) => void;
+  onProposeChange?: (change: ProposedChange) => void;  // 提交 Agent 修改供用户审阅，未提供时直接更新编辑器
   messages?: Message[];
   setMessages?: (messages: Message[]) => void;
   apiKey?: string;
   onApiKeyChange?: (key: string) => void;
+  fixRequest?: LintFinding | null;  // 编辑区快速修复发来的检查问题（每次传入新对象）
+  activeFile?: string;  // 当前编辑的项目文件，editorContent 为该文件的内容
+  projectFiles?: Record<string, string>;  // 项目文件内容，用于生成其他文件修改的审阅
+  projectId?: string;  // 当前项目，工具使用历史保存到该项目
+  sessionId?: string | null;  // 当前对话，messages 为该对话的消息
+  sessionTitle?: string;
+  onSwitchSession?: (id: string) => void;
+  onForkSession?: (messageIndex: number) => void;  // 从某条消息分叉出新对话
 }
 
-interface Message {
+interface Message extends BranchableMessage {
   role: 'user' | 'agent';
   content: string;
-  reasoning?: string;  // DeepSeek Reasoner 的思考过程
+  reasoning?: string;  // 思考模型的思考过程
+  notice?: string;  // 上下文裁剪说明
   tool_calls?: ToolCall[];
   tool_results?: ToolResult[];
   isStreaming?: boolean;
+  cancelled?: boolean;  // 用户点击停止时中断的消息
+  model?: string;  // 生成该回复的模型
 }
 
 interface ToolCall {
+  id?: string;
   tool_name: string;
   parameters: Record<string, any>;
 }
@@ -32,6 +50,39 @@ interface ToolResult {
   error?: string;
 }
 
+// 根据上下文预算报告生成裁剪说明，没有裁剪时返回 undefined
+function buildBudgetNotice(budget?: ContextBudgetReport): string | undefined {
+  if (!budget) return undefined;
+
+  const parts: string[] = [];
+  if (budget.dropped_turns > 0) {
+    parts.push(`较早的 ${budget.dropped_turns} 条对话已压缩为摘要`);
+  }
+  if (budget.dropped_sections.length > 0) {
+    parts.push(`论文中 ${budget.dropped_sections.length} 个章节未发送（${budget.dropped_sections.join('、')}）`);
+  }
+  if (budget.truncated_tool_results > 0) {
+    parts.push(`${budget.truncated_tool_results} 个过长的工具结果已截断`);
+  }
+  if (budget.omitted_tool_results > 0) {
+    parts.push(`${budget.omitted_tool_results} 个较早的工具结果已省略`);
+  }
+  if (budget.over_budget) {
+    parts.push('裁剪后仍可能超出模型上下文窗口');
+  }
+  if (parts.length === 0) return undefined;
+
+  return `内容超出模型上下文窗口（${budget.context_window} tokens）：${parts.join('；')}`;
+}
+
+// 将 edit_file 的修改范围格式化为行号说明
+function formatEditChanges(changes: EditChange[]): string {
+  return changes.map(change => change.new_end_line !== null
+    ? `第 ${change.new_start_line}${change.new_end_line > change.new_start_line ? `-${change.new_end_line}` : ''} 行`
+    : `删除原第 ${change.old_start_line}${change.old_end_line && change.old_end_line > change.old_start_line ? `-${change.old_end_line}` : ''} 行`
+  ).join('，');
+}
+
 interface ToolHistoryEntry {
   id: string;
   timestamp: string;
@@ -43,23 +94,42 @@ interface ToolHistoryEntry {
 const AgentChat: React.FC<AgentChatProps> = ({ 
   editorContent, 
   onUpdateContent,
+  onProposeChange,
   messages = [],
-  setMessages
+  setMessages,
+  fixRequest,
+  activeFile,
+  projectFiles = {},
+  projectId,
+  sessionId = null,
+  sessionTitle = '',
+  onSwitchSession,
+  onForkSession
 }) => {
   const [input, setInput] = useState<string>('');
   const [writingMode, setWritingMode] = useState<'discuss' | 'write'>('discuss');
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [model, setModel] = useState<'deepseek' | 'deepseek-reasoner' | 'qwen'>('deepseek');
+  // 当前请求的取消控制器（点击停止时中止请求，服务端随之取消模型调用和工具执行）
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [model, setModel] = useState<string>('deepseek');
+  const [models, setModels] = useState<ModelInfo[]>([]);
   const [toolHistory, setToolHistory] = useState<ToolHistoryEntry[]>([]);
   const [showToolHistory, setShowToolHistory] = useState<boolean>(false);
+  // 工具历史从项目加载完成前不保存，避免覆盖已有记录
+  const toolHistoryLoadedRef = useRef<boolean>(false);
   const [currentApiKey, setCurrentApiKey] = useState<string>('');
   const [expandedToolResults, setExpandedToolResults] = useState<Record<string, boolean>>({});
   const [expandedReasoning, setExpandedReasoning] = useState<Record<string, boolean>>({});
+  // 正在编辑的用户消息（编辑后从该消息重新发送）
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [editingText, setEditingText] = useState<string>('');
+
+  const currentModel = models.find(m => m.id === model);
 
-  const loadApiKey = (modelType: 'deepseek' | 'deepseek-reasoner' | 'qwen'): string => {
+  // API Key 按服务商保存（apiKey_deepseek、apiKey_qwen）
+  const loadApiKey = (provider: string): string => {
     try {
-      const storageKey = modelType === 'deepseek-reasoner' ? 'deepseek' : modelType;
-      const savedApiKey = localStorage.getItem(`apiKey_${storageKey}`);
+      const savedApiKey = localStorage.getItem(`apiKey_${provider}`);
       if (savedApiKey) {
         if (savedApiKey.length > 20 && /^[A-Za-z0-9+/]*={0,2}$/.test(savedApiKey)) {
           try {
@@ -82,210 +152,199 @@ const AgentChat: React.FC<AgentChatProps> = ({
     return '';
   };
 
+  // 从后端获取可用模型列表
   useEffect(() => {
-    const loadedKey = loadApiKey(model);
+    agentService.getModels()
+      .then(list => {
+        setModels(list);
+        if (list.length > 0 && !list.some(m => m.id === model)) {
+          setModel(list[0].id);
+        }
+      })
+      .catch(error => console.error('[AgentChat] 获取模型列表失败:', error));
+  }, []);
+
+  // 加载当前项目的工具使用历史
+  useEffect(() => {
+    if (!projectId) return;
+    projectService.getChat(projectId)
+      .then(chat => {
+        setToolHistory(chat.tool_history);
+        toolHistoryLoadedRef.current = true;
+      })
+      .catch(error => console.error('[AgentChat] 加载工具使用历史失败:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!projectId || !toolHistoryLoadedRef.current) return;
+    projectService.saveChat(projectId, { tool_history: toolHistory })
+      .catch(error => console.error('[AgentChat] 保存工具使用历史失败:', error));
+  }, [toolHistory]);
+
+  useEffect(() => {
+    const loadedKey = currentModel ? loadApiKey(currentModel.provider) : '';
     setCurrentApiKey(loadedKey);
-  }, [model]);
+  }, [currentModel]);
+
+  // 获取模型对应服务商的 API Key，未配置时提示并返回 null
+  const ensureApiKey = (modelId: string): string | null => {
+    const modelInfo = models.find(m => m.id === modelId);
+    const key = modelId === model ? currentApiKey : (modelInfo ? loadApiKey(modelInfo.provider) : '');
+    if (modelInfo?.requiresApiKey !== false && !key.trim()) {
+      setMessages?.([...messages, {
+        role: 'agent',
+        content: '请先配置API Key'
+      }]);
+      return null;
+    }
+    return key;
+  };
 
   const handleSend = async () => {
     if (!input.trim()) return;
-    if (!currentApiKey.trim()) {
-      if (setMessages) {
-        setMessages([...messages, {
-          role: 'agent',
-          content: '请先配置API Key'
-        }]);
-      }
-      return;
-    }
+    const turnApiKey = ensureApiKey(model);
+    if (turnApiKey === null) return;
 
-    let currentEditorContent = editorContent;
-    
-    // 添加用户消息
-    const userMessage: Message = { role: 'user', content: input };
-    let updatedMessages = [...messages, userMessage];
-    if (setMessages) {
-      setMessages(updatedMessages);
-    }
     setInput('');
+    await runAgentTurn([...messages, { role: 'user', content: input }], model, turnApiKey);
+  };
+
+  /**
+   * 运行一轮 Agent：history 以用户消息结尾，回复追加在其后
+   * 重新生成、编辑后重新发送时 history 为创建分支后的消息，turnModel 可以与当前选择的模型不同
+   */
+  const runAgentTurn = async (history: Message[], turnModel: string, turnApiKey: string) => {
+    const userMessage = history[history.length - 1];
+    let updatedMessages = history;
+    const updateMessages = (newMessages: Message[]) => {
+      updatedMessages = newMessages;
+      if (setMessages) setMessages(newMessages);
+    };
+    // 更新最后一条Agent消息
+    const updateLastAgentMessage = (update: (msg: Message) => Message) => {
+      const lastIndex = updatedMessages.length - 1;
+      if (updatedMessages[lastIndex]?.role !== 'agent') return;
+      const newMessages = [...updatedMessages];
+      newMessages[lastIndex] = update(newMessages[lastIndex]);
+      updateMessages(newMessages);
+    };
+    
+    updateMessages(updatedMessages);
     setIsLoading(true);
+    
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    // Agent 修改后的论文内容，运行结束后交由用户审阅，不直接写入编辑器
+    const originalContent = editorContent;
+    let currentEditorContent = editorContent;
+    let changeSource: ProposedChange['source'] = 'edit_file';
+    // Agent 修改的其他项目文件（路径 → 修改后的内容）
+    const otherFileChanges: Record<string, string> = {};
 
     try {
-      const MAX_TOOL_ITERATIONS = 10;
-      let iterationCount = 0;
+      let currentToolCall: ToolCall | null = null;
       
-      // DeepSeek 和 DeepSeek Reasoner 使用流式输出
-      // Qwen 使用普通输出
-      const useStreaming = model === 'deepseek' || model === 'deepseek-reasoner';
-      
-      // 发送初始请求
-      let agentResponse = await sendAgentRequest(
-        currentEditorContent, 
-        input, 
-        updatedMessages, 
-        useStreaming,
-        (newMessages) => {
-          updatedMessages = newMessages;
-          if (setMessages) setMessages(newMessages);
+      // 先上传论文内容到后端缓存，获取 contentId
+      let contentId: string | undefined;
+      try {
+        if (editorContent && editorContent.length > 0) {
+          const cacheResult = await agentService.storeContent(editorContent);
+          contentId = cacheResult.contentId;
         }
-      );
+      } catch (cacheError) {
+        console.warn('[AgentChat] 内容缓存失败，将直接发送内容:', cacheError);
+      }
       
-      // 处理工具调用循环（每次只处理一个工具）
-      while (agentResponse.tool_calls && agentResponse.tool_calls.length > 0 && iterationCount < MAX_TOOL_ITERATIONS) {
-        iterationCount++;
-        
-        // 只取第一个工具调用（后端已确保只返回一个）
-        const toolCall = agentResponse.tool_calls[0];
-        console.log(`[AgentChat] 工具调用迭代 ${iterationCount}: ${toolCall.tool_name}`);
-        
-        // 更新最后一条消息的工具调用信息
-        const lastIndex = updatedMessages.length - 1;
-        if (updatedMessages[lastIndex]?.role === 'agent') {
-          updatedMessages[lastIndex] = {
-            ...updatedMessages[lastIndex],
-            tool_calls: [toolCall]
-          };
-          if (setMessages) setMessages([...updatedMessages]);
-        }
-        
-        // 执行单个工具调用（带超时）
-        const TOOL_TIMEOUT = 30000; // 30秒超时
-        let result: ToolResult;
-        
-        try {
-          console.log(`[AgentChat] 执行工具: ${toolCall.tool_name}`);
-          
-          result = await Promise.race([
-            agentService.executeToolCall(
-              toolCall.tool_name,
-              toolCall.parameters,
-              currentEditorContent
-            ),
-            new Promise<ToolResult>((_, reject) => 
-              setTimeout(() => reject(new Error(`工具 ${toolCall.tool_name} 执行超时 (${TOOL_TIMEOUT/1000}秒)`)), TOOL_TIMEOUT)
-            )
-          ]);
-          
-          console.log(`[AgentChat] 工具 ${toolCall.tool_name} 执行完成:`, result.success ? '成功' : '失败');
-        } catch (error) {
-          console.error(`[AgentChat] 工具 ${toolCall.tool_name} 执行失败:`, error);
-          result = {
-            success: false,
-            error: error instanceof Error ? error.message : '工具执行失败'
-          };
-        }
-        
-        // 如果是编辑文件工具，更新编辑器内容
-        if (result.success && toolCall.tool_name === 'edit_file' && result.data?.content) {
-          currentEditorContent = result.data.content;
-          onUpdateContent(currentEditorContent);
-        }
-        
-        // 创建工具历史记录
-        const historyEntry: ToolHistoryEntry = {
-          id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
-          timestamp: new Date().toISOString(),
-          tool_name: toolCall.tool_name,
-          parameters: toolCall.parameters,
-          result: result
-        };
-        
-        const toolResults = [result];
-        const newToolHistoryEntries = [historyEntry];
-        
-        // 保存工具历史
-        if (newToolHistoryEntries.length > 0) {
-          setToolHistory(prev => [...prev, ...newToolHistoryEntries]);
-        }
-        
-        // 更新最后一条消息的工具结果
-        if (updatedMessages[lastIndex]?.role === 'agent') {
-          updatedMessages[lastIndex] = {
-            ...updatedMessages[lastIndex],
-            tool_results: toolResults
-          };
-          if (setMessages) setMessages([...updatedMessages]);
-        }
-        
-        // 发送后续请求，让AI根据工具结果继续回答
-        // 根据工具类型格式化结果
-        let formattedResult: any = {
-          tool: toolCall.tool_name,
-          success: result.success,
-          error: result.success ? undefined : result.error
-        };
-        
-        if (result.success && result.data) {
-          // 针对不同工具类型，提供完整的关键信息
-          if (toolCall.tool_name === 'search_papers' && result.data.papers) {
-            // 搜索论文：显示完整的论文信息，包括 arxiv_id（下载必需）
-            formattedResult.count = result.data.count;
-            formattedResult.papers = result.data.papers.map((p: any) => ({
-              arxiv_id: p.arxiv_id,  // 关键：下载需要这个ID
-              title: p.title,
-              authors: p.authors?.slice(0, 3).join(', ') + (p.authors?.length > 3 ? '等' : ''),
-              published: p.published?.split('T')[0],
-              abstract: p.abstract?.substring(0, 200) + '...'
+      // 工具调用循环由服务端执行，这里只根据事件更新界面
+      await agentService.runAgent({
+        contentId,
+        content: contentId ? undefined : editorContent,
+        input: userMessage.content,
+        mode: writingMode,
+        model: turnModel,
+        apiKey: turnApiKey,
+        messages: updatedMessages.map(withoutBranches),
+        activeFile,
+        projectId
+      }, (event) => {
+        switch (event.type) {
+          case 'message_start':
+            updateMessages([...updatedMessages, {
+              role: 'agent',
+              content: '',
+              reasoning: '',
+              notice: buildBudgetNotice(event.budget),
+              model: turnModel,
+              isStreaming: true
+            }]);
+            break;
+          case 'chunk':
+            updateLastAgentMessage(msg => ({
+              ...msg,
+              content: msg.content + (event.content || ''),
+              reasoning: (msg.reasoning || '') + (event.reasoning_content || '')
             }));
-          } else if (toolCall.tool_name === 'download_paper') {
-            // 下载论文：显示下载结果
-            formattedResult.message = result.data.message;
-            formattedResult.filename = result.data.filename;
-            formattedResult.resource_id = result.data.resource_id;
-          } else if (toolCall.tool_name === 'read_pdf_content') {
-            // 读取PDF：显示完整文本内容（AI需要分析全文）
-            formattedResult.name = result.data.name;
-            formattedResult.text_length = result.data.text?.length || 0;
-            formattedResult.text_stats = result.data.text_stats;
-            // 完整文本，但限制最大长度避免超出 token 限制
-            const MAX_TEXT_LENGTH = 40000; // 约 13000 个中文字或 40000 英文字符
-            if (result.data.text && result.data.text.length > MAX_TEXT_LENGTH) {
-              formattedResult.text = result.data.text.substring(0, MAX_TEXT_LENGTH);
-              formattedResult.truncated = true;
-              formattedResult.truncated_message = `文本过长，已截取前 ${MAX_TEXT_LENGTH} 字符（共 ${result.data.text.length} 字符）`;
-            } else {
-              formattedResult.text = result.data.text;
-              formattedResult.truncated = false;
-            }
-          } else if (toolCall.tool_name === 'list_resources') {
-            // 列出资源：显示资源列表
-            formattedResult.count = result.data.count;
-            formattedResult.resources = result.data.resources?.map((r: any) => ({
-              id: r.id,
-              name: r.name,
-              type: result.data.resource_type
+            break;
+          case 'message_complete':
+            updateLastAgentMessage(msg => ({
+              ...msg,
+              content: event.content || '',
+              reasoning: event.reasoning,
+              tool_calls: event.tool_calls,
+              isStreaming: false
             }));
-          } else {
-            // 其他工具：显示完整数据（限制长度）
-            formattedResult.data = result.data;
+            break;
+          case 'tool_call':
+            currentToolCall = event.tool_call || null;
+            break;
+          case 'tool_result': {
+            const result = event.result;
+            if (!result) break;
+            // 一条消息可能包含多个原生工具调用，结果按调用顺序追加
+            updateLastAgentMessage(msg => ({ ...msg, tool_results: [...(msg.tool_results || []), result] }));
+            const toolCall = event.tool_call || currentToolCall;
+            const historyEntry: ToolHistoryEntry = {
+              id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+              timestamp: new Date().toISOString(),
+              tool_name: event.tool_name || toolCall?.tool_name || '',
+              parameters: toolCall?.parameters || {},
+              result
+            };
+            setToolHistory(prev => [...prev, historyEntry]);
+            break;
           }
+          case 'content_update':
+            // 编辑文件工具修改了论文内容（服务端后续步骤基于修改后的内容继续）
+            if (typeof event.content !== 'string') break;
+            if (event.file && event.file !== activeFile) {
+              otherFileChanges[event.file] = event.content;
+            } else {
+              currentEditorContent = event.content;
+            }
+            break;
         }
-        
-        const followUpInput = `工具 "${toolCall.tool_name}" 执行结果：\n${JSON.stringify(formattedResult, null, 2)}\n\n请基于工具执行结果继续回答用户的问题。如果需要下载论文，请使用论文的 arxiv_id 调用 download_paper 工具。每次只能调用一个工具。`;
-        
-        console.log(`[AgentChat] 发送后续请求...`);
-        
-        agentResponse = await sendAgentRequest(
-          currentEditorContent,
-          followUpInput,
-          updatedMessages,
-          useStreaming,
-          (newMessages) => {
-            updatedMessages = newMessages;
-            if (setMessages) setMessages(newMessages);
-          }
-        );
-        
-        console.log(`[AgentChat] 后续请求完成，新工具调用: ${agentResponse.tool_calls?.length || 0}`);
-      }
+      }, abortController.signal);
       
-      // 如果是撰写模式，将AI回复添加到编辑器
+      // 如果是撰写模式，将AI回复追加到论文末尾（同样需要审阅）
       const lastMessage = updatedMessages[updatedMessages.length - 1];
       if (writingMode === 'write' && lastMessage?.role === 'agent' && lastMessage.content) {
-        onUpdateContent(currentEditorContent + '\n' + lastMessage.content);
+        currentEditorContent = currentEditorContent + '\n' + lastMessage.content;
+        changeSource = 'write';
       }
       
     } catch (error) {
+      // 用户点击停止：保留已生成的部分内容，并标记为已取消
+      if (isAbortError(error)) {
+        const lastIndex = updatedMessages.length - 1;
+        updateMessages(updatedMessages.map((msg, index) => 
+          msg.isStreaming || (index === lastIndex && msg.role === 'agent')
+            ? { ...msg, isStreaming: false, cancelled: true }
+            : msg
+        ));
+        return;
+      }
+      
       console.error('AI响应失败:', error);
       
       let errorContent = '❌ **处理失败**\n\n';
@@ -302,9 +361,9 @@ const AgentChat: React.FC<AgentChatProps> = ({
           // 添加调试信息
           errorContent += `---\n\n**🔍 调试信息**\n`;
           errorContent += `- 时间: ${new Date().toLocaleString('zh-CN')}\n`;
-          errorContent += `- 模型: ${model}\n`;
+          errorContent += `- 模型: ${turnModel}\n`;
           errorContent += `- 模式: ${writingMode === 'discuss' ? '讨论' : '撰写'}\n`;
-          errorContent += `- API Key: ${currentApiKey ? '已配置 (' + currentApiKey.substring(0, 8) + '...)' : '未配置'}\n`;
+          errorContent += `- API Key: ${turnApiKey ? '已配置 (' + turnApiKey.substring(0, 8) + '...)' : '未配置'}\n`;
           
           // 针对性建议
           if (error.message.includes('网络') || error.message.includes('fetch') || error.message.includes('Failed to fetch')) {
@@ -334,108 +393,133 @@ const AgentChat: React.FC<AgentChatProps> = ({
       
       const errorMessage: Message = { role: 'agent', content: errorContent };
       if (setMessages) {
-        setMessages([...updatedMessages, errorMessage]);
+        setMessages([
+          ...updatedMessages.map(msg => msg.isStreaming ? { ...msg, isStreaming: false } : msg),
+          errorMessage
+        ]);
       }
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
+      
+      // 取消或出错前已产生的修改同样提交审阅
+      if (currentEditorContent !== originalContent) {
+        if (onProposeChange) {
+          onProposeChange({ original: originalContent, proposed: currentEditorContent, source: changeSource, file: activeFile, request: userMessage.content });
+        } else {
+          onUpdateContent(currentEditorContent);
+        }
+      }
+      // 其他文件的修改逐个提交审阅（审阅时编辑区切换到对应文件）
+      Object.entries(otherFileChanges).forEach(([file, proposed]) => {
+        const original = projectFiles[file];
+        if (onProposeChange && original !== undefined && proposed !== original) {
+          onProposeChange({ original, proposed, source: 'edit_file', file, request: userMessage.content });
+        }
+      });
     }
   };
 
-  // 封装发送请求的逻辑
-  const sendAgentRequest = async (
-    content: string,
-    inputText: string,
-    currentMessages: Message[],
-    useStreaming: boolean,
-    onMessagesUpdate: (messages: Message[]) => void
-  ) => {
-    // 先上传论文内容到后端缓存，获取 contentId
-    let contentId: string | undefined;
+  // 回复所在一轮的用户消息位置
+  const findTurnStart = (index: number): number => {
+    for (let i = index - 1; i >= 0; i--) {
+      if (messages[i].role === 'user') return i;
+    }
+    return -1;
+  };
+
+  // 重新生成（或重试）index 处回复所在的一轮：从该轮的用户消息创建新分支，可指定本次使用的模型
+  const handleRegenerate = (index: number, turnModel: string = model) => {
+    const userIndex = findTurnStart(index);
+    if (userIndex === -1 || isLoading) return;
+    const turnApiKey = ensureApiKey(turnModel);
+    if (turnApiKey === null) return;
+
+    const branched = createBranch(messages, userIndex, [{ role: 'user', content: messages[userIndex].content }]);
+    runAgentTurn(branched, turnModel, turnApiKey);
+  };
+
+  // 编辑用户消息后从该消息重新发送，原来的对话保留为分支
+  const handleEditResend = (index: number) => {
+    const content = editingText.trim();
+    if (!content || isLoading) return;
+    const turnApiKey = ensureApiKey(model);
+    if (turnApiKey === null) return;
+
+    setEditingIndex(null);
+    runAgentTurn(createBranch(messages, index, [{ role: 'user', content }]), model, turnApiKey);
+  };
+
+  const handleSwitchBranch = (index: number, branchIndex: number) => {
+    setMessages?.(switchBranch(messages, index, branchIndex));
+  };
+
+  // 使用当前模型修复静态检查发现的问题，修改同样提交审阅
+  const handleFixFinding = async (finding: LintFinding) => {
+    const userMessage: Message = { role: 'user', content: `🩺 修复第 ${finding.line} 行：${finding.message}` };
+    const updatedMessages = [...messages, userMessage];
+    const pushMessage = (message: Message) => setMessages?.([...updatedMessages, message]);
+
+    if (isLoading) {
+      pushMessage({ role: 'agent', content: '请等待当前请求完成后再修复' });
+      return;
+    }
+    if (currentModel?.requiresApiKey !== false && !currentApiKey.trim()) {
+      pushMessage({ role: 'agent', content: '请先配置API Key' });
+      return;
+    }
+
+    setMessages?.(updatedMessages);
+    setIsLoading(true);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    const originalContent = editorContent;
+
     try {
-      if (content && content.length > 0) {
-        const cacheResult = await agentService.storeContent(content);
-        contentId = cacheResult.contentId;
-        console.log(`[AgentChat] 内容缓存: ${contentId}, isNew: ${cacheResult.isNew}`);
+      const result = await lintService.fixWithAgent(originalContent, finding, model, currentApiKey, abortController.signal);
+      pushMessage({ role: 'agent', content: `${result.message}，请在编辑区审阅修改。` });
+      if (onProposeChange) {
+        onProposeChange({ original: originalContent, proposed: result.new_content, source: 'edit_file', file: activeFile, request: userMessage.content });
+      } else {
+        onUpdateContent(result.new_content);
+      }
+    } catch (error) {
+      if (isAbortError(error)) {
+        pushMessage({ role: 'agent', content: '', cancelled: true });
+        return;
       }
-    } catch (cacheError) {
-      console.warn('[AgentChat] 内容缓存失败，将直接发送内容:', cacheError);
-      // 缓存失败时继续使用直接发送
+      console.error('[AgentChat] 修复失败:', error);
+      pushMessage({ role: 'agent', content: `❌ **修复失败**\n\n**错误信息：** ${error instanceof Error ? error.message : String(error)}` });
+    } finally {
+      abortControllerRef.current = null;
+      setIsLoading(false);
     }
-    
-    // 构建请求参数 - 优先使用 contentId
-    const requestParams = {
-      contentId,  // 优先使用缓存ID
-      content: contentId ? undefined : content,  // 只有缓存失败时才发送完整内容
-      input: inputText,
-      mode: writingMode,
-      model,
-      apiKey: currentApiKey,
-      messages: currentMessages
-    };
+  };
 
-    if (useStreaming) {
-      // 创建流式消息
-      const streamingMessage: Message = { 
-        role: 'agent', 
-        content: '',
-        reasoning: '',  // 思考过程
-        isStreaming: true 
-      };
-      
-      let newMessages = [...currentMessages, streamingMessage];
-      onMessagesUpdate(newMessages);
-      
-      const response = await agentService.sendStreamRequest(requestParams, (event) => {
-        if (event.type === 'chunk') {
-          const lastIndex = newMessages.length - 1;
-          if (newMessages[lastIndex]?.isStreaming) {
-            newMessages = [...newMessages];
-            newMessages[lastIndex] = {
-              ...newMessages[lastIndex],
-              content: newMessages[lastIndex].content + (event.content || ''),
-              reasoning: (newMessages[lastIndex].reasoning || '') + (event.reasoning_content || '')
-            };
-            onMessagesUpdate(newMessages);
-          }
-        } else if (event.type === 'error' && event.error) {
-          throw new Error(event.error);
-        }
-      });
-      
-      // 完成流式响应，移除流式标记
-      const lastIndex = newMessages.length - 1;
-      newMessages = [...newMessages];
-      newMessages[lastIndex] = {
-        ...newMessages[lastIndex],
-        content: response.response,
-        reasoning: response.reasoning,
-        isStreaming: false,
-        tool_calls: response.tool_calls
-      };
-      onMessagesUpdate(newMessages);
-      
-      return response;
-    } else {
-      // 普通请求（Qwen）
-      const response = await agentService.sendRequest(requestParams);
-      
-      const agentMessage: Message = { 
-        role: 'agent', 
-        content: response.response,
-        tool_calls: response.tool_calls
-      };
-      
-      const newMessages = [...currentMessages, agentMessage];
-      onMessagesUpdate(newMessages);
-      
-      return response;
+  useEffect(() => {
+    if (fixRequest) {
+      handleFixFinding(fixRequest);
     }
+  }, [fixRequest]);
+
+  // 停止当前请求
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
   };
 
   return (
     <div className="panel agent-panel">
       <div className="agent-main-content">
         <h2 className="panel-title">写作助手</h2>
+        {projectId && onSwitchSession && (
+          <ChatSessionBar
+            projectId={projectId}
+            sessionId={sessionId}
+            sessionTitle={sessionTitle}
+            disabled={isLoading}
+            onSwitch={onSwitchSession}
+          />
+        )}
         {showToolHistory && (
           <div className="tool-history-panel">
             <div className="tool-history-header">
@@ -482,9 +566,17 @@ const AgentChat: React.FC<AgentChatProps> = ({
         <div className="chat-history">
           {messages.map((msg, index) => (
             <div key={index} className={`message ${msg.role}`}>
+              {onForkSession && !isLoading && (
+                <button className="message-fork-btn" onClick={() => onForkSession(index)} title="从这条消息分叉出新对话">⑂</button>
+              )}
               {msg.role === 'agent' ? (
                 <div className="markdown-content">
-                  {/* DeepSeek Reasoner 思考过程 */}
+                  {/* 上下文裁剪说明 */}
+                  {msg.notice && (
+                    <div className="context-notice">⚠️ {msg.notice}</div>
+                  )}
+                  
+                  {/* 思考模型的思考过程 */}
                   {msg.reasoning && (
                     <div className="reasoning-block">
                       <div 
@@ -514,6 +606,10 @@ const AgentChat: React.FC<AgentChatProps> = ({
                     {msg.content}
                   </ReactMarkdown>
                   
+                  {msg.cancelled && (
+                    <div className="message-cancelled">⏹ 已取消</div>
+                  )}
+                  
                   {/* 工具调用 */}
                   {msg.tool_calls && msg.tool_calls.length > 0 && (
                     <div className="tool-calls">
@@ -532,9 +628,14 @@ const AgentChat: React.FC<AgentChatProps> = ({
                           'view_file': '👁️ 查看文件',
                           'edit_file': '✏️ 编辑文件',
                           'search_in_file': '🔍 搜索文件',
+                          'lint_document': '🩺 检查文档',
                           'list_resources': '📋 列出资源',
                           'add_resource': '➕ 添加资源',
-                          'insert_resource': '📎 插入资源'
+                          'insert_resource': '📎 插入资源',
+                          'import_bibtex': '📥 导入 BibTeX',
+                          'export_bibtex': '📤 导出 BibTeX',
+                          'format_bibliography': '📑 生成参考文献列表',
+                          'check_citations': '🔑 检查引用'
                         };
                         
                         const displayName = toolNameMap[toolCall.tool_name] || `🔧 ${toolCall.tool_name}`;
@@ -609,6 +710,7 @@ const AgentChat: React.FC<AgentChatProps> = ({
                                 <div className="result-summary">
                                   {result.data.count !== undefined && `数量: ${result.data.count}`}
                                   {result.data.text_stats && `文本: ${result.data.text_stats.textLength} 字符, ${result.data.text_stats.numWords} 单词`}
+                                  {Array.isArray(result.data.changes) && `修改: ${formatEditChanges(result.data.changes)}`}
                                 </div>
                               )}
                             </div>
@@ -631,9 +733,77 @@ const AgentChat: React.FC<AgentChatProps> = ({
                     </div>
                   )}
                 </div>
+              ) : editingIndex === index ? (
+                <div className="message-edit">
+                  <textarea
+                    value={editingText}
+                    onChange={(e) => setEditingText(e.target.value)}
+                    rows={3}
+                    autoFocus
+                  />
+                  <div className="message-edit-actions">
+                    <button onClick={() => setEditingIndex(null)}>取消</button>
+                    <button onClick={() => handleEditResend(index)} disabled={!editingText.trim()}>发送</button>
+                  </div>
+                </div>
               ) : (
                 msg.content
               )}
+
+              {/* 分支切换、重新生成和编辑 */}
+              {!msg.isStreaming && editingIndex !== index && (
+                <div className="message-actions">
+                  {msg.branches && msg.branches.length > 1 && (
+                    <span className="message-branches">
+                      <button
+                        onClick={() => handleSwitchBranch(index, (msg.branchIndex ?? 0) - 1)}
+                        disabled={isLoading || (msg.branchIndex ?? 0) === 0}
+                        title="上一个分支"
+                      >
+                        ‹
+                      </button>
+                      {(msg.branchIndex ?? 0) + 1} / {msg.branches.length}
+                      <button
+                        onClick={() => handleSwitchBranch(index, (msg.branchIndex ?? 0) + 1)}
+                        disabled={isLoading || (msg.branchIndex ?? 0) === msg.branches.length - 1}
+                        title="下一个分支"
+                      >
+                        ›
+                      </button>
+                    </span>
+                  )}
+                  {!isLoading && msg.role === 'user' && (
+                    <button
+                      onClick={() => { setEditingIndex(index); setEditingText(msg.content); }}
+                      title="编辑后重新发送，原来的回复保留为分支"
+                    >
+                      ✎ 编辑
+                    </button>
+                  )}
+                  {msg.role === 'agent' && msg.model && (
+                    <span className="message-model">{models.find(m => m.id === msg.model)?.name || msg.model}</span>
+                  )}
+                  {!isLoading && msg.role === 'agent' && findTurnStart(index) !== -1 && (
+                    <>
+                      <button onClick={() => handleRegenerate(index)} title="重新生成这一轮回复，原来的回复保留为分支">
+                        ↻ {msg.cancelled || msg.content.startsWith('❌') ? '重试' : '重新生成'}
+                      </button>
+                      {models.length > 1 && (
+                        <select
+                          value=""
+                          onChange={(e) => e.target.value && handleRegenerate(index, e.target.value)}
+                          title="使用其他模型重新生成这一轮回复"
+                        >
+                          <option value="">换模型…</option>
+                          {models.filter(m => m.id !== model).map(m => (
+                            <option key={m.id} value={m.id}>{m.name}</option>
+                          ))}
+                        </select>
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
             </div>
           ))}
           {isLoading && (
@@ -655,15 +825,13 @@ const AgentChat: React.FC<AgentChatProps> = ({
               </select>
               <select 
                 value={model} 
-                onChange={(e) => {
-                  const newModel = e.target.value as 'deepseek' | 'deepseek-reasoner' | 'qwen';
-                  setModel(newModel);
-                }}
+                onChange={(e) => setModel(e.target.value)}
                 className="model-selector"
               >
-                <option value="deepseek">DeepSeek</option>
-                <option value="deepseek-reasoner">DeepSeek R1</option>
-                <option value="qwen">Qwen</option>
+                {models.length === 0 && <option value={model}>加载模型...</option>}
+                {models.map(m => (
+                  <option key={m.id} value={m.id} title={m.providerName}>{m.name}</option>
+                ))}
               </select>
             </div>
           </div>
@@ -676,9 +844,15 @@ const AgentChat: React.FC<AgentChatProps> = ({
               placeholder="请输入您的需求..."
               disabled={isLoading}
             />
-            <button onClick={handleSend} disabled={isLoading}>
-              发送
-            </button>
+            {isLoading ? (
+              <button onClick={handleCancel} className="cancel-button">
+                停止
+              </button>
+            ) : (
+              <button onClick={handleSend}>
+                发送
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -152,7 +152,7 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({
     }
   };
 
-  // 测试Qwen API Key
+  // 测试Qwen API Key（使用流式请求）
   const handleTestQwenApiKey = async () => {
     if (!validateApiKey(qwenApiKey, 'qwen')) {
       setTestResult({
@@ -167,12 +167,14 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({
     setTestResult(null);
 
     try {
-      await agentService.sendRequest({
+      await agentService.sendStreamRequest({
         content: '测试',
         input: '你好，请回复"测试成功"',
         mode: 'discuss',
         model: 'qwen',
         apiKey: qwenApiKey
+      }, () => {
+        // 忽略流式事件，只关心是否成功
       });
 
       setTestResult({
@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from 'react';
+import { projectService, ChatSessionSummary, ChatSearchResult } from '../services/projectService';
+
+interface ChatSessionBarProps {
+  projectId: string;
+  sessionId: string | null;
+  sessionTitle: string;
+  disabled?: boolean;  // Agent 运行中不能切换对话
+  onSwitch: (id: string) => void;  // 打开其他对话（由 App 保存当前对话后切换）
+}
+
+const ChatSessionBar: React.FC<ChatSessionBarProps> = ({ projectId, sessionId, sessionTitle, disabled = false, onSwitch }) => {
+  const [sessions, setSessions] = useState<ChatSessionSummary[]>([]);
+  const [open, setOpen] = useState<boolean>(false);
+  const [query, setQuery] = useState<string>('');
+  const [results, setResults] = useState<ChatSearchResult[] | null>(null);
+
+  const loadSessions = async () => {
+    try {
+      setSessions(await projectService.listSessions(projectId));
+    } catch (error) {
+      console.error('[ChatSessionBar] 获取对话列表失败:', error);
+    }
+  };
+
+  // 打开菜单时刷新列表（标题随对话内容更新）
+  useEffect(() => {
+    if (open) loadSessions();
+  }, [open, sessionId]);
+
+  // 输入关键词后延迟搜索
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults(null);
+      return;
+    }
+    const timer = setTimeout(async () => {
+      try {
+        setResults(await projectService.searchSessions(projectId, query.trim()));
+      } catch (error) {
+        console.error('[ChatSessionBar] 搜索对话失败:', error);
+      }
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const switchTo = (id: string) => {
+    setOpen(false);
+    setQuery('');
+    if (id !== sessionId) onSwitch(id);
+  };
+
+  // 执行会话操作后刷新列表，失败时提示
+  const runAction = async (action: () => Promise<unknown>, fallbackMessage: string) => {
+    try {
+      await action();
+      await loadSessions();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : fallbackMessage);
+    }
+  };
+
+  const handleCreate = () => {
+    runAction(async () => {
+      const session = await projectService.createSession(projectId);
+      switchTo(session.id);
+    }, '新建对话失败');
+  };
+
+  const handleRename = (session: ChatSessionSummary) => {
+    const title = window.prompt('重命名对话', session.title);
+    if (title && title.trim() && title.trim() !== session.title) {
+      runAction(() => projectService.updateSession(projectId, session.id, { title: title.trim() }), '重命名对话失败');
+    }
+  };
+
+  const handleDelete = (session: ChatSessionSummary) => {
+    if (window.confirm(`确定删除对话「${session.title}」？此操作无法撤销。`)) {
+      runAction(() => projectService.deleteSession(projectId, session.id), '删除对话失败');
+    }
+  };
+
+  // 导入“保存记录”导出的聊天记录 JSON，恢复为新对话
+  const handleImport = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.json,application/json';
+    input.onchange = (event) => {
+      const file = (event.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        runAction(async () => {
+          let data: any;
+          try {
+            data = JSON.parse(e.target?.result as string);
+          } catch (error) {
+            throw new Error('文件不是有效的 JSON');
+          }
+          if (!data || !Array.isArray(data.messages)) {
+            throw new Error('不是聊天记录文件：缺少 messages');
+          }
+          const title = typeof data.sessionName === 'string' && data.sessionName.trim()
+            ? data.sessionName
+            : file.name.replace(/\.json$/i, '');
+          const session = await projectService.createSession(projectId, { title, messages: data.messages });
+          switchTo(session.id);
+        }, '导入聊天记录失败');
+      };
+      reader.readAsText(file);
+    };
+    input.click();
+  };
+
+  const renderSession = (session: ChatSessionSummary) => {
+    const isActive = session.id === sessionId;
+    return (
+      <div key={session.id} className={`session-item ${isActive ? 'active' : ''}`}>
+        <div className="session-item-main" onClick={() => switchTo(session.id)} title={session.title}>
+          <span className="session-item-title">{session.forked_from ? '⑂ ' : ''}{session.title}</span>
+          <span className="session-item-meta">
+            {session.message_count} 条消息 · {new Date(session.updated_at).toLocaleString('zh-CN')}
+          </span>
+        </div>
+        <div className="session-item-actions">
+          <button title="重命名" onClick={() => handleRename(session)}>✎</button>
+          {!isActive && <button title="删除" onClick={() => handleDelete(session)}>✕</button>}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="chat-session-bar">
+      <button
+        className="chat-session-toggle"
+        onClick={() => setOpen(!open)}
+        disabled={disabled}
+        title={disabled ? '请等待当前请求完成' : '切换对话'}
+      >
+        <span className="chat-session-title">💬 {sessionTitle || '新对话'}</span>
+        <span>{open ? '▴' : '▾'}</span>
+      </button>
+      <button className="chat-session-new" onClick={handleCreate} disabled={disabled} title="新建对话">＋</button>
+
+      {open && !disabled && (
+        <div className="chat-session-menu">
+          <input
+            className="chat-session-search"
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="搜索全部对话…"
+            autoFocus
+          />
+
+          {results ? (
+            <div className="session-list">
+              {results.length === 0 && <div className="session-empty">没有匹配的对话</div>}
+              {results.map(result => (
+                <div key={result.id} className="session-search-result" onClick={() => switchTo(result.id)}>
+                  <div className="session-item-title">{result.title}</div>
+                  {result.matches.map(match => (
+                    <div key={match.index} className="session-search-snippet">
+                      <span className="session-search-role">{match.role === 'user' ? '我' : '助手'}</span>
+                      {match.snippet}
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="session-list">
+              {sessions.map(renderSession)}
+            </div>
+          )}
+
+          <div className="session-menu-actions">
+            <button onClick={handleCreate}>＋ 新对话</button>
+            <button onClick={handleImport}>📥 导入记录</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChatSessionBar;
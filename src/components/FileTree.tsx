@@ -0,0 +1,127 @@
+import React, { useMemo, useState } from 'react';
+
+interface FileTreeProps {
+  files: string[];            // 项目文件路径列表
+  mainFile: string;
+  activeFile: string;
+  onOpen: (path: string) => void;
+  onCreate: (path: string) => void;
+  onRename: (from: string, to: string) => void;
+  onDelete: (path: string) => void;
+  header?: React.ReactNode;   // 文件列表上方的内容（项目切换）
+}
+
+interface TreeNode {
+  name: string;
+  path: string;
+  children: TreeNode[];
+  isFile: boolean;
+}
+
+// 路径列表 → 目录树（目录在前，同级按名称排序）
+function buildTree(files: string[]): TreeNode[] {
+  const root: TreeNode = { name: '', path: '', children: [], isFile: false };
+
+  for (const file of files) {
+    let node = root;
+    file.split('/').forEach((name, index, segments) => {
+      const path = segments.slice(0, index + 1).join('/');
+      const isFile = index === segments.length - 1;
+      let child = node.children.find(item => item.name === name && item.isFile === isFile);
+      if (!child) {
+        child = { name, path, children: [], isFile };
+        node.children.push(child);
+      }
+      node = child;
+    });
+  }
+
+  const sortNodes = (nodes: TreeNode[]) => {
+    nodes.sort((a, b) => a.isFile === b.isFile ? a.name.localeCompare(b.name) : a.isFile ? 1 : -1);
+    nodes.forEach(node => sortNodes(node.children));
+  };
+  sortNodes(root.children);
+  return root.children;
+}
+
+const FileTree: React.FC<FileTreeProps> = ({ files, mainFile, activeFile, onOpen, onCreate, onRename, onDelete, header }) => {
+  const [collapsed, setCollapsed] = useState<Record<string, boolean>>({});
+  const tree = useMemo(() => buildTree(files), [files]);
+
+  const handleCreate = () => {
+    const path = window.prompt('新文件路径（相对于项目根目录，如 chapters/intro.tex、refs.bib）', 'chapters/');
+    if (path && path.trim()) {
+      onCreate(path.trim());
+    }
+  };
+
+  const handleRename = (path: string) => {
+    const target = window.prompt('重命名为（可包含目录以移动文件）', path);
+    if (target && target.trim() && target.trim() !== path) {
+      onRename(path, target.trim());
+    }
+  };
+
+  const handleDelete = (path: string) => {
+    if (window.confirm(`确定删除 ${path}？此操作无法撤销。`)) {
+      onDelete(path);
+    }
+  };
+
+  const renderNode = (node: TreeNode, depth: number): React.ReactNode => {
+    const indent = { paddingLeft: `${8 + depth * 14}px` };
+
+    if (!node.isFile) {
+      const isCollapsed = collapsed[node.path];
+      return (
+        <div key={`dir:${node.path}`}>
+          <div
+            className="file-tree-item folder"
+            style={indent}
+            onClick={() => setCollapsed(prev => ({ ...prev, [node.path]: !prev[node.path] }))}
+          >
+            <span className="file-tree-icon">{isCollapsed ? '▶' : '▼'}</span>
+            <span className="file-tree-name">{node.name}</span>
+          </div>
+          {!isCollapsed && node.children.map(child => renderNode(child, depth + 1))}
+        </div>
+      );
+    }
+
+    const isMain = node.path === mainFile;
+    return (
+      <div
+        key={node.path}
+        className={`file-tree-item file ${node.path === activeFile ? 'active' : ''}`}
+        style={indent}
+        onClick={() => onOpen(node.path)}
+        title={node.path}
+      >
+        <span className="file-tree-icon">{node.name.endsWith('.bib') ? '📚' : '📄'}</span>
+        <span className="file-tree-name">{node.name}</span>
+        {isMain && <span className="file-tree-badge">主文件</span>}
+        {!isMain && (
+          <span className="file-tree-actions">
+            <button title="重命名" onClick={(e) => { e.stopPropagation(); handleRename(node.path); }}>✎</button>
+            <button title="删除" onClick={(e) => { e.stopPropagation(); handleDelete(node.path); }}>✕</button>
+          </span>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="file-tree">
+      {header}
+      <div className="file-tree-header">
+        <span>项目文件</span>
+        <button className="file-tree-new" onClick={handleCreate} title="新建文件">＋</button>
+      </div>
+      <div className="file-tree-list">
+        {tree.map(node => renderNode(node, 0))}
+      </div>
+    </div>
+  );
+};
+
+export default FileTree;
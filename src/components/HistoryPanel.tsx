@@ -0,0 +1,337 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { DiffEditor } from '@monaco-editor/react';
+import { snapshotService, SnapshotSummary, SnapshotType } from '../services/snapshotService';
+import { gitService, GitCommit, GitStatus } from '../services/gitService';
+
+interface HistoryPanelProps {
+  currentFiles: Record<string, string>;  // 当前的项目文件（包含未保存的内容），用于对比
+  onRestore: (id: string) => Promise<void>;  // 恢复到快照（由 App 保存当前内容后执行并重新加载文件）
+  gitEnabled?: boolean;
+  onToggleGit?: (enabled: boolean) => Promise<void>;
+  onCheckoutBranch?: (branch: string, create: boolean) => Promise<void>;  // 切换或新建分支（由 App 保存后执行并重新加载文件）
+}
+
+// 选中的历史版本（快照或 Git 提交）
+interface SelectedVersion {
+  id: string;
+  files: Record<string, string>;
+}
+
+// 快照与当前内容相比有变化的文件
+interface ChangedFile {
+  path: string;
+  status: 'modified' | 'added' | 'deleted';
+}
+
+const TYPE_LABELS: Record<SnapshotType, string> = {
+  auto: '⏱ 定时',
+  agent: '🤖 Agent 修改前',
+  restore: '↺ 恢复前',
+  manual: '📌 检查点'
+};
+
+const STATUS_LABELS: Record<ChangedFile['status'], string> = {
+  modified: '已修改',
+  added: '快照后新增',
+  deleted: '当前已删除'
+};
+
+const diffOptions = {
+  readOnly: true,
+  renderSideBySide: false,
+  minimap: { enabled: false },
+  fontSize: 12,
+  wordWrap: 'on' as const,
+  scrollBeyondLastLine: false,
+  automaticLayout: true
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  currentFiles,
+  onRestore,
+  gitEnabled = false,
+  onToggleGit,
+  onCheckoutBranch
+}) => {
+  const [view, setView] = useState<'snapshots' | 'git'>('snapshots');
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([]);
+  const [commits, setCommits] = useState<GitCommit[]>([]);
+  const [gitStatus, setGitStatus] = useState<GitStatus | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [selected, setSelected] = useState<SelectedVersion | null>(null);
+  const [selectedFile, setSelectedFile] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState<boolean>(false);
+
+  const loadSnapshots = async () => {
+    setLoading(true);
+    try {
+      setSnapshots(await snapshotService.list());
+    } catch (error) {
+      console.error('[HistoryPanel] 获取快照列表失败:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadGit = async () => {
+    if (!gitEnabled) {
+      setGitStatus(null);
+      setCommits([]);
+      return;
+    }
+    setLoading(true);
+    try {
+      const [status, log] = await Promise.all([gitService.getStatus(), gitService.getLog()]);
+      setGitStatus(status);
+      setCommits(log);
+    } catch (error) {
+      console.error('[HistoryPanel] 获取 Git 提交历史失败:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const refresh = () => (view === 'git' ? loadGit() : loadSnapshots());
+
+  useEffect(() => {
+    setSelected(null);
+    refresh();
+  }, [view, gitEnabled]);
+
+  const changedFiles = useMemo<ChangedFile[]>(() => {
+    if (!selected) return [];
+    const paths = Array.from(new Set([...Object.keys(selected.files), ...Object.keys(currentFiles)])).sort();
+    return paths.flatMap<ChangedFile>(path => {
+      const before = selected.files[path];
+      const after = currentFiles[path];
+      if (before === after) return [];
+      if (before === undefined) return [{ path, status: 'added' }];
+      if (after === undefined) return [{ path, status: 'deleted' }];
+      return [{ path, status: 'modified' }];
+    });
+  }, [selected, currentFiles]);
+
+  // 选中的快照变化后默认显示第一个有变化的文件
+  useEffect(() => {
+    if (!changedFiles.some(file => file.path === selectedFile)) {
+      setSelectedFile(changedFiles[0]?.path ?? null);
+    }
+  }, [changedFiles]);
+
+  const handleSelect = async (summary: SnapshotSummary) => {
+    if (selected?.id === summary.id) {
+      setSelected(null);
+      return;
+    }
+    try {
+      setSelected(await snapshotService.get(summary.id));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '读取快照失败');
+    }
+  };
+
+  const handleSelectCommit = async (commit: GitCommit) => {
+    if (selected?.id === commit.hash) {
+      setSelected(null);
+      return;
+    }
+    try {
+      const detail = await gitService.getCommit(commit.hash);
+      setSelected({ id: detail.hash, files: detail.files });
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '读取提交失败');
+    }
+  };
+
+  const handleCheckpoint = async () => {
+    const name = window.prompt('检查点名称', `检查点 ${new Date().toLocaleString('zh-CN')}`);
+    if (!name || !name.trim()) return;
+    try {
+      await snapshotService.create({ type: 'manual', name: name.trim(), files: currentFiles });
+      await loadSnapshots();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '创建检查点失败');
+    }
+  };
+
+  const handleRestore = async (snapshot: SnapshotSummary) => {
+    const label = snapshot.name || new Date(snapshot.created_at).toLocaleString('zh-CN');
+    if (!window.confirm(`将项目恢复到「${label}」？当前内容会先保存为快照，可随时再恢复。`)) return;
+
+    setRestoring(true);
+    try {
+      await onRestore(snapshot.id);
+      setSelected(null);
+      await loadSnapshots();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '恢复快照失败');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const handleToggleGit = async (enabled: boolean) => {
+    if (!onToggleGit) return;
+    if (!enabled && !window.confirm('停用 Git 后不再自动提交，已有的仓库和提交历史会保留。确定停用？')) return;
+    try {
+      await onToggleGit(enabled);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '切换 Git 版本管理失败');
+    }
+  };
+
+  const runCheckout = async (branch: string, create: boolean) => {
+    if (!onCheckoutBranch) return;
+    setRestoring(true);
+    try {
+      await onCheckoutBranch(branch, create);
+      setSelected(null);
+      await loadGit();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '切换分支失败');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const handleCreateBranch = () => {
+    const name = window.prompt('新分支名称（从当前分支创建并切换过去，未提交的修改会先提交）', 'try-rewrite');
+    if (name && name.trim()) {
+      runCheckout(name.trim(), true);
+    }
+  };
+
+  const handleDelete = async (snapshot: SnapshotSummary) => {
+    if (!window.confirm('确定删除该快照？')) return;
+    try {
+      await snapshotService.remove(snapshot.id);
+      if (selected?.id === snapshot.id) setSelected(null);
+      await loadSnapshots();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '删除快照失败');
+    }
+  };
+
+  return (
+    <div className="history-panel">
+      <div className="history-view-tabs">
+        <button className={view === 'snapshots' ? 'active' : ''} onClick={() => setView('snapshots')}>快照</button>
+        <button className={view === 'git' ? 'active' : ''} onClick={() => setView('git')}>Git 提交</button>
+      </div>
+
+      {view === 'snapshots' ? (
+        <div className="history-toolbar">
+          <button className="history-checkpoint-btn" onClick={handleCheckpoint}>📌 创建检查点</button>
+          <button onClick={loadSnapshots} disabled={loading}>{loading ? '加载中…' : '刷新'}</button>
+        </div>
+      ) : gitEnabled && (
+        <div className="history-toolbar">
+          <select
+            className="history-branch-select"
+            value={gitStatus?.branch ?? ''}
+            onChange={(e) => runCheckout(e.target.value, false)}
+            disabled={restoring || !gitStatus}
+            title="切换分支（未提交的修改会先提交）"
+          >
+            {(gitStatus?.branches ?? []).map(branch => (
+              <option key={branch} value={branch}>⎇ {branch}</option>
+            ))}
+          </select>
+          <button className="history-checkpoint-btn" onClick={handleCreateBranch} disabled={restoring}>＋ 新建分支</button>
+          <button onClick={loadGit} disabled={loading}>{loading ? '加载中…' : '刷新'}</button>
+          <button onClick={() => handleToggleGit(false)}>停用</button>
+        </div>
+      )}
+
+      {view === 'git' ? (
+        <div className="history-timeline">
+          {!gitEnabled ? (
+            <div className="history-git-disabled">
+              <p>启用后项目文件保存在本地 Git 仓库中：每次应用 Agent 修改后自动提交，可创建分支尝试改写。不需要远程仓库。</p>
+              <button className="history-checkpoint-btn" onClick={() => handleToggleGit(true)}>启用 Git 版本管理</button>
+            </div>
+          ) : (
+            <>
+              {commits.length === 0 && !loading && <div className="history-empty">暂无提交</div>}
+              {commits.map(commit => (
+                <div
+                  key={commit.hash}
+                  className={`history-item commit ${selected?.id === commit.hash ? 'selected' : ''}`}
+                  onClick={() => handleSelectCommit(commit)}
+                >
+                  <div className="history-item-header">
+                    <span className="history-item-type">{commit.short_hash}</span>
+                    <span className="history-item-time">{new Date(commit.date).toLocaleString('zh-CN')}</span>
+                  </div>
+                  <div className="history-item-name">{commit.message}</div>
+                  <div className="history-item-meta">{commit.author}</div>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+      ) : (
+        <div className="history-timeline">
+          {snapshots.length === 0 && !loading && (
+            <div className="history-empty">暂无快照。应用 Agent 修改前和定时都会自动创建快照。</div>
+          )}
+          {snapshots.map(snapshot => (
+            <div
+              key={snapshot.id}
+              className={`history-item ${snapshot.type} ${selected?.id === snapshot.id ? 'selected' : ''}`}
+              onClick={() => handleSelect(snapshot)}
+            >
+              <div className="history-item-header">
+                <span className="history-item-type">{TYPE_LABELS[snapshot.type]}</span>
+                <span className="history-item-time">{new Date(snapshot.created_at).toLocaleString('zh-CN')}</span>
+              </div>
+              {snapshot.name && <div className="history-item-name">{snapshot.name}</div>}
+              <div className="history-item-meta">
+                {snapshot.file_count} 个文件 · {(snapshot.size / 1024).toFixed(1)} KB
+                <span className="history-item-actions">
+                  <button
+                    onClick={(e) => { e.stopPropagation(); handleRestore(snapshot); }}
+                    disabled={restoring}
+                  >
+                    恢复
+                  </button>
+                  <button onClick={(e) => { e.stopPropagation(); handleDelete(snapshot); }}>删除</button>
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {selected && (
+        <div className="history-diff">
+          <div className="history-diff-files">
+            {changedFiles.length === 0 && <span className="history-empty">与当前内容相同</span>}
+            {changedFiles.map(file => (
+              <button
+                key={file.path}
+                className={`history-diff-file ${file.status} ${file.path === selectedFile ? 'active' : ''}`}
+                onClick={() => setSelectedFile(file.path)}
+                title={STATUS_LABELS[file.status]}
+              >
+                {file.path}
+              </button>
+            ))}
+          </div>
+          {selectedFile && (
+            <div className="history-diff-editor">
+              <DiffEditor
+                height="100%"
+                original={selected.files[selectedFile] ?? ''}
+                modified={currentFiles[selectedFile] ?? ''}
+                options={diffOptions}
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
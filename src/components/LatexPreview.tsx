@@ -0,0 +1,62 @@
+import React, { useState, useEffect, useMemo, memo } from 'react';
+import 'katex/dist/katex.min.css';
+import { renderLatexDocument, LatexRenderContext } from '../utils/latexRenderer';
+
+interface LatexPreviewProps {
+  content: string;
+  context: LatexRenderContext;
+}
+
+// 编辑停顿后再重新渲染
+const RENDER_DELAY = 300;
+
+// 单个文档块：key 不变时不会重新渲染，DOM 也保持不变
+const PreviewBlock = memo(({ html }: { html: string }) => (
+  <div className="latex-block" dangerouslySetInnerHTML={{ __html: html }} />
+));
+
+const LatexPreview: React.FC<LatexPreviewProps> = ({ content, context }) => {
+  const [source, setSource] = useState<string>(content);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSource(content), RENDER_DELAY);
+    return () => clearTimeout(timer);
+  }, [content]);
+
+  const rendered = useMemo(() => renderLatexDocument(source, context), [source, context]);
+
+  // 交叉引用和引用链接在预览内部滚动，不改变页面地址
+  const handleClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    const link = (event.target as HTMLElement).closest('a');
+    const href = link?.getAttribute('href');
+    if (!href || !href.startsWith('#')) return;
+    event.preventDefault();
+    const target = event.currentTarget.querySelector(`[id="${CSS.escape(href.slice(1))}"]`);
+    target?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const warnings: string[] = [];
+  if (rendered.missingCitations.length > 0) {
+    warnings.push(`未找到引用：${rendered.missingCitations.join(', ')}`);
+  }
+  if (rendered.missingLabels.length > 0) {
+    warnings.push(`未定义的标签：${rendered.missingLabels.join(', ')}`);
+  }
+
+  return (
+    <div className="latex-preview" onClick={handleClick}>
+      {warnings.length > 0 && (
+        <div className="latex-preview-warnings">
+          {warnings.map(warning => <div key={warning}>⚠️ {warning}</div>)}
+        </div>
+      )}
+      {rendered.blocks.length === 0 ? (
+        <div className="latex-preview-empty">文档内容为空</div>
+      ) : (
+        rendered.blocks.map(block => <PreviewBlock key={block.key} html={block.html} />)
+      )}
+    </div>
+  );
+};
+
+export default LatexPreview;
@@ -1,12 +1,47 @@
-import React from 'react';
-import Editor from '@monaco-editor/react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import Editor, { BeforeMount, DiffEditor, DiffOnMount, Monaco, OnMount } from '@monaco-editor/react';
+import type { languages } from 'monaco-editor';
+import { ProposedChange, HunkDecision, computeHunks, applyHunks } from '../utils/diff';
+import { lintService, LintFinding } from '../services/lintService';
+import { isAbortError } from '../services/agentService';
 
 interface MonacoEditorProps {
   content: string;
   onChange: (content: string) => void;
+  pendingChange?: ProposedChange | null;  // Agent 提出的待审阅修改
+  onResolveChange?: () => void;  // 审阅结束（应用或放弃）
+  onApplyChange?: (content: string) => void;  // 应用审阅后的修改（未提供时使用 onChange）
+  revealTarget?: { line: number } | null;  // 需要跳转到的行（每次跳转传入新对象）
+  onFixWithAgent?: (finding: LintFinding) => void;  // 快速修复：交给 Agent 修复检查发现的问题
+  file?: string;  // 当前编辑的项目文件（每个文件使用独立的编辑器模型，保留各自的撤销历史）
+  sidebar?: React.ReactNode;  // 编辑器左侧的项目文件树
 }
 
-const MonacoEditor: React.FC<MonacoEditorProps> = ({ content, onChange }) => {
+type DiffEditorInstance = Parameters<DiffOnMount>[0];
+type EditorInstance = Parameters<OnMount>[0];
+
+const LINT_MARKER_OWNER = 'latex-lint';
+const LINT_DELAY = 500;
+
+// Monaco 内置语言中没有 LaTeX，注册后才能为其提供快速修复
+const registerLatexLanguage: BeforeMount = (monaco) => {
+  if (!monaco.languages.getLanguages().some((language: languages.ILanguageExtensionPoint) => language.id === 'latex')) {
+    monaco.languages.register({ id: 'latex', extensions: ['.tex'] });
+  }
+};
+
+const MonacoEditor: React.FC<MonacoEditorProps> = ({ content, onChange, pendingChange, onResolveChange, onApplyChange, revealTarget, onFixWithAgent, file, sidebar }) => {
+  const [decisions, setDecisions] = useState<Record<number, HunkDecision>>({});
+  const [findings, setFindings] = useState<LintFinding[]>([]);
+  // 编辑器每次挂载（退出审阅模式后会重新创建）都重新检查
+  const [editorMountId, setEditorMountId] = useState<number>(0);
+  const diffEditorRef = useRef<DiffEditorInstance | null>(null);
+  const editorRef = useRef<EditorInstance | null>(null);
+  const monacoRef = useRef<Monaco | null>(null);
+  const findingsRef = useRef<LintFinding[]>([]);
+  const onFixWithAgentRef = useRef(onFixWithAgent);
+  onFixWithAgentRef.current = onFixWithAgent;
+
   // 编辑器配置
   const editorOptions = {
     minimap: { enabled: true },
@@ -19,20 +54,241 @@ const MonacoEditor: React.FC<MonacoEditorProps> = ({ content, onChange }) => {
     theme: 'vs-light' as const,
   };
 
+  // 差异编辑器配置（左右对比，只读）
+  const diffEditorOptions = {
+    ...editorOptions,
+    minimap: { enabled: false },
+    renderSideBySide: true,
+    readOnly: true,
+    originalEditable: false,
+  };
+
+  const hunks = useMemo(
+    () => pendingChange ? computeHunks(pendingChange.original, pendingChange.proposed) : [],
+    [pendingChange]
+  );
+
+  // 新的修改到达时重置审阅状态
+  useEffect(() => {
+    setDecisions({});
+  }, [pendingChange]);
+
+  // 跳转到编译错误等指定的行
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!revealTarget || !editor || pendingChange) return;
+    editor.revealLineInCenter(revealTarget.line);
+    editor.setPosition({ lineNumber: revealTarget.line, column: 1 });
+    editor.focus();
+  }, [revealTarget]);
+
+  // 内容停止变化后调用服务端检查，结果显示为编辑器中的波浪线标记
+  useEffect(() => {
+    const editor = editorRef.current;
+    const monaco = monacoRef.current;
+    if (pendingChange || !editor || !monaco) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const result = await lintService.lint(content, controller.signal, file);
+        const model = editor.getModel();
+        if (!model || model.isDisposed()) return;
+
+        findingsRef.current = result.findings;
+        setFindings(result.findings);
+        monaco.editor.setModelMarkers(model, LINT_MARKER_OWNER, result.findings.map(finding => ({
+          severity: finding.severity === 'error' ? monaco.MarkerSeverity.Error : monaco.MarkerSeverity.Warning,
+          message: finding.message,
+          code: finding.rule,
+          source: 'LaTeX 检查',
+          startLineNumber: finding.line,
+          startColumn: finding.column,
+          endLineNumber: finding.end_line,
+          endColumn: Math.max(finding.end_column, finding.column + 1)
+        })));
+      } catch (error) {
+        if (!isAbortError(error)) {
+          console.warn('[MonacoEditor] 文档检查失败:', error);
+        }
+      }
+    }, LINT_DELAY);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [content, file, pendingChange, editorMountId]);
+
+  const handleEditorMount: OnMount = (editor, monaco) => {
+    editorRef.current = editor;
+    monacoRef.current = monaco;
+
+    // 快速修复菜单中的「使用 Agent 修复」
+    const commandId = editor.addCommand(0, (_accessor: unknown, finding: LintFinding) => {
+      onFixWithAgentRef.current?.(finding);
+    }, '');
+    const codeActionProvider: languages.CodeActionProvider = {
+      provideCodeActions: (model, _range, context) => {
+        if (!commandId || !onFixWithAgentRef.current || model !== editor.getModel()) {
+          return { actions: [], dispose: () => {} };
+        }
+
+        const actions = context.markers.flatMap(marker => {
+          const finding = findingsRef.current.find(item =>
+            item.rule === marker.code && item.line === marker.startLineNumber && item.column === marker.startColumn
+          );
+          if (!finding) return [];
+          return [{
+            title: `使用 Agent 修复：${finding.message}`,
+            kind: 'quickfix',
+            diagnostics: [marker],
+            command: { id: commandId, title: '使用 Agent 修复', arguments: [finding] }
+          }];
+        });
+        return { actions, dispose: () => {} };
+      }
+    };
+    const provider = monaco.languages.registerCodeActionProvider('latex', codeActionProvider);
+    editor.onDidDispose(() => provider.dispose());
+
+    setEditorMountId(id => id + 1);
+  };
+
+  const errorCount = findings.filter(finding => finding.severity === 'error').length;
+  const warningCount = findings.length - errorCount;
+
+  const acceptedCount = hunks.filter(hunk => decisions[hunk.id] === 'accepted').length;
+
+  const setDecision = (hunkId: number, decision: HunkDecision) => {
+    setDecisions(prev => ({ ...prev, [hunkId]: prev[hunkId] === decision ? 'pending' : decision }));
+  };
+
+  const setAllDecisions = (decision: HunkDecision) => {
+    setDecisions(Object.fromEntries(hunks.map(hunk => [hunk.id, decision])));
+  };
+
+  // 跳转到差异块所在位置
+  const revealHunk = (proposedStart: number) => {
+    diffEditorRef.current?.getModifiedEditor().revealLineInCenter(proposedStart);
+  };
+
+  // 只应用已接受的差异块
+  const handleApply = () => {
+    if (!pendingChange) return;
+
+    if (content !== pendingChange.original) {
+      const confirmed = window.confirm('Agent 运行期间编辑器内容已被修改，应用后将覆盖这些修改。是否继续？');
+      if (!confirmed) return;
+    }
+
+    const acceptedIds = new Set(hunks.filter(hunk => decisions[hunk.id] === 'accepted').map(hunk => hunk.id));
+    if (acceptedIds.size > 0) {
+      (onApplyChange || onChange)(applyHunks(pendingChange.original, hunks, acceptedIds));
+    }
+    onResolveChange?.();
+  };
+
+  const handleDiscard = () => {
+    if (acceptedCount > 0 && !window.confirm('放弃本次所有修改？')) return;
+    onResolveChange?.();
+  };
+
+  // 审阅模式：左侧原文、右侧 Agent 修改后的内容，逐块接受或拒绝
+  if (pendingChange) {
+    return (
+      <div className="panel editor-panel">
+        <h3 className="panel-title">
+          审阅修改
+          <span className="diff-review-source">
+            {pendingChange.source === 'write' ? '撰写模式回复' : 'Agent 编辑'}
+            {pendingChange.file && ` · ${pendingChange.file}`} · 共 {hunks.length} 处
+          </span>
+        </h3>
+        <div className="diff-review-toolbar">
+          <button onClick={() => setAllDecisions('accepted')} disabled={hunks.length === 0}>全部接受</button>
+          <button onClick={() => setAllDecisions('rejected')} disabled={hunks.length === 0}>全部拒绝</button>
+          <div className="diff-review-actions">
+            <button className="diff-discard-btn" onClick={handleDiscard}>放弃</button>
+            <button className="diff-apply-btn" onClick={handleApply}>
+              应用已接受的修改 ({acceptedCount}/{hunks.length})
+            </button>
+          </div>
+        </div>
+        <div className="diff-hunk-list">
+          {hunks.length === 0 && <div className="diff-hunk-empty">没有检测到内容变化</div>}
+          {hunks.map(hunk => {
+            const decision = decisions[hunk.id] || 'pending';
+            return (
+              <div key={hunk.id} className={`diff-hunk ${decision}`}>
+                <span className="diff-hunk-location" onClick={() => revealHunk(hunk.proposedStart)}>
+                  第 {hunk.originalStart} 行
+                  {hunk.originalLines.length > 0 && <span className="diff-removed"> -{hunk.originalLines.length}</span>}
+                  {hunk.proposedLines.length > 0 && <span className="diff-added"> +{hunk.proposedLines.length}</span>}
+                </span>
+                <span className="diff-hunk-preview" title={(hunk.proposedLines.length > 0 ? hunk.proposedLines : hunk.originalLines).join('\n')}>
+                  {(hunk.proposedLines.find(line => line.trim()) || hunk.originalLines.find(line => line.trim()) || '（空行）').trim()}
+                </span>
+                <button
+                  className={`diff-accept-btn ${decision === 'accepted' ? 'active' : ''}`}
+                  onClick={() => setDecision(hunk.id, 'accepted')}
+                >
+                  接受
+                </button>
+                <button
+                  className={`diff-reject-btn ${decision === 'rejected' ? 'active' : ''}`}
+                  onClick={() => setDecision(hunk.id, 'rejected')}
+                >
+                  拒绝
+                </button>
+              </div>
+            );
+          })}
+        </div>
+        <div className="editor-container">
+          <DiffEditor
+            height="100%"
+            language="latex"
+            original={pendingChange.original}
+            modified={pendingChange.proposed}
+            options={diffEditorOptions}
+            beforeMount={registerLatexLanguage}
+            onMount={(editor) => { diffEditorRef.current = editor; }}
+          />
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="panel editor-panel">
-      <h3 className="panel-title">编辑区</h3>
-      <div className="editor-container">
-        <Editor
-          height="100%"
-          language="latex"
-          value={content}
-          onChange={(value) => onChange(value || '')}
-          options={editorOptions}
-        />
+      <h3 className="panel-title">
+        编辑区
+        {file && <span className="editor-file-name">{file}</span>}
+        {findings.length > 0 && (
+          <span className="lint-summary" title="将光标移到标记处，按 Ctrl+. 可使用 Agent 修复">
+            {errorCount > 0 && <span className="lint-count error">{errorCount} 个错误</span>}
+            {warningCount > 0 && <span className="lint-count warning">{warningCount} 个警告</span>}
+          </span>
+        )}
+      </h3>
+      <div className="editor-body">
+        {sidebar}
+        <div className="editor-container">
+          <Editor
+            height="100%"
+            language="latex"
+            path={file}
+            value={content}
+            onChange={(value) => onChange(value || '')}
+            options={editorOptions}
+            beforeMount={registerLatexLanguage}
+            onMount={handleEditorMount}
+          />
+        </div>
       </div>
     </div>
   );
 };
 
-export default MonacoEditor;
\ No newline at end of file
+export default MonacoEditor;
@@ -0,0 +1,125 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { compileService, CompileResult, CompileDiagnostic } from '../services/compileService';
+import { isAbortError } from '../services/agentService';
+
+interface PdfPreviewProps {
+  content: string;
+  file?: string;  // 当前编辑的项目文件，提供时编译整个项目，content 为该文件的内容
+  documentContent?: string;  // 展开后的完整文档，用于判断编译结果是否过期
+  onRevealLine?: (line: number, file?: string) => void;  // 跳转到编辑器中（对应文件）的行
+}
+
+const PdfPreview: React.FC<PdfPreviewProps> = ({ content, file, documentContent = content, onRevealLine }) => {
+  const [compiling, setCompiling] = useState<boolean>(false);
+  const [result, setResult] = useState<CompileResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pdfUrl, setPdfUrl] = useState<string | null>(null);
+  const [compiledContent, setCompiledContent] = useState<string | null>(null);
+  const [showLog, setShowLog] = useState<boolean>(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // 新的 PDF 生成后释放旧的 Blob URL
+  useEffect(() => {
+    return () => {
+      if (pdfUrl) URL.revokeObjectURL(pdfUrl);
+    };
+  }, [pdfUrl]);
+
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  const handleCompile = async () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setCompiling(true);
+    setError(null);
+
+    try {
+      const compileResult = await compileService.compile(content, controller.signal, file);
+      setResult(compileResult);
+      setCompiledContent(documentContent);
+      if (compileResult.pdf) {
+        setPdfUrl(compileService.createPdfUrl(compileResult.pdf));
+      }
+    } catch (err) {
+      if (!isAbortError(err)) {
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    } finally {
+      setCompiling(false);
+      abortControllerRef.current = null;
+    }
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const renderDiagnostic = (item: CompileDiagnostic, index: number, severity: 'error' | 'warning') => (
+    <div
+      key={`${severity}-${index}`}
+      className={`compile-diagnostic ${severity} ${item.line ? 'clickable' : ''}`}
+      onClick={() => item.line && onRevealLine?.(item.line, item.file || undefined)}
+      title={item.line ? '跳转到编辑器对应行' : undefined}
+    >
+      <span className="compile-diagnostic-location">
+        {item.line ? `${file && item.file ? `${item.file} ` : ''}第 ${item.line} 行` : item.file ? `${item.file}${item.fileLine ? `:${item.fileLine}` : ''}` : '—'}
+      </span>
+      <span className="compile-diagnostic-message">{item.message}</span>
+      {item.context && <code className="compile-diagnostic-context">{item.context}</code>}
+    </div>
+  );
+
+  const outdated = result !== null && compiledContent !== documentContent;
+
+  return (
+    <div className="pdf-preview">
+      <div className="pdf-preview-toolbar">
+        {compiling ? (
+          <button className="compile-btn cancel" onClick={handleCancel}>⏹ 停止编译</button>
+        ) : (
+          <button className="compile-btn" onClick={handleCompile}>▶ 编译</button>
+        )}
+        {compiling && <span className="compile-status">正在编译…</span>}
+        {!compiling && result && (
+          <span className="compile-status">
+            {result.pdf ? '✅ 编译成功' : '❌ 编译失败'} · {result.errors.length} 个错误 · {result.warnings.length} 个警告 · {(result.duration / 1000).toFixed(1)}s
+            {outdated && <span className="compile-outdated">（内容已修改）</span>}
+          </span>
+        )}
+        {pdfUrl && (
+          <a className="compile-download" href={pdfUrl} download="main.pdf">下载 PDF</a>
+        )}
+      </div>
+
+      {error && <div className="compile-error-banner">{error}</div>}
+
+      {result && (result.errors.length > 0 || result.warnings.length > 0) && (
+        <div className="compile-diagnostics">
+          {result.errors.map((item, index) => renderDiagnostic(item, index, 'error'))}
+          {result.warnings.map((item, index) => renderDiagnostic(item, index, 'warning'))}
+        </div>
+      )}
+
+      {result && (
+        <div className="compile-log-toggle">
+          <button onClick={() => setShowLog(!showLog)}>{showLog ? '隐藏编译日志' : '查看编译日志'}</button>
+        </div>
+      )}
+      {result && showLog && <pre className="compile-log">{result.log}</pre>}
+
+      <div className="pdf-frame-container">
+        {pdfUrl ? (
+          <iframe className="pdf-frame" src={pdfUrl} title="PDF 预览" />
+        ) : (
+          <div className="pdf-placeholder">
+            {compiling ? '正在生成 PDF…' : '点击「编译」使用本机 TeX 引擎（xelatex）生成 PDF'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PdfPreview;
@@ -2,7 +2,11 @@ import React, { useState, useEffect } from 'react';
 import ApiKeyModal from './ApiKeyModal';
 import ResourcePanel from './ResourcePanel';
 import ErrorBoundary from './ErrorBoundary';
-import { Reference, ImageResource, PdfResource } from '../services/resourceService';
+import LatexPreview from './LatexPreview';
+import PdfPreview from './PdfPreview';
+import HistoryPanel from './HistoryPanel';
+import { resourceService, Reference, ImageResource, PdfResource } from '../services/resourceService';
+import { LatexRenderContext } from '../utils/latexRenderer';
 
 interface PreviewPanelProps {
   content: string;
@@ -14,6 +18,15 @@ interface PreviewPanelProps {
   model?: 'deepseek' | 'deepseek-reasoner' | 'qwen';
   onApiKeyChange?: (key: string) => void;
   apiKeyStatus?: { deepseek: boolean; qwen: boolean };
+  onRevealLine?: (line: number, file?: string) => void;  // 编译错误跳转到编辑器对应文件的行
+  activeFile?: string;  // 当前编辑的项目文件（content 为从主文件展开后的完整文档）
+  projectFiles?: Record<string, string>;  // 当前项目文件，版本历史与其对比
+  onRestoreSnapshot?: (id: string) => Promise<void>;
+  gitEnabled?: boolean;  // 当前项目是否启用 Git，历史面板同时显示提交记录
+  onToggleGit?: (enabled: boolean) => Promise<void>;
+  onCheckoutBranch?: (branch: string, create: boolean) => Promise<void>;
+  chatSessionTitle?: string;  // 当前对话的标题，作为导出聊天记录的文件名
+  onModifyProjectFiles?: (action: () => Promise<unknown>) => Promise<void>;  // 服务端改写项目文件前后保存并重新加载
 }
 
 interface ToolResult {
@@ -39,13 +52,23 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({
   writingMode = 'discuss',
   model = 'deepseek',
   onApiKeyChange,
-  apiKeyStatus = { deepseek: false, qwen: false }
+  apiKeyStatus = { deepseek: false, qwen: false },
+  onRevealLine,
+  activeFile,
+  projectFiles = {},
+  onRestoreSnapshot,
+  gitEnabled = false,
+  onToggleGit,
+  onCheckoutBranch,
+  chatSessionTitle = '',
+  onModifyProjectFiles
 }) => {
   const [showToolHistory, setShowToolHistory] = useState<boolean>(false);
   const [toolHistory, setToolHistory] = useState<ToolHistoryEntry[]>([]);
   const [showApiKeyModal, setShowApiKeyModal] = useState<boolean>(false);
-  const [chatSessionName, setChatSessionName] = useState<string>('');
-  const [activePanel, setActivePanel] = useState<'preview' | 'resources'>('preview');
+  const [activePanel, setActivePanel] = useState<'preview' | 'resources' | 'history'>('preview');
+  const [previewMode, setPreviewMode] = useState<'text' | 'pdf'>('text');
+  const [renderContext, setRenderContext] = useState<LatexRenderContext>({ references: [], images: [] });
 
   const handleApiKeySaved = (modelType: 'deepseek' | 'qwen', key: string) => {
     if (onApiKeyChange) {
@@ -74,7 +97,7 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({
   const saveChatHistory = () => {
     try {
       const chatData = {
-        sessionName: chatSessionName || `聊天记录_${new Date().toLocaleString('zh-CN')}`,
+        sessionName: chatSessionTitle || `聊天记录_${new Date().toLocaleString('zh-CN')}`,
         messages: messages,
         timestamp: new Date().toISOString(),
         model: model,
@@ -120,8 +143,6 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({
         }]);
       }
       localStorage.removeItem('chatMessages');
-      localStorage.removeItem('chatSessionName');
-      setChatSessionName('');
     }
   };
 
@@ -224,31 +245,44 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({
     input.click();
   };
 
-  const getPlainText = (latex: string): string => {
-    return latex
-      .replace(/\\begin{document}/g, '')
-      .replace(/\\end{document}/g, '')
-      .replace(/\\section{[^}]+}/g, (match) => `\n\n# ${match.replace(/\\section{([^}]+)}/, '$1')}\n`)
-      .replace(/\\subsection{[^}]+}/g, (match) => `\n## ${match.replace(/\\subsection{([^}]+)}/, '$1')}\n`)
-      .replace(/\\subsubsection{[^}]+}/g, (match) => `\n### ${match.replace(/\\subsubsection{([^}]+)}/, '$1')}\n`)
-      .replace(/\\title{[^}]+}/g, '')
-      .replace(/\\author{[^}]+}/g, '')
-      .replace(/\\date{[^}]+}/g, '')
-      .replace(/\\maketitle/g, '')
-      .replace(/\\usepackage{[^}]+}/g, '')
-      .replace(/\\documentclass{[^}]+}/g, '')
-      .trim();
+  // 加载预览所需的参考文献和图片（资源面板中可能已修改，切回预览时重新加载）
+  const loadRenderContext = async () => {
+    const [refsRes, imgsRes] = await Promise.all([
+      resourceService.getResources<Reference>('references'),
+      resourceService.getResources<ImageResource>('images')
+    ]);
+    setRenderContext({
+      references: refsRes.success
+        ? refsRes.data.resources.map(ref => ({
+            ...ref,
+            authors: Array.isArray(ref.authors) ? ref.authors : (ref.authors ? [ref.authors] : [])
+          }))
+        : [],
+      images: imgsRes.success ? imgsRes.data.resources : []
+    });
   };
 
-  const handleInsertReference = (reference: Reference) => {
-    const citation = `\\cite{${reference.citationKey}}`;
+  useEffect(() => {
+    if (activePanel === 'preview') {
+      loadRenderContext();
+    }
+  }, [activePanel]);
+
+  // 引用由服务器生成（条目缺少引用键时服务器会先按引用键模式生成）
+  const handleInsertReference = async (reference: Reference) => {
+    const result = await resourceService.insertResource('references', reference.id, 'latex');
+    if (!result.success) {
+      alert(result.error || '生成引用失败');
+      return;
+    }
+    const citation = result.data.insert_content;
     if (onUpdateContent) {
       onUpdateContent(editorContent + '\n' + citation);
     }
     if (setMessages) {
       setMessages([...messages, {
         role: 'agent',
-        content: `已插入引用：[${reference.citationKey}] ${reference.title}`
+        content: `已插入引用：${citation} ${reference.title}`
       }]);
     }
   };
@@ -376,11 +410,35 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({
             >
               📚 资源
             </button>
+            {onRestoreSnapshot && (
+              <button 
+                className={`panel-tab ${activePanel === 'history' ? 'active' : ''}`}
+                onClick={() => setActivePanel('history')}
+              >
+                🕘 历史
+              </button>
+            )}
           </div>
 
           {activePanel === 'preview' && (
             <>
-              <h2 className="panel-title">预览</h2>
+              <h2 className="panel-title">
+                预览
+                <div className="preview-mode-switch">
+                  <button
+                    className={previewMode === 'text' ? 'active' : ''}
+                    onClick={() => setPreviewMode('text')}
+                  >
+                    文本
+                  </button>
+                  <button
+                    className={previewMode === 'pdf' ? 'active' : ''}
+                    onClick={() => setPreviewMode('pdf')}
+                  >
+                    PDF
+                  </button>
+                </div>
+              </h2>
               
               {/* 工具历史记录 */}
               {showToolHistory && (
@@ -428,8 +486,17 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({
               )}
               
               {/* 预览内容 */}
-              <div className="preview-content">
-                <pre>{getPlainText(content)}</pre>
+              {previewMode === 'text' && (
+                <div className="preview-content">
+                  <ErrorBoundary>
+                    <LatexPreview content={content} context={renderContext} />
+                  </ErrorBoundary>
+                </div>
+              )}
+
+              {/* PDF 视图切换到文本时保持挂载，保留编译结果 */}
+              <div className={`pdf-preview-wrapper ${previewMode === 'pdf' ? '' : 'hidden'}`}>
+                <PdfPreview content={editorContent} file={activeFile} documentContent={content} onRevealLine={onRevealLine} />
               </div>
             </>
           )}
@@ -440,6 +507,19 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({
                 onInsertReference={handleInsertReference}
                 onInsertImage={handleInsertImage}
                 onInsertPdf={handleInsertPdf}
+                onModifyProjectFiles={onModifyProjectFiles}
+              />
+            </ErrorBoundary>
+          )}
+
+          {activePanel === 'history' && onRestoreSnapshot && (
+            <ErrorBoundary>
+              <HistoryPanel
+                currentFiles={projectFiles}
+                onRestore={onRestoreSnapshot}
+                gitEnabled={gitEnabled}
+                onToggleGit={onToggleGit}
+                onCheckoutBranch={onCheckoutBranch}
               />
             </ErrorBoundary>
           )}
@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import { projectService, ProjectInfo } from '../services/projectService';
+
+interface ProjectSwitcherProps {
+  activeProjectId: string | null;
+  onSwitch: (id: string) => void;  // 打开其他项目（由 App 保存当前项目后切换）
+}
+
+const ProjectSwitcher: React.FC<ProjectSwitcherProps> = ({ activeProjectId, onSwitch }) => {
+  const [projects, setProjects] = useState<ProjectInfo[]>([]);
+  const [open, setOpen] = useState<boolean>(false);
+  const [showArchived, setShowArchived] = useState<boolean>(false);
+
+  const loadProjects = async () => {
+    try {
+      const list = await projectService.listProjects();
+      setProjects(list.projects);
+    } catch (error) {
+      console.error('[ProjectSwitcher] 获取项目列表失败:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadProjects();
+  }, [activeProjectId]);
+
+  const activeProject = projects.find(project => project.id === activeProjectId);
+  const activeProjects = projects.filter(project => !project.archived);
+  const archivedProjects = projects.filter(project => project.archived);
+
+  // 执行项目操作后刷新列表，失败时提示
+  const runAction = async (action: () => Promise<unknown>, fallbackMessage: string) => {
+    try {
+      await action();
+      await loadProjects();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : fallbackMessage);
+    }
+  };
+
+  const handleCreate = () => {
+    const name = window.prompt('新项目名称', '未命名论文');
+    if (!name || !name.trim()) return;
+    const useGlobalLibrary = window.confirm('是否使用全局资源库？\n\n确定：与其他使用全局资源库的项目共享参考文献、图片等资源\n取消：为该项目创建独立的资源库');
+
+    runAction(async () => {
+      const project = await projectService.createProject(name.trim(), useGlobalLibrary);
+      setOpen(false);
+      onSwitch(project.id);
+    }, '创建项目失败');
+  };
+
+  const handleRename = (project: ProjectInfo) => {
+    const name = window.prompt('重命名项目', project.name);
+    if (name && name.trim() && name.trim() !== project.name) {
+      runAction(() => projectService.updateProject(project.id, { name: name.trim() }), '重命名项目失败');
+    }
+  };
+
+  const handleDelete = (project: ProjectInfo) => {
+    if (window.confirm(`确定删除项目「${project.name}」？论文文件、对话记录和项目资源库将一并删除，此操作无法撤销。`)) {
+      runAction(() => projectService.deleteProject(project.id), '删除项目失败');
+    }
+  };
+
+  const handleToggleLibrary = (project: ProjectInfo) => {
+    runAction(() => projectService.updateProject(project.id, { use_global_library: !project.use_global_library }), '切换资源库失败');
+  };
+
+  const renderProject = (project: ProjectInfo) => {
+    const isActive = project.id === activeProjectId;
+    return (
+      <div key={project.id} className={`project-item ${isActive ? 'active' : ''} ${project.archived ? 'archived' : ''}`}>
+        <div
+          className="project-item-main"
+          onClick={() => {
+            if (isActive || project.archived) return;
+            setOpen(false);
+            onSwitch(project.id);
+          }}
+          title={project.archived ? '已归档，恢复后才能打开' : isActive ? '当前项目' : '打开项目'}
+        >
+          <span className="project-item-name">{project.name}</span>
+          <span className="project-item-meta">
+            {project.use_global_library ? '全局资源库' : '独立资源库'} · {new Date(project.updated_at).toLocaleDateString('zh-CN')}
+          </span>
+        </div>
+        <div className="project-item-actions">
+          <button title="重命名" onClick={() => handleRename(project)}>✎</button>
+          {isActive && (
+            <button title={project.use_global_library ? '改用独立资源库' : '改用全局资源库'} onClick={() => handleToggleLibrary(project)}>📚</button>
+          )}
+          {!isActive && (
+            <button
+              title={project.archived ? '恢复' : '归档'}
+              onClick={() => runAction(() => projectService.updateProject(project.id, { archived: !project.archived }), '归档项目失败')}
+            >
+              {project.archived ? '↺' : '🗄'}
+            </button>
+          )}
+          {!isActive && <button title="删除" onClick={() => handleDelete(project)}>✕</button>}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="project-switcher">
+      <button className="project-switcher-toggle" onClick={() => setOpen(!open)} title="切换项目">
+        <span className="project-switcher-name">📁 {activeProject ? activeProject.name : '未打开项目'}</span>
+        <span>{open ? '▴' : '▾'}</span>
+      </button>
+
+      {open && (
+        <div className="project-switcher-menu">
+          <div className="project-list">
+            {activeProjects.map(renderProject)}
+          </div>
+
+          {archivedProjects.length > 0 && (
+            <>
+              <button className="project-archived-toggle" onClick={() => setShowArchived(!showArchived)}>
+                {showArchived ? '▼' : '▶'} 已归档 ({archivedProjects.length})
+              </button>
+              {showArchived && (
+                <div className="project-list">
+                  {archivedProjects.map(renderProject)}
+                </div>
+              )}
+            </>
+          )}
+
+          <button className="project-create" onClick={handleCreate}>＋ 新建项目</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectSwitcher;
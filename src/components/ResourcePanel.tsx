@@ -6,7 +6,20 @@ import {
   PdfResource, 
   DataFile, 
   CodeSnippet, 
-  Note 
+  Note,
+  ReferenceFormat,
+  ReferenceImportAction,
+  ReferenceImportPreview,
+  CitationStyle,
+  BibliographyFormat,
+  ReferenceDuplicateGroup,
+  ReferenceMergeField,
+  ReferenceMergeRequest,
+  ReferenceMergeResult,
+  ResourceResponse,
+  CitationCheckResult,
+  CitationKeyRename,
+  CitationKeyRenameResult
 } from '../services/resourceService';
 
 export interface ResourcePanelProps {
@@ -16,6 +29,7 @@ export interface ResourcePanelProps {
   onInsertDataFile?: (dataFile: DataFile) => void;
   onInsertCodeSnippet?: (codeSnippet: CodeSnippet) => void;
   onInsertNote?: (note: Note) => void;
+  onModifyProjectFiles?: (action: () => Promise<unknown>) => Promise<void>;  // 服务端改写项目文件（合并文献时改写 \cite 键）前后保存并重新加载编辑器内容
 }
 
 const modernStyles: { [key: string]: React.CSSProperties } = {
@@ -352,6 +366,53 @@ const modernStyles: { [key: string]: React.CSSProperties } = {
     cursor: 'pointer',
     boxSizing: 'border-box',
   },
+  previewList: {
+    maxHeight: '320px',
+    overflowY: 'auto',
+    marginBottom: '10px',
+    border: '1px solid #e2e8f0',
+    borderRadius: '8px',
+    backgroundColor: '#ffffff',
+  },
+  previewItem: {
+    display: 'flex',
+    alignItems: 'flex-start',
+    gap: '8px',
+    padding: '8px 10px',
+    borderBottom: '1px solid #f1f5f9',
+    fontSize: '12px',
+  },
+  previewDetail: {
+    marginTop: '2px',
+    color: '#64748b',
+    lineHeight: 1.5,
+    wordBreak: 'break-word',
+  },
+  mergeOption: {
+    display: 'flex',
+    alignItems: 'flex-start',
+    gap: '6px',
+    marginTop: '2px',
+    cursor: 'pointer',
+  },
+  previewAction: {
+    flexShrink: 0,
+    padding: '4px 6px',
+    border: '1px solid #e2e8f0',
+    borderRadius: '6px',
+    fontSize: '12px',
+    backgroundColor: '#ffffff',
+  },
+  headerActions: {
+    display: 'flex',
+    gap: '8px',
+  },
+  formHint: {
+    margin: '0 0 10px',
+    fontSize: '12px',
+    color: '#64748b',
+    lineHeight: 1.6,
+  },
   formActions: {
     display: 'flex',
     gap: '10px',
@@ -441,6 +502,62 @@ const modernStyles: { [key: string]: React.CSSProperties } = {
   },
 };
 
+// 导入预览中条目状态的显示样式
+const importStatusStyles: Record<string, { label: string; color: string; background: string }> = {
+  new: { label: '新条目', color: '#16a34a', background: '#f0fdf4' },
+  duplicate: { label: '重复', color: '#64748b', background: '#f1f5f9' },
+  conflict: { label: '冲突', color: '#d97706', background: '#fffbeb' },
+};
+
+const referenceFieldLabels: Record<string, string> = {
+  citationKey: '引用键',
+  title: '标题',
+  authors: '作者',
+  year: '年份',
+  journal: '期刊',
+  doi: 'DOI',
+  arxivId: 'arXiv ID',
+  url: '链接',
+  abstract: '摘要',
+  entryType: '类型',
+};
+
+const duplicateReasonLabels: Record<string, string> = {
+  doi: 'DOI 相同',
+  arxiv: 'arXiv ID 相同',
+  title: '标题、年份和第一作者相同',
+};
+
+// 合并时逐项选择取值的字段（按显示顺序）
+const mergeFields: ReferenceMergeField[] = ['citationKey', 'title', 'authors', 'year', 'journal', 'doi', 'arxivId', 'url', 'abstract', 'entryType'];
+
+const displayFieldValue = (value: unknown): string => {
+  if (Array.isArray(value)) return value.join(', ');
+  const text = value === undefined || value === null ? '' : String(value);
+  return text.length > 120 ? `${text.slice(0, 120)}…` : text;
+};
+
+// 默认取值：保留的条目有值时用它的值，否则取组内第一个有值的条目
+const defaultMergeChoices = (group: ReferenceDuplicateGroup, targetId: string): ReferenceMergeRequest['choices'] => {
+  const ordered = [...group.references].sort((a, b) => (a.id === targetId ? -1 : b.id === targetId ? 1 : 0));
+  const choices: ReferenceMergeRequest['choices'] = {};
+  for (const field of mergeFields) {
+    const source = ordered.find(reference => displayFieldValue(reference[field]) !== '');
+    if (source) choices[field] = source.id;
+  }
+  return choices;
+};
+
+// 根据扩展名判断参考文献文件格式，无法判断时由服务器根据内容识别
+const formatFromFileName = (name: string): ReferenceFormat | 'auto' => {
+  const extension = name.toLowerCase().split('.').pop();
+  if (extension === 'bib' || extension === 'bibtex') return 'bibtex';
+  if (extension === 'ris') return 'ris';
+  if (extension === 'json') return 'csljson';
+  if (extension === 'xml') return 'endnote';
+  return 'auto';
+};
+
 const tabs: { id: 'references' | 'images' | 'pdfs' | 'datafiles' | 'codesnippets' | 'notes'; label: string; icon: string }[] = [
   { id: 'references', label: '参考文献', icon: '📚' },
   { id: 'images', label: '图片', icon: '🖼️' },
@@ -456,7 +573,8 @@ const ResourcePanel: React.FC<ResourcePanelProps> = ({
   onInsertPdf,
   onInsertDataFile,
   onInsertCodeSnippet,
-  onInsertNote
+  onInsertNote,
+  onModifyProjectFiles
 }) => {
   const [activeTab, setActiveTab] = useState<'references' | 'images' | 'pdfs' | 'datafiles' | 'codesnippets' | 'notes'>('references');
   const [references, setReferences] = useState<Reference[]>([]);
@@ -466,6 +584,24 @@ const ResourcePanel: React.FC<ResourcePanelProps> = ({
   const [codeSnippets, setCodeSnippets] = useState<CodeSnippet[]>([]);
   const [notes, setNotes] = useState<Note[]>([]);
   const [showAddReference, setShowAddReference] = useState(false);
+  const [showReferenceExchange, setShowReferenceExchange] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ReferenceFormat>('bibtex');
+  const [importPreview, setImportPreview] = useState<(ReferenceImportPreview & { fileName: string }) | null>(null);
+  const [importActions, setImportActions] = useState<ReferenceImportAction[]>([]);
+  const [exchangeMessage, setExchangeMessage] = useState<string | null>(null);
+  const [citationStyle, setCitationStyle] = useState<CitationStyle>('gb-t-7714');
+  const [bibliographyFormat, setBibliographyFormat] = useState<BibliographyFormat>('text');
+  const [bibliography, setBibliography] = useState<string | null>(null);
+  const [duplicateGroups, setDuplicateGroups] = useState<ReferenceDuplicateGroup[] | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState<string>('');
+  const [mergeChoices, setMergeChoices] = useState<ReferenceMergeRequest['choices']>({});
+  const [mergeMessage, setMergeMessage] = useState<string | null>(null);
+  const [citationCheck, setCitationCheck] = useState<CitationCheckResult | null>(null);
+  const [keyPattern, setKeyPattern] = useState('');
+  const [keyOnlyMissing, setKeyOnlyMissing] = useState(true);
+  const [keyRenames, setKeyRenames] = useState<(CitationKeyRename & { selected: boolean })[] | null>(null);
+  const [keyMessage, setKeyMessage] = useState<string | null>(null);
+  const [pdfMessage, setPdfMessage] = useState<string | null>(null);
   const [showAddCodeSnippet, setShowAddCodeSnippet] = useState(false);
   const [showAddNote, setShowAddNote] = useState(false);
   const [editingNote, setEditingNote] = useState<string | null>(null);
@@ -592,8 +728,8 @@ const ResourcePanel: React.FC<ResourcePanelProps> = ({
   };
 
   const handleAddReference = async () => {
-    if (!newReference.title || !newReference.citationKey) {
-      alert('请填写标题和引用键');
+    if (!newReference.title) {
+      alert('请填写标题');
       return;
     }
 
@@ -607,10 +743,14 @@ const ResourcePanel: React.FC<ResourcePanelProps> = ({
       doi: newReference.doi,
       url: newReference.url,
       abstract: newReference.abstract,
-      citationKey: newReference.citationKey
+      citationKey: newReference.citationKey || ''  // 留空时由服务器按引用键模式生成
     };
 
-    const result = await resourceService.addResource('references', reference);
+    let result = await resourceService.addResource('references', reference);
+    if (!result.success && result.data.duplicate_key) {
+      if (!confirm(`${result.error}\n\n仍然作为新条目添加？`)) return;
+      result = await resourceService.addResource('references', reference, true);
+    }
     if (result.success && result.data.resource_data) {
       setReferences([...references, result.data.resource_data as Reference]);
     } else {
@@ -633,6 +773,226 @@ const ResourcePanel: React.FC<ResourcePanelProps> = ({
     }
   };
 
+  // 选择参考文献文件后先预览：标出新条目、重复和冲突，确认后再导入
+  const handleReferenceFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = async (e) => {
+      const result = await resourceService.previewReferenceImport(e.target?.result as string, formatFromFileName(file.name));
+      if (!result.success || !result.data) {
+        alert(result.error || '解析参考文献文件失败');
+        return;
+      }
+      setImportPreview({ ...result.data, fileName: file.name });
+      setImportActions(result.data.items.map(item => item.action));
+      setExchangeMessage(null);
+    };
+    reader.readAsText(file);
+  };
+
+  const handleConfirmImport = async () => {
+    if (!importPreview) return;
+
+    const items = importPreview.items.map((item, i) => ({
+      reference: item.reference,
+      action: importActions[i],
+      existing_id: item.existing_id
+    }));
+    const result = await resourceService.importReferences(items);
+    if (!result.success || !result.data) {
+      alert(result.error || '导入参考文献失败');
+      return;
+    }
+
+    const { added, merged, replaced, skipped, renamed } = result.data;
+    const parts = [`新增 ${added.length} 条`];
+    if (renamed.length > 0) parts.push(`其中 ${renamed.length} 条引用键重复已重命名（${renamed.map(r => `${r.from} → ${r.to}`).join('，')}）`);
+    if (merged.length > 0) parts.push(`合并 ${merged.length} 条`);
+    if (replaced.length > 0) parts.push(`替换 ${replaced.length} 条`);
+    if (skipped.length > 0) parts.push(`跳过 ${skipped.length} 条`);
+    setExchangeMessage(`${importPreview.fileName}：${parts.join('，')}`);
+    setImportPreview(null);
+    await loadResources();
+  };
+
+  // 导出全部参考文献，或当前项目正文中引用的条目
+  const handleReferenceExport = async (scope: 'all' | 'cited') => {
+    const result = await resourceService.exportReferences(exportFormat, scope);
+    if (!result.success || !result.data) {
+      alert(result.error || '导出参考文献失败');
+      return;
+    }
+
+    const { content, count, missing, file_name, mime_type } = result.data;
+    if (count > 0) {
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(new Blob([content], { type: mime_type }));
+      link.download = file_name;
+      link.click();
+      URL.revokeObjectURL(link.href);
+    }
+    setExchangeMessage(
+      `已导出 ${count} 条参考文献` +
+      (missing.length > 0 ? `；正文中引用但库中没有：${missing.join('，')}` : '')
+    );
+  };
+
+  // 显示重复组中的第一组，保留的条目默认为组内第一条
+  const showDuplicateGroups = (groups: ReferenceDuplicateGroup[]) => {
+    setDuplicateGroups(groups);
+    if (groups.length > 0) {
+      setMergeTargetId(groups[0].references[0].id);
+      setMergeChoices(defaultMergeChoices(groups[0], groups[0].references[0].id));
+    }
+  };
+
+  const handleFindDuplicates = async () => {
+    if (duplicateGroups) {
+      setDuplicateGroups(null);
+      return;
+    }
+    const result = await resourceService.findDuplicateReferences();
+    if (!result.success || !result.data) {
+      alert(result.error || '查找重复参考文献失败');
+      return;
+    }
+    setMergeMessage(null);
+    showDuplicateGroups(result.data.groups);
+  };
+
+  const handleMergeTargetChange = (targetId: string) => {
+    if (!duplicateGroups) return;
+    setMergeTargetId(targetId);
+    setMergeChoices(defaultMergeChoices(duplicateGroups[0], targetId));
+  };
+
+  // 合并当前组（正文中被合并条目的引用键由服务器改写，之后重新加载编辑器内容）
+  const handleMergeDuplicates = async () => {
+    if (!duplicateGroups || duplicateGroups.length === 0) return;
+    const group = duplicateGroups[0];
+    const request: ReferenceMergeRequest = {
+      target_id: mergeTargetId,
+      source_ids: group.references.filter(reference => reference.id !== mergeTargetId).map(reference => reference.id),
+      choices: mergeChoices
+    };
+
+    let result: ResourceResponse<ReferenceMergeResult | null> | undefined;
+    const merge = async () => {
+      result = await resourceService.mergeReferences(request);
+    };
+    if (onModifyProjectFiles) {
+      await onModifyProjectFiles(merge);
+    } else {
+      await merge();
+    }
+
+    if (!result?.success || !result.data) {
+      alert(result?.error || '合并参考文献失败');
+      return;
+    }
+    const { merged, removed, rewritten_files, rewritten_citations } = result.data;
+    setMergeMessage(
+      `已将 ${removed.length} 条合并到 [${merged.citationKey}]` +
+      (rewritten_citations > 0 ? `，改写正文中 ${rewritten_citations} 处引用（${rewritten_files.join('、')}）` : '')
+    );
+    showDuplicateGroups(duplicateGroups.slice(1));
+    await loadResources();
+  };
+
+  const handleSkipDuplicateGroup = () => {
+    if (!duplicateGroups) return;
+    showDuplicateGroups(duplicateGroups.slice(1));
+  };
+
+  const loadCitationCheck = async () => {
+    const result = await resourceService.checkCitations();
+    if (!result.success || !result.data) {
+      alert(result.error || '检查引用失败');
+      return;
+    }
+    setCitationCheck(result.data);
+    if (!keyPattern) setKeyPattern(result.data.key_pattern);
+  };
+
+  const handleToggleCitationCheck = async () => {
+    if (citationCheck) {
+      setCitationCheck(null);
+      setKeyRenames(null);
+      return;
+    }
+    setKeyMessage(null);
+    await loadCitationCheck();
+  };
+
+  // 按引用键模式生成新键，列出会变化的条目供确认
+  const handlePreviewKeyRenames = async () => {
+    const result = await resourceService.previewCitationKeyRenames(keyPattern, keyOnlyMissing);
+    if (!result.success || !result.data) {
+      alert(result.error || '生成引用键失败');
+      return;
+    }
+    setKeyRenames(result.data.renames.map(rename => ({ ...rename, selected: true })));
+    setKeyMessage(result.data.renames.length === 0 ? '所有条目的引用键都已符合该模式' : null);
+  };
+
+  // 重命名选中的引用键（正文中的引用由服务器改写，之后重新加载编辑器内容）
+  const handleApplyKeyRenames = async () => {
+    const selected = (keyRenames || []).filter(rename => rename.selected);
+    if (selected.length === 0) return;
+
+    let result: ResourceResponse<CitationKeyRenameResult | null> | undefined;
+    const rename = async () => {
+      result = await resourceService.renameCitationKeys(selected.map(item => ({ id: item.id, key: item.to })));
+    };
+    if (onModifyProjectFiles) {
+      await onModifyProjectFiles(rename);
+    } else {
+      await rename();
+    }
+
+    if (!result?.success || !result.data) {
+      alert(result?.error || '重命名引用键失败');
+      return;
+    }
+    const { renamed, rewritten_files, rewritten_citations } = result.data;
+    setKeyMessage(
+      `已重命名 ${renamed} 个引用键` +
+      (rewritten_citations > 0 ? `，改写正文中 ${rewritten_citations} 处引用（${rewritten_files.join('、')}）` : '')
+    );
+    setKeyRenames(null);
+    await loadResources();
+    await loadCitationCheck();
+  };
+
+  // 按所选样式生成参考文献列表（只包括正文中引用的条目，按首次引用的顺序编号）
+  const handleFormatBibliography = async () => {
+    const result = await resourceService.formatBibliography(citationStyle, bibliographyFormat, 'cited');
+    if (!result.success || !result.data) {
+      alert(result.error || '生成参考文献列表失败');
+      return;
+    }
+
+    const { content, count, missing } = result.data;
+    setBibliography(count > 0 ? content : null);
+    setExchangeMessage(
+      (count > 0 ? `已生成 ${count} 条参考文献` : '正文中没有引用参考文献库中的条目') +
+      (missing.length > 0 ? `；正文中引用但库中没有：${missing.join('，')}` : '')
+    );
+  };
+
+  const handleCopyBibliography = async () => {
+    if (!bibliography) return;
+    try {
+      await navigator.clipboard.writeText(bibliography);
+      setExchangeMessage('参考文献列表已复制到剪贴板');
+    } catch (err) {
+      alert('复制失败，请手动选择文本复制');
+    }
+  };
+
   const handleImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -687,6 +1047,8 @@ const ResourcePanel: React.FC<ResourcePanelProps> = ({
       const result = await resourceService.addResource('pdfs', pdfResource);
       if (result.success && result.data.resource_data) {
         setPdfs([...pdfs, result.data.resource_data as PdfResource]);
+        // 上传后尝试从PDF中识别文献信息并关联参考文献，识别不出时可手动选择
+        await handleLinkPdf(result.data.resource_id, undefined, true);
       } else {
         alert(result.error || '上传PDF失败');
       }
@@ -694,6 +1056,43 @@ const ResourcePanel: React.FC<ResourcePanelProps> = ({
     reader.readAsDataURL(file);
   };
 
+  // 关联后两边的条目都会变化（可能新建参考文献），重新加载参考文献和PDF
+  const reloadLinkedResources = async () => {
+    const [refsRes, pdfsRes] = await Promise.all([
+      resourceService.getResources('references'),
+      resourceService.getResources('pdfs')
+    ]);
+    if (refsRes.success) setReferences(refsRes.data.resources as Reference[]);
+    if (pdfsRes.success) setPdfs(pdfsRes.data.resources as PdfResource[]);
+  };
+
+  // 关联PDF与参考文献：不指定 referenceId 时自动识别；quiet 时识别失败只提示，不弹窗
+  const handleLinkPdf = async (pdfId: string, referenceId?: string, quiet: boolean = false) => {
+    const result = await resourceService.linkPdfReference(pdfId, referenceId);
+    if (!result.success || !result.data) {
+      if (quiet) {
+        setPdfMessage(result.error || '关联参考文献失败');
+      } else {
+        alert(result.error || '关联参考文献失败');
+      }
+      return;
+    }
+    setPdfMessage(result.data.created
+      ? `已添加到参考文献库并关联 [${result.data.citation_key}]`
+      : `已关联参考文献 [${result.data.citation_key}]`);
+    await reloadLinkedResources();
+  };
+
+  const handleUnlinkPdf = async (pdfId: string) => {
+    const result = await resourceService.unlinkPdfReference(pdfId);
+    if (!result.success) {
+      alert(result.error || '解除关联失败');
+      return;
+    }
+    setPdfMessage(null);
+    await reloadLinkedResources();
+  };
+
   const handleDeleteImage = async (id: string) => {
     if (window.confirm('确定要删除这张图片吗？')) {
       await resourceService.deleteResource('images', id);
@@ -907,19 +1306,324 @@ const ResourcePanel: React.FC<ResourcePanelProps> = ({
     <div style={modernStyles.section}>
       <div style={modernStyles.sectionHeader}>
         <h3 style={modernStyles.sectionTitle}>参考文献 ({references.length})</h3>
-        <button 
-          style={modernStyles.addButton}
-          onClick={() => setShowAddReference(true)}
-        >
-          + 添加
-        </button>
+        <div style={modernStyles.headerActions}>
+          <button 
+            style={modernStyles.uploadButton}
+            onClick={handleFindDuplicates}
+          >
+            🔗 查重
+          </button>
+          <button 
+            style={modernStyles.uploadButton}
+            onClick={handleToggleCitationCheck}
+          >
+            🔑 引用键
+          </button>
+          <button 
+            style={modernStyles.uploadButton}
+            onClick={() => setShowReferenceExchange(!showReferenceExchange)}
+          >
+            📑 导入/导出
+          </button>
+          <button 
+            style={modernStyles.addButton}
+            onClick={() => setShowAddReference(true)}
+          >
+            + 添加
+          </button>
+        </div>
       </div>
 
+      {duplicateGroups && (
+        <div style={modernStyles.form}>
+          {mergeMessage && <p style={modernStyles.formHint}>{mergeMessage}</p>}
+          {duplicateGroups.length === 0 ? (
+            <>
+              <p style={modernStyles.formHint}>没有发现重复的参考文献（按 DOI、arXiv ID，或标题 + 年份 + 第一作者判断）。</p>
+              <div style={modernStyles.formActions}>
+                <button style={modernStyles.cancelButton} onClick={() => setDuplicateGroups(null)}>关闭</button>
+              </div>
+            </>
+          ) : (
+            <>
+              <p style={modernStyles.formHint}>
+                第 1 组，共 {duplicateGroups.length} 组（{duplicateGroups[0].reasons.map(reason => duplicateReasonLabels[reason]).join('、')}）。
+                选择保留的条目和各字段的取值，正文中其他条目的引用键会改为合并后的引用键。
+              </p>
+              <select
+                style={modernStyles.formSelect}
+                value={mergeTargetId}
+                onChange={(e) => handleMergeTargetChange(e.target.value)}
+              >
+                {duplicateGroups[0].references.map(reference => (
+                  <option key={reference.id} value={reference.id}>保留：[{reference.citationKey}] {reference.title}</option>
+                ))}
+              </select>
+              <div style={modernStyles.previewList}>
+                {mergeFields.map(field => {
+                  const candidates = duplicateGroups[0].references.filter(reference => displayFieldValue(reference[field]) !== '');
+                  if (candidates.length === 0) return null;
+                  const distinct = candidates.filter((reference, i) =>
+                    candidates.findIndex(other => displayFieldValue(other[field]) === displayFieldValue(reference[field])) === i
+                  );
+                  return (
+                    <div key={field} style={modernStyles.previewItem}>
+                      <strong style={{ width: '56px', flexShrink: 0 }}>{referenceFieldLabels[field]}</strong>
+                      <div style={{ flex: 1, minWidth: 0 }}>
+                        {distinct.length === 1 ? (
+                          <div style={modernStyles.previewDetail}>{displayFieldValue(distinct[0][field])}</div>
+                        ) : distinct.map(reference => (
+                          <label key={reference.id} style={modernStyles.mergeOption}>
+                            <input
+                              type="radio"
+                              name={`merge-${field}`}
+                              checked={displayFieldValue(duplicateGroups[0].references.find(item => item.id === mergeChoices[field])?.[field]) === displayFieldValue(reference[field])}
+                              onChange={() => setMergeChoices({ ...mergeChoices, [field]: reference.id })}
+                            />
+                            <span style={modernStyles.previewDetail}>{displayFieldValue(reference[field])}</span>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+              <div style={modernStyles.formActions}>
+                <button style={modernStyles.saveButton} onClick={handleMergeDuplicates}>合并</button>
+                <button style={modernStyles.cancelButton} onClick={handleSkipDuplicateGroup}>跳过此组</button>
+                <button style={modernStyles.cancelButton} onClick={() => setDuplicateGroups(null)}>关闭</button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      {citationCheck && (
+        <div style={modernStyles.form}>
+          <p style={modernStyles.formHint}>
+            正文引用了 {citationCheck.cited_count} 个键。
+            {citationCheck.missing.length === 0 && citationCheck.uncited.length === 0 && citationCheck.without_key.length === 0 && ' 正文引用与参考文献库一致。'}
+          </p>
+          {(citationCheck.missing.length > 0 || citationCheck.uncited.length > 0 || citationCheck.without_key.length > 0) && (
+            <div style={modernStyles.previewList}>
+              {citationCheck.missing.map(item => (
+                <div key={`missing-${item.key}`} style={modernStyles.previewItem}>
+                  <span style={{ ...modernStyles.citationKey, color: '#dc2626', backgroundColor: '#fef2f2', flexShrink: 0 }}>库中没有</span>
+                  <div style={{ flex: 1, minWidth: 0 }}>
+                    <strong>{item.key}</strong>
+                    <div style={modernStyles.previewDetail}>
+                      {item.locations.map(location => `${location.file}:${location.line}`).join('，')}
+                    </div>
+                  </div>
+                </div>
+              ))}
+              {citationCheck.uncited.map(item => (
+                <div key={`uncited-${item.id}`} style={modernStyles.previewItem}>
+                  <span style={{ ...modernStyles.citationKey, color: '#64748b', backgroundColor: '#f1f5f9', flexShrink: 0 }}>未引用</span>
+                  <div style={{ flex: 1, minWidth: 0 }}><strong>[{item.citationKey || item.id}]</strong> {item.title}</div>
+                </div>
+              ))}
+              {citationCheck.without_key.map(item => (
+                <div key={`without-${item.id}`} style={modernStyles.previewItem}>
+                  <span style={{ ...modernStyles.citationKey, color: '#d97706', backgroundColor: '#fffbeb', flexShrink: 0 }}>缺少引用键</span>
+                  <div style={{ flex: 1, minWidth: 0 }}>{item.title}</div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <p style={modernStyles.formHint}>
+            批量生成引用键，可用占位符：{citationCheck.key_tokens.join('、')}（如 authorYEARfirstword → smith2020deep），重复时追加 a、b…。正文中的引用会同步改写。
+          </p>
+          <input
+            style={modernStyles.formInput}
+            placeholder="引用键模式"
+            value={keyPattern}
+            onChange={(e) => {
+              setKeyPattern(e.target.value);
+              setKeyRenames(null);
+            }}
+          />
+          <label style={{ ...modernStyles.mergeOption, marginBottom: '10px', fontSize: '12px' }}>
+            <input
+              type="checkbox"
+              checked={keyOnlyMissing}
+              onChange={(e) => {
+                setKeyOnlyMissing(e.target.checked);
+                setKeyRenames(null);
+              }}
+            />
+            <span>只处理缺少引用键的条目</span>
+          </label>
+          {keyRenames && keyRenames.length > 0 && (
+            <div style={modernStyles.previewList}>
+              {keyRenames.map((rename, i) => (
+                <label key={rename.id} style={{ ...modernStyles.previewItem, cursor: 'pointer' }}>
+                  <input
+                    type="checkbox"
+                    checked={rename.selected}
+                    onChange={(e) => setKeyRenames(keyRenames.map((item, j) => (j === i ? { ...item, selected: e.target.checked } : item)))}
+                  />
+                  <div style={{ flex: 1, minWidth: 0 }}>
+                    <div>{rename.from} → <strong>{rename.to}</strong></div>
+                    <div style={modernStyles.previewDetail}>{rename.title}</div>
+                  </div>
+                </label>
+              ))}
+            </div>
+          )}
+          {keyMessage && <p style={modernStyles.formHint}>{keyMessage}</p>}
+          <div style={modernStyles.formActions}>
+            {keyRenames && keyRenames.length > 0 ? (
+              <>
+                <button style={modernStyles.saveButton} onClick={handleApplyKeyRenames}>重命名选中的引用键</button>
+                <button style={modernStyles.cancelButton} onClick={() => setKeyRenames(null)}>取消</button>
+              </>
+            ) : (
+              <>
+                <button style={modernStyles.addButton} onClick={handlePreviewKeyRenames}>生成引用键</button>
+                <button style={modernStyles.cancelButton} onClick={() => setCitationCheck(null)}>关闭</button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {showReferenceExchange && (
+        <div style={modernStyles.form}>
+          {importPreview ? (
+            <>
+              <p style={modernStyles.formHint}>
+                {importPreview.fileName}（{importPreview.format}）：共 {importPreview.items.length} 条，请确认每条的处理方式
+                {importPreview.errors.length > 0 && `；${importPreview.errors.length} 处解析失败（${importPreview.errors.map(err => `第 ${err.line} 行：${err.message}`).join('；')}）`}
+              </p>
+              <div style={modernStyles.previewList}>
+                {importPreview.items.map((item, i) => {
+                  const status = importStatusStyles[item.status];
+                  return (
+                    <div key={item.index} style={modernStyles.previewItem}>
+                      <span style={{ ...modernStyles.citationKey, color: status.color, backgroundColor: status.background, flexShrink: 0 }}>
+                        {status.label}
+                      </span>
+                      <div style={{ flex: 1, minWidth: 0 }}>
+                        <div><strong>[{item.reference.citationKey}]</strong> {item.reference.title}</div>
+                        {item.status !== 'new' && (
+                          <div style={modernStyles.previewDetail}>
+                            库中条目 [{item.existing_key}]
+                            {item.differences?.map(diff => (
+                              <div key={diff.field}>
+                                {referenceFieldLabels[diff.field] || diff.field}：{String(diff.existing)} → {String(diff.incoming)}
+                              </div>
+                            ))}
+                            {item.missing_fields && item.missing_fields.length > 0 && (
+                              <div>可补充：{item.missing_fields.map(field => referenceFieldLabels[field] || field).join('、')}</div>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                      <select
+                        style={modernStyles.previewAction}
+                        value={importActions[i]}
+                        onChange={(e) => setImportActions(importActions.map((action, j) => (j === i ? e.target.value as ReferenceImportAction : action)))}
+                      >
+                        {item.status === 'new' ? (
+                          <option value="add">导入</option>
+                        ) : (
+                          <>
+                            <option value="merge">合并（补充缺少的字段）</option>
+                            <option value="replace">替换库中条目</option>
+                            <option value="add">作为新条目导入</option>
+                          </>
+                        )}
+                        <option value="skip">跳过</option>
+                      </select>
+                    </div>
+                  );
+                })}
+              </div>
+              <div style={modernStyles.formActions}>
+                <button style={modernStyles.saveButton} onClick={handleConfirmImport}>确认导入</button>
+                <button style={modernStyles.cancelButton} onClick={() => setImportPreview(null)}>取消</button>
+              </div>
+            </>
+          ) : (
+            <>
+              <p style={modernStyles.formHint}>
+                支持 BibTeX、RIS、CSL-JSON 和 EndNote XML。导入前会先列出新条目、与库中重复或冲突的条目，由你决定合并、替换还是跳过。
+              </p>
+              <select
+                style={modernStyles.formSelect}
+                value={exportFormat}
+                onChange={(e) => setExportFormat(e.target.value as ReferenceFormat)}
+              >
+                <option value="bibtex">导出格式：BibTeX (.bib)</option>
+                <option value="ris">导出格式：RIS (.ris)</option>
+                <option value="csljson">导出格式：CSL-JSON (.json)</option>
+                <option value="endnote">导出格式：EndNote XML (.xml)</option>
+              </select>
+              {exchangeMessage && <p style={modernStyles.formHint}>{exchangeMessage}</p>}
+              <div style={modernStyles.formActions}>
+                <label style={modernStyles.uploadButton}>
+                  <input
+                    type="file"
+                    accept=".bib,.bibtex,.ris,.json,.xml,text/plain"
+                    onChange={handleReferenceFileSelect}
+                    style={{ display: 'none' }}
+                  />
+                  <span>📥 导入文件</span>
+                </label>
+                <button style={modernStyles.addButton} onClick={() => handleReferenceExport('all')}>📤 导出全部</button>
+                <button style={modernStyles.addButton} onClick={() => handleReferenceExport('cited')}>📤 导出已引用</button>
+              </div>
+              <p style={{ ...modernStyles.formHint, marginTop: '12px' }}>
+                按引用样式生成正文中已引用文献的参考文献列表（顺序编码制按首次引用的顺序编号）。
+              </p>
+              <div style={modernStyles.formActions}>
+                <select
+                  style={modernStyles.formSelect}
+                  value={citationStyle}
+                  onChange={(e) => setCitationStyle(e.target.value as CitationStyle)}
+                >
+                  <option value="gb-t-7714">GB/T 7714-2015</option>
+                  <option value="apa">APA 7</option>
+                  <option value="ieee">IEEE</option>
+                  <option value="mla">MLA 9</option>
+                  <option value="chicago">Chicago（作者-年份）</option>
+                </select>
+                <select
+                  style={modernStyles.formSelect}
+                  value={bibliographyFormat}
+                  onChange={(e) => setBibliographyFormat(e.target.value as BibliographyFormat)}
+                >
+                  <option value="text">纯文本</option>
+                  <option value="markdown">Markdown</option>
+                  <option value="latex">LaTeX</option>
+                  <option value="html">HTML</option>
+                </select>
+              </div>
+              {bibliography && (
+                <textarea
+                  style={{ ...modernStyles.formTextarea, minHeight: '160px', fontSize: '12px' }}
+                  value={bibliography}
+                  readOnly
+                />
+              )}
+              <div style={modernStyles.formActions}>
+                <button style={modernStyles.addButton} onClick={handleFormatBibliography}>🎓 生成参考文献列表</button>
+                {bibliography && (
+                  <button style={modernStyles.cancelButton} onClick={handleCopyBibliography}>📋 复制</button>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
       {showAddReference && (
         <div style={modernStyles.form}>
           <input
             style={modernStyles.formInput}
-            placeholder="引用键 (如: smith2024)"
+            placeholder="引用键 (如: smith2024，留空自动生成)"
             value={newReference.citationKey}
             onChange={(e) => setNewReference({ ...newReference, citationKey: e.target.value })}
           />
@@ -1052,6 +1756,17 @@ const ResourcePanel: React.FC<ResourcePanelProps> = ({
                   </a>
                 </div>
               )}
+              {ref.pdfId && pdfs.some(pdf => pdf.id === ref.pdfId) && (
+                <div style={{marginTop: '4px'}}>
+                  <span
+                    style={{...modernStyles.link, cursor: 'pointer'}}
+                    onClick={() => setActiveTab('pdfs')}
+                    title="查看关联的PDF"
+                  >
+                    📄 {pdfs.find(pdf => pdf.id === ref.pdfId)?.name}
+                  </span>
+                </div>
+              )}
               {ref.abstract && (
                 <div style={modernStyles.abstract}>
                   <details>
@@ -1151,11 +1866,15 @@ const ResourcePanel: React.FC<ResourcePanelProps> = ({
         </label>
       </div>
 
+      {pdfMessage && <p style={modernStyles.formHint}>{pdfMessage}</p>}
+
       <div style={modernStyles.resourceList}>
         {pdfs.length === 0 ? (
           <div style={modernStyles.emptyState}>暂无PDF文献</div>
         ) : (
-          pdfs.map(pdf => (
+          pdfs.map(pdf => {
+            const linkedReference = references.find(ref => ref.id === pdf.referenceId);
+            return (
             <div key={pdf.id} style={modernStyles.resourceItem}>
               <div style={{display: 'flex', alignItems: 'flex-start'}}>
                 <div style={modernStyles.pdfIcon}>📄</div>
@@ -1165,6 +1884,45 @@ const ResourcePanel: React.FC<ResourcePanelProps> = ({
                     <span>{formatFileSize(pdf.fileSize)}</span>
                     <span>{new Date(pdf.uploadDate).toLocaleDateString('zh-CN')}</span>
                   </div>
+                  {linkedReference ? (
+                    <div style={{...modernStyles.itemMeta, alignItems: 'center', marginBottom: '8px'}}>
+                      <span
+                        style={{...modernStyles.citationKey, cursor: 'pointer'}}
+                        onClick={() => setActiveTab('references')}
+                        title={linkedReference.title}
+                      >
+                        [{linkedReference.citationKey}]
+                      </span>
+                      <span>{linkedReference.title}</span>
+                      <button
+                        style={{...modernStyles.actionButton, ...modernStyles.deleteButton}}
+                        onClick={() => handleUnlinkPdf(pdf.id)}
+                        title="解除关联"
+                      >
+                        ✂️
+                      </button>
+                    </div>
+                  ) : (
+                    <div style={{display: 'flex', gap: '8px', alignItems: 'flex-start'}}>
+                      <select
+                        style={modernStyles.formSelect}
+                        value=""
+                        onChange={(e) => e.target.value && handleLinkPdf(pdf.id, e.target.value)}
+                      >
+                        <option value="">关联参考文献...</option>
+                        {references.map(ref => (
+                          <option key={ref.id} value={ref.id}>[{ref.citationKey}] {ref.title}</option>
+                        ))}
+                      </select>
+                      <button
+                        style={{...modernStyles.actionButton, ...modernStyles.insertButton}}
+                        onClick={() => handleLinkPdf(pdf.id)}
+                        title="从PDF中识别文献信息并关联（库中没有时新建条目）"
+                      >
+                        🔍
+                      </button>
+                    </div>
+                  )}
                   <textarea
                     style={{...modernStyles.formTextarea, marginBottom: '8px', minHeight: '50px'}}
                     placeholder="添加描述..."
@@ -1199,7 +1957,8 @@ const ResourcePanel: React.FC<ResourcePanelProps> = ({
                 </div>
               </div>
             </div>
-          ))
+            );
+          })
         )}
       </div>
     </div>
@@ -3,14 +3,17 @@
 interface AgentRequest {
   content?: string;       // 论文内容（首次上传时使用）
   contentId?: string;     // 缓存的内容ID（后续请求使用）
+  activeFile?: string;    // 项目中当前编辑的文件（content 对应的文件）
+  projectId?: string;     // 发起运行的项目，运行期间切换项目时工具仍作用于该项目
   input: string;
   mode: 'discuss' | 'write';
-  model: 'deepseek' | 'deepseek-reasoner' | 'qwen';
+  model: string;          // 模型ID（来自 /api/models）
   apiKey: string;
   messages?: Array<{ role: 'user' | 'agent'; content: string }>;
 }
 
 interface ToolCall {
+  id?: string;
   tool_name: string;
   parameters: Record<string, any>;
 }
@@ -23,7 +26,7 @@ interface ToolResult {
 
 interface AgentResponse {
   response: string;
-  reasoning?: string;  // DeepSeek Reasoner 的思考过程
+  reasoning?: string;  // 思考模型的思考过程
   tool_calls?: ToolCall[];
   tool_results?: ToolResult[];
 }
@@ -32,13 +35,68 @@ interface StreamEvent {
   type: 'start' | 'chunk' | 'complete' | 'error';
   model?: string;
   content?: string;
-  reasoning_content?: string;  // DeepSeek Reasoner 的思考过程增量
+  reasoning_content?: string;  // 思考模型（DeepSeek Reasoner、Qwen 思考模式）的思考过程增量
   full_response?: string;
-  full_reasoning?: string;     // DeepSeek Reasoner 的完整思考过程
+  full_reasoning?: string;     // 思考模型的完整思考过程
   tool_calls?: ToolCall[];
   error?: string;
 }
 
+// 模型信息（来自 /api/models）
+export interface ModelInfo {
+  id: string;
+  name: string;
+  provider: string;        // 服务商ID，同时用于查找对应的 API Key
+  providerName: string;
+  streaming: boolean;
+  reasoning: boolean;      // 是否输出思考过程
+  supportsTools: boolean;  // 是否支持原生工具调用
+  requiresApiKey: boolean;
+}
+
+// Agent运行事件（服务端工具循环推送的每一步）
+// 上下文预算报告（超出模型上下文窗口时说明裁剪了哪些内容）
+export interface ContextBudgetReport {
+  context_window: number;
+  input_budget: number;
+  estimated_tokens: number;
+  truncated_tool_results: number;
+  dropped_turns: number;
+  dropped_sections: string[];
+  omitted_tool_results: number;
+  over_budget: boolean;
+}
+
+// edit_file 修改的行号范围（new_end_line 为 null 表示该处只删除了内容）
+export interface EditChange {
+  operation: string;
+  old_start_line: number;
+  old_end_line: number | null;
+  new_start_line: number;
+  new_end_line: number | null;
+  lines_removed: number;
+  lines_added: number;
+}
+
+export interface AgentRunEvent {
+  type: 'start' | 'message_start' | 'chunk' | 'message_complete' | 'tool_call' | 'tool_result' | 'content_update' | 'complete' | 'cancelled' | 'error';
+  model?: string;
+  native_tools?: boolean;
+  iteration?: number;
+  content?: string;
+  reasoning_content?: string;
+  reasoning?: string;
+  tool_calls?: ToolCall[];
+  tool_call?: ToolCall;
+  tool_name?: string;
+  result?: ToolResult;
+  iterations?: number;
+  budget?: ContextBudgetReport;
+  changes?: EditChange[];
+  file?: string;          // content_update 修改的项目文件
+  error?: string;
+}
+
 // 检测后端服务器状态
 async function checkServerStatus(): Promise<{
   isRunning: boolean;
@@ -166,6 +224,11 @@ class AgentServiceError extends Error {
   }
 }
 
+// 判断是否为用户取消请求导致的错误（fetch 被 AbortController 中止）
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
 // 内容缓存 - 存储 contentId
 let cachedContentId: string | null = null;
 let cachedContentHash: string | null = null;
@@ -235,8 +298,8 @@ export const agentService = {
     return cachedContentId;
   },
 
-  // 普通请求（用于 Qwen）
-  async sendRequest(request: AgentRequest): Promise<AgentResponse> {
+  // 普通请求（用于不支持流式输出的模型）
+  async sendRequest(request: AgentRequest, signal?: AbortSignal): Promise<AgentResponse> {
     const { content, contentId, input, mode, model, apiKey, messages } = request;
     const endpoint = 'http://localhost:3001/api/agent';
     
@@ -261,6 +324,7 @@ export const agentService = {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(requestBody),
+        signal,
       });
       
       const elapsed = Date.now() - startTime;
@@ -314,6 +378,11 @@ export const agentService = {
       return data.data;
       
     } catch (error) {
+      if (isAbortError(error)) {
+        console.log('[AgentService] 请求已取消');
+        throw error;
+      }
+      
       console.error('[AgentService] 请求失败:', error);
       
       // 如果已经是 AgentServiceError，直接抛出
@@ -341,8 +410,9 @@ export const agentService = {
     }
   },
 
-  // 流式请求（用于 DeepSeek 和 DeepSeek Reasoner）
-  async sendStreamRequest(request: AgentRequest, onEvent: (event: StreamEvent) => void): Promise<AgentResponse> {
+  // 流式请求（所有支持流式输出的模型，包括 DeepSeek、Qwen 及其思考模型）
+  // signal: 取消信号，中止后服务端会同时取消上游模型请求
+  async sendStreamRequest(request: AgentRequest, onEvent: (event: StreamEvent) => void, signal?: AbortSignal): Promise<AgentResponse> {
     const { content, contentId, input, mode, model, apiKey, messages } = request;
     const endpoint = 'http://localhost:3001/api/agent/stream';
     
@@ -367,6 +437,7 @@ export const agentService = {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(requestBody),
+        signal,
       });
       
       const elapsed = Date.now() - startTime;
@@ -484,6 +555,12 @@ export const agentService = {
       });
       
     } catch (error) {
+      // 用户主动取消，直接抛出由调用方处理
+      if (isAbortError(error)) {
+        console.log('[AgentService] 流式请求已取消');
+        throw error;
+      }
+      
       console.error('[AgentService] 流式请求失败:', error);
       
       // 如果已经是 AgentServiceError，转换为显示字符串
@@ -510,6 +587,122 @@ export const agentService = {
     }
   },
 
+  // 运行Agent：服务端负责完整的工具调用循环，前端只需渲染推送的事件
+  // signal: 取消信号，中止后服务端停止模型请求和后续工具调用
+  async runAgent(request: AgentRequest, onEvent: (event: AgentRunEvent) => void, signal?: AbortSignal): Promise<void> {
+    const { content, contentId, activeFile, projectId, input, mode, model, apiKey, messages } = request;
+    const endpoint = 'http://localhost:3001/api/agent/run';
+    
+    console.log(`[AgentService] 运行Agent - 模型: ${model}, 模式: ${mode}`);
+    
+    // 构建请求体 - 优先使用 contentId
+    const requestBody: Record<string, any> = { input, mode, model, apiKey, messages, activeFile, projectId };
+    if (contentId) {
+      requestBody.contentId = contentId;
+    } else if (content) {
+      requestBody.content = content;
+    }
+    
+    try {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(requestBody),
+        signal,
+      });
+      
+      if (!response.ok) {
+        throw new AgentServiceError(
+          `HTTP错误: ${response.status}`,
+          `HTTP_${response.status}`,
+          `状态码: ${response.status}, 状态文本: ${response.statusText}`,
+          getHttpErrorSuggestion(response.status)
+        );
+      }
+      
+      const reader = response.body?.getReader();
+      if (!reader) {
+        throw new AgentServiceError(
+          '无法读取流式响应',
+          'STREAM_ERROR',
+          '响应体为空或不支持流式读取',
+          '请检查浏览器是否支持 ReadableStream'
+        );
+      }
+      
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let agentError: string | null = null;
+      
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        
+        buffer += decoder.decode(value, { stream: true });
+        
+        // 处理SSE格式的数据
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        
+        for (const line of lines) {
+          if (!line.startsWith('data: ')) continue;
+          const data = line.slice(6);
+          if (data === '[DONE]') continue;
+          
+          let event: AgentRunEvent;
+          try {
+            event = JSON.parse(data);
+          } catch (parseError) {
+            console.warn('[AgentService] 解析Agent事件失败:', parseError, 'data:', data);
+            continue;
+          }
+          
+          if (event.type === 'error') {
+            agentError = event.error || 'Agent运行失败';
+          }
+          onEvent(event);
+        }
+      }
+      
+      if (agentError) {
+        throw new AgentServiceError(
+          agentError,
+          'AGENT_RUN_ERROR',
+          `服务器返回错误: ${agentError}`,
+          '请检查 API Key 是否有效，或稍后重试'
+        );
+      }
+    } catch (error) {
+      if (isAbortError(error)) {
+        console.log('[AgentService] Agent运行已取消');
+        throw error;
+      }
+      
+      console.error('[AgentService] Agent运行失败:', error);
+      
+      if (error instanceof AgentServiceError) {
+        throw new Error(error.toDisplayString());
+      }
+      
+      // 处理网络错误 - 生成详细报告
+      if (error instanceof TypeError) {
+        const errorMsg = error.message;
+        if (errorMsg.includes('fetch') || errorMsg.includes('Failed to fetch') || errorMsg.includes('NetworkError')) {
+          const report = await generateNetworkErrorReport(error, endpoint);
+          throw new Error(report);
+        }
+      }
+      
+      if (error instanceof Error) {
+        throw error;
+      }
+      
+      throw new Error('未知错误: ' + String(error));
+    }
+  },
+
   async executeToolCall(toolName: string, parameters: Record<string, any>, editorContent?: string): Promise<ToolResult> {
     console.log(`[AgentService] 执行工具调用 - 工具: ${toolName}`);
     
@@ -541,6 +734,28 @@ export const agentService = {
     }
   },
 
+  async getModels(): Promise<ModelInfo[]> {
+    try {
+      const response = await fetch('http://localhost:3001/api/models', {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+      
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+      
+      const data = await response.json();
+      return data.data.models;
+    } catch (error) {
+      console.error('[AgentService] 获取模型列表失败:', error);
+      throw error;
+    }
+  },
+
   async getAvailableTools(): Promise<any> {
     try {
       const response = await fetch('http://localhost:3001/api/tools', {
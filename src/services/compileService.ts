@@ -0,0 +1,52 @@
+// LaTeX 编译服务调用模块
+
+// 编译错误/警告（line 为 file 对应项目文件中的行号，无法映射到项目文件时为 null）
+export interface CompileDiagnostic {
+  file: string | null;      // 项目中的文件路径或系统宏包文件名
+  fileLine: number | null;  // 编译日志中的行号
+  line: number | null;
+  message: string;
+  context: string;          // 出错位置的源码
+}
+
+export interface CompileResult {
+  pdf: string | null;       // base64 编码的 PDF，编译失败时为 null
+  errors: CompileDiagnostic[];
+  warnings: CompileDiagnostic[];
+  log: string;
+  runs: number;
+  duration: number;
+}
+
+export const compileService = {
+  // 编译文档；编译失败（未生成 PDF）时仍返回错误列表，只有请求本身失败时抛出异常
+  // 传入 file 时编译整个项目，content 为该文件尚未保存的内容
+  async compile(content: string, signal?: AbortSignal, file?: string): Promise<CompileResult> {
+    console.log(`[CompileService] 开始编译 (${(content.length / 1024).toFixed(1)} KB)`);
+
+    const response = await fetch('http://localhost:3001/api/compile', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ content, file }),
+      signal
+    });
+
+    const result = await response.json().catch(() => ({}));
+    if (result.data) {
+      console.log(`[CompileService] 编译完成 - ${result.success ? '成功' : '失败'}, 错误: ${result.data.errors.length}, 警告: ${result.data.warnings.length}`);
+      return result.data;
+    }
+
+    throw new Error(result.error || `HTTP error! status: ${response.status}`);
+  },
+
+  // base64 PDF → Blob URL（使用后需调用 URL.revokeObjectURL 释放）
+  createPdfUrl(pdf: string): string {
+    const binary = atob(pdf);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return URL.createObjectURL(new Blob([bytes], { type: 'application/pdf' }));
+  }
+};
@@ -0,0 +1,93 @@
+// Git 版本管理服务调用模块（当前项目的本地 Git 仓库）
+
+export interface GitStatus {
+  enabled: boolean;
+  branch?: string;       // 当前分支
+  branches?: string[];
+  dirty?: boolean;       // 是否有未提交的修改
+}
+
+export interface GitCommit {
+  hash: string;
+  short_hash: string;
+  author: string;
+  date: string;
+  message: string;
+}
+
+export interface GitCommitDetail extends GitCommit {
+  files: Record<string, string>;
+}
+
+const API_BASE = 'http://localhost:3001/api/git';
+// Agent 请求在提交说明中保留的最大长度
+const MAX_REQUEST_SUMMARY_LENGTH = 60;
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json' }
+  });
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || `HTTP error! status: ${response.status}`);
+  }
+  return result.data;
+}
+
+export const gitService = {
+  async getStatus(): Promise<GitStatus> {
+    return request<GitStatus>(`${API_BASE}/status`);
+  },
+
+  // 启用后服务端初始化本地仓库并提交当前文件
+  async enable(): Promise<GitStatus> {
+    return request<GitStatus>(`${API_BASE}/enable`, { method: 'POST' });
+  },
+
+  // 停用后保留仓库和提交历史，只是不再自动提交
+  async disable(): Promise<GitStatus> {
+    return request<GitStatus>(`${API_BASE}/disable`, { method: 'POST' });
+  },
+
+  async getLog(): Promise<GitCommit[]> {
+    return request<GitCommit[]>(`${API_BASE}/log`);
+  },
+
+  async getCommit(hash: string): Promise<GitCommitDetail> {
+    return request<GitCommitDetail>(`${API_BASE}/commits/${hash}`);
+  },
+
+  // 提交已保存的全部修改，没有修改时 committed 为 false
+  async commit(message: string): Promise<{ committed: boolean; commit?: GitCommit }> {
+    return request(`${API_BASE}/commit`, {
+      method: 'POST',
+      body: JSON.stringify({ message })
+    });
+  },
+
+  // 从当前分支创建新分支并切换过去
+  async createBranch(name: string): Promise<GitStatus> {
+    return request<GitStatus>(`${API_BASE}/branches`, {
+      method: 'POST',
+      body: JSON.stringify({ name })
+    });
+  },
+
+  // 切换分支，服务端会先提交未提交的修改
+  async checkout(branch: string): Promise<GitStatus> {
+    return request<GitStatus>(`${API_BASE}/checkout`, {
+      method: 'POST',
+      body: JSON.stringify({ branch })
+    });
+  },
+
+  // 应用 Agent 修改后的提交说明：修改的文件 + Agent 请求的第一行
+  agentCommitMessage(file: string, request?: string): string {
+    const firstLine = (request || '').trim().split('\n')[0];
+    const summary = firstLine.length > MAX_REQUEST_SUMMARY_LENGTH
+      ? `${firstLine.slice(0, MAX_REQUEST_SUMMARY_LENGTH)}…`
+      : firstLine;
+    return summary ? `Agent 编辑 ${file}：${summary}` : `Agent 编辑 ${file}`;
+  }
+};
@@ -0,0 +1,60 @@
+// LaTeX 静态检查服务调用模块
+
+// 检查发现的问题（行列号从 1 开始）
+export interface LintFinding {
+  rule: string;
+  severity: 'error' | 'warning';
+  message: string;
+  line: number;
+  column: number;
+  end_line: number;
+  end_column: number;
+}
+
+export interface LintResult {
+  findings: LintFinding[];
+  counts: { errors: number; warnings: number };
+}
+
+// Agent 修复结果（new_content 为应用修复后的全文）
+export interface LintFixResult {
+  new_content: string;
+  changes: Array<{ new_start_line: number; new_end_line: number | null }>;
+  message: string;
+}
+
+export const lintService = {
+  // 传入 file 时结合项目中的其他文件检查（\input 的文件、跨文件的标签和引用）
+  async lint(content: string, signal?: AbortSignal, file?: string): Promise<LintResult> {
+    const response = await fetch('http://localhost:3001/api/lint', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ content, file }),
+      signal
+    });
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || `HTTP error! status: ${response.status}`);
+    }
+    return result.data;
+  },
+
+  // 将问题及附近几行发送给模型，返回修复后的全文
+  async fixWithAgent(content: string, finding: LintFinding, model: string, apiKey: string, signal?: AbortSignal): Promise<LintFixResult> {
+    console.log(`[LintService] 修复第 ${finding.line} 行: ${finding.message}`);
+
+    const response = await fetch('http://localhost:3001/api/lint/fix', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ content, finding, model, apiKey }),
+      signal
+    });
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || `HTTP error! status: ${response.status}`);
+    }
+    return result.data;
+  }
+};
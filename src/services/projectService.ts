@@ -0,0 +1,189 @@
+// 项目服务调用模块（多篇论文的管理，以及当前项目中的 LaTeX 文件）
+
+export interface ProjectFile {
+  path: string;       // 相对于项目根目录的路径，如 chapters/intro.tex
+  size: number;
+  modified: string;
+  content: string;
+}
+
+export interface Project {
+  main_file: string;
+  files: ProjectFile[];
+}
+
+// 项目信息（每个项目有独立的论文文件、对话记录和资源库）
+export interface ProjectInfo {
+  id: string;
+  name: string;
+  archived: boolean;
+  use_global_library: boolean;  // 使用全局资源库（所有项目共享），否则使用项目自己的资源库
+  use_git?: boolean;  // 项目文件保存在本地 Git 仓库中，应用 Agent 修改后自动提交
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProjectList {
+  active_project: string | null;
+  projects: ProjectInfo[];
+}
+
+// 项目的对话记录和工具使用历史
+export interface ProjectChat {
+  messages: any[];
+  tool_history: any[];
+}
+
+// 对话会话（每个项目可以有多个）
+export interface ChatSessionSummary {
+  id: string;
+  title: string;
+  title_auto: boolean;  // 未手动命名，标题为第一条用户消息
+  forked_from: { session_id: string; message_index: number } | null;
+  created_at: string;
+  updated_at: string;
+  message_count: number;
+}
+
+export interface ChatSession extends ChatSessionSummary {
+  messages: any[];
+}
+
+// 对话搜索结果：标题或消息匹配的会话，matches 为匹配的消息
+export interface ChatSearchResult extends ChatSessionSummary {
+  matches: Array<{ index: number; role: 'user' | 'agent'; snippet: string }>;
+}
+
+const API_BASE = 'http://localhost:3001/api/project';
+const PROJECTS_API = 'http://localhost:3001/api/projects';
+
+// 路径中的每一段分别编码，保留目录分隔符
+function fileUrl(path: string): string {
+  return `${API_BASE}/files/${path.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json' }
+  });
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || `HTTP error! status: ${response.status}`);
+  }
+  return result.data;
+}
+
+export const projectService = {
+  async listProjects(): Promise<ProjectList> {
+    return request<ProjectList>(PROJECTS_API);
+  },
+
+  async createProject(name: string, useGlobalLibrary = false): Promise<ProjectInfo> {
+    return request<ProjectInfo>(PROJECTS_API, {
+      method: 'POST',
+      body: JSON.stringify({ name, use_global_library: useGlobalLibrary })
+    });
+  },
+
+  // 重命名、归档/恢复、切换资源库
+  async updateProject(id: string, updates: Partial<Pick<ProjectInfo, 'name' | 'archived' | 'use_global_library'>>): Promise<ProjectInfo> {
+    return request<ProjectInfo>(`${PROJECTS_API}/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates)
+    });
+  },
+
+  async deleteProject(id: string): Promise<void> {
+    await request(`${PROJECTS_API}/${id}`, { method: 'DELETE' });
+  },
+
+  // 打开项目，之后的文件、资源和 Agent 请求都作用于该项目
+  async activateProject(id: string): Promise<ProjectInfo> {
+    return request<ProjectInfo>(`${PROJECTS_API}/${id}/activate`, { method: 'POST' });
+  },
+
+  async getChat(id: string): Promise<ProjectChat> {
+    return request<ProjectChat>(`${PROJECTS_API}/${id}/chat`);
+  },
+
+  // 只保存传入的字段（对话记录和工具历史分别保存）
+  async saveChat(id: string, chat: Partial<ProjectChat>): Promise<void> {
+    await request(`${PROJECTS_API}/${id}/chat`, {
+      method: 'PUT',
+      body: JSON.stringify(chat)
+    });
+  },
+
+  async listSessions(projectId: string): Promise<ChatSessionSummary[]> {
+    return request<ChatSessionSummary[]>(`${PROJECTS_API}/${projectId}/sessions`);
+  },
+
+  // 新建会话；导入聊天记录时传入 title 和 messages
+  async createSession(projectId: string, session: { title?: string; messages?: any[] } = {}): Promise<ChatSessionSummary> {
+    return request<ChatSessionSummary>(`${PROJECTS_API}/${projectId}/sessions`, {
+      method: 'POST',
+      body: JSON.stringify(session)
+    });
+  },
+
+  async getSession(projectId: string, sessionId: string): Promise<ChatSession> {
+    return request<ChatSession>(`${PROJECTS_API}/${projectId}/sessions/${sessionId}`);
+  },
+
+  // 保存消息或重命名，返回更新后的摘要（未命名的会话标题随第一条用户消息更新）
+  async updateSession(projectId: string, sessionId: string, updates: { title?: string; messages?: any[] }): Promise<ChatSessionSummary> {
+    return request<ChatSessionSummary>(`${PROJECTS_API}/${projectId}/sessions/${sessionId}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates)
+    });
+  },
+
+  async deleteSession(projectId: string, sessionId: string): Promise<void> {
+    await request(`${PROJECTS_API}/${projectId}/sessions/${sessionId}`, { method: 'DELETE' });
+  },
+
+  // 从某条消息分叉：新会话包含该消息及之前的消息
+  async forkSession(projectId: string, sessionId: string, messageIndex: number): Promise<ChatSessionSummary> {
+    return request<ChatSessionSummary>(`${PROJECTS_API}/${projectId}/sessions/${sessionId}/fork`, {
+      method: 'POST',
+      body: JSON.stringify({ message_index: messageIndex })
+    });
+  },
+
+  async searchSessions(projectId: string, query: string): Promise<ChatSearchResult[]> {
+    return request<ChatSearchResult[]>(`${PROJECTS_API}/${projectId}/sessions/search?q=${encodeURIComponent(query)}`);
+  },
+
+  // 当前项目
+  async getProject(): Promise<Project> {
+    return request<Project>(API_BASE);
+  },
+
+  // 保存文件，文件不存在时创建
+  async saveFile(path: string, content: string): Promise<{ path: string; created: boolean }> {
+    return request(fileUrl(path), {
+      method: 'PUT',
+      body: JSON.stringify({ content })
+    });
+  },
+
+  // 新建文件，文件已存在时报错
+  async createFile(path: string, content = ''): Promise<{ path: string }> {
+    return request(`${API_BASE}/files`, {
+      method: 'POST',
+      body: JSON.stringify({ path, content })
+    });
+  },
+
+  async deleteFile(path: string): Promise<void> {
+    await request(fileUrl(path), { method: 'DELETE' });
+  },
+
+  async renameFile(from: string, to: string): Promise<{ path: string }> {
+    return request(`${API_BASE}/rename`, {
+      method: 'POST',
+      body: JSON.stringify({ from, to })
+    });
+  }
+};
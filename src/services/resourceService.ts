@@ -22,6 +22,9 @@ export interface Reference extends Resource {
   url?: string;
   abstract?: string;
   citationKey: string;
+  entryType?: string;                    // BibTeX 条目类型（article / inproceedings …）
+  extraFields?: Record<string, string>;  // 导入 .bib 时未映射的字段，导出时原样写回
+  pdfId?: string;                        // 关联的 PDF 资源
 }
 
 export interface ImageResource extends Resource {
@@ -40,6 +43,9 @@ export interface PdfResource extends Resource {
   fileSize: number;
   uploadDate: string;
   pageCount?: number;
+  title?: string;                        // 下载论文时保存的论文标题
+  arxiv_id?: string;
+  referenceId?: string;                  // 关联的参考文献
 }
 
 export interface DataFile extends Resource {
@@ -69,6 +75,115 @@ export interface Note extends Resource {
   updateDate: string;
 }
 
+export type ReferenceFormat = 'bibtex' | 'ris' | 'csljson' | 'endnote';
+
+export type ReferenceImportAction = 'add' | 'merge' | 'replace' | 'skip';
+
+// 导入预览中的一条：new 新条目 / duplicate 库中已有 / conflict 库中已有但字段值不同
+export interface ReferenceImportItem {
+  index: number;
+  reference: Reference;
+  status: 'new' | 'duplicate' | 'conflict';
+  action: ReferenceImportAction;  // 建议的操作
+  existing_id?: string;
+  existing_key?: string;
+  differences?: { field: string; existing: unknown; incoming: unknown }[];
+  missing_fields?: string[];       // 库中条目缺少、合并时会补充的字段
+}
+
+export interface ReferenceImportPreview {
+  format: ReferenceFormat;
+  items: ReferenceImportItem[];
+  errors: { line: number; message: string }[];
+}
+
+export interface ReferenceImportResult {
+  added: string[];
+  merged: string[];
+  replaced: string[];
+  skipped: string[];
+  renamed: { from: string; to: string }[];
+  count: number;
+}
+
+export interface ReferenceExportResult {
+  format: ReferenceFormat;
+  scope: 'all' | 'cited';
+  content: string;
+  count: number;
+  missing: string[];  // 正文中引用但库中没有的键
+  file_name: string;
+  mime_type: string;
+}
+
+export type ReferenceDuplicateReason = 'doi' | 'arxiv' | 'title';
+
+export interface ReferenceDuplicateGroup {
+  references: Reference[];
+  reasons: ReferenceDuplicateReason[];  // doi / arxiv 相同，或 title（标题 + 年份 + 第一作者）相同
+}
+
+export type ReferenceMergeField = 'citationKey' | 'title' | 'authors' | 'year' | 'journal' | 'doi' | 'arxivId' | 'url' | 'abstract' | 'entryType';
+
+export interface ReferenceMergeRequest {
+  target_id: string;     // 保留的条目（id 不变）
+  source_ids: string[];  // 合并后删除的条目
+  choices: Partial<Record<ReferenceMergeField, string>>;  // 字段 → 取值来源条目的 id
+}
+
+export interface ReferenceMergeResult {
+  merged: Reference;
+  removed: string[];
+  key_map: Record<string, string>;  // 被合并条目原来的引用键 → 合并后的引用键
+  rewritten_files: string[];
+  rewritten_citations: number;
+}
+
+export interface CitationCheckResult {
+  missing: { key: string; locations: { file: string; line: number }[] }[];  // 正文中引用但库中没有的键
+  uncited: { id: string; citationKey: string; title: string }[];           // 从未被引用的条目
+  without_key: { id: string; title: string }[];                            // 缺少引用键的条目
+  cited_count: number;
+  key_pattern: string;   // 服务器配置的默认引用键模式
+  key_tokens: string[];  // 引用键模式可用的占位符
+}
+
+export interface CitationKeyRename {
+  id: string;
+  title: string;
+  from: string;
+  to: string;
+}
+
+export interface CitationKeyRenameResult {
+  renamed: number;
+  key_map: Record<string, string>;
+  rewritten_files: string[];
+  rewritten_citations: number;
+}
+
+export type CitationStyle = 'gb-t-7714' | 'apa' | 'ieee' | 'mla' | 'chicago';
+
+export type BibliographyFormat = 'text' | 'markdown' | 'latex' | 'html';
+
+export interface BibliographyResult {
+  style: CitationStyle;
+  format: BibliographyFormat;
+  scope: 'all' | 'cited';
+  content: string;
+  count: number;
+  missing: string[];
+}
+
+// PDF 关联参考文献的结果（created 为 true 时是新建的条目）
+export interface PdfReferenceLinkResult {
+  pdf_id: string;
+  reference_id: string;
+  citation_key: string;
+  created: boolean;
+  reference: Reference;
+}
+
 export type ResourceType = 'references' | 'images' | 'pdfs' | 'datafiles' | 'codesnippets' | 'notes';
 
 export type ResourceData = Reference | ImageResource | PdfResource | DataFile | CodeSnippet | Note;
@@ -143,14 +258,15 @@ class ResourceService {
     }
   }
 
-  async addResource<T extends ResourceData>(type: ResourceType, resourceData: T): Promise<ResourceResponse<{ message: string; resource_id: string; resource_type: ResourceType; resource_data: T; updated?: boolean }>> {
+  // allowDuplicate 为 false 时，库中已有同一参考文献会返回失败，data.duplicate_key 为已有条目的引用键
+  async addResource<T extends ResourceData>(type: ResourceType, resourceData: T, allowDuplicate: boolean = false): Promise<ResourceResponse<{ message: string; resource_id: string; resource_type: ResourceType; resource_data: T; updated?: boolean; duplicate_key?: string }>> {
     try {
-      const response = await axios.post(`${API_BASE_URL}/resources/${type}`, { resource_data: resourceData });
+      const response = await axios.post(`${API_BASE_URL}/resources/${type}`, { resource_data: resourceData, allow_duplicate: allowDuplicate });
       return response.data;
     } catch (error: any) {
       return {
         success: false,
-        data: { message: '', resource_id: '', resource_type: type, resource_data: resourceData },
+        data: { message: '', resource_id: '', resource_type: type, resource_data: resourceData, duplicate_key: error.response?.data?.data?.duplicate_key },
         error: error.response?.data?.error || '添加资源失败'
       };
     }
@@ -194,6 +310,159 @@ class ResourceService {
       };
     }
   }
+
+  // 解析参考文献文件（BibTeX / RIS / CSL-JSON / EndNote XML）并与库中条目比较
+  async previewReferenceImport(content: string, format: ReferenceFormat | 'auto' = 'auto'): Promise<ResourceResponse<ReferenceImportPreview | null>> {
+    try {
+      const response = await axios.post(`${API_BASE_URL}/resources/references/import/preview`, { content, format });
+      return response.data;
+    } catch (error: any) {
+      return {
+        success: false,
+        data: null,
+        error: error.response?.data?.error || '解析参考文献文件失败'
+      };
+    }
+  }
+
+  async importReferences(items: { reference: Reference; action: ReferenceImportAction; existing_id?: string }[]): Promise<ResourceResponse<ReferenceImportResult | null>> {
+    try {
+      const response = await axios.post(`${API_BASE_URL}/resources/references/import`, { items });
+      return response.data;
+    } catch (error: any) {
+      return {
+        success: false,
+        data: null,
+        error: error.response?.data?.error || '导入参考文献失败'
+      };
+    }
+  }
+
+  // scope 为 cited 时只导出当前项目正文中引用的条目
+  async exportReferences(format: ReferenceFormat, scope: 'all' | 'cited' = 'all'): Promise<ResourceResponse<ReferenceExportResult | null>> {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/resources/references/export`, { params: { format, scope } });
+      return response.data;
+    } catch (error: any) {
+      return {
+        success: false,
+        data: null,
+        error: error.response?.data?.error || '导出参考文献失败'
+      };
+    }
+  }
+
+  // 查找参考文献库中的重复条目
+  async findDuplicateReferences(): Promise<ResourceResponse<{ groups: ReferenceDuplicateGroup[]; count: number } | null>> {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/resources/references/duplicates`);
+      return response.data;
+    } catch (error: any) {
+      return {
+        success: false,
+        data: null,
+        error: error.response?.data?.error || '查找重复参考文献失败'
+      };
+    }
+  }
+
+  // 合并重复的参考文献（服务器同时改写项目正文中被合并条目的引用键）
+  async mergeReferences(request: ReferenceMergeRequest): Promise<ResourceResponse<ReferenceMergeResult | null>> {
+    try {
+      const response = await axios.post(`${API_BASE_URL}/resources/references/merge`, request);
+      return response.data;
+    } catch (error: any) {
+      return {
+        success: false,
+        data: null,
+        error: error.response?.data?.error || '合并参考文献失败'
+      };
+    }
+  }
+
+  // 检查正文引用与参考文献库是否一致
+  async checkCitations(): Promise<ResourceResponse<CitationCheckResult | null>> {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/resources/references/keys/check`);
+      return response.data;
+    } catch (error: any) {
+      return {
+        success: false,
+        data: null,
+        error: error.response?.data?.error || '检查引用失败'
+      };
+    }
+  }
+
+  // 按引用键模式预览批量重命名
+  async previewCitationKeyRenames(pattern: string, onlyMissing: boolean = false): Promise<ResourceResponse<{ pattern: string; renames: CitationKeyRename[] } | null>> {
+    try {
+      const response = await axios.post(`${API_BASE_URL}/resources/references/keys/preview`, { pattern, only_missing: onlyMissing });
+      return response.data;
+    } catch (error: any) {
+      return {
+        success: false,
+        data: null,
+        error: error.response?.data?.error || '生成引用键失败'
+      };
+    }
+  }
+
+  // 批量重命名引用键（服务器同时改写项目正文中的引用）
+  async renameCitationKeys(renames: { id: string; key: string }[]): Promise<ResourceResponse<CitationKeyRenameResult | null>> {
+    try {
+      const response = await axios.post(`${API_BASE_URL}/resources/references/keys/rename`, { renames });
+      return response.data;
+    } catch (error: any) {
+      return {
+        success: false,
+        data: null,
+        error: error.response?.data?.error || '重命名引用键失败'
+      };
+    }
+  }
+
+  // 关联 PDF 与参考文献：不指定 referenceId 时由服务器从 PDF 中提取文献信息，关联已有条目或新建条目
+  async linkPdfReference(pdfId: string, referenceId?: string): Promise<ResourceResponse<PdfReferenceLinkResult | null>> {
+    try {
+      const response = await axios.post(`${API_BASE_URL}/resources/pdfs/${pdfId}/link`, { reference_id: referenceId });
+      return response.data;
+    } catch (error: any) {
+      return {
+        success: false,
+        data: null,
+        error: error.response?.data?.error || '关联参考文献失败'
+      };
+    }
+  }
+
+  // 解除 PDF 与参考文献的关联
+  async unlinkPdfReference(pdfId: string): Promise<ResourceResponse<{ message: string; pdf_id: string } | null>> {
+    try {
+      const response = await axios.delete(`${API_BASE_URL}/resources/pdfs/${pdfId}/link`);
+      return response.data;
+    } catch (error: any) {
+      return {
+        success: false,
+        data: null,
+        error: error.response?.data?.error || '解除关联失败'
+      };
+    }
+  }
+
+  // 按引用样式生成参考文献列表（cited 时按正文中首次引用的顺序）
+  async formatBibliography(style: CitationStyle, format: BibliographyFormat = 'text', scope: 'all' | 'cited' = 'cited'): Promise<ResourceResponse<BibliographyResult | null>> {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/resources/references/bibliography`, { params: { style, format, scope } });
+      return response.data;
+    } catch (error: any) {
+      return {
+        success: false,
+        data: null,
+        error: error.response?.data?.error || '生成参考文献列表失败'
+      };
+    }
+  }
 }
 
 export const resourceService = new ResourceService();
\ No newline at end of file
@@ -0,0 +1,59 @@
+// 版本快照服务调用模块（当前项目的历史版本）
+
+export type SnapshotType = 'auto' | 'agent' | 'restore' | 'manual';
+
+export interface SnapshotSummary {
+  id: string;
+  type: SnapshotType;   // auto 定时、agent 应用 Agent 修改前、restore 恢复前、manual 命名检查点
+  name: string;
+  created_at: string;
+  hash: string;         // 内容哈希，内容相同的快照哈希相同
+  size: number;
+  file_count: number;
+}
+
+export interface Snapshot extends SnapshotSummary {
+  files: Record<string, string>;
+}
+
+const API_BASE = 'http://localhost:3001/api/snapshots';
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json' }
+  });
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || `HTTP error! status: ${response.status}`);
+  }
+  return result.data;
+}
+
+export const snapshotService = {
+  async list(): Promise<SnapshotSummary[]> {
+    return request<SnapshotSummary[]>(API_BASE);
+  },
+
+  // 创建检查点或 Agent 修改前的快照；files 为当前完整的项目文件（包含未保存的内容）
+  // 自动快照与最近一次快照内容相同时不会重复创建（created 为 false）
+  async create(options: { type?: 'manual' | 'agent'; name?: string; files?: Record<string, string> }): Promise<{ snapshot: SnapshotSummary; created: boolean }> {
+    return request(API_BASE, {
+      method: 'POST',
+      body: JSON.stringify(options)
+    });
+  },
+
+  async get(id: string): Promise<Snapshot> {
+    return request<Snapshot>(`${API_BASE}/${id}`);
+  },
+
+  // 恢复到快照，恢复前服务端会为当前内容创建快照
+  async restore(id: string): Promise<{ snapshot: SnapshotSummary; backup: SnapshotSummary }> {
+    return request(`${API_BASE}/${id}/restore`, { method: 'POST' });
+  },
+
+  async remove(id: string): Promise<void> {
+    await request(`${API_BASE}/${id}`, { method: 'DELETE' });
+  }
+};
@@ -0,0 +1,64 @@
+/**
+ * 对话分支工具 - 重新生成回复、编辑后重新发送时保留原来的消息作为分支
+ *
+ * 对话始终是一个线性的消息列表（当前分支）。分支点的用户消息保存全部分支：
+ * branches[k] 为从该位置开始的第 k 个分支的消息，当前分支对应的位置为空数组
+ * （其内容就是列表中从该位置开始的消息）。每个分支的消息（包括工具调用和结果）完整保留，
+ * 分支内部还可以有新的分支点。
+ */
+
+export interface BranchableMessage {
+  branches?: BranchableMessage[][];  // 分支点上保存的全部分支
+  branchIndex?: number;              // 当前显示的分支
+}
+
+// 去掉分支数据（发送给模型的对话历史只需要当前分支）
+export function withoutBranches<T extends BranchableMessage>(message: T): T {
+  const { branches: _branches, branchIndex: _branchIndex, ...rest } = message;
+  return rest as T;
+}
+
+/**
+ * 在 index 处创建新分支：列表中从 index 开始的消息保存为一个分支，newTail 成为当前分支
+ */
+export function createBranch<T extends BranchableMessage>(messages: T[], index: number, newTail: T[]): T[] {
+  const head = messages[index];
+  if (!head || newTail.length === 0) return messages;
+
+  const current = [withoutBranches(head), ...messages.slice(index + 1)];
+  const branches = head.branches ? [...head.branches] : [];
+  if (head.branches) {
+    branches[head.branchIndex ?? 0] = current;
+  } else {
+    branches.push(current);
+  }
+  branches.push([]);
+
+  const [first, ...rest] = newTail;
+  return [
+    ...messages.slice(0, index),
+    { ...withoutBranches(first), branches, branchIndex: branches.length - 1 },
+    ...rest
+  ];
+}
+
+/**
+ * 切换 index 处分支点的当前分支，当前显示的消息保存回原来的分支
+ */
+export function switchBranch<T extends BranchableMessage>(messages: T[], index: number, branchIndex: number): T[] {
+  const head = messages[index];
+  if (!head?.branches || branchIndex === head.branchIndex) return messages;
+  const target = head.branches[branchIndex] as T[] | undefined;
+  if (!target || target.length === 0) return messages;
+
+  const branches = [...head.branches];
+  branches[head.branchIndex ?? 0] = [withoutBranches(head), ...messages.slice(index + 1)];
+  branches[branchIndex] = [];
+
+  const [first, ...rest] = target;
+  return [
+    ...messages.slice(0, index),
+    { ...first, branches, branchIndex },
+    ...rest
+  ];
+}
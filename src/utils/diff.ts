@@ -0,0 +1,182 @@
+/**
+ * 行级差异工具 - 计算 Agent 修改的差异块（hunk），并按用户的接受/拒绝结果合并
+ */
+
+// Agent 提出的待审阅修改
+export interface ProposedChange {
+  original: string;   // 发起请求时的编辑器内容
+  proposed: string;   // Agent 修改后的内容
+  source: 'edit_file' | 'write';  // edit_file 工具修改 / 撰写模式追加回复
+  file?: string;      // 修改的项目文件，未指定时为当前编辑的文件
+  request?: string;   // 引起修改的用户请求（Git 提交说明中概括）
+}
+
+// 差异块：原文 originalStart 起的 originalLines 被替换为 proposedLines
+export interface DiffHunk {
+  id: number;
+  originalStart: number;  // 原文起始行（从 1 开始；纯插入时为插入位置之后的行）
+  originalLines: string[];
+  proposedStart: number;  // 修改后内容的起始行（从 1 开始）
+  proposedLines: string[];
+}
+
+export type HunkDecision = 'pending' | 'accepted' | 'rejected';
+
+// 增删的行数超过该值时不再逐行比较，中间部分作为一个整体差异块
+// （Myers 算法每一步保存一份各对角线的位置，内存约为该值的平方个整数，2000 时约 16 MB）
+const MAX_EDIT_DISTANCE = 2000;
+
+type EditOperation = 'equal' | 'insert' | 'delete';
+
+/**
+ * Myers 差分算法：把 a 变为 b 的最短编辑序列，增删的行数超过 MAX_EDIT_DISTANCE 时返回 null
+ * 耗时和内存只与修改的多少有关，与文件长度无关
+ */
+function shortestEdit(a: string[], b: string[]): EditOperation[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  // v[offset + k]：对角线 k（x - y = k）上目前到达的最远的 x
+  const v = new Int32Array(2 * max + 3);
+  // trace[d]：第 d 步开始前 v 中对角线 -d-1 到 d+1 的部分，回溯时使用
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        return backtrack(trace, n, m);
+      }
+    }
+  }
+  return null;
+}
+
+// 从终点沿每一步的选择倒推出编辑序列
+function backtrack(trace: Int32Array[], n: number, m: number): EditOperation[] {
+  const operations: EditOperation[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const at = (k: number) => v[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      operations.push('equal');
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      operations.push(x === prevX ? 'insert' : 'delete');
+    }
+    x = prevX;
+    y = prevY;
+  }
+  return operations.reverse();
+}
+
+/**
+ * 计算两段文本的行级差异块
+ */
+export function computeHunks(original: string, proposed: string): DiffHunk[] {
+  const a = original.split('\n');
+  const b = proposed.split('\n');
+
+  // 去掉相同的开头和结尾，只比较中间部分
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  if (midA.length === 0 && midB.length === 0) {
+    return [];
+  }
+
+  const operations = midA.length > 0 && midB.length > 0 ? shortestEdit(midA, midB) : null;
+  if (!operations) {
+    return [{
+      id: 0,
+      originalStart: prefix + 1,
+      originalLines: midA,
+      proposedStart: prefix + 1,
+      proposedLines: midB
+    }];
+  }
+
+  // 把连续的不同行合并为差异块
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+  let i = 0;
+  let j = 0;
+  const startHunk = () => {
+    if (!current) {
+      current = {
+        id: hunks.length,
+        originalStart: prefix + i + 1,
+        originalLines: [],
+        proposedStart: prefix + j + 1,
+        proposedLines: []
+      };
+      hunks.push(current);
+    }
+    return current;
+  };
+
+  for (const operation of operations) {
+    if (operation === 'equal') {
+      current = null;
+      i++;
+      j++;
+    } else if (operation === 'insert') {
+      startHunk().proposedLines.push(midB[j]);
+      j++;
+    } else {
+      startHunk().originalLines.push(midA[i]);
+      i++;
+    }
+  }
+
+  return hunks;
+}
+
+/**
+ * 将已接受的差异块应用到原文，其余差异块保持原文不变
+ */
+export function applyHunks(original: string, hunks: DiffHunk[], acceptedIds: Set<number>): string {
+  const lines = original.split('\n');
+  const result: string[] = [];
+  let cursor = 0;  // 原文中下一个待复制的行（从 0 开始）
+
+  for (const hunk of hunks) {
+    const start = hunk.originalStart - 1;
+    result.push(...lines.slice(cursor, start));
+    result.push(...(acceptedIds.has(hunk.id) ? hunk.proposedLines : hunk.originalLines));
+    cursor = start + hunk.originalLines.length;
+  }
+  result.push(...lines.slice(cursor));
+
+  return result.join('\n');
+}
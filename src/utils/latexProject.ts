@@ -0,0 +1,59 @@
+/**
+ * 多文件项目工具 - 解析 \input / \include，将项目展开为单个文档用于预览
+ */
+
+export interface ResolvedDocument {
+  content: string;
+  missing: string[];  // 找不到的 \input / \include 文件
+}
+
+const INCLUDE_PATTERN = /\\(input|include|subfile)\s*\{([^{}]*)\}/g;
+
+// 嵌套层数上限，防止文件互相引用
+const MAX_INCLUDE_DEPTH = 16;
+
+/**
+ * \input 参数 → 项目文件路径（相对于项目根目录，省略扩展名时为 .tex）
+ */
+export function resolveIncludePath(name: string): string {
+  const path = name.trim().replace(/^\.\//, '');
+  return /\.[a-zA-Z]+$/.test(path) ? path : `${path}.tex`;
+}
+
+// 去掉行内注释后的部分（\% 不是注释）
+function stripComment(line: string): string {
+  const match = /(^|[^\\])(\\\\)*%/.exec(line);
+  return match ? line.slice(0, match.index + match[0].length - 1) : line;
+}
+
+/**
+ * 从主文件开始展开 \input / \include（被注释的命令不展开）
+ */
+export function resolveIncludes(files: Record<string, string>, mainFile: string): ResolvedDocument {
+  const missing: string[] = [];
+
+  const expand = (path: string, stack: string[]): string => {
+    const content = files[path];
+    if (content === undefined) {
+      if (!missing.includes(path)) missing.push(path);
+      return '';
+    }
+    if (stack.includes(path) || stack.length >= MAX_INCLUDE_DEPTH) {
+      return '';
+    }
+
+    return content.split('\n').map(line => {
+      const code = stripComment(line);
+      if (!code.includes('\\input') && !code.includes('\\include') && !code.includes('\\subfile')) return line;
+
+      const expanded = code.replace(INCLUDE_PATTERN, (_match, command: string, name: string) => {
+        const included = expand(resolveIncludePath(name), [...stack, path]);
+        // \include 总是另起一页，展开后用空行分隔成独立的段落
+        return command === 'include' ? `\n\n${included}\n\n` : included;
+      });
+      return expanded + line.slice(code.length);
+    }).join('\n');
+  };
+
+  return { content: expand(mainFile, []), missing };
+}
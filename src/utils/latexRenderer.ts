@@ -0,0 +1,1217 @@
+/**
+ * LaTeX 预览渲染器 - 在浏览器中把 LaTeX 文档转换为 HTML
+ *
+ * 支持章节、强调、列表、表格、图片（使用图片资源的 dataUrl）、KaTeX 数学公式、
+ * \cite 引用和 \ref 交叉引用。文档按段落切分为块，每块的渲染结果按源码缓存，
+ * 编辑时只重新渲染发生变化的块。
+ */
+
+import katex from 'katex';
+import { Reference, ImageResource } from '../services/resourceService';
+
+// 渲染所需的资源
+export interface LatexRenderContext {
+  references: Reference[];
+  images: ImageResource[];
+}
+
+// 渲染后的文档块，key 在块内容和上下文不变时保持不变
+export interface RenderedBlock {
+  key: string;
+  html: string;
+}
+
+export interface RenderedDocument {
+  blocks: RenderedBlock[];
+  missingCitations: string[];  // 资源库和 thebibliography 中都找不到的引用键
+  missingLabels: string[];     // 找不到对应 \label 的 \ref
+}
+
+// 全文扫描结果，渲染每个块时共享
+interface DocumentInfo {
+  title: string;
+  author: string;
+  date: string;
+  labels: Record<string, string>;       // label → 编号
+  citationOrder: string[];              // 按首次引用顺序排列的引用键
+  citationNumbers: Record<string, number>;
+  bibItems: Record<string, string>;     // thebibliography 中的 \bibitem 键 → 条目源码
+}
+
+// 文档块及其中编号对象（章节、图、表、公式）依次使用的编号
+interface SourceBlock {
+  text: string;
+  numbers: string[];
+}
+
+// 块级元素标记：块级 HTML 用 BLOCK_START/BLOCK_END 包裹，PARAGRAPH_BREAK 表示空行
+const BLOCK_START = '\u0001';
+const BLOCK_END = '\u0002';
+const PARAGRAPH_BREAK = '\u0003';
+
+// 章节层级（chapter 存在时参与编号）
+const HEADING_LEVELS: Record<string, number> = {
+  chapter: 0,
+  section: 1,
+  subsection: 2,
+  subsubsection: 3,
+};
+const HEADING_TAGS: Record<string, string> = {
+  part: 'h1',
+  chapter: 'h1',
+  section: 'h2',
+  subsection: 'h3',
+  subsubsection: 'h4',
+  paragraph: 'h5',
+  subparagraph: 'h6',
+};
+
+// 带编号的数学环境（带 * 的版本不编号）
+const MATH_ENVIRONMENTS = ['equation', 'align', 'gather', 'multline', 'eqnarray', 'flalign', 'alignat', 'displaymath', 'math'];
+const NUMBERED_MATH_ENVIRONMENTS = ['equation', 'align', 'gather', 'multline', 'eqnarray', 'flalign', 'alignat'];
+
+// 原样显示内容的环境
+const VERBATIM_ENVIRONMENTS = ['verbatim', 'lstlisting', 'minted', 'comment'];
+
+// 定理类环境的中文名称
+const THEOREM_NAMES: Record<string, string> = {
+  theorem: '定理',
+  lemma: '引理',
+  corollary: '推论',
+  proposition: '命题',
+  definition: '定义',
+  example: '例',
+  remark: '注',
+  proof: '证明',
+};
+
+// 文本样式命令 → HTML 标签
+const STYLE_COMMANDS: Record<string, [string, string?]> = {
+  textbf: ['strong'],
+  textit: ['em'],
+  emph: ['em'],
+  textsl: ['em'],
+  underline: ['u'],
+  uline: ['u'],
+  texttt: ['code'],
+  textsc: ['span', 'latex-smallcaps'],
+  textsuperscript: ['sup'],
+  textsubscript: ['sub'],
+  textrm: ['span'],
+  textsf: ['span'],
+  textnormal: ['span'],
+  text: ['span'],
+  mbox: ['span'],
+};
+
+// 分组内的旧式字体命令，如 {\bf 粗体}
+const GROUP_STYLE_COMMANDS: Record<string, string> = {
+  bf: 'strong',
+  bfseries: 'strong',
+  it: 'em',
+  itshape: 'em',
+  em: 'em',
+  tt: 'code',
+  ttfamily: 'code',
+};
+
+// 预览中忽略的命令及其参数个数
+const IGNORED_COMMANDS: Record<string, number> = {
+  documentclass: 1, usepackage: 1, bibliographystyle: 1, pagestyle: 1, thispagestyle: 1,
+  vspace: 1, hspace: 1, setlength: 2, addtolength: 2, setcounter: 2, addtocounter: 2,
+  newcommand: 2, renewcommand: 2, providecommand: 2, newenvironment: 3, renewenvironment: 3,
+  DeclareMathOperator: 2, newtheorem: 2, graphicspath: 1, geometry: 1, hypersetup: 1,
+  title: 1, author: 1, date: 1, thanks: 1, linespread: 1, fontsize: 2,
+  centering: 0, noindent: 0, indent: 0, raggedright: 0, raggedleft: 0,
+  small: 0, large: 0, Large: 0, LARGE: 0, huge: 0, Huge: 0, normalsize: 0,
+  footnotesize: 0, scriptsize: 0, tiny: 0, newpage: 0, clearpage: 0, cleardoublepage: 0,
+  hfill: 0, vfill: 0, bigskip: 0, medskip: 0, smallskip: 0, tableofcontents: 0,
+  listoffigures: 0, listoftables: 0, appendix: 0, protect: 0, nonumber: 0, notag: 0,
+  hline: 0, toprule: 0, midrule: 0, bottomrule: 0, maketitlepage: 0, selectfont: 0,
+};
+
+// 不带参数的文本符号命令
+const SYMBOL_COMMANDS: Record<string, string> = {
+  LaTeX: 'L<span class="latex-logo-a">a</span>T<span class="latex-logo-e">e</span>X',
+  TeX: 'T<span class="latex-logo-e">e</span>X',
+  ldots: '…',
+  dots: '…',
+  textbackslash: '\\',
+  textasciitilde: '~',
+  textbar: '|',
+  S: '§',
+  P: '¶',
+  copyright: '©',
+  textregistered: '®',
+  texttrademark: '™',
+  textendash: '–',
+  textemdash: '—',
+  quad: '&emsp;',
+  qquad: '&emsp;&emsp;',
+  enspace: '&ensp;',
+};
+
+// 渲染结果缓存：块源码 + 编号 + 上下文 → HTML
+const blockCache = new Map<string, string>();
+const MAX_CACHE_SIZE = 2000;
+
+/**
+ * 转义 HTML 特殊字符
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * 字符串哈希（djb2），用于生成块的 key
+ */
+function hashString(text: string): string {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * 去掉 % 注释（保留 \%）
+ */
+function stripComments(source: string): string {
+  return source.replace(/(^|[^\\])%.*$/gm, '$1');
+}
+
+/**
+ * 读取从 start 开始的 {...} 分组，返回分组内容和分组结束后的位置
+ */
+function readGroup(text: string, start: number): { content: string; end: number } | null {
+  let i = start;
+  while (i < text.length && /\s/.test(text[i])) i++;
+  if (text[i] !== '{') return null;
+
+  let depth = 0;
+  for (let j = i; j < text.length; j++) {
+    const ch = text[j];
+    if (ch === '\\') {
+      j++;
+    } else if (ch === '{') {
+      depth++;
+    } else if (ch === '}') {
+      depth--;
+      if (depth === 0) {
+        return { content: text.slice(i + 1, j), end: j + 1 };
+      }
+    }
+  }
+  return { content: text.slice(i + 1), end: text.length };
+}
+
+/**
+ * 读取从 start 开始的 [...] 可选参数
+ */
+function readOptional(text: string, start: number): { content: string; end: number } | null {
+  let i = start;
+  while (i < text.length && (text[i] === ' ' || text[i] === '\t')) i++;
+  if (text[i] !== '[') return null;
+
+  let depth = 0;
+  for (let j = i; j < text.length; j++) {
+    const ch = text[j];
+    if (ch === '\\') {
+      j++;
+    } else if (ch === '{') {
+      depth++;
+    } else if (ch === '}') {
+      depth--;
+    } else if (ch === ']' && depth === 0) {
+      return { content: text.slice(i + 1, j), end: j + 1 };
+    }
+  }
+  return null;
+}
+
+/**
+ * 查找与 \begin{name} 匹配的 \end{name}，from 为 \begin{name} 之后的位置
+ */
+function findEnvironmentEnd(text: string, from: number, name: string): { bodyEnd: number; end: number } {
+  const beginTag = `\\begin{${name}}`;
+  const endTag = `\\end{${name}}`;
+
+  // 原样环境内部不处理嵌套
+  if (VERBATIM_ENVIRONMENTS.includes(name)) {
+    const index = text.indexOf(endTag, from);
+    return index === -1
+      ? { bodyEnd: text.length, end: text.length }
+      : { bodyEnd: index, end: index + endTag.length };
+  }
+
+  let depth = 1;
+  let i = from;
+  while (i < text.length) {
+    const nextBegin = text.indexOf(beginTag, i);
+    const nextEnd = text.indexOf(endTag, i);
+    if (nextEnd === -1) break;
+    if (nextBegin !== -1 && nextBegin < nextEnd) {
+      depth++;
+      i = nextBegin + beginTag.length;
+    } else {
+      depth--;
+      if (depth === 0) {
+        return { bodyEnd: nextEnd, end: nextEnd + endTag.length };
+      }
+      i = nextEnd + endTag.length;
+    }
+  }
+  return { bodyEnd: text.length, end: text.length };
+}
+
+/**
+ * 在顶层（不在分组或环境内）按分隔符切分文本，用于列表项、表格行和单元格
+ */
+function splitTopLevel(text: string, separator: RegExp): { part: string; match: string }[] {
+  const parts: { part: string; match: string }[] = [];
+  const sticky = new RegExp(separator.source, 'y');
+  let depth = 0;
+  let envDepth = 0;
+  let last = 0;
+  let pendingMatch = '';
+
+  for (let i = 0; i < text.length; i++) {
+    if (text.startsWith('\\begin{', i)) {
+      envDepth++;
+    } else if (text.startsWith('\\end{', i)) {
+      envDepth--;
+    }
+
+    if (depth === 0 && envDepth === 0) {
+      sticky.lastIndex = i;
+      const match = sticky.exec(text);
+      if (match && match[0].length > 0) {
+        parts.push({ part: text.slice(last, i), match: pendingMatch });
+        pendingMatch = match[0];
+        last = i + match[0].length;
+        i = last - 1;
+        continue;
+      }
+    }
+
+    const ch = text[i];
+    if (ch === '\\') {
+      i++;
+    } else if (ch === '{') {
+      depth++;
+    } else if (ch === '}') {
+      depth--;
+    }
+  }
+  parts.push({ part: text.slice(last), match: pendingMatch });
+  return parts;
+}
+
+/**
+ * 使用 KaTeX 渲染公式，错误时以红色源码显示而不是中断整个预览
+ */
+function renderMath(expression: string, displayMode: boolean): string {
+  try {
+    return katex.renderToString(expression, {
+      displayMode,
+      throwOnError: false,
+      strict: 'ignore',
+      trust: false,
+    });
+  } catch {
+    return `<code class="latex-error">${escapeHtml(expression)}</code>`;
+  }
+}
+
+/**
+ * 格式化一条参考文献
+ */
+function formatReference(reference: Reference): string {
+  const authors = reference.authors && reference.authors.length > 0
+    ? reference.authors.join(', ')
+    : '佚名';
+  const parts = [`${escapeHtml(authors)}. ${escapeHtml(reference.title)}.`];
+  if (reference.journal) {
+    parts.push(` <em>${escapeHtml(reference.journal)}</em>,`);
+  }
+  parts.push(` ${escapeHtml(String(reference.year || ''))}.`);
+  if (reference.doi) {
+    parts.push(` DOI: ${escapeHtml(reference.doi)}.`);
+  } else if (reference.arxivId) {
+    parts.push(` arXiv: ${escapeHtml(reference.arxivId)}.`);
+  }
+  return parts.join('');
+}
+
+/**
+ * 只允许安全的链接协议
+ */
+function safeUrl(url: string): string {
+  const trimmed = url.trim();
+  return /^(https?:|mailto:|#)/i.test(trimmed) ? trimmed : '#';
+}
+
+/**
+ * 按空行切分文档块，环境内部的空行不切分
+ */
+function splitBlocks(body: string): string[] {
+  const blocks: string[] = [];
+  let current: string[] = [];
+  let envDepth = 0;
+  let verbatimEnv: string | null = null;
+
+  for (const line of body.split('\n')) {
+    if (verbatimEnv) {
+      current.push(line);
+      if (line.includes(`\\end{${verbatimEnv}}`)) verbatimEnv = null;
+      continue;
+    }
+
+    if (envDepth === 0 && line.trim() === '') {
+      if (current.length > 0) {
+        blocks.push(current.join('\n'));
+        current = [];
+      }
+      continue;
+    }
+
+    current.push(line);
+    const verbatimMatch = line.match(/\\begin\{(verbatim|lstlisting|minted|comment)\}/);
+    if (verbatimMatch && !line.includes(`\\end{${verbatimMatch[1]}}`)) {
+      verbatimEnv = verbatimMatch[1];
+      continue;
+    }
+    envDepth += (line.match(/\\begin\{/g) || []).length;
+    envDepth -= (line.match(/\\end\{/g) || []).length;
+    if (envDepth < 0) envDepth = 0;
+  }
+  if (current.length > 0) {
+    blocks.push(current.join('\n'));
+  }
+  return blocks;
+}
+
+/**
+ * 全文扫描：计算每个块中编号对象的编号、label 对应的编号以及引用顺序
+ * 编号顺序必须与 BlockRenderer 遇到这些对象的顺序一致
+ */
+function scanDocument(blocks: string[], info: DocumentInfo): SourceBlock[] {
+  const hasChapter = blocks.some(block => /\\chapter\*?\s*[[{]/.test(block));
+  const sectionCounters = [0, 0, 0, 0];
+  let figureCounter = 0;
+  let tableCounter = 0;
+  let equationCounter = 0;
+  let currentLabel = '';
+  const labelStack: string[] = [];  // 图、表、公式环境内 \label 指向环境编号
+
+  const pattern = /\\(chapter|section|subsection|subsubsection)(\*?)\s*(?:\[[^\]]*\])?\s*\{|\\begin\{([a-zA-Z]+)(\*?)\}|\\end\{([a-zA-Z]+)\*?\}|\\label\{([^}]*)\}|\\(?:cite[a-zA-Z]*|parencite|textcite|nocite)\*?\s*(?:\[[^\]]*\]\s*){0,2}\{([^}]*)\}|\\bibitem\s*(?:\[[^\]]*\])?\s*\{([^}]*)\}/g;
+
+  return blocks.map(text => {
+    const numbers: string[] = [];
+    let match: RegExpExecArray | null;
+    pattern.lastIndex = 0;
+
+    while ((match = pattern.exec(text)) !== null) {
+      const [, heading, headingStar, beginEnv, beginStar, endEnv, label, citeKeys, bibKey] = match;
+
+      if (heading) {
+        if (headingStar) continue;
+        const level = HEADING_LEVELS[heading];
+        sectionCounters[level]++;
+        for (let i = level + 1; i < sectionCounters.length; i++) sectionCounters[i] = 0;
+        const number = sectionCounters.slice(hasChapter ? 0 : 1, level + 1).join('.');
+        numbers.push(number);
+        currentLabel = number;
+      } else if (beginEnv) {
+        let number: string | null = null;
+        if (beginEnv === 'figure') {
+          number = String(++figureCounter);
+        } else if (beginEnv === 'table') {
+          number = String(++tableCounter);
+        } else if (NUMBERED_MATH_ENVIRONMENTS.includes(beginEnv) && !beginStar) {
+          number = String(++equationCounter);
+        }
+        if (number) numbers.push(number);
+        if (number || MATH_ENVIRONMENTS.includes(beginEnv)) {
+          labelStack.push(number || labelStack[labelStack.length - 1] || currentLabel);
+        }
+      } else if (endEnv) {
+        if (['figure', 'table'].includes(endEnv) || MATH_ENVIRONMENTS.includes(endEnv)) {
+          labelStack.pop();
+        }
+      } else if (label !== undefined) {
+        info.labels[label.trim()] = labelStack.length > 0 ? labelStack[labelStack.length - 1] : currentLabel;
+      } else if (citeKeys !== undefined) {
+        for (const key of citeKeys.split(',').map(k => k.trim()).filter(Boolean)) {
+          if (key !== '*' && info.citationNumbers[key] === undefined) {
+            info.citationOrder.push(key);
+            info.citationNumbers[key] = info.citationOrder.length;
+          }
+        }
+      } else if (bibKey !== undefined) {
+        info.bibItems[bibKey.trim()] = bibKey.trim();
+      }
+    }
+
+    return { text, numbers };
+  });
+}
+
+/**
+ * 渲染单个文档块
+ */
+class BlockRenderer {
+  private numbers: string[];
+
+  constructor(
+    private info: DocumentInfo,
+    private context: LatexRenderContext,
+    numbers: string[]
+  ) {
+    this.numbers = [...numbers];
+  }
+
+  render(text: string): string {
+    return this.renderParagraphs(text);
+  }
+
+  private nextNumber(): string {
+    return this.numbers.shift() || '?';
+  }
+
+  private block(html: string): string {
+    return BLOCK_START + html.replace(/[\u0001\u0002\u0003]/g, '') + BLOCK_END;
+  }
+
+  /**
+   * 转换并把行内内容包裹为段落
+   */
+  private renderParagraphs(text: string): string {
+    const html = this.convert(text);
+    const output: string[] = [];
+    let inline = '';
+
+    const flush = () => {
+      const trimmed = inline.trim();
+      if (trimmed.replace(/<span class="latex-anchor"[^>]*><\/span>/g, '').trim()) {
+        output.push(`<p>${trimmed}</p>`);
+      } else if (trimmed) {
+        // 只有 \label 锚点时不生成空段落
+        output.push(trimmed);
+      }
+      inline = '';
+    };
+
+    for (const part of html.split(/(\u0001[\s\S]*?\u0002|\u0003)/)) {
+      if (part.startsWith(BLOCK_START)) {
+        flush();
+        output.push(part.slice(1, -1));
+      } else if (part === PARAGRAPH_BREAK) {
+        flush();
+      } else {
+        inline += part;
+      }
+    }
+    flush();
+    return output.join('\n');
+  }
+
+  /**
+   * 转换为行内 HTML（块级元素的标记会被去掉）
+   */
+  private inline(text: string): string {
+    return this.convert(text).replace(/[\u0001\u0002]/g, '').replace(/\u0003/g, ' ');
+  }
+
+  /**
+   * 逐字符转换 LaTeX 源码
+   */
+  private convert(text: string): string {
+    let out = '';
+    let i = 0;
+
+    while (i < text.length) {
+      const ch = text[i];
+
+      if (ch === '\\') {
+        const result = this.convertCommand(text, i);
+        out += result.html;
+        i = result.end;
+      } else if (ch === '$') {
+        const display = text[i + 1] === '$';
+        const delimiter = display ? '$$' : '$';
+        const start = i + delimiter.length;
+        let end = start;
+        while (end < text.length) {
+          if (text[end] === '\\') {
+            end += 2;
+            continue;
+          }
+          if (text.startsWith(delimiter, end)) break;
+          end++;
+        }
+        const expression = text.slice(start, end);
+        out += display
+          ? this.block(`<div class="latex-equation">${renderMath(expression, true)}</div>`)
+          : renderMath(expression, false);
+        i = end + delimiter.length;
+      } else if (ch === '{') {
+        const group = readGroup(text, i)!;
+        out += this.convertGroup(group.content);
+        i = group.end;
+      } else if (ch === '}') {
+        i++;
+      } else if (ch === '~') {
+        out += '&nbsp;';
+        i++;
+      } else if (ch === '\n' && /^\n[ \t]*\n/.test(text.slice(i, i + 64))) {
+        out += PARAGRAPH_BREAK;
+        i++;
+        while (i < text.length && /\s/.test(text[i])) i++;
+      } else if (text.startsWith('---', i)) {
+        out += '—';
+        i += 3;
+      } else if (text.startsWith('--', i)) {
+        out += '–';
+        i += 2;
+      } else if (text.startsWith('``', i)) {
+        out += '“';
+        i += 2;
+      } else if (text.startsWith("''", i)) {
+        out += '”';
+        i += 2;
+      } else {
+        out += escapeHtml(ch);
+        i++;
+      }
+    }
+    return out;
+  }
+
+  /**
+   * 分组：处理 {\bf ...} 这类旧式字体命令
+   */
+  private convertGroup(content: string): string {
+    const match = content.match(/^\s*\\([a-zA-Z]+)(?![a-zA-Z])/);
+    if (match && GROUP_STYLE_COMMANDS[match[1]]) {
+      const tag = GROUP_STYLE_COMMANDS[match[1]];
+      return `<${tag}>${this.inline(content.slice(match[0].length))}</${tag}>`;
+    }
+    return this.convert(content);
+  }
+
+  /**
+   * 转换从 start（反斜杠处）开始的命令
+   */
+  private convertCommand(text: string, start: number): { html: string; end: number } {
+    const next = text[start + 1];
+
+    // 换行、转义字符和行内/行间公式
+    if (next === '\\') {
+      const optional = readOptional(text, start + 2);
+      return { html: '<br />', end: optional ? optional.end : start + 2 };
+    }
+    if (next === '(' || next === '[') {
+      const closing = next === '(' ? '\\)' : '\\]';
+      const close = text.indexOf(closing, start + 2);
+      const end = close === -1 ? text.length : close;
+      const expression = text.slice(start + 2, end);
+      const html = next === '('
+        ? renderMath(expression, false)
+        : this.block(`<div class="latex-equation">${renderMath(expression, true)}</div>`);
+      return { html, end: close === -1 ? text.length : close + 2 };
+    }
+    if (next !== undefined && '%&_#${}'.includes(next)) {
+      return { html: escapeHtml(next), end: start + 2 };
+    }
+    if (next === ',' || next === ' ' || next === ';' || next === ':') {
+      return { html: ' ', end: start + 2 };
+    }
+
+    const nameMatch = text.slice(start + 1).match(/^[a-zA-Z]+\*?/);
+    if (!nameMatch) {
+      return { html: '', end: start + 2 };
+    }
+    const fullName = nameMatch[0];
+    const name = fullName.replace(/\*$/, '');
+    const starred = fullName.endsWith('*');
+    let end = start + 1 + fullName.length;
+
+    if (name === 'begin') {
+      const group = readGroup(text, end);
+      if (!group) return { html: '', end };
+      const envName = group.content.trim();
+      const bounds = findEnvironmentEnd(text, group.end, envName);
+      return {
+        html: this.convertEnvironment(envName, text.slice(group.end, bounds.bodyEnd)),
+        end: bounds.end,
+      };
+    }
+    if (name === 'end') {
+      const group = readGroup(text, end);
+      return { html: '', end: group ? group.end : end };
+    }
+
+    // 章节标题
+    if (HEADING_TAGS[name]) {
+      const optional = readOptional(text, end);
+      const group = readGroup(text, optional ? optional.end : end);
+      if (!group) return { html: '', end };
+      const numbered = !starred && HEADING_LEVELS[name] !== undefined;
+      const number = numbered ? this.nextNumber() : '';
+      const tag = HEADING_TAGS[name];
+      const html = `<${tag} class="latex-heading latex-${name}">` +
+        (number ? `<span class="latex-heading-number">${escapeHtml(number)}</span>` : '') +
+        `${this.inline(group.content)}</${tag}>`;
+      return { html: this.block(html), end: group.end };
+    }
+
+    // 文本样式
+    if (STYLE_COMMANDS[name]) {
+      const group = readGroup(text, end);
+      if (!group) return { html: '', end };
+      const [tag, className] = STYLE_COMMANDS[name];
+      const classAttr = className ? ` class="${className}"` : '';
+      return { html: `<${tag}${classAttr}>${this.inline(group.content)}</${tag}>`, end: group.end };
+    }
+
+    // 其余分组内的旧式字体命令在分组外出现时忽略
+    if (GROUP_STYLE_COMMANDS[name]) {
+      return { html: '', end };
+    }
+
+    if (SYMBOL_COMMANDS[name] !== undefined) {
+      // 吃掉命令后的 {} 或一个空格
+      if (text.startsWith('{}', end)) end += 2;
+      else if (text[end] === ' ') end++;
+      return { html: SYMBOL_COMMANDS[name], end };
+    }
+
+    switch (name) {
+      case 'maketitle':
+        return { html: this.block(this.renderTitle()), end };
+      case 'today':
+        return { html: escapeHtml(new Date().toLocaleDateString('zh-CN')), end };
+      case 'par':
+        return { html: PARAGRAPH_BREAK, end };
+      case 'item': {
+        // 列表之外的 \item
+        const optional = readOptional(text, end);
+        return { html: optional ? `<strong>${this.inline(optional.content)}</strong> ` : '• ', end: optional ? optional.end : end };
+      }
+      case 'cite':
+      case 'citep':
+      case 'citet':
+      case 'citealp':
+      case 'parencite':
+      case 'textcite':
+      case 'autocite':
+        return this.convertCitation(text, end, name === 'citet' || name === 'textcite');
+      case 'nocite': {
+        const group = readGroup(text, end);
+        return { html: '', end: group ? group.end : end };
+      }
+      case 'ref':
+      case 'eqref':
+      case 'autoref':
+      case 'cref':
+      case 'Cref':
+      case 'pageref': {
+        const group = readGroup(text, end);
+        if (!group) return { html: '', end };
+        return { html: this.renderRef(group.content.trim(), name === 'eqref'), end: group.end };
+      }
+      case 'label': {
+        const group = readGroup(text, end);
+        if (!group) return { html: '', end };
+        return { html: `<span class="latex-anchor" id="${this.anchorId(group.content.trim())}"></span>`, end: group.end };
+      }
+      case 'footnote': {
+        const group = readGroup(text, end);
+        if (!group) return { html: '', end };
+        const note = this.inline(group.content);
+        return {
+          html: `<sup class="latex-footnote" title="${escapeHtml(note.replace(/<[^>]*>/g, ''))}">注</sup>`,
+          end: group.end,
+        };
+      }
+      case 'url': {
+        const group = readGroup(text, end);
+        if (!group) return { html: '', end };
+        const url = group.content.trim();
+        return { html: `<a href="${escapeHtml(safeUrl(url))}" target="_blank" rel="noreferrer">${escapeHtml(url)}</a>`, end: group.end };
+      }
+      case 'href': {
+        const urlGroup = readGroup(text, end);
+        if (!urlGroup) return { html: '', end };
+        const textGroup = readGroup(text, urlGroup.end);
+        const label = textGroup ? this.inline(textGroup.content) : escapeHtml(urlGroup.content);
+        return {
+          html: `<a href="${escapeHtml(safeUrl(urlGroup.content))}" target="_blank" rel="noreferrer">${label}</a>`,
+          end: textGroup ? textGroup.end : urlGroup.end,
+        };
+      }
+      case 'verb': {
+        const delimiter = text[end];
+        const close = text.indexOf(delimiter, end + 1);
+        if (!delimiter || close === -1) return { html: '', end };
+        return { html: `<code>${escapeHtml(text.slice(end + 1, close))}</code>`, end: close + 1 };
+      }
+      case 'includegraphics': {
+        const optional = readOptional(text, end);
+        const group = readGroup(text, optional ? optional.end : end);
+        if (!group) return { html: '', end };
+        return { html: this.renderImage(group.content.trim()), end: group.end };
+      }
+      case 'caption': {
+        const optional = readOptional(text, end);
+        const group = readGroup(text, optional ? optional.end : end);
+        if (!group) return { html: '', end };
+        return { html: `<em>${this.inline(group.content)}</em>`, end: group.end };
+      }
+      case 'input':
+      case 'include': {
+        const group = readGroup(text, end);
+        if (!group) return { html: '', end };
+        return {
+          html: this.block(`<div class="latex-placeholder">引用文件：${escapeHtml(group.content.trim())}</div>`),
+          end: group.end,
+        };
+      }
+      case 'bibliography':
+      case 'printbibliography': {
+        const group = name === 'bibliography' ? readGroup(text, end) : null;
+        return { html: this.block(this.renderBibliography()), end: group ? group.end : end };
+      }
+      case 'multicolumn': {
+        // 表格外的 \multicolumn 只显示内容
+        const count = readGroup(text, end);
+        const spec = count ? readGroup(text, count.end) : null;
+        const content = spec ? readGroup(text, spec.end) : null;
+        if (!content) return { html: '', end };
+        return { html: this.inline(content.content), end: content.end };
+      }
+    }
+
+    if (IGNORED_COMMANDS[name] !== undefined) {
+      const optional = readOptional(text, end);
+      if (optional) end = optional.end;
+      for (let n = 0; n < IGNORED_COMMANDS[name]; n++) {
+        const group = readGroup(text, end);
+        if (!group) break;
+        end = group.end;
+      }
+      return { html: '', end };
+    }
+
+    // 未知命令：保留其参数内容，命令本身忽略
+    return { html: '', end };
+  }
+
+  /**
+   * 转换环境
+   */
+  private convertEnvironment(fullName: string, body: string): string {
+    const name = fullName.replace(/\*$/, '');
+    const starred = fullName.endsWith('*');
+
+    if (name === 'itemize' || name === 'enumerate' || name === 'description') {
+      return this.block(this.renderList(name, body));
+    }
+
+    if (MATH_ENVIRONMENTS.includes(name)) {
+      const numbered = !starred && NUMBERED_MATH_ENVIRONMENTS.includes(name);
+      return this.block(this.renderDisplayMath(name, body, numbered));
+    }
+
+    if (name === 'figure' || name === 'table') {
+      return this.block(this.renderFloat(name, body));
+    }
+
+    if (name === 'tabular' || name === 'tabularx' || name === 'longtable') {
+      return this.block(this.renderTabular(name, body));
+    }
+
+    if (VERBATIM_ENVIRONMENTS.includes(name)) {
+      if (name === 'comment') return '';
+      const code = body.replace(/^\[[^\]\n]*\]/, '').replace(/^\{[^}\n]*\}/, '').replace(/^\n/, '');
+      return this.block(`<pre class="latex-verbatim">${escapeHtml(code)}</pre>`);
+    }
+
+    if (name === 'abstract') {
+      return this.block(
+        `<div class="latex-abstract"><div class="latex-abstract-title">摘要</div>${this.renderParagraphs(body)}</div>`
+      );
+    }
+
+    if (name === 'quote' || name === 'quotation' || name === 'verse') {
+      return this.block(`<blockquote>${this.renderParagraphs(body)}</blockquote>`);
+    }
+
+    if (name === 'center' || name === 'flushleft' || name === 'flushright') {
+      const align = name === 'center' ? 'center' : name === 'flushleft' ? 'left' : 'right';
+      return this.block(`<div class="latex-align-${align}">${this.renderParagraphs(body)}</div>`);
+    }
+
+    if (name === 'thebibliography') {
+      return this.block(this.renderBibItems(body));
+    }
+
+    if (THEOREM_NAMES[name]) {
+      const optional = readOptional(body, 0);
+      const title = THEOREM_NAMES[name] + (optional ? `（${this.inline(optional.content)}）` : '');
+      const content = optional ? body.slice(optional.end) : body;
+      return this.block(
+        `<div class="latex-theorem latex-${name}"><strong>${title}</strong> ${this.renderParagraphs(content)}</div>`
+      );
+    }
+
+    // 其他环境（minipage、subfigure 等）只渲染内容
+    const content = body.replace(/^\s*(\[[^\]\n]*\])?(\{[^}\n]*\})?/, '');
+    return this.block(`<div class="latex-env latex-env-${escapeHtml(name)}">${this.renderParagraphs(content)}</div>`);
+  }
+
+  private renderTitle(): string {
+    const { title, author, date } = this.info;
+    if (!title && !author) return '';
+    const authorHtml = author
+      .split(/\\and\b/)
+      .map(part => this.inline(part.replace(/\\thanks\s*\{[^}]*\}/g, '').trim()))
+      .filter(Boolean)
+      .join('<span class="latex-author-sep">，</span>');
+    const dateHtml = date === '' ? '' : this.inline(date || '\\today');
+    return `<div class="latex-titlepage">` +
+      (title ? `<h1 class="latex-title">${this.inline(title)}</h1>` : '') +
+      (authorHtml ? `<div class="latex-author">${authorHtml}</div>` : '') +
+      (dateHtml ? `<div class="latex-date">${dateHtml}</div>` : '') +
+      `</div>`;
+  }
+
+  private renderList(type: string, body: string): string {
+    const tag = type === 'enumerate' ? 'ol' : type === 'description' ? 'dl' : 'ul';
+    // 第一个 \item 之前的内容（如 [label=...] 选项）忽略
+    const items = splitTopLevel(body, /\\item(?![a-zA-Z])/).slice(1);
+
+    const html = items.map(({ part }) => {
+      const optional = readOptional(part, 0);
+      const content = optional ? part.slice(optional.end) : part;
+      const itemHtml = this.renderParagraphs(content);
+      // 单段落的列表项去掉 <p> 包裹
+      const compact = /^<p>[\s\S]*<\/p>$/.test(itemHtml) && itemHtml.indexOf('<p>', 1) === -1
+        ? itemHtml.slice(3, -4)
+        : itemHtml;
+      if (type === 'description') {
+        return `<dt>${optional ? this.inline(optional.content) : ''}</dt><dd>${compact}</dd>`;
+      }
+      if (optional) {
+        return `<li class="latex-custom-item"><span class="latex-item-label">${this.inline(optional.content)}</span> ${compact}</li>`;
+      }
+      return `<li>${compact}</li>`;
+    }).join('');
+
+    return `<${tag} class="latex-list">${html}</${tag}>`;
+  }
+
+  private renderDisplayMath(name: string, body: string, numbered: boolean): string {
+    const number = numbered ? this.nextNumber() : '';
+    const labels = [...body.matchAll(/\\label\{([^}]*)\}/g)].map(match => match[1].trim());
+    let expression = body
+      .replace(/\\label\{[^}]*\}/g, '')
+      .replace(/\\(nonumber|notag)\b/g, '');
+
+    if (name === 'align' || name === 'flalign' || name === 'eqnarray' || name === 'alignat') {
+      expression = `\\begin{aligned}${expression.replace(/^\s*\{\d+\}/, '')}\\end{aligned}`;
+    } else if (name === 'gather' || name === 'multline') {
+      expression = `\\begin{gathered}${expression}\\end{gathered}`;
+    }
+
+    const anchors = labels.map(label => `<span class="latex-anchor" id="${this.anchorId(label)}"></span>`).join('');
+    return `<div class="latex-equation">${anchors}${renderMath(expression, true)}` +
+      (number ? `<span class="latex-equation-number">(${escapeHtml(number)})</span>` : '') +
+      `</div>`;
+  }
+
+  private renderFloat(type: 'figure' | 'table', body: string): string {
+    const number = this.nextNumber();
+    let captionHtml = '';
+    let rest = body.replace(/^\s*\[[^\]\n]*\]/, '');
+
+    // 提取 \caption，放到图下方或表上方
+    const captionIndex = rest.search(/\\caption(?![a-zA-Z])/);
+    if (captionIndex !== -1) {
+      const afterName = captionIndex + '\\caption'.length;
+      const optional = readOptional(rest, afterName);
+      const group = readGroup(rest, optional ? optional.end : afterName);
+      if (group) {
+        const prefix = type === 'figure' ? '图' : '表';
+        captionHtml = `<div class="latex-caption"><span class="latex-caption-label">${prefix} ${escapeHtml(number)}</span> ${this.inline(group.content)}</div>`;
+        rest = rest.slice(0, captionIndex) + rest.slice(group.end);
+      }
+    }
+
+    const content = this.renderParagraphs(rest);
+    return type === 'figure'
+      ? `<figure class="latex-figure">${content}${captionHtml}</figure>`
+      : `<div class="latex-table-float">${captionHtml}${content}</div>`;
+  }
+
+  private renderTabular(name: string, body: string): string {
+    // 去掉列格式参数（tabularx 还有宽度参数）
+    let rest = body;
+    const optional = readOptional(rest, 0);
+    if (optional) rest = rest.slice(optional.end);
+    if (name === 'tabularx') {
+      const width = readGroup(rest, 0);
+      if (width) rest = rest.slice(width.end);
+    }
+    const spec = readGroup(rest, 0);
+    const alignments = spec ? this.parseColumnSpec(spec.content) : [];
+    if (spec) rest = rest.slice(spec.end);
+
+    const rows = splitTopLevel(rest, /\\\\(\[[^\]]*\])?/)
+      .map(({ part }) => part.replace(/\\(hline|toprule|midrule|bottomrule|endhead|endfirsthead|endfoot|endlastfoot)\b/g, '').replace(/\\cline\{[^}]*\}/g, ''))
+      .filter(row => row.trim() !== '');
+
+    const rowsHtml = rows.map(row => {
+      let column = 0;
+      const cells = splitTopLevel(row, /&/).map(({ part }) => {
+        const multi = part.trim().match(/^\\multicolumn\s*\{(\d+)\}/);
+        let span = 1;
+        let content = part;
+        let align = alignments[column] || 'left';
+        if (multi) {
+          const count = readGroup(part.trim(), '\\multicolumn'.length)!;
+          const colSpec = readGroup(part.trim(), count.end);
+          const cellContent = colSpec ? readGroup(part.trim(), colSpec.end) : null;
+          span = parseInt(multi[1], 10) || 1;
+          align = colSpec ? (this.parseColumnSpec(colSpec.content)[0] || align) : align;
+          content = cellContent ? cellContent.content : '';
+        }
+        column += span;
+        const spanAttr = span > 1 ? ` colspan="${span}"` : '';
+        return `<td${spanAttr} style="text-align: ${align}">${this.inline(content.trim())}</td>`;
+      }).join('');
+      return `<tr>${cells}</tr>`;
+    }).join('');
+
+    return `<table class="latex-table"><tbody>${rowsHtml}</tbody></table>`;
+  }
+
+  private parseColumnSpec(spec: string): string[] {
+    const alignments: string[] = [];
+    const cleaned = spec.replace(/[@!>]\{[^}]*\}|<\{[^}]*\}/g, '');
+    for (let i = 0; i < cleaned.length; i++) {
+      const ch = cleaned[i];
+      if (ch === 'l') alignments.push('left');
+      else if (ch === 'c') alignments.push('center');
+      else if (ch === 'r') alignments.push('right');
+      else if (ch === 'p' || ch === 'm' || ch === 'b' || ch === 'X') {
+        alignments.push('left');
+        const group = readGroup(cleaned, i + 1);
+        if (group) i = group.end - 1;
+      } else if (ch === '*') {
+        // *{3}{c} 重复列
+        const count = readGroup(cleaned, i + 1);
+        const repeated = count ? readGroup(cleaned, count.end) : null;
+        if (count && repeated) {
+          const times = parseInt(count.content, 10) || 1;
+          const inner = this.parseColumnSpec(repeated.content);
+          for (let n = 0; n < times; n++) alignments.push(...inner);
+          i = repeated.end - 1;
+        }
+      }
+    }
+    return alignments;
+  }
+
+  private renderImage(name: string): string {
+    const baseName = name.split('/').pop() || name;
+    const stem = baseName.replace(/\.[a-zA-Z0-9]+$/, '');
+    const image = this.context.images.find(img =>
+      img.name === name ||
+      img.name === baseName ||
+      img.name.replace(/\.[a-zA-Z0-9]+$/, '') === stem ||
+      img.id === stem
+    );
+
+    if (image && /^data:image\//.test(image.dataUrl || '')) {
+      return `<img class="latex-image" src="${escapeHtml(image.dataUrl)}" alt="${escapeHtml(image.description || image.name)}" />`;
+    }
+    return `<span class="latex-image-placeholder">🖼 ${escapeHtml(name)}<br /><small>图片资源中未找到该图片</small></span>`;
+  }
+
+  private convertCitation(text: string, start: number, textual: boolean): { html: string; end: number } {
+    let end = start;
+    const notes: string[] = [];
+    for (let n = 0; n < 2; n++) {
+      const optional = readOptional(text, end);
+      if (!optional) break;
+      notes.push(optional.content);
+      end = optional.end;
+    }
+    const group = readGroup(text, end);
+    if (!group) return { html: '', end };
+
+    const keys = group.content.split(',').map(key => key.trim()).filter(Boolean);
+    const parts = keys.map(key => {
+      const number = this.info.citationNumbers[key];
+      const reference = this.findReference(key);
+      if (!reference && this.info.bibItems[key] === undefined) {
+        return `<span class="latex-cite-missing" title="未找到引用：${escapeHtml(key)}">${escapeHtml(key)}?</span>`;
+      }
+      const title = reference ? `${reference.authors?.[0] || ''} ${reference.year || ''} ${reference.title}`.trim() : key;
+      const label = textual && reference
+        ? `${escapeHtml(this.firstAuthorSurname(reference))} [${number}]`
+        : String(number);
+      return `<a class="latex-cite" href="#latex-bib-${escapeHtml(key)}" title="${escapeHtml(title)}">${label}</a>`;
+    });
+
+    // biblatex/natbib 中只有一个可选参数时是后注（如页码）
+    const postNote = notes.length > 0 ? `, ${this.inline(notes[notes.length - 1])}` : '';
+    const html = textual ? parts.join(', ') : `[${parts.join(', ')}${postNote}]`;
+    return { html: `<span class="latex-citation">${html}</span>`, end: group.end };
+  }
+
+  private findReference(key: string): Reference | undefined {
+    return this.context.references.find(ref => ref.citationKey === key || ref.id === key);
+  }
+
+  private firstAuthorSurname(reference: Reference): string {
+    const first = reference.authors?.[0] || '';
+    const surname = first.includes(',') ? first.split(',')[0] : first.split(/\s+/).pop() || first;
+    return reference.authors && reference.authors.length > 1 ? `${surname} 等` : surname;
+  }
+
+  private renderRef(label: string, parenthesized: boolean): string {
+    const number = this.info.labels[label];
+    if (number === undefined) {
+      return `<span class="latex-ref-missing" title="未找到标签：${escapeHtml(label)}">??</span>`;
+    }
+    const text = parenthesized ? `(${number})` : number;
+    return `<a class="latex-ref" href="#${this.anchorId(label)}">${escapeHtml(text)}</a>`;
+  }
+
+  private anchorId(label: string): string {
+    return `latex-label-${escapeHtml(label.replace(/\s+/g, '-'))}`;
+  }
+
+  /**
+   * 根据引用顺序生成参考文献列表（\bibliography / \printbibliography）
+   */
+  private renderBibliography(): string {
+    const items = this.info.citationOrder.map(key => {
+      const reference = this.findReference(key);
+      const number = this.info.citationNumbers[key];
+      const content = reference
+        ? formatReference(reference)
+        : `<span class="latex-cite-missing">${escapeHtml(key)}（资源库中未找到）</span>`;
+      return `<li id="latex-bib-${escapeHtml(key)}"><span class="latex-bib-number">[${number}]</span> ${content}</li>`;
+    }).join('');
+
+    return `<div class="latex-bibliography"><h2 class="latex-heading">参考文献</h2>` +
+      (items ? `<ol class="latex-bib-list">${items}</ol>` : '<div class="latex-placeholder">暂无引用</div>') +
+      `</div>`;
+  }
+
+  /**
+   * thebibliography 环境：按 \bibitem 渲染
+   */
+  private renderBibItems(body: string): string {
+    const items = splitTopLevel(body, /\\bibitem(?![a-zA-Z])/).slice(1).map(({ part }, index) => {
+      const optional = readOptional(part, 0);
+      const keyGroup = readGroup(part, optional ? optional.end : 0);
+      const key = keyGroup ? keyGroup.content.trim() : '';
+      const content = keyGroup ? part.slice(keyGroup.end) : part;
+      const number = this.info.citationNumbers[key] || index + 1;
+      return `<li id="latex-bib-${escapeHtml(key)}"><span class="latex-bib-number">[${number}]</span> ${this.inline(content.trim())}</li>`;
+    }).join('');
+
+    return `<div class="latex-bibliography"><h2 class="latex-heading">参考文献</h2><ol class="latex-bib-list">${items}</ol></div>`;
+  }
+}
+
+/**
+ * 读取导言区中的 \title、\author、\date
+ */
+function readPreambleCommand(source: string, name: string): string | null {
+  const match = new RegExp(`\\\\${name}\\s*(?:\\[[^\\]]*\\])?\\s*\\{`).exec(source);
+  if (!match) return null;
+  const group = readGroup(source, match.index + match[0].length - 1);
+  return group ? group.content.trim() : null;
+}
+
+/**
+ * 将 LaTeX 文档渲染为 HTML 块
+ */
+export function renderLatexDocument(source: string, context: LatexRenderContext): RenderedDocument {
+  const cleaned = stripComments(source);
+
+  const beginIndex = cleaned.indexOf('\\begin{document}');
+  const endIndex = cleaned.indexOf('\\end{document}');
+  const body = beginIndex === -1
+    ? cleaned
+    : cleaned.slice(beginIndex + '\\begin{document}'.length, endIndex === -1 ? undefined : endIndex);
+
+  const info: DocumentInfo = {
+    title: readPreambleCommand(cleaned, 'title') || '',
+    author: readPreambleCommand(cleaned, 'author') || '',
+    date: readPreambleCommand(cleaned, 'date') ?? '\\today',
+    labels: {},
+    citationOrder: [],
+    citationNumbers: {},
+    bibItems: {},
+  };
+
+  const sourceBlocks = scanDocument(splitBlocks(body), info);
+
+  // 上下文（编号、引用、资源）变化时所有块的缓存都失效
+  const contextKey = hashString(JSON.stringify([
+    info.title, info.author, info.date, info.labels, info.citationOrder, Object.keys(info.bibItems),
+    context.references.map(ref => [ref.id, ref.citationKey, ref.title, ref.authors, ref.year, ref.journal, ref.doi, ref.arxivId]),
+    context.images.map(img => [img.id, img.name, img.description, img.dataUrl ? img.dataUrl.length : 0]),
+  ]));
+
+  if (blockCache.size > MAX_CACHE_SIZE) {
+    blockCache.clear();
+  }
+
+  const missingCitations = new Set<string>();
+  const missingLabels = new Set<string>();
+  const seenKeys = new Map<string, number>();
+
+  const blocks = sourceBlocks.map(({ text, numbers }) => {
+    const cacheKey = `${contextKey}\u0000${numbers.join(',')}\u0000${text}`;
+    let html = blockCache.get(cacheKey);
+    if (html === undefined) {
+      html = new BlockRenderer(info, context, numbers).render(text);
+      blockCache.set(cacheKey, html);
+    }
+
+    // 内容相同的块加序号区分
+    const hash = hashString(cacheKey);
+    const occurrence = seenKeys.get(hash) || 0;
+    seenKeys.set(hash, occurrence + 1);
+    return { key: occurrence === 0 ? hash : `${hash}-${occurrence}`, html };
+  });
+
+  // 缺失的引用和标签由全文扫描结果得出，不依赖块缓存
+  for (const key of info.citationOrder) {
+    if (!context.references.some(ref => ref.citationKey === key || ref.id === key) && info.bibItems[key] === undefined) {
+      missingCitations.add(key);
+    }
+  }
+  for (const match of body.matchAll(/\\(?:ref|eqref|autoref|cref|Cref|pageref)\s*\{([^}]*)\}/g)) {
+    const label = match[1].trim();
+    if (info.labels[label] === undefined) missingLabels.add(label);
+  }
+
+  return {
+    blocks,
+    missingCitations: [...missingCitations],
+    missingLabels: [...missingLabels],
+  };
+}